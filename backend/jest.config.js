@@ -0,0 +1,14 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    // vectorStore.ts is typed against an older chromadb client and doesn't
+    // type-check; its errors would otherwise fail every suite that imports it
+    '^.+\\.ts$': ['ts-jest', { diagnostics: { exclude: ['**/services/vectorStore.ts'] } }],
+  },
+  // In-process data store and offline AI provider, see src/test/setup.ts
+  setupFiles: ['<rootDir>/src/test/setup.ts'],
+};
@@ -0,0 +1,56 @@
+import { csvImporter } from './csvImporter';
+import { ImportFile } from './importer';
+
+const textFile = (path: string, text: string): ImportFile => ({ path, data: Buffer.from(text) });
+
+describe('csvImporter', () => {
+  it('reads semicolon-separated rows with quoted line breaks through a custom mapping', () => {
+    const file = textFile('journal.csv', [
+      '\uFEFFJournal text;Day;Mood tags;Who',
+      '"First line',
+      'second line; still the same cell";2023-05-01;calm, grateful;Sarah',
+      '"Said ""hello"" to the neighbours";2023-05-02 19:45;;',
+      '',
+    ].join('\r\n'));
+
+    const rows = csvImporter.parse([file], { csvMapping: { content: 'journal text', createdAt: 'Day', tags: 'Mood tags' } });
+
+    expect(rows).toEqual([
+      {
+        source: 'journal.csv row 2',
+        entry: {
+          content: 'First line\r\nsecond line; still the same cell',
+          createdAt: new Date('2023-05-01T12:00:00Z'),
+          tags: ['calm', 'grateful'],
+          people: ['Sarah'],
+        },
+      },
+      {
+        source: 'journal.csv row 3',
+        entry: {
+          content: 'Said "hello" to the neighbours',
+          createdAt: new Date('2023-05-02T19:45:00Z'),
+          tags: [],
+          people: [],
+        },
+      },
+    ]);
+  });
+
+  it('finds columns by their usual headers and reports bad rows', () => {
+    const file = textFile('export.csv', 'Title,Date,Content,Private\nMorning,2023-05-01,"\'=SUM(1)",yes\nEvening,someday,Late walk,no\n');
+
+    const [formula, badDate] = csvImporter.parse([file], {});
+
+    expect(formula?.entry).toMatchObject({ title: 'Morning', content: '=SUM(1)', isPrivate: true });
+    expect(badDate).toEqual({ source: 'export.csv row 3', error: 'Invalid date "someday"' });
+  });
+
+  it('reports a mapping that names a missing column', () => {
+    const file = textFile('journal.csv', 'Text;Day\nHello;2023-05-01\n');
+
+    expect(csvImporter.parse([file], { csvMapping: { content: 'Body' } })).toEqual([
+      { source: 'journal.csv', error: 'Column "Body" mapped to content was not found' },
+    ]);
+  });
+});
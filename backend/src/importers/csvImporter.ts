@@ -0,0 +1,195 @@
+import {
+  CsvColumnMapping,
+  ImportFile,
+  ImportRow,
+  ImportedEntry,
+  MemoryImporter,
+  fileExtension,
+  parseImportDate,
+  readText,
+  toImportRow,
+  toNameList,
+} from './importer';
+
+type MappedField = keyof CsvColumnMapping;
+
+// Headers recognised for each field when the client sends no mapping, compared
+// lower-cased without punctuation. Covers MemoryNest's own memories.csv export.
+const COLUMN_ALIASES: Record<MappedField, string[]> = {
+  content: ['content', 'text', 'body', 'entry', 'note', 'notes', 'memory', 'description'],
+  createdAt: ['createdat', 'date', 'created', 'datetime', 'timestamp', 'day'],
+  title: ['title', 'subject', 'heading'],
+  tags: ['tags', 'tag', 'labels', 'categories'],
+  people: ['people', 'persons', 'with', 'who'],
+  location: ['location', 'place', 'address'],
+  weather: ['weather'],
+  isPrivate: ['isprivate', 'private'],
+};
+
+const DELIMITERS = [',', ';', '\t'];
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Spreadsheets exported with a European locale separate fields with semicolons
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const counts = DELIMITERS.map(delimiter => firstLine.split(delimiter).length);
+  return DELIMITERS[counts.indexOf(Math.max(...counts))] || ',';
+};
+
+// RFC 4180: quoted fields may contain delimiters, doubled quotes and line breaks
+const parseCsv = (text: string, delimiter: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+
+  return records;
+};
+
+// Undo the quote MemoryNest's export puts in front of text that starts like a formula
+const unescapeCell = (cell: string): string => (/^'[=+\-@\t\r]/.test(cell) ? cell.slice(1) : cell).trim();
+
+// Column index for each field: the client's mapping when given, otherwise the first recognised header
+const resolveColumns = (headers: string[], mapping: CsvColumnMapping | undefined): Partial<Record<MappedField, number>> | string => {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<Record<MappedField, number>> = {};
+
+  for (const name of Object.keys(COLUMN_ALIASES) as MappedField[]) {
+    const mapped: unknown = mapping?.[name];
+    if (mapped !== undefined && (typeof mapped !== 'string' || !mapped.trim())) {
+      return `Mapping for ${name} must be a column header`;
+    }
+    if (mapped) {
+      const index = normalized.indexOf(normalizeHeader(mapped));
+      if (index === -1) {
+        return `Column "${mapped}" mapped to ${name} was not found`;
+      }
+      columns[name] = index;
+      continue;
+    }
+
+    const index = normalized.findIndex(header => COLUMN_ALIASES[name].includes(header));
+    if (index !== -1) {
+      columns[name] = index;
+    }
+  }
+
+  if (columns.content === undefined) {
+    return 'No content column found; map one with mapping.content';
+  }
+  if (columns.createdAt === undefined) {
+    return 'No date column found; map one with mapping.createdAt';
+  }
+
+  return columns;
+};
+
+const toEntry = (cells: string[], columns: Partial<Record<MappedField, number>>): ImportedEntry | string => {
+  const value = (name: MappedField): string => {
+    const index = columns[name];
+    return index === undefined ? '' : unescapeCell(cells[index] || '');
+  };
+
+  const content = value('content');
+  if (!content) {
+    return 'Content is empty';
+  }
+
+  const dateText = value('createdAt');
+  const createdAt = parseImportDate(dateText);
+  if (!createdAt) {
+    return dateText ? `Invalid date "${dateText}"` : 'Date is empty';
+  }
+
+  const title = value('title');
+  const location = value('location');
+  const weather = value('weather');
+  const isPrivate = value('isPrivate');
+
+  return {
+    ...(title && { title }),
+    content,
+    createdAt,
+    tags: toNameList(value('tags')),
+    people: toNameList(value('people')),
+    ...(location && { location }),
+    ...(weather && { weather }),
+    ...(isPrivate && { isPrivate: TRUE_VALUES.includes(isPrivate.toLowerCase()) }),
+  };
+};
+
+const parseFile = (file: ImportFile, mapping: CsvColumnMapping | undefined): ImportRow[] => {
+  const text = readText(file);
+  const [headers, ...records] = parseCsv(text, detectDelimiter(text));
+
+  if (!headers) {
+    return [{ source: file.path, error: 'File is empty' }];
+  }
+
+  const columns = resolveColumns(headers, mapping);
+  if (typeof columns === 'string') {
+    return [{ source: file.path, error: columns }];
+  }
+
+  const rows: ImportRow[] = [];
+  records.forEach((cells, index) => {
+    if (cells.every(cell => !cell.trim())) {
+      return;
+    }
+    // Numbered as a spreadsheet shows them, with the header as row 1
+    rows.push(toImportRow(`${file.path} row ${index + 2}`, () => toEntry(cells, columns)));
+  });
+
+  return rows;
+};
+
+// Generic CSV with a header row; see COLUMN_ALIASES for the columns it finds by itself
+export const csvImporter: MemoryImporter = {
+  format: 'csv',
+
+  detect: (files) => files.some(file => fileExtension(file.path) === 'csv'),
+
+  parse: (files, options) =>
+    files
+      .filter(file => fileExtension(file.path) === 'csv')
+      .flatMap(file => parseFile(file, options.csvMapping)),
+};
+
+export default csvImporter;
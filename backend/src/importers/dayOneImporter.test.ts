@@ -0,0 +1,51 @@
+import { dayOneImporter } from './dayOneImporter';
+import { ImportFile } from './importer';
+
+const jsonFile = (path: string, value: unknown): ImportFile => ({ path, data: Buffer.from(JSON.stringify(value)) });
+
+describe('dayOneImporter', () => {
+  const journal = jsonFile('Journal.json', {
+    metadata: { version: '1.0' },
+    entries: [
+      {
+        creationDate: '2023-05-01T09:30:00Z',
+        text: '# Lisbon\n\nTram 28 up to the castle\\.\n\n![](dayone-moment://6F2A)\n\nGreat view\\!',
+        tags: ['travel', 'Travel', 'portugal'],
+        location: { placeName: 'Castelo', localityName: 'Lisbon', administrativeArea: 'Lisbon', country: 'Portugal' },
+        weather: { conditionsDescription: 'Sunny', temperatureCelsius: 21.6 },
+      },
+      { creationDate: '2023-05-02T09:30:00Z', text: '# Just a heading' },
+      { text: 'No date' },
+    ],
+  });
+
+  it('recognises Day One journals but not other JSON', () => {
+    expect(dayOneImporter.detect([journal])).toBe(true);
+    expect(dayOneImporter.detect([jsonFile('entry.json', { text: 'x', date_journal: 1 })])).toBe(false);
+  });
+
+  it('reads an entry\'s heading, text, tags, place and weather', () => {
+    const [row] = dayOneImporter.parse([journal], {});
+
+    expect(row).toEqual({
+      source: 'Journal.json entry 1',
+      entry: {
+        title: 'Lisbon',
+        content: 'Tram 28 up to the castle.\n\nGreat view!',
+        createdAt: new Date('2023-05-01T09:30:00Z'),
+        tags: ['travel', 'portugal'],
+        people: [],
+        location: 'Castelo, Lisbon, Portugal',
+        weather: 'Sunny, 22°C',
+      },
+    });
+  });
+
+  it('keeps a lone heading as the content and reports entries without a date', () => {
+    const [, headingOnly, undated] = dayOneImporter.parse([journal], {});
+
+    expect(headingOnly?.entry).toMatchObject({ content: 'Just a heading' });
+    expect(headingOnly?.entry).not.toHaveProperty('title');
+    expect(undated).toEqual({ source: 'Journal.json entry 3', error: 'Missing or invalid creationDate' });
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  ImportFile,
+  ImportRow,
+  ImportedEntry,
+  MemoryImporter,
+  asText,
+  fileExtension,
+  parseImportDate,
+  readJson,
+  splitMarkdownTitle,
+  toImportRow,
+  toNameList,
+} from './importer';
+
+// The parts of a Day One JSON export entry that map onto a memory. Entries
+// come from uploaded files, so every field is checked before it is used.
+interface DayOneEntry {
+  creationDate?: unknown;
+  text?: unknown;
+  tags?: unknown;
+  location?: unknown;
+  weather?: unknown;
+}
+
+// A nested object such as `location`, or an empty one when it is missing or malformed
+const asRecord = (value: unknown): Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+// Day One writes one <journal name>.json per journal, next to its media folders
+interface DayOneJournal {
+  metadata: unknown;
+  entries: unknown[];
+}
+
+const isDayOneJournal = (value: unknown): value is DayOneJournal =>
+  typeof value === 'object' && value !== null && 'metadata' in value && Array.isArray((value as { entries?: unknown }).entries);
+
+const journals = (files: ImportFile[]): { file: ImportFile; journal: DayOneJournal }[] =>
+  files
+    .filter(file => fileExtension(file.path) === 'json')
+    .map(file => ({ file, journal: readJson(file) }))
+    .filter((item): item is { file: ImportFile; journal: DayOneJournal } => isDayOneJournal(item.journal));
+
+// Media embeds point at files that aren't imported, and Day One backslash-escapes
+// Markdown punctuation in plain text ("Done\.")
+const cleanText = (text: string): string =>
+  text
+    .replace(/!\[[^\]]*\]\(dayone-moment:[^)]*\)/g, '')
+    .replace(/\\([\\`*_{}[\]()#+\-.!>|~])/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const joinParts = (parts: (string | undefined)[]): string | undefined => {
+  const unique = [...new Set(parts.map(part => part?.trim()).filter((part): part is string => !!part))];
+  return unique.length > 0 ? unique.join(', ') : undefined;
+};
+
+const toEntry = (raw: DayOneEntry): ImportedEntry | string => {
+  const createdAt = parseImportDate(raw.creationDate);
+  if (!createdAt) {
+    return 'Missing or invalid creationDate';
+  }
+
+  const { title, content } = splitMarkdownTitle(cleanText(asText(raw.text) || ''));
+  if (!content && !title) {
+    return 'Entry has no text';
+  }
+
+  const place = asRecord(raw.location);
+  const conditions = asRecord(raw.weather);
+  const temperature = typeof conditions.temperatureCelsius === 'number' && isFinite(conditions.temperatureCelsius)
+    ? `${Math.round(conditions.temperatureCelsius)}°C`
+    : undefined;
+  const location = joinParts([
+    asText(place.placeName),
+    asText(place.localityName),
+    asText(place.administrativeArea),
+    asText(place.country),
+  ]);
+  const weather = joinParts([asText(conditions.conditionsDescription), temperature]);
+
+  return {
+    // An entry that is only a heading keeps it as its content
+    ...(title && content && { title }),
+    content: content || title || '',
+    createdAt,
+    tags: toNameList(raw.tags),
+    people: [],
+    ...(location && { location }),
+    ...(weather && { weather }),
+  };
+};
+
+export const dayOneImporter: MemoryImporter = {
+  format: 'dayone',
+
+  detect: (files) => journals(files).length > 0,
+
+  parse: (files) => {
+    const rows: ImportRow[] = [];
+
+    for (const { file, journal } of journals(files)) {
+      journal.entries.forEach((raw, index) => {
+        rows.push(toImportRow(`${file.path} entry ${index + 1}`, () =>
+          typeof raw === 'object' && raw !== null && !Array.isArray(raw) ? toEntry(raw as DayOneEntry) : 'Entry is not an object'));
+      });
+    }
+
+    return rows;
+  },
+};
+
+export default dayOneImporter;
@@ -0,0 +1,145 @@
+export type ImportFormat = 'dayone' | 'journey' | 'markdown' | 'csv';
+
+// A file from the upload, or from inside an uploaded zip archive
+export interface ImportFile {
+  path: string;
+  data: Buffer;
+}
+
+// Which CSV column holds each memory field; headers are matched case-insensitively
+export interface CsvColumnMapping {
+  content?: string;
+  createdAt?: string;
+  title?: string;
+  tags?: string;
+  people?: string;
+  location?: string;
+  weather?: string;
+  isPrivate?: string;
+}
+
+export interface ImportOptions {
+  csvMapping?: CsvColumnMapping;
+}
+
+// One journal entry read from another app's export, before it is checked for
+// duplicates and its people are matched to the user's
+export interface ImportedEntry {
+  title?: string;
+  content: string;
+  createdAt: Date;
+  tags: string[];
+  people: string[];
+  location?: string;
+  weather?: string;
+  isPrivate?: boolean;
+}
+
+// `source` names the file and entry or row, so errors can point at it
+export interface ImportRow {
+  source: string;
+  entry?: ImportedEntry;
+  error?: string;
+}
+
+// Reads one app's export format
+export interface MemoryImporter {
+  readonly format: ImportFormat;
+  // Whether the files look like this format; used when the client doesn't say
+  detect(files: ImportFile[]): boolean;
+  parse(files: ImportFile[], options: ImportOptions): ImportRow[];
+}
+
+// Whether a client-supplied mapping names a header for every field it mentions;
+// JSON bodies can carry numbers or objects where a column header belongs
+export const isCsvColumnMapping = (value: unknown): value is CsvColumnMapping =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+  && Object.values(value).every(header => typeof header === 'string' && header.trim().length > 0);
+
+// Exports are untyped JSON, so a field is only used as text when it is text
+export const asText = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+// Converts one entry into a row, so an entry shaped in a way the importer didn't
+// expect is reported against its source instead of failing the whole import
+export const toImportRow = (source: string, convert: () => ImportedEntry | string): ImportRow => {
+  try {
+    const entry = convert();
+    return typeof entry === 'string' ? { source, error: entry } : { source, entry };
+  } catch (error) {
+    return { source, error: error instanceof Error ? `Could not read entry: ${error.message}` : 'Could not read entry' };
+  }
+};
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const NAIVE_DATE_TIME = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+// ISO dates and epoch milliseconds. Times without a zone are read as UTC, and
+// dates without a time as noon UTC, so the calendar day stays the same in
+// every timezone the app is likely to be viewed from.
+export const parseImportDate = (value: unknown): Date | null => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+
+  const text = value.trim();
+  const iso = DATE_ONLY.test(text)
+    ? `${text}T12:00:00Z`
+    : NAIVE_DATE_TIME.test(text) ? `${text.replace(' ', 'T')}Z` : text;
+  const date = new Date(iso);
+
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// A list given as an array or as text separated by commas or semicolons,
+// trimmed and without duplicates
+export const toNameList = (value: unknown): string[] => {
+  const items = Array.isArray(value)
+    ? value.map(item => String(item ?? ''))
+    : typeof value === 'string' ? value.split(/[;,]/) : [];
+  const seen = new Set<string>();
+
+  return items
+    .map(item => item.trim())
+    .filter(item => {
+      const key = item.toLowerCase();
+      if (!item || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+};
+
+// A leading "# Heading" becomes the title; the rest is the content
+export const splitMarkdownTitle = (text: string): { title?: string; content: string } => {
+  const match = text.trimStart().match(/^#{1,6}[ \t]+(.+?)[ \t#]*(?:\r?\n|$)([\s\S]*)$/);
+  if (!match?.[1]) {
+    return { content: text.trim() };
+  }
+  return { title: match[1].trim(), content: (match[2] || '').trim() };
+};
+
+export const fileExtension = (filePath: string): string => {
+  const name = filePath.split('/').pop() || '';
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+// UTF-8 text without a byte order mark
+export const readText = (file: ImportFile): string => file.data.toString('utf8').replace(/^\uFEFF/, '');
+
+// The JSON in a file, or undefined if it isn't valid JSON
+export const readJson = (file: ImportFile): unknown => {
+  try {
+    return JSON.parse(readText(file));
+  } catch (error) {
+    return undefined;
+  }
+};
@@ -0,0 +1,32 @@
+import { ImportFile, ImportFormat, MemoryImporter } from './importer';
+import { dayOneImporter } from './dayOneImporter';
+import { journeyImporter } from './journeyImporter';
+import { markdownImporter } from './markdownImporter';
+import { csvImporter } from './csvImporter';
+
+export * from './importer';
+export { dayOneImporter } from './dayOneImporter';
+export { journeyImporter } from './journeyImporter';
+export { markdownImporter } from './markdownImporter';
+export { csvImporter } from './csvImporter';
+
+// In detection order: the JSON formats are recognised by their fields, while
+// CSV and Markdown only by file extension
+const IMPORTERS: MemoryImporter[] = [dayOneImporter, journeyImporter, csvImporter, markdownImporter];
+
+export const IMPORT_FORMATS: ImportFormat[] = IMPORTERS.map(importer => importer.format);
+
+// Extensions any importer reads; other files in an upload, such as photos, are ignored
+export const IMPORTABLE_EXTENSIONS = ['json', 'csv', 'md', 'markdown', 'txt'];
+
+export const getImporter = (format: ImportFormat): MemoryImporter => {
+  const importer = IMPORTERS.find(candidate => candidate.format === format);
+  if (!importer) {
+    throw new Error(`Unknown import format: ${format}`);
+  }
+  return importer;
+};
+
+// The first importer that recognises the files, or null
+export const detectImporter = (files: ImportFile[]): MemoryImporter | null =>
+  IMPORTERS.find(importer => importer.detect(files)) || null;
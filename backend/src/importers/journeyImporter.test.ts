@@ -0,0 +1,48 @@
+import { ImportFile } from './importer';
+import { journeyImporter } from './journeyImporter';
+
+const jsonFile = (path: string, value: unknown): ImportFile => ({ path, data: Buffer.from(JSON.stringify(value)) });
+
+describe('journeyImporter', () => {
+  const entry = jsonFile('1683017400000-3f2a.json', {
+    text: '<p>Dinner with Sam &amp; Alex</p><ul><li>Pasta</li><li>Wine&#39;s on me</li></ul>',
+    date_journal: 1683017400000,
+    address: '',
+    tags: ['food'],
+    weather: { degree_c: 17.2, description: 'Cloudy', place: 'Porto' },
+  });
+
+  it('recognises a Journey entry file', () => {
+    expect(journeyImporter.detect([entry])).toBe(true);
+    expect(journeyImporter.detect([jsonFile('Journal.json', { metadata: {}, entries: [] })])).toBe(false);
+  });
+
+  it('turns the rich text into plain text and reads the date, place and weather', () => {
+    expect(journeyImporter.parse([entry], {})).toEqual([{
+      source: '1683017400000-3f2a.json',
+      entry: {
+        content: 'Dinner with Sam & Alex\n\n- Pasta\n- Wine\'s on me',
+        createdAt: new Date(1683017400000),
+        tags: ['food'],
+        people: [],
+        location: 'Porto',
+        weather: 'Cloudy, 17°C',
+      },
+    }]);
+  });
+
+  it('reads Markdown entries and numbers entries in a combined file', () => {
+    const combined = jsonFile('journey.json', [
+      { text: '# Hike\n\nUp the **ridge**', type: 'markdown', date_journal: 1683017400000 },
+      { text: '<p></p>', date_journal: 1683103800000 },
+    ]);
+
+    expect(journeyImporter.parse([combined], {})).toEqual([
+      {
+        source: 'journey.json entry 1',
+        entry: expect.objectContaining({ title: 'Hike', content: 'Up the **ridge**' }),
+      },
+      { source: 'journey.json entry 2', error: 'Entry has no text' },
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  ImportFile,
+  ImportRow,
+  ImportedEntry,
+  MemoryImporter,
+  fileExtension,
+  parseImportDate,
+  readJson,
+  splitMarkdownTitle,
+  toImportRow,
+  toNameList,
+} from './importer';
+
+// The parts of a Journey entry that map onto a memory. Journey exports one
+// JSON file per entry; its text is HTML unless `type` says markdown.
+interface JourneyEntry {
+  text?: string;
+  type?: string;
+  date_journal?: number;
+  address?: string;
+  tags?: string[];
+  weather?: {
+    degree_c?: number;
+    description?: string;
+    place?: string;
+  };
+}
+
+const isJourneyEntry = (value: unknown): value is JourneyEntry =>
+  typeof value === 'object' && value !== null && 'date_journal' in value && 'text' in value;
+
+const entryFiles = (files: ImportFile[]): { file: ImportFile; entries: JourneyEntry[] }[] =>
+  files
+    .filter(file => fileExtension(file.path) === 'json')
+    .map(file => {
+      const json = readJson(file);
+      const entries = (Array.isArray(json) ? json : [json]).filter(isJourneyEntry);
+      return { file, entries };
+    })
+    .filter(item => item.entries.length > 0);
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith('#x') || code.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(code.slice(2), 16));
+    }
+    if (code.startsWith('#')) {
+      return String.fromCodePoint(parseInt(code.slice(1), 10));
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+// Keep the paragraph and list structure of Journey's rich text as plain text
+const htmlToText = (html: string): string =>
+  decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<li[^>]*>/gi, '- ')
+      .replace(/<\/li>/gi, '\n')
+      .replace(/<\/(p|div|h[1-6]|ul|ol|blockquote)>/gi, '\n\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const toEntry = (raw: JourneyEntry): ImportedEntry | string => {
+  const createdAt = parseImportDate(raw.date_journal);
+  if (!createdAt) {
+    return 'Missing or invalid date_journal';
+  }
+
+  const text = raw.type === 'markdown' ? (raw.text || '').trim() : htmlToText(raw.text || '');
+  const { title, content } = splitMarkdownTitle(text);
+  if (!content && !title) {
+    return 'Entry has no text';
+  }
+
+  const location = raw.address?.trim() || raw.weather?.place?.trim();
+  const weather = [
+    raw.weather?.description?.trim(),
+    typeof raw.weather?.degree_c === 'number' ? `${Math.round(raw.weather.degree_c)}°C` : undefined,
+  ].filter(Boolean).join(', ');
+
+  return {
+    ...(title && content && { title }),
+    content: content || title || '',
+    createdAt,
+    tags: toNameList(raw.tags),
+    people: [],
+    ...(location && { location }),
+    ...(weather && { weather }),
+  };
+};
+
+export const journeyImporter: MemoryImporter = {
+  format: 'journey',
+
+  detect: (files) => entryFiles(files).length > 0,
+
+  parse: (files) => {
+    const rows: ImportRow[] = [];
+
+    for (const { file, entries } of entryFiles(files)) {
+      entries.forEach((raw, index) => {
+        const source = entries.length > 1 ? `${file.path} entry ${index + 1}` : file.path;
+        rows.push(toImportRow(source, () => toEntry(raw)));
+      });
+    }
+
+    return rows;
+  },
+};
+
+export default journeyImporter;
@@ -0,0 +1,59 @@
+import { ImportFile } from './importer';
+import { markdownImporter } from './markdownImporter';
+
+const textFile = (path: string, text: string): ImportFile => ({ path, data: Buffer.from(text) });
+
+describe('markdownImporter', () => {
+  it('reads an Obsidian daily note\'s front-matter, wiki links and inline tags', () => {
+    const note = textFile('Daily/2023-05-01 Lisbon.md', [
+      '---',
+      'tags: [travel]',
+      'people:',
+      '  - [[Sarah Chen]]',
+      '  - "[[Mike]]"',
+      'location: Lisbon',
+      'private: true',
+      '---',
+      '# Day in Lisbon',
+      '',
+      'Met [[Sarah Chen|Sarah]] at the [[Time Out Market]]. #food #1',
+    ].join('\n'));
+
+    expect(markdownImporter.parse([note], {})).toEqual([{
+      source: 'Daily/2023-05-01 Lisbon.md',
+      entry: {
+        title: 'Day in Lisbon',
+        content: 'Met Sarah at the Time Out Market. #food #1',
+        createdAt: new Date('2023-05-01T12:00:00Z'),
+        tags: ['travel', 'food'],
+        people: ['Sarah Chen', 'Mike'],
+        location: 'Lisbon',
+        isPrivate: true,
+      },
+    }]);
+  });
+
+  it('prefers the front-matter date and title and falls back to the file name', () => {
+    const [dated, named] = markdownImporter.parse([
+      textFile('notes/trip.md', '---\ndate: 2023-06-10T18:00:00\ntitle: Arrival\n---\nLanded late.'),
+      textFile('notes/2023-06-11 Beach day.md', 'Swam twice.'),
+    ], {});
+
+    expect(dated?.entry).toMatchObject({ title: 'Arrival', content: 'Landed late.', createdAt: new Date('2023-06-10T18:00:00Z') });
+    expect(named?.entry).toMatchObject({ title: 'Beach day', content: 'Swam twice.', createdAt: new Date('2023-06-11T12:00:00Z') });
+  });
+
+  it('reports notes without a date, with broken front-matter or without text', () => {
+    const rows = markdownImporter.parse([
+      textFile('ideas.md', 'No date here'),
+      textFile('2023-05-01.md', '---\ntags: [unclosed\n---\nText'),
+      textFile('2023-05-02.md', '---\ntitle: Empty\n---\n'),
+    ], {});
+
+    expect(rows.map(row => row.error)).toEqual([
+      'No date in the front-matter or file name',
+      expect.stringMatching(/^Invalid front-matter: /),
+      'Note is empty',
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+import yaml from 'js-yaml';
+import {
+  ImportFile,
+  ImportedEntry,
+  MemoryImporter,
+  fileExtension,
+  parseImportDate,
+  readText,
+  splitMarkdownTitle,
+  toImportRow,
+  toNameList,
+} from './importer';
+
+const MARKDOWN_EXTENSIONS = ['md', 'markdown', 'txt'];
+
+const FRONT_MATTER = /^---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+// Daily notes are named after their date ("2023-05-01.md", "2023-05-01 Lisbon.md")
+const FILE_NAME_DATE = /\d{4}-\d{2}-\d{2}/;
+// Obsidian tags need at least one non-digit, so "#1" isn't one
+const INLINE_TAG = /(?:^|\s)#([\p{L}_][\p{L}\p{N}_/-]*)/gu;
+// [[Page]] or [[Page|shown text]]
+const WIKI_LINK = /\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g;
+
+// Front-matter keys for each field, lower-cased
+const FIELD_KEYS = {
+  title: ['title'],
+  createdAt: ['date', 'created', 'created_at', 'createdat'],
+  tags: ['tags', 'tag'],
+  people: ['people', 'persons', 'with'],
+  location: ['location', 'place'],
+  weather: ['weather'],
+  isPrivate: ['private', 'isprivate', 'is_private'],
+};
+
+const isMarkdownFile = (file: ImportFile): boolean => MARKDOWN_EXTENSIONS.includes(fileExtension(file.path));
+
+// Read the YAML front-matter with the core schema, so dates stay text and get
+// the same handling as every other format
+const splitFrontMatter = (text: string): { fields: Record<string, unknown>; body: string } => {
+  const match = text.match(FRONT_MATTER);
+  if (!match) {
+    return { fields: {}, body: text };
+  }
+
+  const parsed = yaml.load(match[1] || '', { schema: yaml.CORE_SCHEMA });
+  const fields: Record<string, unknown> = {};
+  if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) {
+    for (const [key, value] of Object.entries(parsed)) {
+      fields[key.toLowerCase()] = value;
+    }
+  }
+
+  return { fields, body: text.slice(match[0].length) };
+};
+
+const field = (fields: Record<string, unknown>, name: keyof typeof FIELD_KEYS): unknown =>
+  FIELD_KEYS[name].map(key => fields[key]).find(value => value !== undefined && value !== null);
+
+// Unquoted "[[Sarah]]" in YAML is a nested list, so flatten before unwrapping links
+const linkNames = (value: unknown): string[] =>
+  toNameList(
+    (Array.isArray(value) ? value.flat(2) : [value])
+      .filter(item => typeof item === 'string')
+      .flatMap(item => (item as string).split(/[;,]/))
+      .map(item => item.replace(WIKI_LINK, '$1').replace(/^\[+|\]+$/g, ''))
+  );
+
+const inlineTags = (body: string): string[] =>
+  [...body.matchAll(INLINE_TAG)].map(match => match[1] || '');
+
+const fileTitle = (filePath: string): string | undefined => {
+  const name = (filePath.split('/').pop() || '').replace(/\.[^.]+$/, '');
+  const title = name.replace(FILE_NAME_DATE, '').replace(/^[\s_-]+|[\s_-]+$/g, '');
+  return title || undefined;
+};
+
+const toEntry = (file: ImportFile): ImportedEntry | string => {
+  let fields: Record<string, unknown>;
+  let body: string;
+  try {
+    ({ fields, body } = splitFrontMatter(readText(file)));
+  } catch (error) {
+    return `Invalid front-matter: ${error instanceof Error ? error.message.split('\n')[0] : 'could not parse YAML'}`;
+  }
+
+  const dateValue = field(fields, 'createdAt') ?? file.path.split('/').pop()?.match(FILE_NAME_DATE)?.[0];
+  const createdAt = parseImportDate(dateValue);
+  if (!createdAt) {
+    return dateValue === undefined
+      ? 'No date in the front-matter or file name'
+      : `Invalid date "${String(dateValue)}"`;
+  }
+
+  // Links read as plain text once out of Obsidian
+  const text = body.replace(WIKI_LINK, (_link, page: string, shown?: string) => shown || page);
+  const heading = splitMarkdownTitle(text);
+  const titleField = field(fields, 'title');
+  const frontMatterTitle = typeof titleField === 'string' && titleField.trim() ? titleField.trim() : undefined;
+  // A leading heading is dropped from the content when it is the title
+  const headingIsTitle = !!heading.title && !!heading.content && (!frontMatterTitle || frontMatterTitle === heading.title);
+  const title = frontMatterTitle || (headingIsTitle ? heading.title : undefined) || fileTitle(file.path);
+  const content = headingIsTitle ? heading.content : text.trim();
+
+  if (!content) {
+    return 'Note is empty';
+  }
+
+  const location = field(fields, 'location');
+  const weather = field(fields, 'weather');
+  const isPrivate = field(fields, 'isPrivate');
+
+  return {
+    ...(title && { title }),
+    content,
+    createdAt,
+    tags: toNameList([...toNameList(field(fields, 'tags')), ...inlineTags(body)].map(tag => tag.replace(/^#/, ''))),
+    people: linkNames(field(fields, 'people')),
+    ...(typeof location === 'string' && location.trim() && { location: location.trim() }),
+    ...(typeof weather === 'string' && weather.trim() && { weather: weather.trim() }),
+    ...(typeof isPrivate === 'boolean' && { isPrivate }),
+  };
+};
+
+// Plain Markdown files and Obsidian daily notes
+export const markdownImporter: MemoryImporter = {
+  format: 'markdown',
+
+  detect: (files) => files.some(isMarkdownFile),
+
+  parse: (files) =>
+    files.filter(isMarkdownFile).map(file => toImportRow(file.path, () => toEntry(file))),
+};
+
+export default markdownImporter;
@@ -6,14 +6,27 @@ import { config } from 'dotenv';
 import { errorHandler } from './middleware/errorHandler';
 import { notFoundHandler } from './middleware/notFoundHandler';
 import { authenticateUser } from './middleware/auth';
+import { initializeRepositories } from './repositories';
+import { initializeChromaDB } from './services/vectorStore';
+import { startJobWorker } from './services/jobQueue';
+import { registerMemoryEnrichmentJobs } from './services/memoryEnrichmentService';
+import { registerExportJobs } from './services/exportService';
+import { registerNudgeJobs, startNudgeScheduler } from './services/nudgeSchedulerService';
+import { registerNotificationJobs, startDigestScheduler } from './services/notificationService';
+import { registerPasswordResetJobs } from './services/passwordResetService';
+import { logger } from './utils/logger';
 
 // Import routes
 import authRoutes from './routes/auth';
 import memoriesRoutes from './routes/memories';
+import exportRoutes from './routes/exports';
+import importRoutes from './routes/imports';
 import peopleRoutes from './routes/people';
 import nudgesRoutes from './routes/nudges';
+import notificationsRoutes from './routes/notifications';
 import dashboardRoutes from './routes/dashboard';
 import aiRoutes from './routes/ai';
+import mediaRoutes from './routes/media';
 
 // Load environment variables
 config();
@@ -46,21 +59,52 @@ app.get('/health', (req, res) => {
 
 // API routes
 app.use('/api/auth', authRoutes);
+// Mounted ahead of the memories router so /export isn't taken for a memory id
+app.use('/api/memories/export', authenticateUser, exportRoutes);
+app.use('/api/memories/import', authenticateUser, importRoutes);
 app.use('/api/memories', authenticateUser, memoriesRoutes);
 app.use('/api/people', authenticateUser, peopleRoutes);
 app.use('/api/nudges', authenticateUser, nudgesRoutes);
+app.use('/api/notifications', authenticateUser, notificationsRoutes);
 app.use('/api/dashboard', authenticateUser, dashboardRoutes);
 app.use('/api/ai', authenticateUser, aiRoutes);
+// Checks the Authorization header or a signed link itself, so <img> and <audio> can load media
+app.use('/api/media', mediaRoutes);
 
 // Error handling middleware
 app.use(notFoundHandler);
 app.use(errorHandler);
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`🚀 Server running on port ${PORT}`);
-  console.log(`📊 Health check: http://localhost:${PORT}/health`);
-  console.log(`🔗 API Base URL: http://localhost:${PORT}/api`);
+// Start server once storage is ready
+const startServer = async (): Promise<void> => {
+  await initializeRepositories();
+
+  // Semantic search is optional; memories are still stored without it
+  try {
+    await initializeChromaDB();
+  } catch (error) {
+    logger.warn('ChromaDB unavailable; memory embeddings are disabled');
+  }
+
+  registerMemoryEnrichmentJobs();
+  registerExportJobs();
+  registerNudgeJobs();
+  registerNotificationJobs();
+  registerPasswordResetJobs();
+  startJobWorker();
+  startNudgeScheduler();
+  startDigestScheduler();
+
+  app.listen(PORT, () => {
+    console.log(`🚀 Server running on port ${PORT}`);
+    console.log(`📊 Health check: http://localhost:${PORT}/health`);
+    console.log(`🔗 API Base URL: http://localhost:${PORT}/api`);
+  });
+};
+
+startServer().catch((error) => {
+  logger.error('Failed to start server:', error);
+  process.exit(1);
 });
 
 app.get('/favicon.ico', (req, res) => res.status(204).end());
@@ -1,5 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { User } from '../types';
+import { getUserRepository } from '../repositories';
+import { isIssuedBeforePasswordChange, toPublicUser, verifyAccessToken } from '../services/authService';
+import { logger } from '../utils/logger';
 
 // Extend Express Request interface to include user
 declare global {
@@ -10,78 +13,71 @@ declare global {
   }
 }
 
-// Mock user for development - in production this would be replaced with proper auth
-const mockUsers: User[] = [
-  {
-    id: 'user-1',
-    email: 'alice@example.com',
-    name: 'Alice Johnson',
-    avatar: 'https://images.unsplash.com/photo-1494790108755-2616b612b786?w=150&h=150&fit=crop&crop=face',
-    preferences: {
-      theme: 'light',
-      notifications: true,
-      privacy: 'private'
-    },
-    createdAt: new Date('2024-01-01'),
-    updatedAt: new Date('2024-01-01')
-  },
-  {
-    id: 'user-2',
-    email: 'bob@example.com',
-    name: 'Bob Smith',
-    avatar: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=150&h=150&fit=crop&crop=face',
-    preferences: {
-      theme: 'dark',
-      notifications: false,
-      privacy: 'friends'
-    },
-    createdAt: new Date('2024-01-02'),
-    updatedAt: new Date('2024-01-02')
-  },
-  {
-    id: 'user-3',
-    email: 'carol@example.com',
-    name: 'Carol Davis',
-    avatar: 'https://images.unsplash.com/photo-1438761681033-6461ffad8d80?w=150&h=150&fit=crop&crop=face',
-    preferences: {
-      theme: 'light',
-      notifications: true,
-      privacy: 'public'
-    },
-    createdAt: new Date('2024-01-03'),
-    updatedAt: new Date('2024-01-03')
+// Extract the bearer token from the Authorization header
+const getBearerToken = (req: Request): string | undefined => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return undefined;
   }
-];
-
-export const authenticateUser = (req: Request, res: Response, next: NextFunction): void => {
-  // For development, use the first user as default
-  // In a real app, this would check for a valid token
-  const userId = req.headers['x-user-id'] as string || 'user-1';
-  
-  const user = mockUsers.find(u => u.id === userId);
-  
-  if (!user) {
+  return header.slice('Bearer '.length).trim() || undefined;
+};
+
+// Verify the access token and load the user it was issued to
+const resolveUser = async (token: string): Promise<User | null> => {
+  const payload = verifyAccessToken(token);
+  const user = await getUserRepository().findById(payload.sub);
+
+  if (!user || isIssuedBeforePasswordChange(user, payload.iat)) {
+    return null;
+  }
+
+  return toPublicUser(user);
+};
+
+export const authenticateUser = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const token = getBearerToken(req);
+
+  if (!token) {
     res.status(401).json({
       success: false,
-      error: 'User not found'
+      error: 'Authentication required'
     });
     return;
   }
 
-  req.user = user;
-  next();
+  try {
+    const user = await resolveUser(token);
+
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Session is no longer valid'
+      });
+      return;
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    // Token errors are mapped to 401 responses by the error handler
+    next(error);
+  }
 };
 
-export const optionalAuth = (req: Request, res: Response, next: NextFunction): void => {
-  const userId = req.headers['x-user-id'] as string;
-  
-  if (userId) {
-    const user = mockUsers.find(u => u.id === userId);
-    if (user) {
-      req.user = user;
+export const optionalAuth = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const token = getBearerToken(req);
+
+  if (token) {
+    try {
+      const user = await resolveUser(token);
+      if (user) {
+        req.user = user;
+      }
+    } catch (error) {
+      logger.debug('Ignoring invalid token on optionally authenticated route');
     }
   }
-  
+
   next();
 };
 
@@ -111,8 +107,3 @@ export const requireRole = (roles: string[]) => {
     next();
   };
 };
-
-// Helper function to get mock users (for testing/development)
-export const getMockUsers = (): User[] => {
-  return mockUsers;
-}; 
\ No newline at end of file
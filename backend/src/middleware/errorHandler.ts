@@ -29,7 +29,10 @@ export const errorHandler = (
   if (!(err instanceof CustomError)) {
     const statusCode = (err as any).statusCode || 500;
     const message = err.message || 'Something went wrong';
+    const name = err.name;
     err = new CustomError(message, statusCode);
+    // Keep the original name so library errors (JWT, Multer) map to the right response
+    err.name = name;
   }
 
   const customError = err as CustomError;
@@ -82,7 +85,7 @@ export const errorHandler = (
   }
 
   if (customError.name === 'MulterError') {
-    res.status(400).json({
+    res.status((error as any).code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({
       success: false,
       error: 'File Upload Error',
       message: customError.message,
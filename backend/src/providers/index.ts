@@ -0,0 +1,130 @@
+import { logger } from '../utils/logger';
+import { EmbeddingProvider, LLMProvider } from './llmProvider';
+import { createOpenAIProvider } from './openAIProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { createOfflineProvider } from './offlineProvider';
+import { createOfflineTranscriptionProvider } from './offlineTranscriptionProvider';
+import { TranscriptionProvider } from './transcriptionProvider';
+import { createWhisperAPIProvider } from './whisperApiProvider';
+import { createWhisperCppProvider } from './whisperCppProvider';
+
+export * from './llmProvider';
+export * from './transcriptionProvider';
+export { createOpenAIProvider } from './openAIProvider';
+export { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+export { createOfflineProvider } from './offlineProvider';
+export { createOfflineTranscriptionProvider } from './offlineTranscriptionProvider';
+export { createWhisperAPIProvider } from './whisperApiProvider';
+export { createWhisperCppProvider } from './whisperCppProvider';
+
+export interface AIProviders {
+  llm: LLMProvider;
+  embeddings: EmbeddingProvider;
+  transcription: TranscriptionProvider;
+}
+
+let providers: Partial<AIProviders> = {};
+
+// Build a provider by name ('openai', 'openai-compatible' or 'offline')
+const createProvider = (name: string): LLMProvider & EmbeddingProvider => {
+  switch (name) {
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error('Missing OPENAI_API_KEY for the openai AI provider');
+      }
+      return createOpenAIProvider({
+        apiKey,
+        model: process.env.OPENAI_MODEL || 'gpt-4o',
+        visionModel: process.env.OPENAI_VISION_MODEL || process.env.OPENAI_MODEL || 'gpt-4o',
+        embeddingModel: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
+      });
+    }
+    case 'openai-compatible': {
+      const baseUrl = process.env.LLM_BASE_URL;
+      if (!baseUrl) {
+        throw new Error('Missing LLM_BASE_URL for the openai-compatible AI provider');
+      }
+      return createOpenAICompatibleProvider({
+        baseUrl,
+        ...(process.env.LLM_API_KEY && { apiKey: process.env.LLM_API_KEY }),
+        model: process.env.LLM_MODEL || 'llama3',
+        visionModel: process.env.LLM_VISION_MODEL || process.env.LLM_MODEL || 'llama3',
+        embeddingModel: process.env.LLM_EMBEDDING_MODEL || 'nomic-embed-text',
+        timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '60000'),
+      });
+    }
+    case 'offline':
+      return createOfflineProvider({
+        dimensions: parseInt(process.env.EMBEDDING_DIMENSIONS || '1536'),
+      });
+    default:
+      throw new Error(`Unknown AI provider: ${name}`);
+  }
+};
+
+// Build a speech-to-text engine by name ('whisper-api', 'whisper-cpp' or 'offline')
+const createTranscriptionProvider = (name: string): TranscriptionProvider => {
+  switch (name) {
+    case 'whisper-api': {
+      const apiKey = process.env.TRANSCRIPTION_API_KEY || process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error('Missing OPENAI_API_KEY for the whisper-api transcription provider');
+      }
+      return createWhisperAPIProvider({
+        apiKey,
+        model: process.env.TRANSCRIPTION_MODEL || 'whisper-1',
+        ...(process.env.TRANSCRIPTION_BASE_URL && { baseUrl: process.env.TRANSCRIPTION_BASE_URL }),
+      });
+    }
+    case 'whisper-cpp': {
+      const modelPath = process.env.WHISPER_CPP_MODEL;
+      if (!modelPath) {
+        throw new Error('Missing WHISPER_CPP_MODEL for the whisper-cpp transcription provider');
+      }
+      return createWhisperCppProvider({
+        binaryPath: process.env.WHISPER_CPP_BINARY || 'whisper-cli',
+        modelPath,
+        ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+        timeoutMs: parseInt(process.env.WHISPER_CPP_TIMEOUT_MS || '300000'),
+        ...(process.env.WHISPER_CPP_THREADS && { threads: parseInt(process.env.WHISPER_CPP_THREADS) }),
+      });
+    }
+    case 'offline':
+      return createOfflineTranscriptionProvider();
+    default:
+      throw new Error(`Unknown transcription provider: ${name}`);
+  }
+};
+
+// Chosen by AI_PROVIDER; EMBEDDING_PROVIDER overrides it for embeddings only
+export const getLLMProvider = (): LLMProvider => {
+  if (!providers.llm) {
+    providers.llm = createProvider(process.env.AI_PROVIDER || 'openai');
+    logger.info(`Using ${providers.llm.name} LLM provider`);
+  }
+  return providers.llm;
+};
+
+export const getEmbeddingProvider = (): EmbeddingProvider => {
+  if (!providers.embeddings) {
+    providers.embeddings = createProvider(process.env.EMBEDDING_PROVIDER || process.env.AI_PROVIDER || 'openai');
+    logger.info(`Using ${providers.embeddings.name} embedding provider`);
+  }
+  return providers.embeddings;
+};
+
+// Chosen by TRANSCRIPTION_PROVIDER; with AI_PROVIDER=offline it defaults to the offline stub
+export const getTranscriptionProvider = (): TranscriptionProvider => {
+  if (!providers.transcription) {
+    const fallback = process.env.AI_PROVIDER === 'offline' ? 'offline' : 'whisper-api';
+    providers.transcription = createTranscriptionProvider(process.env.TRANSCRIPTION_PROVIDER || fallback);
+    logger.info(`Using ${providers.transcription.name} transcription provider`);
+  }
+  return providers.transcription;
+};
+
+// Swap in providers directly (used by tests)
+export const setAIProviders = (overrides: Partial<AIProviders>): void => {
+  providers = { ...providers, ...overrides };
+};
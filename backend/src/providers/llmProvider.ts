@@ -0,0 +1,51 @@
+// Prompts the AI service sends. Deterministic providers use the task and its
+// structured input instead of the rendered prompt text.
+export type AITask =
+  | 'summarize_memory'
+  | 'explain_results'
+  | 'generate_nudges'
+  | 'analyze_patterns'
+  | 'generate_insights'
+  | 'answer_question'
+  | 'describe_image'
+  | 'summarize_relationship';
+
+// An image shown to the model together with a message's text
+export interface ChatImage {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  // Only sent with user messages, and only to vision-capable models
+  images?: ChatImage[];
+}
+
+export interface CompletionRequest {
+  task: AITask;
+  messages: ChatMessage[];
+  input: Record<string, any>;
+  temperature?: number;
+  maxTokens?: number;
+  // Ask the model to reply with a single JSON object
+  json?: boolean;
+}
+
+export const hasImages = (request: CompletionRequest): boolean =>
+  request.messages.some(message => (message.images || []).length > 0);
+
+// Text generation backend
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: CompletionRequest): Promise<string>;
+  // Yields the reply in chunks as it is generated; stop iterating to cancel
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+// Text embedding backend
+export interface EmbeddingProvider {
+  readonly name: string;
+  embed(text: string): Promise<number[]>;
+}
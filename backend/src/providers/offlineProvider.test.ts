@@ -0,0 +1,70 @@
+import { createOfflineProvider } from './offlineProvider';
+import { createOfflineTranscriptionProvider } from './offlineTranscriptionProvider';
+
+const cosine = (a: number[], b: number[]): number => a.reduce((sum, value, i) => sum + value * (b[i] || 0), 0);
+
+describe('offline provider', () => {
+  const provider = createOfflineProvider({ dimensions: 256 });
+
+  it('embeds text deterministically as a unit vector', async () => {
+    const first = await provider.embed('Picnic with Sarah in the park');
+    const again = await provider.embed('Picnic with Sarah in the park');
+
+    expect(first).toHaveLength(256);
+    expect(again).toEqual(first);
+    expect(cosine(first, first)).toBeCloseTo(1);
+  });
+
+  it('places texts that share words closer together', async () => {
+    const query = await provider.embed('picnic in the park');
+    const related = await provider.embed('We had a picnic at the park on Sunday');
+    const unrelated = await provider.embed('Quarterly tax paperwork and invoices');
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it('answers structured tasks with JSON and streams the same answer', async () => {
+    const request = {
+      task: 'summarize_memory' as const,
+      messages: [{ role: 'user' as const, content: 'ignored by the offline provider' }],
+      input: { content: 'Went hiking with Sarah and felt so happy and grateful.', people: ['Sarah'] },
+    };
+
+    const answer = await provider.complete(request);
+    const summary = JSON.parse(answer);
+    expect(summary.people).toContain('Sarah');
+    expect(summary.mood).toBeGreaterThanOrEqual(1);
+
+    let streamed = '';
+    for await (const chunk of provider.stream(request)) {
+      streamed += chunk;
+    }
+    expect(streamed).toBe(answer);
+  });
+});
+
+describe('offline transcription provider', () => {
+  it('describes the recording the same way every time', async () => {
+    const provider = createOfflineTranscriptionProvider();
+    const request = { audio: Buffer.alloc(4096, 1), mimeType: 'audio/webm;codecs=opus', language: 'de' };
+
+    const transcription = await provider.transcribe(request);
+
+    expect(transcription.text).toMatch(/^Voice note \(webm, 4 KB\)/);
+    expect(transcription.language).toBe('de');
+    expect(await provider.transcribe(request)).toEqual(transcription);
+  });
+
+  it('is the default engine when AI_PROVIDER is offline', () => {
+    const configured = process.env.TRANSCRIPTION_PROVIDER;
+    delete process.env.TRANSCRIPTION_PROVIDER;
+    try {
+      jest.isolateModules(() => {
+        const { getTranscriptionProvider } = require('./index');
+        expect(getTranscriptionProvider().name).toBe('offline');
+      });
+    } finally {
+      process.env.TRANSCRIPTION_PROVIDER = configured;
+    }
+  });
+});
@@ -0,0 +1,326 @@
+import {
+  detectEmotion,
+  estimateMood,
+  extractKeywords,
+  extractNames,
+  summarizeText,
+  tokenize,
+} from '../utils/textAnalysis';
+import { CompletionRequest, EmbeddingProvider, LLMProvider } from './llmProvider';
+
+export interface OfflineProviderOptions {
+  dimensions: number;
+}
+
+// 32-bit FNV-1a
+const hashToken = (token: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Feature-hashed bag of words (plus bigrams), L2-normalised so cosine similarity
+// reflects word overlap
+const hashEmbedding = (text: string, dimensions: number): number[] => {
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = tokenize(text);
+  const features = [...tokens, ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)];
+
+  features.forEach(feature => {
+    const hash = hashToken(feature);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % dimensions] = (vector[hash % dimensions] || 0) + sign;
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (norm === 0) {
+    vector[0] = 1;
+    return vector;
+  }
+
+  return vector.map(value => value / norm);
+};
+
+const summarizeMemory = (input: Record<string, any>) => {
+  const content: string = input.content || '';
+  const people: string[] = input.people || [];
+  const imageCaptions: string[] = input.imageCaptions || [];
+  const emotions = detectEmotion(content);
+  const lowerContent = content.toLowerCase();
+
+  return {
+    summary: summarizeText([content, ...imageCaptions].join(' ')),
+    emotions,
+    tags: extractKeywords([content, ...imageCaptions].join(' '), 5),
+    people: [
+      ...people.filter(person => lowerContent.includes(person.toLowerCase())),
+      ...extractNames(content),
+    ],
+    mood: estimateMood(emotions),
+  };
+};
+
+// Camera-generated file name parts that say nothing about the picture
+const GENERIC_FILENAME_WORDS = new Set(['img', 'dsc', 'dcim', 'pxl', 'photo', 'image', 'picture', 'screenshot']);
+
+// The offline provider can't see pixels, so it describes the picture from its
+// file name and shape: "red-kayak.jpg" becomes "A landscape photo of red kayak."
+const describeImage = (input: Record<string, any>) => {
+  const filename: string = (input.filename || '').replace(/\.[^.]+$/, '');
+  const width: number | undefined = input.width;
+  const height: number | undefined = input.height;
+  const words = tokenize(filename).filter(word => !GENERIC_FILENAME_WORDS.has(word));
+  const subjects = extractKeywords(words.join(' '), 3);
+  const shape = width && height
+    ? width > height ? 'landscape ' : width < height ? 'portrait ' : 'square '
+    : '';
+
+  return {
+    caption: `A ${shape}photo${subjects.length > 0 ? ` of ${subjects.join(' ')}` : ''}.`,
+    tags: ['photo', ...subjects],
+  };
+};
+
+const explainResults = (input: Record<string, any>): string => {
+  const count = (input.memories || []).length;
+  const keywords = extractKeywords(input.query || '', 3);
+
+  return count === 0
+    ? 'No memories matched your query.'
+    : `Found ${count} ${count === 1 ? 'memory' : 'memories'} that share words with your query` +
+      (keywords.length > 0 ? ` (${keywords.join(', ')}).` : '.');
+};
+
+const generateNudges = (input: Record<string, any>) => {
+  const nudges: Array<Record<string, any>> = [];
+  const daysSinceLastMemory: number | undefined = input.daysSinceLastMemory;
+  const inactivePeople: string[] = input.inactivePeople || [];
+  const emotionalGaps: string[] = input.emotionalGaps || [];
+  const milestones: string[] = input.milestones || [];
+
+  if (milestones[0]) {
+    nudges.push({
+      type: 'milestone',
+      title: 'Celebrate a Milestone',
+      message: `${milestones[0]}. Take a moment to look back on how far you've come.`,
+      priority: 'medium',
+      relatedPeople: [],
+    });
+  }
+
+  if (daysSinceLastMemory === undefined || daysSinceLastMemory >= 3) {
+    nudges.push({
+      type: 'log_memory',
+      title: "Capture Today's Moments",
+      message: 'Take a minute to write down something that stood out today.',
+      priority: daysSinceLastMemory !== undefined && daysSinceLastMemory >= 7 ? 'high' : 'medium',
+      relatedPeople: [],
+    });
+  }
+
+  inactivePeople.slice(0, 2).forEach(person => {
+    nudges.push({
+      type: 'reconnect',
+      title: `Reconnect with ${person}`,
+      message: `It's been a while since you wrote about ${person}. Maybe reach out?`,
+      priority: 'medium',
+      relatedPeople: [person],
+    });
+  });
+
+  if (emotionalGaps.length > 0) {
+    nudges.push({
+      type: 'emotional_gap',
+      title: 'Reflect on How You Feel',
+      message: `You haven't written about feeling ${emotionalGaps.slice(0, 2).join(' or ')} lately. Any moments worth noting?`,
+      priority: 'low',
+      relatedPeople: [],
+    });
+  }
+
+  if (input.type) {
+    const person = inactivePeople[0];
+    // Generic wording for when nothing above matched the requested type
+    const fallbacks: Record<string, Record<string, any>> = {
+      log_memory: {
+        title: "Capture Today's Moments",
+        message: "What's one small moment from today worth remembering?",
+      },
+      reconnect: {
+        title: person ? `Reconnect with ${person}` : 'Reach Out to Someone',
+        message: person ? `How is ${person} doing? A quick message could brighten both your days.` : "Who haven't you talked to in a while? A quick message goes a long way.",
+      },
+      emotional_gap: {
+        title: 'Reflect on How You Feel',
+        message: emotionalGaps[0]
+          ? `When did you last feel ${emotionalGaps[0]}? Write about it.`
+          : 'Which feelings have been missing from your journal lately?',
+      },
+      person_reminder: {
+        title: person ? `Remember ${person}` : 'Remember Someone Special',
+        message: person
+          ? `Is anything coming up for ${person}, or something they told you that's worth writing down?`
+          : "Is there something about a friend you'd like to remember?",
+      },
+      milestone: {
+        title: 'Look How Far You Have Come',
+        message: 'Every memory counts. Look back at where your journal started.',
+      },
+    };
+    const match = nudges.find(nudge => nudge.type === input.type);
+    return {
+      nudges: [match || {
+        type: input.type,
+        priority: 'medium',
+        relatedPeople: person && (input.type === 'reconnect' || input.type === 'person_reminder') ? [person] : [],
+        ...fallbacks[input.type],
+      }],
+    };
+  }
+
+  if (nudges.length === 0) {
+    nudges.push({
+      type: 'log_memory',
+      title: 'Keep the Streak Going',
+      message: "You've been journaling regularly. What's one small moment from today?",
+      priority: 'low',
+      relatedPeople: [],
+    });
+  }
+
+  return { nudges };
+};
+
+const analyzePatterns = (input: Record<string, any>) => {
+  const memories: Array<{ mood?: number; emotion?: string }> = input.memories || [];
+  const counts = new Map<string, number>();
+  memories.forEach(memory => {
+    if (memory.emotion) {
+      counts.set(memory.emotion, (counts.get(memory.emotion) || 0) + 1);
+    }
+  });
+
+  const dominantEmotions = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([emotion]) => emotion);
+
+  // Memories arrive oldest first; compare the average mood of each half
+  const moods = memories.map(memory => memory.mood).filter((mood): mood is number => typeof mood === 'number');
+  const half = Math.floor(moods.length / 2);
+  const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / (values.length || 1);
+  const delta = half > 0 ? average(moods.slice(half)) - average(moods.slice(0, half)) : 0;
+  const moodTrend = delta > 0.5 ? 'improving' : delta < -0.5 ? 'declining' : 'stable';
+
+  const emotionalGaps = ['joy', 'gratitude', 'calm'].filter(emotion => !counts.has(emotion));
+
+  const recommendations = [
+    moodTrend === 'declining'
+      ? 'Your mood has dipped recently; consider noting small wins each day.'
+      : 'Keep capturing the moments that lift your mood.',
+    ...(emotionalGaps.length > 0 ? [`Look out for moments of ${emotionalGaps[0]} to write about.`] : []),
+  ];
+
+  return { dominantEmotions, moodTrend, emotionalGaps, recommendations };
+};
+
+const generateInsights = (input: Record<string, any>) => {
+  const memoryCount: number = input.memoryCount || 0;
+  const people: string[] = input.people || [];
+  const themes = extractKeywords((input.recentTitles || []).join(' '), 3);
+
+  return {
+    insights: [
+      `You have captured ${memoryCount} ${memoryCount === 1 ? 'memory' : 'memories'} so far.`,
+      ...(people.length > 0 ? [`Your memories include ${people.length} ${people.length === 1 ? 'person' : 'people'}.`] : []),
+    ],
+    patterns: themes.length > 0 ? [`Recent memories often mention ${themes.join(', ')}.`] : [],
+    suggestions: memoryCount < 5
+      ? ['Try capturing a memory every day this week.']
+      : ['Revisit an older memory and add how you feel about it now.'],
+  };
+};
+
+// Counts and dates from the memories, oldest first
+const summarizeRelationship = (input: Record<string, any>): string => {
+  const name: string = input.name || 'this person';
+  const memories: Array<{ date: string; mood?: number; emotion?: string; tags?: string[] }> = input.memories || [];
+  const [first] = memories;
+
+  if (!first) {
+    return `You haven't written about ${name} yet.`;
+  }
+
+  const since = new Date(first.date).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  const themes = extractKeywords(memories.flatMap(memory => memory.tags || []).join(' '), 3);
+  const moods = memories.map(memory => memory.mood).filter((mood): mood is number => typeof mood === 'number');
+  const averageMood = moods.reduce((sum, mood) => sum + mood, 0) / (moods.length || 1);
+
+  return [
+    `You have written about ${name} in ${memories.length} ${memories.length === 1 ? 'memory' : 'memories'} since ${since}.`,
+    ...(themes.length > 0 ? [`Your time together often involves ${themes.join(', ')}.`] : []),
+    ...(moods.length > 0 ? [`Your mood in these memories averages ${averageMood.toFixed(1)} out of 10.`] : []),
+  ].join(' ');
+};
+
+// Quotes the best-matching sources, citing each as [n]
+const answerQuestion = (input: Record<string, any>): string => {
+  const sources: Array<{ index: number; date: string; title: string; summary: string }> = input.sources || [];
+  const [first, ...rest] = sources;
+
+  if (!first) {
+    return "I couldn't find any memories that answer that.";
+  }
+
+  return [
+    `The closest memory is from ${first.date}: ${first.summary} [${first.index}]`,
+    ...rest.slice(0, 2).map(source => `You also wrote "${source.title}" on ${source.date} [${source.index}].`),
+  ].join(' ');
+};
+
+const respond = (request: CompletionRequest): string => {
+  switch (request.task) {
+    case 'summarize_memory':
+      return JSON.stringify(summarizeMemory(request.input));
+    case 'explain_results':
+      return explainResults(request.input);
+    case 'generate_nudges':
+      return JSON.stringify(generateNudges(request.input));
+    case 'analyze_patterns':
+      return JSON.stringify(analyzePatterns(request.input));
+    case 'generate_insights':
+      return JSON.stringify(generateInsights(request.input));
+    case 'answer_question':
+      return answerQuestion(request.input);
+    case 'describe_image':
+      return JSON.stringify(describeImage(request.input));
+    case 'summarize_relationship':
+      return summarizeRelationship(request.input);
+    default:
+      throw new Error(`Offline provider does not support task: ${request.task}`);
+  }
+};
+
+// Deterministic provider for tests and air-gapped installs: hash-based embeddings
+// and rule-based answers for each AI task. Never touches the network.
+export const createOfflineProvider = (options: OfflineProviderOptions): LLMProvider & EmbeddingProvider => ({
+  name: 'offline',
+
+  async complete(request: CompletionRequest): Promise<string> {
+    return respond(request);
+  },
+
+  // Replays the complete answer word by word
+  async *stream(request: CompletionRequest): AsyncIterable<string> {
+    for (const word of respond(request).match(/\S+\s*/g) || []) {
+      yield word;
+    }
+  },
+
+  async embed(text: string): Promise<number[]> {
+    return hashEmbedding(text, options.dimensions);
+  },
+});
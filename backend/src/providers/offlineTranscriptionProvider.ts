@@ -0,0 +1,26 @@
+import {
+  AUDIO_EXTENSIONS,
+  Transcription,
+  TranscriptionProvider,
+  TranscriptionRequest,
+  baseMimeType,
+} from './transcriptionProvider';
+
+// Stands in for a speech engine when AI_PROVIDER=offline. It can't hear the
+// audio, so the transcript only describes the recording; the same audio
+// always gives the same transcript.
+export const createOfflineTranscriptionProvider = (): TranscriptionProvider => ({
+  name: 'offline',
+
+  async transcribe(request: TranscriptionRequest): Promise<Transcription> {
+    const format = AUDIO_EXTENSIONS[baseMimeType(request.mimeType)] || 'audio';
+    const kilobytes = Math.max(1, Math.round(request.audio.length / 1024));
+    const text = `Voice note (${format}, ${kilobytes} KB). No speech engine is configured, so it was not transcribed.`;
+
+    return {
+      text,
+      language: request.language || 'en',
+      segments: [{ start: 0, end: 0, text }],
+    };
+  },
+});
@@ -0,0 +1,121 @@
+import { CompletionRequest, EmbeddingProvider, LLMProvider, hasImages } from './llmProvider';
+import { toOpenAIMessages } from './openAIProvider';
+
+export interface OpenAICompatibleProviderOptions {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  // Used instead of model for requests that include images, e.g. llava
+  visionModel: string;
+  embeddingModel: string;
+  timeoutMs: number;
+}
+
+// Talks to any server exposing the OpenAI REST API, such as llama.cpp, Ollama or vLLM
+export const createOpenAICompatibleProvider = (
+  options: OpenAICompatibleProviderOptions
+): LLMProvider & EmbeddingProvider => {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+  const send = async (path: string, body: Record<string, any>): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+      },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(options.timeoutMs),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`LLM server responded ${response.status} for ${path}: ${detail.slice(0, 200)}`);
+    }
+
+    return response;
+  };
+
+  const post = async (path: string, body: Record<string, any>): Promise<any> => (await send(path, body)).json();
+
+  const chatBody = (request: CompletionRequest) => ({
+    model: hasImages(request) ? options.visionModel : options.model,
+    messages: toOpenAIMessages(request.messages),
+    ...(request.temperature !== undefined && { temperature: request.temperature }),
+    ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+  });
+
+  return {
+    name: 'openai-compatible',
+
+    async complete(request: CompletionRequest): Promise<string> {
+      const data = await post('/chat/completions', {
+        ...chatBody(request),
+        ...(request.json && { response_format: { type: 'json_object' } }),
+      });
+
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string' || !content) {
+        throw new Error('No response from LLM server');
+      }
+
+      return content;
+    },
+
+    // Parses the server-sent events of a streamed chat completion
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+      const response = await send('/chat/completions', { ...chatBody(request), stream: true });
+      if (!response.body) {
+        throw new Error('No response body from LLM server');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) {
+            return;
+          }
+
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+
+          for (const line of lines) {
+            const data = line.trim().replace(/^data:\s*/, '');
+            if (!line.trim().startsWith('data:') || !data) {
+              continue;
+            }
+            if (data === '[DONE]') {
+              return;
+            }
+
+            const content = JSON.parse(data)?.choices?.[0]?.delta?.content;
+            if (typeof content === 'string' && content) {
+              yield content;
+            }
+          }
+        }
+      } finally {
+        reader.cancel().catch(() => undefined);
+      }
+    },
+
+    async embed(text: string): Promise<number[]> {
+      const data = await post('/embeddings', {
+        model: options.embeddingModel,
+        input: text,
+      });
+
+      const embedding = data?.data?.[0]?.embedding;
+      if (!Array.isArray(embedding)) {
+        throw new Error('No embedding returned from LLM server');
+      }
+
+      return embedding;
+    },
+  };
+};
@@ -0,0 +1,87 @@
+import OpenAI from 'openai';
+import { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { ChatMessage, CompletionRequest, EmbeddingProvider, LLMProvider, hasImages } from './llmProvider';
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  model: string;
+  // Used instead of model for requests that include images
+  visionModel: string;
+  embeddingModel: string;
+}
+
+// The chat message format shared by OpenAI and compatible servers. Images are
+// sent inline as data: URLs after the message text.
+export const toOpenAIMessages = (messages: ChatMessage[]): ChatCompletionMessageParam[] =>
+  messages.map(({ role, content, images = [] }) => {
+    if (role !== 'user' || images.length === 0) {
+      return { role, content };
+    }
+
+    return {
+      role,
+      content: [
+        { type: 'text' as const, text: content },
+        ...images.map(image => ({
+          type: 'image_url' as const,
+          image_url: { url: `data:${image.contentType};base64,${image.data.toString('base64')}` },
+        })),
+      ],
+    };
+  });
+
+export const createOpenAIProvider = (options: OpenAIProviderOptions): LLMProvider & EmbeddingProvider => {
+  const client = new OpenAI({ apiKey: options.apiKey });
+
+  return {
+    name: 'openai',
+
+    async complete(request: CompletionRequest): Promise<string> {
+      const response = await client.chat.completions.create({
+        model: hasImages(request) ? options.visionModel : options.model,
+        messages: toOpenAIMessages(request.messages),
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+        ...(request.json && { response_format: { type: 'json_object' as const } }),
+      });
+
+      const content = response.choices[0]?.message?.content;
+      if (!content) {
+        throw new Error('No response from OpenAI');
+      }
+
+      return content;
+    },
+
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+      const stream = await client.chat.completions.create({
+        model: hasImages(request) ? options.visionModel : options.model,
+        messages: toOpenAIMessages(request.messages),
+        stream: true,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+      });
+
+      for await (const chunk of stream) {
+        const content = chunk.choices[0]?.delta?.content;
+        if (content) {
+          yield content;
+        }
+      }
+    },
+
+    async embed(text: string): Promise<number[]> {
+      const response = await client.embeddings.create({
+        model: options.embeddingModel,
+        input: text,
+      });
+
+      const embedding = response.data[0]?.embedding;
+      if (!embedding) {
+        throw new Error('No embedding returned from OpenAI');
+      }
+
+      return embedding;
+    },
+  };
+};
@@ -0,0 +1,47 @@
+export interface TranscriptionRequest {
+  audio: Buffer;
+  // e.g. "audio/webm"; used to name the upload and pick a decoder
+  mimeType: string;
+  // ISO-639-1 code; detected from the audio when omitted
+  language?: string;
+}
+
+// Offsets are in seconds from the start of the audio
+export interface TranscriptionSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface Transcription {
+  text: string;
+  language: string;
+  // Seconds, when the engine reports it
+  duration?: number;
+  segments: TranscriptionSegment[];
+}
+
+// Speech-to-text backend
+export interface TranscriptionProvider {
+  readonly name: string;
+  transcribe(request: TranscriptionRequest): Promise<Transcription>;
+}
+
+// File extension engines expect for each supported MIME type
+export const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'video/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/m4a': 'm4a',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/flac': 'flac',
+};
+
+// "audio/webm;codecs=opus" -> "audio/webm"
+export const baseMimeType = (mimeType: string): string => (mimeType.split(';')[0] || '').trim().toLowerCase();
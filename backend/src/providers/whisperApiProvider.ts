@@ -0,0 +1,50 @@
+import OpenAI, { toFile } from 'openai';
+import {
+  AUDIO_EXTENSIONS,
+  Transcription,
+  TranscriptionProvider,
+  TranscriptionRequest,
+  baseMimeType,
+} from './transcriptionProvider';
+
+export interface WhisperAPIProviderOptions {
+  apiKey: string;
+  model: string;
+  // For self-hosted servers implementing the OpenAI audio API
+  baseUrl?: string;
+}
+
+export const createWhisperAPIProvider = (options: WhisperAPIProviderOptions): TranscriptionProvider => {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    ...(options.baseUrl && { baseURL: options.baseUrl }),
+  });
+
+  return {
+    name: 'whisper-api',
+
+    async transcribe(request: TranscriptionRequest): Promise<Transcription> {
+      const mimeType = baseMimeType(request.mimeType);
+      const extension = AUDIO_EXTENSIONS[mimeType] || 'webm';
+
+      const response = await client.audio.transcriptions.create({
+        file: await toFile(request.audio, `audio.${extension}`, { type: mimeType }),
+        model: options.model,
+        response_format: 'verbose_json',
+        timestamp_granularities: ['segment'],
+        ...(request.language && { language: request.language }),
+      });
+
+      return {
+        text: response.text.trim(),
+        language: response.language,
+        duration: response.duration,
+        segments: (response.segments || []).map(segment => ({
+          start: segment.start,
+          end: segment.end,
+          text: segment.text.trim(),
+        })),
+      };
+    },
+  };
+};
@@ -0,0 +1,85 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import {
+  AUDIO_EXTENSIONS,
+  Transcription,
+  TranscriptionProvider,
+  TranscriptionRequest,
+  baseMimeType,
+} from './transcriptionProvider';
+
+const run = promisify(execFile);
+
+export interface WhisperCppProviderOptions {
+  // The whisper.cpp CLI (whisper-cli, or main in older builds)
+  binaryPath: string;
+  modelPath: string;
+  // Used to convert non-WAV input to the 16 kHz mono WAV whisper.cpp expects
+  ffmpegPath: string;
+  threads?: number;
+  timeoutMs: number;
+}
+
+// Shape of the file written by `whisper-cli --output-json`
+interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription?: Array<{
+    offsets?: { from: number; to: number };
+    text?: string;
+  }>;
+}
+
+// Runs a local whisper.cpp build, so audio never leaves the machine
+export const createWhisperCppProvider = (options: WhisperCppProviderOptions): TranscriptionProvider => ({
+  name: 'whisper-cpp',
+
+  async transcribe(request: TranscriptionRequest): Promise<Transcription> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'memorynest-whisper-'));
+    const exec = (file: string, args: string[]) =>
+      run(file, args, { timeout: options.timeoutMs, maxBuffer: 10 * 1024 * 1024 });
+
+    try {
+      const extension = AUDIO_EXTENSIONS[baseMimeType(request.mimeType)] || 'webm';
+      const inputPath = path.join(workDir, `input.${extension}`);
+      const wavPath = path.join(workDir, 'audio.wav');
+      const outputBase = path.join(workDir, 'transcript');
+
+      await fs.writeFile(inputPath, request.audio);
+      await exec(options.ffmpegPath, [
+        '-loglevel', 'error', '-y', '-i', inputPath, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wavPath,
+      ]);
+
+      await exec(options.binaryPath, [
+        '-m', options.modelPath,
+        '-f', wavPath,
+        '-l', request.language || 'auto',
+        '--output-json',
+        '--output-file', outputBase,
+        ...(options.threads ? ['-t', String(options.threads)] : []),
+      ]);
+
+      const output: WhisperCppOutput = JSON.parse(await fs.readFile(`${outputBase}.json`, 'utf8'));
+      const segments = (output.transcription || [])
+        .map(segment => ({
+          start: (segment.offsets?.from || 0) / 1000,
+          end: (segment.offsets?.to || 0) / 1000,
+          text: (segment.text || '').trim(),
+        }))
+        .filter(segment => segment.text);
+
+      const last = segments[segments.length - 1];
+
+      return {
+        text: segments.map(segment => segment.text).join(' '),
+        language: output.result?.language || request.language || 'unknown',
+        ...(last && { duration: last.end }),
+        segments,
+      };
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  },
+});
@@ -0,0 +1,11 @@
+import { Attachment } from '../types';
+
+// Storage contract for memory attachments. Lookups are scoped to the owning user.
+export interface AttachmentRepository {
+  create(attachment: Attachment): Promise<Attachment>;
+  findById(userId: string, id: string): Promise<Attachment | null>;
+  // Oldest first
+  listByMemory(userId: string, memoryId: string): Promise<Attachment[]>;
+  update(userId: string, id: string, changes: Partial<Attachment>): Promise<Attachment | null>;
+  delete(userId: string, id: string): Promise<boolean>;
+}
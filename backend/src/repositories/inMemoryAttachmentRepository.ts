@@ -0,0 +1,53 @@
+import { Attachment } from '../types';
+import { AttachmentRepository } from './attachmentRepository';
+
+// Process-local attachment records for tests and local development
+export const createInMemoryAttachmentRepository = (): AttachmentRepository => {
+  const attachments = new Map<string, Attachment>();
+
+  const copy = (attachment: Attachment): Attachment => ({
+    ...attachment,
+    renditions: attachment.renditions.map(rendition => ({ ...rendition })),
+    ...(attachment.tags && { tags: [...attachment.tags] }),
+  });
+
+  const findOwned = (userId: string, id: string): Attachment | undefined => {
+    const attachment = attachments.get(id);
+    return attachment && attachment.userId === userId ? attachment : undefined;
+  };
+
+  return {
+    async create(attachment: Attachment): Promise<Attachment> {
+      attachments.set(attachment.id, copy(attachment));
+      return copy(attachment);
+    },
+
+    async findById(userId: string, id: string): Promise<Attachment | null> {
+      const attachment = findOwned(userId, id);
+      return attachment ? copy(attachment) : null;
+    },
+
+    async listByMemory(userId: string, memoryId: string): Promise<Attachment[]> {
+      return Array.from(attachments.values())
+        .filter(attachment => attachment.userId === userId && attachment.memoryId === memoryId)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+        .map(copy);
+    },
+
+    async update(userId: string, id: string, changes: Partial<Attachment>): Promise<Attachment | null> {
+      const attachment = findOwned(userId, id);
+      if (!attachment) {
+        return null;
+      }
+
+      const { id: _id, userId: _userId, ...rest } = changes;
+      const updated = copy({ ...attachment, ...rest });
+      attachments.set(id, updated);
+      return copy(updated);
+    },
+
+    async delete(userId: string, id: string): Promise<boolean> {
+      return findOwned(userId, id) ? attachments.delete(id) : false;
+    },
+  };
+};
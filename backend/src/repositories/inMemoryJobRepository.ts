@@ -0,0 +1,75 @@
+import { Job } from '../types';
+import { JobRepository } from './jobRepository';
+
+// Process-local job queue for tests and local development
+export const createInMemoryJobRepository = (): JobRepository => {
+  const jobs = new Map<string, Job>();
+
+  const isClaimable = (job: Job, now: number, lockTimeoutMs: number): boolean => {
+    if (job.status === 'pending') {
+      return job.runAt.getTime() <= now;
+    }
+    return job.status === 'processing' && !!job.lockedAt && job.lockedAt.getTime() <= now - lockTimeoutMs;
+  };
+
+  const copy = (job: Job): Job => ({ ...job, payload: { ...job.payload } });
+
+  return {
+    async enqueue(job: Job): Promise<Job> {
+      jobs.set(job.id, copy(job));
+      return copy(job);
+    },
+
+    async claimNext(lockTimeoutMs: number): Promise<Job | null> {
+      const now = Date.now();
+      const next = Array.from(jobs.values())
+        .filter(job => isClaimable(job, now, lockTimeoutMs))
+        .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())[0];
+
+      if (!next) {
+        return null;
+      }
+
+      next.status = 'processing';
+      next.attempts += 1;
+      next.lockedAt = new Date(now);
+      next.updatedAt = new Date(now);
+      return copy(next);
+    },
+
+    async complete(id: string): Promise<void> {
+      const job = jobs.get(id);
+      if (job) {
+        job.status = 'done';
+        delete job.lockedAt;
+        job.updatedAt = new Date();
+      }
+    },
+
+    async retry(id: string, error: string, retryAt: Date): Promise<void> {
+      const job = jobs.get(id);
+      if (job) {
+        job.status = 'pending';
+        job.lastError = error;
+        job.runAt = retryAt;
+        delete job.lockedAt;
+        job.updatedAt = new Date();
+      }
+    },
+
+    async fail(id: string, error: string): Promise<void> {
+      const job = jobs.get(id);
+      if (job) {
+        job.status = 'failed';
+        job.lastError = error;
+        delete job.lockedAt;
+        job.updatedAt = new Date();
+      }
+    },
+
+    async findById(id: string): Promise<Job | null> {
+      const job = jobs.get(id);
+      return job ? copy(job) : null;
+    },
+  };
+};
@@ -0,0 +1,52 @@
+import { createInMemoryMemoryRepository } from './inMemoryMemoryRepository';
+import { Memory } from '../types';
+
+const memory = (overrides: Partial<Memory>): Memory => ({
+  id: 'memory-1',
+  userId: 'user-1',
+  title: 'Picnic',
+  content: 'Picnic in the park',
+  people: [],
+  tags: [],
+  isPrivate: false,
+  createdAt: new Date('2024-05-01T12:00:00Z'),
+  updatedAt: new Date('2024-05-01T12:00:00Z'),
+  ...overrides,
+});
+
+describe('in-memory memory repository', () => {
+  it('treats another user\'s memory as missing', async () => {
+    const memories = createInMemoryMemoryRepository([memory({})]);
+
+    expect(await memories.findById('user-2', 'memory-1')).toBeNull();
+    expect(await memories.update('user-2', 'memory-1', { title: 'Mine now' })).toBeNull();
+    expect(await memories.delete('user-2', 'memory-1')).toBe(false);
+    expect((await memories.findById('user-1', 'memory-1'))?.title).toBe('Picnic');
+  });
+
+  it('copies records in and out', async () => {
+    const memories = createInMemoryMemoryRepository([memory({})]);
+
+    const found = await memories.findById('user-1', 'memory-1');
+    found!.title = 'Changed outside';
+
+    expect((await memories.findById('user-1', 'memory-1'))?.title).toBe('Picnic');
+  });
+
+  it('filters by people and date range, newest first', async () => {
+    const memories = createInMemoryMemoryRepository([
+      memory({ id: 'a', people: ['Sarah'], createdAt: new Date('2024-01-01') }),
+      memory({ id: 'b', people: ['Sarah', 'Tom'], createdAt: new Date('2024-03-01') }),
+      memory({ id: 'c', people: ['Tom'], createdAt: new Date('2024-02-01') }),
+      memory({ id: 'd', people: ['Sarah'], createdAt: new Date('2023-06-01') }),
+    ]);
+
+    const { memories: found, total } = await memories.list('user-1', {
+      people: ['Sarah'],
+      dateFrom: new Date('2024-01-01'),
+    });
+
+    expect(total).toBe(2);
+    expect(found.map(m => m.id)).toEqual(['b', 'a']);
+  });
+});
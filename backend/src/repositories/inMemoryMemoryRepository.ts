@@ -0,0 +1,152 @@
+import { Memory, MemoryStats } from '../types';
+import { tokenize } from '../utils/textAnalysis';
+import { MemoryListOptions, MemoryListResult, MemoryRepository, MemoryTextMatch } from './memoryRepository';
+
+// Process-local memory store for tests and local development.
+// Records are copied in and out so callers can't mutate stored state.
+export const createInMemoryMemoryRepository = (seed: Memory[] = []): MemoryRepository => {
+  const memories = new Map<string, Memory>();
+  seed.forEach(memory => memories.set(memory.id, { ...memory }));
+
+  const findOwned = (userId: string, id: string): Memory | undefined => {
+    const memory = memories.get(id);
+    return memory && memory.userId === userId ? memory : undefined;
+  };
+
+  const listOwned = (userId: string): Memory[] =>
+    Array.from(memories.values()).filter(memory => memory.userId === userId);
+
+  return {
+    async create(memory: Memory): Promise<Memory> {
+      memories.set(memory.id, { ...memory });
+      return { ...memory };
+    },
+
+    async findById(userId: string, id: string): Promise<Memory | null> {
+      const memory = findOwned(userId, id);
+      return memory ? { ...memory } : null;
+    },
+
+    async findByIds(userId: string, ids: string[]): Promise<Memory[]> {
+      return ids
+        .map(id => findOwned(userId, id))
+        .filter((memory): memory is Memory => Boolean(memory))
+        .map(memory => ({ ...memory }));
+    },
+
+    async list(userId: string, options: MemoryListOptions = {}): Promise<MemoryListResult> {
+      const limit = options.limit ?? 10;
+      const offset = options.offset ?? 0;
+      let filtered = listOwned(userId);
+
+      if (options.search) {
+        const searchTerm = options.search.toLowerCase();
+        filtered = filtered.filter(memory =>
+          memory.title.toLowerCase().includes(searchTerm) ||
+          memory.content.toLowerCase().includes(searchTerm)
+        );
+      }
+
+      if (options.tags && options.tags.length > 0) {
+        const tags = options.tags;
+        filtered = filtered.filter(memory => memory.tags?.some(tag => tags.includes(tag)));
+      }
+
+      if (options.people && options.people.length > 0) {
+        const people = options.people;
+        filtered = filtered.filter(memory => memory.people?.some(person => people.includes(person)));
+      }
+
+      const from = options.dateFrom?.getTime() ?? -Infinity;
+      const to = options.dateTo?.getTime() ?? Infinity;
+      filtered = filtered.filter(memory => {
+        const createdAt = new Date(memory.createdAt).getTime();
+        return createdAt >= from && createdAt <= to;
+      });
+
+      const direction = options.sortOrder === 'asc' ? 1 : -1;
+      filtered.sort((a, b) => direction * (new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()));
+
+      return {
+        memories: filtered.slice(offset, offset + limit).map(memory => ({ ...memory })),
+        total: filtered.length,
+      };
+    },
+
+    // Approximates search_memories: an exact phrase outranks partial term matches
+    async searchText(userId: string, query: string, limit: number): Promise<MemoryTextMatch[]> {
+      const phrase = query.trim().toLowerCase();
+      const terms = Array.from(new Set(tokenize(query)));
+      if (!phrase || terms.length === 0) {
+        return [];
+      }
+
+      return listOwned(userId)
+        .map(memory => {
+          const text = `${memory.title} ${memory.content} ${memory.summary || ''}`.toLowerCase();
+          const words = new Set(tokenize(text));
+          const matched = terms.filter(term => words.has(term)).length;
+          const score = (text.includes(phrase) ? 1 : 0) + matched / terms.length;
+          return { memory, score };
+        })
+        .filter(match => match.score > 0)
+        .sort((a, b) =>
+          b.score - a.score ||
+          new Date(b.memory.createdAt).getTime() - new Date(a.memory.createdAt).getTime()
+        )
+        .slice(0, limit)
+        .map(match => ({ memory: { ...match.memory }, score: match.score }));
+    },
+
+    async update(userId: string, id: string, changes: Partial<Memory>): Promise<Memory | null> {
+      const memory = findOwned(userId, id);
+      if (!memory) {
+        return null;
+      }
+
+      const { id: _id, userId: _userId, ...rest } = changes;
+      const updated: Memory = { ...memory, ...rest, updatedAt: new Date() };
+      memories.set(id, updated);
+      return { ...updated };
+    },
+
+    async delete(userId: string, id: string): Promise<boolean> {
+      if (!findOwned(userId, id)) {
+        return false;
+      }
+      return memories.delete(id);
+    },
+
+    async getStats(userId: string): Promise<MemoryStats> {
+      const userMemories = listOwned(userId);
+
+      const averageMood = userMemories.length > 0
+        ? userMemories.reduce((sum, memory) => sum + (memory.mood || 0), 0) / userMemories.length
+        : 0;
+
+      const emotionCounts: { [key: string]: number } = {};
+      userMemories.forEach(memory => {
+        const emotion = memory.emotions?.primary;
+        if (emotion) {
+          emotionCounts[emotion] = (emotionCounts[emotion] || 0) + 1;
+        }
+      });
+
+      const mostFrequentEmotion = Object.keys(emotionCounts).length > 0
+        ? Object.keys(emotionCounts).reduce((a, b) =>
+            (emotionCounts[a] || 0) >= (emotionCounts[b] || 0) ? a : b
+          )
+        : 'No emotions recorded';
+
+      const sevenDaysAgo = new Date();
+      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+
+      return {
+        totalMemories: userMemories.length,
+        averageMood: Math.round(averageMood * 10) / 10,
+        mostFrequentEmotion,
+        recentMemories: userMemories.filter(memory => new Date(memory.createdAt) > sevenDaysAgo).length,
+      };
+    },
+  };
+};
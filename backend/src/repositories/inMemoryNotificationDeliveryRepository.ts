@@ -0,0 +1,54 @@
+import { NotificationDelivery } from '../types';
+import { DeliveryListOptions, NotificationDeliveryRepository } from './notificationDeliveryRepository';
+
+const copy = (delivery: NotificationDelivery): NotificationDelivery => ({
+  ...delivery,
+  nudgeIds: [...delivery.nudgeIds],
+});
+
+// Process-local delivery log for tests and local development
+export const createInMemoryNotificationDeliveryRepository = (): NotificationDeliveryRepository => {
+  const deliveries = new Map<string, NotificationDelivery>();
+
+  const findOwned = (userId: string, id: string): NotificationDelivery | undefined => {
+    const delivery = deliveries.get(id);
+    return delivery && delivery.userId === userId ? delivery : undefined;
+  };
+
+  return {
+    async create(delivery: NotificationDelivery): Promise<NotificationDelivery> {
+      deliveries.set(delivery.id, copy(delivery));
+      return copy(delivery);
+    },
+
+    async findById(userId: string, id: string): Promise<NotificationDelivery | null> {
+      const delivery = findOwned(userId, id);
+      return delivery ? copy(delivery) : null;
+    },
+
+    async list(userId: string, options: DeliveryListOptions = {}): Promise<NotificationDelivery[]> {
+      const offset = options.offset || 0;
+
+      return Array.from(deliveries.values())
+        .filter(delivery => delivery.userId === userId)
+        .filter(delivery => !options.channel || delivery.channel === options.channel)
+        .filter(delivery => !options.kind || delivery.kind === options.kind)
+        .filter(delivery => !options.status || delivery.status === options.status)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .slice(offset, options.limit === undefined ? undefined : offset + options.limit)
+        .map(copy);
+    },
+
+    async update(userId: string, id: string, changes: Partial<NotificationDelivery>): Promise<NotificationDelivery | null> {
+      const delivery = findOwned(userId, id);
+      if (!delivery) {
+        return null;
+      }
+
+      const { id: _id, userId: _userId, ...rest } = changes;
+      const updated: NotificationDelivery = { ...delivery, ...rest, updatedAt: new Date() };
+      deliveries.set(id, updated);
+      return copy(updated);
+    },
+  };
+};
@@ -0,0 +1,61 @@
+import { Nudge } from '../types';
+import { NudgeListOptions, NudgeRepository, nudgeStatus } from './nudgeRepository';
+
+const copy = (nudge: Nudge): Nudge => ({
+  ...nudge,
+  relatedPeople: [...nudge.relatedPeople],
+  relatedMemories: [...nudge.relatedMemories],
+});
+
+// Process-local nudge store for tests and local development
+export const createInMemoryNudgeRepository = (): NudgeRepository => {
+  const nudges = new Map<string, Nudge>();
+
+  const findOwned = (userId: string, id: string): Nudge | undefined => {
+    const nudge = nudges.get(id);
+    return nudge && nudge.userId === userId ? nudge : undefined;
+  };
+
+  return {
+    async create(nudge: Nudge): Promise<Nudge> {
+      nudges.set(nudge.id, copy(nudge));
+      return copy(nudge);
+    },
+
+    async findById(userId: string, id: string): Promise<Nudge | null> {
+      const nudge = findOwned(userId, id);
+      return nudge ? copy(nudge) : null;
+    },
+
+    async list(userId: string, options: NudgeListOptions = {}): Promise<Nudge[]> {
+      const now = options.now || new Date();
+      const related = options.relatedPeople;
+      const offset = options.offset || 0;
+
+      return Array.from(nudges.values())
+        .filter(nudge => nudge.userId === userId)
+        .filter(nudge => !options.status || nudgeStatus(nudge, now) === options.status)
+        .filter(nudge => !related || nudge.relatedPeople.some(id => related.includes(id)))
+        .filter(nudge => !options.createdAfter || nudge.createdAt >= options.createdAfter)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .slice(offset, options.limit === undefined ? undefined : offset + options.limit)
+        .map(copy);
+    },
+
+    async update(userId: string, id: string, changes: Partial<Nudge>): Promise<Nudge | null> {
+      const nudge = findOwned(userId, id);
+      if (!nudge) {
+        return null;
+      }
+
+      const { id: _id, userId: _userId, ...rest } = changes;
+      const updated: Nudge = { ...nudge, ...rest, updatedAt: new Date() };
+      nudges.set(id, updated);
+      return copy(updated);
+    },
+
+    async delete(userId: string, id: string): Promise<boolean> {
+      return findOwned(userId, id) ? nudges.delete(id) : false;
+    },
+  };
+};
@@ -0,0 +1,38 @@
+import { PasswordResetTokenRecord } from '../types';
+import { PasswordResetTokenRepository } from './passwordResetTokenRepository';
+
+// Process-local password reset token store for tests and local development
+export const createInMemoryPasswordResetTokenRepository = (): PasswordResetTokenRepository => {
+  const tokens = new Map<string, PasswordResetTokenRecord>();
+
+  return {
+    async create(token: PasswordResetTokenRecord): Promise<PasswordResetTokenRecord> {
+      tokens.set(token.id, { ...token });
+      return { ...token };
+    },
+
+    async findByHash(tokenHash: string): Promise<PasswordResetTokenRecord | null> {
+      const token = Array.from(tokens.values()).find(t => t.tokenHash === tokenHash);
+      return token ? { ...token } : null;
+    },
+
+    async markUsed(id: string): Promise<boolean> {
+      const token = tokens.get(id);
+      if (!token || token.usedAt) {
+        return false;
+      }
+
+      token.usedAt = new Date();
+      return true;
+    },
+
+    async invalidateAllForUser(userId: string): Promise<void> {
+      const now = new Date();
+      tokens.forEach(token => {
+        if (token.userId === userId && !token.usedAt) {
+          token.usedAt = now;
+        }
+      });
+    },
+  };
+};
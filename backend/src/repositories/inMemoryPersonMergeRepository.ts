@@ -0,0 +1,163 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Memory, Person, PersonMerge } from '../types';
+import { MemoryRepository } from './memoryRepository';
+import { NudgeRepository } from './nudgeRepository';
+import { PersonMergeRepository } from './personMergeRepository';
+import { PersonRepository } from './personRepository';
+
+const PAGE_SIZE = 200;
+
+const unique = (names: string[]): string[] => Array.from(new Set(names));
+
+// Process-local counterpart of merge_people, undo_person_merge and rename_person for tests and
+// local development. It works through the other in-process repositories.
+export const createInMemoryPersonMergeRepository = (
+  people: PersonRepository,
+  memories: MemoryRepository,
+  nudges: NudgeRepository
+): PersonMergeRepository => {
+  const merges = new Map<string, PersonMerge>();
+
+  const copy = (merge: PersonMerge): PersonMerge => ({
+    ...merge,
+    addedAliases: [...merge.addedAliases],
+    sources: merge.sources.map(person => ({ ...person })),
+    memories: merge.memories.map(memory => ({ ...memory, people: [...memory.people] })),
+    nudges: merge.nudges.map(nudge => ({ ...nudge, relatedPeople: [...nudge.relatedPeople] })),
+  });
+
+  const findOwned = (userId: string, id: string): PersonMerge | undefined => {
+    const merge = merges.get(id);
+    return merge && merge.userId === userId ? merge : undefined;
+  };
+
+  const mentioning = async (userId: string, names: string[]): Promise<Memory[]> => {
+    const found: Memory[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await memories.list(userId, { people: names, limit: PAGE_SIZE, offset });
+      found.push(...page.memories);
+      if (page.memories.length < PAGE_SIZE) {
+        return found;
+      }
+    }
+  };
+
+  return {
+    async merge(userId: string, targetId: string, sourceIds: string[]): Promise<PersonMerge | null> {
+      const target = await people.findById(userId, targetId);
+      const sources = await Promise.all(unique(sourceIds).map(id => people.findById(userId, id)));
+      if (!target || sourceIds.includes(targetId) || sources.some(source => !source)) {
+        return null;
+      }
+
+      const merged = sources.filter((source): source is NonNullable<typeof source> => Boolean(source));
+      const sourceNames = merged.map(source => source.name);
+      const known = new Set([target.name, ...(target.aliases || [])].map(name => name.toLowerCase()));
+      const addedAliases = unique(merged.flatMap(source => [...(source.aliases || []), source.name]))
+        .filter(alias => !known.has(alias.toLowerCase()));
+      const affected = await mentioning(userId, sourceNames);
+      const relatedNudges = await nudges.list(userId, { relatedPeople: sourceIds });
+
+      const merge: PersonMerge = {
+        id: uuidv4(),
+        userId,
+        targetId,
+        addedAliases,
+        sources: merged,
+        memories: affected.map(memory => ({ id: memory.id, people: memory.people || [] })),
+        nudges: relatedNudges.map(nudge => ({ id: nudge.id, relatedPeople: nudge.relatedPeople })),
+        createdAt: new Date(),
+      };
+
+      for (const memory of affected) {
+        await memories.update(userId, memory.id, {
+          people: unique((memory.people || []).map(name => sourceNames.includes(name) ? target.name : name)),
+        });
+      }
+      for (const nudge of relatedNudges) {
+        await nudges.update(userId, nudge.id, {
+          relatedPeople: unique(nudge.relatedPeople.map(id => sourceIds.includes(id) ? targetId : id)),
+        });
+      }
+      await people.update(userId, targetId, { aliases: [...(target.aliases || []), ...addedAliases] });
+      for (const source of merged) {
+        await people.delete(userId, source.id);
+      }
+
+      merges.set(merge.id, merge);
+      return copy(merge);
+    },
+
+    async undo(userId: string, mergeId: string): Promise<PersonMerge | null> {
+      const merge = findOwned(userId, mergeId);
+      if (!merge || merge.undoneAt) {
+        return null;
+      }
+
+      const target = await people.findById(userId, merge.targetId);
+      for (const source of merge.sources) {
+        await people.create({ ...source });
+      }
+      if (target) {
+        await people.update(userId, target.id, {
+          aliases: (target.aliases || []).filter(alias => !merge.addedAliases.includes(alias)),
+        });
+      }
+
+      // The old people come back, and anyone added since stays
+      const current = await memories.findByIds(userId, merge.memories.map(memory => memory.id));
+      for (const before of merge.memories) {
+        const memory = current.find(candidate => candidate.id === before.id);
+        if (memory) {
+          await memories.update(userId, memory.id, {
+            people: unique([...before.people, ...(memory.people || []).filter(name => name !== target?.name)]),
+          });
+        }
+      }
+
+      for (const before of merge.nudges) {
+        const nudge = await nudges.findById(userId, before.id);
+        if (nudge) {
+          await nudges.update(userId, nudge.id, {
+            relatedPeople: unique([...before.relatedPeople, ...nudge.relatedPeople.filter(id => id !== merge.targetId)]),
+          });
+        }
+      }
+
+      merge.undoneAt = new Date();
+      return copy(merge);
+    },
+
+    async rename(userId: string, personId: string, name: string): Promise<Person | null> {
+      const person = await people.findById(userId, personId);
+      if (!person) {
+        return null;
+      }
+
+      for (const memory of await mentioning(userId, [person.name])) {
+        await memories.update(userId, memory.id, {
+          people: unique((memory.people || []).map(mentioned => mentioned === person.name ? name : mentioned)),
+        });
+      }
+
+      const aliases = (person.aliases || []).filter(alias => alias.toLowerCase() !== name.toLowerCase());
+      const keepsOldName = person.name.toLowerCase() !== name.toLowerCase() &&
+        !aliases.some(alias => alias.toLowerCase() === person.name.toLowerCase());
+
+      return people.update(userId, personId, { name, aliases: keepsOldName ? [...aliases, person.name] : aliases });
+    },
+
+    async findById(userId: string, id: string): Promise<PersonMerge | null> {
+      const merge = findOwned(userId, id);
+      return merge ? copy(merge) : null;
+    },
+
+    async list(userId: string, limit: number): Promise<PersonMerge[]> {
+      return Array.from(merges.values())
+        .filter(merge => merge.userId === userId)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .slice(0, limit)
+        .map(copy);
+    },
+  };
+};
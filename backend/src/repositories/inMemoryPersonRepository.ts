@@ -0,0 +1,76 @@
+import { Person } from '../types';
+import { trigramSimilarity } from '../utils/textAnalysis';
+import { PersonNameMatch, PersonRepository } from './personRepository';
+
+// pg_trgm's default similarity threshold for the % operator
+const SIMILARITY_THRESHOLD = 0.3;
+
+// Process-local people store for tests and local development
+export const createInMemoryPersonRepository = (): PersonRepository => {
+  const people = new Map<string, Person>();
+
+  const findOwned = (userId: string, id: string): Person | undefined => {
+    const person = people.get(id);
+    return person && person.userId === userId ? person : undefined;
+  };
+
+  // Mirrors UNIQUE(user_id, name) in database/schema.sql
+  const nameTaken = (person: Person): boolean =>
+    Array.from(people.values()).some(existing =>
+      existing.id !== person.id && existing.userId === person.userId && existing.name === person.name
+    );
+
+  return {
+    async create(person: Person): Promise<Person> {
+      if (nameTaken(person)) {
+        throw new Error('Resource already exists');
+      }
+      people.set(person.id, { ...person });
+      return { ...person };
+    },
+
+    async findById(userId: string, id: string): Promise<Person | null> {
+      const person = findOwned(userId, id);
+      return person ? { ...person } : null;
+    },
+
+    async list(userId: string): Promise<Person[]> {
+      return Array.from(people.values())
+        .filter(person => person.userId === userId)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(person => ({ ...person }));
+    },
+
+    async searchByName(userId: string, name: string, limit: number): Promise<PersonNameMatch[]> {
+      return Array.from(people.values())
+        .filter(person => person.userId === userId)
+        .map(person => ({
+          person: { ...person },
+          similarity: Math.max(...[person.name, ...(person.aliases || [])].map(known => trigramSimilarity(known, name))),
+        }))
+        .filter(match => match.similarity >= SIMILARITY_THRESHOLD)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, limit);
+    },
+
+    async update(userId: string, id: string, changes: Partial<Person>): Promise<Person | null> {
+      const person = findOwned(userId, id);
+      if (!person) {
+        return null;
+      }
+
+      const { id: _id, userId: _userId, ...rest } = changes;
+      const updated: Person = { ...person, ...rest, updatedAt: new Date() };
+      if (nameTaken(updated)) {
+        throw new Error('Resource already exists');
+      }
+
+      people.set(id, updated);
+      return { ...updated };
+    },
+
+    async delete(userId: string, id: string): Promise<boolean> {
+      return findOwned(userId, id) ? people.delete(id) : false;
+    },
+  };
+};
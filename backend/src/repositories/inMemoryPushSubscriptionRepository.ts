@@ -0,0 +1,38 @@
+import { PushSubscriptionRecord } from '../types';
+import { PushSubscriptionRepository } from './pushSubscriptionRepository';
+
+// Process-local push subscription store for tests and local development
+export const createInMemoryPushSubscriptionRepository = (): PushSubscriptionRepository => {
+  const subscriptions = new Map<string, PushSubscriptionRecord>();
+
+  const removeEndpoint = (endpoint: string): void => {
+    subscriptions.forEach((subscription, id) => {
+      if (subscription.endpoint === endpoint) {
+        subscriptions.delete(id);
+      }
+    });
+  };
+
+  return {
+    async save(subscription: PushSubscriptionRecord): Promise<PushSubscriptionRecord> {
+      removeEndpoint(subscription.endpoint);
+      subscriptions.set(subscription.id, { ...subscription });
+      return { ...subscription };
+    },
+
+    async listByUser(userId: string): Promise<PushSubscriptionRecord[]> {
+      return Array.from(subscriptions.values())
+        .filter(subscription => subscription.userId === userId)
+        .map(subscription => ({ ...subscription }));
+    },
+
+    async delete(userId: string, id: string): Promise<boolean> {
+      const subscription = subscriptions.get(id);
+      return subscription?.userId === userId ? subscriptions.delete(id) : false;
+    },
+
+    async deleteByEndpoint(endpoint: string): Promise<void> {
+      removeEndpoint(endpoint);
+    },
+  };
+};
@@ -0,0 +1,39 @@
+import { RefreshTokenRecord } from '../types';
+import { RefreshTokenRepository } from './refreshTokenRepository';
+
+// Process-local refresh token store for tests and local development
+export const createInMemoryRefreshTokenRepository = (): RefreshTokenRepository => {
+  const tokens = new Map<string, RefreshTokenRecord>();
+
+  return {
+    async create(token: RefreshTokenRecord): Promise<RefreshTokenRecord> {
+      tokens.set(token.id, { ...token });
+      return { ...token };
+    },
+
+    async findByHash(tokenHash: string): Promise<RefreshTokenRecord | null> {
+      const token = Array.from(tokens.values()).find(t => t.tokenHash === tokenHash);
+      return token ? { ...token } : null;
+    },
+
+    async revoke(id: string, replacedBy?: string): Promise<boolean> {
+      const token = tokens.get(id);
+      if (!token || token.revokedAt) {
+        return false;
+      }
+
+      token.revokedAt = new Date();
+      if (replacedBy) token.replacedBy = replacedBy;
+      return true;
+    },
+
+    async revokeAllForUser(userId: string): Promise<void> {
+      const now = new Date();
+      tokens.forEach(token => {
+        if (token.userId === userId && !token.revokedAt) {
+          token.revokedAt = now;
+        }
+      });
+    },
+  };
+};
@@ -0,0 +1,20 @@
+import { MemoryResurfacing } from '../types';
+import { ResurfacingRepository } from './resurfacingRepository';
+
+// Process-local resurfacing history for tests and local development
+export const createInMemoryResurfacingRepository = (): ResurfacingRepository => {
+  const entries: MemoryResurfacing[] = [];
+
+  return {
+    async record(added: MemoryResurfacing[]): Promise<void> {
+      entries.push(...added.map(entry => ({ ...entry })));
+    },
+
+    async listSince(userId: string, since: Date): Promise<MemoryResurfacing[]> {
+      return entries
+        .filter(entry => entry.userId === userId && entry.surfacedAt >= since)
+        .sort((a, b) => b.surfacedAt.getTime() - a.surfacedAt.getTime())
+        .map(entry => ({ ...entry }));
+    },
+  };
+};
@@ -0,0 +1,52 @@
+import { UserRecord } from '../types';
+import { UserChanges, UserRepository } from './userRepository';
+
+// Process-local user store for tests and local development
+export const createInMemoryUserRepository = (seed: UserRecord[] = []): UserRepository => {
+  const users = new Map<string, UserRecord>();
+  seed.forEach(user => users.set(user.id, { ...user, email: user.email.toLowerCase() }));
+
+  return {
+    async create(user: UserRecord): Promise<UserRecord> {
+      const email = user.email.toLowerCase();
+      if (Array.from(users.values()).some(existing => existing.email === email)) {
+        throw new Error('Resource already exists');
+      }
+
+      const stored = { ...user, email };
+      users.set(user.id, stored);
+      return { ...stored };
+    },
+
+    async findById(id: string): Promise<UserRecord | null> {
+      const user = users.get(id);
+      return user ? { ...user } : null;
+    },
+
+    async findByEmail(email: string): Promise<UserRecord | null> {
+      const normalized = email.toLowerCase();
+      const user = Array.from(users.values()).find(existing => existing.email === normalized);
+      return user ? { ...user } : null;
+    },
+
+    async update(id: string, changes: UserChanges): Promise<UserRecord | null> {
+      const user = users.get(id);
+      if (!user) {
+        return null;
+      }
+
+      const updated: UserRecord = {
+        ...user,
+        ...changes,
+        ...(changes.email !== undefined && { email: changes.email.toLowerCase() }),
+        updatedAt: new Date(),
+      };
+      users.set(id, updated);
+      return { ...updated };
+    },
+
+    async listIds(): Promise<string[]> {
+      return Array.from(users.keys());
+    },
+  };
+};
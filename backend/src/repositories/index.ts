@@ -0,0 +1,169 @@
+import { logger } from '../utils/logger';
+import { getDatabase, initializeDatabase } from '../services/database';
+import { MemoryRepository } from './memoryRepository';
+import { UserRepository } from './userRepository';
+import { RefreshTokenRepository } from './refreshTokenRepository';
+import { PasswordResetTokenRepository } from './passwordResetTokenRepository';
+import { JobRepository } from './jobRepository';
+import { AttachmentRepository } from './attachmentRepository';
+import { PersonRepository } from './personRepository';
+import { PersonMergeRepository } from './personMergeRepository';
+import { NudgeRepository } from './nudgeRepository';
+import { PushSubscriptionRepository } from './pushSubscriptionRepository';
+import { NotificationDeliveryRepository } from './notificationDeliveryRepository';
+import { ResurfacingRepository } from './resurfacingRepository';
+import { createSupabaseMemoryRepository } from './supabaseMemoryRepository';
+import { createSupabaseUserRepository } from './supabaseUserRepository';
+import { createSupabaseRefreshTokenRepository } from './supabaseRefreshTokenRepository';
+import { createSupabasePasswordResetTokenRepository } from './supabasePasswordResetTokenRepository';
+import { createSupabaseJobRepository } from './supabaseJobRepository';
+import { createSupabaseAttachmentRepository } from './supabaseAttachmentRepository';
+import { createSupabasePersonRepository } from './supabasePersonRepository';
+import { createSupabasePersonMergeRepository } from './supabasePersonMergeRepository';
+import { createSupabaseNudgeRepository } from './supabaseNudgeRepository';
+import { createSupabasePushSubscriptionRepository } from './supabasePushSubscriptionRepository';
+import { createSupabaseNotificationDeliveryRepository } from './supabaseNotificationDeliveryRepository';
+import { createSupabaseResurfacingRepository } from './supabaseResurfacingRepository';
+import { createInMemoryMemoryRepository } from './inMemoryMemoryRepository';
+import { createInMemoryUserRepository } from './inMemoryUserRepository';
+import { createInMemoryRefreshTokenRepository } from './inMemoryRefreshTokenRepository';
+import { createInMemoryPasswordResetTokenRepository } from './inMemoryPasswordResetTokenRepository';
+import { createInMemoryJobRepository } from './inMemoryJobRepository';
+import { createInMemoryAttachmentRepository } from './inMemoryAttachmentRepository';
+import { createInMemoryPersonRepository } from './inMemoryPersonRepository';
+import { createInMemoryPersonMergeRepository } from './inMemoryPersonMergeRepository';
+import { createInMemoryNudgeRepository } from './inMemoryNudgeRepository';
+import { createInMemoryPushSubscriptionRepository } from './inMemoryPushSubscriptionRepository';
+import { createInMemoryNotificationDeliveryRepository } from './inMemoryNotificationDeliveryRepository';
+import { createInMemoryResurfacingRepository } from './inMemoryResurfacingRepository';
+
+export * from './memoryRepository';
+export * from './userRepository';
+export * from './refreshTokenRepository';
+export * from './passwordResetTokenRepository';
+export * from './jobRepository';
+export * from './attachmentRepository';
+export * from './personRepository';
+export * from './personMergeRepository';
+export * from './nudgeRepository';
+export * from './pushSubscriptionRepository';
+export * from './notificationDeliveryRepository';
+export * from './resurfacingRepository';
+export { createSupabaseMemoryRepository } from './supabaseMemoryRepository';
+export { createSupabaseUserRepository } from './supabaseUserRepository';
+export { createSupabaseRefreshTokenRepository } from './supabaseRefreshTokenRepository';
+export { createSupabasePasswordResetTokenRepository } from './supabasePasswordResetTokenRepository';
+export { createSupabaseJobRepository } from './supabaseJobRepository';
+export { createSupabaseAttachmentRepository } from './supabaseAttachmentRepository';
+export { createSupabasePersonRepository } from './supabasePersonRepository';
+export { createSupabasePersonMergeRepository } from './supabasePersonMergeRepository';
+export { createSupabaseNudgeRepository } from './supabaseNudgeRepository';
+export { createSupabasePushSubscriptionRepository } from './supabasePushSubscriptionRepository';
+export { createSupabaseNotificationDeliveryRepository } from './supabaseNotificationDeliveryRepository';
+export { createSupabaseResurfacingRepository } from './supabaseResurfacingRepository';
+export { createInMemoryMemoryRepository } from './inMemoryMemoryRepository';
+export { createInMemoryUserRepository } from './inMemoryUserRepository';
+export { createInMemoryRefreshTokenRepository } from './inMemoryRefreshTokenRepository';
+export { createInMemoryPasswordResetTokenRepository } from './inMemoryPasswordResetTokenRepository';
+export { createInMemoryJobRepository } from './inMemoryJobRepository';
+export { createInMemoryAttachmentRepository } from './inMemoryAttachmentRepository';
+export { createInMemoryPersonRepository } from './inMemoryPersonRepository';
+export { createInMemoryPersonMergeRepository } from './inMemoryPersonMergeRepository';
+export { createInMemoryNudgeRepository } from './inMemoryNudgeRepository';
+export { createInMemoryPushSubscriptionRepository } from './inMemoryPushSubscriptionRepository';
+export { createInMemoryNotificationDeliveryRepository } from './inMemoryNotificationDeliveryRepository';
+export { createInMemoryResurfacingRepository } from './inMemoryResurfacingRepository';
+
+export interface Repositories {
+  memories: MemoryRepository;
+  users: UserRepository;
+  refreshTokens: RefreshTokenRepository;
+  passwordResetTokens: PasswordResetTokenRepository;
+  jobs: JobRepository;
+  attachments: AttachmentRepository;
+  people: PersonRepository;
+  personMerges: PersonMergeRepository;
+  nudges: NudgeRepository;
+  pushSubscriptions: PushSubscriptionRepository;
+  notificationDeliveries: NotificationDeliveryRepository;
+  resurfacings: ResurfacingRepository;
+}
+
+let repositories: Repositories | undefined;
+
+// Choose the storage backend from DATA_STORE ('supabase' by default, 'memory' for tests)
+export const initializeRepositories = async (): Promise<Repositories> => {
+  const store = process.env.DATA_STORE || 'supabase';
+
+  if (store === 'memory') {
+    logger.warn('Using in-process data store; data will not survive a restart');
+    const memories = createInMemoryMemoryRepository();
+    const people = createInMemoryPersonRepository();
+    const nudges = createInMemoryNudgeRepository();
+    repositories = {
+      memories,
+      users: createInMemoryUserRepository(),
+      refreshTokens: createInMemoryRefreshTokenRepository(),
+      passwordResetTokens: createInMemoryPasswordResetTokenRepository(),
+      jobs: createInMemoryJobRepository(),
+      attachments: createInMemoryAttachmentRepository(),
+      people,
+      personMerges: createInMemoryPersonMergeRepository(people, memories, nudges),
+      nudges,
+      pushSubscriptions: createInMemoryPushSubscriptionRepository(),
+      notificationDeliveries: createInMemoryNotificationDeliveryRepository(),
+      resurfacings: createInMemoryResurfacingRepository(),
+    };
+    return repositories;
+  }
+
+  if (store !== 'supabase') {
+    throw new Error(`Unknown DATA_STORE: ${store}`);
+  }
+
+  await initializeDatabase();
+  const client = getDatabase();
+
+  repositories = {
+    memories: createSupabaseMemoryRepository(client),
+    users: createSupabaseUserRepository(client),
+    refreshTokens: createSupabaseRefreshTokenRepository(client),
+    passwordResetTokens: createSupabasePasswordResetTokenRepository(client),
+    jobs: createSupabaseJobRepository(client),
+    attachments: createSupabaseAttachmentRepository(client),
+    people: createSupabasePersonRepository(client),
+    personMerges: createSupabasePersonMergeRepository(client),
+    nudges: createSupabaseNudgeRepository(client),
+    pushSubscriptions: createSupabasePushSubscriptionRepository(client),
+    notificationDeliveries: createSupabaseNotificationDeliveryRepository(client),
+    resurfacings: createSupabaseResurfacingRepository(client),
+  };
+  return repositories;
+};
+
+// Swap in repositories directly (used by tests)
+export const setRepositories = (overrides: Partial<Repositories>): void => {
+  repositories = { ...repositories, ...overrides } as Repositories;
+};
+
+const getRepositories = (): Repositories => {
+  if (!repositories) {
+    throw new Error('Repositories not initialized');
+  }
+  return repositories;
+};
+
+export const getMemoryRepository = (): MemoryRepository => getRepositories().memories;
+export const getUserRepository = (): UserRepository => getRepositories().users;
+export const getRefreshTokenRepository = (): RefreshTokenRepository => getRepositories().refreshTokens;
+export const getPasswordResetTokenRepository = (): PasswordResetTokenRepository =>
+  getRepositories().passwordResetTokens;
+export const getJobRepository = (): JobRepository => getRepositories().jobs;
+export const getAttachmentRepository = (): AttachmentRepository => getRepositories().attachments;
+export const getPersonRepository = (): PersonRepository => getRepositories().people;
+export const getPersonMergeRepository = (): PersonMergeRepository => getRepositories().personMerges;
+export const getNudgeRepository = (): NudgeRepository => getRepositories().nudges;
+export const getPushSubscriptionRepository = (): PushSubscriptionRepository => getRepositories().pushSubscriptions;
+export const getNotificationDeliveryRepository = (): NotificationDeliveryRepository =>
+  getRepositories().notificationDeliveries;
+export const getResurfacingRepository = (): ResurfacingRepository => getRepositories().resurfacings;
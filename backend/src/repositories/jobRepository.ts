@@ -0,0 +1,14 @@
+import { Job } from '../types';
+
+// Storage contract for background jobs
+export interface JobRepository {
+  enqueue(job: Job): Promise<Job>;
+  // Atomically claims the oldest due job (or one whose lock has gone stale),
+  // marking it processing and counting the attempt
+  claimNext(lockTimeoutMs: number): Promise<Job | null>;
+  complete(id: string): Promise<void>;
+  // Puts the job back in the queue to run again at retryAt
+  retry(id: string, error: string, retryAt: Date): Promise<void>;
+  fail(id: string, error: string): Promise<void>;
+  findById(id: string): Promise<Job | null>;
+}
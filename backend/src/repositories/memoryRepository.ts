@@ -0,0 +1,41 @@
+import { Memory, MemoryStats, SortOrder } from '../types';
+
+// Options for listing a user's memories
+export interface MemoryListOptions {
+  search?: string;
+  tags?: string[];
+  people?: string[];
+  // Inclusive bounds on createdAt
+  dateFrom?: Date;
+  dateTo?: Date;
+  // By createdAt; newest first unless 'asc'
+  sortOrder?: SortOrder;
+  limit?: number;
+  offset?: number;
+}
+
+export interface MemoryListResult {
+  memories: Memory[];
+  total: number;
+}
+
+// A keyword search hit; score is only meaningful relative to other hits
+export interface MemoryTextMatch {
+  memory: Memory;
+  score: number;
+}
+
+// Storage contract for memories. Every lookup is scoped to the owning user,
+// so a memory belonging to someone else is indistinguishable from a missing one.
+export interface MemoryRepository {
+  create(memory: Memory): Promise<Memory>;
+  findById(userId: string, id: string): Promise<Memory | null>;
+  // Unknown ids are skipped; results follow the order of `ids`
+  findByIds(userId: string, ids: string[]): Promise<Memory[]>;
+  list(userId: string, options?: MemoryListOptions): Promise<MemoryListResult>;
+  // Full-text and fuzzy match on title, content and summary, best match first
+  searchText(userId: string, query: string, limit: number): Promise<MemoryTextMatch[]>;
+  update(userId: string, id: string, changes: Partial<Memory>): Promise<Memory | null>;
+  delete(userId: string, id: string): Promise<boolean>;
+  getStats(userId: string): Promise<MemoryStats>;
+}
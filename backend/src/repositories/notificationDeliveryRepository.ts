@@ -0,0 +1,18 @@
+import { DeliveryKind, DeliveryStatus, NotificationChannel, NotificationDelivery } from '../types';
+
+export interface DeliveryListOptions {
+  channel?: NotificationChannel;
+  kind?: DeliveryKind;
+  status?: DeliveryStatus;
+  limit?: number;
+  offset?: number;
+}
+
+// Storage contract for the notification delivery log. Lookups are scoped to the owning user.
+export interface NotificationDeliveryRepository {
+  create(delivery: NotificationDelivery): Promise<NotificationDelivery>;
+  findById(userId: string, id: string): Promise<NotificationDelivery | null>;
+  // Newest first
+  list(userId: string, options?: DeliveryListOptions): Promise<NotificationDelivery[]>;
+  update(userId: string, id: string, changes: Partial<NotificationDelivery>): Promise<NotificationDelivery | null>;
+}
@@ -0,0 +1,33 @@
+import { Nudge, NudgeStatus } from '../types';
+
+// Acting on a nudge or dismissing it is final; otherwise it expires at
+// expiresAt and is snoozed until snoozedUntil. Stores filter by the same rules.
+export const nudgeStatus = (nudge: Nudge, now: Date = new Date()): NudgeStatus => {
+  if (nudge.isActioned) return 'actioned';
+  if (nudge.dismissedAt) return 'dismissed';
+  if (nudge.expiresAt && nudge.expiresAt <= now) return 'expired';
+  if (nudge.snoozedUntil && nudge.snoozedUntil > now) return 'snoozed';
+  return 'active';
+};
+
+export interface NudgeListOptions {
+  // Only nudges in this state at `now`; all of them when omitted
+  status?: NudgeStatus;
+  // Only nudges related to any of these people
+  relatedPeople?: string[];
+  // Only nudges created at or after this time
+  createdAfter?: Date;
+  now?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+// Storage contract for nudges. Lookups are scoped to the owning user.
+export interface NudgeRepository {
+  create(nudge: Nudge): Promise<Nudge>;
+  findById(userId: string, id: string): Promise<Nudge | null>;
+  // Newest first
+  list(userId: string, options?: NudgeListOptions): Promise<Nudge[]>;
+  update(userId: string, id: string, changes: Partial<Nudge>): Promise<Nudge | null>;
+  delete(userId: string, id: string): Promise<boolean>;
+}
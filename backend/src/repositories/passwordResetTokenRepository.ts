@@ -0,0 +1,10 @@
+import { PasswordResetTokenRecord } from '../types';
+
+// Storage contract for password reset tokens. Only SHA-256 hashes of tokens are stored.
+export interface PasswordResetTokenRepository {
+  create(token: PasswordResetTokenRecord): Promise<PasswordResetTokenRecord>;
+  findByHash(tokenHash: string): Promise<PasswordResetTokenRecord | null>;
+  // Marks the token used; resolves false if it had already been consumed
+  markUsed(id: string): Promise<boolean>;
+  invalidateAllForUser(userId: string): Promise<void>;
+}
@@ -0,0 +1,20 @@
+import { Person, PersonMerge } from '../types';
+
+// Storage contract for merging and renaming people. Both touch people and the
+// memories that mention them by name, so each call applies completely or not at all.
+export interface PersonMergeRepository {
+  // Merge the sources into the target: their names and aliases become the
+  // target's aliases, memories and nudges that mention them point at the
+  // target, and the sources are deleted. Null when the target or a source
+  // isn't one of the user's people.
+  merge(userId: string, targetId: string, sourceIds: string[]): Promise<PersonMerge | null>;
+  // Restore the merged people and the memories and nudges the merge rewrote.
+  // Null when there is no such merge or it was already undone.
+  undo(userId: string, mergeId: string): Promise<PersonMerge | null>;
+  // Rename the person and rewrite the memories that mention them; the old name
+  // becomes an alias. Null when the person isn't one of the user's.
+  rename(userId: string, personId: string, name: string): Promise<Person | null>;
+  findById(userId: string, id: string): Promise<PersonMerge | null>;
+  // Newest first
+  list(userId: string, limit: number): Promise<PersonMerge[]>;
+}
@@ -0,0 +1,20 @@
+import { Person } from '../types';
+
+export interface PersonNameMatch {
+  person: Person;
+  // Trigram similarity to the searched name, 0-1
+  similarity: number;
+}
+
+// Storage contract for the people a user writes about. Lookups are scoped to the owning user.
+export interface PersonRepository {
+  create(person: Person): Promise<Person>;
+  findById(userId: string, id: string): Promise<Person | null>;
+  // Alphabetical by name
+  list(userId: string): Promise<Person[]>;
+  // Fuzzy name lookup for entity resolution: people whose name or an alias is
+  // trigram-similar to `name` (pg_trgm's default 0.3 threshold), most similar first
+  searchByName(userId: string, name: string, limit: number): Promise<PersonNameMatch[]>;
+  update(userId: string, id: string, changes: Partial<Person>): Promise<Person | null>;
+  delete(userId: string, id: string): Promise<boolean>;
+}
@@ -0,0 +1,12 @@
+import { PushSubscriptionRecord } from '../types';
+
+// Storage contract for Web Push subscriptions. Endpoints are unique: saving an
+// endpoint that is already stored replaces it, even for another user, since
+// the browser now belongs to whoever subscribed last.
+export interface PushSubscriptionRepository {
+  save(subscription: PushSubscriptionRecord): Promise<PushSubscriptionRecord>;
+  listByUser(userId: string): Promise<PushSubscriptionRecord[]>;
+  delete(userId: string, id: string): Promise<boolean>;
+  // Used when the push service reports a subscription as gone
+  deleteByEndpoint(endpoint: string): Promise<void>;
+}
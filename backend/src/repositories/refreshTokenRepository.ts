@@ -0,0 +1,10 @@
+import { RefreshTokenRecord } from '../types';
+
+// Storage contract for refresh tokens. Only SHA-256 hashes of tokens are stored.
+export interface RefreshTokenRepository {
+  create(token: RefreshTokenRecord): Promise<RefreshTokenRecord>;
+  findByHash(tokenHash: string): Promise<RefreshTokenRecord | null>;
+  // Resolves false if the token had already been revoked
+  revoke(id: string, replacedBy?: string): Promise<boolean>;
+  revokeAllForUser(userId: string): Promise<void>;
+}
@@ -0,0 +1,8 @@
+import { MemoryResurfacing } from '../types';
+
+// Storage contract for the history of resurfaced memories. Lookups are scoped to the owning user.
+export interface ResurfacingRepository {
+  record(entries: MemoryResurfacing[]): Promise<void>;
+  // Entries surfaced at or after `since`, newest first
+  listSince(userId: string, since: Date): Promise<MemoryResurfacing[]>;
+}
@@ -0,0 +1,156 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Attachment, AttachmentKind, AttachmentRendition } from '../types';
+import { handleDatabaseError } from '../services/database';
+import { AttachmentRepository } from './attachmentRepository';
+
+const TABLE = 'attachments';
+
+// Row shape of the attachments table in database/schema.sql
+interface AttachmentRow {
+  id: string;
+  user_id: string;
+  memory_id: string;
+  kind: AttachmentKind;
+  filename: string;
+  content_type: string;
+  size: number;
+  storage_key: string;
+  width: number | null;
+  height: number | null;
+  captured_at: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  caption: string | null;
+  tags: string[] | null;
+  renditions: AttachmentRendition[] | null;
+  created_at: string;
+}
+
+const toAttachment = (row: AttachmentRow): Attachment => {
+  const attachment: Attachment = {
+    id: row.id,
+    userId: row.user_id,
+    memoryId: row.memory_id,
+    kind: row.kind,
+    filename: row.filename,
+    contentType: row.content_type,
+    size: row.size,
+    storageKey: row.storage_key,
+    renditions: row.renditions || [],
+    createdAt: new Date(row.created_at),
+  };
+
+  if (row.width !== null) attachment.width = row.width;
+  if (row.height !== null) attachment.height = row.height;
+  if (row.captured_at) attachment.capturedAt = new Date(row.captured_at);
+  if (row.latitude !== null) attachment.latitude = row.latitude;
+  if (row.longitude !== null) attachment.longitude = row.longitude;
+  if (row.caption) attachment.caption = row.caption;
+  if (row.tags) attachment.tags = row.tags;
+
+  return attachment;
+};
+
+// Only the fields present on the input are mapped, so this also serves partial updates
+const toRow = (attachment: Partial<Attachment>): Partial<AttachmentRow> => {
+  const row: Partial<AttachmentRow> = {};
+
+  if (attachment.id !== undefined) row.id = attachment.id;
+  if (attachment.userId !== undefined) row.user_id = attachment.userId;
+  if (attachment.memoryId !== undefined) row.memory_id = attachment.memoryId;
+  if (attachment.kind !== undefined) row.kind = attachment.kind;
+  if (attachment.filename !== undefined) row.filename = attachment.filename;
+  if (attachment.contentType !== undefined) row.content_type = attachment.contentType;
+  if (attachment.size !== undefined) row.size = attachment.size;
+  if (attachment.storageKey !== undefined) row.storage_key = attachment.storageKey;
+  if (attachment.width !== undefined) row.width = attachment.width;
+  if (attachment.height !== undefined) row.height = attachment.height;
+  if (attachment.capturedAt !== undefined) row.captured_at = attachment.capturedAt.toISOString();
+  if (attachment.latitude !== undefined) row.latitude = attachment.latitude;
+  if (attachment.longitude !== undefined) row.longitude = attachment.longitude;
+  if (attachment.caption !== undefined) row.caption = attachment.caption;
+  if (attachment.tags !== undefined) row.tags = attachment.tags;
+  if (attachment.renditions !== undefined) row.renditions = attachment.renditions;
+  if (attachment.createdAt !== undefined) row.created_at = attachment.createdAt.toISOString();
+
+  return row;
+};
+
+export const createSupabaseAttachmentRepository = (client: SupabaseClient): AttachmentRepository => ({
+  async create(attachment: Attachment): Promise<Attachment> {
+    const { data, error } = await client
+      .from(TABLE)
+      .insert(toRow(attachment))
+      .select()
+      .single();
+
+    if (error) {
+      return handleDatabaseError(error, 'create attachment');
+    }
+
+    return toAttachment(data as AttachmentRow);
+  },
+
+  async findById(userId: string, id: string): Promise<Attachment | null> {
+    const { data, error } = await client
+      .from(TABLE)
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      return handleDatabaseError(error, 'get attachment');
+    }
+
+    return data ? toAttachment(data as AttachmentRow) : null;
+  },
+
+  async listByMemory(userId: string, memoryId: string): Promise<Attachment[]> {
+    const { data, error } = await client
+      .from(TABLE)
+      .select('*')
+      .eq('memory_id', memoryId)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      return handleDatabaseError(error, 'list attachments');
+    }
+
+    return ((data || []) as AttachmentRow[]).map(toAttachment);
+  },
+
+  async update(userId: string, id: string, changes: Partial<Attachment>): Promise<Attachment | null> {
+    const { id: _id, userId: _userId, ...rest } = changes;
+
+    const { data, error } = await client
+      .from(TABLE)
+      .update(toRow(rest))
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return handleDatabaseError(error, 'update attachment');
+    }
+
+    return data ? toAttachment(data as AttachmentRow) : null;
+  },
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    const { data, error } = await client
+      .from(TABLE)
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      return handleDatabaseError(error, 'delete attachment');
+    }
+
+    return (data || []).length > 0;
+  },
+});
@@ -0,0 +1,124 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Job, JobStatus } from '../types';
+import { handleDatabaseError } from '../services/database';
+import { JobRepository } from './jobRepository';
+
+const TABLE = 'jobs';
+
+// Row shape of the jobs table in database/schema.sql
+interface JobRow {
+  id: string;
+  type: string;
+  payload: Record<string, any>;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const toJob = (row: JobRow): Job => {
+  const job: Job = {
+    id: row.id,
+    type: row.type,
+    payload: row.payload || {},
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAt: new Date(row.run_at),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+
+  if (row.locked_at) job.lockedAt = new Date(row.locked_at);
+  if (row.last_error) job.lastError = row.last_error;
+
+  return job;
+};
+
+export const createSupabaseJobRepository = (client: SupabaseClient): JobRepository => {
+  const updateJob = async (id: string, changes: Partial<JobRow>, action: string): Promise<void> => {
+    const { error } = await client
+      .from(TABLE)
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      return handleDatabaseError(error, action);
+    }
+  };
+
+  return {
+    async enqueue(job: Job): Promise<Job> {
+      const { data, error } = await client
+        .from(TABLE)
+        .insert({
+          id: job.id,
+          type: job.type,
+          payload: job.payload,
+          status: job.status,
+          attempts: job.attempts,
+          max_attempts: job.maxAttempts,
+          run_at: job.runAt.toISOString(),
+          created_at: job.createdAt.toISOString(),
+          updated_at: job.updatedAt.toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        return handleDatabaseError(error, 'enqueue job');
+      }
+
+      return toJob(data as JobRow);
+    },
+
+    async claimNext(lockTimeoutMs: number): Promise<Job | null> {
+      // claim_next_job uses FOR UPDATE SKIP LOCKED so concurrent workers never share a job
+      const { data, error } = await client.rpc('claim_next_job', {
+        lock_timeout_seconds: Math.ceil(lockTimeoutMs / 1000),
+      });
+
+      if (error) {
+        return handleDatabaseError(error, 'claim job');
+      }
+
+      const rows = (data || []) as JobRow[];
+      return rows[0] ? toJob(rows[0]) : null;
+    },
+
+    async complete(id: string): Promise<void> {
+      await updateJob(id, { status: 'done', locked_at: null }, 'complete job');
+    },
+
+    async retry(id: string, error: string, retryAt: Date): Promise<void> {
+      await updateJob(id, {
+        status: 'pending',
+        last_error: error,
+        run_at: retryAt.toISOString(),
+        locked_at: null,
+      }, 'retry job');
+    },
+
+    async fail(id: string, error: string): Promise<void> {
+      await updateJob(id, { status: 'failed', last_error: error, locked_at: null }, 'fail job');
+    },
+
+    async findById(id: string): Promise<Job | null> {
+      const { data, error } = await client
+        .from(TABLE)
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) {
+        return handleDatabaseError(error, 'get job');
+      }
+
+      return data ? toJob(data as JobRow) : null;
+    },
+  };
+};
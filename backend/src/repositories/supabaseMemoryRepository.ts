@@ -0,0 +1,263 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Emotion, EnrichmentStatus, Memory, MemoryStats, PersonSuggestion } from '../types';
+import { handleDatabaseError } from '../services/database';
+import { MemoryListOptions, MemoryListResult, MemoryRepository, MemoryTextMatch } from './memoryRepository';
+
+const TABLE = 'memories';
+
+// Row shape of the memories table in database/schema.sql
+interface MemoryRow {
+  id: string;
+  user_id: string;
+  title: string;
+  content: string;
+  summary: string;
+  people: string[] | null;
+  person_suggestions: PersonSuggestion[] | null;
+  emotions: Emotion | Record<string, never> | null;
+  tags: string[] | null;
+  location: string | null;
+  weather: string | null;
+  mood: number;
+  is_private: boolean | null;
+  audio_url: string | null;
+  image_url: string | null;
+  enrichment_status: EnrichmentStatus;
+  enrichment_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const toMemory = (row: MemoryRow): Memory => {
+  const memory: Memory = {
+    id: row.id,
+    userId: row.user_id,
+    title: row.title,
+    content: row.content,
+    summary: row.summary,
+    people: row.people || [],
+    tags: row.tags || [],
+    mood: row.mood,
+    isPrivate: row.is_private ?? false,
+    enrichmentStatus: row.enrichment_status,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+
+  if (row.person_suggestions && row.person_suggestions.length > 0) memory.personSuggestions = row.person_suggestions;
+  if (row.emotions && 'primary' in row.emotions) memory.emotions = row.emotions as Emotion;
+  if (row.location) memory.location = row.location;
+  if (row.weather) memory.weather = row.weather;
+  if (row.audio_url) memory.audioUrl = row.audio_url;
+  if (row.image_url) memory.imageUrl = row.image_url;
+  if (row.enrichment_error) memory.enrichmentError = row.enrichment_error;
+
+  return memory;
+};
+
+const toRow = (memory: Partial<Memory>): Partial<MemoryRow> => {
+  const row: Partial<MemoryRow> = {};
+
+  if (memory.id !== undefined) row.id = memory.id;
+  if (memory.userId !== undefined) row.user_id = memory.userId;
+  if (memory.title !== undefined) row.title = memory.title;
+  if (memory.content !== undefined) row.content = memory.content;
+  if (memory.summary !== undefined) row.summary = memory.summary;
+  if (memory.people !== undefined) row.people = memory.people;
+  if (memory.personSuggestions !== undefined) row.person_suggestions = memory.personSuggestions;
+  if (memory.emotions !== undefined) row.emotions = memory.emotions;
+  if (memory.tags !== undefined) row.tags = memory.tags;
+  if (memory.mood !== undefined) row.mood = memory.mood;
+  if (memory.location !== undefined) row.location = memory.location;
+  if (memory.weather !== undefined) row.weather = memory.weather;
+  if (memory.isPrivate !== undefined) row.is_private = memory.isPrivate;
+  if (memory.audioUrl !== undefined) row.audio_url = memory.audioUrl || null;
+  if (memory.imageUrl !== undefined) row.image_url = memory.imageUrl || null;
+  if (memory.enrichmentStatus !== undefined) row.enrichment_status = memory.enrichmentStatus;
+  if (memory.enrichmentError !== undefined) row.enrichment_error = memory.enrichmentError || null;
+  if (memory.createdAt !== undefined) row.created_at = new Date(memory.createdAt).toISOString();
+
+  return row;
+};
+
+// PostgREST uses commas and parentheses as syntax inside `or=(...)` filters
+const sanitizeSearchTerm = (term: string): string => term.replace(/[,()%*\\]/g, ' ').trim();
+
+// Full rows for the given ids, in the order of `ids`
+const fetchByIds = async (client: SupabaseClient, userId: string, ids: string[]): Promise<Memory[]> => {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await client
+    .from(TABLE)
+    .select('*')
+    .in('id', ids)
+    .eq('user_id', userId);
+
+  if (error) {
+    return handleDatabaseError(error, 'get memories by id');
+  }
+
+  const byId = new Map((data as MemoryRow[]).map(row => [row.id, toMemory(row)]));
+  return ids
+    .map(id => byId.get(id))
+    .filter((memory): memory is Memory => Boolean(memory));
+};
+
+export const createSupabaseMemoryRepository = (client: SupabaseClient): MemoryRepository => ({
+  async create(memory: Memory): Promise<Memory> {
+    const { data, error } = await client
+      .from(TABLE)
+      .insert(toRow(memory))
+      .select()
+      .single();
+
+    if (error) {
+      return handleDatabaseError(error, 'create memory');
+    }
+
+    return toMemory(data as MemoryRow);
+  },
+
+  async findById(userId: string, id: string): Promise<Memory | null> {
+    const { data, error } = await client
+      .from(TABLE)
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      return handleDatabaseError(error, 'get memory by id');
+    }
+
+    return data ? toMemory(data as MemoryRow) : null;
+  },
+
+  async findByIds(userId: string, ids: string[]): Promise<Memory[]> {
+    return fetchByIds(client, userId, ids);
+  },
+
+  async list(userId: string, options: MemoryListOptions = {}): Promise<MemoryListResult> {
+    const limit = options.limit ?? 10;
+    const offset = options.offset ?? 0;
+
+    let query = client
+      .from(TABLE)
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId);
+
+    if (options.search) {
+      const term = sanitizeSearchTerm(options.search);
+      if (term) {
+        query = query.or(`title.ilike.%${term}%,content.ilike.%${term}%`);
+      }
+    }
+
+    if (options.tags && options.tags.length > 0) {
+      query = query.overlaps('tags', options.tags);
+    }
+
+    if (options.people && options.people.length > 0) {
+      query = query.overlaps('people', options.people);
+    }
+
+    if (options.dateFrom) {
+      query = query.gte('created_at', options.dateFrom.toISOString());
+    }
+
+    if (options.dateTo) {
+      query = query.lte('created_at', options.dateTo.toISOString());
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: options.sortOrder === 'asc' })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      return handleDatabaseError(error, 'list memories');
+    }
+
+    return {
+      memories: (data as MemoryRow[]).map(toMemory),
+      total: count || 0,
+    };
+  },
+
+  async searchText(userId: string, query: string, limit: number): Promise<MemoryTextMatch[]> {
+    const { data, error } = await client.rpc('search_memories', {
+      search_query: query,
+      user_uuid: userId,
+      limit_count: limit,
+    });
+
+    if (error) {
+      return handleDatabaseError(error, 'search memories');
+    }
+
+    // search_memories returns a subset of columns, so load the full rows
+    const hits = (data || []) as Array<{ id: string; similarity: number | null }>;
+    const memories = await fetchByIds(client, userId, hits.map(hit => hit.id));
+    const scores = new Map(hits.map(hit => [hit.id, Number(hit.similarity || 0)]));
+
+    return memories.map(memory => ({ memory, score: scores.get(memory.id) || 0 }));
+  },
+
+  async update(userId: string, id: string, changes: Partial<Memory>): Promise<Memory | null> {
+    const { id: _id, userId: _userId, ...rest } = changes;
+
+    const { data, error } = await client
+      .from(TABLE)
+      .update(toRow(rest))
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return handleDatabaseError(error, 'update memory');
+    }
+
+    return data ? toMemory(data as MemoryRow) : null;
+  },
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    const { data, error } = await client
+      .from(TABLE)
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      return handleDatabaseError(error, 'delete memory');
+    }
+
+    return (data || []).length > 0;
+  },
+
+  async getStats(userId: string): Promise<MemoryStats> {
+    const { data, error } = await client
+      .rpc('get_memory_stats', { user_uuid: userId })
+      .maybeSingle();
+
+    if (error) {
+      return handleDatabaseError(error, 'get memory stats');
+    }
+
+    const stats = data as {
+      total_memories: number | null;
+      average_mood: number | null;
+      most_frequent_emotion: string | null;
+      memories_this_week: number | null;
+    } | null;
+
+    return {
+      totalMemories: Number(stats?.total_memories || 0),
+      averageMood: Number(stats?.average_mood || 0),
+      mostFrequentEmotion: stats?.most_frequent_emotion || 'No emotions recorded',
+      recentMemories: Number(stats?.memories_this_week || 0),
+    };
+  },
+});
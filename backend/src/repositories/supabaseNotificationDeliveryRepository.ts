@@ -0,0 +1,136 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DeliveryKind, DeliveryStatus, NotificationChannel, NotificationDelivery } from '../types';
+import { handleDatabaseError } from '../services/database';
+import { DeliveryListOptions, NotificationDeliveryRepository } from './notificationDeliveryRepository';
+
+const TABLE = 'notification_deliveries';
+
+// Row shape of the notification_deliveries table in database/schema.sql
+interface DeliveryRow {
+  id: string;
+  user_id: string;
+  channel: NotificationChannel;
+  kind: DeliveryKind;
+  status: DeliveryStatus;
+  target: string;
+  nudge_ids: string[] | null;
+  attempts: number;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string | null;
+  delivered_at: string | null;
+}
+
+const toDelivery = (row: DeliveryRow): NotificationDelivery => {
+  const delivery: NotificationDelivery = {
+    id: row.id,
+    userId: row.user_id,
+    channel: row.channel,
+    kind: row.kind,
+    status: row.status,
+    target: row.target,
+    nudgeIds: row.nudge_ids || [],
+    attempts: row.attempts,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at || row.created_at),
+  };
+
+  if (row.last_error) delivery.lastError = row.last_error;
+  if (row.delivered_at) delivery.deliveredAt = new Date(row.delivered_at);
+
+  return delivery;
+};
+
+// Only the fields present on the input are mapped, so this also serves partial updates
+const toRow = (delivery: Partial<NotificationDelivery>): Partial<DeliveryRow> => {
+  const row: Partial<DeliveryRow> = {};
+
+  if (delivery.id !== undefined) row.id = delivery.id;
+  if (delivery.userId !== undefined) row.user_id = delivery.userId;
+  if (delivery.channel !== undefined) row.channel = delivery.channel;
+  if (delivery.kind !== undefined) row.kind = delivery.kind;
+  if (delivery.status !== undefined) row.status = delivery.status;
+  if (delivery.target !== undefined) row.target = delivery.target;
+  if (delivery.nudgeIds !== undefined) row.nudge_ids = delivery.nudgeIds;
+  if (delivery.attempts !== undefined) row.attempts = delivery.attempts;
+  if (delivery.lastError !== undefined) row.last_error = delivery.lastError;
+  if (delivery.createdAt !== undefined) row.created_at = new Date(delivery.createdAt).toISOString();
+  if (delivery.deliveredAt !== undefined) row.delivered_at = new Date(delivery.deliveredAt).toISOString();
+
+  return row;
+};
+
+export const createSupabaseNotificationDeliveryRepository = (client: SupabaseClient): NotificationDeliveryRepository => ({
+  async create(delivery: NotificationDelivery): Promise<NotificationDelivery> {
+    const { data, error } = await client
+      .from(TABLE)
+      .insert(toRow(delivery))
+      .select()
+      .single();
+
+    if (error) {
+      return handleDatabaseError(error, 'create notification delivery');
+    }
+
+    return toDelivery(data as DeliveryRow);
+  },
+
+  async findById(userId: string, id: string): Promise<NotificationDelivery | null> {
+    const { data, error } = await client
+      .from(TABLE)
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      return handleDatabaseError(error, 'get notification delivery');
+    }
+
+    return data ? toDelivery(data as DeliveryRow) : null;
+  },
+
+  async list(userId: string, options: DeliveryListOptions = {}): Promise<NotificationDelivery[]> {
+    let query = client
+      .from(TABLE)
+      .select('*')
+      .eq('user_id', userId);
+
+    if (options.channel) query = query.eq('channel', options.channel);
+    if (options.kind) query = query.eq('kind', options.kind);
+    if (options.status) query = query.eq('status', options.status);
+
+    query = query.order('created_at', { ascending: false });
+
+    if (options.limit !== undefined) {
+      const offset = options.offset || 0;
+      query = query.range(offset, offset + options.limit - 1);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      return handleDatabaseError(error, 'list notification deliveries');
+    }
+
+    return ((data || []) as DeliveryRow[]).map(toDelivery);
+  },
+
+  async update(userId: string, id: string, changes: Partial<NotificationDelivery>): Promise<NotificationDelivery | null> {
+    const { id: _id, userId: _userId, ...rest } = changes;
+
+    const { data, error } = await client
+      .from(TABLE)
+      .update(toRow(rest))
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return handleDatabaseError(error, 'update notification delivery');
+    }
+
+    return data ? toDelivery(data as DeliveryRow) : null;
+  },
+});
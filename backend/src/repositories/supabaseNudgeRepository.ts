@@ -0,0 +1,186 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Nudge, NudgePriority, NudgeType } from '../types';
+import { handleDatabaseError } from '../services/database';
+import { NudgeListOptions, NudgeRepository } from './nudgeRepository';
+
+const TABLE = 'nudges';
+
+// Row shape of the nudges table in database/schema.sql
+interface NudgeRow {
+  id: string;
+  user_id: string;
+  type: NudgeType;
+  title: string;
+  message: string;
+  priority: NudgePriority;
+  related_people: string[] | null;
+  related_memories: string[] | null;
+  is_read: boolean | null;
+  is_actioned: boolean | null;
+  snoozed_until: string | null;
+  dismissed_at: string | null;
+  created_at: string;
+  updated_at: string | null;
+  expires_at: string | null;
+}
+
+const toNudge = (row: NudgeRow): Nudge => {
+  const nudge: Nudge = {
+    id: row.id,
+    userId: row.user_id,
+    type: row.type,
+    title: row.title,
+    message: row.message,
+    priority: row.priority,
+    relatedPeople: row.related_people || [],
+    relatedMemories: row.related_memories || [],
+    isRead: Boolean(row.is_read),
+    isActioned: Boolean(row.is_actioned),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at || row.created_at),
+  };
+
+  if (row.snoozed_until) nudge.snoozedUntil = new Date(row.snoozed_until);
+  if (row.dismissed_at) nudge.dismissedAt = new Date(row.dismissed_at);
+  if (row.expires_at) nudge.expiresAt = new Date(row.expires_at);
+
+  return nudge;
+};
+
+// Only the fields present on the input are mapped, so this also serves partial updates
+const toRow = (nudge: Partial<Nudge>): Partial<NudgeRow> => {
+  const row: Partial<NudgeRow> = {};
+
+  if (nudge.id !== undefined) row.id = nudge.id;
+  if (nudge.userId !== undefined) row.user_id = nudge.userId;
+  if (nudge.type !== undefined) row.type = nudge.type;
+  if (nudge.title !== undefined) row.title = nudge.title;
+  if (nudge.message !== undefined) row.message = nudge.message;
+  if (nudge.priority !== undefined) row.priority = nudge.priority;
+  if (nudge.relatedPeople !== undefined) row.related_people = nudge.relatedPeople;
+  if (nudge.relatedMemories !== undefined) row.related_memories = nudge.relatedMemories;
+  if (nudge.isRead !== undefined) row.is_read = nudge.isRead;
+  if (nudge.isActioned !== undefined) row.is_actioned = nudge.isActioned;
+  if (nudge.snoozedUntil !== undefined) row.snoozed_until = new Date(nudge.snoozedUntil).toISOString();
+  if (nudge.dismissedAt !== undefined) row.dismissed_at = new Date(nudge.dismissedAt).toISOString();
+  if (nudge.createdAt !== undefined) row.created_at = new Date(nudge.createdAt).toISOString();
+  if (nudge.expiresAt !== undefined) row.expires_at = new Date(nudge.expiresAt).toISOString();
+
+  return row;
+};
+
+export const createSupabaseNudgeRepository = (client: SupabaseClient): NudgeRepository => ({
+  async create(nudge: Nudge): Promise<Nudge> {
+    const { data, error } = await client
+      .from(TABLE)
+      .insert(toRow(nudge))
+      .select()
+      .single();
+
+    if (error) {
+      return handleDatabaseError(error, 'create nudge');
+    }
+
+    return toNudge(data as NudgeRow);
+  },
+
+  async findById(userId: string, id: string): Promise<Nudge | null> {
+    const { data, error } = await client
+      .from(TABLE)
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      return handleDatabaseError(error, 'get nudge');
+    }
+
+    return data ? toNudge(data as NudgeRow) : null;
+  },
+
+  // Status filters follow nudgeStatus: actioned, then dismissed, then
+  // expired, then snoozed, and active otherwise
+  async list(userId: string, options: NudgeListOptions = {}): Promise<Nudge[]> {
+    const now = (options.now || new Date()).toISOString();
+    let query = client
+      .from(TABLE)
+      .select('*')
+      .eq('user_id', userId);
+
+    if (options.status === 'actioned') {
+      query = query.eq('is_actioned', true);
+    } else if (options.status) {
+      query = query.eq('is_actioned', false);
+      if (options.status === 'dismissed') {
+        query = query.not('dismissed_at', 'is', null);
+      } else {
+        query = query.is('dismissed_at', null);
+        if (options.status === 'expired') {
+          query = query.lte('expires_at', now);
+        } else {
+          query = query.or(`expires_at.is.null,expires_at.gt.${now}`);
+          query = options.status === 'snoozed'
+            ? query.gt('snoozed_until', now)
+            : query.or(`snoozed_until.is.null,snoozed_until.lte.${now}`);
+        }
+      }
+    }
+
+    if (options.relatedPeople && options.relatedPeople.length > 0) {
+      query = query.overlaps('related_people', options.relatedPeople);
+    }
+
+    if (options.createdAfter) {
+      query = query.gte('created_at', options.createdAfter.toISOString());
+    }
+
+    query = query.order('created_at', { ascending: false });
+
+    if (options.limit !== undefined) {
+      const offset = options.offset || 0;
+      query = query.range(offset, offset + options.limit - 1);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      return handleDatabaseError(error, 'list nudges');
+    }
+
+    return ((data || []) as NudgeRow[]).map(toNudge);
+  },
+
+  async update(userId: string, id: string, changes: Partial<Nudge>): Promise<Nudge | null> {
+    const { id: _id, userId: _userId, ...rest } = changes;
+
+    const { data, error } = await client
+      .from(TABLE)
+      .update(toRow(rest))
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return handleDatabaseError(error, 'update nudge');
+    }
+
+    return data ? toNudge(data as NudgeRow) : null;
+  },
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    const { data, error } = await client
+      .from(TABLE)
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      return handleDatabaseError(error, 'delete nudge');
+    }
+
+    return (data || []).length > 0;
+  },
+});
@@ -0,0 +1,96 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { PasswordResetTokenRecord } from '../types';
+import { handleDatabaseError } from '../services/database';
+import { PasswordResetTokenRepository } from './passwordResetTokenRepository';
+
+const TABLE = 'password_reset_tokens';
+
+// Row shape of the password_reset_tokens table in database/schema.sql
+interface PasswordResetTokenRow {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  expires_at: string;
+  used_at: string | null;
+  created_at: string;
+}
+
+const toPasswordResetToken = (row: PasswordResetTokenRow): PasswordResetTokenRecord => {
+  const token: PasswordResetTokenRecord = {
+    id: row.id,
+    userId: row.user_id,
+    tokenHash: row.token_hash,
+    expiresAt: new Date(row.expires_at),
+    createdAt: new Date(row.created_at),
+  };
+
+  if (row.used_at) token.usedAt = new Date(row.used_at);
+
+  return token;
+};
+
+export const createSupabasePasswordResetTokenRepository = (
+  client: SupabaseClient
+): PasswordResetTokenRepository => ({
+  async create(token: PasswordResetTokenRecord): Promise<PasswordResetTokenRecord> {
+    const { data, error } = await client
+      .from(TABLE)
+      .insert({
+        id: token.id,
+        user_id: token.userId,
+        token_hash: token.tokenHash,
+        expires_at: token.expiresAt.toISOString(),
+        created_at: token.createdAt.toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return handleDatabaseError(error, 'create password reset token');
+    }
+
+    return toPasswordResetToken(data as PasswordResetTokenRow);
+  },
+
+  async findByHash(tokenHash: string): Promise<PasswordResetTokenRecord | null> {
+    const { data, error } = await client
+      .from(TABLE)
+      .select('*')
+      .eq('token_hash', tokenHash)
+      .maybeSingle();
+
+    if (error) {
+      return handleDatabaseError(error, 'get password reset token');
+    }
+
+    return data ? toPasswordResetToken(data as PasswordResetTokenRow) : null;
+  },
+
+  async markUsed(id: string): Promise<boolean> {
+    // The used_at filter makes consumption atomic across concurrent requests
+    const { data, error } = await client
+      .from(TABLE)
+      .update({ used_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('used_at', null)
+      .select('id');
+
+    if (error) {
+      return handleDatabaseError(error, 'use password reset token');
+    }
+
+    return (data || []).length > 0;
+  },
+
+  async invalidateAllForUser(userId: string): Promise<void> {
+    const { error } = await client
+      .from(TABLE)
+      .update({ used_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('used_at', null);
+
+    if (error) {
+      return handleDatabaseError(error, 'invalidate password reset tokens');
+    }
+  },
+});
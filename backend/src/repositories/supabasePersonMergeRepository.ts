@@ -0,0 +1,115 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Person, PersonMerge } from '../types';
+import { handleDatabaseError } from '../services/database';
+import { PersonMergeRepository } from './personMergeRepository';
+import { PersonRow, toPerson } from './supabasePersonRepository';
+
+const TABLE = 'person_merges';
+
+// Row shape of the person_merges table in database/schema.sql
+interface PersonMergeRow {
+  id: string;
+  user_id: string;
+  target_id: string;
+  added_aliases: string[] | null;
+  sources: PersonRow[] | null;
+  memories: { id: string; people: string[] | null }[] | null;
+  nudges: { id: string; related_people: string[] | null }[] | null;
+  created_at: string;
+  undone_at: string | null;
+}
+
+const toPersonMerge = (row: PersonMergeRow): PersonMerge => {
+  const merge: PersonMerge = {
+    id: row.id,
+    userId: row.user_id,
+    targetId: row.target_id,
+    addedAliases: row.added_aliases || [],
+    sources: (row.sources || []).map(toPerson),
+    memories: (row.memories || []).map(memory => ({ id: memory.id, people: memory.people || [] })),
+    nudges: (row.nudges || []).map(nudge => ({ id: nudge.id, relatedPeople: nudge.related_people || [] })),
+    createdAt: new Date(row.created_at),
+  };
+
+  if (row.undone_at) merge.undoneAt = new Date(row.undone_at);
+
+  return merge;
+};
+
+// Merging, undoing and renaming run as database functions (merge_people,
+// undo_person_merge, rename_person) so each is a single transaction
+export const createSupabasePersonMergeRepository = (client: SupabaseClient): PersonMergeRepository => ({
+  async merge(userId: string, targetId: string, sourceIds: string[]): Promise<PersonMerge | null> {
+    const { data, error } = await client.rpc('merge_people', {
+      user_uuid: userId,
+      target_uuid: targetId,
+      source_uuids: sourceIds,
+    });
+
+    if (error) {
+      return handleDatabaseError(error, 'merge people');
+    }
+
+    const [row] = (data || []) as PersonMergeRow[];
+    return row ? toPersonMerge(row) : null;
+  },
+
+  async undo(userId: string, mergeId: string): Promise<PersonMerge | null> {
+    const { data, error } = await client.rpc('undo_person_merge', {
+      user_uuid: userId,
+      merge_uuid: mergeId,
+    });
+
+    if (error) {
+      return handleDatabaseError(error, 'undo person merge');
+    }
+
+    const [row] = (data || []) as PersonMergeRow[];
+    return row ? toPersonMerge(row) : null;
+  },
+
+  async rename(userId: string, personId: string, name: string): Promise<Person | null> {
+    const { data, error } = await client.rpc('rename_person', {
+      user_uuid: userId,
+      person_uuid: personId,
+      new_name: name,
+    });
+
+    if (error) {
+      return handleDatabaseError(error, 'rename person');
+    }
+
+    const [row] = (data || []) as PersonRow[];
+    return row ? toPerson(row) : null;
+  },
+
+  async findById(userId: string, id: string): Promise<PersonMerge | null> {
+    const { data, error } = await client
+      .from(TABLE)
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      return handleDatabaseError(error, 'get person merge');
+    }
+
+    return data ? toPersonMerge(data as PersonMergeRow) : null;
+  },
+
+  async list(userId: string, limit: number): Promise<PersonMerge[]> {
+    const { data, error } = await client
+      .from(TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      return handleDatabaseError(error, 'list person merges');
+    }
+
+    return ((data || []) as PersonMergeRow[]).map(toPersonMerge);
+  },
+});
@@ -0,0 +1,147 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Person } from '../types';
+import { handleDatabaseError } from '../services/database';
+import { PersonNameMatch, PersonRepository } from './personRepository';
+
+const TABLE = 'people';
+
+// Row shape of the people table in database/schema.sql
+export interface PersonRow {
+  id: string;
+  user_id: string;
+  name: string;
+  aliases: string[] | null;
+  relationship: string | null;
+  avatar: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const toPerson = (row: PersonRow): Person => {
+  const person: Person = {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+
+  if (row.aliases && row.aliases.length > 0) person.aliases = row.aliases;
+  if (row.relationship) person.relationship = row.relationship;
+  if (row.avatar) person.avatar = row.avatar;
+  if (row.notes) person.notes = row.notes;
+
+  return person;
+};
+
+// Only the fields present on the input are mapped, so this also serves partial updates
+const toRow = (person: Partial<Person>): Partial<PersonRow> => {
+  const row: Partial<PersonRow> = {};
+
+  if (person.id !== undefined) row.id = person.id;
+  if (person.userId !== undefined) row.user_id = person.userId;
+  if (person.name !== undefined) row.name = person.name;
+  if (person.aliases !== undefined) row.aliases = person.aliases;
+  if (person.relationship !== undefined) row.relationship = person.relationship || null;
+  if (person.avatar !== undefined) row.avatar = person.avatar || null;
+  if (person.notes !== undefined) row.notes = person.notes || null;
+  if (person.createdAt !== undefined) row.created_at = new Date(person.createdAt).toISOString();
+
+  return row;
+};
+
+export const createSupabasePersonRepository = (client: SupabaseClient): PersonRepository => ({
+  async create(person: Person): Promise<Person> {
+    const { data, error } = await client
+      .from(TABLE)
+      .insert(toRow(person))
+      .select()
+      .single();
+
+    if (error) {
+      return handleDatabaseError(error, 'create person');
+    }
+
+    return toPerson(data as PersonRow);
+  },
+
+  async findById(userId: string, id: string): Promise<Person | null> {
+    const { data, error } = await client
+      .from(TABLE)
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      return handleDatabaseError(error, 'get person');
+    }
+
+    return data ? toPerson(data as PersonRow) : null;
+  },
+
+  async list(userId: string): Promise<Person[]> {
+    const { data, error } = await client
+      .from(TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      return handleDatabaseError(error, 'list people');
+    }
+
+    return ((data || []) as PersonRow[]).map(toPerson);
+  },
+
+  async searchByName(userId: string, name: string, limit: number): Promise<PersonNameMatch[]> {
+    const { data, error } = await client.rpc('search_people_by_name', {
+      search_name: name,
+      user_uuid: userId,
+      limit_count: limit,
+    });
+
+    if (error) {
+      return handleDatabaseError(error, 'search people');
+    }
+
+    return ((data || []) as Array<PersonRow & { similarity: number | null }>).map(row => ({
+      person: toPerson(row),
+      similarity: Number(row.similarity || 0),
+    }));
+  },
+
+  async update(userId: string, id: string, changes: Partial<Person>): Promise<Person | null> {
+    const { id: _id, userId: _userId, ...rest } = changes;
+
+    const { data, error } = await client
+      .from(TABLE)
+      .update(toRow(rest))
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return handleDatabaseError(error, 'update person');
+    }
+
+    return data ? toPerson(data as PersonRow) : null;
+  },
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    const { data, error } = await client
+      .from(TABLE)
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      return handleDatabaseError(error, 'delete person');
+    }
+
+    return (data || []).length > 0;
+  },
+});
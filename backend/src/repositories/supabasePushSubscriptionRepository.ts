@@ -0,0 +1,98 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { PushSubscriptionRecord } from '../types';
+import { handleDatabaseError } from '../services/database';
+import { PushSubscriptionRepository } from './pushSubscriptionRepository';
+
+const TABLE = 'push_subscriptions';
+
+// Row shape of the push_subscriptions table in database/schema.sql
+interface PushSubscriptionRow {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  user_agent: string | null;
+  created_at: string;
+}
+
+const toSubscription = (row: PushSubscriptionRow): PushSubscriptionRecord => {
+  const subscription: PushSubscriptionRecord = {
+    id: row.id,
+    userId: row.user_id,
+    endpoint: row.endpoint,
+    p256dh: row.p256dh,
+    auth: row.auth,
+    createdAt: new Date(row.created_at),
+  };
+
+  if (row.user_agent) subscription.userAgent = row.user_agent;
+
+  return subscription;
+};
+
+const toRow = (subscription: PushSubscriptionRecord): PushSubscriptionRow => ({
+  id: subscription.id,
+  user_id: subscription.userId,
+  endpoint: subscription.endpoint,
+  p256dh: subscription.p256dh,
+  auth: subscription.auth,
+  user_agent: subscription.userAgent ?? null,
+  created_at: new Date(subscription.createdAt).toISOString(),
+});
+
+export const createSupabasePushSubscriptionRepository = (client: SupabaseClient): PushSubscriptionRepository => ({
+  async save(subscription: PushSubscriptionRecord): Promise<PushSubscriptionRecord> {
+    const { data, error } = await client
+      .from(TABLE)
+      .upsert(toRow(subscription), { onConflict: 'endpoint' })
+      .select()
+      .single();
+
+    if (error) {
+      return handleDatabaseError(error, 'save push subscription');
+    }
+
+    return toSubscription(data as PushSubscriptionRow);
+  },
+
+  async listByUser(userId: string): Promise<PushSubscriptionRecord[]> {
+    const { data, error } = await client
+      .from(TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      return handleDatabaseError(error, 'list push subscriptions');
+    }
+
+    return ((data || []) as PushSubscriptionRow[]).map(toSubscription);
+  },
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    const { data, error } = await client
+      .from(TABLE)
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      return handleDatabaseError(error, 'delete push subscription');
+    }
+
+    return (data || []).length > 0;
+  },
+
+  async deleteByEndpoint(endpoint: string): Promise<void> {
+    const { error } = await client
+      .from(TABLE)
+      .delete()
+      .eq('endpoint', endpoint);
+
+    if (error) {
+      return handleDatabaseError(error, 'delete push subscription');
+    }
+  },
+});
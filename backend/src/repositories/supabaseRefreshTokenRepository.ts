@@ -0,0 +1,99 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { RefreshTokenRecord } from '../types';
+import { handleDatabaseError } from '../services/database';
+import { RefreshTokenRepository } from './refreshTokenRepository';
+
+const TABLE = 'refresh_tokens';
+
+// Row shape of the refresh_tokens table in database/schema.sql
+interface RefreshTokenRow {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  expires_at: string;
+  revoked_at: string | null;
+  replaced_by: string | null;
+  created_at: string;
+}
+
+const toRefreshToken = (row: RefreshTokenRow): RefreshTokenRecord => {
+  const token: RefreshTokenRecord = {
+    id: row.id,
+    userId: row.user_id,
+    tokenHash: row.token_hash,
+    expiresAt: new Date(row.expires_at),
+    createdAt: new Date(row.created_at),
+  };
+
+  if (row.revoked_at) token.revokedAt = new Date(row.revoked_at);
+  if (row.replaced_by) token.replacedBy = row.replaced_by;
+
+  return token;
+};
+
+export const createSupabaseRefreshTokenRepository = (client: SupabaseClient): RefreshTokenRepository => ({
+  async create(token: RefreshTokenRecord): Promise<RefreshTokenRecord> {
+    const { data, error } = await client
+      .from(TABLE)
+      .insert({
+        id: token.id,
+        user_id: token.userId,
+        token_hash: token.tokenHash,
+        expires_at: token.expiresAt.toISOString(),
+        created_at: token.createdAt.toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      return handleDatabaseError(error, 'create refresh token');
+    }
+
+    return toRefreshToken(data as RefreshTokenRow);
+  },
+
+  async findByHash(tokenHash: string): Promise<RefreshTokenRecord | null> {
+    const { data, error } = await client
+      .from(TABLE)
+      .select('*')
+      .eq('token_hash', tokenHash)
+      .maybeSingle();
+
+    if (error) {
+      return handleDatabaseError(error, 'get refresh token');
+    }
+
+    return data ? toRefreshToken(data as RefreshTokenRow) : null;
+  },
+
+  async revoke(id: string, replacedBy?: string): Promise<boolean> {
+    // The revoked_at filter makes revocation atomic across concurrent refreshes
+    const { data, error } = await client
+      .from(TABLE)
+      .update({
+        revoked_at: new Date().toISOString(),
+        replaced_by: replacedBy ?? null,
+      })
+      .eq('id', id)
+      .is('revoked_at', null)
+      .select('id');
+
+    if (error) {
+      return handleDatabaseError(error, 'revoke refresh token');
+    }
+
+    return (data || []).length > 0;
+  },
+
+  async revokeAllForUser(userId: string): Promise<void> {
+    const { error } = await client
+      .from(TABLE)
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('revoked_at', null);
+
+    if (error) {
+      return handleDatabaseError(error, 'revoke user refresh tokens');
+    }
+  },
+});
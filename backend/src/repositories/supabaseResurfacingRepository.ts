@@ -0,0 +1,62 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { MemoryResurfacing, ResurfaceKind } from '../types';
+import { handleDatabaseError } from '../services/database';
+import { ResurfacingRepository } from './resurfacingRepository';
+
+const TABLE = 'memory_resurfacings';
+
+// Row shape of the memory_resurfacings table in database/schema.sql
+interface ResurfacingRow {
+  id: string;
+  user_id: string;
+  memory_id: string;
+  kind: ResurfaceKind;
+  surfaced_at: string;
+}
+
+const toResurfacing = (row: ResurfacingRow): MemoryResurfacing => ({
+  id: row.id,
+  userId: row.user_id,
+  memoryId: row.memory_id,
+  kind: row.kind,
+  surfacedAt: new Date(row.surfaced_at),
+});
+
+const toRow = (entry: MemoryResurfacing): ResurfacingRow => ({
+  id: entry.id,
+  user_id: entry.userId,
+  memory_id: entry.memoryId,
+  kind: entry.kind,
+  surfaced_at: entry.surfacedAt.toISOString(),
+});
+
+export const createSupabaseResurfacingRepository = (client: SupabaseClient): ResurfacingRepository => ({
+  async record(entries: MemoryResurfacing[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const { error } = await client
+      .from(TABLE)
+      .insert(entries.map(toRow));
+
+    if (error) {
+      return handleDatabaseError(error, 'record resurfaced memories');
+    }
+  },
+
+  async listSince(userId: string, since: Date): Promise<MemoryResurfacing[]> {
+    const { data, error } = await client
+      .from(TABLE)
+      .select('*')
+      .eq('user_id', userId)
+      .gte('surfaced_at', since.toISOString())
+      .order('surfaced_at', { ascending: false });
+
+    if (error) {
+      return handleDatabaseError(error, 'list resurfaced memories');
+    }
+
+    return ((data || []) as ResurfacingRow[]).map(toResurfacing);
+  },
+});
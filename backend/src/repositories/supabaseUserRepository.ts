@@ -0,0 +1,121 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { User, UserRecord } from '../types';
+import { handleDatabaseError } from '../services/database';
+import { UserChanges, UserRepository } from './userRepository';
+
+const TABLE = 'users';
+
+// Row shape of the users table in database/schema.sql
+interface UserRow {
+  id: string;
+  email: string;
+  password_hash: string;
+  name: string;
+  avatar: string | null;
+  preferences: User['preferences'] | null;
+  password_changed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const toUser = (row: UserRow): UserRecord => {
+  const user: UserRecord = {
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    passwordHash: row.password_hash,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+
+  if (row.avatar) user.avatar = row.avatar;
+  if (row.preferences) user.preferences = row.preferences;
+  if (row.password_changed_at) user.passwordChangedAt = new Date(row.password_changed_at);
+
+  return user;
+};
+
+const toRow = (user: Partial<UserRecord>): Partial<UserRow> => {
+  const row: Partial<UserRow> = {};
+
+  if (user.id !== undefined) row.id = user.id;
+  if (user.email !== undefined) row.email = user.email.toLowerCase();
+  if (user.passwordHash !== undefined) row.password_hash = user.passwordHash;
+  if (user.name !== undefined) row.name = user.name;
+  if (user.avatar !== undefined) row.avatar = user.avatar;
+  if (user.preferences !== undefined) row.preferences = user.preferences;
+  if (user.passwordChangedAt !== undefined) row.password_changed_at = user.passwordChangedAt.toISOString();
+
+  return row;
+};
+
+export const createSupabaseUserRepository = (client: SupabaseClient): UserRepository => ({
+  async create(user: UserRecord): Promise<UserRecord> {
+    const { data, error } = await client
+      .from(TABLE)
+      .insert(toRow(user))
+      .select()
+      .single();
+
+    if (error) {
+      return handleDatabaseError(error, 'create user');
+    }
+
+    return toUser(data as UserRow);
+  },
+
+  async findById(id: string): Promise<UserRecord | null> {
+    const { data, error } = await client
+      .from(TABLE)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      return handleDatabaseError(error, 'get user by id');
+    }
+
+    return data ? toUser(data as UserRow) : null;
+  },
+
+  async findByEmail(email: string): Promise<UserRecord | null> {
+    const { data, error } = await client
+      .from(TABLE)
+      .select('*')
+      .eq('email', email.toLowerCase())
+      .maybeSingle();
+
+    if (error) {
+      return handleDatabaseError(error, 'get user by email');
+    }
+
+    return data ? toUser(data as UserRow) : null;
+  },
+
+  async update(id: string, changes: UserChanges): Promise<UserRecord | null> {
+    const { data, error } = await client
+      .from(TABLE)
+      .update(toRow(changes))
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      return handleDatabaseError(error, 'update user');
+    }
+
+    return data ? toUser(data as UserRow) : null;
+  },
+
+  async listIds(): Promise<string[]> {
+    const { data, error } = await client
+      .from(TABLE)
+      .select('id');
+
+    if (error) {
+      return handleDatabaseError(error, 'list users');
+    }
+
+    return ((data || []) as Pick<UserRow, 'id'>[]).map(row => row.id);
+  },
+});
@@ -0,0 +1,13 @@
+import { UserRecord } from '../types';
+
+export type UserChanges = Partial<Omit<UserRecord, 'id' | 'createdAt' | 'updatedAt'>>;
+
+// Storage contract for user accounts. Emails are stored lower-cased.
+export interface UserRepository {
+  create(user: UserRecord): Promise<UserRecord>;
+  findById(id: string): Promise<UserRecord | null>;
+  findByEmail(email: string): Promise<UserRecord | null>;
+  update(id: string, changes: UserChanges): Promise<UserRecord | null>;
+  // Every account's id, for background sweeps
+  listIds(): Promise<string[]>;
+}
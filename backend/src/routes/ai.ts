@@ -1,73 +1,92 @@
 import express from 'express';
 import { Request, Response } from 'express';
+import multer from 'multer';
 import { asyncHandler } from '../middleware/errorHandler';
+import { getMemoryRepository } from '../repositories';
+import {
+  generateMemoryInsights,
+  processMemoryQuery,
+  summarizeMemory,
+  transcribeAudio,
+} from '../services/aiService';
+import { isVectorStoreReady } from '../services/vectorStore';
+import { NUDGE_TYPES } from '../services/nudgeService';
+import { generateNudgeOfType } from '../services/nudgeSchedulerService';
+import {
+  answerQuestion,
+  extractCitedMemoryIds,
+  prepareAnswer,
+  PreparedAnswer,
+  streamAnswer,
+} from '../services/askService';
+import { detectAudioType } from '../services/attachmentService';
+import { AUDIO_EXTENSIONS, ChatMessage } from '../providers';
+import { AIQueryRequest, NudgeType } from '../types';
+import { logger } from '../utils/logger';
+import { getAudioDuration } from '../utils/audio';
 
 const router = express.Router();
 
-// Mock AI responses for development
-const mockAIResponses = {
-  summarize: (content: string) => {
-    const words = content.split(' ');
-    const summary = words.slice(0, 15).join(' ') + (words.length > 15 ? '...' : '');
-    return {
-      summary,
-      emotions: ['joy', 'contentment'],
-      tags: ['memory', 'reflection'],
-      mood: 7
-    };
-  },
-  
-  search: (query: string) => {
-    return [
-      {
-        memoryId: 'memory-1',
-        similarity: 0.85,
-        content: 'Today was absolutely amazing! I went to the beach for the first time this summer...',
-        summary: 'A perfect beach day with clear water and gentle waves',
-        metadata: {
-          title: 'First Day at the Beach',
-          people: ['Sarah', 'Mike'],
-          tags: ['beach', 'summer', 'swimming'],
-          mood: 9
-        }
-      },
-      {
-        memoryId: 'memory-2',
-        similarity: 0.72,
-        content: 'Met up with Jessica today after not seeing her for almost a year...',
-        summary: 'Reconnecting with an old friend over coffee after a year apart',
-        metadata: {
-          title: 'Coffee with an Old Friend',
-          people: ['Jessica'],
-          tags: ['friendship', 'coffee', 'reunion'],
-          mood: 8
-        }
-      }
-    ];
-  },
-  
-  insights: (memories: any[]) => {
-    return [
-      {
-        type: 'pattern',
-        title: 'You tend to feel happier on weekends',
-        description: 'Based on your recent memories, your mood is consistently higher on Saturdays and Sundays.',
-        confidence: 0.82
-      },
-      {
-        type: 'connection',
-        title: 'Strong bonds with close friends',
-        description: 'Your memories show deep emotional connections with a small circle of close friends.',
-        confidence: 0.75
-      },
-      {
-        type: 'trend',
-        title: 'Increasing appreciation for nature',
-        description: 'You\'ve been spending more time outdoors and finding joy in natural settings.',
-        confidence: 0.68
-      }
-    ];
+const MAX_QUERY_RESULTS = 50;
+
+const MAX_QUESTION_LENGTH = 2000;
+
+// The Whisper API rejects files over 25 MB
+const MAX_AUDIO_BYTES = parseInt(process.env.TRANSCRIPTION_MAX_BYTES || String(25 * 1024 * 1024));
+const MAX_AUDIO_SECONDS = parseInt(process.env.TRANSCRIPTION_MAX_SECONDS || '600');
+
+const audioUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_AUDIO_BYTES, files: 1 },
+}).single('file');
+
+// Run multer inside the handler so upload errors get this router's JSON responses
+const receiveAudio = (req: Request, res: Response): Promise<void> =>
+  new Promise((resolve, reject) => {
+    audioUpload(req, res, (error: unknown) => (error ? reject(error) : resolve()));
+  });
+
+const isChatTurn = (value: any): value is ChatMessage =>
+  Boolean(value) &&
+  (value.role === 'user' || value.role === 'assistant') &&
+  typeof value.content === 'string';
+
+const toStringList = (value: unknown): string[] | undefined =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    : undefined;
+
+// Validate the filters of a query request; returns an error message for bad input
+const parseQueryFilters = (raw: any): { filters?: AIQueryRequest['filters']; error?: string } => {
+  if (raw === undefined || raw === null) {
+    return {};
+  }
+
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: 'Filters must be an object' };
+  }
+
+  const filters: NonNullable<AIQueryRequest['filters']> = {};
+  const people = toStringList(raw.people);
+  const tags = toStringList(raw.tags);
+  const emotions = toStringList(raw.emotions);
+
+  if (people) filters.people = people;
+  if (tags) filters.tags = tags;
+  if (emotions) filters.emotions = emotions;
+
+  if (raw.dateRange) {
+    const start = new Date(raw.dateRange.start);
+    const end = new Date(raw.dateRange.end);
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+      return { error: 'dateRange needs a valid start and end, with start before end' };
+    }
+
+    filters.dateRange = { start, end };
   }
+
+  return { filters };
 };
 
 // Summarize memory content
@@ -89,7 +108,7 @@ router.post('/summarize', asyncHandler(async (req: Request, res: Response) => {
   }
 
   try {
-    const result = mockAIResponses.summarize(content);
+    const result = await summarizeMemory({ content, people });
     
     return res.json({
       success: true,
@@ -103,8 +122,8 @@ router.post('/summarize', asyncHandler(async (req: Request, res: Response) => {
   }
 }));
 
-// Search similar memories
-router.post('/search', asyncHandler(async (req: Request, res: Response) => {
+// Semantic search over the user's memories
+router.post('/query', asyncHandler(async (req: Request, res: Response) => {
   if (!req.user) {
     return res.status(401).json({
       success: false,
@@ -112,22 +131,50 @@ router.post('/search', asyncHandler(async (req: Request, res: Response) => {
     });
   }
 
-  const { query, limit = 5, threshold = 0.5 } = req.body;
+  const { query, limit, threshold } = req.body;
 
-  if (!query) {
+  if (typeof query !== 'string' || !query.trim()) {
     return res.status(400).json({
       success: false,
       error: 'Search query is required',
     });
   }
 
+  if (threshold !== undefined && (typeof threshold !== 'number' || threshold < 0 || threshold > 1)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Threshold must be a number between 0 and 1',
+    });
+  }
+
+  const { filters, error } = parseQueryFilters(req.body.filters);
+
+  if (error) {
+    return res.status(400).json({
+      success: false,
+      error,
+    });
+  }
+
+  if (!isVectorStoreReady()) {
+    return res.status(503).json({
+      success: false,
+      error: 'Semantic search is unavailable',
+    });
+  }
+
   try {
-    const results = mockAIResponses.search(query);
-    const filteredResults = results.filter(result => result.similarity >= threshold);
-    
+    const result = await processMemoryQuery({
+      query: query.trim(),
+      userId: req.user.id,
+      limit: Math.min(Math.max(parseInt(limit) || 10, 1), MAX_QUERY_RESULTS),
+      ...(threshold !== undefined && { threshold }),
+      ...(filters && { filters }),
+    });
+
     return res.json({
       success: true,
-      data: filteredResults.slice(0, limit),
+      data: result,
     });
   } catch (error) {
     return res.status(500).json({
@@ -137,6 +184,113 @@ router.post('/search', asyncHandler(async (req: Request, res: Response) => {
   }
 }));
 
+// Answer a question from the user's memories, citing them as [n].
+// Streams server-sent events (citations, token..., done) when the client accepts
+// text/event-stream; otherwise responds with the whole answer as JSON.
+router.post('/ask', asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const { question, history = [] } = req.body;
+
+  if (typeof question !== 'string' || !question.trim()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Question is required',
+    });
+  }
+
+  if (question.length > MAX_QUESTION_LENGTH) {
+    return res.status(400).json({
+      success: false,
+      error: `Question must be at most ${MAX_QUESTION_LENGTH} characters`,
+    });
+  }
+
+  if (!Array.isArray(history) || !history.every(isChatTurn)) {
+    return res.status(400).json({
+      success: false,
+      error: 'History must be a list of user and assistant messages',
+    });
+  }
+
+  const askRequest = { userId: req.user.id, question: question.trim(), history };
+
+  if (req.accepts(['json', 'text/event-stream']) !== 'text/event-stream') {
+    try {
+      const result = await answerQuestion(askRequest);
+
+      return res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to answer question',
+      });
+    }
+  }
+
+  let prepared: PreparedAnswer;
+  try {
+    prepared = await prepareAnswer(askRequest);
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to answer question',
+    });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    // Stop reverse proxies from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+
+  let disconnected = false;
+  res.on('close', () => {
+    disconnected = true;
+  });
+
+  const sendEvent = (event: string, data: unknown) => {
+    if (disconnected) {
+      return;
+    }
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  sendEvent('citations', { citations: prepared.citations });
+
+  let answer = '';
+  try {
+    for await (const text of streamAnswer(prepared)) {
+      // Leaving the loop cancels the upstream completion
+      if (disconnected) {
+        break;
+      }
+      answer += text;
+      sendEvent('token', { text });
+    }
+
+    sendEvent('done', {
+      answer: answer.trim(),
+      citedMemoryIds: extractCitedMemoryIds(answer, prepared.citations),
+    });
+  } catch (error) {
+    logger.error('Failed to stream answer:', error);
+    sendEvent('error', { error: 'Failed to answer question' });
+  }
+
+  return res.end();
+}));
+
 // Generate insights from memories
 router.post('/insights', asyncHandler(async (req: Request, res: Response) => {
   if (!req.user) {
@@ -146,10 +300,12 @@ router.post('/insights', asyncHandler(async (req: Request, res: Response) => {
     });
   }
 
-  const { memories = [] } = req.body;
-
   try {
-    const insights = mockAIResponses.insights(memories);
+    const { memories } = await getMemoryRepository().list(req.user.id, { limit: 50 });
+    const people = Array.from(new Set(memories.flatMap(memory => memory.people || [])))
+      .map(name => ({ name }));
+
+    const insights = await generateMemoryInsights(memories, people);
     
     return res.json({
       success: true,
@@ -163,7 +319,42 @@ router.post('/insights', asyncHandler(async (req: Request, res: Response) => {
   }
 }));
 
-// Transcribe audio (mock)
+// Generate and save a nudge of the given type. Body: type, and optionally
+// personId for the person a reconnect, reminder or milestone is about
+router.post('/nudges', asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const { type, personId } = req.body;
+
+  if (!NUDGE_TYPES.includes(type)) {
+    return res.status(400).json({
+      success: false,
+      error: `Type must be one of: ${NUDGE_TYPES.join(', ')}`,
+    });
+  }
+
+  if (personId !== undefined && (typeof personId !== 'string' || !personId)) {
+    return res.status(400).json({
+      success: false,
+      error: 'personId must be a person ID',
+    });
+  }
+
+  const nudge = await generateNudgeOfType(req.user.id, type as NudgeType, personId);
+
+  return res.status(201).json({
+    success: true,
+    data: nudge,
+    message: 'Nudge generated successfully',
+  });
+}));
+
+// Transcribe an uploaded recording (multipart field "file"), with segment timestamps
 router.post('/transcribe', asyncHandler(async (req: Request, res: Response) => {
   if (!req.user) {
     return res.status(401).json({
@@ -172,15 +363,66 @@ router.post('/transcribe', asyncHandler(async (req: Request, res: Response) => {
     });
   }
 
-  // In a real implementation, this would process the audio file
-  // For now, return a mock transcription
   try {
+    await receiveAudio(req, res);
+  } catch (error) {
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({
+        success: false,
+        error: `Audio must be at most ${Math.floor(MAX_AUDIO_BYTES / (1024 * 1024))} MB`,
+      });
+    }
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid audio upload',
+    });
+  }
+
+  const file = req.file;
+
+  if (!file || file.size === 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'An audio file is required',
+    });
+  }
+
+  // The declared type is only a label; the bytes decide what gets transcribed
+  const mimeType = await detectAudioType(file.buffer);
+
+  if (!mimeType || !AUDIO_EXTENSIONS[mimeType]) {
+    return res.status(415).json({
+      success: false,
+      error: mimeType ? `Unsupported audio type: ${mimeType}` : 'The file is not a recognised audio format',
+    });
+  }
+
+  // Recordings without a duration header are bounded by the size limit instead
+  const duration = await getAudioDuration(file.buffer, mimeType);
+
+  if (duration !== undefined && duration > MAX_AUDIO_SECONDS) {
+    return res.status(400).json({
+      success: false,
+      error: `Audio must be at most ${MAX_AUDIO_SECONDS} seconds long`,
+    });
+  }
+
+  const language = typeof req.body.language === 'string' && /^[a-z]{2}$/i.test(req.body.language)
+    ? req.body.language.toLowerCase()
+    : undefined;
+
+  try {
+    const transcription = await transcribeAudio({
+      audio: file.buffer,
+      mimeType,
+      ...(language && { language }),
+    });
+
     return res.json({
       success: true,
       data: {
-        transcription: "This is a mock transcription of the audio content. In a real implementation, this would be the actual transcribed text from the audio file.",
-        confidence: 0.95,
-        language: 'en'
+        ...transcription,
+        duration: transcription.duration ?? duration,
       },
     });
   } catch (error) {
@@ -0,0 +1,141 @@
+import { initializeRepositories } from '../repositories';
+import { issueSession, toPublicUser } from '../services/authService';
+import { authHeaders, createTestUser } from '../test/fixtures';
+import { serve, TestServer } from '../test/http';
+import authRoutes from './auth';
+
+const refreshCookie = (response: Response): string | undefined =>
+  response.headers.getSetCookie().find(cookie => cookie.startsWith('refreshToken='))?.split(';')[0];
+
+let server: TestServer;
+
+beforeEach(async () => {
+  await initializeRepositories();
+  server = await serve('/api/auth', authRoutes);
+});
+
+afterEach(async () => {
+  await server.close();
+});
+
+describe('POST /api/auth/refresh', () => {
+  const refresh = (cookie?: string) =>
+    fetch(`${server.url}/refresh`, {
+      method: 'POST',
+      headers: cookie ? { Cookie: cookie } : {},
+    });
+
+  it('rotates the refresh cookie and returns an access token', async () => {
+    const user = await createTestUser();
+    const session = await issueSession(toPublicUser(user));
+
+    const response = await refresh(`refreshToken=${session.refreshToken}`);
+    const body = (await response.json()) as any;
+
+    expect(response.status).toBe(200);
+    expect(body.data.user.id).toBe(user.id);
+    expect(body.data.token).toEqual(expect.any(String));
+    expect(refreshCookie(response)).not.toBe(`refreshToken=${session.refreshToken}`);
+  });
+
+  it('rejects a reused cookie and signs out the rotated session too', async () => {
+    const user = await createTestUser();
+    const session = await issueSession(toPublicUser(user));
+    const rotated = refreshCookie(await refresh(`refreshToken=${session.refreshToken}`));
+
+    const reuse = await refresh(`refreshToken=${session.refreshToken}`);
+    expect(reuse.status).toBe(401);
+    expect(refreshCookie(reuse)).toBe('refreshToken=');
+
+    expect((await refresh(rotated!)).status).toBe(401);
+  });
+
+  it('requires a refresh token', async () => {
+    expect((await refresh()).status).toBe(401);
+  });
+});
+
+describe('PUT /api/auth/profile', () => {
+  const updateNudges = async (nudges: unknown) => {
+    const user = await createTestUser();
+    return fetch(`${server.url}/profile`, {
+      method: 'PUT',
+      headers: authHeaders(user),
+      body: JSON.stringify({ preferences: { nudges } }),
+    });
+  };
+
+  it('saves nudge caps and quiet hours', async () => {
+    const nudges = { maxPerDay: 1, maxPerWeek: 4, quietHours: { start: '22:00', end: '07:00' }, timezone: 'Europe/London' };
+
+    const response = await updateNudges(nudges);
+    const body = (await response.json()) as any;
+
+    expect(response.status).toBe(200);
+    expect(body.data.preferences.nudges).toEqual(nudges);
+  });
+
+  it('rejects caps over the limit and malformed quiet hours', async () => {
+    expect((await updateNudges({ maxPerDay: 50 })).status).toBe(400);
+    expect((await updateNudges({ quietHours: { start: '10pm', end: '07:00' } })).status).toBe(400);
+  });
+});
+
+describe('POST /api/auth/register and /api/auth/login', () => {
+  const post = (path: string, body: unknown) =>
+    fetch(`${server.url}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  it('registers an account and logs in to it', async () => {
+    const registered = await post('/register', { name: ' Ada ', email: 'Ada@Example.com', password: 'correct horse' });
+    const { data } = (await registered.json()) as any;
+
+    expect(registered.status).toBe(201);
+    expect(data.user).toMatchObject({ name: 'Ada', email: 'ada@example.com' });
+
+    expect((await post('/login', { email: 'ada@example.com', password: 'correct horse' })).status).toBe(200);
+    expect((await post('/login', { email: 'ada@example.com', password: 'wrong horse' })).status).toBe(401);
+  });
+
+  it.each([
+    { name: 'Ada', email: ['ada@example.com'], password: 'correct horse' },
+    { name: 'Ada', email: 'ada@example.com', password: { length: 20 } },
+    { name: 42, email: 'ada@example.com', password: 'correct horse' },
+  ])('rejects a registration with a field that is not a string: %j', async body => {
+    expect((await post('/register', body)).status).toBe(400);
+  });
+
+  it.each([
+    { email: ['ada@example.com'], password: 'correct horse' },
+    { email: 'ada@example.com', password: ['correct horse'] },
+  ])('rejects a login with a field that is not a string: %j', async body => {
+    expect((await post('/login', body)).status).toBe(400);
+  });
+});
+
+describe('POST /api/auth/forgot-password', () => {
+  const forgot = (email: unknown) =>
+    fetch(`${server.url}/forgot-password`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email }),
+    });
+
+  it('answers the same for known and unknown addresses', async () => {
+    await createTestUser({ email: 'ada@example.com' });
+
+    const known = await forgot('ada@example.com');
+    const unknown = await forgot('nobody@example.com');
+
+    expect(known.status).toBe(200);
+    expect(unknown.status).toBe(200);
+    expect(await known.json()).toEqual(await unknown.json());
+  });
+
+  it('rejects an address that is not a string', async () => {
+    expect((await forgot(['ada@example.com'])).status).toBe(400);
+  });
+});
@@ -1,109 +1,344 @@
 import express from 'express';
 import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
 import { asyncHandler } from '../middleware/errorHandler';
-import { User } from '../types';
+import { authenticateUser } from '../middleware/auth';
+import { getUserRepository } from '../repositories';
+import {
+  hashPassword,
+  issueSession,
+  revokeAllSessions,
+  revokeRefreshToken,
+  rotateRefreshToken,
+  SessionTokens,
+  toPublicUser,
+  verifyPassword,
+} from '../services/authService';
+import { queuePasswordReset, resetPassword } from '../services/passwordResetService';
+import { invalidNudgePreferences } from '../services/nudgeSchedulerService';
+import {
+  ChangePasswordRequest,
+  ForgotPasswordRequest,
+  LoginRequest,
+  RegisterRequest,
+  ResetPasswordRequest,
+  UserRecord,
+} from '../types';
 
 const router = express.Router();
 
-// Mock users for development
-const mockUsers: User[] = [
-  {
-    id: 'user-1',
-    email: 'alice@example.com',
-    name: 'Alice Johnson',
-    avatar: 'https://images.unsplash.com/photo-1494790108755-2616b612b786?w=150&h=150&fit=crop&crop=face',
-    preferences: {
-      theme: 'light',
-      notifications: true,
-      privacy: 'private'
-    },
-    createdAt: new Date('2024-01-01'),
-    updatedAt: new Date('2024-01-01')
-  },
-  {
-    id: 'user-2',
-    email: 'bob@example.com',
-    name: 'Bob Smith',
-    avatar: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=150&h=150&fit=crop&crop=face',
-    preferences: {
-      theme: 'dark',
-      notifications: false,
-      privacy: 'friends'
+const REFRESH_COOKIE = 'refreshToken';
+const REFRESH_COOKIE_PATH = '/api/auth';
+const MIN_PASSWORD_LENGTH = 8;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Compared against when the email is unknown so login timing doesn't reveal accounts
+const DUMMY_PASSWORD_HASH = '$2a$12$LQv3c1yqBWVHxkd0LHAkCOYz6TtxMQJqhN8/LewdBPj4tbQJELp2O';
+
+// Bodies are untyped JSON, so a field sent as a number, array or object
+// counts as missing rather than reaching string methods or bcrypt
+const isFilled = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+// The refresh token lives in an httpOnly cookie scoped to the auth routes
+const setRefreshCookie = (res: Response, tokens: SessionTokens): void => {
+  res.cookie(REFRESH_COOKIE, tokens.refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: REFRESH_COOKIE_PATH,
+    expires: tokens.refreshTokenExpiresAt,
+  });
+};
+
+const clearRefreshCookie = (res: Response): void => {
+  res.clearCookie(REFRESH_COOKIE, { path: REFRESH_COOKIE_PATH });
+};
+
+// Read the refresh token from the cookie, falling back to the request body for non-browser clients
+const getRefreshToken = (req: Request): string | undefined => {
+  const cookies = (req.headers.cookie || '').split(';');
+  for (const cookie of cookies) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === REFRESH_COOKIE && value.length > 0) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+
+  return typeof req.body?.refreshToken === 'string' ? req.body.refreshToken : undefined;
+};
+
+const sendSession = (res: Response, user: UserRecord, tokens: SessionTokens, status: number = 200) => {
+  setRefreshCookie(res, tokens);
+  return res.status(status).json({
+    success: true,
+    data: {
+      user: toPublicUser(user),
+      token: tokens.accessToken,
     },
-    createdAt: new Date('2024-01-02'),
-    updatedAt: new Date('2024-01-02')
-  },
-  {
-    id: 'user-3',
-    email: 'carol@example.com',
-    name: 'Carol Davis',
-    avatar: 'https://images.unsplash.com/photo-1438761681033-6461ffad8d80?w=150&h=150&fit=crop&crop=face',
+  });
+};
+
+// Register a new account
+router.post('/register', asyncHandler(async (req: Request, res: Response) => {
+  const { name, email, password }: RegisterRequest = req.body;
+
+  if (!isFilled(name) || !isFilled(email) || !isFilled(password)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Name, email, and password are required',
+    });
+  }
+
+  if (!EMAIL_PATTERN.test(email)) {
+    return res.status(400).json({
+      success: false,
+      error: 'A valid email address is required',
+    });
+  }
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({
+      success: false,
+      error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+    });
+  }
+
+  const users = getUserRepository();
+
+  if (await users.findByEmail(email)) {
+    return res.status(409).json({
+      success: false,
+      error: 'An account with this email already exists',
+    });
+  }
+
+  const user = await users.create({
+    id: uuidv4(),
+    email: email.trim().toLowerCase(),
+    name: name.trim(),
+    passwordHash: await hashPassword(password),
     preferences: {
       theme: 'light',
       notifications: true,
-      privacy: 'public'
+      privacy: 'private',
     },
-    createdAt: new Date('2024-01-03'),
-    updatedAt: new Date('2024-01-03')
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const tokens = await issueSession(user);
+  return sendSession(res, user, tokens, 201);
+}));
+
+// Log in with email and password
+router.post('/login', asyncHandler(async (req: Request, res: Response) => {
+  const { email, password }: LoginRequest = req.body;
+
+  if (!isFilled(email) || !isFilled(password)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Email and password are required',
+    });
+  }
+
+  const user = await getUserRepository().findByEmail(email.trim());
+  const passwordMatches = await verifyPassword(password, user?.passwordHash || DUMMY_PASSWORD_HASH);
+
+  if (!user || !passwordMatches) {
+    return res.status(401).json({
+      success: false,
+      error: 'Invalid email or password',
+    });
   }
-];
 
-// Get all available users (for demo purposes)
-router.get('/users', asyncHandler(async (req: Request, res: Response) => {
+  const tokens = await issueSession(user);
+  return sendSession(res, user, tokens);
+}));
+
+// Exchange a refresh token for a new access token, rotating the refresh token
+router.post('/refresh', asyncHandler(async (req: Request, res: Response) => {
+  const refreshToken = getRefreshToken(req);
+
+  if (!refreshToken) {
+    return res.status(401).json({
+      success: false,
+      error: 'Refresh token required',
+    });
+  }
+
+  try {
+    const { user, tokens } = await rotateRefreshToken(refreshToken);
+    return sendSession(res, user, tokens);
+  } catch (error) {
+    clearRefreshCookie(res);
+    throw error;
+  }
+}));
+
+// Log out, revoking the current refresh token
+router.post('/logout', asyncHandler(async (req: Request, res: Response) => {
+  const refreshToken = getRefreshToken(req);
+
+  if (refreshToken) {
+    await revokeRefreshToken(refreshToken);
+  }
+
+  clearRefreshCookie(res);
+
   return res.json({
     success: true,
-    data: mockUsers.map(user => ({
-      id: user.id,
-      name: user.name,
-      email: user.email,
-      avatar: user.avatar
-    }))
+    message: 'Logged out successfully',
   });
 }));
 
-// Get current user profile
-router.get('/profile', asyncHandler(async (req: Request, res: Response) => {
-  const userId = req.headers['x-user-id'] as string || 'user-1';
-  const user = mockUsers.find(u => u.id === userId);
-  
-  if (!user) {
-    return res.status(404).json({
+// Email a password reset link; always succeeds so accounts can't be enumerated
+router.post('/forgot-password', asyncHandler(async (req: Request, res: Response) => {
+  const { email }: ForgotPasswordRequest = req.body;
+
+  if (!isFilled(email) || !EMAIL_PATTERN.test(email)) {
+    return res.status(400).json({
       success: false,
-      error: 'User not found'
+      error: 'A valid email address is required',
     });
   }
 
+  await queuePasswordReset(email);
+
   return res.json({
     success: true,
-    data: user
+    message: 'If an account exists for that email, a reset link has been sent',
+  });
+}));
+
+// Set a new password with a reset token; every existing session is signed out
+router.post('/reset-password', asyncHandler(async (req: Request, res: Response) => {
+  const { token, newPassword }: ResetPasswordRequest = req.body;
+
+  if (!isFilled(token) || !isFilled(newPassword)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Reset token and new password are required',
+    });
+  }
+
+  if (newPassword.length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({
+      success: false,
+      error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+    });
+  }
+
+  await resetPassword(token, newPassword);
+  clearRefreshCookie(res);
+
+  return res.json({
+    success: true,
+    message: 'Password has been reset. Please log in with your new password',
+  });
+}));
+
+// Get current user
+router.get(['/me', '/profile'], authenticateUser, asyncHandler(async (req: Request, res: Response) => {
+  return res.json({
+    success: true,
+    data: req.user,
   });
 }));
 
 // Update user profile
-router.put('/profile', asyncHandler(async (req: Request, res: Response) => {
-  const userId = req.headers['x-user-id'] as string || 'user-1';
-  const user = mockUsers.find(u => u.id === userId);
-  
+router.put('/profile', authenticateUser, asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const { name, avatar, preferences } = req.body;
+  const changes: Partial<UserRecord> = {};
+
+  const invalidNudges = preferences?.nudges !== undefined && invalidNudgePreferences(preferences.nudges);
+  if (invalidNudges) {
+    return res.status(400).json({
+      success: false,
+      error: invalidNudges,
+    });
+  }
+
+  if (name) changes.name = name;
+  if (avatar) changes.avatar = avatar;
+  if (preferences) {
+    // Channels, with their webhook secret, are managed through /api/notifications
+    // and resurfacing mutes through /api/memories/resurface
+    const { channels: _channels, resurfacing: _resurfacing, ...rest } = preferences;
+    changes.preferences = { ...req.user.preferences, ...rest } as NonNullable<UserRecord['preferences']>;
+  }
+
+  const user = await getUserRepository().update(req.user.id, changes);
+
   if (!user) {
     return res.status(404).json({
       success: false,
-      error: 'User not found'
+      error: 'User not found',
     });
   }
 
-  const { name, avatar, preferences } = req.body;
-  
-  // Update user (in a real app, this would save to database)
-  if (name) user.name = name;
-  if (avatar) user.avatar = avatar;
-  if (preferences) user.preferences = { ...user.preferences, ...preferences };
-  user.updatedAt = new Date();
+  return res.json({
+    success: true,
+    data: toPublicUser(user),
+    message: 'Profile updated successfully',
+  });
+}));
+
+// Change password; every other session is signed out
+router.put('/password', authenticateUser, asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const { currentPassword, newPassword }: ChangePasswordRequest = req.body;
+
+  if (!isFilled(currentPassword) || !isFilled(newPassword)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Current and new password are required',
+    });
+  }
+
+  if (newPassword.length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({
+      success: false,
+      error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+    });
+  }
+
+  const users = getUserRepository();
+  const user = await users.findById(req.user.id);
+
+  if (!user || !(await verifyPassword(currentPassword, user.passwordHash))) {
+    return res.status(401).json({
+      success: false,
+      error: 'Current password is incorrect',
+    });
+  }
+
+  const updated = await users.update(user.id, {
+    passwordHash: await hashPassword(newPassword),
+    passwordChangedAt: new Date(),
+  });
+
+  await revokeAllSessions(user.id);
+  const tokens = await issueSession(updated || user);
+  setRefreshCookie(res, tokens);
 
   return res.json({
     success: true,
-    data: user,
-    message: 'Profile updated successfully'
+    data: { token: tokens.accessToken },
+    message: 'Password changed successfully',
   });
 }));
 
-export default router; 
\ No newline at end of file
+export default router;
@@ -0,0 +1,87 @@
+import { authenticateUser } from '../middleware/auth';
+import { initializeRepositories } from '../repositories';
+import { registerExportJobs } from '../services/exportService';
+import { runPendingJobs } from '../services/jobQueue';
+import { authHeaders, createTestMemory, createTestUser } from '../test/fixtures';
+import { serve, TestServer } from '../test/http';
+import exportRoutes from './exports';
+
+let server: TestServer;
+
+beforeAll(() => {
+  registerExportJobs();
+});
+
+beforeEach(async () => {
+  await initializeRepositories();
+  server = await serve('/api/memories/export', authenticateUser, exportRoutes);
+});
+
+afterEach(async () => {
+  jest.useRealTimers();
+  await server.close();
+});
+
+describe('GET /api/memories/export', () => {
+  it('streams a small export straight away', async () => {
+    const user = await createTestUser();
+    await createTestMemory(user.id, { content: 'Picnic in the park' });
+
+    const response = await fetch(`${server.url}?format=csv&entity=memories`, { headers: authHeaders(user) });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-disposition')).toMatch(/^attachment; filename="memorynest-memories-\d{4}-\d{2}-\d{2}\.csv"$/);
+    expect(await response.text()).toContain('Picnic in the park');
+  });
+
+  it.each([
+    ['an unknown format', 'format=pdf'],
+    ['an entity outside CSV', 'format=json&entity=memories'],
+    ['an unknown entity', 'format=csv&entity=passwords'],
+  ])('rejects %s', async (_case, query) => {
+    const user = await createTestUser();
+
+    expect((await fetch(`${server.url}?${query}`, { headers: authHeaders(user) })).status).toBe(400);
+  });
+
+  it('runs a background export through to download and expiry', async () => {
+    const user = await createTestUser();
+    await createTestMemory(user.id, { content: 'Picnic in the park' });
+
+    const started = await fetch(`${server.url}?format=json&async=true`, { headers: authHeaders(user) });
+    const { data: queued } = (await started.json()) as any;
+
+    expect(started.status).toBe(202);
+    expect(started.headers.get('location')).toBe(`/api/memories/export/${queued.id}`);
+    expect(queued).toMatchObject({ format: 'json', status: 'pending' });
+
+    const early = await fetch(`${server.url}/${queued.id}/download`, { headers: authHeaders(user) });
+    expect(early.status).toBe(404);
+
+    await runPendingJobs();
+
+    const { data: done } = (await (await fetch(`${server.url}/${queued.id}`, { headers: authHeaders(user) })).json()) as any;
+    expect(done).toMatchObject({ status: 'done', downloadUrl: `/api/memories/export/${queued.id}/download` });
+
+    const download = await fetch(`${server.url}/${queued.id}/download`, { headers: authHeaders(user) });
+    expect(download.status).toBe(200);
+    expect(JSON.parse(await download.text()).memories[0].content).toBe('Picnic in the park');
+
+    // The cleanup job deletes the file once the retention period has passed
+    jest.useFakeTimers({ now: Date.now() + 73 * 60 * 60 * 1000, doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    await runPendingJobs();
+    jest.useRealTimers();
+
+    const expired = await fetch(`${server.url}/${queued.id}/download`, { headers: authHeaders(user) });
+    expect(expired.status).toBe(410);
+  });
+
+  it('hides other users\' exports', async () => {
+    const owner = await createTestUser();
+    const other = await createTestUser();
+    const { data } = (await (await fetch(`${server.url}?async=true`, { headers: authHeaders(owner) })).json()) as any;
+
+    expect((await fetch(`${server.url}/${data.id}`, { headers: authHeaders(other) })).status).toBe(404);
+    expect((await fetch(`${server.url}/${data.id}/download`, { headers: authHeaders(other) })).status).toBe(404);
+  });
+});
@@ -0,0 +1,144 @@
+import express from 'express';
+import { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import {
+  EXPORT_ENTITIES,
+  EXPORT_FORMATS,
+  ExportEntity,
+  ExportFormat,
+  describeExport,
+  getExportStatus,
+  queueExport,
+  readExportFile,
+  shouldExportInBackground,
+  writeExport,
+} from '../services/exportService';
+import { logger } from '../utils/logger';
+
+const router = express.Router();
+
+const setDownloadHeaders = (res: Response, contentType: string, filename: string): void => {
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.setHeader('Cache-Control', 'private, no-store');
+};
+
+// Export everything the user has stored (?format=json|csv|markdown|zip; add
+// &entity=memories|people|attachments|nudges for a single CSV file). Large accounts,
+// or any request with ?async=true, are exported in the background: the
+// response is 202 with an export id to poll.
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const format = (req.query.format || 'json') as ExportFormat;
+  const entity = req.query.entity as ExportEntity | undefined;
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({
+      success: false,
+      error: `format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+    });
+  }
+
+  if (entity !== undefined && (format !== 'csv' || !EXPORT_ENTITIES.includes(entity))) {
+    return res.status(400).json({
+      success: false,
+      error: `entity is only supported for csv and must be one of: ${EXPORT_ENTITIES.join(', ')}`,
+    });
+  }
+
+  const request = { userId: req.user.id, format, ...(entity && { entity }) };
+
+  if (req.query.async === 'true' || await shouldExportInBackground(req.user.id)) {
+    const status = await queueExport(request);
+    res.setHeader('Location', `/api/memories/export/${status.id}`);
+    return res.status(202).json({
+      success: true,
+      data: status,
+      message: 'Export started; it will be ready to download shortly',
+    });
+  }
+
+  const { contentType, filename } = describeExport(request);
+  setDownloadHeaders(res, contentType, filename);
+
+  try {
+    await writeExport(request, res);
+  } catch (error) {
+    // Headers are gone by now, so the only way to signal failure is to cut the download short
+    logger.error(`Export for user ${req.user.id} failed:`, error);
+    res.destroy(error as Error);
+  }
+  return;
+}));
+
+// Progress of a background export; includes downloadUrl once it is done
+router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const { id } = req.params;
+  const status = id ? await getExportStatus(req.user.id, id) : null;
+
+  if (!status) {
+    return res.status(404).json({
+      success: false,
+      error: 'Export not found',
+    });
+  }
+
+  return res.json({
+    success: true,
+    data: status,
+  });
+}));
+
+router.get('/:id/download', asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const { id } = req.params;
+  const status = id ? await getExportStatus(req.user.id, id) : null;
+
+  if (!status || status.status !== 'done') {
+    return res.status(404).json({
+      success: false,
+      error: status ? 'Export is not ready yet' : 'Export not found',
+    });
+  }
+
+  let stream;
+  try {
+    stream = await readExportFile(req.user.id, status.id);
+  } catch (error) {
+    return res.status(410).json({
+      success: false,
+      error: 'Export has expired; please start a new one',
+    });
+  }
+
+  const { contentType, filename } = describeExport(status, status.createdAt);
+  setDownloadHeaders(res, contentType, filename);
+
+  stream.on('error', (error) => {
+    logger.error(`Failed to stream export ${status.id}:`, error);
+    res.destroy(error);
+  });
+  res.on('close', () => stream.destroy());
+  return stream.pipe(res);
+}));
+
+export default router;
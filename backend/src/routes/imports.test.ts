@@ -0,0 +1,84 @@
+import { authenticateUser } from '../middleware/auth';
+import { getMemoryRepository, initializeRepositories } from '../repositories';
+import { authHeaders, createTestUser } from '../test/fixtures';
+import { serve, TestServer } from '../test/http';
+import { UserRecord } from '../types';
+import importRoutes from './imports';
+
+let server: TestServer;
+
+beforeEach(async () => {
+  await initializeRepositories();
+  server = await serve('/api/imports', authenticateUser, importRoutes);
+});
+
+afterEach(async () => {
+  await server.close();
+});
+
+const upload = (user: UserRecord, name: string, text: string, fields: Record<string, string> = {}) => {
+  const form = new FormData();
+  form.append('files', new Blob([text]), name);
+  for (const [key, value] of Object.entries(fields)) {
+    form.append(key, value);
+  }
+  return fetch(server.url, {
+    method: 'POST',
+    headers: { Authorization: authHeaders(user).Authorization },
+    body: form,
+  });
+};
+
+describe('POST /api/imports', () => {
+  const csv = 'Entry;When\nA quiet morning;2023-05-01\n';
+
+  it.each([
+    ['a number', '{"content":5}'],
+    ['an empty header', '{"content":"","createdAt":"When"}'],
+    ['an object', '{"content":{"column":"Entry"}}'],
+    ['an array', '["Entry"]'],
+    ['invalid JSON', '{content:'],
+  ])('rejects a mapping with %s', async (_case, mapping) => {
+    const user = await createTestUser();
+
+    const response = await upload(user, 'journal.csv', csv, { mapping });
+
+    expect(response.status).toBe(400);
+    expect(((await response.json()) as any).error).toMatch(/mapping/);
+  });
+
+  it('imports a CSV with a valid mapping', async () => {
+    const user = await createTestUser();
+
+    const response = await upload(user, 'journal.csv', csv, { mapping: '{"content":"Entry","createdAt":"When"}' });
+    const body = (await response.json()) as any;
+
+    expect(response.status).toBe(200);
+    expect(body.data.imported).toBe(1);
+  });
+
+  it('reports malformed Day One entries without failing the import', async () => {
+    const user = await createTestUser();
+    const journal = {
+      metadata: { version: '1.0' },
+      entries: [
+        { creationDate: '2023-05-01T08:00:00Z', text: 42 },
+        { creationDate: '2023-05-02T08:00:00Z', text: 'Walked to the harbour', location: { placeName: { name: 'Harbour' }, country: 'Portugal' } },
+        'not an entry',
+      ],
+    };
+
+    const response = await upload(user, 'Journal.json', JSON.stringify(journal));
+    const body = (await response.json()) as any;
+
+    expect(response.status).toBe(200);
+    expect(body.data.imported).toBe(1);
+    expect(body.data.errors).toEqual([
+      'Journal.json entry 1: Entry has no text',
+      'Journal.json entry 3: Entry is not an object',
+    ]);
+
+    const { memories } = await getMemoryRepository().list(user.id, {});
+    expect(memories[0]?.location).toBe('Portugal');
+  });
+});
@@ -0,0 +1,90 @@
+import fsp from 'fs/promises';
+import os from 'os';
+import express from 'express';
+import { Request, Response } from 'express';
+import multer from 'multer';
+import { asyncHandler } from '../middleware/errorHandler';
+import { CsvColumnMapping, IMPORT_FORMATS, ImportFormat, isCsvColumnMapping } from '../importers';
+import { IMPORT_MAX_UPLOAD_BYTES, MAX_IMPORT_FILES, importMemories } from '../services/importService';
+
+const router = express.Router();
+
+// Exports with photos can run to gigabytes, so uploads go to disk rather than memory
+const upload = multer({
+  dest: os.tmpdir(),
+  limits: {
+    fileSize: IMPORT_MAX_UPLOAD_BYTES,
+    files: MAX_IMPORT_FILES,
+  },
+});
+
+// Import memories from another journaling app (multipart field `files`: JSON,
+// CSV or Markdown files, or zip archives of them). Form fields: `format`
+// (dayone|journey|markdown|csv, detected when omitted), `dryRun=true` for a
+// preview that saves nothing, and `mapping`, a JSON object naming the CSV
+// column for each memory field.
+router.post('/', upload.array('files', MAX_IMPORT_FILES), asyncHandler(async (req: Request, res: Response) => {
+  const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+    }
+
+    const { format, dryRun, mapping } = req.body;
+
+    if (files.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'At least one file is required',
+      });
+    }
+
+    if (format && !IMPORT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        error: `format must be one of: ${IMPORT_FORMATS.join(', ')}`,
+      });
+    }
+
+    let csvMapping: CsvColumnMapping | undefined;
+    if (mapping) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(mapping);
+      } catch (error) {
+        parsed = undefined;
+      }
+      if (!isCsvColumnMapping(parsed)) {
+        return res.status(400).json({
+          success: false,
+          error: 'mapping must be a JSON object of field names to non-empty CSV column headers',
+        });
+      }
+      csvMapping = parsed;
+    }
+
+    const result = await importMemories({
+      userId: req.user.id,
+      uploads: files.map(file => ({ path: file.path, originalName: file.originalname })),
+      ...(format && { format: format as ImportFormat }),
+      dryRun: dryRun === 'true',
+      options: csvMapping ? { csvMapping } : {},
+    });
+
+    return res.json({
+      success: true,
+      data: result,
+      message: result.dryRun
+        ? `${result.imported} memories ready to import`
+        : `Imported ${result.imported} memories`,
+    });
+  } finally {
+    await Promise.all(files.map(file => fsp.rm(file.path, { force: true })));
+  }
+}));
+
+export default router;
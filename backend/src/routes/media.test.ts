@@ -0,0 +1,111 @@
+import express from 'express';
+import { authenticateUser } from '../middleware/auth';
+import { initializeRepositories } from '../repositories';
+import { getSignedAttachmentUrl } from '../services/attachmentService';
+import { silentWav } from '../test/audio';
+import { authHeaders, createTestUser } from '../test/fixtures';
+import { serve, TestServer } from '../test/http';
+import { testPhoto } from '../test/image';
+import { UserRecord } from '../types';
+import mediaRoutes from './media';
+import memoriesRoutes from './memories';
+
+describe('/api/media', () => {
+  let server: TestServer;
+  let origin: string;
+
+  beforeEach(async () => {
+    await initializeRepositories();
+    const api = express.Router();
+    api.use('/memories', authenticateUser, memoriesRoutes);
+    api.use('/media', mediaRoutes);
+    server = await serve('/api', api);
+    origin = new URL(server.url).origin;
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  // Create a memory with a photo and a voice note, then read it back as the app does
+  const createMemoryWithMedia = async (user: UserRecord) => {
+    const { Authorization } = authHeaders(user);
+    const photo = await testPhoto();
+    const form = new FormData();
+    form.append('content', 'Sunset at the beach with a voice note');
+    form.append('imageFile', new Blob([photo], { type: 'image/jpeg' }), 'sunset.jpg');
+    form.append('audioFile', new Blob([silentWav(1)], { type: 'audio/wav' }), 'note.wav');
+
+    const created = (await (await fetch(`${server.url}/memories`, {
+      method: 'POST',
+      headers: { Authorization },
+      body: form,
+    })).json()) as any;
+
+    const fetched = await fetch(`${server.url}/memories/${created.data.id}`, { headers: { Authorization } });
+    return ((await fetched.json()) as any).data;
+  };
+
+  it('hands out media links that load without an Authorization header', async () => {
+    const user = await createTestUser();
+    const memory = await createMemoryWithMedia(user);
+    const image = memory.attachments.find((attachment: any) => attachment.kind === 'image');
+
+    for (const url of [memory.imageUrl, memory.audioUrl, image.url, image.thumbnailUrl, image.previewUrl]) {
+      expect(url).toMatch(/signature=/);
+      expect((await fetch(`${origin}${url}`)).status).toBe(200);
+    }
+
+    const thumbnail = await fetch(`${origin}${image.thumbnailUrl}`);
+    expect(thumbnail.headers.get('content-type')).toBe('image/webp');
+  });
+
+  it('serves byte ranges of a signed audio link so players can seek', async () => {
+    const user = await createTestUser();
+    const memory = await createMemoryWithMedia(user);
+
+    const response = await fetch(`${origin}${memory.audioUrl}`, { headers: { Range: 'bytes=0-99' } });
+
+    expect(response.status).toBe(206);
+    expect(response.headers.get('content-range')).toMatch(/^bytes 0-99\//);
+    expect((await response.arrayBuffer()).byteLength).toBe(100);
+  });
+
+  it('refuses tampered and expired links', async () => {
+    const user = await createTestUser();
+    const memory = await createMemoryWithMedia(user);
+    const link = new URL(memory.imageUrl, origin);
+
+    const tampered = new URL(link);
+    tampered.searchParams.set('expires', String(Number(link.searchParams.get('expires')) + 3600));
+    expect((await fetch(tampered)).status).toBe(403);
+
+    const otherRendition = new URL(link);
+    otherRendition.searchParams.set('rendition', 'preview');
+    expect((await fetch(otherRendition)).status).toBe(403);
+
+    const attachmentId = link.pathname.split('/').pop() as string;
+    const expired = getSignedAttachmentUrl({ id: attachmentId, userId: user.id }, undefined, Date.now() - 3 * 24 * 60 * 60 * 1000);
+    expect((await fetch(`${origin}${expired}`)).status).toBe(403);
+  });
+
+  it('does not serve another user\'s media with a link signed for someone else', async () => {
+    const owner = await createTestUser();
+    const other = await createTestUser();
+    const memory = await createMemoryWithMedia(owner);
+    const attachmentId = new URL(memory.imageUrl, origin).pathname.split('/').pop() as string;
+
+    const forged = getSignedAttachmentUrl({ id: attachmentId, userId: other.id });
+
+    expect((await fetch(`${origin}${forged}`)).status).toBe(404);
+  });
+
+  it('still accepts the Authorization header and requires one without a signature', async () => {
+    const user = await createTestUser();
+    const memory = await createMemoryWithMedia(user);
+    const path = new URL(memory.imageUrl, origin).pathname;
+
+    expect((await fetch(`${origin}${path}`)).status).toBe(401);
+    expect((await fetch(`${origin}${path}`, { headers: { Authorization: authHeaders(user).Authorization } })).status).toBe(200);
+  });
+});
@@ -0,0 +1,156 @@
+import express from 'express';
+import { NextFunction, Request, Response } from 'express';
+import { authenticateUser } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { getAttachmentRepository } from '../repositories';
+import { Attachment, RenditionName } from '../types';
+import { ByteRange, getMediaStore } from '../services/mediaStore';
+import { verifyMediaSignature } from '../services/attachmentService';
+import { logger } from '../utils/logger';
+
+const router = express.Router();
+
+// Parse a single-range Range header ("bytes=0-99", "bytes=100-", "bytes=-500").
+// Multiple or malformed ranges are ignored and the whole file is sent, as RFC 9110 allows.
+const parseRange = (header: string | undefined, size: number): ByteRange | null | 'unsatisfiable' => {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+
+  if (!match[1]) {
+    const suffix = parseInt(match[2] as string);
+    return suffix > 0 && size > 0 ? { start: Math.max(0, size - suffix), end: size - 1 } : 'unsatisfiable';
+  }
+
+  const start = parseInt(match[1]);
+  const end = match[2] ? Math.min(parseInt(match[2]), size - 1) : size - 1;
+
+  return start < size && start <= end ? { start, end } : 'unsatisfiable';
+};
+
+const RENDITIONS: RenditionName[] = ['thumbnail', 'preview'];
+
+// Audio and images play inline; other files are always downloaded, so an
+// uploaded HTML or SVG file can't run in the app's origin
+const contentDisposition = (attachment: Attachment): string =>
+  `${attachment.kind === 'file' ? 'attachment' : 'inline'}; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`;
+
+// Accept a signed link (see getSignedAttachmentUrl) in place of the
+// Authorization header, which <img> and <audio> elements can't send. The
+// link's owner is who the attachment is looked up for.
+const authenticateMedia = (req: Request, res: Response, next: NextFunction): void => {
+  const { user, expires, signature, rendition } = req.query;
+
+  if (signature === undefined) {
+    void authenticateUser(req, res, next);
+    return;
+  }
+
+  const valid = typeof user === 'string'
+    && typeof signature === 'string'
+    && typeof expires === 'string'
+    && (rendition === undefined || RENDITIONS.includes(rendition as RenditionName))
+    && !!req.params.id
+    && verifyMediaSignature({
+      attachmentId: req.params.id,
+      userId: user,
+      expires: Number(expires),
+      signature,
+      ...(rendition !== undefined && { rendition: rendition as RenditionName }),
+    });
+
+  if (!valid) {
+    res.status(403).json({
+      success: false,
+      error: 'Media link is invalid or has expired',
+    });
+    return;
+  }
+
+  res.locals.mediaOwnerId = user;
+  next();
+};
+
+// Stream an attachment, or one of an image's renditions (?rendition=thumbnail|preview),
+// honouring Range requests so players can seek
+router.get('/:id', authenticateMedia, asyncHandler(async (req: Request, res: Response) => {
+  const ownerId: string | undefined = req.user?.id ?? res.locals.mediaOwnerId;
+
+  if (!ownerId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const { id } = req.params;
+  const renditionName = req.query.rendition;
+
+  if (renditionName !== undefined && !RENDITIONS.includes(renditionName as RenditionName)) {
+    return res.status(400).json({
+      success: false,
+      error: `rendition must be one of: ${RENDITIONS.join(', ')}`,
+    });
+  }
+
+  const attachment = id ? await getAttachmentRepository().findById(ownerId, id) : null;
+  const rendition = renditionName
+    ? attachment?.renditions.find(candidate => candidate.name === renditionName)
+    : undefined;
+  const media = renditionName ? rendition : attachment;
+
+  if (!attachment || !media) {
+    return res.status(404).json({
+      success: false,
+      error: 'Media not found',
+    });
+  }
+
+  const range = parseRange(req.headers.range, media.size);
+
+  if (range === 'unsatisfiable') {
+    res.setHeader('Content-Range', `bytes */${media.size}`);
+    return res.status(416).json({
+      success: false,
+      error: 'Requested range not satisfiable',
+    });
+  }
+
+  let stream;
+  try {
+    stream = await getMediaStore().read(media.storageKey, range || undefined);
+  } catch (error) {
+    logger.error(`Failed to read media ${attachment.id}:`, error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to load media',
+    });
+  }
+
+  res.status(range ? 206 : 200);
+  res.setHeader('Content-Type', media.contentType);
+  res.setHeader('Content-Length', range ? range.end - range.start + 1 : media.size);
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('Content-Disposition', contentDisposition(attachment));
+  // Media is never modified in place; a new upload gets a new id
+  res.setHeader('Cache-Control', 'private, max-age=86400, immutable');
+  if (range) {
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${media.size}`);
+  }
+
+  if (req.method === 'HEAD') {
+    stream.destroy();
+    return res.end();
+  }
+
+  stream.on('error', (error) => {
+    logger.error(`Failed to stream media ${attachment.id}:`, error);
+    res.destroy(error);
+  });
+  // Stop reading from storage if the client goes away mid-download
+  res.on('close', () => stream.destroy());
+  return stream.pipe(res);
+}));
+
+export default router;
@@ -0,0 +1,192 @@
+import { authenticateUser } from '../middleware/auth';
+import { initializeRepositories } from '../repositories';
+import * as aiService from '../services/aiService';
+import { runPendingJobs } from '../services/jobQueue';
+import { registerMemoryEnrichmentJobs } from '../services/memoryEnrichmentService';
+import { authHeaders, createTestMemory, createTestPerson, createTestUser } from '../test/fixtures';
+import { serve, TestServer } from '../test/http';
+import { testPhoto } from '../test/image';
+import { UserRecord } from '../types';
+import memoriesRoutes from './memories';
+
+let server: TestServer;
+
+beforeAll(() => {
+  registerMemoryEnrichmentJobs();
+});
+
+beforeEach(async () => {
+  await initializeRepositories();
+  server = await serve('/api/memories', authenticateUser, memoriesRoutes);
+});
+
+afterEach(async () => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+  await server.close();
+});
+
+const createMemory = async (user: UserRecord, body: Record<string, unknown>) => {
+  const response = await fetch(server.url, { method: 'POST', headers: authHeaders(user), body: JSON.stringify(body) });
+  return { status: response.status, memory: ((await response.json()) as any).data };
+};
+
+const enrichmentOf = async (user: UserRecord, id: string) =>
+  ((await (await fetch(`${server.url}/${id}/enrichment`, { headers: authHeaders(user) })).json()) as any).data;
+
+describe('POST /api/memories', () => {
+  it('saves the memory straight away and enriches it in the background', async () => {
+    const user = await createTestUser();
+    await createTestPerson(user.id, 'Sarah Chen');
+    jest.spyOn(aiService, 'summarizeMemory').mockResolvedValue({
+      summary: 'A sunny picnic with Sarah.',
+      emotions: { primary: 'joy', secondary: ['calm'], intensity: 7, valence: 'positive' },
+      tags: ['picnic', 'park'],
+      mood: 8,
+      people: ['Sarah Chen'],
+    });
+
+    const { status, memory } = await createMemory(user, { content: 'Picnic in the park with Sarah. Sunny all day.', tags: ['Weekend'] });
+
+    expect(status).toBe(201);
+    expect(memory).toMatchObject({ title: expect.any(String), enrichmentStatus: 'pending', tags: ['Weekend'] });
+    expect(await enrichmentOf(user, memory.id)).toEqual({ memoryId: memory.id, status: 'pending' });
+
+    await runPendingJobs();
+
+    expect(await enrichmentOf(user, memory.id)).toMatchObject({
+      status: 'done',
+      summary: 'A sunny picnic with Sarah.',
+      emotions: { primary: 'joy' },
+      mood: 8,
+      tags: ['Weekend', 'picnic', 'park'],
+      people: ['Sarah Chen'],
+    });
+  });
+
+  it('marks enrichment failed with the error once its retries run out', async () => {
+    const user = await createTestUser();
+    jest.spyOn(aiService, 'summarizeMemory').mockRejectedValue(new Error('Model unavailable'));
+
+    const { memory } = await createMemory(user, { content: 'A quiet evening' });
+    await runPendingJobs();
+    expect(await enrichmentOf(user, memory.id)).toEqual({ memoryId: memory.id, status: 'pending' });
+
+    let now = Date.now();
+    for (let attempt = 0; attempt < 5; attempt++) {
+      now += 10 * 60 * 1000;
+      jest.useFakeTimers({ now, doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+      await runPendingJobs();
+    }
+    jest.useRealTimers();
+
+    expect(await enrichmentOf(user, memory.id)).toEqual({ memoryId: memory.id, status: 'failed', error: 'Model unavailable' });
+  });
+
+  it('requires content', async () => {
+    const user = await createTestUser();
+
+    expect((await createMemory(user, { content: '   ' })).status).toBe(400);
+  });
+});
+
+describe('/api/memories/:id/attachments', () => {
+  const attach = async (user: UserRecord, memoryId: string, files: Array<[Buffer, string]>) => {
+    const form = new FormData();
+    files.forEach(([data, name]) => form.append('files', new Blob([data]), name));
+    const response = await fetch(`${server.url}/${memoryId}/attachments`, {
+      method: 'POST',
+      headers: { Authorization: authHeaders(user).Authorization },
+      body: form,
+    });
+    return { status: response.status, body: (await response.json()) as any };
+  };
+
+  it('stores several files and suggests a date and place from the photos', async () => {
+    const user = await createTestUser();
+    const memory = await createTestMemory(user.id, { enrichmentStatus: 'done' });
+
+    const { status, body } = await attach(user, memory.id, [
+      [await testPhoto({ takenAt: '2023:05:01 18:30:00', position: { latitude: 38.7, longitude: -9.14 } }), 'tram.jpg'],
+      [await testPhoto({ takenAt: '2023:05:01 09:15:00' }), 'breakfast.jpg'],
+      [Buffer.from('Tickets: 2 x 28E'), 'tickets.txt'],
+    ]);
+
+    expect(status).toBe(201);
+    expect(body.data.attachments.map((attachment: any) => [attachment.filename, attachment.kind])).toEqual([
+      ['tram.jpg', 'image'],
+      ['breakfast.jpg', 'image'],
+      ['tickets.txt', 'file'],
+    ]);
+    expect(body.data.attachments[0].thumbnailUrl).toMatch(/rendition=thumbnail/);
+    expect(body.data.suggestions).toEqual({
+      createdAt: new Date(2023, 4, 1, 9, 15).toISOString(),
+      location: '38.70000, -9.14000',
+    });
+
+    const { data: updated } = (await (await fetch(`${server.url}/${memory.id}`, { headers: authHeaders(user) })).json()) as any;
+    // New photos are captioned and folded into the summary again
+    expect(updated.enrichmentStatus).toBe('pending');
+    expect(new URL(updated.imageUrl, server.url).pathname).toBe(new URL(body.data.attachments[1].url, server.url).pathname);
+  });
+
+  it('removes an attachment, but only for its owner', async () => {
+    const user = await createTestUser();
+    const memory = await createTestMemory(user.id);
+    const { body } = await attach(user, memory.id, [[await testPhoto(), 'first.jpg'], [await testPhoto(), 'second.jpg']]);
+    const [first, second] = body.data.attachments;
+
+    const removed = await fetch(`${server.url}/${memory.id}/attachments/${second.id}`, { method: 'DELETE', headers: authHeaders(user) });
+    expect(removed.status).toBe(200);
+
+    const { data: remaining } = (await (await fetch(`${server.url}/${memory.id}/attachments`, { headers: authHeaders(user) })).json()) as any;
+    expect(remaining.map((attachment: any) => attachment.id)).toEqual([first.id]);
+
+    const other = await createTestUser();
+    const forbidden = await fetch(`${server.url}/${memory.id}/attachments/${first.id}`, { method: 'DELETE', headers: authHeaders(other) });
+    expect(forbidden.status).toBe(404);
+  });
+});
+
+describe('GET /api/memories/person/:personId', () => {
+  it("pages through the person's memories oldest first, including ones under an old name", async () => {
+    const user = await createTestUser();
+    const sarah = await createTestPerson(user.id, 'Sarah Chen', { aliases: ['Sarah'] });
+    const first = await createTestMemory(user.id, { people: ['Sarah'], createdAt: new Date('2024-01-05T10:00:00Z') });
+    const second = await createTestMemory(user.id, { people: ['Sarah Chen'], createdAt: new Date('2024-02-05T10:00:00Z') });
+    const third = await createTestMemory(user.id, { people: ['Sarah Chen', 'Tom'], createdAt: new Date('2024-03-05T10:00:00Z') });
+    await createTestMemory(user.id, { people: ['Tom'], createdAt: new Date('2024-02-10T10:00:00Z') });
+
+    const response = await fetch(`${server.url}/person/${sarah.id}?limit=2`, { headers: authHeaders(user) });
+    const body = (await response.json()) as any;
+    const next = (await (await fetch(`${server.url}/person/${sarah.id}?limit=2&page=2`, { headers: authHeaders(user) })).json()) as any;
+
+    expect(response.status).toBe(200);
+    expect(body.data.memories.map((memory: any) => memory.id)).toEqual([first.id, second.id]);
+    expect(body.data.pagination).toEqual({ page: 1, limit: 2, total: 3, pages: 2 });
+    expect(next.data.memories.map((memory: any) => memory.id)).toEqual([third.id]);
+  });
+
+  it('filters by date and sorts newest first on request', async () => {
+    const user = await createTestUser();
+    const sarah = await createTestPerson(user.id, 'Sarah');
+    await createTestMemory(user.id, { people: ['Sarah'], createdAt: new Date('2024-01-05T10:00:00Z') });
+    const february = await createTestMemory(user.id, { people: ['Sarah'], createdAt: new Date('2024-02-05T10:00:00Z') });
+    const march = await createTestMemory(user.id, { people: ['Sarah'], createdAt: new Date('2024-03-05T10:00:00Z') });
+
+    const response = await fetch(`${server.url}/person/${sarah.id}?date_from=2024-02-01&order=desc`, { headers: authHeaders(user) });
+    const body = (await response.json()) as any;
+
+    expect(body.data.memories.map((memory: any) => memory.id)).toEqual([march.id, february.id]);
+  });
+
+  it('rejects a bad date or order and an unknown person', async () => {
+    const user = await createTestUser();
+    const sarah = await createTestPerson(user.id, 'Sarah');
+    const status = async (path: string) => (await fetch(`${server.url}${path}`, { headers: authHeaders(user) })).status;
+
+    expect(await status(`/person/${sarah.id}?date_from=someday`)).toBe(400);
+    expect(await status(`/person/${sarah.id}?order=sideways`)).toBe(400);
+    expect(await status('/person/00000000-0000-0000-0000-000000000000')).toBe(404);
+  });
+});
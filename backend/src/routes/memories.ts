@@ -3,65 +3,86 @@ import { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import multer from 'multer';
 import { asyncHandler } from '../middleware/errorHandler';
-import { Memory, CreateMemoryRequest, UpdateMemoryRequest, MemoryFilters } from '../types';
+import { getAttachmentRepository, getMemoryRepository, getPersonRepository } from '../repositories';
+import {
+  createPlaceholderEnrichment,
+  queueMemoryEnrichment,
+  refreshMemoryIndex,
+  unindexMemory,
+} from '../services/memoryEnrichmentService';
+import { hybridSearch } from '../services/hybridSearchService';
+import { AcceptedSuggestion, applyPersonSuggestions } from '../services/personResolutionService';
+import { personMentions } from '../services/personInsightsService';
+import {
+  MuteTarget,
+  getResurfacingSettings,
+  resurfaceMemories,
+  setMuted,
+  updateResurfacingSettings,
+} from '../services/resurfacingService';
+import {
+  ATTACHMENT_SIZE_LIMITS,
+  AttachmentUpload,
+  MAX_ATTACHMENTS_PER_UPLOAD,
+  deleteAttachments,
+  getAttachmentSuggestions,
+  getAttachmentUrl,
+  inspectUpload,
+  saveAttachment,
+  syncMemoryCover,
+  toPublicAttachment,
+  withSignedMediaUrls,
+} from '../services/attachmentService';
+import { MemorySearchFilters } from '../services/vectorStore';
+import { defaultTitle } from '../utils/textAnalysis';
+import { Attachment, Memory, CreateMemoryRequest, UpdateMemoryRequest, MemoryFilters } from '../types';
 
 const router = express.Router();
 
-// Configure multer for file uploads
+// Configure multer for file uploads; each kind's own limit is checked in inspectUpload
 const storage = multer.memoryStorage();
-const upload = multer({ storage });
-
-// Mock data for development
-const mockMemories: Memory[] = [
-  {
-    id: 'memory-1',
-    userId: 'user-1',
-    title: 'First Day at the Beach',
-    content: 'Today was absolutely amazing! I went to the beach for the first time this summer. The water was crystal clear and the waves were perfect for swimming. I spent hours just floating in the ocean, feeling completely at peace. The sun was warm but not too hot, and there was a gentle breeze that kept everything comfortable.',
-    summary: 'A perfect beach day with clear water and gentle waves',
-    people: ['Sarah', 'Mike'],
-    emotions: ['joy', 'peace', 'excitement'],
-    tags: ['beach', 'summer', 'swimming', 'nature'],
-    mood: 9,
-    location: 'Santa Monica Beach',
-    weather: 'Sunny, 75°F',
-    isPrivate: false,
-    createdAt: new Date('2024-06-15'),
-    updatedAt: new Date('2024-06-15')
+const upload = multer({
+  storage,
+  limits: {
+    fileSize: Math.max(...Object.values(ATTACHMENT_SIZE_LIMITS)),
+    files: MAX_ATTACHMENTS_PER_UPLOAD,
   },
-  {
-    id: 'memory-2',
-    userId: 'user-1',
-    title: 'Coffee with an Old Friend',
-    content: 'Met up with Jessica today after not seeing her for almost a year. We caught up over coffee at our favorite café downtown. It was incredible how we just picked up right where we left off. She told me about her new job and I shared my recent travels. The conversation flowed so naturally, and we ended up talking for three hours!',
-    summary: 'Reconnecting with an old friend over coffee after a year apart',
-    people: ['Jessica'],
-    emotions: ['happiness', 'nostalgia', 'connection'],
-    tags: ['friendship', 'coffee', 'reunion', 'conversation'],
-    mood: 8,
-    location: 'Downtown Café',
-    weather: 'Partly cloudy, 68°F',
-    isPrivate: false,
-    createdAt: new Date('2024-06-10'),
-    updatedAt: new Date('2024-06-10')
-  },
-  {
-    id: 'memory-3',
-    userId: 'user-2',
-    title: 'Hiking Adventure',
-    content: 'Went on an incredible hiking trip today! The trail was challenging but the views were absolutely breathtaking. I reached the summit just as the sun was setting, and the colors were indescribable. Orange, pink, and purple painted the sky. I felt so accomplished and connected to nature.',
-    summary: 'Challenging hike with breathtaking sunset views from the summit',
-    people: ['Alex', 'David'],
-    emotions: ['accomplishment', 'awe', 'connection'],
-    tags: ['hiking', 'nature', 'sunset', 'adventure'],
-    mood: 9,
-    location: 'Mount Wilson Trail',
-    weather: 'Clear, 72°F',
-    isPrivate: false,
-    createdAt: new Date('2024-06-12'),
-    updatedAt: new Date('2024-06-12')
-  }
-];
+});
+
+type UploadedFiles = { [fieldname: string]: Express.Multer.File[] } | undefined;
+
+// Identify and size-check the optional audio and image files before anything is stored
+const inspectMemoryUploads = async (files: UploadedFiles): Promise<AttachmentUpload[]> => {
+  const uploads: AttachmentUpload[] = [];
+  const audioFile = files?.audioFile?.[0];
+  const imageFile = files?.imageFile?.[0];
+
+  if (audioFile) uploads.push(await inspectUpload(audioFile, 'audio'));
+  if (imageFile) uploads.push(await inspectUpload(imageFile, 'image'));
+
+  return uploads;
+};
+
+// Store uploads for a memory, removing the ones already stored if any fails
+const saveAttachments = async (userId: string, memoryId: string, uploads: AttachmentUpload[]): Promise<Attachment[]> => {
+  const saved: Attachment[] = [];
+  try {
+    for (const attachmentUpload of uploads) {
+      saved.push(await saveAttachment(userId, memoryId, attachmentUpload));
+    }
+  } catch (error) {
+    await deleteAttachments(saved);
+    throw error;
+  }
+  return saved;
+};
+
+// Photo captions feed the summary, tags and embedding, so adding or removing
+// a photo re-runs enrichment
+const reenrichMemory = async (memory: Memory): Promise<void> => {
+  const pending = await getMemoryRepository().update(memory.userId, memory.id, { enrichmentStatus: 'pending' });
+  await queueMemoryEnrichment(pending || memory);
+};
 
 // Create new memory
 router.post('/', upload.fields([
@@ -85,33 +106,30 @@ router.post('/', upload.fields([
     isPrivate = false,
   }: CreateMemoryRequest = req.body;
 
-  const files = req.files as { [fieldname: string]: Express.Multer.File[] } | undefined;
-  
-  // Process files (simplified for demo)
-  let audioUrl: string | undefined;
-  let imageUrl: string | undefined;
-  
-  if (files && files.audioFile) {
-    audioUrl = `/uploads/audio/${uuidv4()}.mp3`;
-  }
-  
-  if (files && files.imageFile) {
-    imageUrl = `/uploads/images/${uuidv4()}.jpg`;
+  if (!content || !content.trim()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Content is required',
+    });
   }
 
+  const uploads = await inspectMemoryUploads(req.files as UploadedFiles);
+
+  // Summary, emotions and mood are filled in by the enrichment job
+  const placeholder = createPlaceholderEnrichment(content, tags);
+
   // Create memory record
   const memoryData: Partial<Memory> = {
     id: uuidv4(),
     userId: req.user.id,
-    title,
+    title: title?.trim() || defaultTitle(content),
     content,
-    summary: `Summary of: ${title}`,
+    summary: placeholder.summary,
     people,
-    emotions: ['joy', 'contentment'],
-    tags: [...tags, 'new-memory'],
-    mood: 7,
+    tags: placeholder.tags,
+    mood: placeholder.mood,
     isPrivate,
-    embedding: [0.1, 0.2, 0.3], // Mock embedding
+    enrichmentStatus: 'pending',
     createdAt: new Date(),
     updatedAt: new Date(),
   };
@@ -119,15 +137,26 @@ router.post('/', upload.fields([
   // Add optional properties only if they have values
   if (location) memoryData.location = location;
   if (weather) memoryData.weather = weather;
-  if (audioUrl) memoryData.audioUrl = audioUrl;
-  if (imageUrl) memoryData.imageUrl = imageUrl;
 
-  const newMemory = memoryData as Memory;
-  mockMemories.push(newMemory);
+  const memories = getMemoryRepository();
+  let newMemory = await memories.create(memoryData as Memory);
 
-  return res.json({
+  // Attachment records reference the memory, so they are saved once it exists
+  if (uploads.length > 0) {
+    try {
+      await saveAttachments(req.user.id, newMemory.id, uploads);
+    } catch (error) {
+      await memories.delete(req.user.id, newMemory.id);
+      throw error;
+    }
+    newMemory = await syncMemoryCover(newMemory);
+  }
+
+  await queueMemoryEnrichment(newMemory);
+
+  return res.status(201).json({
     success: true,
-    data: newMemory,
+    data: withSignedMediaUrls(newMemory),
     message: 'Memory created successfully',
   });
 }));
@@ -147,47 +176,24 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
   const offset = (pageNum - 1) * limitNum;
 
   try {
-    // Filter memories by user
-    let filteredMemories = mockMemories.filter(memory => memory.userId === req.user!.id);
-
-    // Apply search filter
-    if (search) {
-      const searchTerm = search.toString().toLowerCase();
-      filteredMemories = filteredMemories.filter(memory =>
-        memory.title.toLowerCase().includes(searchTerm) ||
-        memory.content.toLowerCase().includes(searchTerm)
-      );
-    }
-
-    // Apply tag filter
-    if (tags) {
-      const tagArray = Array.isArray(tags) ? tags : [tags];
-      filteredMemories = filteredMemories.filter(memory =>
-        memory.tags?.some(tag => tagArray.includes(tag))
-      );
-    }
-
-    // Apply people filter
-    if (people) {
-      const peopleArray = Array.isArray(people) ? people : [people];
-      filteredMemories = filteredMemories.filter(memory =>
-        memory.people?.some(person => peopleArray.includes(person))
-      );
-    }
-
-    // Sort by creation date (newest first)
-    filteredMemories.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-
-    // Apply pagination
-    const paginatedMemories = filteredMemories.slice(offset, offset + limitNum);
+    const tagArray = tags ? (Array.isArray(tags) ? tags : [tags]) as string[] : undefined;
+    const peopleArray = people ? (Array.isArray(people) ? people : [people]) as string[] : undefined;
+
+    const { memories, total } = await getMemoryRepository().list(req.user.id, {
+      ...(search && { search: search.toString() }),
+      ...(tagArray && { tags: tagArray }),
+      ...(peopleArray && { people: peopleArray }),
+      limit: limitNum,
+      offset,
+    });
 
     const response = {
-      memories: paginatedMemories,
+      memories: memories.map(withSignedMediaUrls),
       pagination: {
         page: pageNum,
         limit: limitNum,
-        total: filteredMemories.length,
-        pages: Math.ceil(filteredMemories.length / limitNum),
+        total,
+        pages: Math.ceil(total / limitNum),
       },
     };
 
@@ -203,6 +209,62 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
   }
 }));
 
+// Memories that mention a person, oldest first by default for a timeline.
+// Query: page, limit, date_from, date_to (ISO dates) and order (asc|desc).
+router.get('/person/:personId', asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const { personId } = req.params;
+  const { page = 1, limit = 20, date_from, date_to, order = 'asc' } = req.query;
+  const pageNum = Math.max(1, parseInt(page as string) || 1);
+  const limitNum = Math.min(100, Math.max(1, parseInt(limit as string) || 20));
+  const dateFrom = date_from ? new Date(date_from as string) : undefined;
+  const dateTo = date_to ? new Date(date_to as string) : undefined;
+
+  if ((dateFrom && isNaN(dateFrom.getTime())) || (dateTo && isNaN(dateTo.getTime())) || (order !== 'asc' && order !== 'desc')) {
+    return res.status(400).json({
+      success: false,
+      error: 'date_from and date_to must be dates and order asc or desc',
+    });
+  }
+
+  const person = personId ? await getPersonRepository().findById(req.user.id, personId) : null;
+
+  if (!person) {
+    return res.status(404).json({
+      success: false,
+      error: 'Person not found',
+    });
+  }
+
+  const { memories, total } = await getMemoryRepository().list(req.user.id, {
+    people: personMentions(person),
+    ...(dateFrom && { dateFrom }),
+    ...(dateTo && { dateTo }),
+    sortOrder: order,
+    limit: limitNum,
+    offset: (pageNum - 1) * limitNum,
+  });
+
+  return res.json({
+    success: true,
+    data: {
+      memories: memories.map(withSignedMediaUrls),
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum),
+      },
+    },
+  });
+}));
+
 // Get recent memories
 router.get('/recent', asyncHandler(async (req: Request, res: Response) => {
   if (!req.user) {
@@ -216,15 +278,14 @@ router.get('/recent', asyncHandler(async (req: Request, res: Response) => {
   const limitNum = parseInt(limit as string);
 
   try {
-    // Filter memories by user and sort by creation date (newest first)
-    const userMemories = mockMemories
-      .filter(memory => memory.userId === req.user!.id)
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-      .slice(0, limitNum);
+    // Repository returns memories newest first
+    const { memories: userMemories } = await getMemoryRepository().list(req.user.id, {
+      limit: limitNum,
+    });
 
     return res.json({
       success: true,
-      data: userMemories,
+      data: userMemories.map(withSignedMediaUrls),
     });
   } catch (error) {
     return res.status(500).json({
@@ -234,6 +295,160 @@ router.get('/recent', asyncHandler(async (req: Request, res: Response) => {
   }
 }));
 
+const MUTE_TARGETS: Record<string, MuteTarget> = { memories: 'memory', people: 'person' };
+
+// "On this day": memories from this date in earlier years, plus picks from
+// around a year and a month ago
+router.get('/resurface', asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const { date, picks } = await resurfaceMemories(req.user.id);
+
+  return res.json({
+    success: true,
+    data: { date, picks: picks.map(pick => ({ ...pick, memory: withSignedMediaUrls(pick.memory) })) },
+  });
+}));
+
+router.get('/resurface/settings', asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  return res.json({
+    success: true,
+    data: await getResurfacingSettings(req.user.id),
+  });
+}));
+
+// Body: enabled and/or nudge (also deliver the day's pick as a nudge)
+router.put('/resurface/settings', asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const { enabled, nudge } = req.body;
+
+  return res.json({
+    success: true,
+    data: await updateResurfacingSettings(req.user.id, {
+      ...(enabled !== undefined && { enabled }),
+      ...(nudge !== undefined && { nudge }),
+    }),
+    message: 'Resurfacing settings updated',
+  });
+}));
+
+// Mute (PUT) or unmute (DELETE) a memory, or a person's memories
+const handleMute = (muted: boolean) => asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const target = MUTE_TARGETS[req.params.target || ''];
+  const { id } = req.params;
+
+  if (!target || !id) {
+    return res.status(400).json({
+      success: false,
+      error: 'Mute a memory (/mutes/memories/:id) or a person (/mutes/people/:id)',
+    });
+  }
+
+  return res.json({
+    success: true,
+    data: await setMuted(req.user.id, target, id, muted),
+    message: muted ? 'Muted' : 'Unmuted',
+  });
+});
+
+router.put('/resurface/mutes/:target/:id', handleMute(true));
+router.delete('/resurface/mutes/:target/:id', handleMute(false));
+
+const MAX_SEARCH_RESULTS = 50;
+
+const toQueryList = (value: unknown): string[] | undefined =>
+  value ? (Array.isArray(value) ? value : [value]).map(String).filter(Boolean) : undefined;
+
+// Keyword + semantic search; each result says which retriever found it
+router.get('/search', asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const { q, limit = 20, from, to } = req.query;
+  const query = typeof q === 'string' ? q.trim() : '';
+
+  if (!query) {
+    return res.status(400).json({
+      success: false,
+      error: 'Search query is required',
+    });
+  }
+
+  const filters: MemorySearchFilters = {};
+  const tags = toQueryList(req.query.tags);
+  const people = toQueryList(req.query.people);
+  const emotions = toQueryList(req.query.emotions);
+
+  if (tags) filters.tags = tags;
+  if (people) filters.people = people;
+  if (emotions) filters.emotions = emotions;
+
+  if (from || to) {
+    const start = from ? new Date(from as string) : new Date(0);
+    const end = to ? new Date(to as string) : new Date(8640000000000000); // latest representable date
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+      return res.status(400).json({
+        success: false,
+        error: 'from and to must be valid dates, with from before to',
+      });
+    }
+
+    filters.dateRange = { start, end };
+  }
+
+  try {
+    const result = await hybridSearch({
+      userId: req.user.id,
+      query,
+      limit: Math.min(Math.max(parseInt(limit as string) || 20, 1), MAX_SEARCH_RESULTS),
+      filters,
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        ...result,
+        results: result.results.map(match => ({ ...match, memory: withSignedMediaUrls(match.memory) })),
+      },
+    });
+  } catch (error) {
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to search memories',
+    });
+  }
+}));
+
 // Get memory by ID
 router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
   if (!req.user) {
@@ -253,7 +468,7 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
   }
 
   try {
-    const memory = mockMemories.find(m => m.id === id);
+    const memory = await getMemoryRepository().findById(req.user.id, id);
 
     if (!memory) {
       return res.status(404).json({
@@ -262,17 +477,11 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
       });
     }
 
-    // Check if user owns this memory
-    if (memory.userId !== req.user.id) {
-      return res.status(403).json({
-        success: false,
-        error: 'Access denied',
-      });
-    }
+    const attachments = await getAttachmentRepository().listByMemory(req.user.id, id);
 
     return res.json({
       success: true,
-      data: memory,
+      data: { ...withSignedMediaUrls(memory), attachments: attachments.map(toPublicAttachment) },
     });
   } catch (error) {
     return res.status(500).json({
@@ -282,6 +491,213 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
   }
 }));
 
+// Get enrichment progress for a memory
+router.get('/:id/enrichment', asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const { id } = req.params;
+
+  if (!id) {
+    return res.status(400).json({
+      success: false,
+      error: 'Memory ID is required',
+    });
+  }
+
+  const memory = await getMemoryRepository().findById(req.user.id, id);
+
+  if (!memory) {
+    return res.status(404).json({
+      success: false,
+      error: 'Memory not found',
+    });
+  }
+
+  const status = memory.enrichmentStatus || 'pending';
+
+  return res.json({
+    success: true,
+    data: {
+      memoryId: memory.id,
+      status,
+      ...(status === 'failed' && memory.enrichmentError && { error: memory.enrichmentError }),
+      ...(status === 'done' && {
+        summary: memory.summary,
+        emotions: memory.emotions,
+        tags: memory.tags,
+        mood: memory.mood,
+        people: memory.people || [],
+        personSuggestions: memory.personSuggestions || [],
+      }),
+    },
+  });
+}));
+
+// Confirm or dismiss the people enrichment found in a memory but couldn't
+// match confidently. Body: `accept`, a list of { name, personId? } where a
+// missing personId adds the name as a new person, and `dismiss`, a list of names.
+router.post('/:id/person-suggestions', asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const { accept = [], dismiss = [] } = req.body;
+
+  const isAcceptList = Array.isArray(accept) && accept.every((item: any) =>
+    item && typeof item.name === 'string' && (item.personId === undefined || typeof item.personId === 'string'));
+  const isDismissList = Array.isArray(dismiss) && dismiss.every((name: any) => typeof name === 'string');
+
+  if (!isAcceptList || !isDismissList) {
+    return res.status(400).json({
+      success: false,
+      error: 'accept must be a list of { name, personId? } and dismiss a list of names',
+    });
+  }
+
+  const { id } = req.params;
+  const memory = id ? await getMemoryRepository().findById(req.user.id, id) : null;
+
+  if (!memory) {
+    return res.status(404).json({
+      success: false,
+      error: 'Memory not found',
+    });
+  }
+
+  const updated = await applyPersonSuggestions(
+    memory,
+    accept.map((item: AcceptedSuggestion) => ({ name: item.name, ...(item.personId && { personId: item.personId }) })),
+    dismiss
+  );
+  await refreshMemoryIndex(updated);
+
+  return res.json({
+    success: true,
+    data: {
+      people: updated.people || [],
+      personSuggestions: updated.personSuggestions || [],
+    },
+    message: 'Person suggestions updated',
+  });
+}));
+
+// List a memory's attachments, oldest first
+router.get('/:id/attachments', asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const { id } = req.params;
+  const memory = id ? await getMemoryRepository().findById(req.user.id, id) : null;
+
+  if (!memory) {
+    return res.status(404).json({
+      success: false,
+      error: 'Memory not found',
+    });
+  }
+
+  const attachments = await getAttachmentRepository().listByMemory(req.user.id, memory.id);
+
+  return res.json({
+    success: true,
+    data: attachments.map(toPublicAttachment),
+  });
+}));
+
+// Attach photos, audio clips or other files (multipart field "files"). The
+// response suggests a date and location for the memory from the photos' EXIF data.
+router.post('/:id/attachments', upload.array('files', MAX_ATTACHMENTS_PER_UPLOAD), asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+  if (files.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'At least one file is required',
+    });
+  }
+
+  const uploads = await Promise.all(files.map(file => inspectUpload(file)));
+
+  const { id } = req.params;
+  const memory = id ? await getMemoryRepository().findById(req.user.id, id) : null;
+
+  if (!memory) {
+    return res.status(404).json({
+      success: false,
+      error: 'Memory not found',
+    });
+  }
+
+  const saved = await saveAttachments(req.user.id, memory.id, uploads);
+  const updated = await syncMemoryCover(memory);
+
+  if (saved.some(attachment => attachment.kind === 'image')) {
+    await reenrichMemory(updated);
+  }
+
+  return res.status(201).json({
+    success: true,
+    data: {
+      attachments: saved.map(toPublicAttachment),
+      suggestions: getAttachmentSuggestions(saved),
+    },
+  });
+}));
+
+// Remove one attachment and its stored files
+router.delete('/:id/attachments/:attachmentId', asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const { id, attachmentId } = req.params;
+  const attachment = attachmentId ? await getAttachmentRepository().findById(req.user.id, attachmentId) : null;
+  const memory = attachment && attachment.memoryId === id
+    ? await getMemoryRepository().findById(req.user.id, attachment.memoryId)
+    : null;
+
+  if (!attachment || !memory) {
+    return res.status(404).json({
+      success: false,
+      error: 'Attachment not found',
+    });
+  }
+
+  await deleteAttachments([attachment]);
+  const updated = await syncMemoryCover(memory);
+
+  if (attachment.kind === 'image') {
+    await reenrichMemory(updated);
+  }
+
+  return res.json({
+    success: true,
+    message: 'Attachment deleted successfully',
+  });
+}));
+
 // Update memory
 router.put('/:id', upload.fields([
   { name: 'audioFile', maxCount: 1 },
@@ -296,7 +712,6 @@ router.put('/:id', upload.fields([
 
   const { id } = req.params;
   const updateData: Partial<UpdateMemoryRequest> = req.body;
-  const files = req.files as { [fieldname: string]: Express.Multer.File[] } | undefined;
 
   if (!id) {
     return res.status(400).json({
@@ -305,37 +720,29 @@ router.put('/:id', upload.fields([
     });
   }
 
+  const createdAt = updateData.createdAt ? new Date(updateData.createdAt) : undefined;
+
+  if (createdAt && Number.isNaN(createdAt.getTime())) {
+    return res.status(400).json({
+      success: false,
+      error: 'createdAt must be a valid date',
+    });
+  }
+
+  const uploads = await inspectMemoryUploads(req.files as UploadedFiles);
+
   try {
-    const memoryIndex = mockMemories.findIndex(m => m.id === id);
+    const memories = getMemoryRepository();
+    const existing = await memories.findById(req.user.id, id);
 
-    if (memoryIndex === -1) {
+    if (!existing) {
       return res.status(404).json({
         success: false,
         error: 'Memory not found',
       });
     }
 
-    const memory = mockMemories[memoryIndex];
-
-    // Check if user owns this memory
-    if (memory && memory.userId !== req.user.id) {
-      return res.status(403).json({
-        success: false,
-        error: 'Access denied',
-      });
-    }
-
-    // Process files
-    let audioUrl: string | undefined;
-    let imageUrl: string | undefined;
-    
-    if (files && files.audioFile) {
-      audioUrl = `/uploads/audio/${uuidv4()}.mp3`;
-    }
-    
-    if (files && files.imageFile) {
-      imageUrl = `/uploads/images/${uuidv4()}.jpg`;
-    }
+    const saved = await saveAttachments(req.user.id, id, uploads);
 
     // Update memory
     const updateDataToSave: Partial<Memory> = {
@@ -350,19 +757,45 @@ router.put('/:id', upload.fields([
     if (updateData.location) updateDataToSave.location = updateData.location;
     if (updateData.weather) updateDataToSave.weather = updateData.weather;
     if (updateData.isPrivate !== undefined) updateDataToSave.isPrivate = updateData.isPrivate;
-    if (audioUrl) updateDataToSave.audioUrl = audioUrl;
-    if (imageUrl) updateDataToSave.imageUrl = imageUrl;
+    if (createdAt) updateDataToSave.createdAt = createdAt;
 
-    // Apply updates - ensure the memory exists before updating
-    if (mockMemories[memoryIndex]) {
-      Object.assign(mockMemories[memoryIndex], updateDataToSave);
+    // Summary, emotions and the embedding are derived from content and photos,
+    // so only redo them when those change
+    const needsEnrichment = (updateDataToSave.content !== undefined && updateDataToSave.content !== existing.content) ||
+      saved.some(attachment => attachment.kind === 'image');
+
+    if (needsEnrichment) {
+      updateDataToSave.enrichmentStatus = 'pending';
     }
 
-    const updatedMemory = mockMemories[memoryIndex];
+    const updatedMemory = await memories.update(req.user.id, id, updateDataToSave);
+
+    if (!updatedMemory) {
+      await deleteAttachments(saved);
+      return res.status(404).json({
+        success: false,
+        error: 'Memory not found',
+      });
+    }
+
+    // An audioFile or imageFile upload replaces the clip or image the memory
+    // showed until now; other attachments are kept
+    const replacedUrls = [existing.audioUrl, existing.imageUrl].filter(Boolean);
+    const replaced = (await getAttachmentRepository().listByMemory(req.user.id, id)).filter(attachment =>
+      saved.some(added => added.kind === attachment.kind) && replacedUrls.includes(getAttachmentUrl(attachment))
+    );
+    await deleteAttachments(replaced);
+    const memory = await syncMemoryCover(updatedMemory);
+
+    if (needsEnrichment) {
+      await queueMemoryEnrichment(memory);
+    } else {
+      await refreshMemoryIndex(memory);
+    }
 
     return res.json({
       success: true,
-      data: updatedMemory,
+      data: withSignedMediaUrls(memory),
       message: 'Memory updated successfully',
     });
   } catch (error) {
@@ -392,27 +825,19 @@ router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
   }
 
   try {
-    const memoryIndex = mockMemories.findIndex(m => m.id === id);
+    // Listed first: deleting the memory also removes its attachment records
+    const attachments = await getAttachmentRepository().listByMemory(req.user.id, id);
+    const deleted = await getMemoryRepository().delete(req.user.id, id);
 
-    if (memoryIndex === -1) {
+    if (!deleted) {
       return res.status(404).json({
         success: false,
         error: 'Memory not found',
       });
     }
 
-    const memory = mockMemories[memoryIndex];
-
-    // Check if user owns this memory
-    if (memory && memory.userId !== req.user.id) {
-      return res.status(403).json({
-        success: false,
-        error: 'Access denied',
-      });
-    }
-
-    // Remove memory
-    mockMemories.splice(memoryIndex, 1);
+    await unindexMemory(id);
+    await deleteAttachments(attachments);
 
     return res.json({
       success: true,
@@ -436,44 +861,11 @@ router.get('/stats/overview', asyncHandler(async (req: Request, res: Response) =
   }
 
   try {
-    const userMemories = mockMemories.filter(memory => memory.userId === req.user!.id);
-    
-    const totalMemories = userMemories.length;
-    const averageMood = userMemories.length > 0 
-      ? userMemories.reduce((sum, memory) => sum + (memory.mood || 0), 0) / userMemories.length 
-      : 0;
-    
-    // Get most frequent emotion
-    const emotionCounts: { [key: string]: number } = {};
-    userMemories.forEach(memory => {
-      memory.emotions?.forEach(emotion => {
-        emotionCounts[emotion] = (emotionCounts[emotion] || 0) + 1;
-      });
-    });
-    
-    const mostFrequentEmotion = Object.keys(emotionCounts).length > 0
-      ? Object.keys(emotionCounts).reduce((a, b) => {
-          const countA = emotionCounts[a] || 0;
-          const countB = emotionCounts[b] || 0;
-          return countA > countB ? a : b;
-        })
-      : 'No emotions recorded';
-
-    // Get recent memories (last 7 days)
-    const sevenDaysAgo = new Date();
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-    const recentMemories = userMemories.filter(memory => 
-      new Date(memory.createdAt) > sevenDaysAgo
-    );
+    const stats = await getMemoryRepository().getStats(req.user.id);
 
     return res.json({
       success: true,
-      data: {
-        totalMemories,
-        averageMood: Math.round(averageMood * 10) / 10,
-        mostFrequentEmotion,
-        recentMemories: recentMemories.length,
-      },
+      data: stats,
     });
   } catch (error) {
     return res.status(500).json({
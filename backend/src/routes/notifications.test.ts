@@ -0,0 +1,65 @@
+import { authenticateUser } from '../middleware/auth';
+import { initializeRepositories } from '../repositories';
+import { authHeaders, createTestUser } from '../test/fixtures';
+import { serve, TestServer } from '../test/http';
+import notificationRoutes from './notifications';
+
+describe('/api/notifications', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    await initializeRepositories();
+    server = await serve('/api/notifications', authenticateUser, notificationRoutes);
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  describe('PUT /preferences', () => {
+    const setWebhook = async (url: string) => {
+      const user = await createTestUser();
+      return fetch(`${server.url}/preferences`, {
+        method: 'PUT',
+        headers: authHeaders(user),
+        body: JSON.stringify({ webhook: { enabled: true, url } }),
+      });
+    };
+
+    it('refuses a webhook pointing at the cloud metadata service', async () => {
+      const response = await setWebhook('http://169.254.169.254/latest/meta-data');
+      const body = (await response.json()) as any;
+
+      expect(response.status).toBe(400);
+      expect(body.message).toBe('Webhook URL must not point to a private or local network address');
+    });
+
+    it('saves a webhook on a public address', async () => {
+      const response = await setWebhook('https://93.184.216.34/hook');
+      const body = (await response.json()) as any;
+
+      expect(response.status).toBe(200);
+      expect(body.data.webhook.url).toBe('https://93.184.216.34/hook');
+    });
+  });
+
+  describe('POST /push-subscriptions', () => {
+    it('refuses an endpoint on the loopback interface', async () => {
+      const user = await createTestUser();
+
+      const response = await fetch(`${server.url}/push-subscriptions`, {
+        method: 'POST',
+        headers: authHeaders(user),
+        body: JSON.stringify({
+          endpoint: 'http://127.0.0.1:9000/push',
+          keys: {
+            p256dh: Buffer.alloc(65, 4).toString('base64url'),
+            auth: Buffer.alloc(16, 7).toString('base64url'),
+          },
+        }),
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import express, { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import {
+  NOTIFICATION_CHANNELS,
+  deletePushSubscription,
+  getChannelPreferences,
+  listDeliveries,
+  listPushSubscriptions,
+  savePushSubscription,
+  sendTestNotification,
+  updateChannelPreferences,
+} from '../services/notificationService';
+import { getVapidPublicKey } from '../services/pushSender';
+import { DeliveryStatus, NotificationChannel } from '../types';
+
+const router = express.Router();
+
+const DELIVERY_STATUSES: DeliveryStatus[] = ['pending', 'sent', 'failed'];
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+
+// The VAPID public key browsers subscribe with; null when push isn't configured
+router.get('/vapid-public-key', asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+  res.json({
+    success: true,
+    data: { publicKey: getVapidPublicKey() ?? null },
+  });
+}));
+
+// List the browsers subscribed to the user's push notifications
+router.get('/push-subscriptions', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+    return;
+  }
+
+  const subscriptions = await listPushSubscriptions(req.user.id);
+
+  res.json({
+    success: true,
+    data: subscriptions.map(({ id, endpoint, userAgent, createdAt }) => ({ id, endpoint, userAgent, createdAt })),
+  });
+}));
+
+// Subscribe a browser. Body: the browser's PushSubscription.toJSON(), i.e.
+// { endpoint, keys: { p256dh, auth } }
+router.post('/push-subscriptions', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+    return;
+  }
+
+  const { endpoint, keys } = req.body;
+  const userAgent = req.get('user-agent');
+
+  const subscription = await savePushSubscription(req.user.id, {
+    endpoint,
+    p256dh: keys?.p256dh,
+    auth: keys?.auth,
+    ...(userAgent && { userAgent }),
+  });
+
+  res.status(201).json({
+    success: true,
+    data: { id: subscription.id, endpoint: subscription.endpoint, createdAt: subscription.createdAt },
+    message: 'Push notifications enabled for this browser',
+  });
+}));
+
+router.delete('/push-subscriptions/:id', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+    return;
+  }
+
+  const { id } = req.params;
+
+  if (!id) {
+    res.status(400).json({
+      success: false,
+      error: 'Subscription ID is required',
+    });
+    return;
+  }
+
+  await deletePushSubscription(req.user.id, id);
+
+  res.json({
+    success: true,
+    message: 'Push subscription removed',
+  });
+}));
+
+router.get('/preferences', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: await getChannelPreferences(req.user.id),
+  });
+}));
+
+// Update channel settings. Body: any of push { enabled }, email { enabled,
+// frequency, hour, weekday } and webhook { enabled, url, rotateSecret }
+router.put('/preferences', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+    return;
+  }
+
+  const channels = await updateChannelPreferences(req.user.id, req.body);
+
+  res.json({
+    success: true,
+    data: channels,
+    message: 'Notification preferences updated',
+  });
+}));
+
+// Queue a test message on one channel. Body: { channel }
+router.post('/test', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+    return;
+  }
+
+  const { channel } = req.body;
+
+  if (!NOTIFICATION_CHANNELS.includes(channel)) {
+    res.status(400).json({
+      success: false,
+      error: `Channel must be one of: ${NOTIFICATION_CHANNELS.join(', ')}`,
+    });
+    return;
+  }
+
+  const deliveries = await sendTestNotification(req.user.id, channel as NotificationChannel);
+
+  res.status(202).json({
+    success: true,
+    data: deliveries,
+    message: 'Test notification queued',
+  });
+}));
+
+// The delivery log, newest first. Query: channel, status, page and limit.
+router.get('/deliveries', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+    return;
+  }
+
+  const { channel, status, page = 1, limit = DEFAULT_LIST_LIMIT } = req.query;
+  const pageNum = Math.max(1, parseInt(page as string) || 1);
+  const limitNum = Math.min(MAX_LIST_LIMIT, Math.max(1, parseInt(limit as string) || DEFAULT_LIST_LIMIT));
+
+  if (channel !== undefined && !NOTIFICATION_CHANNELS.includes(channel as NotificationChannel)) {
+    res.status(400).json({
+      success: false,
+      error: `Channel must be one of: ${NOTIFICATION_CHANNELS.join(', ')}`,
+    });
+    return;
+  }
+  if (status !== undefined && !DELIVERY_STATUSES.includes(status as DeliveryStatus)) {
+    res.status(400).json({
+      success: false,
+      error: `Status must be one of: ${DELIVERY_STATUSES.join(', ')}`,
+    });
+    return;
+  }
+
+  const deliveries = await listDeliveries(req.user.id, {
+    ...(channel !== undefined && { channel: channel as NotificationChannel }),
+    ...(status !== undefined && { status: status as DeliveryStatus }),
+    limit: limitNum,
+    offset: (pageNum - 1) * limitNum,
+  });
+
+  res.json({
+    success: true,
+    data: deliveries,
+  });
+}));
+
+export default router;
@@ -0,0 +1,183 @@
+import { authenticateUser } from '../middleware/auth';
+import { initializeRepositories } from '../repositories';
+import { authHeaders, createTestMemory, createTestNudge, createTestPerson, createTestUser } from '../test/fixtures';
+import { serve, TestServer } from '../test/http';
+import { UserRecord } from '../types';
+import nudgeRoutes from './nudges';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('/api/nudges', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    await initializeRepositories();
+    server = await serve('/api/nudges', authenticateUser, nudgeRoutes);
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const send = async (user: UserRecord, method: string, path: string, body?: Record<string, unknown>) => {
+    const response = await fetch(`${server.url}${path}`, {
+      method,
+      headers: authHeaders(user),
+      ...(body && { body: JSON.stringify(body) }),
+    });
+    return { status: response.status, body: (await response.json()) as any };
+  };
+
+  describe('POST /', () => {
+    it("creates an unread, active nudge about the user's own people and memories", async () => {
+      const user = await createTestUser();
+      const sarah = await createTestPerson(user.id, 'Sarah');
+      const memory = await createTestMemory(user.id, { people: ['Sarah'] });
+
+      const { status, body } = await send(user, 'POST', '', {
+        type: 'reconnect',
+        title: '  Call Sarah ',
+        message: 'It has been a month',
+        priority: 'high',
+        relatedPeople: [sarah.id, sarah.id],
+        relatedMemories: [memory.id],
+        expiresAt: '2099-01-01T00:00:00Z',
+      });
+
+      expect(status).toBe(201);
+      expect(body.data).toMatchObject({
+        type: 'reconnect',
+        title: 'Call Sarah',
+        priority: 'high',
+        relatedPeople: [sarah.id],
+        relatedMemories: [memory.id],
+        isRead: false,
+        isActioned: false,
+        status: 'active',
+        expiresAt: '2099-01-01T00:00:00.000Z',
+      });
+    });
+
+    it("rejects bad fields and other users' people", async () => {
+      const user = await createTestUser();
+      const stranger = await createTestPerson((await createTestUser()).id, 'Sarah');
+      const nudge = { type: 'reconnect', title: 'Call Sarah', message: 'It has been a month' };
+
+      expect((await send(user, 'POST', '', { ...nudge, type: 'reminder' })).status).toBe(400);
+      expect((await send(user, 'POST', '', { ...nudge, priority: 'urgent' })).status).toBe(400);
+      expect((await send(user, 'POST', '', { ...nudge, expiresAt: 'soon' })).status).toBe(400);
+      expect((await send(user, 'POST', '', { ...nudge, relatedPeople: 'Sarah' })).status).toBe(400);
+      expect((await send(user, 'POST', '', { type: 'reconnect' })).status).toBe(400);
+      expect((await send(user, 'POST', '', { ...nudge, relatedPeople: [stranger.id] })).status).toBe(404);
+    });
+  });
+
+  describe('GET /', () => {
+    it('lists active nudges by default and filters by status', async () => {
+      const user = await createTestUser();
+      const active = await createTestNudge(user.id);
+      const snoozed = await createTestNudge(user.id, { snoozedUntil: new Date(Date.now() + HOUR_MS) });
+      const done = await createTestNudge(user.id, { isActioned: true });
+      const expired = await createTestNudge(user.id, { expiresAt: new Date(Date.now() - HOUR_MS) });
+      await createTestNudge((await createTestUser()).id);
+
+      const ids = async (query: string) =>
+        (await send(user, 'GET', query)).body.data.map((nudge: any) => nudge.id);
+
+      expect(await ids('')).toEqual([active.id]);
+      expect(await ids('?status=snoozed')).toEqual([snoozed.id]);
+      expect(await ids('?status=actioned')).toEqual([done.id]);
+      expect(await ids('?status=expired')).toEqual([expired.id]);
+      expect(await ids('?status=all')).toHaveLength(4);
+      expect((await send(user, 'GET', '?status=unread')).status).toBe(400);
+    });
+  });
+
+  describe('lifecycle', () => {
+    it('toggles read and unread', async () => {
+      const user = await createTestUser();
+      const nudge = await createTestNudge(user.id);
+
+      expect((await send(user, 'PATCH', `/${nudge.id}/read`)).body.data.isRead).toBe(true);
+      expect((await send(user, 'PATCH', `/${nudge.id}/unread`)).body.data.isRead).toBe(false);
+    });
+
+    it('snoozes for a day by default, or for the hours or until the time given', async () => {
+      const user = await createTestUser();
+      const nudge = await createTestNudge(user.id);
+      const until = new Date(Date.now() + 3 * 24 * HOUR_MS);
+
+      const byDefault = await send(user, 'PATCH', `/${nudge.id}/snooze`);
+      const byHours = await send(user, 'PATCH', `/${nudge.id}/snooze`, { hours: 2 });
+      const byDate = await send(user, 'PATCH', `/${nudge.id}/snooze`, { until: until.toISOString() });
+
+      expect(byDefault.body.data.status).toBe('snoozed');
+      expect(new Date(byDefault.body.data.snoozedUntil).getTime()).toBeGreaterThan(Date.now() + 23 * HOUR_MS);
+      expect(new Date(byHours.body.data.snoozedUntil).getTime()).toBeLessThan(Date.now() + 3 * HOUR_MS);
+      expect(byDate.body.data.snoozedUntil).toBe(until.toISOString());
+      expect((await send(user, 'GET', '?status=snoozed')).body.data).toHaveLength(1);
+    });
+
+    it('refuses a snooze in the past, too far ahead or past the expiry', async () => {
+      const user = await createTestUser();
+      const nudge = await createTestNudge(user.id, { expiresAt: new Date(Date.now() + 2 * HOUR_MS) });
+      const snooze = async (body: Record<string, unknown>) => (await send(user, 'PATCH', `/${nudge.id}/snooze`, body)).status;
+
+      expect(await snooze({ hours: -1 })).toBe(400);
+      expect(await snooze({ until: 'tomorrow' })).toBe(400);
+      expect(await snooze({ until: new Date(Date.now() - HOUR_MS).toISOString() })).toBe(400);
+      expect(await snooze({ hours: 91 * 24 })).toBe(400);
+      expect(await snooze({ hours: 3 })).toBe(400);
+      expect(await snooze({ hours: 1 })).toBe(200);
+    });
+
+    it('marks an actioned nudge read and keeps it final', async () => {
+      const user = await createTestUser();
+      const nudge = await createTestNudge(user.id, { snoozedUntil: new Date(Date.now() + HOUR_MS) });
+
+      const actioned = await send(user, 'PATCH', `/${nudge.id}/action`);
+
+      expect(actioned.body.data).toMatchObject({ isActioned: true, isRead: true, status: 'actioned' });
+      expect((await send(user, 'PATCH', `/${nudge.id}/dismiss`)).status).toBe(409);
+      expect((await send(user, 'PATCH', `/${nudge.id}/snooze`)).status).toBe(409);
+      expect((await send(user, 'PATCH', `/${nudge.id}/unread`)).status).toBe(200);
+    });
+
+    it('dismisses an open nudge but not an expired one', async () => {
+      const user = await createTestUser();
+      const nudge = await createTestNudge(user.id);
+      const expired = await createTestNudge(user.id, { expiresAt: new Date(Date.now() - HOUR_MS) });
+
+      const dismissed = await send(user, 'PATCH', `/${nudge.id}/dismiss`);
+
+      expect(dismissed.body.data).toMatchObject({ isRead: true, status: 'dismissed' });
+      expect(dismissed.body.data.dismissedAt).toBeDefined();
+      expect((await send(user, 'PATCH', `/${nudge.id}/action`)).status).toBe(409);
+      expect((await send(user, 'PATCH', `/${expired.id}/dismiss`)).body.error).toBe('A nudge that is expired cannot be dismissed');
+    });
+
+    it("returns 404 for another user's nudge", async () => {
+      const user = await createTestUser();
+      const nudge = await createTestNudge((await createTestUser()).id);
+
+      expect((await send(user, 'GET', `/${nudge.id}`)).status).toBe(404);
+      expect((await send(user, 'PATCH', `/${nudge.id}/read`)).status).toBe(404);
+      expect((await send(user, 'PATCH', `/${nudge.id}/dismiss`)).status).toBe(404);
+      expect((await send(user, 'DELETE', `/${nudge.id}`)).status).toBe(404);
+    });
+  });
+
+  describe('PUT /:id and DELETE /:id', () => {
+    it('updates the wording and deletes the nudge', async () => {
+      const user = await createTestUser();
+      const nudge = await createTestNudge(user.id);
+
+      const updated = await send(user, 'PUT', `/${nudge.id}`, { title: ' Call Sarah tonight ', priority: 'low' });
+
+      expect(updated.body.data).toMatchObject({ title: 'Call Sarah tonight', priority: 'low', message: nudge.message });
+      expect((await send(user, 'PUT', `/${nudge.id}`, { message: '  ' })).status).toBe(400);
+      expect((await send(user, 'DELETE', `/${nudge.id}`)).status).toBe(200);
+      expect((await send(user, 'GET', `/${nudge.id}`)).status).toBe(404);
+    });
+  });
+});
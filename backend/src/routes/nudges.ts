@@ -1,48 +1,60 @@
 import express, { Request, Response } from 'express';
-import { v4 as uuidv4 } from 'uuid';
-import { Nudge } from '../types';
-import { asyncHandler } from '../middleware/errorHandler';
+import { CustomError, asyncHandler } from '../middleware/errorHandler';
+import {
+  DEFAULT_SNOOZE_HOURS,
+  NUDGE_PRIORITIES,
+  NUDGE_STATUSES,
+  NUDGE_TYPES,
+  NudgeChanges,
+  actOnNudge,
+  createNudge,
+  deleteNudge,
+  dismissNudge,
+  getNudge,
+  listNudges,
+  markNudgeRead,
+  snoozeNudge,
+  updateNudge,
+} from '../services/nudgeService';
+import { NudgePriority, NudgeStatus, NudgeType } from '../types';
 
 const router = express.Router();
 
-// Mock data for development
-const mockNudges: Nudge[] = [
-  {
-    id: 'nudge-1',
-    userId: 'user-1',
-    title: 'Remember to call mom',
-    content: 'Call mom to check in and see how she\'s doing',
-    type: 'reminder',
-    scheduledFor: new Date('2024-01-15T10:00:00Z'),
-    isActive: true,
-    createdAt: new Date('2024-01-01'),
-    updatedAt: new Date('2024-01-01'),
-  },
-  {
-    id: 'nudge-2',
-    userId: 'user-1',
-    title: 'Review project notes',
-    content: 'Go through the project notes from yesterday\'s meeting',
-    type: 'reminder',
-    scheduledFor: new Date('2024-01-16T14:00:00Z'),
-    isActive: true,
-    createdAt: new Date('2024-01-01'),
-    updatedAt: new Date('2024-01-01'),
-  },
-  {
-    id: 'nudge-3',
-    userId: 'user-2',
-    title: 'Weekly reflection',
-    content: 'Take time to reflect on this week\'s achievements and challenges',
-    type: 'reflection',
-    scheduledFor: new Date('2024-01-20T18:00:00Z'),
-    isActive: true,
-    createdAt: new Date('2024-01-01'),
-    updatedAt: new Date('2024-01-01'),
-  },
-];
-
-// Get all nudges for the authenticated user
+const MAX_TITLE_LENGTH = 255;
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 100;
+const HOUR_MS = 60 * 60 * 1000;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// A date from the request body, or null when it isn't one
+const parseDate = (value: unknown): Date | null => {
+  const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : null;
+};
+
+// Checks the fields shared by create and update; returns the first problem found
+const invalidNudgeFields = (body: Record<string, unknown>): string | undefined => {
+  const { title, message, priority, expiresAt } = body;
+
+  if (title !== undefined && (typeof title !== 'string' || !title.trim() || title.length > MAX_TITLE_LENGTH)) {
+    return `Title must be 1-${MAX_TITLE_LENGTH} characters`;
+  }
+  if (message !== undefined && (typeof message !== 'string' || !message.trim())) {
+    return 'Message must not be empty';
+  }
+  if (priority !== undefined && !NUDGE_PRIORITIES.includes(priority as NudgePriority)) {
+    return `Priority must be one of: ${NUDGE_PRIORITIES.join(', ')}`;
+  }
+  if (expiresAt !== undefined && !parseDate(expiresAt)) {
+    return 'expiresAt must be a date';
+  }
+  return undefined;
+};
+
+// Get the user's nudges, newest first. Query: status (active by default, or
+// snoozed, actioned, dismissed, expired or all), page and limit.
 router.get('/', asyncHandler(async (req: Request, res: Response): Promise<void> => {
   if (!req.user) {
     res.status(401).json({
@@ -52,11 +64,27 @@ router.get('/', asyncHandler(async (req: Request, res: Response): Promise<void>
     return;
   }
 
-  const userNudges = mockNudges.filter(nudge => nudge.userId === req.user!.id);
+  const { status = 'active', page = 1, limit = DEFAULT_LIST_LIMIT } = req.query;
+  const pageNum = Math.max(1, parseInt(page as string) || 1);
+  const limitNum = Math.min(MAX_LIST_LIMIT, Math.max(1, parseInt(limit as string) || DEFAULT_LIST_LIMIT));
+
+  if (status !== 'all' && !NUDGE_STATUSES.includes(status as NudgeStatus)) {
+    res.status(400).json({
+      success: false,
+      error: `Status must be all or one of: ${NUDGE_STATUSES.join(', ')}`,
+    });
+    return;
+  }
+
+  const nudges = await listNudges(req.user.id, {
+    ...(status !== 'all' && { status: status as NudgeStatus }),
+    limit: limitNum,
+    offset: (pageNum - 1) * limitNum,
+  });
 
   res.json({
     success: true,
-    data: userNudges,
+    data: nudges,
   });
 }));
 
@@ -80,23 +108,7 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response): Promise<voi
     return;
   }
 
-  const nudge = mockNudges.find(n => n.id === id);
-
-  if (!nudge) {
-    res.status(404).json({
-      success: false,
-      error: 'Nudge not found',
-    });
-    return;
-  }
-
-  if (nudge.userId !== req.user.id) {
-    res.status(403).json({
-      success: false,
-      error: 'Access denied',
-    });
-    return;
-  }
+  const nudge = await getNudge(req.user.id, id);
 
   res.json({
     success: true,
@@ -114,45 +126,56 @@ router.post('/', asyncHandler(async (req: Request, res: Response): Promise<void>
     return;
   }
 
-  const { title, content, type, scheduledFor, isActive = true } = req.body;
+  const { type, title, message, priority, relatedPeople = [], relatedMemories = [], expiresAt } = req.body;
 
-  if (!title || !content || !type) {
+  if (!type || !title || !message) {
     res.status(400).json({
       success: false,
-      error: 'Title, content, and type are required',
+      error: 'Type, title, and message are required',
     });
     return;
   }
 
-  if (!['reminder', 'memory', 'reflection'].includes(type)) {
+  if (!NUDGE_TYPES.includes(type)) {
     res.status(400).json({
       success: false,
-      error: 'Type must be reminder, memory, or reflection',
+      error: `Type must be one of: ${NUDGE_TYPES.join(', ')}`,
     });
     return;
   }
 
-  const newNudge: Nudge = {
-    id: uuidv4(),
-    userId: req.user.id,
-    title,
-    content,
-    type,
-    scheduledFor: scheduledFor ? new Date(scheduledFor) : new Date(),
-    isActive,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  };
+  const invalid = invalidNudgeFields(req.body)
+    || (!isStringList(relatedPeople) || !isStringList(relatedMemories)
+      ? 'relatedPeople and relatedMemories must be lists of IDs'
+      : undefined);
 
-  mockNudges.push(newNudge);
+  if (invalid) {
+    res.status(400).json({
+      success: false,
+      error: invalid,
+    });
+    return;
+  }
+
+  const expiry = expiresAt !== undefined ? parseDate(expiresAt) : null;
+  const nudge = await createNudge(req.user.id, {
+    type: type as NudgeType,
+    title: title.trim(),
+    message: message.trim(),
+    relatedPeople,
+    relatedMemories,
+    ...(priority && { priority: priority as NudgePriority }),
+    ...(expiry && { expiresAt: expiry }),
+  });
 
   res.status(201).json({
     success: true,
-    data: newNudge,
+    data: nudge,
+    message: 'Nudge created successfully',
   });
 }));
 
-// Update a nudge
+// Update a nudge's wording, priority or expiry
 router.put('/:id', asyncHandler(async (req: Request, res: Response): Promise<void> => {
   if (!req.user) {
     res.status(401).json({
@@ -163,7 +186,7 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response): Promise<voi
   }
 
   const { id } = req.params;
-  const { title, content, type, scheduledFor, isActive } = req.body;
+  const { title, message, priority, expiresAt } = req.body;
 
   if (!id) {
     res.status(400).json({
@@ -173,59 +196,39 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response): Promise<voi
     return;
   }
 
-  const nudgeIndex = mockNudges.findIndex(n => n.id === id);
-
-  if (nudgeIndex === -1) {
-    res.status(404).json({
-      success: false,
-      error: 'Nudge not found',
-    });
-    return;
-  }
-
-  const nudge = mockNudges[nudgeIndex];
-
-  if (!nudge) {
-    res.status(404).json({
-      success: false,
-      error: 'Nudge not found',
-    });
-    return;
-  }
+  const invalid = invalidNudgeFields(req.body);
 
-  if (nudge.userId !== req.user.id) {
-    res.status(403).json({
+  if (invalid) {
+    res.status(400).json({
       success: false,
-      error: 'Access denied',
+      error: invalid,
     });
     return;
   }
 
-  // Update nudge properties
-  if (title) nudge.title = title;
-  if (content) nudge.content = content;
-  if (type) {
-    if (!['reminder', 'memory', 'reflection'].includes(type)) {
-      res.status(400).json({
-        success: false,
-        error: 'Type must be reminder, memory, or reflection',
-      });
-      return;
-    }
-    nudge.type = type;
-  }
-  if (scheduledFor) nudge.scheduledFor = new Date(scheduledFor);
-  if (isActive !== undefined) nudge.isActive = isActive;
-  nudge.updatedAt = new Date();
+  const expiry = expiresAt !== undefined ? parseDate(expiresAt) : null;
+  const changes: NudgeChanges = {
+    ...(title !== undefined && { title: title.trim() }),
+    ...(message !== undefined && { message: message.trim() }),
+    ...(priority !== undefined && { priority: priority as NudgePriority }),
+    ...(expiry && { expiresAt: expiry }),
+  };
+  const nudge = await updateNudge(req.user.id, id, changes);
 
   res.json({
     success: true,
     data: nudge,
+    message: 'Nudge updated successfully',
   });
 }));
 
-// Delete a nudge
-router.delete('/:id', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+// Lifecycle transitions. Read and unread can be toggled at any time; acting
+// on a nudge or dismissing it is final, and only open nudges (active or
+// snoozed) can be actioned, snoozed or dismissed.
+const transition = (
+  apply: (userId: string, id: string, req: Request) => Promise<unknown>,
+  message: string
+) => asyncHandler(async (req: Request, res: Response): Promise<void> => {
   if (!req.user) {
     res.status(401).json({
       success: false,
@@ -244,35 +247,62 @@ router.delete('/:id', asyncHandler(async (req: Request, res: Response): Promise<
     return;
   }
 
-  const nudgeIndex = mockNudges.findIndex(n => n.id === id);
+  const nudge = await apply(req.user.id, id, req);
 
-  if (nudgeIndex === -1) {
-    res.status(404).json({
-      success: false,
-      error: 'Nudge not found',
-    });
-    return;
+  res.json({
+    success: true,
+    data: nudge,
+    message,
+  });
+});
+
+router.patch('/:id/read', transition((userId, id) => markNudgeRead(userId, id, true), 'Nudge marked as read'));
+
+router.patch('/:id/unread', transition((userId, id) => markNudgeRead(userId, id, false), 'Nudge marked as unread'));
+
+router.patch('/:id/action', transition((userId, id) => actOnNudge(userId, id), 'Nudge marked as done'));
+
+router.patch('/:id/dismiss', transition((userId, id) => dismissNudge(userId, id), 'Nudge dismissed'));
+
+// Body: `until` (a date) or `hours` from now; a day when neither is given
+router.patch('/:id/snooze', transition((userId, id, req) => {
+  const { until, hours = DEFAULT_SNOOZE_HOURS } = req.body || {};
+
+  if (until !== undefined) {
+    const date = parseDate(until);
+    if (!date) {
+      throw new CustomError('until must be a date', 400);
+    }
+    return snoozeNudge(userId, id, date);
   }
 
-  const nudge = mockNudges[nudgeIndex];
+  if (typeof hours !== 'number' || !Number.isFinite(hours) || hours <= 0) {
+    throw new CustomError('hours must be a positive number', 400);
+  }
+  return snoozeNudge(userId, id, new Date(Date.now() + hours * HOUR_MS));
+}, 'Nudge snoozed'));
 
-  if (!nudge) {
-    res.status(404).json({
+// Delete a nudge
+router.delete('/:id', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(401).json({
       success: false,
-      error: 'Nudge not found',
+      error: 'Authentication required',
     });
     return;
   }
 
-  if (nudge.userId !== req.user.id) {
-    res.status(403).json({
+  const { id } = req.params;
+
+  if (!id) {
+    res.status(400).json({
       success: false,
-      error: 'Access denied',
+      error: 'Nudge ID is required',
     });
     return;
   }
 
-  mockNudges.splice(nudgeIndex, 1);
+  await deleteNudge(req.user.id, id);
 
   res.json({
     success: true,
@@ -280,4 +310,4 @@ router.delete('/:id', asyncHandler(async (req: Request, res: Response): Promise<
   });
 }));
 
-export default router; 
\ No newline at end of file
+export default router;
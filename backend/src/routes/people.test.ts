@@ -0,0 +1,185 @@
+import { authenticateUser } from '../middleware/auth';
+import { getMemoryRepository, getPersonRepository, initializeRepositories } from '../repositories';
+import { authHeaders, createTestMemory, createTestPerson, createTestUser } from '../test/fixtures';
+import { serve, TestServer } from '../test/http';
+import peopleRoutes from './people';
+
+describe('/api/people', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    await initializeRepositories();
+    server = await serve('/api/people', authenticateUser, peopleRoutes);
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  describe('PUT /:id', () => {
+    it('renames the person along with the memories that mention them', async () => {
+      const user = await createTestUser();
+      const person = await createTestPerson(user.id, 'Sarah');
+      const memory = await createTestMemory(user.id, { people: ['Sarah'] });
+
+      const response = await fetch(`${server.url}/${person.id}`, {
+        method: 'PUT',
+        headers: authHeaders(user),
+        body: JSON.stringify({ name: '  Sarah Chen ', relationship: 'friend' }),
+      });
+      const body = (await response.json()) as any;
+
+      expect(response.status).toBe(200);
+      expect(body.data).toMatchObject({ name: 'Sarah Chen', aliases: ['Sarah'], relationship: 'friend' });
+      expect((await getMemoryRepository().findById(user.id, memory.id))?.people).toEqual(['Sarah Chen']);
+    });
+
+    it('refuses a name another person already goes by', async () => {
+      const user = await createTestUser();
+      const person = await createTestPerson(user.id, 'Sarah');
+      await createTestPerson(user.id, 'Tom', { aliases: ['Tommy'] });
+
+      const response = await fetch(`${server.url}/${person.id}`, {
+        method: 'PUT',
+        headers: authHeaders(user),
+        body: JSON.stringify({ name: 'tommy' }),
+      });
+
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe('POST /:id/merge and POST /merges/:mergeId/undo', () => {
+    it('merges people and undoes the merge', async () => {
+      const user = await createTestUser();
+      const sarah = await createTestPerson(user.id, 'Sarah');
+      const sare = await createTestPerson(user.id, 'Sare');
+      const memory = await createTestMemory(user.id, { people: ['Sare'] });
+
+      const merged = await fetch(`${server.url}/${sarah.id}/merge`, {
+        method: 'POST',
+        headers: authHeaders(user),
+        body: JSON.stringify({ personIds: [sare.id] }),
+      });
+      const { data } = (await merged.json()) as any;
+
+      expect(merged.status).toBe(200);
+      expect(data.person.aliases).toEqual(['Sare']);
+      expect((await getMemoryRepository().findById(user.id, memory.id))?.people).toEqual(['Sarah']);
+
+      const undone = await fetch(`${server.url}/merges/${data.merge.id}/undo`, {
+        method: 'POST',
+        headers: authHeaders(user),
+      });
+
+      expect(undone.status).toBe(200);
+      expect((await getPersonRepository().findById(user.id, sare.id))?.name).toBe('Sare');
+      expect((await getMemoryRepository().findById(user.id, memory.id))?.people).toEqual(['Sare']);
+    });
+
+    it('rejects a malformed person list', async () => {
+      const user = await createTestUser();
+      const sarah = await createTestPerson(user.id, 'Sarah');
+
+      const response = await fetch(`${server.url}/${sarah.id}/merge`, {
+        method: 'POST',
+        headers: authHeaders(user),
+        body: JSON.stringify({ personIds: 'everyone' }),
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /:id/insights', () => {
+    it("returns the person's stats with a summary of the relationship", async () => {
+      const user = await createTestUser();
+      const sarah = await createTestPerson(user.id, 'Sarah');
+      await createTestMemory(user.id, { people: ['Sarah'], mood: 6, tags: ['hiking'], createdAt: new Date('2024-01-05T10:00:00Z') });
+      await createTestMemory(user.id, { people: ['Sarah'], mood: 8, tags: ['hiking'], createdAt: new Date('2024-02-05T10:00:00Z') });
+
+      const response = await fetch(`${server.url}/${sarah.id}/insights`, { headers: authHeaders(user) });
+      const body = (await response.json()) as any;
+
+      expect(response.status).toBe(200);
+      expect(body.data).toMatchObject({
+        person: { id: sarah.id, name: 'Sarah' },
+        memoryCount: 2,
+        averageMood: 7,
+        moodOverTime: [
+          { month: '2024-01', averageMood: 6, memoryCount: 1 },
+          { month: '2024-02', averageMood: 8, memoryCount: 1 },
+        ],
+        topTags: [{ name: 'hiking', count: 2 }],
+        firstInteraction: '2024-01-05T10:00:00.000Z',
+        lastInteraction: '2024-02-05T10:00:00.000Z',
+      });
+      expect(body.data.summary).toMatch(/^You have written about Sarah in 2 memories since January 2024\./);
+    });
+
+    it("returns 404 for another user's person", async () => {
+      const user = await createTestUser();
+      const sarah = await createTestPerson((await createTestUser()).id, 'Sarah');
+
+      const response = await fetch(`${server.url}/${sarah.id}/insights`, { headers: authHeaders(user) });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('GET /graph', () => {
+    it('returns the graph with the default half-life', async () => {
+      const user = await createTestUser();
+      await createTestPerson(user.id, 'Sarah');
+      await createTestPerson(user.id, 'Tom');
+      await createTestMemory(user.id, { people: ['Sarah', 'Tom'] });
+
+      const response = await fetch(`${server.url}/graph`, { headers: authHeaders(user) });
+      const body = (await response.json()) as any;
+
+      expect(response.status).toBe(200);
+      expect(body.data).toMatchObject({ halfLifeDays: 180, edges: [{ memoryCount: 1 }] });
+      expect(body.data.nodes).toHaveLength(2);
+      expect(body.data.communities).toHaveLength(1);
+    });
+
+    it('rejects a half-life outside 1-3650 days', async () => {
+      const user = await createTestUser();
+      const status = async (halfLife: string) =>
+        (await fetch(`${server.url}/graph?half_life_days=${halfLife}`, { headers: authHeaders(user) })).status;
+
+      expect(await status('0')).toBe(400);
+      expect(await status('3651')).toBe(400);
+      expect(await status('soon')).toBe(400);
+      expect(await status('30')).toBe(200);
+    });
+  });
+
+  describe('GET /:id/shared/:otherId', () => {
+    it('lists the memories both people appear in, newest first', async () => {
+      const user = await createTestUser();
+      const sarah = await createTestPerson(user.id, 'Sarah');
+      const tom = await createTestPerson(user.id, 'Tom', { aliases: ['Tommy'] });
+      const older = await createTestMemory(user.id, { people: ['Sarah', 'Tommy'], createdAt: new Date('2024-01-05T10:00:00Z') });
+      const newer = await createTestMemory(user.id, { people: ['Tom', 'Sarah'], createdAt: new Date('2024-03-05T10:00:00Z') });
+      await createTestMemory(user.id, { people: ['Sarah'], createdAt: new Date('2024-02-05T10:00:00Z') });
+      await createTestMemory(user.id, { people: ['Tom'], createdAt: new Date('2024-02-06T10:00:00Z') });
+
+      const response = await fetch(`${server.url}/${sarah.id}/shared/${tom.id}`, { headers: authHeaders(user) });
+      const body = (await response.json()) as any;
+
+      expect(response.status).toBe(200);
+      expect(body.data.map((memory: any) => memory.id)).toEqual([newer.id, older.id]);
+    });
+
+    it('returns 404 when either person is unknown', async () => {
+      const user = await createTestUser();
+      const sarah = await createTestPerson(user.id, 'Sarah');
+      const tom = await createTestPerson((await createTestUser()).id, 'Tom');
+
+      const response = await fetch(`${server.url}/${sarah.id}/shared/${tom.id}`, { headers: authHeaders(user) });
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -2,43 +2,48 @@ import express from 'express';
 import { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { asyncHandler } from '../middleware/errorHandler';
+import { getPersonRepository } from '../repositories';
+import { DEFAULT_HALF_LIFE_DAYS, getPeopleGraph, getSharedMemories } from '../services/personGraphService';
+import { getPersonInsights } from '../services/personInsightsService';
+import {
+  findDuplicatePeople,
+  listPersonMerges,
+  mergePeople,
+  renamePerson,
+  undoPersonMerge,
+} from '../services/personMergeService';
+import { isKnownAs } from '../services/personResolutionService';
 import { Person } from '../types';
 
 const router = express.Router();
 
-// Mock data for development
-const mockPeople: Person[] = [
-  {
-    id: 'person-1',
-    userId: 'user-1',
-    name: 'Sarah Johnson',
-    relationship: 'Best Friend',
-    avatar: 'https://images.unsplash.com/photo-1494790108755-2616b612b786?w=150&h=150&fit=crop&crop=face',
-    notes: 'We met in college and have been inseparable ever since. She loves hiking and photography.',
-    createdAt: new Date('2024-01-01'),
-    updatedAt: new Date('2024-01-01')
-  },
-  {
-    id: 'person-2',
-    userId: 'user-1',
-    name: 'Mike Chen',
-    relationship: 'Roommate',
-    avatar: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=150&h=150&fit=crop&crop=face',
-    notes: 'Great roommate, always keeps the place clean. Loves cooking and watching movies.',
-    createdAt: new Date('2024-01-02'),
-    updatedAt: new Date('2024-01-02')
-  },
-  {
-    id: 'person-3',
-    userId: 'user-2',
-    name: 'Alex Rodriguez',
-    relationship: 'Work Colleague',
-    avatar: 'https://images.unsplash.com/photo-1438761681033-6461ffad8d80?w=150&h=150&fit=crop&crop=face',
-    notes: 'We work together on the marketing team. Very creative and always has great ideas.',
-    createdAt: new Date('2024-01-03'),
-    updatedAt: new Date('2024-01-03')
+const MERGE_HISTORY_LIMIT = 20;
+const MAX_HALF_LIFE_DAYS = 3650;
+
+// Names and aliases are unique per user, ignoring case, so every mention
+// resolves to one person. Returns the first name someone else already uses.
+const findTakenName = async (userId: string, names: string[], exceptId?: string): Promise<string | undefined> => {
+  const others = (await getPersonRepository().list(userId)).filter(person => person.id !== exceptId);
+  return names.find(name => others.some(person => isKnownAs(person, name)));
+};
+
+// Trimmed, distinct aliases other than the name itself; null when the input isn't a list of strings
+const parseAliases = (aliases: unknown, name: string): string[] | null => {
+  if (!Array.isArray(aliases) || !aliases.every(alias => typeof alias === 'string')) {
+    return null;
   }
-];
+
+  const seen = new Set([name.toLowerCase()]);
+  return (aliases as string[])
+    .map(alias => alias.trim())
+    .filter(alias => {
+      if (!alias || seen.has(alias.toLowerCase())) {
+        return false;
+      }
+      seen.add(alias.toLowerCase());
+      return true;
+    });
+};
 
 // Get all people for user
 router.get('/', asyncHandler(async (req: Request, res: Response) => {
@@ -50,7 +55,7 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
   }
 
   try {
-    const userPeople = mockPeople.filter(person => person.userId === req.user!.id);
+    const userPeople = await getPersonRepository().list(req.user.id);
     
     return res.json({
       success: true,
@@ -64,6 +69,96 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
   }
 }));
 
+// People who are probably the same person, with why, best first
+router.get('/duplicates', asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const suggestions = await findDuplicatePeople(req.user.id);
+
+  return res.json({
+    success: true,
+    data: suggestions,
+  });
+}));
+
+// Who appears with whom: people joined by their shared memories, recent ones
+// weighing more, grouped into communities. Query: half_life_days (1-3650).
+router.get('/graph', asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const halfLifeDays = req.query.half_life_days === undefined
+    ? DEFAULT_HALF_LIFE_DAYS
+    : Number(req.query.half_life_days);
+
+  if (!Number.isFinite(halfLifeDays) || halfLifeDays < 1 || halfLifeDays > MAX_HALF_LIFE_DAYS) {
+    return res.status(400).json({
+      success: false,
+      error: `half_life_days must be between 1 and ${MAX_HALF_LIFE_DAYS}`,
+    });
+  }
+
+  const graph = await getPeopleGraph(req.user.id, halfLifeDays);
+
+  return res.json({
+    success: true,
+    data: graph,
+  });
+}));
+
+// Recent merges, newest first, including undone ones
+router.get('/merges', asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const merges = await listPersonMerges(req.user.id, MERGE_HISTORY_LIMIT);
+
+  return res.json({
+    success: true,
+    data: merges,
+  });
+}));
+
+// Undo a merge: the merged people come back and their mentions are restored
+router.post('/merges/:mergeId/undo', asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const { mergeId } = req.params;
+
+  if (!mergeId) {
+    return res.status(400).json({
+      success: false,
+      error: 'Merge ID is required',
+    });
+  }
+
+  const { people, merge } = await undoPersonMerge(req.user.id, mergeId);
+
+  return res.json({
+    success: true,
+    data: { people, merge },
+    message: `Restored ${people.map(person => person.name).join(', ')}`,
+  });
+}));
+
 // Get person by ID
 router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
   if (!req.user) {
@@ -83,7 +178,7 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
   }
 
   try {
-    const person = mockPeople.find(p => p.id === id);
+    const person = await getPersonRepository().findById(req.user.id, id);
 
     if (!person) {
       return res.status(404).json({
@@ -92,13 +187,6 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
       });
     }
 
-    if (person.userId !== req.user.id) {
-      return res.status(403).json({
-        success: false,
-        error: 'Access denied',
-      });
-    }
-
     return res.json({
       success: true,
       data: person,
@@ -111,6 +199,59 @@ router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
   }
 }));
 
+// Stats about the memories a person appears in, mood over time and an AI
+// summary of the relationship
+router.get('/:id/insights', asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const { id } = req.params;
+
+  if (!id) {
+    return res.status(400).json({
+      success: false,
+      error: 'Person ID is required',
+    });
+  }
+
+  const insights = await getPersonInsights(req.user.id, id);
+
+  return res.json({
+    success: true,
+    data: insights,
+  });
+}));
+
+// Memories two people appear in together, newest first
+router.get('/:id/shared/:otherId', asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const { id, otherId } = req.params;
+
+  if (!id || !otherId) {
+    return res.status(400).json({
+      success: false,
+      error: 'Both person IDs are required',
+    });
+  }
+
+  const memories = await getSharedMemories(req.user.id, id, otherId);
+
+  return res.json({
+    success: true,
+    data: memories,
+  });
+}));
+
 // Create new person
 router.post('/', asyncHandler(async (req: Request, res: Response) => {
   if (!req.user) {
@@ -120,28 +261,51 @@ router.post('/', asyncHandler(async (req: Request, res: Response) => {
     });
   }
 
-  const { name, relationship, avatar, notes } = req.body;
+  const { name, aliases = [], relationship, avatar, notes } = req.body;
 
-  if (!name) {
+  if (!name || !String(name).trim()) {
     return res.status(400).json({
       success: false,
       error: 'Name is required',
     });
   }
 
+  const trimmedName = String(name).trim();
+  const aliasList = parseAliases(aliases, trimmedName);
+
+  if (!aliasList) {
+    return res.status(400).json({
+      success: false,
+      error: 'aliases must be a list of names',
+    });
+  }
+
   try {
-    const newPerson: Person = {
+    const people = getPersonRepository();
+    const takenName = await findTakenName(req.user.id, [trimmedName, ...aliasList]);
+
+    if (takenName) {
+      return res.status(409).json({
+        success: false,
+        error: `Another person already goes by "${takenName}"`,
+      });
+    }
+
+    const person: Person = {
       id: uuidv4(),
       userId: req.user.id,
-      name,
-      relationship,
-      avatar,
-      notes,
+      name: trimmedName,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
-    mockPeople.push(newPerson);
+    if (aliasList.length > 0) person.aliases = aliasList;
+
+    if (relationship) person.relationship = relationship;
+    if (avatar) person.avatar = avatar;
+    if (notes) person.notes = notes;
+
+    const newPerson = await people.create(person);
 
     return res.json({
       success: true,
@@ -166,7 +330,7 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
   }
 
   const { id } = req.params;
-  const { name, relationship, avatar, notes } = req.body;
+  const { name, aliases, relationship, avatar, notes } = req.body;
 
   if (!id) {
     return res.status(400).json({
@@ -175,34 +339,54 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
     });
   }
 
-  try {
-    const personIndex = mockPeople.findIndex(p => p.id === id);
+  const trimmedName = name ? String(name).trim() : '';
+  const aliasList = aliases === undefined ? undefined : parseAliases(aliases, trimmedName);
 
-    if (personIndex === -1) {
-      return res.status(404).json({
+  if (aliasList === null) {
+    return res.status(400).json({
+      success: false,
+      error: 'aliases must be a list of names',
+    });
+  }
+
+  try {
+    const takenName = await findTakenName(
+      req.user.id,
+      [...(trimmedName ? [trimmedName] : []), ...(aliasList || [])],
+      id
+    );
+
+    if (takenName) {
+      return res.status(409).json({
         success: false,
-        error: 'Person not found',
+        error: `Another person already goes by "${takenName}"`,
       });
     }
 
-    const person = mockPeople[personIndex];
+    const changes: Partial<Person> = {};
+    if (aliasList !== undefined) changes.aliases = aliasList;
+    if (relationship !== undefined) changes.relationship = relationship;
+    if (avatar !== undefined) changes.avatar = avatar;
+    if (notes !== undefined) changes.notes = notes;
+
+    const people = getPersonRepository();
+    let person = Object.keys(changes).length > 0
+      ? await people.update(req.user.id, id, changes)
+      : await people.findById(req.user.id, id);
+
+    // A rename rewrites the memories that mention the person and keeps the
+    // old name as an alias
+    if (person && trimmedName && trimmedName !== person.name) {
+      person = await renamePerson(req.user.id, id, trimmedName);
+    }
 
-    if (person && person.userId !== req.user.id) {
-      return res.status(403).json({
+    if (!person) {
+      return res.status(404).json({
         success: false,
-        error: 'Access denied',
+        error: 'Person not found',
       });
     }
 
-    // Update person - ensure person exists before updating
-    if (person) {
-      if (name) person.name = name;
-      if (relationship !== undefined) person.relationship = relationship;
-      if (avatar !== undefined) person.avatar = avatar;
-      if (notes !== undefined) person.notes = notes;
-      person.updatedAt = new Date();
-    }
-
     return res.json({
       success: true,
       data: person,
@@ -216,6 +400,43 @@ router.put('/:id', asyncHandler(async (req: Request, res: Response) => {
   }
 }));
 
+// Merge other people into this one (body: `personIds`). Their names become
+// this person's aliases and their memories and nudges move over; the response
+// includes the merge, which POST /merges/:mergeId/undo reverses.
+router.post('/:id/merge', asyncHandler(async (req: Request, res: Response) => {
+  if (!req.user) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+  }
+
+  const { id } = req.params;
+  const { personIds } = req.body;
+
+  if (!id) {
+    return res.status(400).json({
+      success: false,
+      error: 'Person ID is required',
+    });
+  }
+
+  if (!Array.isArray(personIds) || !personIds.every(personId => typeof personId === 'string')) {
+    return res.status(400).json({
+      success: false,
+      error: 'personIds must be a list of person IDs',
+    });
+  }
+
+  const { person, merge } = await mergePeople(req.user.id, id, personIds);
+
+  return res.json({
+    success: true,
+    data: { person, merge },
+    message: `Merged ${merge.sources.length} ${merge.sources.length === 1 ? 'person' : 'people'} into ${person.name}`,
+  });
+}));
+
 // Delete person
 router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
   if (!req.user) {
@@ -235,27 +456,15 @@ router.delete('/:id', asyncHandler(async (req: Request, res: Response) => {
   }
 
   try {
-    const personIndex = mockPeople.findIndex(p => p.id === id);
+    const deleted = await getPersonRepository().delete(req.user.id, id);
 
-    if (personIndex === -1) {
+    if (!deleted) {
       return res.status(404).json({
         success: false,
         error: 'Person not found',
       });
     }
 
-    const person = mockPeople[personIndex];
-
-    if (person && person.userId !== req.user.id) {
-      return res.status(403).json({
-        success: false,
-        error: 'Access denied',
-      });
-    }
-
-    // Remove person
-    mockPeople.splice(personIndex, 1);
-
     return res.json({
       success: true,
       message: 'Person deleted successfully',
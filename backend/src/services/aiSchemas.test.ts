@@ -0,0 +1,50 @@
+import { extractJson, fallbackSummary, nudgesSchema, summarySchema } from './aiSchemas';
+
+describe('AI output schemas', () => {
+  it('coerces near-miss summary output into the stored shape', () => {
+    const parsed = summarySchema.parse({
+      summary: '  A picnic in the park.  ',
+      emotions: { primary: 'joy', secondary: ['calm', 3, ''], intensity: '12', valence: 'Positive' },
+      tags: ['Park', 'Picnic', ...Array.from({ length: 12 }, (_, i) => `tag${i}`)],
+      people: 'Sarah',
+      mood: 7.6,
+    });
+
+    expect(parsed).toEqual({
+      summary: 'A picnic in the park.',
+      emotions: { primary: 'joy', secondary: ['calm'], intensity: 10, valence: 'positive' },
+      tags: ['park', 'picnic', 'tag0', 'tag1', 'tag2', 'tag3', 'tag4', 'tag5', 'tag6', 'tag7'],
+      people: [],
+      mood: 8,
+    });
+  });
+
+  it('rejects output missing what the app cannot make up', () => {
+    expect(summarySchema.safeParse({ summary: '', emotions: { primary: 'joy', intensity: 5, valence: 'positive' }, mood: 5 }).success).toBe(false);
+    expect(summarySchema.safeParse({ summary: 'Fine', emotions: { primary: 'joy', intensity: 5, valence: 'ecstatic' }, mood: 5 }).success).toBe(false);
+    expect(summarySchema.safeParse({ summary: 'Fine', emotions: { primary: 'joy', intensity: 'high', valence: 'positive' }, mood: 5 }).success).toBe(false);
+  });
+
+  it('defaults an unknown nudge priority to medium', () => {
+    const { nudges: [nudge] } = nudgesSchema.parse({
+      nudges: [{ type: 'Reconnect', title: 'Call Sarah', message: 'It has been a month', priority: 'urgent' }],
+    });
+
+    expect(nudge).toEqual({ type: 'reconnect', title: 'Call Sarah', message: 'It has been a month', priority: 'medium', relatedPeople: [] });
+  });
+
+  it('finds the JSON in replies wrapped in code fences or prose', () => {
+    expect(extractJson('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(extractJson('Sure! Here it is: {"a": {"b": 2}} Hope that helps.')).toEqual({ a: { b: 2 } });
+    expect(() => extractJson('I cannot help with that.')).toThrow('No JSON object found in response');
+    expect(() => extractJson('{"a": }')).toThrow(SyntaxError);
+  });
+
+  it('falls back to a neutral summary of the content itself', () => {
+    expect(fallbackSummary('  Walked to the shops.  ')).toMatchObject({
+      summary: 'Walked to the shops.',
+      emotions: { primary: 'neutral', valence: 'neutral' },
+      mood: 5,
+    });
+  });
+});
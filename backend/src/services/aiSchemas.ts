@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import { AITask } from '../providers';
+import { summarizeText } from '../utils/textAnalysis';
+
+// Bump when a prompt changes so logged validation failures can be traced to it
+export const PROMPT_VERSIONS: Record<AITask, string> = {
+  summarize_memory: 'summarize_memory@3',
+  explain_results: 'explain_results@1',
+  generate_nudges: 'generate_nudges@3',
+  analyze_patterns: 'analyze_patterns@2',
+  generate_insights: 'generate_insights@2',
+  answer_question: 'answer_question@1',
+  describe_image: 'describe_image@1',
+  summarize_relationship: 'summarize_relationship@1',
+};
+
+// Limits mirror the constraints in database/schema.sql
+const MIN_SCALE = 1;
+const MAX_SCALE = 10;
+const NEUTRAL_MOOD = 5;
+const MAX_TITLE_LENGTH = 255;
+const MAX_TAGS = 10;
+const MAX_CAPTION_LENGTH = 300;
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, Math.round(value)));
+
+// Accepts "7" or 7.4 and clamps to the 1-10 scale
+const scaleSchema = z.coerce.number().finite().transform(value => clamp(value, MIN_SCALE, MAX_SCALE));
+
+const lowercase = (value: unknown) => (typeof value === 'string' ? value.trim().toLowerCase() : value);
+
+const stringListSchema = z
+  .array(z.unknown())
+  .catch([])
+  .transform(items =>
+    items
+      .filter((item): item is string => typeof item === 'string')
+      .map(item => item.trim())
+      .filter(Boolean)
+  );
+
+export const emotionSchema = z.object({
+  primary: z.string().trim().min(1),
+  secondary: stringListSchema.default([]),
+  intensity: scaleSchema,
+  valence: z.preprocess(lowercase, z.enum(['positive', 'negative', 'neutral'])),
+});
+
+export const summarySchema = z.object({
+  summary: z.string().trim().min(1),
+  emotions: emotionSchema,
+  tags: stringListSchema.default([]).transform(tags => tags.map(tag => tag.toLowerCase()).slice(0, MAX_TAGS)),
+  people: stringListSchema.default([]),
+  mood: scaleSchema,
+});
+
+const nudgeSchema = z.object({
+  type: z.preprocess(lowercase, z.enum(['reconnect', 'log_memory', 'emotional_gap', 'person_reminder', 'milestone'])),
+  title: z.string().trim().min(1).transform(title => title.slice(0, MAX_TITLE_LENGTH)),
+  message: z.string().trim().min(1),
+  priority: z.preprocess(lowercase, z.enum(['low', 'medium', 'high'])).catch('medium'),
+  relatedPeople: stringListSchema.default([]),
+});
+
+export const nudgesSchema = z.object({
+  nudges: z.array(nudgeSchema),
+});
+
+export const emotionalPatternsSchema = z.object({
+  dominantEmotions: stringListSchema.default([]),
+  moodTrend: z.preprocess(lowercase, z.enum(['improving', 'declining', 'stable'])),
+  emotionalGaps: stringListSchema.default([]),
+  recommendations: stringListSchema.default([]),
+});
+
+export const memoryInsightsSchema = z.object({
+  insights: stringListSchema.default([]),
+  patterns: stringListSchema.default([]),
+  suggestions: stringListSchema.default([]),
+});
+
+export const imageDescriptionSchema = z.object({
+  caption: z.string().trim().min(1).transform(caption => caption.slice(0, MAX_CAPTION_LENGTH)),
+  tags: stringListSchema.default([]).transform(tags => tags.map(tag => tag.toLowerCase()).slice(0, MAX_TAGS)),
+});
+
+export type SummaryOutput = z.infer<typeof summarySchema>;
+export type NudgesOutput = z.infer<typeof nudgesSchema>;
+export type EmotionalPatternsOutput = z.infer<typeof emotionalPatternsSchema>;
+export type MemoryInsightsOutput = z.infer<typeof memoryInsightsSchema>;
+export type ImageDescriptionOutput = z.infer<typeof imageDescriptionSchema>;
+
+// Defaults used when the model can't produce valid output even after a repair attempt
+
+export const fallbackSummary = (content: string): SummaryOutput => ({
+  summary: summarizeText(content) || content.trim().slice(0, 200),
+  emotions: {
+    primary: 'neutral',
+    secondary: [],
+    intensity: MIN_SCALE,
+    valence: 'neutral',
+  },
+  tags: [],
+  people: [],
+  mood: NEUTRAL_MOOD,
+});
+
+export const fallbackNudges = (): NudgesOutput => ({
+  nudges: [],
+});
+
+export const fallbackEmotionalPatterns = (): EmotionalPatternsOutput => ({
+  dominantEmotions: [],
+  moodTrend: 'stable',
+  emotionalGaps: [],
+  recommendations: [],
+});
+
+export const fallbackMemoryInsights = (): MemoryInsightsOutput => ({
+  insights: [],
+  patterns: [],
+  suggestions: [],
+});
+
+export const fallbackImageDescription = (): ImageDescriptionOutput => ({
+  caption: '',
+  tags: [],
+});
+
+// Pull the JSON object out of a reply that may be wrapped in prose or code fences
+export const extractJson = (raw: string): unknown => {
+  const text = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+
+  if (start === -1 || end <= start) {
+    throw new Error('No JSON object found in response');
+  }
+
+  return JSON.parse(text.slice(start, end + 1));
+};
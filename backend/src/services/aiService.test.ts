@@ -0,0 +1,63 @@
+import { getLLMProvider, setAIProviders } from '../providers';
+import { scriptedLLM } from '../test/llm';
+import { describeImage, summarizeMemory } from './aiService';
+
+const VALID_SUMMARY = JSON.stringify({
+  summary: 'A picnic in the park.',
+  emotions: { primary: 'joy', secondary: [], intensity: 7, valence: 'positive' },
+  tags: ['picnic'],
+  people: [],
+  mood: 8,
+});
+
+describe('structured AI output', () => {
+  const original = getLLMProvider();
+
+  afterEach(() => {
+    setAIProviders({ llm: original });
+  });
+
+  it('asks the model to repair invalid output, quoting the problem', async () => {
+    const llm = scriptedLLM('{"summary": "A picnic", "mood": 8}', VALID_SUMMARY);
+    setAIProviders({ llm });
+
+    const result = await summarizeMemory({ content: 'Picnic in the park' });
+
+    expect(result.summary).toBe('A picnic in the park.');
+    expect(llm.requests).toHaveLength(2);
+    expect(llm.requests[1]?.json).toBe(true);
+    const [reply, repair] = llm.requests[1]!.messages.slice(-2);
+    expect(reply).toEqual({ role: 'assistant', content: '{"summary": "A picnic", "mood": 8}' });
+    expect(repair?.content).toMatch(/^Your previous reply could not be used \(emotions: Required\)/);
+  });
+
+  it('falls back to defaults when the repair is invalid too', async () => {
+    const llm = scriptedLLM('not json', 'still not json');
+    setAIProviders({ llm });
+
+    const result = await summarizeMemory({ content: 'Walked to the shops.' });
+
+    expect(llm.requests).toHaveLength(2);
+    expect(result).toMatchObject({ summary: 'Walked to the shops.', emotions: { primary: 'neutral' }, mood: 5 });
+  });
+
+  it('lets provider errors through so the job can retry', async () => {
+    setAIProviders({ llm: scriptedLLM() });
+
+    await expect(summarizeMemory({ content: 'Anything' })).rejects.toThrow('No scripted reply left');
+  });
+
+  it('sends the photo to the model and trims the caption and tags', async () => {
+    const llm = scriptedLLM(JSON.stringify({ caption: `  ${'A very long caption. '.repeat(30)}`, tags: ['Kayak', 'LAKE'] }));
+    setAIProviders({ llm });
+    const image = Buffer.from('webp bytes');
+
+    const result = await describeImage({ image, contentType: 'image/webp', filename: 'lake.jpg', context: 'Afternoon at the lake' });
+
+    expect(llm.requests[0]?.task).toBe('describe_image');
+    expect(llm.requests[0]?.messages[1]?.images).toEqual([{ data: image, contentType: 'image/webp' }]);
+    expect(llm.requests[0]?.messages[1]?.content).toContain('The journal entry it belongs to: "Afternoon at the lake"');
+    expect(result.caption).toHaveLength(300);
+    expect(result.tags).toEqual(['kayak', 'lake']);
+  });
+});
@@ -1,34 +1,99 @@
-import OpenAI from 'openai';
 import { logger } from '../utils/logger';
 import {
+  AIImageDescriptionRequest,
+  AIImageDescriptionResponse,
   AISummaryRequest,
   AISummaryResponse,
   AIQueryRequest,
   AIQueryResponse,
   Emotion,
   Memory,
-  MemoryWithPeople,
+  MemorySearchResult,
+  NudgeGenerationRequest,
+  NudgeType,
+  Person,
 } from '../types';
-import { getDatabase } from './database';
+import { getMemoryRepository, getPersonRepository } from '../repositories';
 import { searchMemoriesBySimilarity } from './vectorStore';
+import { z } from 'zod';
+import {
+  ChatMessage,
+  CompletionRequest,
+  Transcription,
+  TranscriptionRequest,
+  getEmbeddingProvider,
+  getLLMProvider,
+  getTranscriptionProvider,
+} from '../providers';
+import {
+  PROMPT_VERSIONS,
+  emotionalPatternsSchema,
+  extractJson,
+  imageDescriptionSchema,
+  fallbackEmotionalPatterns,
+  fallbackImageDescription,
+  fallbackMemoryInsights,
+  fallbackNudges,
+  fallbackSummary,
+  memoryInsightsSchema,
+  nudgesSchema,
+  summarySchema,
+} from './aiSchemas';
+
+// How many times the model is asked to fix output that fails validation
+const MAX_REPAIR_ATTEMPTS = parseInt(process.env.AI_REPAIR_ATTEMPTS || '1');
+
+interface StructuredCompletionRequest<T> extends Omit<CompletionRequest, 'json'> {
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  fallback: () => T;
+}
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+const describeError = (error: unknown): string => {
+  if (error instanceof z.ZodError) {
+    return error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`).join('; ');
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+// Ask for JSON, validate it against the schema and give the model a bounded
+// number of chances to repair invalid output before falling back to defaults.
+// Provider errors (network, auth) are not caught here so callers can retry.
+const completeStructured = async <T>(request: StructuredCompletionRequest<T>): Promise<T> => {
+  const { schema, fallback, ...completion } = request;
+  const promptVersion = PROMPT_VERSIONS[completion.task];
+  const messages: ChatMessage[] = [...completion.messages];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const raw = await getLLMProvider().complete({ ...completion, messages, json: true });
+
+    try {
+      return schema.parse(extractJson(raw));
+    } catch (error) {
+      const problem = describeError(error);
+      logger.warn(`Invalid AI response for ${completion.task}`, {
+        promptVersion,
+        attempt: attempt + 1,
+        problem,
+      });
+
+      messages.push(
+        { role: 'assistant', content: raw },
+        {
+          role: 'user',
+          content: `Your previous reply could not be used (${problem}). Reply again with only a JSON object in exactly the requested format.`,
+        }
+      );
+    }
+  }
 
-const MODEL = process.env.OPENAI_MODEL || 'gpt-4o';
-const EMBEDDING_MODEL = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small';
+  logger.error(`Falling back to default AI output for ${completion.task}`, { promptVersion });
+  return fallback();
+};
 
 // Generate embeddings for text
 export const generateEmbedding = async (text: string): Promise<number[]> => {
   try {
-    const response = await openai.embeddings.create({
-      model: EMBEDDING_MODEL,
-      input: text,
-    });
-
-    return response.data[0].embedding;
+    return await getEmbeddingProvider().embed(text);
   } catch (error) {
     logger.error('Failed to generate embedding:', error);
     throw new Error(`Failed to generate embedding: ${error}`);
@@ -40,11 +105,16 @@ export const summarizeMemory = async (
   request: AISummaryRequest
 ): Promise<AISummaryResponse> => {
   try {
+    const imageCaptions = request.imageCaptions || [];
+    const photos = imageCaptions.length > 0
+      ? `\nPhotos attached to the memory:\n${imageCaptions.map(caption => `- ${caption}`).join('\n')}\n`
+      : '';
+
     const prompt = `
 You are an AI assistant that helps summarize personal memories and extract emotional insights.
 
 Please analyze the following memory content and provide:
-1. A concise summary (2-3 sentences)
+1. A concise summary (2-3 sentences), including what any attached photos show
 2. Primary and secondary emotions
 3. Emotional intensity (1-10 scale)
 4. Emotional valence (positive/negative/neutral)
@@ -53,7 +123,7 @@ Please analyze the following memory content and provide:
 7. Overall mood score (1-10 scale)
 
 Memory content: "${request.content}"
-
+${photos}
 Respond in the following JSON format:
 {
   "summary": "Brief summary of the memory",
@@ -69,8 +139,11 @@ Respond in the following JSON format:
 }
 `;
 
-    const response = await openai.chat.completions.create({
-      model: MODEL,
+    const result = await completeStructured({
+      task: 'summarize_memory',
+      schema: summarySchema,
+      fallback: () => fallbackSummary(request.content),
+      input: { content: request.content, people: request.people || [], imageCaptions },
       messages: [
         {
           role: 'system',
@@ -82,93 +155,88 @@ Respond in the following JSON format:
         },
       ],
       temperature: 0.3,
-      max_tokens: 500,
+      maxTokens: 500,
     });
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No response from OpenAI');
-    }
-
-    // Parse JSON response
-    const result = JSON.parse(content);
-
-    return {
-      summary: result.summary,
-      emotions: {
-        primary: result.emotions.primary,
-        secondary: result.emotions.secondary || [],
-        intensity: result.emotions.intensity,
-        valence: result.emotions.valence,
-      },
-      tags: result.tags || [],
-      people: result.people || [],
-      mood: result.mood,
-    };
+    return result;
   } catch (error) {
     logger.error('Failed to summarize memory:', error);
     throw new Error(`Failed to summarize memory: ${error}`);
   }
 };
 
-// Process natural language queries
-export const processMemoryQuery = async (
-  request: AIQueryRequest
-): Promise<AIQueryResponse> => {
+// Caption a photo and tag the objects and scene it shows
+export const describeImage = async (
+  request: AIImageDescriptionRequest
+): Promise<AIImageDescriptionResponse> => {
   try {
-    // First, generate embedding for the query
-    const queryEmbedding = await generateEmbedding(request.query);
-
-    // Search for similar memories
-    const similarMemories = await searchMemoriesBySimilarity(
-      queryEmbedding,
-      request.userId,
-      request.limit || 10,
-      0.6
-    );
+    const prompt = `
+Describe this photo from a personal memory journal so it can be found later by searching.
 
-    if (similarMemories.length === 0) {
-      return {
-        memories: [],
-        query: request.query,
-        explanation: 'No memories found matching your query.',
-        confidence: 0,
-      };
-    }
+Provide:
+1. A one-sentence caption naming the main subjects, their colours and the setting
+2. Tags for the notable objects, activities and the scene (e.g. "beach", "kayak", "sunset")
+${request.context ? `\nThe journal entry it belongs to: "${request.context}"\n` : ''}
+Respond in the following JSON format:
+{
+  "caption": "A red kayak pulled up on a pebble beach at sunset",
+  "tags": ["kayak", "beach", "sunset"]
+}
+`;
 
-    // Get full memory details from database
-    const supabase = getDatabase();
-    const memoryIds = similarMemories.map(m => m.memoryId);
-    
-    const { data: memories, error } = await supabase
-      .from('memories')
-      .select(`
-        *,
-        people:people(*)
-      `)
-      .in('id', memoryIds)
-      .eq('userId', request.userId);
-
-    if (error) {
-      throw new Error(`Failed to fetch memories: ${error.message}`);
-    }
+    return await completeStructured({
+      task: 'describe_image',
+      schema: imageDescriptionSchema,
+      fallback: fallbackImageDescription,
+      input: {
+        filename: request.filename,
+        width: request.width,
+        height: request.height,
+        context: request.context,
+      },
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a helpful AI assistant that describes photos accurately and concisely. Always respond with valid JSON.',
+        },
+        {
+          role: 'user',
+          content: prompt,
+          images: [{ data: request.image, contentType: request.contentType }],
+        },
+      ],
+      temperature: 0.2,
+      maxTokens: 300,
+    });
+  } catch (error) {
+    logger.error('Failed to describe image:', error);
+    throw new Error(`Failed to describe image: ${error}`);
+  }
+};
 
-    // Use AI to explain the results
-    const explanationPrompt = `
+// Short natural-language note on why the results match. The results are still
+// useful without it, so a provider failure falls back to a generic note.
+const explainResults = async (query: string, memories: Memory[]): Promise<string> => {
+  const explanationPrompt = `
 You are an AI assistant that explains memory search results.
 
-Query: "${request.query}"
+Query: "${query}"
 
 Found ${memories.length} relevant memories. Please provide a brief explanation of why these memories are relevant to the query.
 
 Memories found:
 ${memories.map((m, i) => `${i + 1}. ${m.summary} (${m.title})`).join('\n')}
 
-Provide a 2-3 sentence explanation of the relevance and a confidence score (0-1).
+Provide a 2-3 sentence explanation of the relevance.
 `;
 
-    const explanationResponse = await openai.chat.completions.create({
-      model: MODEL,
+  try {
+    const explanation = await getLLMProvider().complete({
+      task: 'explain_results',
+      input: {
+        query,
+        memories: memories.map(m => ({ title: m.title, summary: m.summary })),
+      },
       messages: [
         {
           role: 'system',
@@ -180,16 +248,62 @@ Provide a 2-3 sentence explanation of the relevance and a confidence score (0-1)
         },
       ],
       temperature: 0.3,
-      max_tokens: 200,
+      maxTokens: 200,
     });
 
-    const explanation = explanationResponse.choices[0]?.message?.content || 'Relevant memories found.';
+    return explanation.trim();
+  } catch (error) {
+    logger.warn('Failed to explain search results:', error);
+    return `Found ${memories.length} ${memories.length === 1 ? 'memory' : 'memories'} related to your query.`;
+  }
+};
+
+// Process natural language queries
+export const processMemoryQuery = async (
+  request: AIQueryRequest
+): Promise<AIQueryResponse> => {
+  try {
+    // First, generate embedding for the query
+    const queryEmbedding = await generateEmbedding(request.query);
+
+    // Search for similar memories
+    const similarMemories = await searchMemoriesBySimilarity(
+      queryEmbedding,
+      request.userId,
+      request.limit || 10,
+      request.threshold,
+      request.filters
+    );
+
+    if (similarMemories.length === 0) {
+      return {
+        memories: [],
+        query: request.query,
+        explanation: 'No memories found matching your query.',
+        confidence: 0,
+      };
+    }
+
+    // Embeddings can outlive their memory briefly, so only keep ids that still exist
+    const similarityById = new Map(similarMemories.map(match => [match.memoryId, match.similarity]));
+    const memories: MemorySearchResult[] = (
+      await getMemoryRepository().findByIds(request.userId, Array.from(similarityById.keys()))
+    ).map(memory => ({ ...memory, similarity: similarityById.get(memory.id) ?? 0 }));
+
+    if (memories.length === 0) {
+      return {
+        memories: [],
+        query: request.query,
+        explanation: 'No memories found matching your query.',
+        confidence: 0,
+      };
+    }
 
     return {
-      memories: memories as MemoryWithPeople[],
+      memories,
       query: request.query,
-      explanation,
-      confidence: similarMemories[0]?.similarity || 0,
+      explanation: await explainResults(request.query, memories),
+      confidence: memories[0]?.similarity || 0,
     };
   } catch (error) {
     logger.error('Failed to process memory query:', error);
@@ -197,53 +311,43 @@ Provide a 2-3 sentence explanation of the relevance and a confidence score (0-1)
   }
 };
 
-// Generate smart nudges
-export const generateNudges = async (
-  userId: string,
-  daysSinceLastMemory?: number,
-  emotionalGaps?: string[],
-  inactivePeople?: string[]
-): Promise<Array<{
-  type: 'reconnect' | 'log_memory' | 'emotional_gap' | 'person_reminder';
+// Generate smart nudges; with `type` set, a single nudge of that type
+export const generateNudges = async (request: NudgeGenerationRequest): Promise<Array<{
+  type: NudgeType;
   title: string;
   message: string;
   priority: 'low' | 'medium' | 'high';
   relatedPeople?: string[];
 }>> => {
-  try {
-    const supabase = getDatabase();
+  const { userId, daysSinceLastMemory, emotionalGaps, inactivePeople, milestones, type } = request;
 
+  try {
     // Get user's recent memories and people
-    const { data: recentMemories } = await supabase
-      .from('memories')
-      .select('*')
-      .eq('userId', userId)
-      .order('createdAt', { ascending: false })
-      .limit(10);
-
-    const { data: people } = await supabase
-      .from('people')
-      .select('*')
-      .eq('userId', userId);
+    const { memories: recentMemories } = await getMemoryRepository().list(userId, { limit: 10 });
+    const people = await getPersonRepository().list(userId);
 
     const nudgePrompt = `
 You are an AI assistant that generates personalized nudges to help users maintain their memory journal.
 
 User context:
 - Days since last memory: ${daysSinceLastMemory || 'Unknown'}
-- Recent memories: ${recentMemories?.length || 0} in the last 10 entries
-- Total people in their life: ${people?.length || 0}
+- Recent memories: ${recentMemories.length} in the last 10 entries
+- Total people in their life: ${people.length}
 - Emotional gaps mentioned: ${emotionalGaps?.join(', ') || 'None'}
 - Inactive people: ${inactivePeople?.join(', ') || 'None'}
+- Milestones: ${milestones?.join('; ') || 'None'}
 
-Generate 2-4 personalized nudges that could help the user. Consider:
+${type
+    ? `Generate exactly one personalized nudge of type "${type}", built on the context above.`
+    : `Generate 2-4 personalized nudges that could help the user. Consider:
 1. If they haven't logged in a while, encourage them to capture today's moments
 2. If they have emotional gaps, suggest reflecting on those emotions
 3. If they haven't mentioned certain people recently, suggest reconnecting
 4. If they've been having negative emotions, suggest positive reflection
+5. If they've reached a milestone, celebrate it`}
 
 For each nudge, provide:
-- type: one of "reconnect", "log_memory", "emotional_gap", "person_reminder"
+- type: one of "reconnect", "log_memory", "emotional_gap", "person_reminder", "milestone"
 - title: short, engaging title
 - message: friendly, encouraging message
 - priority: "low", "medium", or "high"
@@ -263,8 +367,19 @@ Respond in JSON format:
 }
 `;
 
-    const response = await openai.chat.completions.create({
-      model: MODEL,
+    const result = await completeStructured({
+      task: 'generate_nudges',
+      schema: nudgesSchema,
+      fallback: fallbackNudges,
+      input: {
+        daysSinceLastMemory,
+        recentMemoryCount: recentMemories.length,
+        peopleCount: people.length,
+        emotionalGaps: emotionalGaps || [],
+        inactivePeople: inactivePeople || [],
+        milestones: milestones || [],
+        ...(type && { type }),
+      },
       messages: [
         {
           role: 'system',
@@ -276,32 +391,20 @@ Respond in JSON format:
         },
       ],
       temperature: 0.7,
-      max_tokens: 800,
+      maxTokens: 800,
     });
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No response from OpenAI');
-    }
-
-    const result = JSON.parse(content);
-    return result.nudges || [];
+    return result.nudges;
   } catch (error) {
     logger.error('Failed to generate nudges:', error);
     throw new Error(`Failed to generate nudges: ${error}`);
   }
 };
 
-// Transcribe audio using Whisper
-export const transcribeAudio = async (audioBuffer: Buffer): Promise<string> => {
+// Transcribe audio with the configured speech-to-text engine
+export const transcribeAudio = async (request: TranscriptionRequest): Promise<Transcription> => {
   try {
-    const response = await openai.audio.transcriptions.create({
-      file: new File([audioBuffer], 'audio.webm', { type: 'audio/webm' }),
-      model: 'whisper-1',
-      language: 'en',
-    });
-
-    return response.text;
+    return await getTranscriptionProvider().transcribe(request);
   } catch (error) {
     logger.error('Failed to transcribe audio:', error);
     throw new Error(`Failed to transcribe audio: ${error}`);
@@ -319,7 +422,7 @@ export const analyzeEmotionalPatterns = async (
 }> => {
   try {
     const memorySummaries = memories
-      .map(m => `${m.title}: ${m.summary} (Mood: ${m.mood}, Emotions: ${m.emotions.primary})`)
+      .map(m => `${m.title}: ${m.summary} (Mood: ${m.mood}, Emotions: ${m.emotions?.primary || 'none recorded'})`)
       .join('\n');
 
     const prompt = `
@@ -336,8 +439,15 @@ Provide analysis in JSON format:
 }
 `;
 
-    const response = await openai.chat.completions.create({
-      model: MODEL,
+    return await completeStructured({
+      task: 'analyze_patterns',
+      schema: emotionalPatternsSchema,
+      fallback: fallbackEmotionalPatterns,
+      input: {
+        memories: [...memories]
+          .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+          .map(m => ({ title: m.title, mood: m.mood, emotion: m.emotions?.primary })),
+      },
       messages: [
         {
           role: 'system',
@@ -349,15 +459,8 @@ Provide analysis in JSON format:
         },
       ],
       temperature: 0.3,
-      max_tokens: 400,
+      maxTokens: 400,
     });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No response from OpenAI');
-    }
-
-    return JSON.parse(content);
   } catch (error) {
     logger.error('Failed to analyze emotional patterns:', error);
     throw new Error(`Failed to analyze patterns: ${error}`);
@@ -390,8 +493,15 @@ Provide insights in JSON format:
 }
 `;
 
-    const response = await openai.chat.completions.create({
-      model: MODEL,
+    return await completeStructured({
+      task: 'generate_insights',
+      schema: memoryInsightsSchema,
+      fallback: fallbackMemoryInsights,
+      input: {
+        memoryCount: memories.length,
+        people: people.map(p => p.name),
+        recentTitles: memories.slice(0, 5).map(m => m.title),
+      },
       messages: [
         {
           role: 'system',
@@ -403,27 +513,72 @@ Provide insights in JSON format:
         },
       ],
       temperature: 0.5,
-      max_tokens: 600,
+      maxTokens: 600,
     });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No response from OpenAI');
-    }
-
-    return JSON.parse(content);
   } catch (error) {
     logger.error('Failed to generate insights:', error);
     throw new Error(`Failed to generate insights: ${error}`);
   }
 };
 
+// Describe a relationship from the memories that mention the person
+export const summarizeRelationship = async (person: Person, memories: Memory[]): Promise<string> => {
+  const chronological = [...memories].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  const lines = chronological.map(m =>
+    `- ${new Date(m.createdAt).toISOString().slice(0, 10)} (mood ${m.mood}/10${m.emotions ? `, ${m.emotions.primary}` : ''}): ${m.summary || m.title}`
+  );
+
+  const prompt = `
+Here are journal memories that mention ${person.name}${person.relationship ? ` (${person.relationship})` : ''}, oldest first:
+
+${lines.join('\n')}
+
+Write a warm, factual 2-4 sentence summary of this relationship as the memories describe it: what they do together, how it has changed over time, and how the writer tends to feel. Address the writer as "you" and don't invent details.
+`;
+
+  try {
+    const summary = await getLLMProvider().complete({
+      task: 'summarize_relationship',
+      input: {
+        name: person.name,
+        relationship: person.relationship,
+        memories: chronological.map(m => ({
+          date: m.createdAt,
+          title: m.title,
+          mood: m.mood,
+          emotion: m.emotions?.primary,
+          tags: m.tags || [],
+        })),
+      },
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a thoughtful AI assistant that reflects on relationships described in a personal memory journal.',
+        },
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ],
+      temperature: 0.5,
+      maxTokens: 250,
+    });
+
+    return summary.trim();
+  } catch (error) {
+    logger.error('Failed to summarize relationship:', error);
+    throw new Error(`Failed to summarize relationship: ${error}`);
+  }
+};
+
 export default {
   generateEmbedding,
   summarizeMemory,
+  describeImage,
   processMemoryQuery,
   generateNudges,
   transcribeAudio,
   analyzeEmotionalPatterns,
   generateMemoryInsights,
+  summarizeRelationship,
 }; 
\ No newline at end of file
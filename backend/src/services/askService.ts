@@ -0,0 +1,143 @@
+import { ChatMessage, CompletionRequest, getLLMProvider } from '../providers';
+import { AskCitation, AskResponse, Memory } from '../types';
+import { hybridSearch } from './hybridSearchService';
+
+export interface AskRequest {
+  userId: string;
+  question: string;
+  // Earlier turns of the conversation, oldest first
+  history?: ChatMessage[];
+}
+
+// The retrieved context and the completion that answers from it
+export interface PreparedAnswer {
+  citations: AskCitation[];
+  completion: CompletionRequest;
+}
+
+const CONTEXT_MEMORIES = 8;
+const MAX_HISTORY_MESSAGES = 10;
+const MAX_HISTORY_MESSAGE_LENGTH = 2000;
+const MAX_SOURCE_LENGTH = 1200;
+const SNIPPET_LENGTH = 200;
+
+const truncate = (text: string, length: number): string =>
+  text.length > length ? `${text.slice(0, length).trimEnd()}...` : text;
+
+const formatDate = (date: Date): string => new Date(date).toISOString().slice(0, 10);
+
+const SYSTEM_PROMPT = `You answer questions about the user's own journal of memories.
+Use only the numbered memories provided. Cite every memory you rely on with its number in square brackets, e.g. [2].
+If the memories don't contain the answer, say so plainly instead of guessing.
+Speak to the user as "you" and keep answers short.`;
+
+const formatSource = (citation: AskCitation, memory: Memory): string => {
+  const details = [
+    `Date: ${formatDate(memory.createdAt)}`,
+    `Title: ${memory.title}`,
+    ...(memory.people && memory.people.length > 0 ? [`People: ${memory.people.join(', ')}`] : []),
+    ...(memory.emotions ? [`Feeling: ${memory.emotions.primary}`] : []),
+    `Content: ${truncate(memory.content, MAX_SOURCE_LENGTH)}`,
+  ];
+
+  return `[${citation.index}]\n${details.join('\n')}`;
+};
+
+// Only user and assistant turns are kept, so a client can't inject system prompts
+const sanitizeHistory = (history: ChatMessage[] = []): ChatMessage[] =>
+  history
+    .filter(message => message.role === 'user' || message.role === 'assistant')
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map(message => ({ role: message.role, content: truncate(message.content, MAX_HISTORY_MESSAGE_LENGTH) }));
+
+// Retrieve the memories relevant to the question and build the prompt that
+// answers from them. Follow-ups like "what about July?" are searched together
+// with the previous question so they keep their context.
+export const prepareAnswer = async (request: AskRequest): Promise<PreparedAnswer> => {
+  const history = sanitizeHistory(request.history);
+  const previousQuestion = [...history].reverse().find(message => message.role === 'user');
+  const searchQuery = [previousQuestion?.content, request.question].filter(Boolean).join('\n');
+
+  const { results } = await hybridSearch({
+    userId: request.userId,
+    query: searchQuery,
+    limit: CONTEXT_MEMORIES,
+  });
+
+  const citations: AskCitation[] = results.map(({ memory }, index) => ({
+    index: index + 1,
+    memoryId: memory.id,
+    title: memory.title,
+    createdAt: memory.createdAt,
+    snippet: truncate(memory.summary || memory.content, SNIPPET_LENGTH),
+  }));
+
+  const sources = results.map(({ memory }, index) => formatSource(citations[index] as AskCitation, memory));
+
+  return {
+    citations,
+    completion: {
+      task: 'answer_question',
+      input: {
+        question: request.question,
+        sources: results.map(({ memory }, index) => ({
+          index: index + 1,
+          date: formatDate(memory.createdAt),
+          title: memory.title,
+          summary: memory.summary || truncate(memory.content, SNIPPET_LENGTH),
+        })),
+      },
+      messages: [
+        { role: 'system', content: SYSTEM_PROMPT },
+        ...history,
+        {
+          role: 'user',
+          content: sources.length > 0
+            ? `Memories:\n\n${sources.join('\n\n')}\n\nQuestion: ${request.question}`
+            : `No memories matched this question.\n\nQuestion: ${request.question}`,
+        },
+      ],
+      temperature: 0.2,
+      maxTokens: 500,
+    },
+  };
+};
+
+// Memory ids referenced by [n] markers in the answer, in order of first mention
+export const extractCitedMemoryIds = (answer: string, citations: AskCitation[]): string[] => {
+  const byIndex = new Map(citations.map(citation => [citation.index, citation.memoryId]));
+  const cited = new Set<string>();
+
+  for (const match of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    (match[1] || '').split(',').forEach(value => {
+      const memoryId = byIndex.get(parseInt(value.trim()));
+      if (memoryId) {
+        cited.add(memoryId);
+      }
+    });
+  }
+
+  return Array.from(cited);
+};
+
+export const streamAnswer = (prepared: PreparedAnswer): AsyncIterable<string> =>
+  getLLMProvider().stream(prepared.completion);
+
+// Non-streaming variant for clients that don't read server-sent events
+export const answerQuestion = async (request: AskRequest): Promise<AskResponse> => {
+  const prepared = await prepareAnswer(request);
+  const answer = (await getLLMProvider().complete(prepared.completion)).trim();
+
+  return {
+    answer,
+    citations: prepared.citations,
+    citedMemoryIds: extractCitedMemoryIds(answer, prepared.citations),
+  };
+};
+
+export default {
+  prepareAnswer,
+  streamAnswer,
+  answerQuestion,
+  extractCitedMemoryIds,
+};
@@ -0,0 +1,117 @@
+import { Readable } from 'stream';
+import { getAttachmentRepository, initializeRepositories } from '../repositories';
+import { createTestMemory, createTestUser } from '../test/fixtures';
+import { testPhoto } from '../test/image';
+import { Attachment } from '../types';
+import {
+  deleteAttachments,
+  getAttachmentSuggestions,
+  inspectUpload,
+  saveAttachment,
+  syncMemoryCover,
+} from './attachmentService';
+import { getMediaStore } from './mediaStore';
+
+const multerFile = (buffer: Buffer, originalname: string, mimetype = 'application/octet-stream'): Express.Multer.File =>
+  ({ buffer, originalname, mimetype, size: buffer.length } as Express.Multer.File);
+
+const readAll = async (stream: Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
+
+describe('attachmentService', () => {
+  beforeEach(async () => {
+    await initializeRepositories();
+  });
+
+  describe('inspectUpload', () => {
+    it('identifies files by their bytes and cleans the file name', async () => {
+      const photo = await inspectUpload(multerFile(await testPhoto(), '../../holiday\u0000.jpg', 'text/plain'));
+      const notes = await inspectUpload(multerFile(Buffer.from('just some notes'), 'C:\\Users\\me\\notes.txt'));
+
+      expect(photo).toMatchObject({ kind: 'image', contentType: 'image/jpeg', filename: 'holiday.jpg' });
+      expect(notes).toMatchObject({ kind: 'file', contentType: 'application/octet-stream', filename: 'notes.txt' });
+    });
+
+    it('refuses a file that is not the kind asked for', async () => {
+      await expect(inspectUpload(multerFile(Buffer.from('not a picture'), 'photo.jpg', 'image/jpeg'), 'image'))
+        .rejects.toMatchObject({ statusCode: 415 });
+    });
+  });
+
+  describe('saveAttachment', () => {
+    it('stores a photo with its EXIF details and upright WebP renditions', async () => {
+      const user = await createTestUser();
+      const memory = await createTestMemory(user.id);
+      const data = await testPhoto({
+        width: 1600,
+        height: 1200,
+        orientation: 6,
+        takenAt: '2023:05:01 18:30:00',
+        position: { latitude: 38.7, longitude: -9.14 },
+      });
+
+      const attachment = await saveAttachment(user.id, memory.id, { kind: 'image', filename: 'tram.jpg', contentType: 'image/jpeg', data });
+
+      expect(attachment).toMatchObject({
+        kind: 'image',
+        width: 1200,
+        height: 1600,
+        capturedAt: new Date(2023, 4, 1, 18, 30),
+        latitude: 38.7,
+        longitude: expect.closeTo(-9.14, 5),
+      });
+      expect(attachment.renditions.map(({ name, contentType, width, height }) => [name, contentType, width, height])).toEqual([
+        ['thumbnail', 'image/webp', 240, 320],
+        ['preview', 'image/webp', 960, 1280],
+      ]);
+      expect(await readAll(await getMediaStore().read(attachment.storageKey))).toEqual(data);
+    });
+
+    it('keeps an image it cannot decode, without renditions', async () => {
+      const user = await createTestUser();
+      const memory = await createTestMemory(user.id);
+      const broken = (await testPhoto()).subarray(0, 200);
+
+      const attachment = await saveAttachment(user.id, memory.id, { kind: 'image', filename: 'cut.jpg', contentType: 'image/jpeg', data: broken });
+
+      expect(attachment.renditions).toEqual([]);
+    });
+  });
+
+  it('points the memory at its newest photo and clears it once the photos are deleted', async () => {
+    const user = await createTestUser();
+    const memory = await createTestMemory(user.id);
+    const upload = { kind: 'image' as const, filename: 'a.jpg', contentType: 'image/jpeg', data: await testPhoto() };
+    await saveAttachment(user.id, memory.id, upload);
+    const newest = await saveAttachment(user.id, memory.id, upload);
+
+    const covered = await syncMemoryCover(memory);
+    expect(covered.imageUrl).toBe(`/api/media/${newest.id}`);
+
+    const attachments = await getAttachmentRepository().listByMemory(user.id, memory.id);
+    await deleteAttachments(attachments);
+
+    expect((await syncMemoryCover(covered)).imageUrl).toBe('');
+    await expect(getMediaStore().read(newest.storageKey)).rejects.toThrow();
+    expect(await getAttachmentRepository().listByMemory(user.id, memory.id)).toEqual([]);
+  });
+
+  it('suggests the earliest capture time and the first GPS position', () => {
+    const attachments = [
+      { capturedAt: new Date('2023-05-02T10:00:00Z') },
+      { capturedAt: new Date('2023-05-01T09:00:00Z'), latitude: 38.7223, longitude: -9.1393 },
+      { latitude: 41.1579, longitude: -8.6291 },
+    ] as Attachment[];
+
+    expect(getAttachmentSuggestions(attachments)).toEqual({
+      createdAt: new Date('2023-05-01T09:00:00Z'),
+      location: '38.72230, -9.13930',
+    });
+  });
+
+});
@@ -0,0 +1,368 @@
+import crypto from 'crypto';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { fromBuffer } from 'file-type';
+import { CustomError } from '../middleware/errorHandler';
+import { getAttachmentRepository, getMemoryRepository } from '../repositories';
+import {
+  Attachment,
+  AttachmentKind,
+  AttachmentRendition,
+  AttachmentSuggestions,
+  Memory,
+  PublicAttachment,
+  RenditionName,
+} from '../types';
+import { createRendition, readImageMetadata } from '../utils/image';
+import { logger } from '../utils/logger';
+import { getMediaStore } from './mediaStore';
+
+// A validated upload, ready to be stored
+export interface AttachmentUpload {
+  kind: AttachmentKind;
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export const ATTACHMENT_SIZE_LIMITS: Record<AttachmentKind, number> = {
+  audio: parseInt(process.env.MEDIA_MAX_AUDIO_BYTES || String(25 * 1024 * 1024)),
+  image: parseInt(process.env.MEDIA_MAX_IMAGE_BYTES || String(10 * 1024 * 1024)),
+  file: parseInt(process.env.MEDIA_MAX_FILE_BYTES || String(25 * 1024 * 1024)),
+};
+
+export const MAX_ATTACHMENTS_PER_UPLOAD = 10;
+
+// Longest side of each image rendition, in pixels
+const RENDITION_SIZES: Record<RenditionName, number> = {
+  thumbnail: 320,
+  preview: 1280,
+};
+
+// Sniffed type -> the type the file is served with. Browsers record audio-only
+// WebM and MP4 files that sniff as video containers.
+const MEDIA_TYPES: Record<Exclude<AttachmentKind, 'file'>, Record<string, string>> = {
+  audio: {
+    'audio/mpeg': 'audio/mpeg',
+    'audio/vnd.wave': 'audio/wav',
+    'audio/ogg': 'audio/ogg',
+    'audio/opus': 'audio/ogg',
+    'application/ogg': 'audio/ogg',
+    'audio/x-flac': 'audio/flac',
+    'audio/aac': 'audio/aac',
+    'audio/mp4': 'audio/mp4',
+    'audio/x-m4a': 'audio/mp4',
+    'video/mp4': 'audio/mp4',
+    'video/webm': 'audio/webm',
+  },
+  image: {
+    'image/jpeg': 'image/jpeg',
+    'image/png': 'image/png',
+    'image/gif': 'image/gif',
+    'image/webp': 'image/webp',
+    'image/heic': 'image/heic',
+    'image/heif': 'image/heif',
+    'image/avif': 'image/avif',
+  },
+};
+
+// Formats vision models accept; other images are only sent as their WebP preview
+const ANALYZABLE_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+// Signed media links stay valid for one to two of these periods. The expiry is
+// rounded up, so a link doesn't change between requests and browsers can cache it.
+const MEDIA_URL_TTL_SECONDS = parseInt(process.env.MEDIA_URL_TTL_SECONDS || '3600');
+const MEDIA_PATH = /^\/api\/media\/([^/?#]+)$/;
+
+const FALLBACK_CONTENT_TYPE = 'application/octet-stream';
+const MAX_FILENAME_LENGTH = 255;
+
+const formatMegabytes = (bytes: number): string => `${Math.floor(bytes / (1024 * 1024))} MB`;
+
+// Keep only the base name and drop control characters, which could break headers
+const cleanFilename = (name: string, fallback: string): string => {
+  const base = path.basename(name.replace(/\\/g, '/')).replace(/[\u0000-\u001f\u007f"]/g, '').trim();
+  return base.slice(0, MAX_FILENAME_LENGTH) || fallback;
+};
+
+// Identify an upload from its bytes (the client's declared MIME type is ignored)
+// and check it against its size limit. When `kind` is given the file must be
+// that kind; otherwise audio and images are recognised and anything else is
+// stored as a plain file.
+export const inspectUpload = async (file: Express.Multer.File, kind?: AttachmentKind): Promise<AttachmentUpload> => {
+  const detected = await fromBuffer(file.buffer);
+  const detectedKind = (['audio', 'image'] as const).find(mediaKind => detected && MEDIA_TYPES[mediaKind][detected.mime]);
+  const resolvedKind: AttachmentKind = detectedKind || 'file';
+
+  if (kind && kind !== resolvedKind) {
+    throw new CustomError(`Unsupported ${kind} file type`, 415);
+  }
+
+  if (file.size > ATTACHMENT_SIZE_LIMITS[resolvedKind]) {
+    throw new CustomError(
+      `The ${resolvedKind} file must be at most ${formatMegabytes(ATTACHMENT_SIZE_LIMITS[resolvedKind])}`,
+      413
+    );
+  }
+
+  const contentType = detectedKind && detected
+    ? MEDIA_TYPES[detectedKind][detected.mime] as string
+    : detected?.mime || FALLBACK_CONTENT_TYPE;
+
+  return {
+    kind: resolvedKind,
+    filename: cleanFilename(file.originalname || '', resolvedKind),
+    contentType,
+    data: file.buffer,
+  };
+};
+
+// The type an audio file is served and transcribed as, read from its bytes;
+// undefined when they aren't a recognised audio format
+export const detectAudioType = async (data: Buffer): Promise<string | undefined> => {
+  const detected = await fromBuffer(data);
+  return detected ? MEDIA_TYPES.audio[detected.mime] : undefined;
+};
+
+// The attachment's stable path, stored as a memory's audioUrl or imageUrl;
+// responses hand out signed links to it instead
+export const getAttachmentUrl = (attachment: Attachment, rendition?: RenditionName): string =>
+  `/api/media/${attachment.id}${rendition ? `?rendition=${rendition}` : ''}`;
+
+const getMediaUrlSecret = (): string => {
+  const secret = process.env.MEDIA_URL_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('MEDIA_URL_SECRET or JWT_SECRET must be set');
+  }
+  return secret;
+};
+
+const mediaSignature = (userId: string, attachmentId: string, rendition: RenditionName | undefined, expires: number): string =>
+  crypto.createHmac('sha256', getMediaUrlSecret())
+    .update(`${userId}:${attachmentId}:${rendition || ''}:${expires}`)
+    .digest('base64url');
+
+// A link to the attachment that works without an Authorization header, which
+// <img> and <audio> elements can't send. It names the owner and an expiry, and
+// carries an HMAC of both with the attachment and rendition.
+export const getSignedAttachmentUrl = (
+  attachment: Pick<Attachment, 'id' | 'userId'>,
+  rendition?: RenditionName,
+  now: number = Date.now()
+): string => {
+  const expires = (Math.ceil(now / 1000 / MEDIA_URL_TTL_SECONDS) + 1) * MEDIA_URL_TTL_SECONDS;
+  const params = new URLSearchParams({
+    ...(rendition && { rendition }),
+    user: attachment.userId,
+    expires: String(expires),
+    signature: mediaSignature(attachment.userId, attachment.id, rendition, expires),
+  });
+  return `/api/media/${attachment.id}?${params}`;
+};
+
+export interface MediaUrlSignature {
+  attachmentId: string;
+  rendition?: RenditionName;
+  userId: string;
+  expires: number;
+  signature: string;
+}
+
+// Whether a signed link's parameters are genuine and it hasn't expired
+export const verifyMediaSignature = (link: MediaUrlSignature, now: number = Date.now()): boolean => {
+  if (!Number.isInteger(link.expires) || link.expires * 1000 <= now) {
+    return false;
+  }
+
+  const expected = Buffer.from(mediaSignature(link.userId, link.attachmentId, link.rendition, link.expires));
+  const given = Buffer.from(link.signature);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+export const toPublicAttachment = (attachment: Attachment): PublicAttachment => {
+  const { userId: _userId, storageKey: _storageKey, renditions, ...rest } = attachment;
+  const has = (name: RenditionName) => renditions.some(rendition => rendition.name === name);
+
+  return {
+    ...rest,
+    url: getSignedAttachmentUrl(attachment),
+    ...(has('thumbnail') && { thumbnailUrl: getSignedAttachmentUrl(attachment, 'thumbnail') }),
+    ...(has('preview') && { previewUrl: getSignedAttachmentUrl(attachment, 'preview') }),
+  };
+};
+
+// The memory as sent to its owner: its stored audioUrl and imageUrl are
+// swapped for signed links
+export const withSignedMediaUrls = (memory: Memory): Memory => {
+  const sign = (url: string): string => {
+    const attachmentId = url.match(MEDIA_PATH)?.[1];
+    return attachmentId ? getSignedAttachmentUrl({ id: attachmentId, userId: memory.userId }) : url;
+  };
+
+  return {
+    ...memory,
+    ...(memory.audioUrl && { audioUrl: sign(memory.audioUrl) }),
+    ...(memory.imageUrl && { imageUrl: sign(memory.imageUrl) }),
+  };
+};
+
+const storageKeys = (attachment: Attachment): string[] => [
+  attachment.storageKey,
+  ...attachment.renditions.map(rendition => rendition.storageKey),
+];
+
+// Renditions are a convenience: an image sharp can't decode is still stored, just without them
+const storeRenditions = async (baseKey: string, image: Buffer): Promise<AttachmentRendition[]> => {
+  const renditions: AttachmentRendition[] = [];
+
+  for (const [name, maxSize] of Object.entries(RENDITION_SIZES) as [RenditionName, number][]) {
+    try {
+      const rendition = await createRendition(image, maxSize);
+      const storageKey = `${baseKey}/${name}`;
+      await getMediaStore().put(storageKey, rendition.data, rendition.contentType);
+      renditions.push({
+        name,
+        contentType: rendition.contentType,
+        size: rendition.data.length,
+        width: rendition.width,
+        height: rendition.height,
+        storageKey,
+      });
+    } catch (error) {
+      logger.warn(`Could not create ${name} rendition for ${baseKey}:`, error);
+      break;
+    }
+  }
+
+  return renditions;
+};
+
+export const saveAttachment = async (
+  userId: string,
+  memoryId: string,
+  upload: AttachmentUpload
+): Promise<Attachment> => {
+  const id = uuidv4();
+  const baseKey = `${userId}/${id}`;
+
+  const attachment: Attachment = {
+    id,
+    userId,
+    memoryId,
+    kind: upload.kind,
+    filename: upload.filename,
+    contentType: upload.contentType,
+    size: upload.data.length,
+    storageKey: `${baseKey}/original`,
+    renditions: [],
+    createdAt: new Date(),
+  };
+
+  try {
+    await getMediaStore().put(attachment.storageKey, upload.data, upload.contentType);
+
+    if (upload.kind === 'image') {
+      Object.assign(attachment, await readImageMetadata(upload.data));
+      attachment.renditions = await storeRenditions(baseKey, upload.data);
+    }
+
+    return await getAttachmentRepository().create(attachment);
+  } catch (error) {
+    await Promise.all(storageKeys(attachment).map(key => getMediaStore().delete(key).catch(() => undefined)));
+    throw error;
+  }
+};
+
+// The picture to show an AI model: the preview rendition, or the original when
+// there is none and models can read its format. Null if neither is usable.
+export const readAttachmentImage = async (
+  attachment: Attachment
+): Promise<{ data: Buffer; contentType: string } | null> => {
+  const preview = attachment.renditions.find(rendition => rendition.name === 'preview');
+  const source = preview || (ANALYZABLE_IMAGE_TYPES.includes(attachment.contentType) ? attachment : null);
+
+  if (attachment.kind !== 'image' || !source) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of await getMediaStore().read(source.storageKey)) {
+    chunks.push(Buffer.from(chunk));
+  }
+
+  return { data: Buffer.concat(chunks), contentType: source.contentType };
+};
+
+// Remove stored files and their records. Best-effort: failures are logged and
+// never block the memory change that triggered the cleanup. Records may already
+// be gone, since deleting a memory cascades to its attachment rows.
+export const deleteAttachments = async (attachments: Attachment[]): Promise<void> => {
+  for (const attachment of attachments) {
+    try {
+      for (const key of storageKeys(attachment)) {
+        await getMediaStore().delete(key);
+      }
+      await getAttachmentRepository().delete(attachment.userId, attachment.id);
+    } catch (error) {
+      logger.warn(`Failed to delete attachment ${attachment.id}:`, error);
+    }
+  }
+};
+
+// Point the memory's audioUrl and imageUrl at its newest audio clip and image
+// (clearing them, with an empty string, once none are left)
+export const syncMemoryCover = async (memory: Memory): Promise<Memory> => {
+  const attachments = await getAttachmentRepository().listByMemory(memory.userId, memory.id);
+  const changes: Partial<Memory> = {};
+
+  (['audio', 'image'] as const).forEach(kind => {
+    const field = kind === 'audio' ? 'audioUrl' : 'imageUrl';
+    const latest = attachments.filter(attachment => attachment.kind === kind).pop();
+    const url = latest ? getAttachmentUrl(latest) : '';
+    if (url !== (memory[field] || '')) {
+      changes[field] = url;
+    }
+  });
+
+  if (Object.keys(changes).length === 0) {
+    return memory;
+  }
+
+  return await getMemoryRepository().update(memory.userId, memory.id, changes) || memory;
+};
+
+// The earliest capture time and first GPS position among the photos, offered
+// to the user as the memory's date and location
+export const getAttachmentSuggestions = (attachments: Attachment[]): AttachmentSuggestions => {
+  const suggestions: AttachmentSuggestions = {};
+
+  const captureTimes = attachments
+    .map(attachment => attachment.capturedAt)
+    .filter((date): date is Date => date !== undefined)
+    .sort((a, b) => a.getTime() - b.getTime());
+  const located = attachments.find(attachment => attachment.latitude !== undefined && attachment.longitude !== undefined);
+
+  if (captureTimes[0]) {
+    suggestions.createdAt = captureTimes[0];
+  }
+  if (located) {
+    suggestions.location = `${located.latitude!.toFixed(5)}, ${located.longitude!.toFixed(5)}`;
+  }
+
+  return suggestions;
+};
+
+export default {
+  inspectUpload,
+  detectAudioType,
+  getAttachmentUrl,
+  getSignedAttachmentUrl,
+  verifyMediaSignature,
+  toPublicAttachment,
+  withSignedMediaUrls,
+  saveAttachment,
+  readAttachmentImage,
+  deleteAttachments,
+  syncMemoryCover,
+  getAttachmentSuggestions,
+};
@@ -0,0 +1,58 @@
+import { getRefreshTokenRepository, initializeRepositories } from '../repositories';
+import { createTestUser } from '../test/fixtures';
+import { hashToken, issueSession, rotateRefreshToken, toPublicUser } from './authService';
+
+const findToken = (token: string) => getRefreshTokenRepository().findByHash(hashToken(token));
+
+describe('refresh token rotation', () => {
+  beforeEach(async () => {
+    await initializeRepositories();
+  });
+
+  it('replaces the presented token with a new one', async () => {
+    const user = await createTestUser();
+    const session = await issueSession(toPublicUser(user));
+
+    const { user: refreshedUser, tokens } = await rotateRefreshToken(session.refreshToken);
+
+    expect(refreshedUser.id).toBe(user.id);
+    expect(tokens.refreshToken).not.toBe(session.refreshToken);
+
+    const replacement = await findToken(tokens.refreshToken);
+    const old = await findToken(session.refreshToken);
+    expect(replacement?.revokedAt).toBeUndefined();
+    expect(old?.revokedAt).toBeInstanceOf(Date);
+    expect(old?.replacedBy).toBe(replacement?.id);
+  });
+
+  it('revokes every session when a rotated token is presented again', async () => {
+    const user = await createTestUser();
+    const session = await issueSession(toPublicUser(user));
+    const otherDevice = await issueSession(toPublicUser(user));
+    const { tokens } = await rotateRefreshToken(session.refreshToken);
+
+    await expect(rotateRefreshToken(session.refreshToken)).rejects.toMatchObject({ statusCode: 401 });
+
+    expect((await findToken(tokens.refreshToken))?.revokedAt).toBeInstanceOf(Date);
+    expect((await findToken(otherDevice.refreshToken))?.revokedAt).toBeInstanceOf(Date);
+    await expect(rotateRefreshToken(tokens.refreshToken)).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it('treats the same token presented twice at once as reuse', async () => {
+    const user = await createTestUser();
+    const session = await issueSession(toPublicUser(user));
+
+    const results = await Promise.allSettled([
+      rotateRefreshToken(session.refreshToken),
+      rotateRefreshToken(session.refreshToken),
+    ]);
+
+    expect(results.filter(result => result.status === 'rejected')).toHaveLength(1);
+    const [winner] = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+    expect((await findToken(winner!.tokens.refreshToken))?.revokedAt).toBeInstanceOf(Date);
+  });
+
+  it('rejects an unknown token', async () => {
+    await expect(rotateRefreshToken('not-a-token')).rejects.toMatchObject({ statusCode: 401 });
+  });
+});
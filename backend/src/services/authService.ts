@@ -0,0 +1,172 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import { AccessTokenPayload, User, UserRecord } from '../types';
+import { getRefreshTokenRepository, getUserRepository } from '../repositories';
+import { createAuthError } from '../middleware/errorHandler';
+
+const BCRYPT_ROUNDS = 12;
+const ACCESS_TOKEN_TTL = (process.env.JWT_ACCESS_EXPIRES_IN || '15m') as NonNullable<SignOptions['expiresIn']>;
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+const getJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not configured');
+  }
+  return secret;
+};
+
+// Refresh and reset tokens are opaque random strings; only their hash is persisted
+export const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+// Strip credentials before a user leaves the service layer
+export const toPublicUser = (user: UserRecord): User => {
+  const { passwordHash, passwordChangedAt, ...publicUser } = user;
+  return publicUser;
+};
+
+export const hashPassword = async (password: string): Promise<string> => {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+};
+
+export const verifyPassword = async (password: string, passwordHash: string): Promise<boolean> => {
+  return bcrypt.compare(password, passwordHash);
+};
+
+export const signAccessToken = (user: User): string => {
+  const payload: AccessTokenPayload = { sub: user.id, email: user.email };
+  return jwt.sign(payload, getJwtSecret(), { expiresIn: ACCESS_TOKEN_TTL });
+};
+
+// Throws JsonWebTokenError / TokenExpiredError, which the error handler maps to 401
+export const verifyAccessToken = (token: string): AccessTokenPayload & { iat?: number } => {
+  const decoded = jwt.verify(token, getJwtSecret());
+  if (typeof decoded === 'string' || !decoded.sub) {
+    throw createAuthError('Invalid token');
+  }
+  return decoded as AccessTokenPayload & { iat?: number };
+};
+
+// Access tokens issued before the last password change are no longer honoured
+export const isIssuedBeforePasswordChange = (user: UserRecord, issuedAt?: number): boolean => {
+  if (!user.passwordChangedAt) {
+    return false;
+  }
+  return !issuedAt || issuedAt < Math.floor(user.passwordChangedAt.getTime() / 1000);
+};
+
+const createRefreshToken = async (userId: string): Promise<{ id: string; token: string; expiresAt: Date }> => {
+  const id = uuidv4();
+  const token = crypto.randomBytes(48).toString('base64url');
+  const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  await getRefreshTokenRepository().create({
+    id,
+    userId,
+    tokenHash: hashToken(token),
+    expiresAt,
+    createdAt: new Date(),
+  });
+
+  return { id, token, expiresAt };
+};
+
+// Issue a new access token and a fresh refresh token for the user
+export const issueSession = async (user: User): Promise<SessionTokens> => {
+  const refresh = await createRefreshToken(user.id);
+
+  return {
+    accessToken: signAccessToken(user),
+    refreshToken: refresh.token,
+    refreshTokenExpiresAt: refresh.expiresAt,
+  };
+};
+
+const handleTokenReuse = async (userId: string): Promise<never> => {
+  logger.warn(`Refresh token reuse detected for user ${userId}; revoking all sessions`);
+  await getRefreshTokenRepository().revokeAllForUser(userId);
+  throw createAuthError('Invalid refresh token');
+};
+
+// Exchange a refresh token for a new session, revoking the old token.
+// Presenting an already-revoked token is treated as theft: every session
+// for that user is revoked. So is losing the race to revoke it, which means
+// the same token was presented twice at once.
+export const rotateRefreshToken = async (
+  refreshToken: string
+): Promise<{ user: UserRecord; tokens: SessionTokens }> => {
+  const tokenRepository = getRefreshTokenRepository();
+  const stored = await tokenRepository.findByHash(hashToken(refreshToken));
+
+  if (!stored) {
+    throw createAuthError('Invalid refresh token');
+  }
+
+  if (stored.revokedAt) {
+    return handleTokenReuse(stored.userId);
+  }
+
+  if (stored.expiresAt.getTime() <= Date.now()) {
+    await tokenRepository.revoke(stored.id);
+    throw createAuthError('Refresh token expired');
+  }
+
+  const user = await getUserRepository().findById(stored.userId);
+  if (!user) {
+    await tokenRepository.revoke(stored.id);
+    throw createAuthError('User not found');
+  }
+
+  // The replacement exists before the old token is revoked, so a concurrent
+  // refresh that loses the race revokes it along with the rest
+  const refresh = await createRefreshToken(user.id);
+  if (!(await tokenRepository.revoke(stored.id, refresh.id))) {
+    return handleTokenReuse(stored.userId);
+  }
+
+  return {
+    user,
+    tokens: {
+      accessToken: signAccessToken(user),
+      refreshToken: refresh.token,
+      refreshTokenExpiresAt: refresh.expiresAt,
+    },
+  };
+};
+
+export const revokeRefreshToken = async (refreshToken: string): Promise<void> => {
+  const tokenRepository = getRefreshTokenRepository();
+  const stored = await tokenRepository.findByHash(hashToken(refreshToken));
+
+  if (stored) {
+    await tokenRepository.revoke(stored.id);
+  }
+};
+
+export const revokeAllSessions = async (userId: string): Promise<void> => {
+  await getRefreshTokenRepository().revokeAllForUser(userId);
+};
+
+export default {
+  hashToken,
+  toPublicUser,
+  hashPassword,
+  verifyPassword,
+  signAccessToken,
+  verifyAccessToken,
+  isIssuedBeforePasswordChange,
+  issueSession,
+  rotateRefreshToken,
+  revokeRefreshToken,
+  revokeAllSessions,
+};
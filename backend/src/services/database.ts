@@ -8,7 +8,9 @@ let supabase: SupabaseClient;
 export const initializeDatabase = async (): Promise<void> => {
   try {
     const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseKey = process.env.SUPABASE_ANON_KEY;
+    // The API enforces ownership itself, so it connects with the service role
+    // key when available rather than relying on auth.uid() row-level policies
+    const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY;
 
     if (!supabaseUrl || !supabaseKey) {
       throw new Error('Missing Supabase configuration');
@@ -0,0 +1,112 @@
+import fsp from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { csvImporter } from '../importers';
+import { initializeRepositories } from '../repositories';
+import { createTestMemory, createTestNudge, createTestPerson, createTestUser } from '../test/fixtures';
+import { readZip } from '../utils/zip';
+import { EXPORT_SCHEMA_VERSION, ExportRequest, describeExport, writeExport } from './exportService';
+
+// The whole export as text, for the formats that aren't archives
+const exportText = async (request: ExportRequest): Promise<string> => {
+  const out = new PassThrough();
+  const chunks: Buffer[] = [];
+  out.on('data', chunk => chunks.push(chunk));
+  await writeExport(request, out);
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+describe('exportService', () => {
+  beforeEach(async () => {
+    await initializeRepositories();
+  });
+
+  it('writes versioned JSON with the user\'s people, nudges and memories', async () => {
+    const user = await createTestUser({ name: 'Ada' });
+    const person = await createTestPerson(user.id, 'Sarah Chen');
+    await createTestNudge(user.id, { relatedPeople: [person.id] });
+    const memory = await createTestMemory(user.id, { title: 'Picnic', people: ['Sarah Chen'] });
+
+    const exported = JSON.parse(await exportText({ userId: user.id, format: 'json' }));
+
+    expect(exported).toMatchObject({
+      schema: 'memorynest-export',
+      version: EXPORT_SCHEMA_VERSION,
+      user: { id: user.id, email: user.email, name: 'Ada' },
+      people: [{ id: person.id, name: 'Sarah Chen' }],
+      nudges: [{ relatedPeople: [person.id] }],
+      memories: [{ id: memory.id, title: 'Picnic', people: ['Sarah Chen'], attachments: [] }],
+    });
+    expect(exported.people[0]).not.toHaveProperty('userId');
+    expect(exported.memories[0]).not.toHaveProperty('userId');
+  });
+
+  it('quotes text that spreadsheets would run as a formula', async () => {
+    const user = await createTestUser();
+    await createTestMemory(user.id, { title: '=HYPERLINK("http://evil.example")', content: '+1 for the plan, @everyone', tags: ['-minus'] });
+
+    const [, row] = (await exportText({ userId: user.id, format: 'csv', entity: 'memories' })).split('\r\n');
+
+    expect(row).toContain(`"'=HYPERLINK(""http://evil.example"")"`);
+    expect(row).toContain(`"'+1 for the plan, @everyone"`);
+    expect(row).toContain(',-minus,');
+  });
+
+  it('exports memories.csv in a form the CSV importer reads back unchanged', async () => {
+    const user = await createTestUser();
+    const memory = await createTestMemory(user.id, {
+      title: '=Reunion',
+      content: '-Met everyone at "the old place",\nthen walked home',
+      createdAt: new Date('2023-05-01T18:30:00Z'),
+      people: ['Sarah Chen', 'Mike'],
+      tags: ['friends', 'city'],
+      location: 'Lisbon',
+      isPrivate: true,
+    });
+
+    const csv = await exportText({ userId: user.id, format: 'csv', entity: 'memories' });
+    const [row] = csvImporter.parse([{ path: 'memories.csv', data: Buffer.from(csv) }], {});
+
+    expect(row?.entry).toEqual({
+      title: memory.title,
+      content: memory.content,
+      createdAt: memory.createdAt,
+      people: memory.people,
+      tags: memory.tags,
+      location: memory.location,
+      isPrivate: true,
+    });
+  });
+
+  it('writes one journal page per day with that day\'s entries oldest first', async () => {
+    const user = await createTestUser();
+    await createTestMemory(user.id, { title: 'Breakfast', createdAt: new Date('2023-05-01T08:00:00Z'), tags: ['slow morning'] });
+    await createTestMemory(user.id, { title: 'Dinner', createdAt: new Date('2023-05-01T20:00:00Z'), mood: 8 });
+    await createTestMemory(user.id, { title: 'New year', createdAt: new Date('2024-01-01T10:00:00Z') });
+
+    const file = path.join(os.tmpdir(), `memorynest-export-test-${user.id}.zip`);
+    try {
+      const handle = await fsp.open(file, 'w');
+      await writeExport({ userId: user.id, format: 'markdown' }, handle.createWriteStream());
+      const pages = await readZip(file, { include: () => true, maxFiles: 10, maxBytes: 1024 * 1024 });
+      const page = (name: string) => pages.find(entry => entry.path === name)?.data.toString('utf8') || '';
+
+      expect(pages.map(entry => entry.path).sort()).toEqual(['journal/2023/2023-05-01.md', 'journal/2024/2024-01-01.md']);
+      expect(page('journal/2023/2023-05-01.md')).toMatch(/^# Monday, May 1, 2023\n\n## Breakfast\n/);
+      expect(page('journal/2023/2023-05-01.md').indexOf('## Dinner')).toBeGreaterThan(page('journal/2023/2023-05-01.md').indexOf('## Breakfast'));
+      expect(page('journal/2023/2023-05-01.md')).toContain('*20:00 UTC · Mood 8/10*');
+      expect(page('journal/2023/2023-05-01.md')).toContain('**Tags:** #slow-morning');
+    } finally {
+      await fsp.rm(file, { force: true });
+    }
+  });
+
+  it('names downloads after the format and date', () => {
+    const date = new Date('2023-05-01T12:00:00Z');
+
+    expect(describeExport({ format: 'json' }, date)).toEqual({ contentType: 'application/json', filename: 'memorynest-export-2023-05-01.json' });
+    expect(describeExport({ format: 'csv', entity: 'people' }, date).filename).toBe('memorynest-people-2023-05-01.csv');
+    expect(describeExport({ format: 'markdown' }, date)).toEqual({ contentType: 'application/zip', filename: 'memorynest-journal-2023-05-01.zip' });
+  });
+});
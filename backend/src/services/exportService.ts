@@ -0,0 +1,498 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import archiver from 'archiver';
+import {
+  getAttachmentRepository,
+  getJobRepository,
+  getMemoryRepository,
+  getNudgeRepository,
+  getPersonRepository,
+  getUserRepository,
+} from '../repositories';
+import { Attachment, Job, JobStatus, Memory, Nudge, Person } from '../types';
+import { logger } from '../utils/logger';
+import { enqueueJob, registerJobHandler } from './jobQueue';
+import { getMediaStore } from './mediaStore';
+
+export type ExportFormat = 'json' | 'csv' | 'markdown' | 'zip';
+export type ExportEntity = 'memories' | 'people' | 'attachments' | 'nudges';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv', 'markdown', 'zip'];
+export const EXPORT_ENTITIES: ExportEntity[] = ['memories', 'people', 'attachments', 'nudges'];
+
+// Bump when the JSON layout changes in a way that importers need to know about.
+// 2: nudges added.
+export const EXPORT_SCHEMA_VERSION = 2;
+
+export const EXPORT_JOB = 'export_user_data';
+const EXPORT_CLEANUP_JOB = 'delete_user_export';
+
+// Accounts with more memories than this are exported in the background
+const EXPORT_ASYNC_THRESHOLD = parseInt(process.env.EXPORT_ASYNC_THRESHOLD || '1000');
+// How long a finished background export can be downloaded
+const EXPORT_RETENTION_HOURS = parseInt(process.env.EXPORT_RETENTION_HOURS || '72');
+
+const PAGE_SIZE = 200;
+
+export interface ExportRequest {
+  userId: string;
+  format: ExportFormat;
+  // CSV only: a single entity's file instead of an archive of all of them
+  entity?: ExportEntity;
+}
+
+export interface ExportStatus {
+  id: string;
+  format: ExportFormat;
+  entity?: ExportEntity;
+  status: JobStatus;
+  error?: string;
+  downloadUrl?: string;
+  createdAt: Date;
+}
+
+interface ExportedAttachment extends Omit<Attachment, 'userId' | 'storageKey' | 'renditions'> {
+  // Where the file sits in a zip export
+  path: string;
+}
+
+interface ExportedMemory extends Omit<Memory, 'userId'> {
+  attachments: ExportedAttachment[];
+}
+
+const mediaPath = (attachment: Attachment): string => `media/${attachment.id}/${attachment.filename}`;
+
+const toExportedAttachment = (attachment: Attachment): ExportedAttachment => {
+  const { userId: _userId, storageKey: _storageKey, renditions: _renditions, ...rest } = attachment;
+  return { ...rest, path: mediaPath(attachment) };
+};
+
+// Every memory with its attachments, newest first, loaded a page at a time
+async function* exportedMemories(userId: string): AsyncGenerator<{ memory: Memory; attachments: Attachment[] }> {
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { memories } = await getMemoryRepository().list(userId, { limit: PAGE_SIZE, offset });
+
+    for (const memory of memories) {
+      yield { memory, attachments: await getAttachmentRepository().listByMemory(userId, memory.id) };
+    }
+
+    if (memories.length < PAGE_SIZE) {
+      return;
+    }
+  }
+}
+
+const exportedPeople = async (userId: string): Promise<Omit<Person, 'userId'>[]> =>
+  (await getPersonRepository().list(userId)).map(({ userId: _userId, ...person }) => person);
+
+const exportedNudges = async (userId: string): Promise<Omit<Nudge, 'userId'>[]> =>
+  (await getNudgeRepository().list(userId)).map(({ userId: _userId, ...nudge }) => nudge);
+
+// JSON
+
+async function* jsonExport(userId: string): AsyncGenerator<string> {
+  const user = await getUserRepository().findById(userId);
+  const header = {
+    schema: 'memorynest-export',
+    version: EXPORT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    user: user ? { id: user.id, email: user.email, name: user.name, createdAt: user.createdAt } : { id: userId },
+    people: await exportedPeople(userId),
+    nudges: await exportedNudges(userId),
+  };
+
+  // Memories are written one by one so large journals never sit in memory whole
+  yield `${JSON.stringify(header).slice(0, -1)},"memories":[`;
+
+  let first = true;
+  for await (const { memory, attachments } of exportedMemories(userId)) {
+    const { userId: _userId, ...rest } = memory;
+    const exported: ExportedMemory = { ...rest, attachments: attachments.map(toExportedAttachment) };
+    yield `${first ? '' : ','}\n${JSON.stringify(exported)}`;
+    first = false;
+  }
+
+  yield '\n]}\n';
+}
+
+// CSV
+
+type CsvColumn<T> = [header: string, value: (row: T) => unknown];
+
+const MEMORY_COLUMNS: CsvColumn<{ memory: Memory; attachments: Attachment[] }>[] = [
+  ['id', ({ memory }) => memory.id],
+  ['createdAt', ({ memory }) => memory.createdAt],
+  ['updatedAt', ({ memory }) => memory.updatedAt],
+  ['title', ({ memory }) => memory.title],
+  ['content', ({ memory }) => memory.content],
+  ['summary', ({ memory }) => memory.summary],
+  ['people', ({ memory }) => memory.people],
+  ['tags', ({ memory }) => memory.tags],
+  ['mood', ({ memory }) => memory.mood],
+  ['emotion', ({ memory }) => memory.emotions?.primary],
+  ['valence', ({ memory }) => memory.emotions?.valence],
+  ['intensity', ({ memory }) => memory.emotions?.intensity],
+  ['location', ({ memory }) => memory.location],
+  ['weather', ({ memory }) => memory.weather],
+  ['isPrivate', ({ memory }) => memory.isPrivate],
+  ['attachments', ({ attachments }) => attachments.length],
+];
+
+const PERSON_COLUMNS: CsvColumn<Omit<Person, 'userId'>>[] = [
+  ['id', person => person.id],
+  ['name', person => person.name],
+  ['aliases', person => person.aliases],
+  ['relationship', person => person.relationship],
+  ['notes', person => person.notes],
+  ['avatar', person => person.avatar],
+  ['createdAt', person => person.createdAt],
+  ['updatedAt', person => person.updatedAt],
+];
+
+const NUDGE_COLUMNS: CsvColumn<Omit<Nudge, 'userId'>>[] = [
+  ['id', nudge => nudge.id],
+  ['type', nudge => nudge.type],
+  ['title', nudge => nudge.title],
+  ['message', nudge => nudge.message],
+  ['priority', nudge => nudge.priority],
+  ['relatedPeople', nudge => nudge.relatedPeople],
+  ['relatedMemories', nudge => nudge.relatedMemories],
+  ['isRead', nudge => nudge.isRead],
+  ['isActioned', nudge => nudge.isActioned],
+  ['snoozedUntil', nudge => nudge.snoozedUntil],
+  ['dismissedAt', nudge => nudge.dismissedAt],
+  ['expiresAt', nudge => nudge.expiresAt],
+  ['createdAt', nudge => nudge.createdAt],
+];
+
+const ATTACHMENT_COLUMNS: CsvColumn<Attachment>[] = [
+  ['id', attachment => attachment.id],
+  ['memoryId', attachment => attachment.memoryId],
+  ['kind', attachment => attachment.kind],
+  ['filename', attachment => attachment.filename],
+  ['contentType', attachment => attachment.contentType],
+  ['size', attachment => attachment.size],
+  ['width', attachment => attachment.width],
+  ['height', attachment => attachment.height],
+  ['capturedAt', attachment => attachment.capturedAt],
+  ['latitude', attachment => attachment.latitude],
+  ['longitude', attachment => attachment.longitude],
+  ['caption', attachment => attachment.caption],
+  ['tags', attachment => attachment.tags],
+  ['path', attachment => mediaPath(attachment)],
+  ['createdAt', attachment => attachment.createdAt],
+];
+
+// RFC 4180 quoting. Text starting with a formula character is prefixed with a
+// quote so spreadsheets show it instead of evaluating it.
+const csvCell = (value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (Array.isArray(value)) {
+    text = value.join('; ');
+  } else if (typeof value === 'string') {
+    text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  } else {
+    text = String(value);
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvLine = (cells: unknown[]): string => `${cells.map(csvCell).join(',')}\r\n`;
+
+async function* csvExport(userId: string, entity: ExportEntity): AsyncGenerator<string> {
+  switch (entity) {
+    case 'memories':
+      yield csvLine(MEMORY_COLUMNS.map(([header]) => header));
+      for await (const row of exportedMemories(userId)) {
+        yield csvLine(MEMORY_COLUMNS.map(([, value]) => value(row)));
+      }
+      return;
+    case 'people':
+      yield csvLine(PERSON_COLUMNS.map(([header]) => header));
+      for (const person of await exportedPeople(userId)) {
+        yield csvLine(PERSON_COLUMNS.map(([, value]) => value(person)));
+      }
+      return;
+    case 'nudges':
+      yield csvLine(NUDGE_COLUMNS.map(([header]) => header));
+      for (const nudge of await exportedNudges(userId)) {
+        yield csvLine(NUDGE_COLUMNS.map(([, value]) => value(nudge)));
+      }
+      return;
+    case 'attachments':
+      yield csvLine(ATTACHMENT_COLUMNS.map(([header]) => header));
+      for await (const { attachments } of exportedMemories(userId)) {
+        for (const attachment of attachments) {
+          yield csvLine(ATTACHMENT_COLUMNS.map(([, value]) => value(attachment)));
+        }
+      }
+      return;
+  }
+}
+
+// Markdown journal
+
+const dayKey = (date: Date): string => new Date(date).toISOString().slice(0, 10);
+
+const formatDay = (date: Date): string =>
+  new Date(date).toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+// Links only work when the media is bundled alongside the journal
+const journalEntry = (memory: Memory, attachments: Attachment[], linkMedia: boolean): string => {
+  const details = [
+    `${new Date(memory.createdAt).toISOString().slice(11, 16)} UTC`,
+    memory.location,
+    `Mood ${memory.mood}/10`,
+    memory.emotions?.primary,
+  ].filter(Boolean);
+
+  const lines = [`## ${memory.title}`, '', `*${details.join(' · ')}*`, '', memory.content.trim(), ''];
+
+  const people = memory.people || [];
+  const tags = memory.tags || [];
+
+  if (people.length > 0) {
+    lines.push(`**People:** ${people.join(', ')}  `);
+  }
+  if (tags.length > 0) {
+    lines.push(`**Tags:** ${tags.map(tag => `#${tag.replace(/\s+/g, '-')}`).join(' ')}`);
+  }
+
+  if (attachments.length > 0) {
+    lines.push('', '**Attachments:**');
+    attachments.forEach(attachment => {
+      const target = encodeURI(`../../${mediaPath(attachment)}`);
+      if (!linkMedia) {
+        lines.push(`- ${attachment.filename}`);
+      } else if (attachment.kind === 'image') {
+        lines.push(`- ![${(attachment.caption || attachment.filename).replace(/[[\]]/g, '')}](${target})`);
+      } else {
+        lines.push(`- [${attachment.filename}](${target})`);
+      }
+    });
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+};
+
+// One Markdown file per day (journal/YYYY/YYYY-MM-DD.md), entries oldest first.
+// Memories arrive newest first, so each day's entries are consecutive.
+async function* journalDays(userId: string, linkMedia: boolean): AsyncGenerator<{ name: string; markdown: string }> {
+  let day: string | undefined;
+  let entries: string[] = [];
+  let heading = '';
+
+  const file = () => ({
+    name: `journal/${day!.slice(0, 4)}/${day}.md`,
+    markdown: `# ${heading}\n\n${entries.reverse().join('\n')}`,
+  });
+
+  for await (const { memory, attachments } of exportedMemories(userId)) {
+    const key = dayKey(memory.createdAt);
+    if (day && key !== day) {
+      yield file();
+      entries = [];
+    }
+    day = key;
+    heading = formatDay(memory.createdAt);
+    entries.push(journalEntry(memory, attachments, linkMedia));
+  }
+
+  if (day) {
+    yield file();
+  }
+}
+
+// ZIP
+
+const writeArchive = async (request: ExportRequest, out: Writable): Promise<void> => {
+  const archive = archiver('zip', { zlib: { level: 6 } });
+
+  // Settles when the archive is fully written, or as soon as anything breaks,
+  // including the client going away mid-download
+  const done = new Promise<void>((resolve, reject) => {
+    out.once('finish', resolve);
+    out.once('error', reject);
+    out.once('close', () => reject(new Error('Export output closed before the archive was written')));
+    archive.once('error', reject);
+  });
+  done.catch(() => undefined);
+
+  // Entries are added one at a time, each once the previous one has been
+  // written, so a large export is never queued up in memory
+  const add = async (source: Readable | string, name: string, store = false): Promise<void> => {
+    let onEntry: ((entry: archiver.EntryData) => void) | undefined;
+    const written = new Promise<void>(resolve => {
+      onEntry = entry => entry.name === name && resolve();
+      archive.on('entry', onEntry);
+    });
+
+    archive.append(source, { name, store });
+    try {
+      await Promise.race([written, done]);
+    } finally {
+      archive.off('entry', onEntry!);
+    }
+  };
+
+  archive.pipe(out);
+
+  try {
+    const { userId, format } = request;
+    const complete = format === 'zip';
+
+    if (complete) {
+      await add(Readable.from(jsonExport(userId)), 'export.json');
+    }
+
+    if (format === 'csv' || complete) {
+      for (const entity of EXPORT_ENTITIES) {
+        await add(Readable.from(csvExport(userId, entity)), `${complete ? 'csv/' : ''}${entity}.csv`);
+      }
+    }
+
+    if (format === 'markdown' || complete) {
+      for await (const { name, markdown } of journalDays(userId, complete)) {
+        await add(markdown, name);
+      }
+    }
+
+    if (complete) {
+      for await (const { attachments } of exportedMemories(userId)) {
+        for (const attachment of attachments) {
+          let media: Readable;
+          try {
+            media = await getMediaStore().read(attachment.storageKey);
+          } catch (error) {
+            logger.warn(`Skipping missing attachment ${attachment.id} in export for user ${userId}:`, error);
+            continue;
+          }
+          // Media is already compressed, so it is stored as is
+          await add(media, mediaPath(attachment), true);
+        }
+      }
+    }
+
+    await archive.finalize();
+    await done;
+  } catch (error) {
+    archive.abort();
+    throw error;
+  }
+};
+
+// Write a user's data in the requested format
+export const writeExport = async (request: ExportRequest, out: Writable): Promise<void> => {
+  if (request.format === 'json') {
+    await pipeline(Readable.from(jsonExport(request.userId)), out);
+  } else if (request.format === 'csv' && request.entity) {
+    await pipeline(Readable.from(csvExport(request.userId, request.entity)), out);
+  } else {
+    await writeArchive(request, out);
+  }
+};
+
+// Content type and download name for an export
+export const describeExport = (request: Omit<ExportRequest, 'userId'>, date: Date = new Date()): { contentType: string; filename: string } => {
+  const stamp = dayKey(date);
+
+  if (request.format === 'json') {
+    return { contentType: 'application/json', filename: `memorynest-export-${stamp}.json` };
+  }
+  if (request.format === 'csv' && request.entity) {
+    return { contentType: 'text/csv; charset=utf-8', filename: `memorynest-${request.entity}-${stamp}.csv` };
+  }
+
+  const name = request.format === 'zip' ? 'export' : request.format === 'csv' ? 'csv' : 'journal';
+  return { contentType: 'application/zip', filename: `memorynest-${name}-${stamp}.zip` };
+};
+
+export const shouldExportInBackground = async (userId: string): Promise<boolean> =>
+  (await getMemoryRepository().list(userId, { limit: 1 })).total > EXPORT_ASYNC_THRESHOLD;
+
+// Background exports
+
+const exportKey = (userId: string, exportId: string): string => `${userId}/exports/${exportId}`;
+
+const toExportStatus = (job: Job<ExportRequest>): ExportStatus => ({
+  id: job.id,
+  format: job.payload.format,
+  ...(job.payload.entity && { entity: job.payload.entity }),
+  status: job.status,
+  ...(job.status === 'failed' && job.lastError && { error: job.lastError }),
+  ...(job.status === 'done' && { downloadUrl: `/api/memories/export/${job.id}/download` }),
+  createdAt: job.createdAt,
+});
+
+export const queueExport = async (request: ExportRequest): Promise<ExportStatus> =>
+  toExportStatus(await enqueueJob<ExportRequest>(EXPORT_JOB, { ...request }, { maxAttempts: 3 }));
+
+// Null unless the export exists and belongs to the user
+export const getExportStatus = async (userId: string, exportId: string): Promise<ExportStatus | null> => {
+  const job = await getJobRepository().findById(exportId) as Job<ExportRequest> | null;
+  return job && job.type === EXPORT_JOB && job.payload.userId === userId ? toExportStatus(job) : null;
+};
+
+// The finished file of a background export. Throws if it has expired.
+export const readExportFile = async (userId: string, exportId: string): Promise<Readable> =>
+  getMediaStore().read(exportKey(userId, exportId));
+
+// Build the export in a temporary file, then hand it to the media store with its size
+const runExport = async (request: ExportRequest, job: Job<ExportRequest>): Promise<void> => {
+  const file = path.join(os.tmpdir(), `memorynest-export-${job.id}`);
+
+  try {
+    await writeExport(request, fs.createWriteStream(file));
+    const { size } = await fsp.stat(file);
+    const { contentType } = describeExport(request);
+    await getMediaStore().put(exportKey(request.userId, job.id), fs.createReadStream(file), contentType, size);
+  } finally {
+    await fsp.rm(file, { force: true });
+  }
+
+  await enqueueJob(EXPORT_CLEANUP_JOB, { userId: request.userId, exportId: job.id }, {
+    runAt: new Date(Date.now() + EXPORT_RETENTION_HOURS * 60 * 60 * 1000),
+  });
+
+  logger.info(`Exported ${request.format} data for user ${request.userId}`);
+};
+
+export const registerExportJobs = (): void => {
+  registerJobHandler<ExportRequest>(EXPORT_JOB, { run: runExport });
+
+  registerJobHandler<{ userId: string; exportId: string }>(EXPORT_CLEANUP_JOB, {
+    async run({ userId, exportId }) {
+      await getMediaStore().delete(exportKey(userId, exportId));
+    },
+  });
+};
+
+export default {
+  EXPORT_FORMATS,
+  EXPORT_ENTITIES,
+  EXPORT_SCHEMA_VERSION,
+  writeExport,
+  describeExport,
+  shouldExportInBackground,
+  queueExport,
+  getExportStatus,
+  readExportFile,
+  registerExportJobs,
+};
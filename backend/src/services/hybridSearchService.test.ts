@@ -0,0 +1,113 @@
+import { initializeRepositories } from '../repositories';
+import { createTestMemory, createTestUser } from '../test/fixtures';
+import * as aiService from './aiService';
+import { buildHighlights, hybridSearch } from './hybridSearchService';
+import * as vectorStore from './vectorStore';
+
+describe('hybridSearch', () => {
+  beforeEach(async () => {
+    await initializeRepositories();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('falls back to keyword search when the vector store is not running', async () => {
+    const user = await createTestUser();
+    const hike = await createTestMemory(user.id, { title: 'Hike', content: 'Hiked the ridge trail with Sarah' });
+    await createTestMemory(user.id, { title: 'Lunch', content: 'Soup at the corner cafe' });
+
+    const response = await hybridSearch({ userId: user.id, query: 'ridge trail' });
+
+    expect(response.semanticAvailable).toBe(false);
+    expect(response.results.map(result => [result.memory.id, result.matchedBy])).toEqual([[hike.id, ['keyword']]]);
+    expect(response.results[0]?.score).toBeCloseTo(1 / 61);
+  });
+
+  it('fuses keyword and semantic rankings with reciprocal rank fusion', async () => {
+    const user = await createTestUser();
+    const both = await createTestMemory(user.id, { title: 'Beach', content: 'Sunset walk on the beach' });
+    const keywordOnly = await createTestMemory(user.id, { title: 'Notes', content: 'Bought a beach towel' });
+    const semanticOnly = await createTestMemory(user.id, { title: 'Coast', content: 'Waves and sand by the sea' });
+
+    const embed = jest.spyOn(aiService, 'generateEmbedding');
+    jest.spyOn(vectorStore, 'isVectorStoreReady').mockReturnValue(true);
+    const similar = jest.spyOn(vectorStore, 'searchMemoriesBySimilarity').mockResolvedValue([
+      { memoryId: semanticOnly.id, similarity: 0.91 },
+      { memoryId: both.id, similarity: 0.84 },
+      // An embedding whose memory has since been deleted
+      { memoryId: 'deleted-memory', similarity: 0.8 },
+    ] as Awaited<ReturnType<typeof vectorStore.searchMemoriesBySimilarity>>);
+
+    const response = await hybridSearch({ userId: user.id, query: 'sunset beach', limit: 5 });
+
+    expect(embed).toHaveBeenCalledWith('sunset beach');
+    expect(similar).toHaveBeenCalledWith(expect.any(Array), user.id, 15, undefined, undefined);
+    expect(response.semanticAvailable).toBe(true);
+    expect(response.results.map(result => ({ id: result.memory.id, matchedBy: result.matchedBy, similarity: result.similarity }))).toEqual([
+      { id: both.id, matchedBy: ['keyword', 'semantic'], similarity: 0.84 },
+      { id: semanticOnly.id, matchedBy: ['semantic'], similarity: 0.91 },
+      { id: keywordOnly.id, matchedBy: ['keyword'], similarity: undefined },
+    ]);
+    expect(response.results[0]?.score).toBeCloseTo(1 / 61 + 1 / 62);
+    expect(response.results[1]?.score).toBeCloseTo(1 / 61);
+    expect(response.results[2]?.score).toBeCloseTo(1 / 62);
+  });
+
+  it('returns keyword results when semantic search fails', async () => {
+    const user = await createTestUser();
+    await createTestMemory(user.id, { content: 'Picnic in the park' });
+    jest.spyOn(vectorStore, 'isVectorStoreReady').mockReturnValue(true);
+    jest.spyOn(vectorStore, 'searchMemoriesBySimilarity').mockRejectedValue(new Error('Chroma is down'));
+
+    const response = await hybridSearch({ userId: user.id, query: 'picnic' });
+
+    expect(response.semanticAvailable).toBe(false);
+    expect(response.results).toHaveLength(1);
+  });
+
+  it('applies tag and date filters to keyword hits', async () => {
+    const user = await createTestUser();
+    const tagged = await createTestMemory(user.id, { content: 'Morning run', tags: ['Fitness'], createdAt: new Date('2023-05-01T07:00:00Z') });
+    await createTestMemory(user.id, { content: 'Evening run', tags: ['fitness'], createdAt: new Date('2023-06-01T19:00:00Z') });
+    await createTestMemory(user.id, { content: 'Run to the shops', createdAt: new Date('2023-05-02T10:00:00Z') });
+
+    const response = await hybridSearch({
+      userId: user.id,
+      query: 'run',
+      filters: { tags: ['fitness'], dateRange: { start: new Date('2023-05-01T00:00:00Z'), end: new Date('2023-05-31T23:59:59Z') } },
+    });
+
+    expect(response.results.map(result => result.memory.id)).toEqual([tagged.id]);
+  });
+});
+
+describe('buildHighlights', () => {
+  it('marks the phrase and word prefixes in the title and a content snippet', async () => {
+    await initializeRepositories();
+    const user = await createTestUser();
+    const memory = await createTestMemory(user.id, {
+      title: 'Hikes with Sarah',
+      content: `${'Filler words before the good part. '.repeat(4)}We hiked up the hill and the hike was long.`,
+      summary: 'A day outdoors',
+    });
+
+    const [title, content, ...rest] = buildHighlights(memory, 'the hike');
+
+    expect(rest).toEqual([]);
+    expect(title).toEqual({ field: 'title', text: 'Hikes with Sarah', matches: [{ start: 0, end: 5 }] });
+    expect(content?.field).toBe('content');
+    expect(content?.text.startsWith('...')).toBe(true);
+    const marked = content!.matches.map(({ start, end }) => content!.text.slice(start, end));
+    expect(marked).toEqual(['hiked', 'the hike']);
+  });
+
+  it('highlights nothing for a query of stop words', async () => {
+    await initializeRepositories();
+    const user = await createTestUser();
+    const memory = await createTestMemory(user.id, { title: 'The end', content: 'and then it was over' });
+
+    expect(buildHighlights(memory, 'the')).toEqual([]);
+  });
+});
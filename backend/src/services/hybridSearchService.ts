@@ -0,0 +1,203 @@
+import { logger } from '../utils/logger';
+import { isStopWord, tokenize } from '../utils/textAnalysis';
+import { getMemoryRepository } from '../repositories';
+import {
+  HybridSearchResponse,
+  HybridSearchResult,
+  Memory,
+  SearchHighlight,
+  SearchRetriever,
+} from '../types';
+import { generateEmbedding } from './aiService';
+import { MemorySearchFilters, isVectorStoreReady, searchMemoriesBySimilarity } from './vectorStore';
+
+export interface HybridSearchRequest {
+  userId: string;
+  query: string;
+  limit?: number;
+  filters?: MemorySearchFilters;
+}
+
+// Reciprocal rank fusion constant; larger values flatten the gap between ranks
+const RRF_K = 60;
+// Each retriever returns more candidates than requested so fusion has room to reorder
+const CANDIDATE_MULTIPLIER = 3;
+const SNIPPET_RADIUS = 80;
+
+interface RankedHit {
+  memoryId: string;
+  similarity?: number;
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const normalize = (value: string): string => value.trim().toLowerCase();
+
+// The keyword index can't filter by tags, people or emotions, so apply them here
+// with the same any-of semantics as the vector store's where clauses
+const matchesFilters = (memory: Memory, filters: MemorySearchFilters = {}): boolean => {
+  const anyOf = (values: string[] | undefined, wanted: string[] | undefined): boolean => {
+    if (!wanted || wanted.length === 0) {
+      return true;
+    }
+    const have = new Set((values || []).map(normalize));
+    return wanted.some(value => have.has(normalize(value)));
+  };
+
+  const emotions = memory.emotions ? [memory.emotions.primary, ...(memory.emotions.secondary || [])] : [];
+  const createdAt = new Date(memory.createdAt).getTime();
+
+  return anyOf(memory.tags, filters.tags) &&
+    anyOf(memory.people, filters.people) &&
+    anyOf(emotions, filters.emotions) &&
+    (!filters.dateRange ||
+      (createdAt >= filters.dateRange.start.getTime() && createdAt <= filters.dateRange.end.getTime()));
+};
+
+// Matches the whole phrase or any non-stop-word of the query, including words
+// that start with it ("hike" also marks "hikes")
+const buildHighlightPattern = (query: string): RegExp | null => {
+  const terms = Array.from(new Set(tokenize(query).filter(term => term.length > 1 && !isStopWord(term))));
+  const phrase = query.trim();
+  const alternatives = [
+    ...(phrase.includes(' ') ? [escapeRegExp(phrase)] : []),
+    ...terms.map(term => `${escapeRegExp(term)}\\w*`),
+  ];
+
+  return alternatives.length > 0 ? new RegExp(`\\b(?:${alternatives.join('|')})`, 'gi') : null;
+};
+
+const highlightField = (
+  field: SearchHighlight['field'],
+  value: string,
+  pattern: RegExp,
+  snippet: boolean
+): SearchHighlight | null => {
+  const matches = Array.from(value.matchAll(pattern)).map(match => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+
+  const first = matches[0];
+  if (!first) {
+    return null;
+  }
+
+  if (!snippet) {
+    return { field, text: value, matches };
+  }
+
+  // Window the text around the first match and shift offsets to suit
+  const start = Math.max(0, first.start - SNIPPET_RADIUS);
+  const end = Math.min(value.length, first.end + SNIPPET_RADIUS);
+  const prefix = start > 0 ? '...' : '';
+  const suffix = end < value.length ? '...' : '';
+  const offset = prefix.length - start;
+
+  return {
+    field,
+    text: `${prefix}${value.slice(start, end)}${suffix}`,
+    matches: matches
+      .filter(match => match.start >= start && match.end <= end)
+      .map(match => ({ start: match.start + offset, end: match.end + offset })),
+  };
+};
+
+export const buildHighlights = (memory: Memory, query: string): SearchHighlight[] => {
+  const pattern = buildHighlightPattern(query);
+  if (!pattern) {
+    return [];
+  }
+
+  return [
+    highlightField('title', memory.title, pattern, false),
+    highlightField('content', memory.content, pattern, true),
+    highlightField('summary', memory.summary || '', pattern, true),
+  ].filter((highlight): highlight is SearchHighlight => highlight !== null);
+};
+
+const keywordSearch = async (request: HybridSearchRequest, candidates: number): Promise<Memory[]> => {
+  const matches = await getMemoryRepository().searchText(request.userId, request.query, candidates);
+  return matches
+    .map(match => match.memory)
+    .filter(memory => matchesFilters(memory, request.filters));
+};
+
+// Returns null when semantic search can't run, so callers can say so
+const semanticSearch = async (request: HybridSearchRequest, candidates: number): Promise<RankedHit[] | null> => {
+  if (!isVectorStoreReady()) {
+    return null;
+  }
+
+  try {
+    const embedding = await generateEmbedding(request.query);
+    return await searchMemoriesBySimilarity(embedding, request.userId, candidates, undefined, request.filters);
+  } catch (error) {
+    logger.warn('Semantic search failed; returning keyword results only:', error);
+    return null;
+  }
+};
+
+// Run keyword and vector search side by side and fuse their rankings with
+// reciprocal rank fusion: score = sum over retrievers of 1 / (RRF_K + rank)
+export const hybridSearch = async (request: HybridSearchRequest): Promise<HybridSearchResponse> => {
+  const limit = request.limit || 10;
+  const candidates = limit * CANDIDATE_MULTIPLIER;
+
+  const [keywordHits, semanticHits] = await Promise.all([
+    keywordSearch(request, candidates),
+    semanticSearch(request, candidates),
+  ]);
+
+  const fused = new Map<string, { score: number; matchedBy: SearchRetriever[]; similarity?: number }>();
+  const addRanking = (retriever: SearchRetriever, hits: RankedHit[]) => {
+    hits.forEach((hit, index) => {
+      const entry = fused.get(hit.memoryId) || { score: 0, matchedBy: [] };
+      entry.score += 1 / (RRF_K + index + 1);
+      entry.matchedBy.push(retriever);
+      if (hit.similarity !== undefined) {
+        entry.similarity = hit.similarity;
+      }
+      fused.set(hit.memoryId, entry);
+    });
+  };
+
+  addRanking('keyword', keywordHits.map(memory => ({ memoryId: memory.id })));
+  addRanking('semantic', semanticHits || []);
+
+  const ranked = Array.from(fused.entries())
+    .sort((a, b) => b[1].score - a[1].score)
+    .slice(0, limit);
+
+  // Keyword hits already carry the full memory; load the rest (this also drops
+  // embeddings whose memory has since been deleted)
+  const loaded = new Map(keywordHits.map(memory => [memory.id, memory]));
+  const missing = ranked.map(([id]) => id).filter(id => !loaded.has(id));
+  (await getMemoryRepository().findByIds(request.userId, missing)).forEach(memory => loaded.set(memory.id, memory));
+
+  const results = ranked.flatMap(([id, entry]): HybridSearchResult[] => {
+    const memory = loaded.get(id);
+    if (!memory) {
+      return [];
+    }
+
+    return [{
+      memory,
+      score: entry.score,
+      matchedBy: entry.matchedBy,
+      ...(entry.similarity !== undefined && { similarity: entry.similarity }),
+      highlights: buildHighlights(memory, request.query),
+    }];
+  });
+
+  return {
+    query: request.query,
+    results,
+    semanticAvailable: semanticHits !== null,
+  };
+};
+
+export default {
+  hybridSearch,
+  buildHighlights,
+};
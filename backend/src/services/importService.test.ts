@@ -0,0 +1,86 @@
+import fsp from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { getMemoryRepository, getPersonRepository, initializeRepositories } from '../repositories';
+import { createTestMemory, createTestPerson, createTestUser } from '../test/fixtures';
+import { ImportUpload, importMemories } from './importService';
+import * as enrichment from './memoryEnrichmentService';
+
+describe('importMemories', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    await initializeRepositories();
+    directory = await fsp.mkdtemp(path.join(os.tmpdir(), 'memorynest-import-'));
+    jest.spyOn(enrichment, 'queueMemoryEnrichment').mockResolvedValue();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fsp.rm(directory, { recursive: true, force: true });
+  });
+
+  // Saved to disk under a random name, as multer does
+  const upload = async (originalName: string, text: string): Promise<ImportUpload> => {
+    const filePath = path.join(directory, `${Math.random().toString(36).slice(2)}`);
+    await fsp.writeFile(filePath, text);
+    return { path: filePath, originalName };
+  };
+
+  const csv = [
+    'Date,Content,People',
+    '2023-05-01,Coffee with Sarah,Sarah Chen',
+    '2023-05-02,Long  walk by the RIVER,',
+    '2023-05-02,long walk by the river,',
+    '2023-05-03,Dinner with Priya,Priya',
+  ].join('\n');
+
+  it('skips entries already in the journal or repeated in the import', async () => {
+    const user = await createTestUser();
+    await createTestMemory(user.id, { content: 'Coffee with Sarah', createdAt: new Date('2023-05-01T08:00:00Z') });
+
+    const result = await importMemories({ userId: user.id, uploads: [await upload('journal.csv', csv)], dryRun: false, options: {} });
+
+    expect(result).toMatchObject({ format: 'csv', dryRun: false, imported: 2, duplicates: 2, errors: [] });
+    const { memories } = await getMemoryRepository().list(user.id, { limit: 10, offset: 0 });
+    expect(memories.map(memory => memory.content).sort()).toEqual(['Coffee with Sarah', 'Dinner with Priya', 'Long  walk by the RIVER']);
+    expect(enrichment.queueMemoryEnrichment).toHaveBeenCalledTimes(2);
+  });
+
+  it('files names under the user\'s people and creates the rest', async () => {
+    const user = await createTestUser();
+    await createTestPerson(user.id, 'Sarah Chen');
+
+    const result = await importMemories({ userId: user.id, uploads: [await upload('journal.csv', csv)], dryRun: false, options: {} });
+
+    expect(result.newPeople).toEqual(['Priya']);
+    const people = await getPersonRepository().list(user.id);
+    expect(people.map(person => person.name).sort()).toEqual(['Priya', 'Sarah Chen']);
+  });
+
+  it('previews a dry run without saving memories or people', async () => {
+    const user = await createTestUser();
+    await createTestMemory(user.id, { content: 'Coffee with Sarah', createdAt: new Date('2023-05-01T08:00:00Z') });
+
+    const result = await importMemories({ userId: user.id, uploads: [await upload('journal.csv', csv)], dryRun: true, options: {} });
+
+    expect(result).toMatchObject({ dryRun: true, imported: 2, duplicates: 2, newPeople: ['Priya'] });
+    expect(result.preview?.map(item => [item.source, item.duplicate])).toEqual([
+      ['journal.csv row 2', true],
+      ['journal.csv row 3', false],
+      ['journal.csv row 4', true],
+      ['journal.csv row 5', false],
+    ]);
+    const { memories } = await getMemoryRepository().list(user.id, { limit: 10, offset: 0 });
+    expect(memories).toHaveLength(1);
+    expect(await getPersonRepository().list(user.id)).toEqual([]);
+    expect(enrichment.queueMemoryEnrichment).not.toHaveBeenCalled();
+  });
+
+  it('rejects uploads with nothing it can read', async () => {
+    const user = await createTestUser();
+
+    await expect(importMemories({ userId: user.id, uploads: [await upload('photo.jpg', 'jpeg')], dryRun: false, options: {} }))
+      .rejects.toMatchObject({ statusCode: 400 });
+  });
+});
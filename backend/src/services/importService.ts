@@ -0,0 +1,291 @@
+import fsp from 'fs/promises';
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { CustomError } from '../middleware/errorHandler';
+import { getMemoryRepository, getPersonRepository } from '../repositories';
+import {
+  IMPORTABLE_EXTENSIONS,
+  IMPORT_FORMATS,
+  ImportFile,
+  ImportFormat,
+  ImportOptions,
+  ImportRow,
+  ImportedEntry,
+  detectImporter,
+  fileExtension,
+  getImporter,
+} from '../importers';
+import { Memory } from '../types';
+import { logger } from '../utils/logger';
+import { defaultTitle } from '../utils/textAnalysis';
+import { isZipFile, readZip } from '../utils/zip';
+import { createPlaceholderEnrichment, queueMemoryEnrichment } from './memoryEnrichmentService';
+import { normalizePersonName, resolvePersonNames } from './personResolutionService';
+
+// Largest upload accepted, zip archives included; photos inside an archive are skipped
+export const IMPORT_MAX_UPLOAD_BYTES = parseInt(process.env.IMPORT_MAX_UPLOAD_BYTES || String(1024 * 1024 * 1024));
+export const MAX_IMPORT_FILES = 1000;
+
+// Entries per import; each one queues an enrichment job
+const IMPORT_MAX_ENTRIES = parseInt(process.env.IMPORT_MAX_ENTRIES || '5000');
+const MAX_ARCHIVE_FILES = 20000;
+const MAX_UNPACKED_BYTES = 200 * 1024 * 1024;
+const PREVIEW_LIMIT = 100;
+const PAGE_SIZE = 200;
+
+// Column sizes in the memories table
+const MAX_TITLE_LENGTH = 255;
+const MAX_LOCATION_LENGTH = 255;
+const MAX_WEATHER_LENGTH = 100;
+
+// An uploaded file, saved to disk by multer
+export interface ImportUpload {
+  path: string;
+  originalName: string;
+}
+
+export interface ImportRequest {
+  userId: string;
+  uploads: ImportUpload[];
+  // Detected from the files when omitted
+  format?: ImportFormat;
+  // Report what would be imported without saving anything
+  dryRun: boolean;
+  options: ImportOptions;
+}
+
+export interface ImportPreviewItem {
+  source: string;
+  title: string;
+  createdAt: Date;
+  people: string[];
+  tags: string[];
+  duplicate: boolean;
+}
+
+// `imported` counts the memories created, or that would be on a dry run, and
+// `errors` holds one message per entry or row that was skipped
+export interface ImportResult {
+  format: ImportFormat;
+  dryRun: boolean;
+  imported: number;
+  duplicates: number;
+  errors: string[];
+  // People created for names that matched nobody
+  newPeople: string[];
+  // Dry runs only: the first entries, as they would be saved
+  preview?: ImportPreviewItem[];
+}
+
+interface Candidate {
+  source: string;
+  entry: ImportedEntry;
+  duplicate: boolean;
+}
+
+const isImportable = (filePath: string): boolean => IMPORTABLE_EXTENSIONS.includes(fileExtension(filePath));
+
+// Read the uploads, unpacking zip archives (the usual shape of Day One and
+// Journey exports). Everything read is held in memory, so plain files and
+// archive contents share one MAX_UNPACKED_BYTES budget.
+const loadFiles = async (uploads: ImportUpload[]): Promise<ImportFile[]> => {
+  const files: ImportFile[] = [];
+  let remainingBytes = MAX_UNPACKED_BYTES;
+
+  for (const upload of uploads) {
+    if (await isZipFile(upload.path)) {
+      let unpacked: ImportFile[];
+      try {
+        unpacked = await readZip(upload.path, {
+          include: isImportable,
+          maxFiles: MAX_ARCHIVE_FILES,
+          maxBytes: remainingBytes,
+        });
+      } catch (error) {
+        throw new CustomError(`Could not read ${upload.originalName}: ${(error as Error).message}`, 400);
+      }
+      files.push(...unpacked);
+      remainingBytes -= unpacked.reduce((total, file) => total + file.data.length, 0);
+    } else if (isImportable(upload.originalName)) {
+      const { size } = await fsp.stat(upload.path);
+      if (size > remainingBytes) {
+        throw new CustomError(
+          `${upload.originalName} is too large; an import can read at most ${MAX_UNPACKED_BYTES / (1024 * 1024)} MB of entries`,
+          413
+        );
+      }
+      files.push({ path: upload.originalName, data: await fsp.readFile(upload.path) });
+      remainingBytes -= size;
+    }
+  }
+
+  return files;
+};
+
+// Two memories are the same when they were written on the same day with the
+// same text, ignoring case and spacing
+const fingerprint = (createdAt: Date, content: string): string => {
+  const text = content.toLowerCase().replace(/\s+/g, ' ').trim();
+  return `${new Date(createdAt).toISOString().slice(0, 10)}:${createHash('sha1').update(text).digest('hex')}`;
+};
+
+const existingFingerprints = async (userId: string): Promise<Set<string>> => {
+  const fingerprints = new Set<string>();
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { memories } = await getMemoryRepository().list(userId, { limit: PAGE_SIZE, offset });
+    memories.forEach(memory => fingerprints.add(fingerprint(memory.createdAt, memory.content)));
+
+    if (memories.length < PAGE_SIZE) {
+      return fingerprints;
+    }
+  }
+};
+
+// Flag entries already in the journal, or repeated within the import itself
+const findDuplicates = async (userId: string, rows: ImportRow[]): Promise<Candidate[]> => {
+  const seen = await existingFingerprints(userId);
+
+  return rows
+    .filter((row): row is ImportRow & { entry: ImportedEntry } => row.entry !== undefined)
+    .map(row => {
+      const key = fingerprint(row.entry.createdAt, row.entry.content);
+      const duplicate = seen.has(key);
+      seen.add(key);
+      return { source: row.source, entry: row.entry, duplicate };
+    });
+};
+
+// Map each name to the user's person it resolves to, so "sarah  chen" or
+// "Mike Chen" is filed under "Sarah Chen" or "Michael Chen". Names that match
+// nobody confidently become new people, unless this is a dry run; the names
+// come from the user's own journal, so they need no confirming.
+const resolvePeople = async (
+  userId: string,
+  names: string[],
+  create: boolean
+): Promise<{ resolved: Map<string, string>; newPeople: string[] }> => {
+  const people = getPersonRepository();
+  const resolved = new Map<string, string>();
+  const newPeople: string[] = [];
+
+  for (const { name, person } of await resolvePersonNames(userId, names)) {
+    resolved.set(normalizePersonName(name), person?.name || name);
+    if (person) {
+      continue;
+    }
+
+    newPeople.push(name);
+
+    if (create) {
+      try {
+        await people.create({ id: uuidv4(), userId, name, createdAt: new Date(), updatedAt: new Date() });
+      } catch (error) {
+        // The memory still lists the name, so nothing is lost
+        logger.warn(`Could not create person "${name}" during import:`, error);
+      }
+    }
+  }
+
+  return { resolved, newPeople };
+};
+
+const entryTitle = (entry: ImportedEntry): string =>
+  (entry.title?.trim() || defaultTitle(entry.content)).slice(0, MAX_TITLE_LENGTH);
+
+const toMemory = (userId: string, entry: ImportedEntry, people: string[]): Memory => {
+  const placeholder = createPlaceholderEnrichment(entry.content, entry.tags);
+
+  return {
+    id: uuidv4(),
+    userId,
+    title: entryTitle(entry),
+    content: entry.content,
+    summary: placeholder.summary,
+    people,
+    tags: placeholder.tags,
+    mood: placeholder.mood,
+    isPrivate: entry.isPrivate ?? false,
+    enrichmentStatus: 'pending',
+    ...(entry.location && { location: entry.location.slice(0, MAX_LOCATION_LENGTH) }),
+    ...(entry.weather && { weather: entry.weather.slice(0, MAX_WEATHER_LENGTH) }),
+    createdAt: entry.createdAt,
+    updatedAt: new Date(),
+  };
+};
+
+// Import journal entries exported from another app. Entries that fail to
+// parse or save are reported per row and never stop the rest of the import.
+export const importMemories = async (request: ImportRequest): Promise<ImportResult> => {
+  const { userId, dryRun } = request;
+  const files = await loadFiles(request.uploads);
+
+  if (files.length === 0) {
+    throw new CustomError('No importable files found; upload JSON, CSV or Markdown files, or a zip archive of them', 400);
+  }
+
+  const importer = request.format ? getImporter(request.format) : detectImporter(files);
+  if (!importer) {
+    throw new CustomError(`Could not recognise the import format; set format to one of: ${IMPORT_FORMATS.join(', ')}`, 400);
+  }
+
+  const rows = importer.parse(files, request.options);
+  const errors = rows.filter(row => row.error).map(row => `${row.source}: ${row.error}`);
+
+  if (rows.length - errors.length > IMPORT_MAX_ENTRIES) {
+    throw new CustomError(`An import can contain at most ${IMPORT_MAX_ENTRIES} entries; split the export into smaller files`, 413);
+  }
+  if (rows.length === 0) {
+    errors.push(`No ${importer.format} entries found in the uploaded files`);
+  }
+
+  const candidates = await findDuplicates(userId, rows);
+  const fresh = candidates.filter(candidate => !candidate.duplicate);
+  const { resolved, newPeople } = await resolvePeople(
+    userId,
+    [...new Set(fresh.flatMap(candidate => candidate.entry.people))],
+    !dryRun
+  );
+  const peopleOf = (entry: ImportedEntry): string[] =>
+    [...new Set(entry.people.map(name => resolved.get(normalizePersonName(name)) || name))];
+
+  let imported = 0;
+  for (const { source, entry } of dryRun ? [] : fresh) {
+    const memory = toMemory(userId, entry, peopleOf(entry));
+    try {
+      await getMemoryRepository().create(memory);
+      await queueMemoryEnrichment(memory);
+      imported++;
+    } catch (error) {
+      logger.error(`Failed to import ${source} for user ${userId}:`, error);
+      errors.push(`${source}: Failed to save the memory`);
+    }
+  }
+
+  if (!dryRun) {
+    logger.info(`Imported ${imported} ${importer.format} memories for user ${userId} (${candidates.length - fresh.length} duplicates, ${errors.length} errors)`);
+  }
+
+  return {
+    format: importer.format,
+    dryRun,
+    imported: dryRun ? fresh.length : imported,
+    duplicates: candidates.length - fresh.length,
+    errors,
+    newPeople,
+    ...(dryRun && {
+      preview: candidates.slice(0, PREVIEW_LIMIT).map(({ source, entry, duplicate }) => ({
+        source,
+        title: entryTitle(entry),
+        createdAt: entry.createdAt,
+        people: peopleOf(entry),
+        tags: entry.tags,
+        duplicate,
+      })),
+    }),
+  };
+};
+
+export default {
+  importMemories,
+};
@@ -0,0 +1,79 @@
+import { getJobRepository, initializeRepositories } from '../repositories';
+import { enqueueJob, getRetryDelay, registerJobHandler, runPendingJobs } from './jobQueue';
+
+describe('job queue', () => {
+  let now: number;
+
+  beforeEach(async () => {
+    await initializeRepositories();
+    now = Date.now();
+    jest.useFakeTimers({ now });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const advance = (ms: number): void => {
+    now += ms;
+    jest.setSystemTime(now);
+  };
+
+  it('backs off exponentially up to the cap', () => {
+    expect([1, 2, 3, 4].map(getRetryDelay)).toEqual([5000, 10000, 20000, 40000]);
+    expect(getRetryDelay(20)).toBe(300000);
+  });
+
+  it('retries a failed job after the backoff delay, then completes it', async () => {
+    const run = jest.fn()
+      .mockRejectedValueOnce(new Error('mail server down'))
+      .mockResolvedValueOnce(undefined);
+    const onError = jest.fn();
+    registerJobHandler('test_flaky', { run, onError });
+
+    const job = await enqueueJob('test_flaky', { value: 1 }, { maxAttempts: 3 });
+    await runPendingJobs();
+
+    const retrying = await getJobRepository().findById(job.id);
+    expect(retrying).toMatchObject({ status: 'pending', attempts: 1, lastError: 'mail server down' });
+    expect(retrying?.runAt.getTime()).toBe(now + getRetryDelay(1));
+    expect(onError).toHaveBeenCalledWith({ value: 1 }, expect.any(Error), true);
+
+    // Not due yet
+    expect(await runPendingJobs()).toBe(0);
+
+    advance(getRetryDelay(1));
+    expect(await runPendingJobs()).toBe(1);
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(await getJobRepository().findById(job.id)).toMatchObject({ status: 'done', attempts: 2 });
+  });
+
+  it('fails a job once its attempts are used up', async () => {
+    const onError = jest.fn();
+    registerJobHandler('test_broken', {
+      run: async () => {
+        throw new Error('always broken');
+      },
+      onError,
+    });
+
+    const job = await enqueueJob('test_broken', {}, { maxAttempts: 2 });
+    await runPendingJobs();
+    advance(getRetryDelay(1));
+    await runPendingJobs();
+
+    expect(await getJobRepository().findById(job.id)).toMatchObject({
+      status: 'failed',
+      attempts: 2,
+      lastError: 'always broken',
+    });
+    expect(onError.mock.calls.map(([, , willRetry]) => willRetry)).toEqual([true, false]);
+  });
+
+  it('fails a job nobody handles without retrying it', async () => {
+    const job = await enqueueJob('test_unknown', {});
+    await runPendingJobs();
+
+    expect(await getJobRepository().findById(job.id)).toMatchObject({ status: 'failed', attempts: 1 });
+  });
+});
@@ -0,0 +1,171 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import { getJobRepository } from '../repositories';
+import { Job } from '../types';
+
+export interface JobHandler<TPayload = Record<string, any>> {
+  run(payload: TPayload, job: Job<TPayload>): Promise<void>;
+  // Called after each failed attempt; willRetry is false once attempts are exhausted
+  onError?(payload: TPayload, error: Error, willRetry: boolean): Promise<void>;
+}
+
+export interface EnqueueOptions {
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000');
+const MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || '5');
+const RETRY_BASE_MS = parseInt(process.env.JOB_RETRY_BASE_MS || '5000');
+const RETRY_MAX_MS = parseInt(process.env.JOB_RETRY_MAX_MS || '300000');
+// Jobs stuck in processing this long (e.g. after a crash) are picked up again
+const LOCK_TIMEOUT_MS = parseInt(process.env.JOB_LOCK_TIMEOUT_MS || '600000');
+
+const handlers = new Map<string, JobHandler<any>>();
+
+let workerActive = false;
+let draining = false;
+let workerTimer: NodeJS.Timeout | undefined;
+
+export const registerJobHandler = <TPayload>(type: string, handler: JobHandler<TPayload>): void => {
+  handlers.set(type, handler);
+};
+
+// Exponential backoff: base, 2x base, 4x base, ... capped at RETRY_MAX_MS
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(RETRY_MAX_MS, RETRY_BASE_MS * Math.pow(2, Math.max(0, attempts - 1)));
+
+export const enqueueJob = async <TPayload extends Record<string, any>>(
+  type: string,
+  payload: TPayload,
+  options: EnqueueOptions = {}
+): Promise<Job<TPayload>> => {
+  const now = new Date();
+  const job = await getJobRepository().enqueue({
+    id: uuidv4(),
+    type,
+    payload,
+    status: 'pending',
+    attempts: 0,
+    maxAttempts: options.maxAttempts ?? MAX_ATTEMPTS,
+    runAt: options.runAt ?? now,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  wakeWorker();
+  return job as Job<TPayload>;
+};
+
+// Claim and run a single job; resolves false when nothing is due
+const processNextJob = async (): Promise<boolean> => {
+  const jobs = getJobRepository();
+  const job = await jobs.claimNext(LOCK_TIMEOUT_MS);
+
+  if (!job) {
+    return false;
+  }
+
+  const handler = handlers.get(job.type);
+
+  if (!handler) {
+    logger.error(`No handler registered for job type: ${job.type}`);
+    await jobs.fail(job.id, `No handler registered for job type: ${job.type}`);
+    return true;
+  }
+
+  try {
+    await handler.run(job.payload, job);
+    await jobs.complete(job.id);
+  } catch (error) {
+    const err = error instanceof Error ? error : new Error(String(error));
+    const willRetry = job.attempts < job.maxAttempts;
+
+    if (willRetry) {
+      const delay = getRetryDelay(job.attempts);
+      logger.warn(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}; retrying in ${delay}ms: ${err.message}`);
+      await jobs.retry(job.id, err.message, new Date(Date.now() + delay));
+    } else {
+      logger.error(`Job ${job.id} (${job.type}) failed after ${job.attempts} attempts: ${err.message}`);
+      await jobs.fail(job.id, err.message);
+    }
+
+    if (handler.onError) {
+      try {
+        await handler.onError(job.payload, err, willRetry);
+      } catch (hookError) {
+        logger.error(`Error hook for job ${job.id} failed:`, hookError);
+      }
+    }
+  }
+
+  return true;
+};
+
+// Run every job that is currently due; used by the worker and directly by tests
+export const runPendingJobs = async (): Promise<number> => {
+  let processed = 0;
+  while (await processNextJob()) {
+    processed++;
+  }
+  return processed;
+};
+
+const tick = async (): Promise<void> => {
+  workerTimer = undefined;
+
+  if (!draining) {
+    draining = true;
+    try {
+      await runPendingJobs();
+    } catch (error) {
+      logger.error('Job worker failed to process jobs:', error);
+    } finally {
+      draining = false;
+    }
+  }
+
+  if (workerActive && !workerTimer) {
+    workerTimer = setTimeout(tick, POLL_INTERVAL_MS);
+  }
+};
+
+// Run newly queued jobs right away instead of waiting for the next poll
+const wakeWorker = (): void => {
+  if (!workerActive || draining) {
+    return;
+  }
+
+  if (workerTimer) {
+    clearTimeout(workerTimer);
+  }
+  workerTimer = setTimeout(tick, 0);
+};
+
+export const startJobWorker = (): void => {
+  if (workerActive) {
+    return;
+  }
+
+  workerActive = true;
+  workerTimer = setTimeout(tick, 0);
+  logger.info(`Job worker started (polling every ${POLL_INTERVAL_MS}ms)`);
+};
+
+export const stopJobWorker = (): void => {
+  workerActive = false;
+
+  if (workerTimer) {
+    clearTimeout(workerTimer);
+    workerTimer = undefined;
+  }
+};
+
+export default {
+  registerJobHandler,
+  getRetryDelay,
+  enqueueJob,
+  runPendingJobs,
+  startJobWorker,
+  stopJobWorker,
+};
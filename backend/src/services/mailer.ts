@@ -0,0 +1,117 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Outbound mail transport
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpMailerOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+const DEFAULT_FROM = 'MemoryNest <no-reply@memorynest.app>';
+
+export const createSmtpMailer = (options: SmtpMailerOptions): Mailer => {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    ...(options.user && { auth: { user: options.user, pass: options.pass } }),
+  });
+
+  return {
+    async send(message: MailMessage): Promise<void> {
+      await transporter.sendMail({
+        from: options.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        ...(message.html && { html: message.html }),
+      });
+      logger.info(`Sent mail "${message.subject}" to ${message.to}`);
+    },
+  };
+};
+
+// Writes each message as a JSON file, for local development and tests
+export const createFileMailer = (outboxDir: string): Mailer => ({
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(outboxDir, { recursive: true });
+    const file = path.join(outboxDir, `${Date.now()}-${uuidv4()}.json`);
+    await fs.writeFile(file, JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2));
+    logger.info(`Wrote mail "${message.subject}" for ${message.to} to ${file}`);
+  },
+});
+
+// Logs each message instead of sending it
+export const createConsoleMailer = (): Mailer => ({
+  async send(message: MailMessage): Promise<void> {
+    logger.info(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  },
+});
+
+let mailer: Mailer | undefined;
+
+// Choose the transport from MAIL_TRANSPORT ('smtp', 'file' or 'console')
+const createMailerFromEnv = (): Mailer => {
+  const transport = process.env.MAIL_TRANSPORT || 'console';
+
+  switch (transport) {
+    case 'smtp': {
+      const host = process.env.SMTP_HOST;
+      if (!host) {
+        throw new Error('Missing SMTP configuration');
+      }
+      return createSmtpMailer({
+        host,
+        port: parseInt(process.env.SMTP_PORT || '587'),
+        secure: process.env.SMTP_SECURE === 'true',
+        ...(process.env.SMTP_USER && { user: process.env.SMTP_USER }),
+        ...(process.env.SMTP_PASS && { pass: process.env.SMTP_PASS }),
+        from: process.env.MAIL_FROM || DEFAULT_FROM,
+      });
+    }
+    case 'file':
+      return createFileMailer(process.env.MAIL_OUTBOX_DIR || './mail-outbox');
+    case 'console':
+      return createConsoleMailer();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+  }
+};
+
+export const getMailer = (): Mailer => {
+  if (!mailer) {
+    mailer = createMailerFromEnv();
+  }
+  return mailer;
+};
+
+// Swap in a mailer directly (used by tests)
+export const setMailer = (override: Mailer): void => {
+  mailer = override;
+};
+
+export default {
+  createSmtpMailer,
+  createFileMailer,
+  createConsoleMailer,
+  getMailer,
+  setMailer,
+};
@@ -0,0 +1,153 @@
+import fs from 'fs';
+import fsp from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Blob storage for uploaded media. Keys are generated by the API, never taken from clients.
+export interface MediaStore {
+  // Streams must come with their length, which S3 needs up front
+  put(key: string, data: Buffer | Readable, contentType: string, contentLength?: number): Promise<void>;
+  // Streams the whole object, or only the given range
+  read(key: string, range?: ByteRange): Promise<Readable>;
+  // Deleting a missing object is not an error
+  delete(key: string): Promise<void>;
+}
+
+export const createLocalMediaStore = (rootDir: string): MediaStore => {
+  const resolve = (key: string): string => path.join(rootDir, ...key.split('/'));
+
+  return {
+    async put(key: string, data: Buffer | Readable): Promise<void> {
+      const file = resolve(key);
+      await fsp.mkdir(path.dirname(file), { recursive: true });
+      if (Buffer.isBuffer(data)) {
+        await fsp.writeFile(file, data);
+      } else {
+        await pipeline(data, fs.createWriteStream(file));
+      }
+    },
+
+    async read(key: string, range?: ByteRange): Promise<Readable> {
+      const file = resolve(key);
+      // Fail here rather than on the first read so callers can still send an error response
+      await fsp.access(file);
+      return fs.createReadStream(file, range ? { start: range.start, end: range.end } : {});
+    },
+
+    async delete(key: string): Promise<void> {
+      await fsp.rm(resolve(key), { force: true });
+    },
+  };
+};
+
+export interface S3MediaStoreOptions {
+  bucket: string;
+  region: string;
+  // Custom endpoint for S3-compatible services such as MinIO or R2
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+export const createS3MediaStore = (options: S3MediaStoreOptions): MediaStore => {
+  const client = new S3Client({
+    region: options.region,
+    ...(options.endpoint && { endpoint: options.endpoint }),
+    ...(options.forcePathStyle && { forcePathStyle: true }),
+    ...(options.accessKeyId && options.secretAccessKey && {
+      credentials: { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey },
+    }),
+  });
+
+  return {
+    async put(key: string, data: Buffer | Readable, contentType: string, contentLength?: number): Promise<void> {
+      await client.send(new PutObjectCommand({
+        Bucket: options.bucket,
+        Key: key,
+        Body: data,
+        ContentType: contentType,
+        ...(contentLength !== undefined && { ContentLength: contentLength }),
+      }));
+    },
+
+    async read(key: string, range?: ByteRange): Promise<Readable> {
+      const response = await client.send(new GetObjectCommand({
+        Bucket: options.bucket,
+        Key: key,
+        ...(range && { Range: `bytes=${range.start}-${range.end}` }),
+      }));
+
+      if (!response.Body) {
+        throw new Error(`Media object ${key} has no body`);
+      }
+
+      // In Node the SDK returns the body as a readable stream
+      return response.Body as Readable;
+    },
+
+    async delete(key: string): Promise<void> {
+      await client.send(new DeleteObjectCommand({ Bucket: options.bucket, Key: key }));
+    },
+  };
+};
+
+let mediaStore: MediaStore | undefined;
+
+// Choose the backend from MEDIA_STORE ('local' or 's3')
+const createMediaStoreFromEnv = (): MediaStore => {
+  const backend = process.env.MEDIA_STORE || 'local';
+
+  switch (backend) {
+    case 'local':
+      return createLocalMediaStore(process.env.MEDIA_DIR || './uploads');
+    case 's3': {
+      const bucket = process.env.S3_BUCKET;
+      if (!bucket) {
+        throw new Error('Missing S3 configuration');
+      }
+      return createS3MediaStore({
+        bucket,
+        region: process.env.S3_REGION || 'us-east-1',
+        ...(process.env.S3_ENDPOINT && { endpoint: process.env.S3_ENDPOINT }),
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+        ...(process.env.S3_ACCESS_KEY_ID && { accessKeyId: process.env.S3_ACCESS_KEY_ID }),
+        ...(process.env.S3_SECRET_ACCESS_KEY && { secretAccessKey: process.env.S3_SECRET_ACCESS_KEY }),
+      });
+    }
+    default:
+      throw new Error(`Unknown MEDIA_STORE: ${backend}`);
+  }
+};
+
+export const getMediaStore = (): MediaStore => {
+  if (!mediaStore) {
+    mediaStore = createMediaStoreFromEnv();
+  }
+  return mediaStore;
+};
+
+// Swap in a media store directly (used by tests)
+export const setMediaStore = (override: MediaStore): void => {
+  mediaStore = override;
+};
+
+export default {
+  createLocalMediaStore,
+  createS3MediaStore,
+  getMediaStore,
+  setMediaStore,
+};
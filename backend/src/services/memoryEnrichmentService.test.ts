@@ -0,0 +1,122 @@
+import { getAttachmentRepository, getMemoryRepository, initializeRepositories } from '../repositories';
+import { createTestMemory, createTestUser } from '../test/fixtures';
+import { testPhoto } from '../test/image';
+import * as aiService from './aiService';
+import { saveAttachment } from './attachmentService';
+import { runPendingJobs } from './jobQueue';
+import { queueMemoryEnrichment, registerMemoryEnrichmentJobs } from './memoryEnrichmentService';
+import * as vectorStore from './vectorStore';
+
+describe('memory enrichment', () => {
+  beforeAll(() => {
+    registerMemoryEnrichmentJobs();
+  });
+
+  beforeEach(async () => {
+    await initializeRepositories();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps tags and people the user added while the AI was running', async () => {
+    const user = await createTestUser();
+    const memory = await createTestMemory(user.id, { tags: ['picnic'], people: [] });
+    const summarize = aiService.summarizeMemory;
+
+    jest.spyOn(aiService, 'summarizeMemory').mockImplementation(async request => {
+      await getMemoryRepository().update(user.id, memory.id, { tags: ['picnic', 'family'], people: ['Tom'] });
+      return { ...(await summarize(request)), tags: ['park', 'Picnic'] };
+    });
+
+    await queueMemoryEnrichment(memory);
+    await runPendingJobs();
+
+    const enriched = await getMemoryRepository().findById(user.id, memory.id);
+    expect(enriched?.enrichmentStatus).toBe('done');
+    expect(enriched?.tags).toEqual(['picnic', 'family', 'park']);
+    expect(enriched?.people).toEqual(['Tom']);
+  });
+
+  it('leaves a memory deleted during enrichment deleted', async () => {
+    const user = await createTestUser();
+    const memory = await createTestMemory(user.id);
+    const summarize = aiService.summarizeMemory;
+
+    jest.spyOn(aiService, 'summarizeMemory').mockImplementation(async request => {
+      await getMemoryRepository().delete(user.id, memory.id);
+      return summarize(request);
+    });
+
+    await queueMemoryEnrichment(memory);
+    await runPendingJobs();
+
+    expect(await getMemoryRepository().findById(user.id, memory.id)).toBeNull();
+  });
+
+  describe('photos', () => {
+    const withPhoto = async (caption?: string) => {
+      const user = await createTestUser();
+      const memory = await createTestMemory(user.id, { content: 'Afternoon at the lake', tags: [] });
+      const photo = await saveAttachment(user.id, memory.id, {
+        kind: 'image',
+        filename: 'lake.jpg',
+        contentType: 'image/jpeg',
+        data: await testPhoto({ width: 2000, height: 1500 }),
+      });
+      if (caption) {
+        await getAttachmentRepository().update(user.id, photo.id, { caption, tags: ['lake'] });
+      }
+      return { user, memory, photo };
+    };
+
+    it('captions photos and folds the captions into the summary, tags and embedding', async () => {
+      const { user, memory, photo } = await withPhoto();
+      const caption = jest.spyOn(aiService, 'describeImage').mockResolvedValue({ caption: 'A red kayak on a calm lake', tags: ['kayak', 'lake'] });
+      const summarize = jest.spyOn(aiService, 'summarizeMemory');
+      const embed = jest.spyOn(aiService, 'generateEmbedding');
+      jest.spyOn(vectorStore, 'isVectorStoreReady').mockReturnValue(true);
+      jest.spyOn(vectorStore, 'upsertMemoryEmbedding').mockResolvedValue();
+
+      await queueMemoryEnrichment(memory);
+      await runPendingJobs();
+
+      // The model sees the WebP preview rather than the full-size original
+      expect(caption).toHaveBeenCalledWith(expect.objectContaining({
+        contentType: 'image/webp',
+        filename: 'lake.jpg',
+        context: 'Afternoon at the lake',
+        width: 2000,
+        height: 1500,
+      }));
+      expect(summarize).toHaveBeenCalledWith(expect.objectContaining({ imageCaptions: ['A red kayak on a calm lake'] }));
+      expect(embed).toHaveBeenCalledWith('Afternoon at the lake\nA red kayak on a calm lake');
+      expect(await getAttachmentRepository().findById(user.id, photo.id)).toMatchObject({ caption: 'A red kayak on a calm lake', tags: ['kayak', 'lake'] });
+      expect((await getMemoryRepository().findById(user.id, memory.id))?.tags).toEqual(expect.arrayContaining(['kayak', 'lake']));
+    });
+
+    it('does not caption a photo twice', async () => {
+      const { memory } = await withPhoto('A lake at dusk');
+      const caption = jest.spyOn(aiService, 'describeImage');
+      const summarize = jest.spyOn(aiService, 'summarizeMemory');
+
+      await queueMemoryEnrichment(memory);
+      await runPendingJobs();
+
+      expect(caption).not.toHaveBeenCalled();
+      expect(summarize).toHaveBeenCalledWith(expect.objectContaining({ imageCaptions: ['A lake at dusk'] }));
+    });
+
+    it('still enriches the memory when a photo cannot be described', async () => {
+      const { user, memory, photo } = await withPhoto();
+      jest.spyOn(aiService, 'describeImage').mockRejectedValue(new Error('Model has no vision'));
+
+      await queueMemoryEnrichment(memory);
+      await runPendingJobs();
+
+      expect((await getMemoryRepository().findById(user.id, memory.id))?.enrichmentStatus).toBe('done');
+      expect((await getAttachmentRepository().findById(user.id, photo.id))?.caption).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { logger } from '../utils/logger';
+import { getAttachmentRepository, getMemoryRepository } from '../repositories';
+import { Attachment, Memory } from '../types';
+import { describeImage, generateEmbedding, summarizeMemory } from './aiService';
+import { readAttachmentImage } from './attachmentService';
+import {
+  buildMemoryMetadata,
+  deleteMemoryEmbedding,
+  getMemoryEmbedding,
+  isVectorStoreReady,
+  upsertMemoryEmbedding,
+} from './vectorStore';
+import { enqueueJob, registerJobHandler } from './jobQueue';
+import { linkMemoryPeople } from './personResolutionService';
+
+export const ENRICH_MEMORY_JOB = 'enrich_memory';
+
+export interface EnrichMemoryPayload {
+  userId: string;
+  memoryId: string;
+}
+
+export interface MemoryPlaceholder {
+  summary: string;
+  tags: string[];
+  mood: number;
+}
+
+// Stored until the enrichment job fills in the real values
+const FALLBACK_SUMMARY_LENGTH = 200;
+const NEUTRAL_MOOD = 5;
+// Photo captioning needs a vision-capable model; set IMAGE_CAPTIONING=false to skip it
+const IMAGE_CAPTIONING = process.env.IMAGE_CAPTIONING !== 'false';
+
+const fallbackSummary = (content: string): string => {
+  const text = content.trim().replace(/\s+/g, ' ');
+  return text.length > FALLBACK_SUMMARY_LENGTH
+    ? `${text.slice(0, FALLBACK_SUMMARY_LENGTH).trimEnd()}...`
+    : text;
+};
+
+const clampMood = (mood: number): number => Math.min(10, Math.max(1, Math.round(mood)));
+
+const mergeTags = (userTags: string[], ...aiTags: string[][]): string[] => {
+  const seen = new Set<string>();
+  return [...userTags, ...aiTags.flat()]
+    .map(tag => tag.trim())
+    .filter(tag => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+};
+
+// Values to save a new memory with before it has been analysed
+export const createPlaceholderEnrichment = (content: string, userTags: string[] = []): MemoryPlaceholder => ({
+  summary: fallbackSummary(content),
+  tags: mergeTags(userTags),
+  mood: NEUTRAL_MOOD,
+});
+
+// Embed the memory content, plus its photo captions so pictures can be found
+// by what they show, and upsert it into the vector store
+export const indexMemory = async (memory: Memory, imageCaptions: string[] = []): Promise<void> => {
+  if (!isVectorStoreReady()) {
+    logger.debug(`Vector store unavailable; skipping embedding for memory ${memory.id}`);
+    return;
+  }
+
+  const embedding = await generateEmbedding([memory.content, ...imageCaptions].join('\n'));
+
+  await upsertMemoryEmbedding(
+    memory.id,
+    memory.userId,
+    memory.content,
+    memory.summary || '',
+    embedding,
+    buildMemoryMetadata(memory)
+  );
+};
+
+// Rewrite the searchable metadata (tags, people, title...) without re-embedding.
+// Best-effort: a memory that isn't indexed yet picks it up from its enrichment job.
+export const refreshMemoryIndex = async (memory: Memory): Promise<void> => {
+  if (!isVectorStoreReady()) {
+    return;
+  }
+
+  try {
+    const existing = await getMemoryEmbedding(memory.id);
+    if (!existing || existing.embedding.length === 0) {
+      return;
+    }
+
+    await upsertMemoryEmbedding(
+      memory.id,
+      memory.userId,
+      memory.content,
+      memory.summary || '',
+      existing.embedding,
+      buildMemoryMetadata(memory)
+    );
+  } catch (error) {
+    logger.error(`Failed to refresh search metadata for memory ${memory.id}:`, error);
+  }
+};
+
+// Remove a deleted memory from the vector store
+export const unindexMemory = async (memoryId: string): Promise<void> => {
+  if (!isVectorStoreReady()) {
+    return;
+  }
+
+  try {
+    await deleteMemoryEmbedding(memoryId);
+  } catch (error) {
+    logger.error(`Failed to remove embedding for memory ${memoryId}:`, error);
+  }
+};
+
+// Queue photo captioning, summarization, emotion extraction and embedding for a memory
+export const queueMemoryEnrichment = async (memory: Memory): Promise<void> => {
+  await enqueueJob<EnrichMemoryPayload>(ENRICH_MEMORY_JOB, {
+    userId: memory.userId,
+    memoryId: memory.id,
+  });
+};
+
+// Caption the memory's photos that don't have a caption yet. Best-effort: a
+// photo the model can't describe is tried again the next time the memory is enriched.
+const describeMemoryImages = async (memory: Memory): Promise<Attachment[]> => {
+  const attachments = getAttachmentRepository();
+  const images = (await attachments.listByMemory(memory.userId, memory.id))
+    .filter(attachment => attachment.kind === 'image');
+
+  if (!IMAGE_CAPTIONING) {
+    return images;
+  }
+
+  const described: Attachment[] = [];
+
+  for (const image of images) {
+    if (image.caption) {
+      described.push(image);
+      continue;
+    }
+
+    try {
+      const picture = await readAttachmentImage(image);
+      if (!picture) {
+        described.push(image);
+        continue;
+      }
+
+      const { caption, tags } = await describeImage({
+        image: picture.data,
+        contentType: picture.contentType,
+        filename: image.filename,
+        context: memory.content,
+        ...(image.width !== undefined && { width: image.width }),
+        ...(image.height !== undefined && { height: image.height }),
+      });
+
+      described.push(caption
+        ? await attachments.update(memory.userId, image.id, { caption, tags }) || image
+        : image);
+    } catch (error) {
+      logger.warn(`Failed to describe image ${image.id} of memory ${memory.id}:`, error);
+      described.push(image);
+    }
+  }
+
+  return described;
+};
+
+const enrichMemory = async ({ userId, memoryId }: EnrichMemoryPayload): Promise<void> => {
+  const memories = getMemoryRepository();
+  const memory = await memories.findById(userId, memoryId);
+
+  if (!memory) {
+    logger.info(`Memory ${memoryId} no longer exists; skipping enrichment`);
+    return;
+  }
+
+  await memories.update(userId, memoryId, { enrichmentStatus: 'processing' });
+
+  const images = await describeMemoryImages(memory);
+  const imageCaptions = images
+    .map(image => image.caption)
+    .filter((caption): caption is string => Boolean(caption));
+
+  const result = await summarizeMemory({ content: memory.content, people: memory.people || [], imageCaptions });
+
+  // Tags and people the user edited while the AI ran are merged with, not overwritten
+  const current = await memories.findById(userId, memoryId);
+  if (!current) {
+    logger.info(`Memory ${memoryId} was deleted during enrichment`);
+    return;
+  }
+
+  // Names the AI spotted are linked to known people; new ones wait for the user to confirm
+  const { people, personSuggestions } = await linkMemoryPeople(current, result.people || []);
+
+  const changes: Partial<Memory> = {
+    summary: result.summary || fallbackSummary(memory.content),
+    emotions: result.emotions,
+    tags: mergeTags(current.tags || [], result.tags, ...images.map(image => image.tags || [])),
+    mood: clampMood(result.mood || NEUTRAL_MOOD),
+    people,
+    personSuggestions,
+    enrichmentStatus: 'done',
+    enrichmentError: '',
+  };
+
+  await indexMemory({ ...current, ...changes }, imageCaptions);
+  await memories.update(userId, memoryId, changes);
+
+  logger.info(`Enriched memory ${memoryId}`);
+};
+
+export const registerMemoryEnrichmentJobs = (): void => {
+  registerJobHandler<EnrichMemoryPayload>(ENRICH_MEMORY_JOB, {
+    run: enrichMemory,
+
+    async onError({ userId, memoryId }, error, willRetry) {
+      await getMemoryRepository().update(userId, memoryId, {
+        enrichmentStatus: willRetry ? 'pending' : 'failed',
+        enrichmentError: error.message,
+      });
+    },
+  });
+};
+
+export default {
+  ENRICH_MEMORY_JOB,
+  createPlaceholderEnrichment,
+  indexMemory,
+  refreshMemoryIndex,
+  unindexMemory,
+  queueMemoryEnrichment,
+  registerMemoryEnrichmentJobs,
+};
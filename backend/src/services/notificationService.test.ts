@@ -0,0 +1,116 @@
+import { getNotificationDeliveryRepository, initializeRepositories } from '../repositories';
+import { createTestUser } from '../test/fixtures';
+import * as network from '../utils/network';
+import {
+  deliverNotification,
+  savePushSubscription,
+  sendTestNotification,
+  updateChannelPreferences,
+} from './notificationService';
+
+const PUBLIC_WEBHOOK = 'https://93.184.216.34/hook';
+
+const pushKeys = {
+  p256dh: Buffer.alloc(65, 4).toString('base64url'),
+  auth: Buffer.alloc(16, 7).toString('base64url'),
+};
+
+describe('notification targets', () => {
+  beforeEach(async () => {
+    await initializeRepositories();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('updateChannelPreferences', () => {
+    it.each([
+      'http://127.0.0.1:8080/hook',
+      'http://10.0.0.5/hook',
+      'http://169.254.169.254/latest/meta-data',
+      'http://[::ffff:169.254.169.254]/hook',
+      'http://localhost/hook',
+    ])('rejects a webhook at %s', async url => {
+      const user = await createTestUser();
+
+      await expect(updateChannelPreferences(user.id, { webhook: { enabled: true, url } }))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Webhook URL must not point to a private or local network address' });
+    });
+
+    it('rejects a webhook whose host does not resolve', async () => {
+      const user = await createTestUser();
+      jest.spyOn(network, 'resolvesToPrivateAddress').mockRejectedValue(new Error('getaddrinfo ENOTFOUND'));
+
+      await expect(updateChannelPreferences(user.id, { webhook: { enabled: true, url: 'https://nowhere.invalid/hook' } }))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Webhook URL host could not be resolved' });
+    });
+
+    it('accepts a webhook on a public address and gives it a signing secret', async () => {
+      const user = await createTestUser();
+
+      const channels = await updateChannelPreferences(user.id, { webhook: { enabled: true, url: PUBLIC_WEBHOOK } });
+
+      expect(channels.webhook).toMatchObject({ enabled: true, url: PUBLIC_WEBHOOK, secret: expect.stringMatching(/^whsec_/) });
+    });
+  });
+
+  describe('savePushSubscription', () => {
+    it('rejects an endpoint on a private address', async () => {
+      const user = await createTestUser();
+
+      await expect(savePushSubscription(user.id, { endpoint: 'http://192.168.1.20/push', ...pushKeys }))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Subscription endpoint must not point to a private or local network address' });
+    });
+  });
+
+  describe('webhook delivery', () => {
+    const queueTestWebhook = async () => {
+      const user = await createTestUser();
+      await updateChannelPreferences(user.id, { webhook: { enabled: true, url: PUBLIC_WEBHOOK } });
+      const [delivery] = await sendTestNotification(user.id, 'webhook');
+      return { user, delivery: delivery! };
+    };
+
+    it('checks the target again when sending', async () => {
+      const { user, delivery } = await queueTestWebhook();
+      const send = jest.spyOn(global, 'fetch');
+      // The host has since been pointed at an internal address
+      jest.spyOn(network, 'resolvesToPrivateAddress').mockResolvedValue(true);
+
+      await deliverNotification(user.id, delivery.id);
+
+      expect(send).not.toHaveBeenCalled();
+      expect(await getNotificationDeliveryRepository().findById(user.id, delivery.id)).toMatchObject({
+        status: 'failed',
+        lastError: 'Webhook URL points to a private or local network address',
+      });
+    });
+
+    it('does not follow redirects', async () => {
+      const { user, delivery } = await queueTestWebhook();
+      const send = jest.spyOn(global, 'fetch').mockResolvedValue(
+        new Response(null, { status: 302, headers: { Location: 'http://169.254.169.254/' } })
+      );
+
+      await deliverNotification(user.id, delivery.id);
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(send.mock.calls[0]?.[1]).toMatchObject({ redirect: 'manual' });
+      expect(await getNotificationDeliveryRepository().findById(user.id, delivery.id)).toMatchObject({
+        status: 'failed',
+        lastError: 'Webhook redirected; redirects are not followed',
+      });
+    });
+
+    it('signs and sends the event to a public target', async () => {
+      const { user, delivery } = await queueTestWebhook();
+      const send = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(null, { status: 204 }));
+
+      await deliverNotification(user.id, delivery.id);
+
+      expect(send.mock.calls[0]?.[0]).toBe(PUBLIC_WEBHOOK);
+      expect((await getNotificationDeliveryRepository().findById(user.id, delivery.id))?.status).toBe('sent');
+    });
+  });
+});
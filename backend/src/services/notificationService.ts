@@ -0,0 +1,627 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import { resolvesToPrivateAddress } from '../utils/network';
+import { localClock } from '../utils/time';
+import { CustomError, createValidationError } from '../middleware/errorHandler';
+import {
+  getNotificationDeliveryRepository,
+  getNudgeRepository,
+  getPushSubscriptionRepository,
+  getUserRepository,
+} from '../repositories';
+import { DeliveryListOptions } from '../repositories/notificationDeliveryRepository';
+import {
+  ChannelPreferences,
+  DeliveryKind,
+  DigestFrequency,
+  NotificationChannel,
+  NotificationDelivery,
+  Nudge,
+  PushSubscriptionRecord,
+  UserRecord,
+} from '../types';
+import { enqueueJob, registerJobHandler } from './jobQueue';
+import { getMailer } from './mailer';
+import { PushMessage, getPushSender } from './pushSender';
+
+export const DELIVER_NOTIFICATION_JOB = 'deliver_notification';
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['push', 'email', 'webhook'];
+export const DIGEST_FREQUENCIES: DigestFrequency[] = ['daily', 'weekly'];
+
+export interface DeliverNotificationPayload {
+  userId: string;
+  deliveryId: string;
+}
+
+export interface PushSubscriptionInput {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  userAgent?: string;
+}
+
+// Changes to the user's channel settings; webhook.rotateSecret issues a new signing secret
+export interface ChannelPreferenceChanges {
+  push?: { enabled?: boolean };
+  email?: { enabled?: boolean; frequency?: DigestFrequency; hour?: number; weekday?: number };
+  webhook?: { enabled?: boolean; url?: string; rotateSecret?: boolean };
+}
+
+// The body POSTed to a user's webhook
+export interface WebhookEvent {
+  event: 'nudges.created' | 'test';
+  deliveryId: string;
+  sentAt: string;
+  nudges: Array<Pick<Nudge, 'id' | 'type' | 'title' | 'message' | 'priority' | 'createdAt' | 'expiresAt'>>;
+}
+
+// How often due email digests are looked for; set NOTIFICATION_DIGESTS=false to turn it off
+const DIGEST_INTERVAL_MS = parseInt(process.env.NOTIFICATION_DIGEST_INTERVAL_MS || '3600000');
+const DIGESTS_ENABLED = process.env.NOTIFICATION_DIGESTS !== 'false';
+const MAX_ATTEMPTS = parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || '5');
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_DIGEST_HOUR = 8;
+// Monday
+const DEFAULT_DIGEST_WEEKDAY = 1;
+// A digest isn't sent again within this long, so a sweep landing twice in the
+// same local hour can't send two
+const MIN_DIGEST_GAP_HOURS: Record<DigestFrequency, number> = { daily: 20, weekly: 6 * 24 };
+const DIGEST_PERIOD_HOURS: Record<DigestFrequency, number> = { daily: 24, weekly: 7 * 24 };
+const MAX_DIGEST_NUDGES = 20;
+const MAX_ERROR_LENGTH = 500;
+// Uncompressed P-256 point and 16-byte auth secret
+const P256DH_LENGTH = 65;
+const AUTH_SECRET_LENGTH = 16;
+
+let digestTimer: NodeJS.Timeout | undefined;
+
+const appUrl = (pathname: string): string => `${process.env.FRONTEND_URL || 'http://localhost:3000'}${pathname}`;
+
+const isUrl = (value: string, protocols: string[]): boolean => {
+  try {
+    return protocols.includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Plain http is only accepted outside production, e.g. for a local receiver
+const allowedProtocols = (): string[] =>
+  process.env.NODE_ENV === 'production' ? ['https:'] : ['https:', 'http:'];
+
+// The server requests webhook and push URLs users give it, so they must lead
+// to public addresses and not into the server's own network. Outside
+// production, NOTIFICATION_ALLOW_PRIVATE_TARGETS=true lets a local receiver in.
+const allowsPrivateTargets = (): boolean =>
+  process.env.NODE_ENV !== 'production' && process.env.NOTIFICATION_ALLOW_PRIVATE_TARGETS === 'true';
+
+// Throws when the host doesn't resolve
+const isBlockedTarget = async (url: string): Promise<boolean> =>
+  !allowsPrivateTargets() && await resolvesToPrivateAddress(url);
+
+const validateTarget = async (url: string, label: string): Promise<void> => {
+  let blocked: boolean;
+  try {
+    blocked = await isBlockedTarget(url);
+  } catch {
+    throw createValidationError(`${label} host could not be resolved`);
+  }
+  if (blocked) {
+    throw createValidationError(`${label} must not point to a private or local network address`);
+  }
+};
+
+const isBase64urlOfLength = (value: unknown, length: number): value is string =>
+  typeof value === 'string' && /^[A-Za-z0-9_-]+=*$/.test(value) && Buffer.from(value, 'base64url').length === length;
+
+const isHour = (value: unknown): boolean => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 23;
+const isWeekday = (value: unknown): boolean => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 6;
+
+const newWebhookSecret = (): string => `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+
+// HMAC-SHA256 of the raw request body, sent as X-MemoryNest-Signature: sha256=<hex>
+export const signWebhookBody = (secret: string, body: string): string =>
+  `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+
+const loadUser = async (userId: string): Promise<UserRecord> => {
+  const user = await getUserRepository().findById(userId);
+  if (!user) {
+    throw new CustomError('User not found', 404);
+  }
+  return user;
+};
+
+const channelsOf = (user: UserRecord): ChannelPreferences => user.preferences?.channels || {};
+
+// `notifications: false` in the user's preferences mutes every channel
+const isChannelOn = (user: UserRecord, channel: NotificationChannel): boolean =>
+  user.preferences?.notifications !== false && channelsOf(user)[channel]?.enabled === true;
+
+const saveChannels = async (user: UserRecord, channels: ChannelPreferences): Promise<ChannelPreferences> => {
+  const updated = await getUserRepository().update(user.id, {
+    preferences: { theme: 'light', notifications: true, privacy: 'private', ...user.preferences, channels },
+  });
+  if (!updated) {
+    throw new CustomError('User not found', 404);
+  }
+  return channelsOf(updated);
+};
+
+// Returns the first problem with a preferences update, if any
+export const invalidChannelPreferences = (value: unknown): string | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'Channel preferences must be an object';
+  }
+
+  const { push, email, webhook } = value as Record<string, any>;
+  const isSection = (section: unknown): boolean =>
+    section === undefined || (!!section && typeof section === 'object' && !Array.isArray(section));
+
+  if (!isSection(push) || !isSection(email) || !isSection(webhook)) {
+    return 'push, email and webhook must be objects';
+  }
+  for (const section of [push, email, webhook]) {
+    if (section?.enabled !== undefined && typeof section.enabled !== 'boolean') {
+      return 'enabled must be true or false';
+    }
+  }
+  if (email?.frequency !== undefined && !DIGEST_FREQUENCIES.includes(email.frequency)) {
+    return `Digest frequency must be one of: ${DIGEST_FREQUENCIES.join(', ')}`;
+  }
+  if (email?.hour !== undefined && !isHour(email.hour)) {
+    return 'Digest hour must be a whole number from 0 to 23';
+  }
+  if (email?.weekday !== undefined && !isWeekday(email.weekday)) {
+    return 'Digest weekday must be a whole number from 0 (Sunday) to 6';
+  }
+  if (webhook?.url !== undefined && (typeof webhook.url !== 'string' || !isUrl(webhook.url, allowedProtocols()))) {
+    return process.env.NODE_ENV === 'production' ? 'Webhook URL must be an https URL' : 'Webhook URL must be an http(s) URL';
+  }
+  if (webhook?.rotateSecret !== undefined && typeof webhook.rotateSecret !== 'boolean') {
+    return 'rotateSecret must be true or false';
+  }
+  return undefined;
+};
+
+export const getChannelPreferences = async (userId: string): Promise<ChannelPreferences> =>
+  channelsOf(await loadUser(userId));
+
+// Merge changes into each channel's settings. A webhook gets a new signing
+// secret when its URL changes, when it has none yet, or on request.
+export const updateChannelPreferences = async (
+  userId: string,
+  changes: ChannelPreferenceChanges
+): Promise<ChannelPreferences> => {
+  const invalid = invalidChannelPreferences(changes);
+  if (invalid) {
+    throw createValidationError(invalid);
+  }
+
+  if (changes.webhook?.url) {
+    await validateTarget(changes.webhook.url, 'Webhook URL');
+  }
+
+  const user = await loadUser(userId);
+  const current = channelsOf(user);
+  const channels: ChannelPreferences = { ...current };
+
+  if (changes.push) {
+    channels.push = { enabled: changes.push.enabled ?? current.push?.enabled ?? false };
+  }
+
+  if (changes.email) {
+    channels.email = {
+      ...current.email,
+      ...changes.email,
+      enabled: changes.email.enabled ?? current.email?.enabled ?? false,
+    };
+  }
+
+  if (changes.webhook) {
+    const { rotateSecret, ...webhook } = changes.webhook;
+    const url = webhook.url ?? current.webhook?.url;
+    const enabled = webhook.enabled ?? current.webhook?.enabled ?? false;
+
+    if (enabled && !url) {
+      throw createValidationError('A webhook URL is required to enable webhooks');
+    }
+
+    const currentSecret = url === current.webhook?.url && !rotateSecret ? current.webhook?.secret : undefined;
+    channels.webhook = {
+      enabled,
+      ...(url && { url, secret: currentSecret || newWebhookSecret() }),
+    };
+  }
+
+  return saveChannels(user, channels);
+};
+
+// Store a browser's subscription and turn push on for the user
+export const savePushSubscription = async (
+  userId: string,
+  input: PushSubscriptionInput
+): Promise<PushSubscriptionRecord> => {
+  if (typeof input.endpoint !== 'string' || !isUrl(input.endpoint, allowedProtocols())) {
+    throw createValidationError('Subscription endpoint must be a URL');
+  }
+  if (!isBase64urlOfLength(input.p256dh, P256DH_LENGTH) || !isBase64urlOfLength(input.auth, AUTH_SECRET_LENGTH)) {
+    throw createValidationError('Subscription keys must be the browser\'s p256dh and auth keys');
+  }
+  await validateTarget(input.endpoint, 'Subscription endpoint');
+
+  const subscription = await getPushSubscriptionRepository().save({
+    id: uuidv4(),
+    userId,
+    endpoint: input.endpoint,
+    p256dh: input.p256dh,
+    auth: input.auth,
+    ...(input.userAgent && { userAgent: input.userAgent.slice(0, 255) }),
+    createdAt: new Date(),
+  });
+
+  const user = await loadUser(userId);
+  if (!channelsOf(user).push?.enabled) {
+    await saveChannels(user, { ...channelsOf(user), push: { enabled: true } });
+  }
+
+  return subscription;
+};
+
+export const listPushSubscriptions = async (userId: string): Promise<PushSubscriptionRecord[]> =>
+  getPushSubscriptionRepository().listByUser(userId);
+
+export const deletePushSubscription = async (userId: string, id: string): Promise<void> => {
+  const deleted = await getPushSubscriptionRepository().delete(userId, id);
+  if (!deleted) {
+    throw new CustomError('Push subscription not found', 404);
+  }
+};
+
+const queueDelivery = async (
+  userId: string,
+  channel: NotificationChannel,
+  kind: DeliveryKind,
+  target: string,
+  nudgeIds: string[]
+): Promise<NotificationDelivery> => {
+  const now = new Date();
+  const delivery = await getNotificationDeliveryRepository().create({
+    id: uuidv4(),
+    userId,
+    channel,
+    kind,
+    status: 'pending',
+    target,
+    nudgeIds,
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  await enqueueJob<DeliverNotificationPayload>(
+    DELIVER_NOTIFICATION_JOB,
+    { userId, deliveryId: delivery.id },
+    { maxAttempts: MAX_ATTEMPTS }
+  );
+  return delivery;
+};
+
+// Queue push and webhook deliveries for newly created nudges. Email gets
+// them in the next digest instead.
+export const notifyNudges = async (userId: string, nudges: Nudge[]): Promise<NotificationDelivery[]> => {
+  const user = await getUserRepository().findById(userId);
+  if (!user || nudges.length === 0) {
+    return [];
+  }
+
+  const nudgeIds = nudges.map(nudge => nudge.id);
+  const deliveries: NotificationDelivery[] = [];
+
+  if (isChannelOn(user, 'push')) {
+    for (const subscription of await getPushSubscriptionRepository().listByUser(userId)) {
+      deliveries.push(await queueDelivery(userId, 'push', 'nudge', subscription.endpoint, nudgeIds));
+    }
+  }
+
+  const webhook = channelsOf(user).webhook;
+  if (isChannelOn(user, 'webhook') && webhook?.url) {
+    deliveries.push(await queueDelivery(userId, 'webhook', 'nudge', webhook.url, nudgeIds));
+  }
+
+  return deliveries;
+};
+
+// Queue a test message on one channel, whether or not the channel is turned on
+export const sendTestNotification = async (
+  userId: string,
+  channel: NotificationChannel
+): Promise<NotificationDelivery[]> => {
+  const user = await loadUser(userId);
+
+  switch (channel) {
+    case 'push': {
+      const subscriptions = await getPushSubscriptionRepository().listByUser(userId);
+      if (subscriptions.length === 0) {
+        throw createValidationError('No browser is subscribed to push notifications');
+      }
+      return Promise.all(subscriptions.map(subscription => queueDelivery(userId, 'push', 'test', subscription.endpoint, [])));
+    }
+    case 'email':
+      return [await queueDelivery(userId, 'email', 'test', user.email, [])];
+    case 'webhook': {
+      const url = channelsOf(user).webhook?.url;
+      if (!url) {
+        throw createValidationError('No webhook URL is configured');
+      }
+      return [await queueDelivery(userId, 'webhook', 'test', url, [])];
+    }
+  }
+};
+
+export const listDeliveries = async (userId: string, options: DeliveryListOptions = {}): Promise<NotificationDelivery[]> =>
+  getNotificationDeliveryRepository().list(userId, options);
+
+const loadNudges = async (userId: string, ids: string[]): Promise<Nudge[]> => {
+  const nudges = await Promise.all(ids.map(id => getNudgeRepository().findById(userId, id)));
+  return nudges.filter((nudge): nudge is Nudge => nudge !== null);
+};
+
+const pushMessageFor = (kind: DeliveryKind, nudges: Nudge[]): PushMessage => {
+  const [first] = nudges;
+  if (kind === 'test' || !first) {
+    return { title: 'MemoryNest', body: 'Push notifications are working.', url: appUrl('/profile'), tag: 'test' };
+  }
+  if (nudges.length === 1) {
+    return { title: first.title, body: first.message, url: appUrl('/nudges'), tag: 'nudges' };
+  }
+  return {
+    title: `${nudges.length} new nudges`,
+    body: nudges.map(nudge => nudge.title).join('\n'),
+    url: appUrl('/nudges'),
+    tag: 'nudges',
+  };
+};
+
+// Each channel's sender throws on errors worth retrying and returns a reason
+// for failures that retrying can't fix. Webhook and push targets are checked
+// again before each send, since what a host resolves to can change.
+type ChannelSender = (delivery: NotificationDelivery, nudges: Nudge[]) => Promise<string | undefined>;
+
+const deliverPush: ChannelSender = async (delivery, nudges) => {
+  const subscription = (await getPushSubscriptionRepository().listByUser(delivery.userId))
+    .find(candidate => candidate.endpoint === delivery.target);
+  if (!subscription) {
+    return 'Push subscription no longer exists';
+  }
+  if (await isBlockedTarget(subscription.endpoint)) {
+    return 'Push endpoint points to a private or local network address';
+  }
+
+  const result = await getPushSender().send(subscription, pushMessageFor(delivery.kind, nudges));
+  if (result === 'gone') {
+    await getPushSubscriptionRepository().deleteByEndpoint(subscription.endpoint);
+    return 'Push subscription expired';
+  }
+  return undefined;
+};
+
+const digestText = (user: UserRecord, nudges: Nudge[]): string => [
+  `Hi ${user.name},`,
+  '',
+  nudges.length === 1 ? 'You have a new nudge:' : `You have ${nudges.length} new nudges:`,
+  '',
+  ...nudges.flatMap(nudge => [`- ${nudge.title}`, `  ${nudge.message}`]),
+  '',
+  `See them all at ${appUrl('/nudges')}`,
+  '',
+  `You can change how often you get this email at ${appUrl('/profile')}.`,
+].join('\n');
+
+const deliverEmail: ChannelSender = async (delivery, nudges) => {
+  const user = await loadUser(delivery.userId);
+
+  if (delivery.kind === 'test') {
+    await getMailer().send({
+      to: delivery.target,
+      subject: 'MemoryNest test email',
+      text: `Hi ${user.name},\n\nEmail digests are working.`,
+    });
+    return undefined;
+  }
+
+  if (nudges.length === 0) {
+    return 'Nothing left to include in the digest';
+  }
+  await getMailer().send({
+    to: delivery.target,
+    subject: nudges.length === 1 ? 'Your MemoryNest nudge' : `Your ${nudges.length} MemoryNest nudges`,
+    text: digestText(user, nudges),
+  });
+  return undefined;
+};
+
+const deliverWebhook: ChannelSender = async (delivery, nudges) => {
+  const webhook = channelsOf(await loadUser(delivery.userId)).webhook;
+  if (!webhook?.secret || webhook.url !== delivery.target) {
+    return 'Webhook is no longer configured';
+  }
+  if (await isBlockedTarget(delivery.target)) {
+    return 'Webhook URL points to a private or local network address';
+  }
+
+  const event: WebhookEvent = {
+    event: delivery.kind === 'test' ? 'test' : 'nudges.created',
+    deliveryId: delivery.id,
+    sentAt: new Date().toISOString(),
+    nudges: nudges.map(({ id, type, title, message, priority, createdAt, expiresAt }) => ({
+      id, type, title, message, priority, createdAt, ...(expiresAt && { expiresAt }),
+    })),
+  };
+  const body = JSON.stringify(event);
+
+  const response = await fetch(delivery.target, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': 'MemoryNest-Webhook',
+      'X-MemoryNest-Event': event.event,
+      'X-MemoryNest-Delivery': delivery.id,
+      'X-MemoryNest-Signature': signWebhookBody(webhook.secret, body),
+    },
+    body,
+    // A redirect could lead anywhere, so it isn't followed
+    redirect: 'manual',
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+
+  if (response.status >= 300 && response.status < 400) {
+    return 'Webhook redirected; redirects are not followed';
+  }
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status}`);
+  }
+  return undefined;
+};
+
+const CHANNEL_SENDERS: Record<NotificationChannel, ChannelSender> = {
+  push: deliverPush,
+  email: deliverEmail,
+  webhook: deliverWebhook,
+};
+
+// Send one logged delivery; throws so the job queue retries it
+export const deliverNotification = async (userId: string, deliveryId: string): Promise<void> => {
+  const deliveries = getNotificationDeliveryRepository();
+  const delivery = await deliveries.findById(userId, deliveryId);
+
+  if (!delivery || delivery.status !== 'pending') {
+    return;
+  }
+
+  await deliveries.update(userId, deliveryId, { attempts: delivery.attempts + 1 });
+  const nudges = await loadNudges(userId, delivery.nudgeIds);
+  const failure = await CHANNEL_SENDERS[delivery.channel](delivery, nudges);
+
+  if (failure) {
+    await deliveries.update(userId, deliveryId, { status: 'failed', lastError: failure });
+    logger.warn(`Gave up on ${delivery.channel} notification ${deliveryId}: ${failure}`);
+    return;
+  }
+
+  await deliveries.update(userId, deliveryId, { status: 'sent', deliveredAt: new Date() });
+  logger.info(`Delivered ${delivery.kind} ${delivery.channel} notification ${deliveryId}`);
+};
+
+// Whether the user's digest is due in the current local hour, and which
+// nudges it should cover
+const dueDigestSince = async (user: UserRecord, now: Date): Promise<Date | null> => {
+  const email = channelsOf(user).email;
+  if (!email || !isChannelOn(user, 'email')) {
+    return null;
+  }
+
+  const frequency = email.frequency || 'daily';
+  const clock = localClock(now, user.preferences?.nudges?.timezone);
+  if (clock.hour !== (email.hour ?? DEFAULT_DIGEST_HOUR)) {
+    return null;
+  }
+  if (frequency === 'weekly' && clock.weekday !== (email.weekday ?? DEFAULT_DIGEST_WEEKDAY)) {
+    return null;
+  }
+
+  const [last] = await getNotificationDeliveryRepository().list(user.id, { channel: 'email', kind: 'digest', limit: 1 });
+  if (last && now.getTime() - last.createdAt.getTime() < MIN_DIGEST_GAP_HOURS[frequency] * HOUR_MS) {
+    return null;
+  }
+
+  const periodStart = new Date(now.getTime() - DIGEST_PERIOD_HOURS[frequency] * HOUR_MS);
+  return last && last.createdAt > periodStart ? last.createdAt : periodStart;
+};
+
+// Queue an email digest for the user if one is due and there's something new to send
+export const queueDigestIfDue = async (userId: string, now: Date = new Date()): Promise<NotificationDelivery | null> => {
+  const user = await getUserRepository().findById(userId);
+  const since = user && await dueDigestSince(user, now);
+  if (!user || !since) {
+    return null;
+  }
+
+  const nudges = await getNudgeRepository().list(userId, {
+    status: 'active',
+    createdAfter: since,
+    now,
+    limit: MAX_DIGEST_NUDGES,
+  });
+  if (nudges.length === 0) {
+    return null;
+  }
+
+  return queueDelivery(userId, 'email', 'digest', user.email, nudges.map(nudge => nudge.id));
+};
+
+// Check every user for a due digest
+export const queueDueDigests = async (now: Date = new Date()): Promise<number> => {
+  let queued = 0;
+  for (const userId of await getUserRepository().listIds()) {
+    if (await queueDigestIfDue(userId, now)) {
+      queued++;
+    }
+  }
+  return queued;
+};
+
+export const registerNotificationJobs = (): void => {
+  registerJobHandler<DeliverNotificationPayload>(DELIVER_NOTIFICATION_JOB, {
+    async run({ userId, deliveryId }) {
+      await deliverNotification(userId, deliveryId);
+    },
+    async onError({ userId, deliveryId }, error, willRetry) {
+      await getNotificationDeliveryRepository().update(userId, deliveryId, {
+        lastError: error.message.slice(0, MAX_ERROR_LENGTH),
+        ...(!willRetry && { status: 'failed' }),
+      });
+    },
+  });
+};
+
+export const startDigestScheduler = (): void => {
+  if (!DIGESTS_ENABLED || digestTimer) {
+    return;
+  }
+
+  digestTimer = setInterval(() => {
+    queueDueDigests().catch(error => logger.error('Failed to queue email digests:', error));
+  }, DIGEST_INTERVAL_MS);
+  digestTimer.unref();
+  logger.info(`Email digest scheduler started (every ${DIGEST_INTERVAL_MS}ms)`);
+};
+
+export const stopDigestScheduler = (): void => {
+  if (digestTimer) {
+    clearInterval(digestTimer);
+    digestTimer = undefined;
+  }
+};
+
+export default {
+  invalidChannelPreferences,
+  getChannelPreferences,
+  updateChannelPreferences,
+  savePushSubscription,
+  listPushSubscriptions,
+  deletePushSubscription,
+  notifyNudges,
+  sendTestNotification,
+  listDeliveries,
+  deliverNotification,
+  queueDigestIfDue,
+  queueDueDigests,
+  signWebhookBody,
+  registerNotificationJobs,
+  startDigestScheduler,
+  stopDigestScheduler,
+};
@@ -0,0 +1,112 @@
+import { getNudgeRepository, initializeRepositories } from '../repositories';
+import { createTestNudge, createTestPerson, createTestUser } from '../test/fixtures';
+import { NudgePreferences } from '../types';
+import * as aiService from './aiService';
+import { generateScheduledNudges, invalidNudgePreferences, isQuietTime } from './nudgeSchedulerService';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('nudge scheduler', () => {
+  describe('isQuietTime', () => {
+    const overnight: NudgePreferences = { quietHours: { start: '22:00', end: '07:00' } };
+
+    it('spans midnight when the quiet hours end before they start', () => {
+      expect(isQuietTime(overnight, new Date('2024-05-01T23:30:00Z'))).toBe(true);
+      expect(isQuietTime(overnight, new Date('2024-05-01T06:59:00Z'))).toBe(true);
+      expect(isQuietTime(overnight, new Date('2024-05-01T07:00:00Z'))).toBe(false);
+      expect(isQuietTime(overnight, new Date('2024-05-01T12:00:00Z'))).toBe(false);
+    });
+
+    it('reads the quiet hours in the user\'s time zone', () => {
+      const newYork = { ...overnight, timezone: 'America/New_York' };
+
+      // 03:00 UTC is 23:00 the evening before in New York (EDT)
+      expect(isQuietTime(newYork, new Date('2024-05-02T03:00:00Z'))).toBe(true);
+      // 23:00 UTC is 19:00 in New York
+      expect(isQuietTime(newYork, new Date('2024-05-01T23:00:00Z'))).toBe(false);
+    });
+
+    it('is never quiet without quiet hours', () => {
+      expect(isQuietTime({}, new Date('2024-05-01T03:00:00Z'))).toBe(false);
+    });
+  });
+
+  describe('invalidNudgePreferences', () => {
+    it('rejects caps outside the allowed range and malformed quiet hours', () => {
+      expect(invalidNudgePreferences({ maxPerDay: 2, maxPerWeek: 7 })).toBeUndefined();
+      expect(invalidNudgePreferences({ maxPerDay: 21 })).toMatch(/maxPerDay/);
+      expect(invalidNudgePreferences({ maxPerWeek: -1 })).toMatch(/maxPerWeek/);
+      expect(invalidNudgePreferences({ quietHours: { start: '25:00', end: '07:00' } })).toMatch(/Quiet hours/);
+      expect(invalidNudgePreferences({ timezone: 'Mars/Olympus' })).toMatch(/Timezone/);
+    });
+  });
+
+  describe('generateScheduledNudges', () => {
+    const now = new Date('2024-05-01T12:00:00Z');
+
+    beforeEach(async () => {
+      await initializeRepositories();
+      jest.spyOn(aiService, 'generateNudges').mockResolvedValue([
+        { type: 'log_memory', title: 'Write it down', message: 'How was today?', priority: 'medium' },
+        { type: 'reconnect', title: 'Call Sarah', message: 'It has been a while', priority: 'high', relatedPeople: ['Sarah'] },
+        { type: 'emotional_gap', title: 'Joy', message: 'What made you smile?', priority: 'low' },
+      ]);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    const userWith = (nudges: NudgePreferences) =>
+      createTestUser({ preferences: { theme: 'light', notifications: true, privacy: 'private', nudges } });
+
+    it('stores the suggested nudges within the daily cap', async () => {
+      const user = await userWith({ maxPerDay: 2 });
+      const sarah = await createTestPerson(user.id, 'Sarah');
+
+      const { created, skipped } = await generateScheduledNudges(user.id, now);
+
+      expect(skipped).toBeUndefined();
+      expect(created.map(nudge => nudge.type)).toEqual(['log_memory', 'reconnect']);
+      expect(created[1]?.relatedPeople).toEqual([sarah.id]);
+      expect(await getNudgeRepository().list(user.id, { now })).toHaveLength(2);
+    });
+
+    it('counts nudges from the last day against the daily cap', async () => {
+      const user = await userWith({ maxPerDay: 2 });
+      await createTestNudge(user.id, { createdAt: new Date(now.getTime() - 2 * HOUR_MS) });
+      await createTestNudge(user.id, { createdAt: new Date(now.getTime() - 20 * HOUR_MS), isActioned: true });
+
+      expect(await generateScheduledNudges(user.id, now)).toEqual({ created: [], skipped: 'cap_reached' });
+
+      // Five hours on, the older nudge is more than a day old
+      const later = await generateScheduledNudges(user.id, new Date(now.getTime() + 5 * HOUR_MS));
+      expect(later.created).toHaveLength(1);
+    });
+
+    it('stops at the weekly cap even with room left today', async () => {
+      const user = await userWith({ maxPerDay: 5, maxPerWeek: 3 });
+      for (const daysAgo of [2, 3, 4]) {
+        await createTestNudge(user.id, { createdAt: new Date(now.getTime() - daysAgo * 24 * HOUR_MS) });
+      }
+
+      expect(await generateScheduledNudges(user.id, now)).toEqual({ created: [], skipped: 'cap_reached' });
+    });
+
+    it('creates nothing during quiet hours', async () => {
+      const user = await userWith({ quietHours: { start: '11:00', end: '13:00' } });
+
+      expect(await generateScheduledNudges(user.id, now)).toEqual({ created: [], skipped: 'quiet_hours' });
+      expect(aiService.generateNudges).not.toHaveBeenCalled();
+    });
+
+    it('skips a suggestion that duplicates an open nudge', async () => {
+      const user = await userWith({ maxPerDay: 5, maxPerWeek: 10 });
+      await createTestNudge(user.id, { type: 'log_memory', createdAt: new Date(now.getTime() - 2 * 24 * HOUR_MS) });
+
+      const { created } = await generateScheduledNudges(user.id, now);
+
+      expect(created.map(nudge => nudge.type)).toEqual(['reconnect', 'emotional_gap']);
+    });
+  });
+});
@@ -0,0 +1,587 @@
+import { logger } from '../utils/logger';
+import { isTimeZone, localClock } from '../utils/time';
+import { CustomError } from '../middleware/errorHandler';
+import { getMemoryRepository, getNudgeRepository, getPersonRepository, getUserRepository } from '../repositories';
+import { Memory, Nudge, NudgePreferences, NudgeType, Person, UserRecord } from '../types';
+import { generateNudges } from './aiService';
+import { enqueueJob, registerJobHandler } from './jobQueue';
+import { NudgeView, createNudge } from './nudgeService';
+import { notifyNudges } from './notificationService';
+import { createResurfacingNudge } from './resurfacingService';
+import { personMentions } from './personInsightsService';
+
+export const GENERATE_NUDGES_JOB = 'generate_nudges';
+
+export interface GenerateNudgesPayload {
+  userId: string;
+}
+
+// A person mentioned noticeably less often than usual
+export interface InactivePerson {
+  person: Person;
+  daysSinceMention: number;
+  // Median days between mentions over the lookback window
+  usualGapDays: number;
+}
+
+// Something worth celebrating, such as a 100th memory or a year since the
+// first memory with someone
+export interface Milestone {
+  description: string;
+  date: Date;
+  person?: Person;
+  // The memory that marks it
+  memory?: Memory;
+}
+
+export interface NudgeSignals {
+  // Undefined when the user has no memories yet
+  daysSinceLastMemory?: number;
+  // Most overdue first
+  inactivePeople: InactivePerson[];
+  // Emotions the user used to write about but hasn't lately, most common first
+  emotionalGaps: string[];
+  // Reached in the last MILESTONE_WINDOW_DAYS, most recent first
+  milestones: Milestone[];
+}
+
+export type NudgeRunSkip = 'disabled' | 'quiet_hours' | 'cap_reached' | 'no_signals';
+
+export interface NudgeRunResult {
+  created: NudgeView[];
+  skipped?: NudgeRunSkip;
+}
+
+// How often every user's signals are checked; set NUDGE_SCHEDULER=false to turn it off
+const SCHEDULER_INTERVAL_MS = parseInt(process.env.NUDGE_SCHEDULER_INTERVAL_MS || '3600000');
+const SCHEDULER_ENABLED = process.env.NUDGE_SCHEDULER !== 'false';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 100;
+// Signals are computed from this much history
+const LOOKBACK_DAYS = 365;
+// Days without a memory before suggesting the user write one
+const SILENCE_DAYS = 3;
+// People need this many mentions before they have a usual cadence
+const MIN_MENTIONS = 3;
+// Someone is inactive once it's been this many times their usual gap, and never sooner than MIN_INACTIVE_DAYS
+const CADENCE_MULTIPLIER = 2;
+const MIN_INACTIVE_DAYS = 14;
+const MAX_INACTIVE_PEOPLE = 5;
+// Emotions missing for EMOTION_WINDOW_DAYS that came up at least MIN_EMOTION_MENTIONS times before that
+const EMOTION_WINDOW_DAYS = 30;
+const MIN_EMOTION_MENTIONS = 2;
+const MAX_EMOTIONAL_GAPS = 3;
+// Memory counts worth celebrating; every COUNT_MILESTONE_STEP after the last one too
+const COUNT_MILESTONES = [10, 25, 50, 100, 250, 500, 1000];
+const COUNT_MILESTONE_STEP = 500;
+const MILESTONE_WINDOW_DAYS = 7;
+// Generated nudges go stale; they expire after this long
+const NUDGE_TTL_DAYS = 7;
+// Users who opt in get a resurfaced memory as a nudge at most this often
+const MEMORY_NUDGE_INTERVAL_HOURS = 20;
+
+export const DEFAULT_NUDGE_PREFERENCES: Required<Omit<NudgePreferences, 'quietHours' | 'timezone'>> = {
+  enabled: true,
+  maxPerDay: 2,
+  maxPerWeek: 7,
+};
+const MAX_PER_DAY_LIMIT = 20;
+const MAX_PER_WEEK_LIMIT = 100;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+let schedulerTimer: NodeJS.Timeout | undefined;
+
+const isCount = (value: unknown, max: number): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= max;
+
+// Checks `preferences.nudges` from a profile update; returns the first problem found
+export const invalidNudgePreferences = (value: unknown): string | undefined => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'Nudge preferences must be an object';
+  }
+
+  const { enabled, quietHours, timezone, maxPerDay, maxPerWeek } = value as Record<string, unknown>;
+
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    return 'Nudge preference enabled must be true or false';
+  }
+  if (quietHours !== undefined) {
+    const { start, end } = (quietHours || {}) as Record<string, unknown>;
+    if (typeof start !== 'string' || typeof end !== 'string' || !TIME_PATTERN.test(start) || !TIME_PATTERN.test(end)) {
+      return 'Quiet hours need a start and end as HH:MM';
+    }
+  }
+  if (timezone !== undefined && (typeof timezone !== 'string' || !isTimeZone(timezone))) {
+    return 'Timezone must be an IANA time zone such as Europe/London';
+  }
+  if (maxPerDay !== undefined && !isCount(maxPerDay, MAX_PER_DAY_LIMIT)) {
+    return `maxPerDay must be a whole number from 0 to ${MAX_PER_DAY_LIMIT}`;
+  }
+  if (maxPerWeek !== undefined && !isCount(maxPerWeek, MAX_PER_WEEK_LIMIT)) {
+    return `maxPerWeek must be a whole number from 0 to ${MAX_PER_WEEK_LIMIT}`;
+  }
+  return undefined;
+};
+
+const minutesOf = (time: string): number => {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Whether `now` falls in the user's quiet hours, read in their time zone
+export const isQuietTime = (preferences: NudgePreferences, now: Date = new Date()): boolean => {
+  if (!preferences.quietHours) {
+    return false;
+  }
+
+  const { hour, minute } = localClock(now, preferences.timezone);
+  const local = hour * 60 + minute;
+
+  const start = minutesOf(preferences.quietHours.start);
+  const end = minutesOf(preferences.quietHours.end);
+  return start <= end ? local >= start && local < end : local >= start || local < end;
+};
+
+const daysBetween = (from: Date, to: Date): number =>
+  Math.floor((to.getTime() - from.getTime()) / DAY_MS);
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle] ?? 0
+    : ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2;
+};
+
+const memoriesSince = async (userId: string, since: Date): Promise<Memory[]> => {
+  const memories: Memory[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await getMemoryRepository().list(userId, {
+      dateFrom: since,
+      sortOrder: 'asc',
+      limit: PAGE_SIZE,
+      offset,
+    });
+    memories.push(...page.memories);
+    if (page.memories.length < PAGE_SIZE) {
+      return memories;
+    }
+  }
+};
+
+const inactivePeopleIn = (memories: Memory[], people: Person[], now: Date): InactivePerson[] =>
+  people
+    .map(person => {
+      const names = personMentions(person).map(name => name.toLowerCase());
+      const mentions = memories
+        .filter(memory => (memory.people || []).some(name => names.includes(name.toLowerCase())))
+        .map(memory => memory.createdAt);
+      const last = mentions[mentions.length - 1];
+
+      if (mentions.length < MIN_MENTIONS || !last) {
+        return null;
+      }
+
+      const gaps = mentions.slice(1).map((date, i) => (date.getTime() - (mentions[i] as Date).getTime()) / DAY_MS);
+      const usualGapDays = Math.max(1, Math.round(median(gaps)));
+      const daysSinceMention = daysBetween(last, now);
+
+      return daysSinceMention >= Math.max(MIN_INACTIVE_DAYS, usualGapDays * CADENCE_MULTIPLIER)
+        ? { person, daysSinceMention, usualGapDays }
+        : null;
+    })
+    .filter((entry): entry is InactivePerson => entry !== null)
+    .sort((a, b) => b.daysSinceMention / b.usualGapDays - a.daysSinceMention / a.usualGapDays)
+    .slice(0, MAX_INACTIVE_PEOPLE);
+
+const emotionsOf = (memory: Memory): string[] =>
+  memory.emotions
+    ? [memory.emotions.primary, ...(memory.emotions.secondary || [])].map(emotion => emotion.toLowerCase())
+    : [];
+
+// Only meaningful while the user is still writing; a silent user gets a silence nudge instead
+const emotionalGapsIn = (memories: Memory[], now: Date, minMentions: number = MIN_EMOTION_MENTIONS): string[] => {
+  const windowStart = now.getTime() - EMOTION_WINDOW_DAYS * DAY_MS;
+  const recent = memories.filter(memory => memory.createdAt.getTime() >= windowStart);
+  if (recent.length === 0) {
+    return [];
+  }
+
+  const recentEmotions = new Set(recent.flatMap(emotionsOf));
+  const earlier = new Map<string, number>();
+  memories
+    .filter(memory => memory.createdAt.getTime() < windowStart)
+    .flatMap(emotionsOf)
+    .forEach(emotion => earlier.set(emotion, (earlier.get(emotion) || 0) + 1));
+
+  return Array.from(earlier.entries())
+    .filter(([emotion, count]) => count >= minMentions && !recentEmotions.has(emotion))
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_EMOTIONAL_GAPS)
+    .map(([emotion]) => emotion);
+};
+
+const ordinal = (n: number): string => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+};
+
+// The largest memory count milestone at or below `total`
+const countMilestoneFor = (total: number): number | undefined => {
+  const last = COUNT_MILESTONES[COUNT_MILESTONES.length - 1] as number;
+  return total >= last
+    ? Math.floor(total / COUNT_MILESTONE_STEP) * COUNT_MILESTONE_STEP
+    : [...COUNT_MILESTONES].reverse().find(count => count <= total);
+};
+
+// The most recent anniversary of `date` that has passed, with its number of years
+const lastAnniversary = (date: Date, now: Date): { years: number; on: Date } => {
+  let years = now.getUTCFullYear() - date.getUTCFullYear();
+  const on = (n: number): Date => {
+    const anniversary = new Date(date);
+    anniversary.setUTCFullYear(date.getUTCFullYear() + n);
+    return anniversary;
+  };
+  if (on(years) > now) {
+    years--;
+  }
+  return { years, on: on(years) };
+};
+
+const yearsLabel = (years: number): string => (years === 1 ? 'One year' : `${years} years`);
+
+// Memory counts and anniversaries, newest first. `recentOnly` keeps those
+// reached within MILESTONE_WINDOW_DAYS.
+const findMilestones = async (userId: string, people: Person[], now: Date, recentOnly: boolean): Promise<Milestone[]> => {
+  const memoryRepository = getMemoryRepository();
+  const milestones: Milestone[] = [];
+
+  const { memories: [first], total } = await memoryRepository.list(userId, { sortOrder: 'asc', limit: 1 });
+  if (!first) {
+    return [];
+  }
+
+  const count = countMilestoneFor(total);
+  if (count) {
+    const { memories: [marker] } = await memoryRepository.list(userId, { sortOrder: 'asc', limit: 1, offset: count - 1 });
+    if (marker) {
+      milestones.push({ description: `Your ${ordinal(count)} memory`, date: marker.createdAt, memory: marker });
+    }
+  }
+
+  const journal = lastAnniversary(first.createdAt, now);
+  if (journal.years >= 1) {
+    milestones.push({ description: `${yearsLabel(journal.years)} of journaling`, date: journal.on, memory: first });
+  }
+
+  for (const person of people) {
+    const { memories: [firstWith] } = await memoryRepository.list(userId, {
+      people: personMentions(person),
+      sortOrder: 'asc',
+      limit: 1,
+    });
+    const anniversary = firstWith && lastAnniversary(firstWith.createdAt, now);
+    if (firstWith && anniversary && anniversary.years >= 1) {
+      milestones.push({
+        description: `${yearsLabel(anniversary.years)} since your first memory with ${person.name}`,
+        date: anniversary.on,
+        person,
+        memory: firstWith,
+      });
+    }
+  }
+
+  const windowStart = now.getTime() - MILESTONE_WINDOW_DAYS * DAY_MS;
+  return milestones
+    .filter(milestone => !recentOnly || milestone.date.getTime() >= windowStart)
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+};
+
+const signalsFrom = async (userId: string, memories: Memory[], people: Person[], now: Date): Promise<NudgeSignals> => {
+  const latest = memories[memories.length - 1]
+    || (await getMemoryRepository().list(userId, { limit: 1 })).memories[0];
+
+  return {
+    ...(latest && { daysSinceLastMemory: daysBetween(latest.createdAt, now) }),
+    inactivePeople: inactivePeopleIn(memories, people, now),
+    emotionalGaps: emotionalGapsIn(memories, now),
+    milestones: await findMilestones(userId, people, now, true),
+  };
+};
+
+// Silence streak, overdue people, missing emotions and recent milestones from the user's memories
+export const computeNudgeSignals = async (userId: string, now: Date = new Date()): Promise<NudgeSignals> =>
+  signalsFrom(
+    userId,
+    await memoriesSince(userId, new Date(now.getTime() - LOOKBACK_DAYS * DAY_MS)),
+    await getPersonRepository().list(userId),
+    now
+  );
+
+const hasSignals = (signals: NudgeSignals): boolean =>
+  signals.daysSinceLastMemory === undefined
+  || signals.daysSinceLastMemory >= SILENCE_DAYS
+  || signals.inactivePeople.length > 0
+  || signals.emotionalGaps.length > 0
+  || signals.milestones.length > 0;
+
+// Open nudges about the same thing count as duplicates: same type and people
+const dedupeKey = (nudge: Pick<Nudge, 'type' | 'relatedPeople'>): string =>
+  `${nudge.type}:${[...nudge.relatedPeople].sort().join(',')}`;
+
+const openNudgeKeys = async (userId: string, now: Date): Promise<Set<string>> => {
+  const repository = getNudgeRepository();
+  const open = [
+    ...await repository.list(userId, { status: 'active', now }),
+    ...await repository.list(userId, { status: 'snoozed', now }),
+  ];
+  return new Set(open.map(dedupeKey));
+};
+
+// How many more nudges the user's daily and weekly caps allow right now
+const remainingBudget = async (userId: string, preferences: NudgePreferences, now: Date): Promise<number> => {
+  const repository = getNudgeRepository();
+  const today = await repository.list(userId, { createdAfter: new Date(now.getTime() - DAY_MS), now });
+  const thisWeek = await repository.list(userId, { createdAfter: new Date(now.getTime() - 7 * DAY_MS), now });
+
+  return Math.min(
+    (preferences.maxPerDay ?? DEFAULT_NUDGE_PREFERENCES.maxPerDay) - today.length,
+    (preferences.maxPerWeek ?? DEFAULT_NUDGE_PREFERENCES.maxPerWeek) - thisWeek.length
+  );
+};
+
+// Person names from the AI mapped back to ids; names it made up are dropped
+const resolvePeople = (names: string[], people: Person[]): string[] =>
+  Array.from(new Set(names.flatMap(name => {
+    const person = people.find(candidate =>
+      personMentions(candidate).some(mention => mention.toLowerCase() === name.trim().toLowerCase()));
+    return person ? [person.id] : [];
+  })));
+
+// The day's resurfaced memory as a nudge, for users who asked for one
+const scheduledMemoryNudge = async (user: UserRecord, now: Date): Promise<NudgeView | null> => {
+  if (user.preferences?.resurfacing?.nudge !== true) {
+    return null;
+  }
+
+  const recent = await getNudgeRepository().list(user.id, {
+    createdAfter: new Date(now.getTime() - MEMORY_NUDGE_INTERVAL_HOURS * 60 * 60 * 1000),
+    now,
+  });
+  return recent.some(nudge => nudge.type === 'memory') ? null : createResurfacingNudge(user.id, now);
+};
+
+// Compute the user's signals and store whatever new nudges they call for,
+// within the user's quiet hours and caps
+export const generateScheduledNudges = async (userId: string, now: Date = new Date()): Promise<NudgeRunResult> => {
+  const user = await getUserRepository().findById(userId);
+  const preferences: NudgePreferences = user?.preferences?.nudges || {};
+
+  if (!user || preferences.enabled === false) {
+    return { created: [], skipped: 'disabled' };
+  }
+  if (isQuietTime(preferences, now)) {
+    return { created: [], skipped: 'quiet_hours' };
+  }
+
+  const budget = await remainingBudget(userId, preferences, now);
+  if (budget <= 0) {
+    return { created: [], skipped: 'cap_reached' };
+  }
+
+  const created: NudgeView[] = [];
+  const memoryNudge = await scheduledMemoryNudge(user, now);
+  if (memoryNudge) {
+    created.push(memoryNudge);
+  }
+
+  const signals = await computeNudgeSignals(userId, now);
+  if (!hasSignals(signals) && created.length === 0) {
+    return { created: [], skipped: 'no_signals' };
+  }
+
+  const people = await getPersonRepository().list(userId);
+  const suggestions = hasSignals(signals) && created.length < budget ? await generateNudges({
+    userId,
+    ...(signals.daysSinceLastMemory !== undefined && { daysSinceLastMemory: signals.daysSinceLastMemory }),
+    emotionalGaps: signals.emotionalGaps,
+    inactivePeople: signals.inactivePeople.map(({ person }) => person.name),
+    milestones: signals.milestones.map(milestone => milestone.description),
+  }) : [];
+
+  const seen = await openNudgeKeys(userId, now);
+
+  for (const suggestion of suggestions) {
+    if (created.length >= budget) {
+      break;
+    }
+
+    const relatedPeople = resolvePeople(suggestion.relatedPeople || [], people);
+    const key = dedupeKey({ type: suggestion.type, relatedPeople });
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+
+    created.push(await createNudge(userId, {
+      type: suggestion.type,
+      title: suggestion.title,
+      message: suggestion.message,
+      priority: suggestion.priority,
+      relatedPeople,
+      expiresAt: new Date(now.getTime() + NUDGE_TTL_DAYS * DAY_MS),
+    }));
+  }
+
+  if (created.length > 0) {
+    logger.info(`Generated ${created.length} nudges for user ${userId}`);
+    // The nudges are stored either way; a failure here shouldn't retry the run
+    await notifyNudges(userId, created).catch(error => logger.error(`Failed to queue notifications for user ${userId}:`, error));
+  }
+
+  return { created };
+};
+
+// The person mentioned longest ago in `memories`; people never mentioned come first
+const leastRecentlyMentioned = (memories: Memory[], people: Person[]): Person | undefined => {
+  const lastMention = (person: Person): number => {
+    const names = personMentions(person).map(name => name.toLowerCase());
+    const last = [...memories].reverse()
+      .find(memory => (memory.people || []).some(name => names.includes(name.toLowerCase())));
+    return last ? last.createdAt.getTime() : 0;
+  };
+  return [...people].sort((a, b) => lastMention(a) - lastMention(b))[0];
+};
+
+const latestMemoryWith = async (userId: string, person: Person): Promise<Memory | undefined> =>
+  (await getMemoryRepository().list(userId, { people: personMentions(person), limit: 1 })).memories[0];
+
+// Generate and store one nudge of `type` on request, built from the user's
+// own context: the person to reconnect with (`personId`, or whoever is most
+// overdue), the missing emotion, the milestone to celebrate, or the memory to
+// resurface. Requested nudges skip quiet hours and caps.
+export const generateNudgeOfType = async (
+  userId: string,
+  type: NudgeType,
+  personId?: string,
+  now: Date = new Date()
+): Promise<NudgeView> => {
+  // Resurfaced memories are picked, not written by the AI
+  if (type === 'memory') {
+    const nudge = await createResurfacingNudge(userId, now);
+    if (!nudge) {
+      throw new CustomError('No memories to resurface today', 404);
+    }
+    return nudge;
+  }
+
+  const people = await getPersonRepository().list(userId);
+  const memories = await memoriesSince(userId, new Date(now.getTime() - LOOKBACK_DAYS * DAY_MS));
+  const signals = await signalsFrom(userId, memories, people, now);
+
+  const chosen = personId ? people.find(person => person.id === personId) : undefined;
+  if (personId && !chosen) {
+    throw new CustomError('Person not found', 404);
+  }
+
+  const relatedPeople: string[] = [];
+  const relatedMemories: string[] = [];
+  const context: { inactivePeople?: string[]; emotionalGaps?: string[]; milestones?: string[] } = {};
+
+  if (type === 'reconnect' || type === 'person_reminder') {
+    const person = chosen || signals.inactivePeople[0]?.person || leastRecentlyMentioned(memories, people);
+    if (!person) {
+      throw new CustomError('Add someone to your people first', 404);
+    }
+
+    const latest = await latestMemoryWith(userId, person);
+    context.inactivePeople = [person.name];
+    relatedPeople.push(person.id);
+    if (latest) relatedMemories.push(latest.id);
+  } else if (type === 'emotional_gap') {
+    // Without a strong gap, any emotion missing from the last month will do
+    context.emotionalGaps = signals.emotionalGaps.length > 0 ? signals.emotionalGaps : emotionalGapsIn(memories, now, 1);
+  } else if (type === 'milestone') {
+    const milestones = signals.milestones.length > 0
+      ? signals.milestones
+      : await findMilestones(userId, people, now, false);
+    const milestone = milestones.find(candidate => !chosen || candidate.person?.id === chosen.id);
+    if (!milestone) {
+      throw new CustomError('No milestones to celebrate yet', 404);
+    }
+
+    context.milestones = [milestone.description];
+    if (milestone.person) relatedPeople.push(milestone.person.id);
+    if (milestone.memory) relatedMemories.push(milestone.memory.id);
+  }
+
+  const suggestions = await generateNudges({
+    userId,
+    type,
+    ...(signals.daysSinceLastMemory !== undefined && { daysSinceLastMemory: signals.daysSinceLastMemory }),
+    ...context,
+  });
+  const suggestion = suggestions.find(candidate => candidate.type === type);
+  if (!suggestion) {
+    throw new CustomError('Failed to generate nudge', 502);
+  }
+
+  return createNudge(userId, {
+    type,
+    title: suggestion.title,
+    message: suggestion.message,
+    priority: suggestion.priority,
+    relatedPeople: Array.from(new Set([...relatedPeople, ...resolvePeople(suggestion.relatedPeople || [], people)])),
+    relatedMemories,
+    expiresAt: new Date(now.getTime() + NUDGE_TTL_DAYS * DAY_MS),
+  });
+};
+
+// Queue a nudge run for every user
+export const scheduleNudgeRuns = async (): Promise<number> => {
+  const userIds = await getUserRepository().listIds();
+  for (const userId of userIds) {
+    await enqueueJob<GenerateNudgesPayload>(GENERATE_NUDGES_JOB, { userId }, { maxAttempts: 3 });
+  }
+  return userIds.length;
+};
+
+export const registerNudgeJobs = (): void => {
+  registerJobHandler<GenerateNudgesPayload>(GENERATE_NUDGES_JOB, {
+    async run({ userId }) {
+      await generateScheduledNudges(userId);
+    },
+  });
+};
+
+export const startNudgeScheduler = (): void => {
+  if (!SCHEDULER_ENABLED || schedulerTimer) {
+    return;
+  }
+
+  schedulerTimer = setInterval(() => {
+    scheduleNudgeRuns().catch(error => logger.error('Failed to schedule nudge runs:', error));
+  }, SCHEDULER_INTERVAL_MS);
+  schedulerTimer.unref();
+  logger.info(`Nudge scheduler started (every ${SCHEDULER_INTERVAL_MS}ms)`);
+};
+
+export const stopNudgeScheduler = (): void => {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = undefined;
+  }
+};
+
+export default {
+  invalidNudgePreferences,
+  isQuietTime,
+  computeNudgeSignals,
+  generateScheduledNudges,
+  generateNudgeOfType,
+  scheduleNudgeRuns,
+  registerNudgeJobs,
+  startNudgeScheduler,
+  stopNudgeScheduler,
+};
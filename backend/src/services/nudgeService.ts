@@ -0,0 +1,165 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CustomError } from '../middleware/errorHandler';
+import { getMemoryRepository, getNudgeRepository, getPersonRepository, nudgeStatus } from '../repositories';
+import { Nudge, NudgePriority, NudgeStatus, NudgeType } from '../types';
+
+export const NUDGE_TYPES: NudgeType[] = ['reconnect', 'log_memory', 'emotional_gap', 'person_reminder', 'milestone', 'memory'];
+export const NUDGE_PRIORITIES: NudgePriority[] = ['low', 'medium', 'high'];
+export const NUDGE_STATUSES: NudgeStatus[] = ['active', 'snoozed', 'actioned', 'dismissed', 'expired'];
+
+export const DEFAULT_SNOOZE_HOURS = 24;
+const MAX_SNOOZE_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A nudge as the API returns it, with its lifecycle state spelled out
+export interface NudgeView extends Nudge {
+  status: NudgeStatus;
+}
+
+export interface NewNudge {
+  type: NudgeType;
+  title: string;
+  message: string;
+  priority?: NudgePriority;
+  relatedPeople?: string[];
+  relatedMemories?: string[];
+  expiresAt?: Date;
+}
+
+export type NudgeChanges = Partial<Pick<Nudge, 'title' | 'message' | 'priority' | 'expiresAt'>>;
+
+export const toNudgeView = (nudge: Nudge, now: Date = new Date()): NudgeView => ({
+  ...nudge,
+  status: nudgeStatus(nudge, now),
+});
+
+const findNudge = async (userId: string, id: string): Promise<Nudge> => {
+  const nudge = await getNudgeRepository().findById(userId, id);
+  if (!nudge) {
+    throw new CustomError('Nudge not found', 404);
+  }
+  return nudge;
+};
+
+const saveNudge = async (userId: string, id: string, changes: Partial<Nudge>): Promise<NudgeView> => {
+  const updated = await getNudgeRepository().update(userId, id, changes);
+  if (!updated) {
+    throw new CustomError('Nudge not found', 404);
+  }
+  return toNudgeView(updated);
+};
+
+// Only active and snoozed nudges can still be acted on, snoozed or dismissed
+const requireOpen = (nudge: Nudge, action: string): void => {
+  const status = nudgeStatus(nudge);
+  if (status !== 'active' && status !== 'snoozed') {
+    throw new CustomError(`A nudge that is ${status} cannot be ${action}`, 409);
+  }
+};
+
+// Related people and memories must be the user's own
+const checkRelated = async (userId: string, personIds: string[], memoryIds: string[]): Promise<void> => {
+  const people = await getPersonRepository().list(userId);
+  if (personIds.some(id => !people.some(person => person.id === id))) {
+    throw new CustomError('Related person not found', 404);
+  }
+
+  const memories = memoryIds.length > 0 ? await getMemoryRepository().findByIds(userId, memoryIds) : [];
+  if (memories.length < memoryIds.length) {
+    throw new CustomError('Related memory not found', 404);
+  }
+};
+
+export const createNudge = async (userId: string, input: NewNudge): Promise<NudgeView> => {
+  const relatedPeople = Array.from(new Set(input.relatedPeople || []));
+  const relatedMemories = Array.from(new Set(input.relatedMemories || []));
+  await checkRelated(userId, relatedPeople, relatedMemories);
+
+  const nudge = await getNudgeRepository().create({
+    id: uuidv4(),
+    userId,
+    type: input.type,
+    title: input.title,
+    message: input.message,
+    priority: input.priority || 'medium',
+    relatedPeople,
+    relatedMemories,
+    isRead: false,
+    isActioned: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...(input.expiresAt && { expiresAt: input.expiresAt }),
+  });
+
+  return toNudgeView(nudge);
+};
+
+export const getNudge = async (userId: string, id: string): Promise<NudgeView> =>
+  toNudgeView(await findNudge(userId, id));
+
+// Newest first; `status` narrows to nudges in that state right now
+export const listNudges = async (
+  userId: string,
+  options: { status?: NudgeStatus; limit: number; offset: number }
+): Promise<NudgeView[]> => {
+  const now = new Date();
+  const nudges = await getNudgeRepository().list(userId, { ...options, now });
+  return nudges.map(nudge => toNudgeView(nudge, now));
+};
+
+export const updateNudge = async (userId: string, id: string, changes: NudgeChanges): Promise<NudgeView> => {
+  await findNudge(userId, id);
+  return saveNudge(userId, id, changes);
+};
+
+export const markNudgeRead = async (userId: string, id: string, isRead: boolean): Promise<NudgeView> => {
+  await findNudge(userId, id);
+  return saveNudge(userId, id, { isRead });
+};
+
+// The user did what the nudge suggested; final
+export const actOnNudge = async (userId: string, id: string): Promise<NudgeView> => {
+  requireOpen(await findNudge(userId, id), 'actioned');
+  return saveNudge(userId, id, { isActioned: true, isRead: true });
+};
+
+// Hide the nudge until `until`; snoozing again moves the time
+export const snoozeNudge = async (userId: string, id: string, until: Date): Promise<NudgeView> => {
+  const nudge = await findNudge(userId, id);
+  requireOpen(nudge, 'snoozed');
+
+  const now = Date.now();
+  if (until.getTime() <= now || until.getTime() - now > MAX_SNOOZE_DAYS * DAY_MS) {
+    throw new CustomError(`A nudge can be snoozed for up to ${MAX_SNOOZE_DAYS} days`, 400);
+  }
+  if (nudge.expiresAt && until >= nudge.expiresAt) {
+    throw new CustomError('The nudge expires before the snooze would end', 400);
+  }
+
+  return saveNudge(userId, id, { snoozedUntil: until });
+};
+
+// The user isn't interested; final
+export const dismissNudge = async (userId: string, id: string): Promise<NudgeView> => {
+  requireOpen(await findNudge(userId, id), 'dismissed');
+  return saveNudge(userId, id, { dismissedAt: new Date(), isRead: true });
+};
+
+export const deleteNudge = async (userId: string, id: string): Promise<void> => {
+  if (!await getNudgeRepository().delete(userId, id)) {
+    throw new CustomError('Nudge not found', 404);
+  }
+};
+
+export default {
+  toNudgeView,
+  createNudge,
+  getNudge,
+  listNudges,
+  updateNudge,
+  markNudgeRead,
+  actOnNudge,
+  snoozeNudge,
+  dismissNudge,
+  deleteNudge,
+};
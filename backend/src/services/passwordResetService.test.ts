@@ -0,0 +1,90 @@
+import { getRefreshTokenRepository, getUserRepository, initializeRepositories } from '../repositories';
+import { createTestUser } from '../test/fixtures';
+import { hashToken, issueSession, toPublicUser, verifyPassword } from './authService';
+import { runPendingJobs } from './jobQueue';
+import { MailMessage, setMailer } from './mailer';
+import {
+  queuePasswordReset,
+  registerPasswordResetJobs,
+  requestPasswordReset,
+  resetPassword,
+} from './passwordResetService';
+
+describe('password reset', () => {
+  let sent: MailMessage[];
+
+  const tokenFrom = (message: MailMessage | undefined): string =>
+    decodeURIComponent(/token=([^\s]+)/.exec(message?.text || '')?.[1] || '');
+
+  beforeAll(() => {
+    registerPasswordResetJobs();
+  });
+
+  beforeEach(async () => {
+    await initializeRepositories();
+    sent = [];
+    setMailer({ send: async message => { sent.push(message); } });
+  });
+
+  it('emails a reset link to a known address', async () => {
+    const user = await createTestUser({ email: 'ada@example.com' });
+
+    await requestPasswordReset(' ada@example.com ');
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]?.to).toBe(user.email);
+    expect(tokenFrom(sent[0])).not.toBe('');
+  });
+
+  it('sends nothing for an unknown address', async () => {
+    await requestPasswordReset('nobody@example.com');
+
+    expect(sent).toHaveLength(0);
+  });
+
+  it('sends the email from the job queue and retries a mail failure', async () => {
+    await createTestUser({ email: 'ada@example.com' });
+    const send = jest.fn()
+      .mockRejectedValueOnce(new Error('SMTP unavailable'))
+      .mockResolvedValueOnce(undefined);
+    setMailer({ send });
+
+    await queuePasswordReset('ada@example.com');
+    expect(send).not.toHaveBeenCalled();
+
+    await runPendingJobs();
+    expect(send).toHaveBeenCalledTimes(1);
+
+    jest.useFakeTimers({ now: Date.now() + 60 * 60 * 1000 });
+    try {
+      await runPendingJobs();
+    } finally {
+      jest.useRealTimers();
+    }
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('sets the new password once and signs out every session', async () => {
+    const user = await createTestUser({ email: 'ada@example.com' });
+    const session = await issueSession(toPublicUser(user));
+    await requestPasswordReset(user.email);
+    const token = tokenFrom(sent[0]);
+
+    await resetPassword(token, 'a brand new password');
+
+    const updated = await getUserRepository().findById(user.id);
+    expect(await verifyPassword('a brand new password', updated!.passwordHash)).toBe(true);
+    expect(updated?.passwordChangedAt).toBeInstanceOf(Date);
+    expect((await getRefreshTokenRepository().findByHash(hashToken(session.refreshToken)))?.revokedAt).toBeInstanceOf(Date);
+    await expect(resetPassword(token, 'another password')).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('only honours the most recent link', async () => {
+    const user = await createTestUser({ email: 'ada@example.com' });
+    await requestPasswordReset(user.email);
+    await requestPasswordReset(user.email);
+
+    await expect(resetPassword(tokenFrom(sent[0]), 'a brand new password')).rejects.toMatchObject({ statusCode: 400 });
+    await expect(resetPassword(tokenFrom(sent[1]), 'a brand new password')).resolves.toBeUndefined();
+  });
+});
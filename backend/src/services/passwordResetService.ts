@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import { getPasswordResetTokenRepository, getUserRepository } from '../repositories';
+import { createValidationError } from '../middleware/errorHandler';
+import { hashPassword, hashToken, revokeAllSessions } from './authService';
+import { getMailer } from './mailer';
+import { enqueueJob, registerJobHandler } from './jobQueue';
+
+export const PASSWORD_RESET_JOB = 'password_reset_email';
+
+const RESET_TOKEN_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60');
+
+const buildResetUrl = (token: string): string => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  return `${frontendUrl}/reset-password?token=${encodeURIComponent(token)}`;
+};
+
+// Email a single-use reset link. Unknown addresses are ignored silently so the
+// endpoint can't be used to discover which emails have accounts.
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  const user = await getUserRepository().findByEmail(email.trim());
+
+  if (!user) {
+    logger.info('Password reset requested for unknown email');
+    return;
+  }
+
+  const tokenRepository = getPasswordResetTokenRepository();
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000);
+
+  // Only the most recent link stays valid
+  await tokenRepository.invalidateAllForUser(user.id);
+  await tokenRepository.create({
+    id: uuidv4(),
+    userId: user.id,
+    tokenHash: hashToken(token),
+    expiresAt,
+    createdAt: new Date(),
+  });
+
+  const resetUrl = buildResetUrl(token);
+
+  await getMailer().send({
+    to: user.email,
+    subject: 'Reset your MemoryNest password',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'We received a request to reset your MemoryNest password.',
+      `Use the link below within ${RESET_TOKEN_TTL_MINUTES} minutes to choose a new one:`,
+      '',
+      resetUrl,
+      '',
+      "If you didn't ask for this, you can ignore this email.",
+    ].join('\n'),
+  });
+};
+
+// Send the reset email from the job queue. Every request takes the same path
+// and time whether or not the account exists, and mail failures are retried
+// rather than surfacing to the caller.
+export const queuePasswordReset = async (email: string): Promise<void> => {
+  await enqueueJob<{ email: string }>(PASSWORD_RESET_JOB, { email }, { maxAttempts: 3 });
+};
+
+export const registerPasswordResetJobs = (): void => {
+  registerJobHandler<{ email: string }>(PASSWORD_RESET_JOB, {
+    async run({ email }) {
+      await requestPasswordReset(email);
+    },
+  });
+};
+
+// Consume a reset token, set the new password and sign out every existing session
+export const resetPassword = async (token: string, newPassword: string): Promise<void> => {
+  const tokenRepository = getPasswordResetTokenRepository();
+  const stored = await tokenRepository.findByHash(hashToken(token));
+
+  if (!stored || stored.usedAt || stored.expiresAt.getTime() <= Date.now()) {
+    throw createValidationError('Reset link is invalid or has expired');
+  }
+
+  if (!(await tokenRepository.markUsed(stored.id))) {
+    throw createValidationError('Reset link is invalid or has expired');
+  }
+
+  const user = await getUserRepository().update(stored.userId, {
+    passwordHash: await hashPassword(newPassword),
+    passwordChangedAt: new Date(),
+  });
+
+  if (!user) {
+    throw createValidationError('Reset link is invalid or has expired');
+  }
+
+  await revokeAllSessions(user.id);
+  await tokenRepository.invalidateAllForUser(user.id);
+
+  logger.info(`Password reset completed for user ${user.id}`);
+};
+
+export default {
+  requestPasswordReset,
+  queuePasswordReset,
+  registerPasswordResetJobs,
+  resetPassword,
+};
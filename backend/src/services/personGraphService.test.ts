@@ -0,0 +1,95 @@
+import { initializeRepositories } from '../repositories';
+import { createTestMemory, createTestPerson, createTestUser } from '../test/fixtures';
+import { getPeopleGraph } from './personGraphService';
+
+const NOW = new Date('2024-06-01T12:00:00Z');
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+
+describe('personGraphService', () => {
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    await initializeRepositories();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('joins people who appear in the same memories, halving the weight every half-life', async () => {
+    const user = await createTestUser();
+    const sarah = await createTestPerson(user.id, 'Sarah', { aliases: ['Sare'] });
+    const tom = await createTestPerson(user.id, 'Tom');
+    await createTestMemory(user.id, { people: ['Sarah', 'Tom'], createdAt: daysAgo(0) });
+    await createTestMemory(user.id, { people: ['sare', 'Tom', 'Someone new'], createdAt: daysAgo(30) });
+    await createTestMemory(user.id, { people: ['Sarah'], createdAt: daysAgo(10) });
+
+    const graph = await getPeopleGraph(user.id, 30);
+
+    expect(graph.halfLifeDays).toBe(30);
+    expect(graph.nodes).toEqual(expect.arrayContaining([
+      expect.objectContaining({ id: sarah.id, name: 'Sarah', memoryCount: 3 }),
+      expect.objectContaining({ id: tom.id, name: 'Tom', memoryCount: 2 }),
+    ]));
+    expect(graph.edges).toEqual([{
+      source: sarah.id < tom.id ? sarah.id : tom.id,
+      target: sarah.id < tom.id ? tom.id : sarah.id,
+      weight: 1.5,
+      memoryCount: 2,
+      lastSharedAt: daysAgo(0),
+    }]);
+  });
+
+  it('lets a longer half-life keep old memories strong', async () => {
+    const user = await createTestUser();
+    await createTestPerson(user.id, 'Sarah');
+    await createTestPerson(user.id, 'Tom');
+    await createTestMemory(user.id, { people: ['Sarah', 'Tom'], createdAt: daysAgo(60) });
+
+    expect((await getPeopleGraph(user.id, 30)).edges[0]?.weight).toBe(0.25);
+    expect((await getPeopleGraph(user.id, 60)).edges[0]?.weight).toBe(0.5);
+    expect((await getPeopleGraph(user.id)).edges[0]?.weight).toBe(0.794);
+  });
+
+  it('groups people who mostly appear together into labelled communities', async () => {
+    const user = await createTestUser();
+    // Fixed ids keep the tie-breaks in label propagation the same on every run
+    await createTestPerson(user.id, 'Ann', { id: 'ann', relationship: 'College friend' });
+    await createTestPerson(user.id, 'Ben', { id: 'ben', relationship: 'college friend ' });
+    await createTestPerson(user.id, 'Cat', { id: 'cat' });
+    await createTestPerson(user.id, 'Dan', { id: 'dan' });
+    await createTestPerson(user.id, 'Eve', { id: 'eve' });
+    await createTestPerson(user.id, 'Fay', { id: 'fay' });
+    const together = async (people: string[], times: number, tags: string[] = []) => {
+      for (let i = 0; i < times; i++) {
+        await createTestMemory(user.id, { people, tags, createdAt: daysAgo(i) });
+      }
+    };
+    await together(['Ann', 'Ben'], 3, ['reunion']);
+    await together(['Ann', 'Cat'], 2, ['reunion', 'campus']);
+    await together(['Ben', 'Cat'], 2);
+    await together(['Cat', 'Dan'], 1);
+    await together(['Dan', 'Eve'], 3, ['work']);
+    await together(['Fay'], 1);
+
+    const graph = await getPeopleGraph(user.id);
+
+    expect(graph.communities).toEqual([
+      { id: '1', label: 'college friend', personIds: ['ann', 'ben', 'cat'], tags: ['reunion', 'campus'] },
+      { id: '2', label: 'work', personIds: ['dan', 'eve'], tags: ['work'] },
+    ]);
+    const communityOf = Object.fromEntries(graph.nodes.map(node => [node.id, node.communityId]));
+    expect(communityOf).toEqual({ ann: '1', ben: '1', cat: '1', dan: '2', eve: '2', fay: undefined });
+  });
+
+  it('leaves people without shared memories out of every community', async () => {
+    const user = await createTestUser();
+    await createTestPerson(user.id, 'Sarah');
+    await createTestMemory(user.id, { people: ['Sarah'] });
+
+    const graph = await getPeopleGraph(user.id);
+
+    expect(graph.edges).toEqual([]);
+    expect(graph.communities).toEqual([]);
+    expect(graph.nodes[0]).not.toHaveProperty('communityId');
+  });
+});
@@ -0,0 +1,251 @@
+import { CustomError } from '../middleware/errorHandler';
+import { getMemoryRepository, getPersonRepository } from '../repositories';
+import { Memory, Person } from '../types';
+import { personMentions } from './personInsightsService';
+import { isKnownAs, normalizePersonName } from './personResolutionService';
+
+// A memory shared this long ago counts half as much as one from today
+export const DEFAULT_HALF_LIFE_DAYS = 180;
+
+const PAGE_SIZE = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_PROPAGATION_ROUNDS = 20;
+const COMMUNITY_TAG_LIMIT = 3;
+const SHARED_MEMORY_LIMIT = 50;
+
+export interface PeopleGraphNode {
+  id: string;
+  name: string;
+  relationship?: string;
+  memoryCount: number;
+  // Set when the person belongs to a community of two or more
+  communityId?: string;
+}
+
+// Undirected; source sorts before target
+export interface PeopleGraphEdge {
+  source: string;
+  target: string;
+  // Shared memories, each decayed by age
+  weight: number;
+  memoryCount: number;
+  lastSharedAt: Date;
+}
+
+export interface PeopleCommunity {
+  id: string;
+  // The relationship most members share, else the most common tag of their shared memories
+  label: string;
+  personIds: string[];
+  tags: string[];
+}
+
+export interface PeopleGraph {
+  nodes: PeopleGraphNode[];
+  edges: PeopleGraphEdge[];
+  communities: PeopleCommunity[];
+  halfLifeDays: number;
+}
+
+const allMemories = async (userId: string): Promise<Memory[]> => {
+  const memories: Memory[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await getMemoryRepository().list(userId, { limit: PAGE_SIZE, offset });
+    memories.push(...page.memories);
+    if (page.memories.length < PAGE_SIZE) {
+      return memories;
+    }
+  }
+};
+
+const edgeKey = (a: string, b: string): string => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+// The people a memory mentions, by id; names that match nobody are left out
+const mentionedPeople = (memory: Memory, byName: Map<string, Person>): string[] =>
+  Array.from(new Set((memory.people || []).flatMap(name => {
+    const person = byName.get(normalizePersonName(name));
+    return person ? [person.id] : [];
+  })));
+
+// Weighted label propagation: everyone starts in their own community and
+// repeatedly joins the one they are most strongly tied to, until nobody
+// moves. Visiting the best-connected people first, and breaking ties by id,
+// keeps the result the same from one request to the next.
+const detectCommunities = (nodeIds: string[], edges: PeopleGraphEdge[]): Map<string, string> => {
+  const neighbours = new Map<string, Map<string, number>>(nodeIds.map(id => [id, new Map()]));
+  edges.forEach(edge => {
+    neighbours.get(edge.source)?.set(edge.target, edge.weight);
+    neighbours.get(edge.target)?.set(edge.source, edge.weight);
+  });
+
+  const strength = (id: string): number =>
+    Array.from(neighbours.get(id)?.values() || []).reduce((sum, weight) => sum + weight, 0);
+  const order = [...nodeIds].sort((a, b) => strength(b) - strength(a) || a.localeCompare(b));
+  const labels = new Map(nodeIds.map(id => [id, id]));
+
+  for (let round = 0; round < MAX_PROPAGATION_ROUNDS; round++) {
+    let moved = false;
+
+    for (const id of order) {
+      const totals = new Map<string, number>();
+      neighbours.get(id)?.forEach((weight, neighbour) => {
+        const label = labels.get(neighbour) || neighbour;
+        totals.set(label, (totals.get(label) || 0) + weight);
+      });
+      if (totals.size === 0) {
+        continue;
+      }
+
+      const best = Math.max(...totals.values());
+      const current = labels.get(id) || id;
+      const candidates = Array.from(totals.entries())
+        .filter(([, total]) => best - total < 1e-9)
+        .map(([label]) => label)
+        .sort();
+      const next = candidates.includes(current) ? current : candidates[0];
+
+      if (next && next !== current) {
+        labels.set(id, next);
+        moved = true;
+      }
+    }
+
+    if (!moved) {
+      break;
+    }
+  }
+
+  return labels;
+};
+
+const mostCommon = (values: string[]): { value: string; count: number } | undefined => {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([value, count]) => ({ value, count }))[0];
+};
+
+const describeCommunity = (
+  id: string,
+  members: Person[],
+  memories: { memory: Memory; personIds: string[] }[]
+): PeopleCommunity => {
+  const memberIds = new Set(members.map(member => member.id));
+  const together = memories.filter(({ personIds }) => personIds.filter(personId => memberIds.has(personId)).length >= 2);
+  const tagCounts = new Map<string, number>();
+  together.flatMap(({ memory }) => memory.tags || []).forEach(tag => tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1));
+  const tags = Array.from(tagCounts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, COMMUNITY_TAG_LIMIT)
+    .map(([tag]) => tag);
+
+  const relationship = mostCommon(members.flatMap(member => member.relationship?.trim() ? [member.relationship.trim().toLowerCase()] : []));
+  const label = relationship && relationship.count * 2 > members.length
+    ? relationship.value
+    : tags[0] || members.slice(0, 2).map(member => member.name).join(' & ');
+
+  return { id, label, personIds: members.map(member => member.id), tags };
+};
+
+// People as nodes, joined by the memories they appear in together. Recent
+// memories weigh more, halving in weight every `halfLifeDays`, and groups of
+// people who mostly appear with each other are reported as communities.
+export const getPeopleGraph = async (userId: string, halfLifeDays = DEFAULT_HALF_LIFE_DAYS): Promise<PeopleGraph> => {
+  const people = await getPersonRepository().list(userId);
+  const byName = new Map<string, Person>();
+  people.forEach(person => personMentions(person).forEach(name => byName.set(normalizePersonName(name), person)));
+
+  const memories = (await allMemories(userId)).map(memory => ({ memory, personIds: mentionedPeople(memory, byName) }));
+  const memoryCounts = new Map<string, number>();
+  const edges = new Map<string, PeopleGraphEdge>();
+  const now = Date.now();
+
+  for (const { memory, personIds } of memories) {
+    personIds.forEach(id => memoryCounts.set(id, (memoryCounts.get(id) || 0) + 1));
+
+    const createdAt = new Date(memory.createdAt);
+    const decay = Math.pow(0.5, Math.max(0, now - createdAt.getTime()) / DAY_MS / halfLifeDays);
+
+    personIds.forEach((a, index) => {
+      for (const b of personIds.slice(index + 1)) {
+        const key = edgeKey(a, b);
+        const edge = edges.get(key) || {
+          source: a < b ? a : b,
+          target: a < b ? b : a,
+          weight: 0,
+          memoryCount: 0,
+          lastSharedAt: createdAt,
+        };
+        edge.weight += decay;
+        edge.memoryCount += 1;
+        if (createdAt > edge.lastSharedAt) edge.lastSharedAt = createdAt;
+        edges.set(key, edge);
+      }
+    });
+  }
+
+  const edgeList = Array.from(edges.values())
+    .map(edge => ({ ...edge, weight: Math.round(edge.weight * 1000) / 1000 }))
+    .sort((a, b) => b.weight - a.weight);
+  const labels = detectCommunities(people.map(person => person.id), edgeList);
+
+  const groups = new Map<string, Person[]>();
+  people.forEach(person => {
+    const label = labels.get(person.id) || person.id;
+    groups.set(label, [...(groups.get(label) || []), person]);
+  });
+  const communities = Array.from(groups.entries())
+    .filter(([, members]) => members.length >= 2)
+    .sort((a, b) => b[1].length - a[1].length)
+    .map(([, members], index) => describeCommunity(String(index + 1), members, memories));
+  const communityOf = new Map(communities.flatMap(community => community.personIds.map(id => [id, community.id] as const)));
+
+  return {
+    nodes: people.map(person => {
+      const communityId = communityOf.get(person.id);
+      return {
+        id: person.id,
+        name: person.name,
+        ...(person.relationship && { relationship: person.relationship }),
+        memoryCount: memoryCounts.get(person.id) || 0,
+        ...(communityId && { communityId }),
+      };
+    }),
+    edges: edgeList,
+    communities,
+    halfLifeDays,
+  };
+};
+
+// Memories both people appear in, newest first
+export const getSharedMemories = async (userId: string, personId: string, otherId: string): Promise<Memory[]> => {
+  const [person, other] = await Promise.all([
+    getPersonRepository().findById(userId, personId),
+    getPersonRepository().findById(userId, otherId),
+  ]);
+  if (!person || !other) {
+    throw new CustomError('Person not found', 404);
+  }
+
+  const shared: Memory[] = [];
+  for (let offset = 0; shared.length < SHARED_MEMORY_LIMIT; offset += PAGE_SIZE) {
+    const page = await getMemoryRepository().list(userId, {
+      people: personMentions(person),
+      sortOrder: 'desc',
+      limit: PAGE_SIZE,
+      offset,
+    });
+    shared.push(...page.memories.filter(memory => (memory.people || []).some(name => isKnownAs(other, name))));
+    if (page.memories.length < PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return shared.slice(0, SHARED_MEMORY_LIMIT);
+};
+
+export default {
+  getPeopleGraph,
+  getSharedMemories,
+};
@@ -0,0 +1,118 @@
+import { getLLMProvider, setAIProviders } from '../providers';
+import { initializeRepositories } from '../repositories';
+import { createTestMemory, createTestPerson, createTestUser } from '../test/fixtures';
+import { scriptedLLM } from '../test/llm';
+import { getPersonInsights } from './personInsightsService';
+
+describe('personInsightsService', () => {
+  const original = getLLMProvider();
+
+  beforeEach(async () => {
+    await initializeRepositories();
+  });
+
+  afterEach(() => {
+    setAIProviders({ llm: original });
+  });
+
+  const joy = { primary: 'joy', intensity: 7, valence: 'positive' as const };
+  const calm = { primary: 'calm', intensity: 4, valence: 'positive' as const };
+
+  it('counts moods, tags and emotions across the memories a person appears in', async () => {
+    const user = await createTestUser();
+    const sarah = await createTestPerson(user.id, 'Sarah', { aliases: ['Sare'] });
+    await createTestMemory(user.id, { people: ['Sarah'], mood: 6, tags: ['hiking'], emotions: joy, createdAt: new Date('2024-01-05T10:00:00Z') });
+    await createTestMemory(user.id, { people: ['Sare'], mood: 8, tags: ['hiking', 'coffee'], emotions: joy, createdAt: new Date('2024-01-20T10:00:00Z') });
+    await createTestMemory(user.id, { people: ['Sarah', 'Tom'], mood: 4, emotions: calm, createdAt: new Date('2024-03-02T10:00:00Z') });
+    await createTestMemory(user.id, { people: ['Tom'], mood: 1, createdAt: new Date('2024-02-01T10:00:00Z') });
+
+    const insights = await getPersonInsights(user.id, sarah.id);
+
+    expect(insights).toMatchObject({
+      memoryCount: 3,
+      averageMood: 6,
+      // Two points a memory; these are too old to earn anything for recency
+      relationshipStrength: 6,
+      firstInteraction: new Date('2024-01-05T10:00:00Z'),
+      lastInteraction: new Date('2024-03-02T10:00:00Z'),
+      mostFrequentEmotion: 'joy',
+      topTags: [{ name: 'hiking', count: 2 }, { name: 'coffee', count: 1 }],
+      topEmotions: [{ name: 'joy', count: 2 }, { name: 'calm', count: 1 }],
+    });
+    expect(insights.moodOverTime).toEqual([
+      { month: '2024-01', averageMood: 7, memoryCount: 2 },
+      { month: '2024-03', averageMood: 4, memoryCount: 1 },
+    ]);
+  });
+
+  it('asks the model to summarize the relationship from the memories, oldest first', async () => {
+    const llm = scriptedLLM('  You and Sarah hike most weekends.  ');
+    setAIProviders({ llm });
+    const user = await createTestUser();
+    const sarah = await createTestPerson(user.id, 'Sarah', { relationship: 'friend' });
+    await createTestMemory(user.id, { title: 'Summit', people: ['Sarah'], mood: 9, emotions: joy, createdAt: new Date('2024-02-10T10:00:00Z') });
+    await createTestMemory(user.id, { title: 'Trailhead', summary: 'First hike together', people: ['Sarah'], mood: 7, createdAt: new Date('2024-01-10T10:00:00Z') });
+
+    const insights = await getPersonInsights(user.id, sarah.id);
+
+    expect(insights.summary).toBe('You and Sarah hike most weekends.');
+    expect(llm.requests).toHaveLength(1);
+    expect(llm.requests[0]?.task).toBe('summarize_relationship');
+    expect(llm.requests[0]?.messages.at(-1)?.content).toContain(
+      'mention Sarah (friend), oldest first:\n\n' +
+      '- 2024-01-10 (mood 7/10): First hike together\n' +
+      '- 2024-02-10 (mood 9/10, joy): Summit'
+    );
+  });
+
+  it('reuses the summary until the memories change', async () => {
+    const llm = scriptedLLM('You and Sarah hike most weekends.', 'You and Sarah travel together.');
+    setAIProviders({ llm });
+    const user = await createTestUser();
+    const sarah = await createTestPerson(user.id, 'Sarah');
+    await createTestMemory(user.id, { people: ['Sarah'], createdAt: new Date('2024-01-10T10:00:00Z') });
+
+    await getPersonInsights(user.id, sarah.id);
+    const cached = await getPersonInsights(user.id, sarah.id);
+    await createTestMemory(user.id, { people: ['Sarah'], createdAt: new Date('2024-02-10T10:00:00Z') });
+    const refreshed = await getPersonInsights(user.id, sarah.id);
+
+    expect(cached.summary).toBe('You and Sarah hike most weekends.');
+    expect(refreshed.summary).toBe('You and Sarah travel together.');
+    expect(llm.requests).toHaveLength(2);
+  });
+
+  it('leaves the summary out when the model fails', async () => {
+    setAIProviders({ llm: scriptedLLM() });
+    const user = await createTestUser();
+    const sarah = await createTestPerson(user.id, 'Sarah');
+    await createTestMemory(user.id, { people: ['Sarah'], mood: 5 });
+
+    const insights = await getPersonInsights(user.id, sarah.id);
+
+    expect(insights.memoryCount).toBe(1);
+    expect(insights.summary).toBeUndefined();
+  });
+
+  it('does not ask for a summary of someone never written about', async () => {
+    const llm = scriptedLLM();
+    setAIProviders({ llm });
+    const user = await createTestUser();
+    const sarah = await createTestPerson(user.id, 'Sarah');
+
+    const insights = await getPersonInsights(user.id, sarah.id);
+
+    expect(insights).toMatchObject({ memoryCount: 0, relationshipStrength: 1, moodOverTime: [], topTags: [] });
+    expect(insights.averageMood).toBeUndefined();
+    expect(insights.summary).toBeUndefined();
+    expect(llm.requests).toHaveLength(0);
+  });
+
+  it("rejects another user's person", async () => {
+    const user = await createTestUser();
+    const other = await createTestUser();
+    const sarah = await createTestPerson(other.id, 'Sarah');
+
+    await expect(getPersonInsights(user.id, sarah.id)).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
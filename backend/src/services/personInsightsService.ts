@@ -0,0 +1,142 @@
+import { CustomError } from '../middleware/errorHandler';
+import { getMemoryRepository, getPersonRepository } from '../repositories';
+import { Memory, Person, PersonInsights } from '../types';
+import { logger } from '../utils/logger';
+import { summarizeRelationship } from './aiService';
+
+const PAGE_SIZE = 200;
+const TOP_LIMIT = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The AI summary only covers the most recent memories
+const SUMMARY_MEMORY_LIMIT = 40;
+
+// Summaries are reused until the person's memories change; oldest entries go first
+const MAX_CACHED_SUMMARIES = 500;
+const summaryCache = new Map<string, string>();
+
+// Memories that mention the person by name or by an alias they had before it was resolved
+export const personMentions = (person: Person): string[] => [person.name, ...(person.aliases || [])];
+
+const allMemoriesWith = async (userId: string, person: Person): Promise<Memory[]> => {
+  const memories: Memory[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await getMemoryRepository().list(userId, {
+      people: personMentions(person),
+      sortOrder: 'asc',
+      limit: PAGE_SIZE,
+      offset,
+    });
+    memories.push(...page.memories);
+    if (page.memories.length < PAGE_SIZE) {
+      return memories;
+    }
+  }
+};
+
+const moodsOf = (memories: Memory[]): number[] =>
+  memories.map(memory => memory.mood).filter((mood): mood is number => typeof mood === 'number');
+
+const average = (values: number[]): number =>
+  Math.round((values.reduce((sum, value) => sum + value, 0) / (values.length || 1)) * 10) / 10;
+
+const topCounts = (values: string[]): { name: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_LIMIT)
+    .map(([name, count]) => ({ name, count }));
+};
+
+// Same scale as get_person_insights in database/schema.sql: two points per
+// memory plus up to ten for recency, losing one a month, clamped to 1-10
+const relationshipStrength = (memoryCount: number, lastInteraction?: Date): number => {
+  const recency = lastInteraction
+    ? Math.max(0, 10 - (Date.now() - lastInteraction.getTime()) / DAY_MS / 30)
+    : 0;
+  return Math.round(Math.min(10, Math.max(1, memoryCount * 2 + recency)));
+};
+
+const moodOverTime = (memories: Memory[]): PersonInsights['moodOverTime'] => {
+  const months = new Map<string, number[]>();
+  memories.forEach(memory => {
+    if (typeof memory.mood !== 'number') {
+      return;
+    }
+    const month = new Date(memory.createdAt).toISOString().slice(0, 7);
+    months.set(month, [...(months.get(month) || []), memory.mood]);
+  });
+
+  return Array.from(months.entries()).map(([month, moods]) => ({
+    month,
+    averageMood: average(moods),
+    memoryCount: moods.length,
+  }));
+};
+
+const relationshipSummary = async (person: Person, memories: Memory[]): Promise<string | undefined> => {
+  const recent = memories.slice(-SUMMARY_MEMORY_LIMIT);
+  const lastChange = Math.max(...recent.map(memory => new Date(memory.updatedAt).getTime()));
+  const key = `${person.id}:${person.name}:${memories.length}:${lastChange}`;
+
+  const cached = summaryCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  try {
+    const summary = await summarizeRelationship(person, recent);
+    if (summaryCache.size >= MAX_CACHED_SUMMARIES) {
+      summaryCache.delete(summaryCache.keys().next().value as string);
+    }
+    summaryCache.set(key, summary);
+    return summary;
+  } catch (error) {
+    // The rest of the insights are still worth showing
+    logger.warn(`Could not summarize relationship with person ${person.id}:`, error);
+    return undefined;
+  }
+};
+
+// Stats about the memories a person appears in, and an AI summary of the relationship
+export const getPersonInsights = async (userId: string, personId: string): Promise<PersonInsights> => {
+  const person = await getPersonRepository().findById(userId, personId);
+  if (!person) {
+    throw new CustomError('Person not found', 404);
+  }
+
+  const memories = await allMemoriesWith(userId, person);
+  const first = memories[0];
+  const last = memories[memories.length - 1];
+  const lastInteraction = last ? new Date(last.createdAt) : undefined;
+  const emotions = topCounts(memories.flatMap(memory => memory.emotions ? [memory.emotions.primary] : []));
+
+  const insights: PersonInsights = {
+    person,
+    memoryCount: memories.length,
+    relationshipStrength: relationshipStrength(memories.length, lastInteraction),
+    moodOverTime: moodOverTime(memories),
+    topTags: topCounts(memories.flatMap(memory => memory.tags || [])),
+    topEmotions: emotions,
+  };
+
+  const moods = moodsOf(memories);
+  if (moods.length > 0) insights.averageMood = average(moods);
+  if (first && lastInteraction) {
+    insights.firstInteraction = new Date(first.createdAt);
+    insights.lastInteraction = lastInteraction;
+
+    const summary = await relationshipSummary(person, memories);
+    if (summary) insights.summary = summary;
+  }
+  if (emotions[0]) insights.mostFrequentEmotion = emotions[0].name;
+
+  return insights;
+};
+
+export default {
+  personMentions,
+  getPersonInsights,
+};
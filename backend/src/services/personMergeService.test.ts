@@ -0,0 +1,118 @@
+import { getMemoryRepository, getNudgeRepository, getPersonRepository, initializeRepositories } from '../repositories';
+import { createTestMemory, createTestNudge, createTestPerson, createTestUser } from '../test/fixtures';
+import { mergePeople, renamePerson, undoPersonMerge } from './personMergeService';
+
+describe('person merge service', () => {
+  beforeEach(async () => {
+    await initializeRepositories();
+  });
+
+  describe('mergePeople', () => {
+    it('moves names, mentions and nudges onto the target and deletes the sources', async () => {
+      const user = await createTestUser();
+      const sarah = await createTestPerson(user.id, 'Sarah Chen');
+      const sare = await createTestPerson(user.id, 'Sare', { aliases: ['S.C.'] });
+      const memory = await createTestMemory(user.id, { people: ['Sare', 'Sarah Chen', 'Tom'] });
+      const nudge = await createTestNudge(user.id, { relatedPeople: [sare.id] });
+
+      const { person, merge } = await mergePeople(user.id, sarah.id, [sare.id]);
+
+      expect(person.aliases).toEqual(expect.arrayContaining(['Sare', 'S.C.']));
+      expect(merge.sources.map(source => source.id)).toEqual([sare.id]);
+      expect(await getPersonRepository().findById(user.id, sare.id)).toBeNull();
+      expect((await getMemoryRepository().findById(user.id, memory.id))?.people).toEqual(['Sarah Chen', 'Tom']);
+      expect((await getNudgeRepository().findById(user.id, nudge.id))?.relatedPeople).toEqual([sarah.id]);
+    });
+
+    it('refuses to merge a person into themselves or with nobody', async () => {
+      const user = await createTestUser();
+      const sarah = await createTestPerson(user.id, 'Sarah');
+
+      await expect(mergePeople(user.id, sarah.id, [sarah.id])).rejects.toMatchObject({ statusCode: 400 });
+      await expect(mergePeople(user.id, sarah.id, [])).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('does not touch another user\'s people', async () => {
+      const user = await createTestUser();
+      const other = await createTestUser();
+      const sarah = await createTestPerson(user.id, 'Sarah');
+      const theirs = await createTestPerson(other.id, 'Sare');
+
+      await expect(mergePeople(user.id, sarah.id, [theirs.id])).rejects.toMatchObject({ statusCode: 404 });
+      expect(await getPersonRepository().findById(other.id, theirs.id)).not.toBeNull();
+    });
+  });
+
+  describe('undoPersonMerge', () => {
+    it('restores the merged people, their mentions and the target\'s aliases', async () => {
+      const user = await createTestUser();
+      const sarah = await createTestPerson(user.id, 'Sarah Chen', { aliases: ['Sarah'] });
+      const sare = await createTestPerson(user.id, 'Sare');
+      const memory = await createTestMemory(user.id, { people: ['Sare', 'Tom'] });
+      const nudge = await createTestNudge(user.id, { relatedPeople: [sare.id] });
+      const { merge } = await mergePeople(user.id, sarah.id, [sare.id]);
+
+      const { people } = await undoPersonMerge(user.id, merge.id);
+
+      expect(people.map(person => person.id)).toEqual([sare.id]);
+      expect((await getPersonRepository().findById(user.id, sare.id))?.name).toBe('Sare');
+      expect((await getPersonRepository().findById(user.id, sarah.id))?.aliases).toEqual(['Sarah']);
+      expect((await getMemoryRepository().findById(user.id, memory.id))?.people).toEqual(['Sare', 'Tom']);
+      expect((await getNudgeRepository().findById(user.id, nudge.id))?.relatedPeople).toEqual([sare.id]);
+    });
+
+    it('can only undo a merge once', async () => {
+      const user = await createTestUser();
+      const sarah = await createTestPerson(user.id, 'Sarah');
+      const sare = await createTestPerson(user.id, 'Sare');
+      const { merge } = await mergePeople(user.id, sarah.id, [sare.id]);
+
+      await undoPersonMerge(user.id, merge.id);
+
+      await expect(undoPersonMerge(user.id, merge.id)).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('refuses when someone else has taken a merged name since', async () => {
+      const user = await createTestUser();
+      const sarah = await createTestPerson(user.id, 'Sarah');
+      const sare = await createTestPerson(user.id, 'Sare');
+      const { merge } = await mergePeople(user.id, sarah.id, [sare.id]);
+      await createTestPerson(user.id, 'Sare');
+
+      await expect(undoPersonMerge(user.id, merge.id)).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('renamePerson', () => {
+    it('rewrites the memories that mention the person and keeps the old name as an alias', async () => {
+      const user = await createTestUser();
+      const sarah = await createTestPerson(user.id, 'Sarah', { aliases: ['Sare'] });
+      const memory = await createTestMemory(user.id, { people: ['Sarah', 'Tom'] });
+      const unrelated = await createTestMemory(user.id, { people: ['Tom'] });
+
+      const renamed = await renamePerson(user.id, sarah.id, 'Sarah Chen');
+
+      expect(renamed.name).toBe('Sarah Chen');
+      expect(renamed.aliases).toEqual(['Sare', 'Sarah']);
+      expect((await getMemoryRepository().findById(user.id, memory.id))?.people).toEqual(['Sarah Chen', 'Tom']);
+      expect((await getMemoryRepository().findById(user.id, unrelated.id))?.people).toEqual(['Tom']);
+    });
+
+    it('drops the new name from the aliases and adds no alias for a change of case', async () => {
+      const user = await createTestUser();
+      const person = await createTestPerson(user.id, 'sam', { aliases: ['Samuel'] });
+
+      expect((await renamePerson(user.id, person.id, 'Samuel')).aliases).toEqual(['sam']);
+      expect((await renamePerson(user.id, person.id, 'SAMUEL')).aliases).toEqual(['sam']);
+    });
+
+    it('does not rename another user\'s person', async () => {
+      const owner = await createTestUser();
+      const other = await createTestUser();
+      const person = await createTestPerson(owner.id, 'Sarah');
+
+      await expect(renamePerson(other.id, person.id, 'Mallory')).rejects.toMatchObject({ statusCode: 404 });
+      expect((await getPersonRepository().findById(owner.id, person.id))?.name).toBe('Sarah');
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { CustomError } from '../middleware/errorHandler';
+import { getMemoryRepository, getPersonMergeRepository, getPersonRepository } from '../repositories';
+import { Memory, Person, PersonMerge } from '../types';
+import { areNicknames } from '../utils/nicknames';
+import { trigramSimilarity } from '../utils/textAnalysis';
+import { refreshMemoryIndex } from './memoryEnrichmentService';
+import { isKnownAs, nameParts, normalizePersonName } from './personResolutionService';
+
+// Two people are suggested as duplicates from this name score up
+const DUPLICATE_NAME_SCORE = 0.5;
+const MAX_DUPLICATE_SUGGESTIONS = 20;
+const PAGE_SIZE = 200;
+
+export interface DuplicatePeopleSuggestion {
+  people: [Person, Person];
+  // 0-1: mostly how alike the names are, partly how alike the company they keep in memories
+  score: number;
+  reasons: string[];
+}
+
+// Memory ids are in the merge; vector metadata lives outside the database
+// transaction, so it is rewritten once the merge or undo has committed
+const reindexMemories = async (userId: string, merge: PersonMerge): Promise<void> => {
+  const memories = await getMemoryRepository().findByIds(userId, merge.memories.map(memory => memory.id));
+  for (const memory of memories) {
+    await refreshMemoryIndex(memory);
+  }
+};
+
+// Merge people into the target, which keeps its name and gains theirs as
+// aliases; every mention of them becomes a mention of the target
+export const mergePeople = async (
+  userId: string,
+  targetId: string,
+  sourceIds: string[]
+): Promise<{ person: Person; merge: PersonMerge }> => {
+  const ids = Array.from(new Set(sourceIds));
+  if (ids.length === 0) {
+    throw new CustomError('At least one person to merge is required', 400);
+  }
+  if (ids.includes(targetId)) {
+    throw new CustomError('A person cannot be merged into themselves', 400);
+  }
+
+  const merge = await getPersonMergeRepository().merge(userId, targetId, ids);
+  if (!merge) {
+    throw new CustomError('Person not found', 404);
+  }
+
+  await reindexMemories(userId, merge);
+
+  const person = await getPersonRepository().findById(userId, targetId);
+  if (!person) {
+    throw new CustomError('Person not found', 404);
+  }
+
+  return { person, merge };
+};
+
+// Split a merge back apart, restoring the merged people and their mentions
+export const undoPersonMerge = async (userId: string, mergeId: string): Promise<{ people: Person[]; merge: PersonMerge }> => {
+  const merges = getPersonMergeRepository();
+  const existing = await merges.findById(userId, mergeId);
+
+  if (!existing) {
+    throw new CustomError('Merge not found', 404);
+  }
+  if (existing.undoneAt) {
+    throw new CustomError('This merge has already been undone', 409);
+  }
+
+  const current = await getPersonRepository().list(userId);
+  const taken = existing.sources.find(source =>
+    current.some(person => person.id !== existing.targetId && isKnownAs(person, source.name))
+  );
+  if (taken) {
+    throw new CustomError(`Cannot undo the merge: someone else is already called "${taken.name}"`, 409);
+  }
+
+  const merge = await merges.undo(userId, mergeId);
+  if (!merge) {
+    throw new CustomError('Merge not found', 404);
+  }
+
+  await reindexMemories(userId, merge);
+
+  return { people: merge.sources, merge };
+};
+
+// Rename a person. Memories mention people by name, so the repository rewrites
+// them in the same transaction; their vector metadata follows once it commits.
+export const renamePerson = async (userId: string, personId: string, name: string): Promise<Person> => {
+  const person = await getPersonMergeRepository().rename(userId, personId, name);
+  if (!person) {
+    throw new CustomError('Person not found', 404);
+  }
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await getMemoryRepository().list(userId, { people: [person.name], limit: PAGE_SIZE, offset });
+    for (const memory of page.memories) {
+      await refreshMemoryIndex(memory);
+    }
+    if (page.memories.length < PAGE_SIZE) {
+      return person;
+    }
+  }
+};
+
+export const listPersonMerges = async (userId: string, limit: number): Promise<PersonMerge[]> =>
+  getPersonMergeRepository().list(userId, limit);
+
+// How likely two names are to mean the same person, 0-1. A missing surname
+// doesn't count against a match, so "Mike" and "Michael Chen" score high.
+const nameScore = (a: string, b: string): { score: number; reason: string } => {
+  if (normalizePersonName(a) === normalizePersonName(b)) {
+    return { score: 1, reason: 'same name' };
+  }
+
+  const [firstA, ...restA] = nameParts(a);
+  const [firstB, ...restB] = nameParts(b);
+  const lastA = restA[restA.length - 1];
+  const lastB = restB[restB.length - 1];
+
+  if (firstA && firstB && (!lastA || !lastB || lastA === lastB)) {
+    if (firstA === firstB) {
+      return { score: 0.9, reason: 'same first name' };
+    }
+    if (areNicknames(firstA, firstB)) {
+      return { score: 0.85, reason: 'nickname' };
+    }
+  }
+
+  return { score: trigramSimilarity(a, b), reason: 'similar names' };
+};
+
+const bestNameScore = (a: Person, b: Person): { score: number; reason: string } =>
+  [a.name, ...(a.aliases || [])]
+    .flatMap(nameA => [b.name, ...(b.aliases || [])].map(nameB => nameScore(nameA, nameB)))
+    .reduce((best, candidate) => candidate.score > best.score ? candidate : best, { score: 0, reason: '' });
+
+const allMemories = async (userId: string): Promise<Memory[]> => {
+  const memories: Memory[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await getMemoryRepository().list(userId, { limit: PAGE_SIZE, offset });
+    memories.push(...page.memories);
+    if (page.memories.length < PAGE_SIZE) {
+      return memories;
+    }
+  }
+};
+
+// Pairs of people who are probably the same person, best first. Names do most
+// of the work; people mentioned alongside the same others are more likely the
+// same, while two people who appear in the same memory are clearly not.
+export const findDuplicatePeople = async (userId: string): Promise<DuplicatePeopleSuggestion[]> => {
+  const people = await getPersonRepository().list(userId);
+  const memories = await allMemories(userId);
+
+  // Who each person is mentioned alongside
+  const company = new Map<string, Set<string>>(people.map(person => [person.name, new Set<string>()]));
+  for (const memory of memories) {
+    for (const name of memory.people || []) {
+      (memory.people || []).filter(other => other !== name).forEach(other => company.get(name)?.add(other));
+    }
+  }
+
+  const suggestions: DuplicatePeopleSuggestion[] = [];
+  people.forEach((a, index) => {
+    for (const b of people.slice(index + 1)) {
+      const companyA = company.get(a.name) || new Set<string>();
+      const companyB = company.get(b.name) || new Set<string>();
+      const name = bestNameScore(a, b);
+
+      if (name.score < DUPLICATE_NAME_SCORE || companyA.has(b.name)) {
+        continue;
+      }
+
+      const shared = [...companyA].filter(other => companyB.has(other)).length;
+      const together = shared / (new Set([...companyA, ...companyB]).size || 1);
+
+      suggestions.push({
+        people: [a, b],
+        score: Math.round((0.75 * name.score + 0.25 * together) * 100) / 100,
+        reasons: [name.reason, ...(shared > 0 ? [`mentioned with ${shared} of the same people`] : [])],
+      });
+    }
+  });
+
+  return suggestions
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_DUPLICATE_SUGGESTIONS);
+};
+
+export default {
+  mergePeople,
+  undoPersonMerge,
+  renamePerson,
+  listPersonMerges,
+  findDuplicatePeople,
+};
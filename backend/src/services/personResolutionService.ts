@@ -0,0 +1,245 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CustomError } from '../middleware/errorHandler';
+import { getMemoryRepository, getPersonRepository } from '../repositories';
+import { Memory, Person, PersonSuggestion } from '../types';
+import { areNicknames } from '../utils/nicknames';
+
+export type PersonMatchKind = 'exact' | 'first_name' | 'nickname' | 'fuzzy';
+
+// How a mentioned name relates to the user's people. `person` is set when a
+// single person is a confident match; otherwise `candidates` lists the
+// plausible ones, and an empty list means the name is new.
+export interface PersonResolution {
+  name: string;
+  person?: Person;
+  match?: PersonMatchKind;
+  candidates: Person[];
+}
+
+// A suggestion the user accepted: link it to an existing person, or create
+// a person named after it when personId is omitted
+export interface AcceptedSuggestion {
+  name: string;
+  personId?: string;
+}
+
+// A fuzzy match links without asking only when it is this similar and this
+// far ahead of the next best; anything weaker is offered as a candidate
+const FUZZY_MATCH_SIMILARITY = 0.6;
+const FUZZY_MATCH_MARGIN = 0.15;
+const MAX_CANDIDATES = 3;
+
+// "Sarah's" and "sarah  " both read as "sarah"
+export const normalizePersonName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/['’]s$/, '')
+    .replace(/[^\p{L}\p{N}'\s-]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const nameParts = (name: string): string[] => normalizePersonName(name).split(' ').filter(Boolean);
+
+// Whether the person goes by this name, as their name or one of their aliases
+export const isKnownAs = (person: Person, name: string): boolean =>
+  [person.name, ...(person.aliases || [])].some(known => normalizePersonName(known) === normalizePersonName(name));
+
+// "Mike" or "Mike Chen" for Michael Chen. A surname in the mention has to
+// agree, and a given name on its own only counts when it picks out one person;
+// exact given names win over nicknames.
+const matchGivenName = (name: string, people: Person[]): PersonResolution | null => {
+  const [first, ...rest] = nameParts(name);
+  const last = rest[rest.length - 1];
+  if (!first) {
+    return null;
+  }
+
+  const matches: { person: Person; match: PersonMatchKind }[] = [];
+  for (const person of people) {
+    const parts = nameParts(person.name);
+    const personFirst = parts[0];
+    const personLast = parts.length > 1 ? parts[parts.length - 1] : undefined;
+
+    if (!personFirst || (last && last !== personLast)) {
+      continue;
+    }
+    if (personFirst === first) {
+      matches.push({ person, match: 'first_name' });
+    } else if (areNicknames(first, personFirst)) {
+      matches.push({ person, match: 'nickname' });
+    }
+  }
+
+  const exactFirst = matches.filter(candidate => candidate.match === 'first_name');
+  const best = exactFirst.length > 0 ? exactFirst : matches;
+
+  if (best.length === 1 && best[0]) {
+    return { name, person: best[0].person, match: best[0].match, candidates: [] };
+  }
+  if (matches.length > 1) {
+    return { name, candidates: matches.slice(0, MAX_CANDIDATES).map(candidate => candidate.person) };
+  }
+  return null;
+};
+
+// Trigram similarity catches misspellings and transcription slips ("Sara", "Jon Smyth")
+const matchFuzzy = async (userId: string, name: string): Promise<PersonResolution> => {
+  const [top, runnerUp] = await getPersonRepository().searchByName(userId, name, MAX_CANDIDATES);
+
+  if (top && top.similarity >= FUZZY_MATCH_SIMILARITY && (!runnerUp || top.similarity - runnerUp.similarity >= FUZZY_MATCH_MARGIN)) {
+    return { name, person: top.person, match: 'fuzzy', candidates: [] };
+  }
+
+  return { name, candidates: [top, runnerUp].flatMap(match => match ? [match.person] : []) };
+};
+
+// Match free-text names, such as those AI enrichment extracts, against the
+// user's people: exact names and aliases first, then given names and
+// nicknames, then fuzzy matching. Returns one resolution per distinct name.
+export const resolvePersonNames = async (userId: string, names: string[]): Promise<PersonResolution[]> => {
+  const people = await getPersonRepository().list(userId);
+  const resolutions: PersonResolution[] = [];
+  const seen = new Set<string>();
+
+  for (const name of names.map(value => value.trim())) {
+    const key = normalizePersonName(name);
+    if (!key || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+
+    const exact = people.find(person => isKnownAs(person, name));
+    if (exact) {
+      resolutions.push({ name, person: exact, match: 'exact', candidates: [] });
+      continue;
+    }
+
+    const givenName = matchGivenName(name, people);
+    resolutions.push(givenName && (givenName.person || givenName.candidates.length > 0)
+      ? givenName
+      : await matchFuzzy(userId, name));
+  }
+
+  return resolutions;
+};
+
+const toSuggestion = (resolution: PersonResolution): PersonSuggestion => ({
+  name: resolution.name,
+  candidates: resolution.candidates.map(({ id, name }) => ({ id, name })),
+});
+
+// Link a memory's names to the user's people. Names that resolve are replaced
+// by the person's name; names the user entered stay even when they match
+// nobody, while unmatched names from AI extraction become suggestions for the
+// user to confirm instead of new people.
+export const linkMemoryPeople = async (
+  memory: Memory,
+  extractedNames: string[]
+): Promise<{ people: string[]; personSuggestions: PersonSuggestion[] }> => {
+  const enteredNames = memory.people || [];
+  const resolutions = await resolvePersonNames(memory.userId, [...enteredNames, ...extractedNames]);
+  const byName = new Map(resolutions.map(resolution => [normalizePersonName(resolution.name), resolution]));
+
+  const people: string[] = [];
+  const personSuggestions: PersonSuggestion[] = [];
+  const isLinked = (name: string): boolean =>
+    people.some(person => normalizePersonName(person) === normalizePersonName(name));
+  const link = (name: string): void => {
+    if (!isLinked(name)) {
+      people.push(name);
+    }
+  };
+
+  for (const name of enteredNames) {
+    link(byName.get(normalizePersonName(name))?.person?.name || name);
+  }
+
+  for (const name of extractedNames) {
+    const resolution = byName.get(normalizePersonName(name));
+    if (!resolution) {
+      continue;
+    }
+    if (resolution.person) {
+      link(resolution.person.name);
+    } else if (!isLinked(name) && !personSuggestions.some(suggestion => suggestion.name === resolution.name)) {
+      personSuggestions.push(toSuggestion(resolution));
+    }
+  }
+
+  return { people, personSuggestions };
+};
+
+// The user's person who goes by this name, created if there isn't one yet
+const findOrCreatePerson = async (userId: string, name: string): Promise<Person> => {
+  const people = getPersonRepository();
+  const existing = (await people.list(userId)).find(person => isKnownAs(person, name));
+
+  return existing || await people.create({
+    id: uuidv4(),
+    userId,
+    name: name.trim(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+};
+
+// Settle some of a memory's person suggestions: accepted ones are linked to
+// the chosen person (created if needed), dismissed ones are dropped
+export const applyPersonSuggestions = async (
+  memory: Memory,
+  accepted: AcceptedSuggestion[],
+  dismissed: string[]
+): Promise<Memory> => {
+  const suggestions = memory.personSuggestions || [];
+  const findSuggestion = (name: string): PersonSuggestion => {
+    const suggestion = suggestions.find(candidate => normalizePersonName(candidate.name) === normalizePersonName(name));
+    if (!suggestion) {
+      throw new CustomError(`"${name}" is not a person suggestion for this memory`, 400);
+    }
+    return suggestion;
+  };
+
+  const settled = new Set<PersonSuggestion>();
+  const people = [...(memory.people || [])];
+
+  for (const { name, personId } of accepted) {
+    const suggestion = findSuggestion(name);
+    let person: Person | null;
+
+    if (personId) {
+      person = await getPersonRepository().findById(memory.userId, personId);
+      if (!person) {
+        throw new CustomError('Person not found', 404);
+      }
+    } else {
+      person = await findOrCreatePerson(memory.userId, suggestion.name);
+    }
+
+    if (!people.some(existing => normalizePersonName(existing) === normalizePersonName(person!.name))) {
+      people.push(person.name);
+    }
+    settled.add(suggestion);
+  }
+
+  dismissed.forEach(name => settled.add(findSuggestion(name)));
+
+  const updated = await getMemoryRepository().update(memory.userId, memory.id, {
+    people,
+    personSuggestions: suggestions.filter(suggestion => !settled.has(suggestion)),
+  });
+
+  if (!updated) {
+    throw new CustomError('Memory not found', 404);
+  }
+
+  return updated;
+};
+
+export default {
+  normalizePersonName,
+  nameParts,
+  isKnownAs,
+  resolvePersonNames,
+  linkMemoryPeople,
+  applyPersonSuggestions,
+};
@@ -0,0 +1,231 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  // Opened when the notification is clicked
+  url?: string;
+  // Notifications with the same tag replace each other
+  tag?: string;
+}
+
+// A browser subscription, as returned by PushSubscription.toJSON()
+export interface PushTarget {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+// 'gone' means the push service no longer knows the subscription and it should be removed
+export type PushResult = 'sent' | 'gone';
+
+// Outbound Web Push transport
+export interface PushSender {
+  send(target: PushTarget, message: PushMessage): Promise<PushResult>;
+}
+
+export interface VapidKeys {
+  // Uncompressed P-256 public key and private scalar, base64url encoded
+  publicKey: string;
+  privateKey: string;
+}
+
+export interface WebPushSenderOptions extends VapidKeys {
+  // Contact for the push service operator, a mailto: or https: URL
+  subject: string;
+  ttlSeconds?: number;
+  timeoutMs?: number;
+}
+
+const DEFAULT_SUBJECT = 'mailto:no-reply@memorynest.app';
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_TIMEOUT_MS = 10000;
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+// aes128gcm record size; the whole payload fits in a single record
+const RECORD_SIZE = 4096;
+
+const base64url = (data: Buffer | string): string => Buffer.from(data).toString('base64url');
+
+// A new VAPID key pair, for setting VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY
+export const generateVapidKeys = (): VapidKeys => {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    publicKey: base64url(ecdh.getPublicKey()),
+    privateKey: base64url(ecdh.getPrivateKey()),
+  };
+};
+
+const vapidSigningKey = (keys: VapidKeys): crypto.KeyObject => {
+  const publicKey = Buffer.from(keys.publicKey, 'base64url');
+  return crypto.createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: base64url(publicKey.subarray(1, 33)),
+      y: base64url(publicKey.subarray(33, 65)),
+      d: keys.privateKey,
+    },
+    format: 'jwk',
+  });
+};
+
+// RFC 8292: an ES256 JWT for the push service's origin
+const vapidAuthorization = (endpoint: string, options: WebPushSenderOptions, key: crypto.KeyObject): string => {
+  const header = base64url(JSON.stringify({ typ: 'JWT', alg: 'ES256' }));
+  const claims = base64url(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + VAPID_TOKEN_TTL_SECONDS,
+    sub: options.subject,
+  }));
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${claims}`), { key, dsaEncoding: 'ieee-p1363' });
+  return `vapid t=${header}.${claims}.${base64url(signature)}, k=${options.publicKey}`;
+};
+
+const hkdf = (ikm: Buffer, salt: Buffer, info: Buffer, length: number): Buffer =>
+  Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+
+// RFC 8291: encrypt the payload for the subscription's keys (aes128gcm content coding)
+export const encryptPushPayload = (target: PushTarget, payload: Buffer): Buffer => {
+  const receiverKey = Buffer.from(target.p256dh, 'base64url');
+  const authSecret = Buffer.from(target.auth, 'base64url');
+
+  const sender = crypto.createECDH('prime256v1');
+  sender.generateKeys();
+  const senderKey = sender.getPublicKey();
+  const sharedSecret = sender.computeSecret(receiverKey);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), receiverKey, senderKey]);
+  const ikm = hkdf(sharedSecret, authSecret, keyInfo, 32);
+  const salt = crypto.randomBytes(16);
+  const contentKey = hkdf(ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  // 0x02 marks the last (and only) record
+  const encrypted = Buffer.concat([cipher.update(Buffer.concat([payload, Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(senderKey.length, 20);
+  return Buffer.concat([header, senderKey, encrypted]);
+};
+
+// Sends to the push service named in each subscription's endpoint. Any HTTP
+// server that accepts the request works as a local stand-in.
+export const createWebPushSender = (options: WebPushSenderOptions): PushSender => {
+  const signingKey = vapidSigningKey(options);
+
+  return {
+    async send(target: PushTarget, message: PushMessage): Promise<PushResult> {
+      const response = await fetch(target.endpoint, {
+        method: 'POST',
+        headers: {
+          Authorization: vapidAuthorization(target.endpoint, options, signingKey),
+          'Content-Encoding': 'aes128gcm',
+          'Content-Type': 'application/octet-stream',
+          TTL: String(options.ttlSeconds ?? DEFAULT_TTL_SECONDS),
+          Urgency: 'normal',
+        },
+        body: encryptPushPayload(target, Buffer.from(JSON.stringify(message))),
+        redirect: 'manual',
+        signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      });
+
+      if (response.status === 404 || response.status === 410) {
+        return 'gone';
+      }
+      if (!response.ok) {
+        // The body is only logged; delivery errors are shown to the user
+        logger.warn(`Push service ${new URL(target.endpoint).host} responded with ${response.status}: ${await response.text()}`);
+        throw new Error(`Push service responded with ${response.status}`);
+      }
+
+      logger.info(`Sent push "${message.title}" to ${new URL(target.endpoint).host}`);
+      return 'sent';
+    },
+  };
+};
+
+// Writes each message as a JSON file, for local development and tests
+export const createFilePushSender = (outboxDir: string): PushSender => ({
+  async send(target: PushTarget, message: PushMessage): Promise<PushResult> {
+    await fs.mkdir(outboxDir, { recursive: true });
+    const file = path.join(outboxDir, `${Date.now()}-${uuidv4()}.json`);
+    await fs.writeFile(file, JSON.stringify({ endpoint: target.endpoint, ...message, sentAt: new Date().toISOString() }, null, 2));
+    logger.info(`Wrote push "${message.title}" to ${file}`);
+    return 'sent';
+  },
+});
+
+// Logs each message instead of sending it
+export const createConsolePushSender = (): PushSender => ({
+  async send(target: PushTarget, message: PushMessage): Promise<PushResult> {
+    logger.info(`Push to ${target.endpoint}: ${message.title}\n${message.body}`);
+    return 'sent';
+  },
+});
+
+let pushSender: PushSender | undefined;
+
+const vapidKeysFromEnv = (): VapidKeys | undefined => {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  return publicKey && privateKey ? { publicKey, privateKey } : undefined;
+};
+
+// The key browsers subscribe with; undefined when VAPID keys aren't configured
+export const getVapidPublicKey = (): string | undefined => vapidKeysFromEnv()?.publicKey;
+
+// Choose the transport from PUSH_TRANSPORT ('webpush', 'file' or 'console')
+const createPushSenderFromEnv = (): PushSender => {
+  const transport = process.env.PUSH_TRANSPORT || 'console';
+
+  switch (transport) {
+    case 'webpush': {
+      const keys = vapidKeysFromEnv();
+      if (!keys) {
+        throw new Error('Missing VAPID configuration');
+      }
+      return createWebPushSender({
+        ...keys,
+        subject: process.env.VAPID_SUBJECT || DEFAULT_SUBJECT,
+        ...(process.env.PUSH_TTL_SECONDS && { ttlSeconds: parseInt(process.env.PUSH_TTL_SECONDS) }),
+      });
+    }
+    case 'file':
+      return createFilePushSender(process.env.PUSH_OUTBOX_DIR || './push-outbox');
+    case 'console':
+      return createConsolePushSender();
+    default:
+      throw new Error(`Unknown PUSH_TRANSPORT: ${transport}`);
+  }
+};
+
+export const getPushSender = (): PushSender => {
+  if (!pushSender) {
+    pushSender = createPushSenderFromEnv();
+  }
+  return pushSender;
+};
+
+// Swap in a push sender directly (used by tests)
+export const setPushSender = (override: PushSender): void => {
+  pushSender = override;
+};
+
+export default {
+  generateVapidKeys,
+  encryptPushPayload,
+  createWebPushSender,
+  createFilePushSender,
+  createConsolePushSender,
+  getVapidPublicKey,
+  getPushSender,
+  setPushSender,
+};
@@ -0,0 +1,124 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getResurfacingRepository, initializeRepositories } from '../repositories';
+import { createTestMemory, createTestPerson, createTestUser } from '../test/fixtures';
+import { UserRecord } from '../types';
+import { resurfaceMemories, setMuted } from './resurfacingService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Midday UTC on 1 May 2024, a Wednesday
+const NOW = new Date('2024-05-01T12:00:00Z');
+
+const inTimeZone = (timezone: string): Partial<UserRecord> => ({
+  preferences: { theme: 'light', notifications: true, privacy: 'private', nudges: { timezone } },
+});
+
+describe('resurfaceMemories', () => {
+  beforeEach(async () => {
+    await initializeRepositories();
+  });
+
+  it('brings back the best memory from this day in each earlier year', async () => {
+    const user = await createTestUser();
+    const lastYear = await createTestMemory(user.id, { title: 'Festival', mood: 9, createdAt: new Date('2023-05-01T15:00:00Z') });
+    const errands = await createTestMemory(user.id, { title: 'Errands', mood: 3, createdAt: new Date('2023-05-01T09:00:00Z') });
+    const twoYears = await createTestMemory(user.id, { title: 'Move', mood: 6, createdAt: new Date('2022-05-01T10:00:00Z') });
+
+    const { date, picks } = await resurfaceMemories(user.id, NOW);
+
+    expect(date).toBe('2024-05-01');
+    expect(picks.map(pick => [pick.kind, pick.yearsAgo, pick.memory.id])).toEqual([
+      ['on_this_day', 1, lastYear.id],
+      ['on_this_day', 2, twoYears.id],
+      // The runner-up is still the closest memory to a year ago
+      ['year_ago', undefined, errands.id],
+    ]);
+  });
+
+  it('reads "this day" in the user\'s time zone, across the UTC date line', async () => {
+    const auckland = await createTestUser(inTimeZone('Pacific/Auckland'));
+    // 1 May 02:00 in Auckland, still 30 April in UTC
+    const early = await createTestMemory(auckland.id, { createdAt: new Date('2023-04-30T14:00:00Z') });
+    // 2 May 02:00 in Auckland
+    await createTestMemory(auckland.id, { createdAt: new Date('2023-05-01T14:00:00Z') });
+
+    const losAngeles = await createTestUser(inTimeZone('America/Los_Angeles'));
+    // 1 May 22:00 in Los Angeles, already 2 May in UTC
+    const late = await createTestMemory(losAngeles.id, { createdAt: new Date('2023-05-02T05:00:00Z') });
+
+    // 1 May 10:00 in Auckland, and midday on 1 May in Los Angeles
+    const aucklandPicks = (await resurfaceMemories(auckland.id, new Date('2024-04-30T22:00:00Z'))).picks;
+    const losAngelesPicks = (await resurfaceMemories(losAngeles.id, new Date('2024-05-01T19:00:00Z'))).picks;
+
+    const onThisDay = (picks: typeof aucklandPicks) => picks.filter(pick => pick.kind === 'on_this_day').map(pick => pick.memory.id);
+    expect(onThisDay(aucklandPicks)).toEqual([early.id]);
+    expect(onThisDay(losAngelesPicks)).toEqual([late.id]);
+  });
+
+  it('clamps "a month ago" to the end of a shorter month', async () => {
+    const user = await createTestUser();
+    // A month before 31 March 2024 is 29 February, not 2 March
+    const leapDay = await createTestMemory(user.id, { title: 'Leap day', mood: 4, createdAt: new Date('2024-02-26T12:00:00Z') });
+    await createTestMemory(user.id, { title: 'Too late', mood: 10, createdAt: new Date('2024-03-05T12:00:00Z') });
+
+    const { picks } = await resurfaceMemories(user.id, new Date('2024-03-31T12:00:00Z'));
+
+    expect(picks.map(pick => [pick.kind, pick.memory.id])).toEqual([['month_ago', leapDay.id]]);
+  });
+
+  it('clamps "a year ago" from a leap day to 28 February', async () => {
+    const user = await createTestUser();
+    const inWindow = await createTestMemory(user.id, { mood: 4, createdAt: new Date('2023-02-21T12:00:00Z') });
+    await createTestMemory(user.id, { mood: 10, createdAt: new Date('2023-03-08T12:00:00Z') });
+
+    const { picks } = await resurfaceMemories(user.id, new Date('2024-02-29T12:00:00Z'));
+
+    expect(picks.map(pick => [pick.kind, pick.memory.id])).toEqual([['year_ago', inWindow.id]]);
+  });
+
+  it('keeps today\'s picks and skips memories shown in the last 30 days', async () => {
+    const user = await createTestUser();
+    const memory = await createTestMemory(user.id, { createdAt: new Date('2023-05-01T12:00:00Z') });
+
+    expect((await resurfaceMemories(user.id, NOW)).picks).toHaveLength(1);
+    // Later the same day the pick stays, and isn't recorded twice
+    expect((await resurfaceMemories(user.id, new Date(NOW.getTime() + 6 * 60 * 60 * 1000))).picks).toHaveLength(1);
+    expect(await getResurfacingRepository().listSince(user.id, new Date(0))).toHaveLength(1);
+
+    const nextYear = new Date('2025-05-01T12:00:00Z');
+    const shownAt = async (surfacedAt: Date) => {
+      await initializeRepositories();
+      const owner = await createTestUser();
+      const again = await createTestMemory(owner.id, { createdAt: memory.createdAt });
+      await getResurfacingRepository().record([{ id: uuidv4(), userId: owner.id, memoryId: again.id, kind: 'month_ago', surfacedAt }]);
+      return (await resurfaceMemories(owner.id, nextYear)).picks.length;
+    };
+
+    expect(await shownAt(new Date(nextYear.getTime() - 29 * DAY_MS))).toBe(0);
+    expect(await shownAt(new Date(nextYear.getTime() - 31 * DAY_MS))).toBe(1);
+  });
+
+  it('leaves out muted memories and memories mentioning muted people', async () => {
+    const user = await createTestUser();
+    const mike = await createTestPerson(user.id, 'Michael Chen', { aliases: ['Mike'] });
+    const muted = await createTestMemory(user.id, { mood: 10, createdAt: new Date('2023-05-01T09:00:00Z') });
+    await createTestMemory(user.id, { mood: 9, people: ['mike'], createdAt: new Date('2023-05-01T10:00:00Z') });
+    const kept = await createTestMemory(user.id, { mood: 2, people: ['Sarah'], createdAt: new Date('2023-05-01T11:00:00Z') });
+
+    await setMuted(user.id, 'memory', muted.id, true);
+    await setMuted(user.id, 'person', mike.id, true);
+
+    const { picks } = await resurfaceMemories(user.id, NOW);
+
+    expect(picks.map(pick => pick.memory.id)).toEqual([kept.id]);
+  });
+
+  it('returns nothing when resurfacing is turned off', async () => {
+    const user = await createTestUser({
+      preferences: { theme: 'light', notifications: true, privacy: 'private', resurfacing: { enabled: false } },
+    });
+    await createTestMemory(user.id, { createdAt: new Date('2023-05-01T12:00:00Z') });
+
+    expect(await resurfaceMemories(user.id, NOW)).toEqual({ date: '2024-05-01', picks: [] });
+  });
+});
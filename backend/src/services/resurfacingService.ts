@@ -0,0 +1,320 @@
+import { v4 as uuidv4 } from 'uuid';
+import { localClock } from '../utils/time';
+import { summarizeText } from '../utils/textAnalysis';
+import { CustomError, createValidationError } from '../middleware/errorHandler';
+import {
+  getMemoryRepository,
+  getPersonRepository,
+  getResurfacingRepository,
+  getUserRepository,
+} from '../repositories';
+import { Memory, Person, ResurfaceKind, ResurfacingPreferences, UserRecord } from '../types';
+import { NudgeView, createNudge } from './nudgeService';
+import { personMentions } from './personInsightsService';
+
+export interface ResurfacedMemory {
+  kind: ResurfaceKind;
+  // Whole years back, for on_this_day picks
+  yearsAgo?: number;
+  memory: Memory;
+  // The user's people the memory mentions
+  people: Array<Pick<Person, 'id' | 'name'>>;
+}
+
+export interface ResurfaceResult {
+  // The user's local date the picks are for, as YYYY-MM-DD
+  date: string;
+  // Same day in earlier years first, best first, then a year ago and a month ago
+  picks: ResurfacedMemory[];
+}
+
+export interface ResurfacingSettings {
+  enabled: boolean;
+  nudge: boolean;
+  mutedMemories: Array<Pick<Memory, 'id' | 'title'>>;
+  mutedPeople: Array<Pick<Person, 'id' | 'name'>>;
+}
+
+export type MuteTarget = 'memory' | 'person';
+
+interface LocalDate {
+  year: number;
+  // 1-12
+  month: number;
+  day: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 100;
+// A memory isn't resurfaced again for this long after it was shown
+const REPEAT_COOLDOWN_DAYS = 30;
+const MAX_ON_THIS_DAY = 5;
+// "A month ago" and "a year ago" look this many days either side of the date
+const MONTH_AGO_WINDOW_DAYS = 3;
+const YEAR_AGO_WINDOW_DAYS = 7;
+// Score lost per day a windowed pick is away from the exact date
+const DISTANCE_PENALTY = 0.05;
+// Mood and intensity are 1-10; unscored memories count as middling
+const DEFAULT_SCALE = 5;
+const MEMORY_NUDGE_TTL_DAYS = 1;
+const NUDGE_EXCERPT_LENGTH = 160;
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+const dateKey = ({ year, month, day }: LocalDate): string => `${year}-${pad(month)}-${pad(day)}`;
+
+const localDateOf = (date: Date, timeZone: string): LocalDate => {
+  const { year, month, day } = localClock(date, timeZone);
+  return { year, month, day };
+};
+
+const fromUTC = (date: Date): LocalDate => ({
+  year: date.getUTCFullYear(),
+  month: date.getUTCMonth() + 1,
+  day: date.getUTCDate(),
+});
+
+const addDays = ({ year, month, day }: LocalDate, days: number): LocalDate =>
+  fromUTC(new Date(Date.UTC(year, month - 1, day + days)));
+
+// The same day `months` later, or the month's last day when it's shorter
+const addMonths = ({ year, month, day }: LocalDate, months: number): LocalDate => {
+  const first = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+  return { ...fromUTC(first), day: Math.min(day, lastDay) };
+};
+
+const daysApart = (a: LocalDate, b: LocalDate): number =>
+  Math.round(Math.abs(Date.UTC(a.year, a.month - 1, a.day) - Date.UTC(b.year, b.month - 1, b.day)) / DAY_MS);
+
+const preferencesOf = (user: UserRecord | null): ResurfacingPreferences => user?.preferences?.resurfacing || {};
+const timeZoneOf = (user: UserRecord | null): string => user?.preferences?.nudges?.timezone || 'UTC';
+
+// Memories written on local dates from `from` to `to`. The stored range is
+// padded by a day each side to cover every time zone offset.
+const memoriesBetween = async (userId: string, from: LocalDate, to: LocalDate, timeZone: string): Promise<Memory[]> => {
+  const dateFrom = new Date(Date.UTC(from.year, from.month - 1, from.day) - DAY_MS);
+  const dateTo = new Date(Date.UTC(to.year, to.month - 1, to.day) + 2 * DAY_MS);
+  const [fromKey, toKey] = [dateKey(from), dateKey(to)];
+
+  const memories: Memory[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await getMemoryRepository().list(userId, { dateFrom, dateTo, sortOrder: 'asc', limit: PAGE_SIZE, offset });
+    memories.push(...page.memories.filter(memory => {
+      const key = dateKey(localDateOf(memory.createdAt, timeZone));
+      return key >= fromKey && key <= toKey;
+    }));
+    if (page.memories.length < PAGE_SIZE) {
+      return memories;
+    }
+  }
+};
+
+// Happier and more intense memories come back first
+const scoreOf = (memory: Memory): number =>
+  ((memory.mood ?? DEFAULT_SCALE) + (memory.emotions?.intensity ?? DEFAULT_SCALE)) / 20;
+
+const best = (candidates: Memory[], score: (memory: Memory) => number = scoreOf): Memory | undefined =>
+  candidates.reduce<Memory | undefined>((top, memory) => (!top || score(memory) > score(top) ? memory : top), undefined);
+
+const peopleIn = (memory: Memory, people: Person[]): Array<Pick<Person, 'id' | 'name'>> => {
+  const names = new Set((memory.people || []).map(name => name.toLowerCase()));
+  return people
+    .filter(person => personMentions(person).some(name => names.has(name.toLowerCase())))
+    .map(({ id, name }) => ({ id, name }));
+};
+
+// Pick memories to bring back today: the best from this calendar day in each
+// earlier year, and one each from around a year and a month ago. Muted
+// memories and people are left out, as is anything shown in the last
+// REPEAT_COOLDOWN_DAYS; picks shown earlier today stay eligible so the day's
+// picks don't change on every request. Picks are recorded as shown.
+export const resurfaceMemories = async (userId: string, now: Date = new Date()): Promise<ResurfaceResult> => {
+  const user = await getUserRepository().findById(userId);
+  const preferences = preferencesOf(user);
+  const timeZone = timeZoneOf(user);
+  const today = localDateOf(now, timeZone);
+
+  if (!user || preferences.enabled === false) {
+    return { date: dateKey(today), picks: [] };
+  }
+
+  const memoryRepository = getMemoryRepository();
+  const { memories: [first] } = await memoryRepository.list(userId, { sortOrder: 'asc', limit: 1 });
+  if (!first) {
+    return { date: dateKey(today), picks: [] };
+  }
+
+  const people = await getPersonRepository().list(userId);
+  const mutedMemories = new Set(preferences.mutedMemories || []);
+  const mutedNames = new Set(people
+    .filter(person => (preferences.mutedPeople || []).includes(person.id))
+    .flatMap(personMentions)
+    .map(name => name.toLowerCase()));
+
+  const history = await getResurfacingRepository().listSince(userId, new Date(now.getTime() - REPEAT_COOLDOWN_DAYS * DAY_MS));
+  const shownToday = new Set(history
+    .filter(entry => dateKey(localDateOf(entry.surfacedAt, timeZone)) === dateKey(today))
+    .map(entry => entry.memoryId));
+  const recentlyShown = new Set(history.map(entry => entry.memoryId).filter(id => !shownToday.has(id)));
+
+  const picked = new Set<string>();
+  const eligible = (memory: Memory): boolean =>
+    !picked.has(memory.id)
+    && !mutedMemories.has(memory.id)
+    && !recentlyShown.has(memory.id)
+    && !(memory.people || []).some(name => mutedNames.has(name.toLowerCase()));
+
+  const onThisDay: Array<{ memory: Memory; yearsAgo: number }> = [];
+  for (let year = today.year - 1; year >= localDateOf(first.createdAt, timeZone).year; year--) {
+    const day = { ...today, year };
+    const memory = best((await memoriesBetween(userId, day, day, timeZone)).filter(eligible));
+    if (memory) {
+      picked.add(memory.id);
+      onThisDay.push({ memory, yearsAgo: today.year - year });
+    }
+  }
+  onThisDay.sort((a, b) => scoreOf(b.memory) - scoreOf(a.memory));
+
+  const pickAround = async (target: LocalDate, windowDays: number): Promise<Memory | undefined> => {
+    const candidates = await memoriesBetween(userId, addDays(target, -windowDays), addDays(target, windowDays), timeZone);
+    const memory = best(
+      candidates.filter(eligible),
+      candidate => scoreOf(candidate) - DISTANCE_PENALTY * daysApart(localDateOf(candidate.createdAt, timeZone), target)
+    );
+    if (memory) picked.add(memory.id);
+    return memory;
+  };
+
+  const picks: ResurfacedMemory[] = onThisDay
+    .slice(0, MAX_ON_THIS_DAY)
+    .map(({ memory, yearsAgo }) => ({ kind: 'on_this_day', yearsAgo, memory, people: peopleIn(memory, people) }));
+
+  const yearAgo = await pickAround(addMonths(today, -12), YEAR_AGO_WINDOW_DAYS);
+  if (yearAgo) picks.push({ kind: 'year_ago', memory: yearAgo, people: peopleIn(yearAgo, people) });
+
+  const monthAgo = await pickAround(addMonths(today, -1), MONTH_AGO_WINDOW_DAYS);
+  if (monthAgo) picks.push({ kind: 'month_ago', memory: monthAgo, people: peopleIn(monthAgo, people) });
+
+  const unrecorded = picks.filter(pick => !shownToday.has(pick.memory.id));
+  await getResurfacingRepository().record(unrecorded.map(pick => ({
+    id: uuidv4(),
+    userId,
+    memoryId: pick.memory.id,
+    kind: pick.kind,
+    surfacedAt: now,
+  })));
+
+  return { date: dateKey(today), picks };
+};
+
+const pickTitle = (pick: ResurfacedMemory): string => {
+  switch (pick.kind) {
+    case 'on_this_day':
+      return pick.yearsAgo === 1 ? 'On this day last year' : `On this day ${pick.yearsAgo} years ago`;
+    case 'year_ago':
+      return 'A year ago';
+    case 'month_ago':
+      return 'A month ago';
+  }
+};
+
+// Turn the day's best pick into a `memory` nudge; null when there's nothing to resurface
+export const createResurfacingNudge = async (userId: string, now: Date = new Date()): Promise<NudgeView | null> => {
+  const [pick] = (await resurfaceMemories(userId, now)).picks;
+  if (!pick) {
+    return null;
+  }
+
+  const { memory } = pick;
+  return createNudge(userId, {
+    type: 'memory',
+    title: pickTitle(pick),
+    message: `${memory.title}: ${summarizeText(memory.summary || memory.content, 2, NUDGE_EXCERPT_LENGTH)}`,
+    priority: 'low',
+    relatedPeople: pick.people.map(person => person.id),
+    relatedMemories: [memory.id],
+    expiresAt: new Date(now.getTime() + MEMORY_NUDGE_TTL_DAYS * DAY_MS),
+  });
+};
+
+const savePreferences = async (user: UserRecord, resurfacing: ResurfacingPreferences): Promise<void> => {
+  await getUserRepository().update(user.id, {
+    preferences: { theme: 'light', notifications: true, privacy: 'private', ...user.preferences, resurfacing },
+  });
+};
+
+const loadUser = async (userId: string): Promise<UserRecord> => {
+  const user = await getUserRepository().findById(userId);
+  if (!user) {
+    throw new CustomError('User not found', 404);
+  }
+  return user;
+};
+
+// Settings with muted memories and people resolved; deleted ones are left out
+export const getResurfacingSettings = async (userId: string): Promise<ResurfacingSettings> => {
+  const preferences = preferencesOf(await loadUser(userId));
+  const memories = await getMemoryRepository().findByIds(userId, preferences.mutedMemories || []);
+  const people = await getPersonRepository().list(userId);
+
+  return {
+    enabled: preferences.enabled !== false,
+    nudge: preferences.nudge === true,
+    mutedMemories: memories.map(({ id, title }) => ({ id, title })),
+    mutedPeople: people
+      .filter(person => (preferences.mutedPeople || []).includes(person.id))
+      .map(({ id, name }) => ({ id, name })),
+  };
+};
+
+export const updateResurfacingSettings = async (
+  userId: string,
+  changes: Pick<ResurfacingPreferences, 'enabled' | 'nudge'>
+): Promise<ResurfacingSettings> => {
+  for (const value of [changes.enabled, changes.nudge]) {
+    if (value !== undefined && typeof value !== 'boolean') {
+      throw createValidationError('enabled and nudge must be true or false');
+    }
+  }
+
+  const user = await loadUser(userId);
+  await savePreferences(user, {
+    ...preferencesOf(user),
+    ...(changes.enabled !== undefined && { enabled: changes.enabled }),
+    ...(changes.nudge !== undefined && { nudge: changes.nudge }),
+  });
+  return getResurfacingSettings(userId);
+};
+
+// Mute or unmute a memory, or every memory mentioning a person
+export const setMuted = async (
+  userId: string,
+  target: MuteTarget,
+  id: string,
+  muted: boolean
+): Promise<ResurfacingSettings> => {
+  if (muted) {
+    const exists = target === 'memory'
+      ? await getMemoryRepository().findById(userId, id)
+      : await getPersonRepository().findById(userId, id);
+    if (!exists) {
+      throw new CustomError(target === 'memory' ? 'Memory not found' : 'Person not found', 404);
+    }
+  }
+
+  const user = await loadUser(userId);
+  const preferences = preferencesOf(user);
+  const key = target === 'memory' ? 'mutedMemories' : 'mutedPeople';
+  const ids = (preferences[key] || []).filter(existing => existing !== id);
+
+  await savePreferences(user, { ...preferences, [key]: muted ? [...ids, id] : ids });
+  return getResurfacingSettings(userId);
+};
+
+export default {
+  resurfaceMemories,
+  createResurfacingNudge,
+  getResurfacingSettings,
+  updateResurfacingSettings,
+  setMuted,
+};
@@ -1,5 +1,25 @@
-import { ChromaClient, Collection } from 'chromadb';
+import { ChromaClient, Collection, IncludeEnum, Metadata, Where } from 'chromadb';
 import { logger } from '../utils/logger';
+import { Memory } from '../types';
+
+// Filters applied inside the vector query; values within a list match if any one does
+export interface MemorySearchFilters {
+  people?: string[];
+  tags?: string[];
+  emotions?: string[];
+  dateRange?: {
+    start: Date;
+    end: Date;
+  };
+}
+
+export interface MemorySearchMatch {
+  memoryId: string;
+  similarity: number;
+  content: string;
+  summary: string;
+  metadata: Record<string, any>;
+}
 
 // ChromaDB client instance
 let chromaClient: ChromaClient;
@@ -30,6 +50,7 @@ export const initializeChromaDB = async (): Promise<void> => {
         metadata: {
           description: 'Memory embeddings for semantic search',
           embedding_model: 'text-embedding-3-small',
+          'hnsw:space': 'cosine',
         },
       });
       logger.info(`Created new ChromaDB collection: ${collectionName}`);
@@ -50,6 +71,77 @@ export const getMemoryCollection = (): Collection => {
   return memoryCollection;
 };
 
+// Whether initializeChromaDB has connected successfully
+export const isVectorStoreReady = (): boolean => Boolean(memoryCollection);
+
+// Cosine similarity below which a memory isn't considered a match
+export const DEFAULT_SIMILARITY_THRESHOLD = parseFloat(process.env.SEARCH_MIN_SIMILARITY || '0.3');
+
+// Chroma metadata only holds scalars, so list fields are stored as one boolean
+// flag per value (e.g. "tag:beach": true) that `where` clauses can match on
+const flagKey = (field: 'tag' | 'person' | 'emotion', value: string): string =>
+  `${field}:${value.trim().toLowerCase()}`;
+
+// Searchable metadata for a memory; pass to upsertMemoryEmbedding
+export const buildMemoryMetadata = (memory: Memory): Metadata => {
+  const metadata: Metadata = {
+    title: memory.title,
+    tags: (memory.tags || []).join(','),
+    mood: memory.mood ?? 5,
+    isPrivate: memory.isPrivate,
+    createdAt: new Date(memory.createdAt).toISOString(),
+    createdAtTs: new Date(memory.createdAt).getTime(),
+  };
+
+  const emotions = memory.emotions
+    ? [memory.emotions.primary, ...(memory.emotions.secondary || [])]
+    : [];
+
+  (memory.tags || []).forEach(tag => { metadata[flagKey('tag', tag)] = true; });
+  (memory.people || []).forEach(person => { metadata[flagKey('person', person)] = true; });
+  emotions.forEach(emotion => { metadata[flagKey('emotion', emotion)] = true; });
+
+  return metadata;
+};
+
+// Chroma rejects $or/$and with fewer than two clauses
+const anyOf = (clauses: Where[]): Where => (clauses.length === 1 ? clauses[0] as Where : { $or: clauses });
+
+const buildMemoryWhere = (userId: string, filters: MemorySearchFilters = {}): Where => {
+  const clauses: Where[] = [
+    { userId: { $eq: userId } },
+    { type: { $eq: 'memory' } },
+  ];
+
+  const flagFilters: Array<['tag' | 'person' | 'emotion', string[] | undefined]> = [
+    ['tag', filters.tags],
+    ['person', filters.people],
+    ['emotion', filters.emotions],
+  ];
+
+  flagFilters.forEach(([field, values]) => {
+    const keys = Array.from(new Set((values || []).filter(value => value.trim()).map(value => flagKey(field, value))));
+    if (keys.length > 0) {
+      clauses.push(anyOf(keys.map(key => ({ [key]: { $eq: true } }))));
+    }
+  });
+
+  if (filters.dateRange) {
+    clauses.push({ createdAtTs: { $gte: filters.dateRange.start.getTime() } });
+    clauses.push({ createdAtTs: { $lte: filters.dateRange.end.getTime() } });
+  }
+
+  return { $and: clauses };
+};
+
+// Chroma returns distances; convert to a similarity where 1 is identical.
+// Collections created before cosine was configured use squared L2, which for
+// unit-length embeddings equals 2 - 2 * cosine.
+const toSimilarity = (distance: number): number => {
+  const space = memoryCollection?.metadata?.['hnsw:space'] || 'l2';
+  return space === 'l2' ? 1 - distance / 2 : 1 - distance;
+};
+
 // Add memory embedding to vector store
 export const addMemoryEmbedding = async (
   memoryId: string,
@@ -116,6 +208,37 @@ export const updateMemoryEmbedding = async (
   }
 };
 
+// Insert or replace a memory embedding, keeping it scoped to its owner
+export const upsertMemoryEmbedding = async (
+  memoryId: string,
+  userId: string,
+  content: string,
+  summary: string,
+  embedding: number[],
+  metadata?: Record<string, any>
+): Promise<void> => {
+  try {
+    const collection = getMemoryCollection();
+
+    await collection.upsert({
+      ids: [memoryId],
+      embeddings: [embedding],
+      documents: [content],
+      metadatas: [{
+        ...metadata,
+        userId,
+        summary,
+        type: 'memory',
+      }],
+    });
+
+    logger.info(`Upserted memory embedding for memory ID: ${memoryId}`);
+  } catch (error) {
+    logger.error('Failed to upsert memory embedding:', error);
+    throw new Error(`Failed to upsert memory embedding: ${error}`);
+  }
+};
+
 // Delete memory embedding
 export const deleteMemoryEmbedding = async (memoryId: string): Promise<void> => {
   try {
@@ -132,42 +255,37 @@ export const deleteMemoryEmbedding = async (memoryId: string): Promise<void> =>
   }
 };
 
-// Search memories by similarity
+// Search a user's memories by similarity, optionally narrowed by filters
 export const searchMemoriesBySimilarity = async (
   queryEmbedding: number[],
   userId: string,
   limit: number = 10,
-  threshold: number = 0.7
-): Promise<Array<{
-  memoryId: string;
-  similarity: number;
-  content: string;
-  summary: string;
-  metadata: Record<string, any>;
-}>> => {
+  threshold: number = DEFAULT_SIMILARITY_THRESHOLD,
+  filters: MemorySearchFilters = {}
+): Promise<MemorySearchMatch[]> => {
   try {
     const collection = getMemoryCollection();
 
     const results = await collection.query({
       queryEmbeddings: [queryEmbedding],
       nResults: limit,
-      where: {
-        userId,
-        type: 'memory',
-      },
+      where: buildMemoryWhere(userId, filters),
     });
 
     if (!results.ids || !results.ids[0]) {
       return [];
     }
 
-    const memories = results.ids[0].map((id, index) => ({
-      memoryId: id as string,
-      similarity: results.distances?.[0]?.[index] || 0,
-      content: results.documents?.[0]?.[index] || '',
-      summary: results.metadatas?.[0]?.[index]?.summary || '',
-      metadata: results.metadatas?.[0]?.[index] || {},
-    }));
+    const memories = results.ids[0].map((id, index) => {
+      const metadata = results.metadatas?.[0]?.[index] || {};
+      return {
+        memoryId: id as string,
+        similarity: toSimilarity(results.distances?.[0]?.[index] ?? 2),
+        content: results.documents?.[0]?.[index] || '',
+        summary: String(metadata.summary ?? ''),
+        metadata,
+      };
+    });
 
     // Filter by similarity threshold
     return memories.filter(memory => memory.similarity >= threshold);
@@ -252,7 +370,7 @@ export const getMemoryEmbedding = async (
 
     const results = await collection.get({
       ids: [memoryId],
-      include: ['embeddings'],
+      include: [IncludeEnum.Embeddings, IncludeEnum.Documents, IncludeEnum.Metadatas],
     });
 
     if (!results.ids || results.ids.length === 0) {
@@ -262,7 +380,7 @@ export const getMemoryEmbedding = async (
     return {
       memoryId: results.ids[0] as string,
       content: results.documents?.[0] || '',
-      summary: results.metadatas?.[0]?.summary || '',
+      summary: String(results.metadatas?.[0]?.summary ?? ''),
       embedding: results.embeddings?.[0] || [],
       metadata: results.metadatas?.[0] || {},
     };
@@ -336,8 +454,11 @@ export const clearUserEmbeddings = async (userId: string): Promise<void> => {
 export default {
   initializeChromaDB,
   getMemoryCollection,
+  isVectorStoreReady,
+  buildMemoryMetadata,
   addMemoryEmbedding,
   updateMemoryEmbedding,
+  upsertMemoryEmbedding,
   deleteMemoryEmbedding,
   searchMemoriesBySimilarity,
   searchMemoriesByText,
@@ -0,0 +1,71 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getMemoryRepository, getNudgeRepository, getPersonRepository, getUserRepository } from '../repositories';
+import { signAccessToken, toPublicUser } from '../services/authService';
+import { Memory, Nudge, Person, UserRecord } from '../types';
+
+export const createTestUser = async (overrides: Partial<UserRecord> = {}): Promise<UserRecord> => {
+  const now = new Date();
+  return getUserRepository().create({
+    id: uuidv4(),
+    email: `${uuidv4()}@example.com`,
+    name: 'Test User',
+    passwordHash: 'not-a-real-hash',
+    preferences: { theme: 'light', notifications: true, privacy: 'private' },
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  });
+};
+
+export const createTestMemory = async (userId: string, overrides: Partial<Memory> = {}): Promise<Memory> => {
+  const createdAt = overrides.createdAt || new Date();
+  return getMemoryRepository().create({
+    id: uuidv4(),
+    userId,
+    title: 'A memory',
+    content: 'Something happened today',
+    people: [],
+    tags: [],
+    isPrivate: false,
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  });
+};
+
+export const createTestPerson = async (userId: string, name: string, overrides: Partial<Person> = {}): Promise<Person> => {
+  const now = new Date();
+  return getPersonRepository().create({
+    id: uuidv4(),
+    userId,
+    name,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  });
+};
+
+export const createTestNudge = async (userId: string, overrides: Partial<Nudge> = {}): Promise<Nudge> => {
+  const createdAt = overrides.createdAt || new Date();
+  return getNudgeRepository().create({
+    id: uuidv4(),
+    userId,
+    type: 'reconnect',
+    title: 'Catch up',
+    message: 'It has been a while',
+    priority: 'medium',
+    relatedPeople: [],
+    relatedMemories: [],
+    isRead: false,
+    isActioned: false,
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  });
+};
+
+// Headers for calling routes mounted behind authenticateUser as this user
+export const authHeaders = (user: UserRecord): { Authorization: string; 'Content-Type': string } => ({
+  Authorization: `Bearer ${signAccessToken(toPublicUser(user))}`,
+  'Content-Type': 'application/json',
+});
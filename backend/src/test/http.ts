@@ -0,0 +1,28 @@
+import express, { RequestHandler } from 'express';
+import { AddressInfo } from 'net';
+import { errorHandler, notFoundHandler } from '../middleware/errorHandler';
+
+export interface TestServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+// Mount handlers on a bare app with the same body parsing and error handling
+// as src/index.ts, listening on a free local port
+export const serve = (path: string, ...handlers: RequestHandler[]): Promise<TestServer> => {
+  const app = express();
+  app.use(express.json());
+  app.use(path, ...handlers);
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+
+  return new Promise(resolve => {
+    const server = app.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}${path}`,
+        close: () => new Promise<void>((done, fail) => server.close(error => (error ? fail(error) : done()))),
+      });
+    });
+  });
+};
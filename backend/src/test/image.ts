@@ -0,0 +1,41 @@
+import sharp from 'sharp';
+
+export interface TestPhotoOptions {
+  width?: number;
+  height?: number;
+  // EXIF orientation; 5-8 are shown rotated a quarter turn
+  orientation?: number;
+  // EXIF "YYYY:MM:DD HH:MM:SS", read back as local time
+  takenAt?: string;
+  // Decimal degrees, written as whole degrees, minutes and seconds
+  position?: { latitude: number; longitude: number };
+}
+
+const toDegrees = (value: number): string => {
+  const seconds = Math.round(Math.abs(value) * 3600);
+  return `${Math.floor(seconds / 3600)}/1 ${Math.floor((seconds % 3600) / 60)}/1 ${seconds % 60}/1`;
+};
+
+// A plain grey JPEG with whatever EXIF details are asked for
+export const testPhoto = async (options: TestPhotoOptions = {}): Promise<Buffer> => {
+  const { width = 64, height = 48, orientation, takenAt, position } = options;
+
+  return sharp({ create: { width, height, channels: 3, background: '#808080' } })
+    .jpeg()
+    .withMetadata({
+      ...(orientation !== undefined && { orientation }),
+      exif: {
+        IFD0: { Make: 'MemoryNest' },
+        ...(takenAt && { IFD2: { DateTimeOriginal: takenAt } }),
+        ...(position && {
+          IFD3: {
+            GPSLatitudeRef: position.latitude < 0 ? 'S' : 'N',
+            GPSLatitude: toDegrees(position.latitude),
+            GPSLongitudeRef: position.longitude < 0 ? 'W' : 'E',
+            GPSLongitude: toDegrees(position.longitude),
+          },
+        }),
+      },
+    })
+    .toBuffer();
+};
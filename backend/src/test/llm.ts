@@ -0,0 +1,31 @@
+import { CompletionRequest, LLMProvider } from '../providers';
+
+export interface ScriptedLLM extends LLMProvider {
+  // What the model was asked, in order
+  requests: CompletionRequest[];
+}
+
+// An LLM that gives the scripted replies in turn, streaming each word by word.
+// Asking for more replies than were scripted fails like a provider error.
+export const scriptedLLM = (...replies: string[]): ScriptedLLM => {
+  const requests: CompletionRequest[] = [];
+  const next = (request: CompletionRequest): string => {
+    requests.push({ ...request, messages: [...request.messages] });
+    const reply = replies.shift();
+    if (reply === undefined) {
+      throw new Error('No scripted reply left');
+    }
+    return reply;
+  };
+
+  return {
+    name: 'scripted',
+    requests,
+    async complete(request) {
+      return next(request);
+    },
+    async *stream(request) {
+      yield* next(request).split(/(?<= )/);
+    },
+  };
+};
@@ -0,0 +1,17 @@
+import os from 'os';
+import path from 'path';
+import { logger } from '../utils/logger';
+
+// Runs before each test file's imports, so services pick this configuration up:
+// the in-process data store, the offline AI provider, no outbound mail or push
+// and uploaded media kept out of the working tree
+process.env.DATA_STORE = 'memory';
+process.env.AI_PROVIDER = 'offline';
+process.env.TRANSCRIPTION_PROVIDER = 'offline';
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.MAIL_TRANSPORT = 'console';
+process.env.PUSH_TRANSPORT = 'console';
+process.env.MEDIA_DIR = path.join(os.tmpdir(), 'memorynest-test-media');
+
+// Tests exercise failures on purpose; their warnings would bury the results
+logger.silent = true;
@@ -8,15 +8,60 @@ export interface User {
     theme: 'light' | 'dark';
     notifications: boolean;
     privacy: 'public' | 'private' | 'friends';
+    nudges?: NudgePreferences;
+    // Per-channel delivery settings; `notifications: false` turns every channel off
+    channels?: ChannelPreferences;
+    resurfacing?: ResurfacingPreferences;
   };
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Settings for automatically generated nudges; unset fields use the
+// scheduler's defaults
+export interface NudgePreferences {
+  enabled?: boolean;
+  // Local "HH:MM" times with no automatic nudges in between; may span midnight
+  quietHours?: { start: string; end: string };
+  // IANA time zone quiet hours are read in; UTC when omitted
+  timezone?: string;
+  maxPerDay?: number;
+  maxPerWeek?: number;
+}
+
+// "On this day" settings. Muted memories, and memories mentioning muted
+// people, are never resurfaced.
+export interface ResurfacingPreferences {
+  enabled?: boolean;
+  // Also deliver the day's best pick as a `memory` nudge
+  nudge?: boolean;
+  mutedMemories?: string[];
+  mutedPeople?: string[];
+}
+
+export type NotificationChannel = 'push' | 'email' | 'webhook';
+export type DigestFrequency = 'daily' | 'weekly';
+
+export interface ChannelPreferences {
+  push?: { enabled: boolean };
+  // A digest of new nudges, sent at `hour` local time (0-23), on `weekday` (0 is Sunday) when weekly
+  email?: { enabled: boolean; frequency?: DigestFrequency; hour?: number; weekday?: number };
+  // Each new nudge is POSTed to `url`, signed with `secret`
+  webhook?: { enabled: boolean; url?: string; secret?: string };
+}
+
+// Stored user including credentials; never sent to clients
+export interface UserRecord extends User {
+  passwordHash: string;
+  passwordChangedAt?: Date;
+}
+
 export interface Person {
   id: string;
   userId: string;
   name: string;
+  // Other names the person goes by ("Mike" for Michael Chen); mentions of them resolve to `name`
+  aliases?: string[];
   relationship?: string;
   avatar?: string;
   notes?: string;
@@ -31,14 +76,18 @@ export interface Emotion {
   valence: 'positive' | 'negative' | 'neutral';
 }
 
+export type EnrichmentStatus = 'pending' | 'processing' | 'done' | 'failed';
+
 export interface Memory {
   id: string;
   userId: string;
   title: string;
   content: string;
   summary?: string;
+  // Names of the user's people
   people?: string[];
-  emotions?: string[];
+  personSuggestions?: PersonSuggestion[];
+  emotions?: Emotion;
   tags?: string[];
   mood?: number;
   location?: string;
@@ -47,30 +96,72 @@ export interface Memory {
   audioUrl?: string;
   imageUrl?: string;
   embedding?: number[];
+  enrichmentStatus?: EnrichmentStatus;
+  enrichmentError?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// A name AI enrichment found in a memory that isn't linked to one of the
+// user's people. `candidates` are people it might mean; with none, confirming
+// the suggestion creates a new person.
+export interface PersonSuggestion {
+  name: string;
+  candidates: { id: string; name: string }[];
+}
+
+// A record of people merged into one, kept so the merge can be undone.
+// It holds the merged people and the arrays the merge rewrote, as they were.
+export interface PersonMerge {
+  id: string;
+  userId: string;
+  targetId: string;
+  // Aliases the merge added to the target
+  addedAliases: string[];
+  sources: Person[];
+  memories: { id: string; people: string[] }[];
+  nudges: { id: string; relatedPeople: string[] }[];
+  createdAt: Date;
+  undoneAt?: Date;
+}
+
 export interface MemoryWithPeople extends Omit<Memory, 'people'> {
   people: Person[];
 }
 
+export type NudgeType = 'reconnect' | 'log_memory' | 'emotional_gap' | 'person_reminder' | 'milestone' | 'memory';
+export type NudgePriority = 'low' | 'medium' | 'high';
+
+// Where a nudge is in its lifecycle, derived from its fields: active nudges are
+// shown, snoozed ones come back at snoozedUntil, and the rest are finished
+export type NudgeStatus = 'active' | 'snoozed' | 'actioned' | 'dismissed' | 'expired';
+
 export interface Nudge {
   id: string;
   userId: string;
+  type: NudgeType;
   title: string;
-  content: string;
-  type: 'memory' | 'reflection' | 'reminder';
-  scheduledFor: Date;
-  isActive: boolean;
+  message: string;
+  priority: NudgePriority;
+  // Person ids
+  relatedPeople: string[];
+  // Memory ids
+  relatedMemories: string[];
+  isRead: boolean;
+  isActioned: boolean;
+  snoozedUntil?: Date;
+  dismissedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
+  expiresAt?: Date;
 }
 
 // AI Processing Types
 export interface AISummaryRequest {
   content: string;
   people?: string[];
+  // Descriptions of the memory's photos
+  imageCaptions?: string[];
 }
 
 export interface AISummaryResponse {
@@ -81,6 +172,22 @@ export interface AISummaryResponse {
   mood: number;
 }
 
+export interface AIImageDescriptionRequest {
+  image: Buffer;
+  contentType: string;
+  // Used by the offline provider, which can't see the image
+  filename?: string;
+  width?: number;
+  height?: number;
+  // The memory text, to help the model name the people and places it shows
+  context?: string;
+}
+
+export interface AIImageDescriptionResponse {
+  caption: string;
+  tags: string[];
+}
+
 export interface AIQueryRequest {
   query: string;
   userId: string;
@@ -94,24 +201,75 @@ export interface AIQueryRequest {
     tags?: string[];
   };
   limit?: number;
+  // Minimum cosine similarity (0-1) a memory needs to be returned
+  threshold?: number;
+}
+
+export interface MemorySearchResult extends Memory {
+  similarity: number;
 }
 
 export interface AIQueryResponse {
-  memories: MemoryWithPeople[];
+  memories: MemorySearchResult[];
   query: string;
   explanation: string;
   confidence: number;
 }
 
+export type SearchRetriever = 'keyword' | 'semantic';
+
+// A matched span within one field; offsets index into `text`
+export interface SearchHighlight {
+  field: 'title' | 'content' | 'summary';
+  text: string;
+  matches: Array<{ start: number; end: number }>;
+}
+
+export interface HybridSearchResult {
+  memory: Memory;
+  score: number;
+  matchedBy: SearchRetriever[];
+  similarity?: number;
+  highlights: SearchHighlight[];
+}
+
+export interface HybridSearchResponse {
+  query: string;
+  results: HybridSearchResult[];
+  // False when the vector store or embedding provider couldn't be used
+  semanticAvailable: boolean;
+}
+
+// A memory an answer may cite; answers refer to it as [index]
+export interface AskCitation {
+  index: number;
+  memoryId: string;
+  title: string;
+  createdAt: Date;
+  snippet: string;
+}
+
+export interface AskResponse {
+  answer: string;
+  citations: AskCitation[];
+  // The subset of citations the answer actually references
+  citedMemoryIds: string[];
+}
+
 export interface NudgeGenerationRequest {
   userId: string;
   daysSinceLastMemory?: number;
   emotionalGaps?: string[];
+  // Names of people the user hasn't written about lately
   inactivePeople?: string[];
+  // Anniversaries and counts worth celebrating, e.g. "100th memory"
+  milestones?: string[];
+  // Ask for a single nudge of this type instead of a mix
+  type?: NudgeType;
 }
 
 export interface NudgeGenerationResponse {
-  nudges: Omit<Nudge, 'id' | 'userId' | 'createdAt'>[];
+  nudges: Pick<Nudge, 'type' | 'title' | 'message' | 'priority' | 'relatedPeople'>[];
 }
 
 // API Response Types
@@ -134,7 +292,7 @@ export interface PaginatedResponse<T> {
 
 // Request Types
 export interface CreateMemoryRequest {
-  title: string;
+  title?: string;
   content: string;
   people?: string[];
   tags?: string[];
@@ -151,6 +309,8 @@ export interface UpdateMemoryRequest {
   location?: string;
   weather?: string;
   isPrivate?: boolean;
+  // ISO date, e.g. a photo's capture time from AttachmentSuggestions
+  createdAt?: string;
 }
 
 export interface CreatePersonRequest {
@@ -181,6 +341,13 @@ export interface MemoryFilters {
   search?: string;
 }
 
+export interface MemoryStats {
+  totalMemories: number;
+  averageMood: number;
+  mostFrequentEmotion: string;
+  recentMemories: number;
+}
+
 // Vector Search Types
 export interface VectorSearchRequest {
   query: string;
@@ -208,11 +375,163 @@ export interface RegisterRequest {
   name: string;
 }
 
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
 export interface AuthResponse {
   user: User;
   token: string;
 }
 
+export interface AccessTokenPayload {
+  sub: string;
+  email: string;
+}
+
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  newPassword: string;
+}
+
+export interface PasswordResetTokenRecord {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+}
+
+// Background Job Types
+export type JobStatus = 'pending' | 'processing' | 'done' | 'failed';
+
+export interface Job<TPayload = Record<string, any>> {
+  id: string;
+  type: string;
+  payload: TPayload;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedAt?: Date;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Attachment Types
+export type AttachmentKind = 'audio' | 'image' | 'file';
+export type RenditionName = 'thumbnail' | 'preview';
+
+// A resized copy of an image attachment
+export interface AttachmentRendition {
+  name: RenditionName;
+  contentType: string;
+  size: number;
+  width: number;
+  height: number;
+  storageKey: string;
+}
+
+// A file attached to a memory; the bytes live in the media store under storageKey
+export interface Attachment {
+  id: string;
+  userId: string;
+  memoryId: string;
+  kind: AttachmentKind;
+  filename: string;
+  contentType: string;
+  size: number;
+  storageKey: string;
+  width?: number;
+  height?: number;
+  // Capture time and GPS position from a photo's EXIF data
+  capturedAt?: Date;
+  latitude?: number;
+  longitude?: number;
+  // What an image shows, written by the enrichment job
+  caption?: string;
+  tags?: string[];
+  renditions: AttachmentRendition[];
+  createdAt: Date;
+}
+
+// What API clients see: storage details are replaced by download URLs
+export interface PublicAttachment extends Omit<Attachment, 'userId' | 'storageKey' | 'renditions'> {
+  url: string;
+  thumbnailUrl?: string;
+  previewUrl?: string;
+}
+
+// Values read from attachments that the user may choose to apply to the memory
+export interface AttachmentSuggestions {
+  createdAt?: Date;
+  location?: string;
+}
+
+export interface RefreshTokenRecord {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  replacedBy?: string;
+  createdAt: Date;
+}
+
+// Notification Types
+
+// A browser's Web Push subscription; keys come from PushSubscription.toJSON()
+export interface PushSubscriptionRecord {
+  id: string;
+  userId: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+export type DeliveryStatus = 'pending' | 'sent' | 'failed';
+// What was delivered: new nudges, an email digest, or a test from the settings page
+export type DeliveryKind = 'nudge' | 'digest' | 'test';
+
+// One attempt-tracked send on one channel; retried by the job queue
+export interface NotificationDelivery {
+  id: string;
+  userId: string;
+  channel: NotificationChannel;
+  kind: DeliveryKind;
+  status: DeliveryStatus;
+  // Push endpoint, email address or webhook URL
+  target: string;
+  nudgeIds: string[];
+  attempts: number;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  deliveredAt?: Date;
+}
+
+// Why a memory was resurfaced: same calendar day in an earlier year, or
+// from around a month or a year ago
+export type ResurfaceKind = 'on_this_day' | 'month_ago' | 'year_ago';
+
+// A memory shown by resurfacing, kept so it isn't shown again too soon
+export interface MemoryResurfacing {
+  id: string;
+  userId: string;
+  memoryId: string;
+  kind: ResurfaceKind;
+  surfacedAt: Date;
+}
+
 // Dashboard Types
 export interface DashboardStats {
   totalMemories: number;
@@ -229,13 +548,21 @@ export interface MemoryTimeline {
   averageMood: number;
 }
 
+// Mood and stats fields are absent until the person appears in a memory
 export interface PersonInsights {
   person: Person;
   memoryCount: number;
-  averageMood: number;
-  mostFrequentEmotion: string;
-  lastInteraction: Date;
+  averageMood?: number;
+  mostFrequentEmotion?: string;
+  firstInteraction?: Date;
+  lastInteraction?: Date;
   relationshipStrength: number; // 1-10 scale
+  // Average mood of the memories with this person, month by month (YYYY-MM)
+  moodOverTime: { month: string; averageMood: number; memoryCount: number }[];
+  topTags: { name: string; count: number }[];
+  topEmotions: { name: string; count: number }[];
+  // AI-written summary of the relationship as the memories tell it
+  summary?: string;
 }
 
 // Error Types
@@ -0,0 +1,19 @@
+import { parseBuffer } from 'music-metadata';
+import { logger } from './logger';
+
+// Duration in seconds read from the container headers. Returns undefined when
+// the file doesn't record one, which is common for MediaRecorder WebM output.
+export const getAudioDuration = async (audio: Buffer, mimeType: string): Promise<number | undefined> => {
+  try {
+    const metadata = await parseBuffer(audio, { mimeType, size: audio.length }, { duration: true, skipCovers: true });
+    const duration = metadata.format.duration;
+    return duration !== undefined && Number.isFinite(duration) ? duration : undefined;
+  } catch (error) {
+    logger.debug('Could not read audio duration:', error);
+    return undefined;
+  }
+};
+
+export default {
+  getAudioDuration,
+};
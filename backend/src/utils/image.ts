@@ -0,0 +1,69 @@
+import sharp from 'sharp';
+import exifr from 'exifr';
+import { logger } from './logger';
+
+export interface ImageMetadata {
+  // Display size, after applying the EXIF orientation
+  width?: number;
+  height?: number;
+  capturedAt?: Date;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface ImageRendition {
+  data: Buffer;
+  contentType: string;
+  width: number;
+  height: number;
+}
+
+// Size and EXIF capture details. Anything missing or unreadable is left out.
+export const readImageMetadata = async (image: Buffer): Promise<ImageMetadata> => {
+  const metadata: ImageMetadata = {};
+
+  try {
+    const { width, height, orientation } = await sharp(image).metadata();
+    // Orientations 5-8 rotate the image a quarter turn
+    const rotated = orientation !== undefined && orientation >= 5;
+    if (width && height) {
+      metadata.width = rotated ? height : width;
+      metadata.height = rotated ? width : height;
+    }
+  } catch (error) {
+    logger.debug('Could not read image size:', error);
+  }
+
+  try {
+    const exif = await exifr.parse(image, { pick: ['DateTimeOriginal', 'CreateDate', 'GPSLatitude', 'GPSLatitudeRef', 'GPSLongitude', 'GPSLongitudeRef'] });
+    const capturedAt = exif?.DateTimeOriginal || exif?.CreateDate;
+
+    if (capturedAt instanceof Date && !Number.isNaN(capturedAt.getTime())) {
+      metadata.capturedAt = capturedAt;
+    }
+    if (Number.isFinite(exif?.latitude) && Number.isFinite(exif?.longitude)) {
+      metadata.latitude = exif.latitude;
+      metadata.longitude = exif.longitude;
+    }
+  } catch (error) {
+    logger.debug('Could not read image EXIF data:', error);
+  }
+
+  return metadata;
+};
+
+// A WebP copy that fits within maxSize x maxSize, upright and never enlarged
+export const createRendition = async (image: Buffer, maxSize: number): Promise<ImageRendition> => {
+  const { data, info } = await sharp(image)
+    .rotate()
+    .resize({ width: maxSize, height: maxSize, fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer({ resolveWithObject: true });
+
+  return { data, contentType: 'image/webp', width: info.width, height: info.height };
+};
+
+export default {
+  readImageMetadata,
+  createRendition,
+};
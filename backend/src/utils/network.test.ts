@@ -0,0 +1,49 @@
+import { isPrivateAddress, resolvesToPrivateAddress } from './network';
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '192.168.1.10',
+    '100.64.0.1',
+    '169.254.169.254',
+    '0.0.0.0',
+    '::1',
+    '::',
+    'fd00::1',
+    'fe80::1',
+  ])('blocks %s', address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111'])('allows %s', address => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+
+  it('checks IPv4-mapped IPv6 addresses against the IPv4 ranges', () => {
+    expect(isPrivateAddress('::ffff:169.254.169.254')).toBe(true);
+    expect(isPrivateAddress('::ffff:93.184.216.34')).toBe(false);
+  });
+
+  it('treats anything that isn\'t an IP address as private', () => {
+    expect(isPrivateAddress('localhost')).toBe(true);
+  });
+});
+
+describe('resolvesToPrivateAddress', () => {
+  it('reads IP hosts straight from the URL, including bracketed IPv6', async () => {
+    expect(await resolvesToPrivateAddress('http://169.254.169.254/latest/meta-data')).toBe(true);
+    expect(await resolvesToPrivateAddress('https://[::1]:8443/hook')).toBe(true);
+    expect(await resolvesToPrivateAddress('https://[::ffff:a9fe:a9fe]/hook')).toBe(true);
+    expect(await resolvesToPrivateAddress('https://93.184.216.34/hook')).toBe(false);
+  });
+
+  it('resolves host names', async () => {
+    expect(await resolvesToPrivateAddress('http://localhost:5000/hook')).toBe(true);
+  });
+
+  it('throws for a malformed URL', async () => {
+    await expect(resolvesToPrivateAddress('not a url')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,45 @@
+import dns from 'dns/promises';
+import net from 'net';
+
+// Addresses a user-supplied URL may not lead the server to: unspecified,
+// loopback, private, shared (CGNAT), link-local (where cloud metadata services
+// listen), benchmarking, multicast and reserved ranges. IPv4-mapped IPv6
+// addresses are checked against the IPv4 ranges.
+const PRIVATE_RANGES: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+const privateAddresses = new net.BlockList();
+PRIVATE_RANGES.forEach(([address, prefix, family]) => privateAddresses.addSubnet(address, prefix, family));
+
+export const isPrivateAddress = (address: string): boolean => {
+  const family = net.isIP(address);
+  return family === 0 || privateAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+// Whether the URL's host is, or resolves to, a private address. Throws when
+// the URL is malformed or its host doesn't resolve.
+export const resolvesToPrivateAddress = async (url: string): Promise<boolean> => {
+  const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = net.isIP(hostname)
+    ? [hostname]
+    : (await dns.lookup(hostname, { all: true, verbatim: true })).map(result => result.address);
+
+  return addresses.length === 0 || addresses.some(isPrivateAddress);
+};
@@ -0,0 +1,83 @@
+// Common English given names and their short forms. A name can sit in more
+// than one group ("Chris" is short for both Christopher and Christine).
+const NICKNAME_GROUPS: string[][] = [
+  ['abigail', 'abby', 'abbie'],
+  ['alexander', 'alex', 'xander', 'sasha'],
+  ['alexandra', 'alex', 'lexi', 'sasha'],
+  ['amanda', 'mandy'],
+  ['andrew', 'andy', 'drew'],
+  ['anthony', 'tony'],
+  ['benjamin', 'ben', 'benny'],
+  ['catherine', 'cathy', 'kate', 'katie', 'cat'],
+  ['charles', 'charlie', 'chuck'],
+  ['christina', 'chris', 'tina', 'christine'],
+  ['christopher', 'chris', 'topher'],
+  ['daniel', 'dan', 'danny'],
+  ['david', 'dave', 'davey'],
+  ['deborah', 'debbie', 'deb'],
+  ['donald', 'don', 'donnie'],
+  ['dorothy', 'dot', 'dottie'],
+  ['edward', 'ed', 'eddie', 'ted', 'ned'],
+  ['elizabeth', 'liz', 'lizzie', 'beth', 'betty', 'eliza', 'libby'],
+  ['emily', 'em', 'emmy'],
+  ['frederick', 'fred', 'freddie'],
+  ['gabriel', 'gabe'],
+  ['gregory', 'greg'],
+  ['harold', 'harry', 'hal'],
+  ['henry', 'harry', 'hank'],
+  ['isabella', 'bella', 'izzy', 'isabel'],
+  ['jacob', 'jake'],
+  ['james', 'jim', 'jimmy', 'jamie'],
+  ['jennifer', 'jen', 'jenny'],
+  ['jessica', 'jess', 'jessie'],
+  ['john', 'johnny', 'jack'],
+  ['jonathan', 'jon', 'jonny'],
+  ['joseph', 'joe', 'joey'],
+  ['joshua', 'josh'],
+  ['katherine', 'kathy', 'kate', 'katie', 'kat'],
+  ['kenneth', 'ken', 'kenny'],
+  ['lawrence', 'larry'],
+  ['madeline', 'maddie', 'maddy'],
+  ['margaret', 'maggie', 'meg', 'peggy'],
+  ['matthew', 'matt'],
+  ['michael', 'mike', 'mikey', 'mick'],
+  ['nathaniel', 'nate', 'nathan'],
+  ['nicholas', 'nick', 'nicky'],
+  ['patricia', 'pat', 'patty', 'trish'],
+  ['patrick', 'pat', 'paddy'],
+  ['peter', 'pete'],
+  ['philip', 'phil'],
+  ['raymond', 'ray'],
+  ['rebecca', 'becky', 'becca'],
+  ['richard', 'rich', 'rick', 'ricky', 'dick'],
+  ['robert', 'rob', 'robbie', 'bob', 'bobby'],
+  ['ronald', 'ron', 'ronnie'],
+  ['samantha', 'sam', 'sammy'],
+  ['samuel', 'sam', 'sammy'],
+  ['stephen', 'steve', 'stevie'],
+  ['steven', 'steve', 'stevie'],
+  ['susan', 'sue', 'susie'],
+  ['theodore', 'theo', 'ted', 'teddy'],
+  ['thomas', 'tom', 'tommy'],
+  ['timothy', 'tim', 'timmy'],
+  ['victoria', 'vicky', 'tori'],
+  ['william', 'will', 'bill', 'billy', 'liam'],
+  ['zachary', 'zach', 'zack'],
+];
+
+const GROUPS_BY_NAME = new Map<string, Set<number>>();
+NICKNAME_GROUPS.forEach((group, index) => {
+  for (const name of group) {
+    GROUPS_BY_NAME.set(name, (GROUPS_BY_NAME.get(name) || new Set()).add(index));
+  }
+});
+
+// Whether two lower-case given names can refer to the same person ("mike" and "michael")
+export const areNicknames = (a: string, b: string): boolean => {
+  const groups = GROUPS_BY_NAME.get(a);
+  return !!groups && [...(GROUPS_BY_NAME.get(b) || [])].some(index => groups.has(index));
+};
+
+export default {
+  areNicknames,
+};
@@ -0,0 +1,171 @@
+import { Emotion } from '../types';
+
+// Lightweight, dependency-free text heuristics used by the offline AI provider
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be',
+  'because', 'been', 'before', 'being', 'but', 'by', 'can', 'could', 'day', 'did', 'do', 'does',
+  'doing', 'down', 'during', 'each', 'even', 'feel', 'feeling', 'felt', 'few', 'for', 'from',
+  'get', 'got', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'him', 'his', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'like', 'me', 'more', 'most', 'my', 'no',
+  'not', 'now', 'of', 'off', 'on', 'once', 'only', 'or', 'other', 'our', 'out', 'over', 'really',
+  'same', 'she', 'so', 'some', 'still', 'such', 'than', 'that', 'the', 'their', 'them', 'then',
+  'there', 'these', 'they', 'this', 'those', 'through', 'to', 'today', 'too', 'under', 'until',
+  'up', 'us', 'very', 'was', 'we', 'went', 'were', 'what', 'when', 'where', 'which', 'while',
+  'who', 'why', 'will', 'with', 'would', 'yesterday', 'you', 'your',
+]);
+
+// Emotion keywords and the valence each one carries
+const EMOTION_LEXICON: Record<string, { words: string[]; valence: Emotion['valence'] }> = {
+  joy: { words: ['happy', 'joy', 'fun', 'great', 'amazing', 'wonderful', 'awesome', 'love', 'loved', 'laughed', 'smile', 'celebrate', 'celebrated', 'delighted'], valence: 'positive' },
+  gratitude: { words: ['grateful', 'thankful', 'thanks', 'appreciate', 'appreciated', 'blessed'], valence: 'positive' },
+  excitement: { words: ['excited', 'exciting', 'thrilled', 'cant wait', 'adventure', 'finally'], valence: 'positive' },
+  calm: { words: ['calm', 'peaceful', 'relaxed', 'relaxing', 'quiet', 'rest', 'content', 'cozy'], valence: 'positive' },
+  pride: { words: ['proud', 'accomplished', 'achieved', 'won', 'promotion', 'finished', 'success'], valence: 'positive' },
+  sadness: { words: ['sad', 'cried', 'crying', 'miss', 'missed', 'lonely', 'lost', 'grief', 'funeral', 'upset'], valence: 'negative' },
+  anger: { words: ['angry', 'mad', 'furious', 'annoyed', 'frustrated', 'frustrating', 'argument', 'fight'], valence: 'negative' },
+  anxiety: { words: ['anxious', 'worried', 'nervous', 'stressed', 'stress', 'scared', 'afraid', 'overwhelmed'], valence: 'negative' },
+  tiredness: { words: ['tired', 'exhausted', 'drained', 'sleepy', 'burned'], valence: 'negative' },
+  nostalgia: { words: ['remember', 'remembered', 'memories', 'childhood', 'old', 'reunion', 'throwback'], valence: 'neutral' },
+};
+
+export const isStopWord = (word: string): boolean => STOP_WORDS.has(word);
+
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s']/g, ' ')
+    .replace(/'/g, '')
+    .split(/\s+/)
+    .filter(Boolean);
+
+export const splitSentences = (text: string): string[] =>
+  text
+    .replace(/\s+/g, ' ')
+    .split(/(?<=[.!?])\s+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+
+// Most frequent non-stop-words, ties broken by first appearance
+export const extractKeywords = (text: string, limit: number = 5): string[] => {
+  const counts = new Map<string, number>();
+
+  tokenize(text).forEach(token => {
+    if (token.length > 2 && !STOP_WORDS.has(token) && !/^\d+$/.test(token)) {
+      counts.set(token, (counts.get(token) || 0) + 1);
+    }
+  });
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([word]) => word);
+};
+
+// The leading sentences of the text, trimmed to maxLength
+export const summarizeText = (text: string, maxSentences: number = 2, maxLength: number = 240): string => {
+  const summary = splitSentences(text).slice(0, maxSentences).join(' ');
+
+  return summary.length > maxLength
+    ? `${summary.slice(0, maxLength).trimEnd()}...`
+    : summary;
+};
+
+// Trigrams as pg_trgm makes them: each lower-cased word padded with two
+// spaces in front and one behind
+const trigrams = (text: string): Set<string> => {
+  const result = new Set<string>();
+  for (const word of text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)) {
+    const padded = `  ${word} `;
+    for (let i = 0; i < padded.length - 2; i++) {
+      result.add(padded.slice(i, i + 3));
+    }
+  }
+  return result;
+};
+
+// pg_trgm's similarity(): shared trigrams over all distinct trigrams, 0-1
+export const trigramSimilarity = (a: string, b: string): number => {
+  const left = trigrams(a);
+  const right = trigrams(b);
+  const shared = [...left].filter(trigram => right.has(trigram)).length;
+  const total = left.size + right.size - shared;
+  return total === 0 ? 0 : shared / total;
+};
+
+// Capitalised names after words that usually introduce a person: "met Sarah",
+// "dinner with Mike Chen". Crude, but enough for the offline provider.
+const NAME_CUE = /\b(?:with|met|saw|called|visited|told|and)\s+((?:[A-Z][\p{Ll}'-]+)(?:\s+[A-Z][\p{Ll}'-]+)?)/gu;
+
+export const extractNames = (text: string): string[] => {
+  const names = new Set<string>();
+  for (const match of text.matchAll(NAME_CUE)) {
+    const name = (match[1] || '').replace(/['’]s$/, '');
+    if (name && !STOP_WORDS.has((name.split(' ')[0] || '').toLowerCase())) {
+      names.add(name);
+    }
+  }
+  return [...names];
+};
+
+const DEFAULT_TITLE_LENGTH = 60;
+
+// Untitled memories are titled after the start of their content
+export const defaultTitle = (content: string): string => {
+  const firstLine = content.trim().split('\n')[0] || '';
+  return firstLine.length > DEFAULT_TITLE_LENGTH
+    ? `${firstLine.slice(0, DEFAULT_TITLE_LENGTH).trimEnd()}...`
+    : firstLine;
+};
+
+export const detectEmotion = (text: string): Emotion => {
+  const normalized = ` ${tokenize(text).join(' ')} `;
+  const scores = Object.entries(EMOTION_LEXICON)
+    .map(([emotion, { words, valence }]) => ({
+      emotion,
+      valence,
+      score: words.filter(word => normalized.includes(` ${word} `)).length,
+    }))
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const [primary, ...rest] = scores;
+
+  if (!primary) {
+    return { primary: 'neutral', secondary: [], intensity: 3, valence: 'neutral' };
+  }
+
+  return {
+    primary: primary.emotion,
+    secondary: rest.slice(0, 2).map(entry => entry.emotion),
+    intensity: Math.min(10, 4 + primary.score * 2),
+    valence: primary.valence,
+  };
+};
+
+// Map an emotion onto the 1-10 mood scale
+export const estimateMood = (emotion: Emotion): number => {
+  const offset = Math.round(emotion.intensity / 3);
+
+  switch (emotion.valence) {
+    case 'positive':
+      return Math.min(10, 6 + offset);
+    case 'negative':
+      return Math.max(1, 5 - offset);
+    default:
+      return 5;
+  }
+};
+
+export default {
+  isStopWord,
+  tokenize,
+  splitSentences,
+  extractKeywords,
+  summarizeText,
+  trigramSimilarity,
+  extractNames,
+  defaultTitle,
+  detectEmotion,
+  estimateMood,
+};
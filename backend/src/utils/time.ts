@@ -0,0 +1,45 @@
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface LocalClock {
+  year: number;
+  // 1-12
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  // 0 is Sunday
+  weekday: number;
+}
+
+// The wall-clock time at `date` in an IANA time zone
+export const localClock = (date: Date, timeZone: string = 'UTC'): LocalClock => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short',
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(date);
+  const part = (type: string): string => parts.find(p => p.type === type)?.value || '';
+
+  return {
+    year: Number(part('year')),
+    month: Number(part('month')),
+    day: Number(part('day')),
+    hour: Number(part('hour')),
+    minute: Number(part('minute')),
+    weekday: WEEKDAYS.indexOf(part('weekday')),
+  };
+};
+
+export const isTimeZone = (value: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
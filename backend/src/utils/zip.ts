@@ -0,0 +1,102 @@
+import fsp from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import yauzl, { Entry } from 'yauzl';
+
+export interface ZipEntryFile {
+  // Path inside the archive, with forward slashes
+  path: string;
+  data: Buffer;
+}
+
+export interface ZipReadOptions {
+  // Entries this rejects are skipped without being decompressed
+  include: (entryPath: string) => boolean;
+  maxFiles: number;
+  // Total uncompressed size of the included entries
+  maxBytes: number;
+}
+
+const ZIP_SIGNATURE = 0x04034b50;
+
+// Checks the local file header rather than trusting the file name
+export const isZipFile = async (filePath: string): Promise<boolean> => {
+  const file = await fsp.open(filePath, 'r');
+  try {
+    const header = Buffer.alloc(4);
+    const { bytesRead } = await file.read(header, 0, 4, 0);
+    return bytesRead === 4 && header.readUInt32LE(0) === ZIP_SIGNATURE;
+  } finally {
+    await file.close();
+  }
+};
+
+// Folders, macOS resource forks and dotfiles are never wanted
+const isHiddenEntry = (entryPath: string): boolean =>
+  entryPath.endsWith('/') || entryPath.startsWith('__MACOSX/') || path.posix.basename(entryPath).startsWith('.');
+
+const readStream = async (stream: Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
+
+// Extract the matching files of a zip archive into memory. Limits are checked
+// against the sizes in the archive's directory, which yauzl verifies while
+// inflating, so a zip bomb is rejected before it is expanded.
+export const readZip = (filePath: string, options: ZipReadOptions): Promise<ZipEntryFile[]> =>
+  new Promise((resolve, reject) => {
+    yauzl.open(filePath, { lazyEntries: true }, (openError, zip) => {
+      if (openError || !zip) {
+        reject(openError || new Error('Could not open the archive'));
+        return;
+      }
+
+      const files: ZipEntryFile[] = [];
+      let totalBytes = 0;
+
+      const fail = (error: Error): void => {
+        zip.close();
+        reject(error);
+      };
+
+      zip.on('error', fail);
+      zip.on('end', () => resolve(files));
+      zip.on('entry', (entry: Entry) => {
+        if (isHiddenEntry(entry.fileName) || !options.include(entry.fileName)) {
+          zip.readEntry();
+          return;
+        }
+
+        totalBytes += entry.uncompressedSize;
+        if (files.length >= options.maxFiles) {
+          fail(new Error(`The archive contains more than ${options.maxFiles} files`));
+          return;
+        }
+        if (totalBytes > options.maxBytes) {
+          fail(new Error(`The archive expands to more than ${Math.floor(options.maxBytes / (1024 * 1024))} MB`));
+          return;
+        }
+
+        zip.openReadStream(entry, (streamError, stream) => {
+          if (streamError || !stream) {
+            fail(streamError || new Error(`Could not read ${entry.fileName}`));
+            return;
+          }
+          readStream(stream).then(data => {
+            files.push({ path: entry.fileName, data });
+            zip.readEntry();
+          }, fail);
+        });
+      });
+
+      zip.readEntry();
+    });
+  });
+
+export default {
+  isZipFile,
+  readZip,
+};
@@ -1,10 +1,11 @@
 -- Enable necessary extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+CREATE EXTENSION IF NOT EXISTS "vector";
 
 -- Create custom types
 CREATE TYPE emotion_valence AS ENUM ('positive', 'negative', 'neutral');
-CREATE TYPE nudge_type AS ENUM ('reconnect', 'log_memory', 'emotional_gap', 'person_reminder');
+CREATE TYPE nudge_type AS ENUM ('reconnect', 'log_memory', 'emotional_gap', 'person_reminder', 'milestone', 'memory');
 CREATE TYPE nudge_priority AS ENUM ('low', 'medium', 'high');
 
 -- Users table
@@ -13,17 +14,43 @@ CREATE TABLE users (
     email VARCHAR(255) UNIQUE NOT NULL,
     password_hash VARCHAR(255) NOT NULL,
     name VARCHAR(255) NOT NULL,
+    avatar TEXT,
+    preferences JSONB DEFAULT '{}',
+    password_changed_at TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Refresh tokens table (only token hashes are stored)
+CREATE TABLE refresh_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash VARCHAR(64) UNIQUE NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    replaced_by UUID,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Password reset tokens table (single use, only token hashes are stored)
+CREATE TABLE password_reset_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash VARCHAR(64) UNIQUE NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- People table
 CREATE TABLE people (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
     name VARCHAR(255) NOT NULL,
+    aliases TEXT[] NOT NULL DEFAULT '{}', -- other names mentions of this person resolve from
     relationship VARCHAR(255),
     avatar TEXT,
+    notes TEXT,
     tags TEXT[] DEFAULT '{}',
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -37,7 +64,8 @@ CREATE TABLE memories (
     title VARCHAR(255) NOT NULL,
     content TEXT NOT NULL,
     summary TEXT NOT NULL,
-    people UUID[] DEFAULT '{}',
+    people TEXT[] DEFAULT '{}', -- names of the user's people
+    person_suggestions JSONB NOT NULL DEFAULT '[]', -- names found by AI enrichment, awaiting confirmation
     emotions JSONB NOT NULL DEFAULT '{}',
     tags TEXT[] DEFAULT '{}',
     location VARCHAR(255),
@@ -47,6 +75,8 @@ CREATE TABLE memories (
     audio_url TEXT,
     image_url TEXT,
     embedding VECTOR(1536), -- OpenAI text-embedding-3-small dimension
+    enrichment_status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (enrichment_status IN ('pending', 'processing', 'done', 'failed')),
+    enrichment_error TEXT,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -63,12 +93,105 @@ CREATE TABLE nudges (
     related_memories UUID[] DEFAULT '{}',
     is_read BOOLEAN DEFAULT false,
     is_actioned BOOLEAN DEFAULT false,
+    -- Left out of the active list until then
+    snoozed_until TIMESTAMP WITH TIME ZONE,
+    dismissed_at TIMESTAMP WITH TIME ZONE,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     expires_at TIMESTAMP WITH TIME ZONE
 );
 
+-- Files attached to memories; the bytes live in the configured media store
+CREATE TABLE attachments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    memory_id UUID NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('audio', 'image', 'file')),
+    filename VARCHAR(255) NOT NULL,
+    content_type VARCHAR(100) NOT NULL,
+    size INTEGER NOT NULL,
+    storage_key TEXT NOT NULL,
+    width INTEGER,
+    height INTEGER,
+    captured_at TIMESTAMP WITH TIME ZONE,
+    latitude DOUBLE PRECISION,
+    longitude DOUBLE PRECISION,
+    caption TEXT,
+    tags TEXT[] DEFAULT '{}',
+    renditions JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- People merged into another, kept so the merge can be undone. sources holds
+-- the merged people rows; memories and nudges hold the arrays the merge
+-- rewrote, as they were before it.
+CREATE TABLE person_merges (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    target_id UUID NOT NULL REFERENCES people(id) ON DELETE CASCADE,
+    added_aliases TEXT[] NOT NULL DEFAULT '{}',
+    sources JSONB NOT NULL DEFAULT '[]',
+    memories JSONB NOT NULL DEFAULT '[]',
+    nudges JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    undone_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Web Push subscriptions, one per browser; the endpoint identifies it
+CREATE TABLE push_subscriptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    endpoint TEXT UNIQUE NOT NULL,
+    p256dh TEXT NOT NULL,
+    auth TEXT NOT NULL,
+    user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Log of notifications sent over push, email and webhooks, with retry state
+CREATE TABLE notification_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    channel VARCHAR(20) NOT NULL CHECK (channel IN ('push', 'email', 'webhook')),
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('nudge', 'digest', 'test')),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+    target TEXT NOT NULL,
+    nudge_ids UUID[] DEFAULT '{}',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    delivered_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Memories shown by "on this day" resurfacing, so they aren't repeated too soon
+CREATE TABLE memory_resurfacings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    memory_id UUID NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('on_this_day', 'month_ago', 'year_ago')),
+    surfaced_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Background jobs table (AI enrichment and other slow work)
+CREATE TABLE jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    type VARCHAR(100) NOT NULL,
+    payload JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'done', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    locked_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Create indexes for better performance
 CREATE INDEX idx_users_email ON users(email);
+CREATE INDEX idx_refresh_tokens_user_id ON refresh_tokens(user_id);
+CREATE INDEX idx_password_reset_tokens_user_id ON password_reset_tokens(user_id);
 CREATE INDEX idx_people_user_id ON people(user_id);
 CREATE INDEX idx_people_name ON people(name);
 CREATE INDEX idx_memories_user_id ON memories(user_id);
@@ -83,6 +206,12 @@ CREATE INDEX idx_nudges_created_at ON nudges(created_at DESC);
 CREATE INDEX idx_nudges_is_read ON nudges(is_read);
 CREATE INDEX idx_nudges_type ON nudges(type);
 CREATE INDEX idx_nudges_priority ON nudges(priority);
+CREATE INDEX idx_jobs_status_run_at ON jobs(status, run_at);
+CREATE INDEX idx_attachments_memory_id ON attachments(memory_id);
+CREATE INDEX idx_person_merges_user_id ON person_merges(user_id, created_at DESC);
+CREATE INDEX idx_push_subscriptions_user_id ON push_subscriptions(user_id);
+CREATE INDEX idx_notification_deliveries_user_id ON notification_deliveries(user_id, created_at DESC);
+CREATE INDEX idx_memory_resurfacings_user_id ON memory_resurfacings(user_id, surfaced_at DESC);
 
 -- Full-text search indexes
 CREATE INDEX idx_memories_content_fts ON memories USING GIN(to_tsvector('english', content));
@@ -100,9 +229,17 @@ CREATE INDEX idx_people_name_trgm ON people USING GIN(name gin_trgm_ops);
 
 -- Row Level Security (RLS) policies
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE refresh_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE password_reset_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE people ENABLE ROW LEVEL SECURITY;
 ALTER TABLE memories ENABLE ROW LEVEL SECURITY;
 ALTER TABLE nudges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE attachments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE person_merges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE memory_resurfacings ENABLE ROW LEVEL SECURITY;
 
 -- Users policies
 CREATE POLICY "Users can view own profile" ON users
@@ -111,6 +248,10 @@ CREATE POLICY "Users can view own profile" ON users
 CREATE POLICY "Users can update own profile" ON users
     FOR UPDATE USING (auth.uid() = id);
 
+-- refresh_tokens, password_reset_tokens, jobs, person_merges, push_subscriptions,
+-- notification_deliveries and memory_resurfacings have no policies: only the API's
+-- service role may access them
+
 -- People policies
 CREATE POLICY "Users can view own people" ON people
     FOR SELECT USING (auth.uid() = user_id);
@@ -150,6 +291,19 @@ CREATE POLICY "Users can update own nudges" ON nudges
 CREATE POLICY "Users can delete own nudges" ON nudges
     FOR DELETE USING (auth.uid() = user_id);
 
+-- Attachments policies
+CREATE POLICY "Users can view own attachments" ON attachments
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own attachments" ON attachments
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own attachments" ON attachments
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own attachments" ON attachments
+    FOR DELETE USING (auth.uid() = user_id);
+
 -- Functions for automatic timestamp updates
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -169,7 +323,15 @@ CREATE TRIGGER update_people_updated_at BEFORE UPDATE ON people
 CREATE TRIGGER update_memories_updated_at BEFORE UPDATE ON memories
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
--- Function to search memories with full-text search
+CREATE TRIGGER update_nudges_updated_at BEFORE UPDATE ON nudges
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_notification_deliveries_updated_at BEFORE UPDATE ON notification_deliveries
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Function to search memories with full-text search.
+-- Exact phrases rank first, then full-text relevance; trigram word similarity
+-- catches misspelt names that the English stemmer can't match.
 CREATE OR REPLACE FUNCTION search_memories(
     search_query TEXT,
     user_uuid UUID,
@@ -194,7 +356,11 @@ BEGIN
         m.content,
         m.created_at,
         m.mood,
-        ts_rank(to_tsvector('english', m.title || ' ' || m.content || ' ' || m.summary), plainto_tsquery('english', search_query)) as similarity
+        (
+            ts_rank(to_tsvector('english', m.title || ' ' || m.content || ' ' || m.summary), plainto_tsquery('english', search_query))
+            + CASE WHEN m.title ILIKE '%' || search_query || '%' OR m.content ILIKE '%' || search_query || '%' THEN 1 ELSE 0 END
+            + GREATEST(word_similarity(search_query, m.title), word_similarity(search_query, m.content))
+        )::REAL as similarity
     FROM memories m
     WHERE m.user_id = user_uuid
     AND (
@@ -202,6 +368,8 @@ BEGIN
         OR m.title ILIKE '%' || search_query || '%'
         OR m.content ILIKE '%' || search_query || '%'
         OR m.summary ILIKE '%' || search_query || '%'
+        OR search_query <% m.title
+        OR search_query <% m.content
     )
     ORDER BY similarity DESC, m.created_at DESC
     LIMIT limit_count
@@ -209,6 +377,258 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Function for person entity resolution: people whose name or an alias is
+-- trigram-similar to search_name (the % operator; idx_people_name_trgm serves names), best first
+CREATE OR REPLACE FUNCTION search_people_by_name(
+    search_name TEXT,
+    user_uuid UUID,
+    limit_count INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    name VARCHAR(255),
+    aliases TEXT[],
+    relationship VARCHAR(255),
+    avatar TEXT,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    similarity REAL
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        p.id,
+        p.user_id,
+        p.name,
+        p.aliases,
+        p.relationship,
+        p.avatar,
+        p.notes,
+        p.created_at,
+        p.updated_at,
+        GREATEST(
+            similarity(p.name, search_name),
+            (SELECT MAX(similarity(alias, search_name)) FROM unnest(p.aliases) AS alias)
+        ) as similarity
+    FROM people p
+    WHERE p.user_id = user_uuid
+    AND (
+        p.name % search_name
+        OR EXISTS (SELECT 1 FROM unnest(p.aliases) AS alias WHERE alias % search_name)
+    )
+    ORDER BY similarity DESC, p.name
+    LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to merge people into one in a single transaction. The sources'
+-- names and aliases become aliases of the target, memories and nudges that
+-- mention a source are pointed at the target, and the sources are deleted.
+-- A person_merges row records what changed for undo_person_merge. Returns no
+-- rows when the target or a source isn't one of the user's people.
+CREATE OR REPLACE FUNCTION merge_people(
+    user_uuid UUID,
+    target_uuid UUID,
+    source_uuids UUID[]
+)
+RETURNS SETOF person_merges AS $$
+DECLARE
+    target people%ROWTYPE;
+    source_names TEXT[];
+    new_aliases TEXT[];
+    merge_uuid UUID;
+BEGIN
+    SELECT * INTO target FROM people WHERE id = target_uuid AND user_id = user_uuid FOR UPDATE;
+    IF NOT FOUND OR target_uuid = ANY(source_uuids) THEN
+        RETURN;
+    END IF;
+
+    SELECT array_agg(p.name) INTO source_names
+    FROM (SELECT name FROM people WHERE id = ANY(source_uuids) AND user_id = user_uuid FOR UPDATE) p;
+    IF COALESCE(cardinality(source_names), 0) <> cardinality(ARRAY(SELECT DISTINCT unnest(source_uuids))) THEN
+        RETURN;
+    END IF;
+
+    -- Every name a source went by that the target doesn't already
+    SELECT COALESCE(array_agg(DISTINCT alias), '{}') INTO new_aliases
+    FROM people p, unnest(array_append(p.aliases, p.name::TEXT)) AS alias
+    WHERE p.id = ANY(source_uuids)
+    AND lower(alias) <> lower(target.name)
+    AND lower(alias) <> ALL(SELECT lower(known) FROM unnest(target.aliases) AS known);
+
+    INSERT INTO person_merges (user_id, target_id, added_aliases, sources, memories, nudges)
+    VALUES (
+        user_uuid,
+        target_uuid,
+        new_aliases,
+        (SELECT jsonb_agg(to_jsonb(p)) FROM people p WHERE p.id = ANY(source_uuids)),
+        (SELECT COALESCE(jsonb_agg(jsonb_build_object('id', m.id, 'people', m.people)), '[]')
+         FROM memories m WHERE m.user_id = user_uuid AND m.people && source_names),
+        (SELECT COALESCE(jsonb_agg(jsonb_build_object('id', n.id, 'related_people', n.related_people)), '[]')
+         FROM nudges n WHERE n.user_id = user_uuid AND n.related_people && source_uuids)
+    )
+    RETURNING id INTO merge_uuid;
+
+    -- Sources become the target, keeping each memory's first mention in place
+    UPDATE memories m
+    SET people = ARRAY(
+        SELECT renamed.name FROM (
+            SELECT CASE WHEN mentioned.name = ANY(source_names) THEN target.name::TEXT ELSE mentioned.name END AS name,
+                   MIN(mentioned.position) AS position
+            FROM unnest(m.people) WITH ORDINALITY AS mentioned(name, position)
+            GROUP BY 1
+        ) renamed
+        ORDER BY renamed.position
+    )
+    WHERE m.user_id = user_uuid AND m.people && source_names;
+
+    UPDATE nudges n
+    SET related_people = ARRAY(
+        SELECT DISTINCT CASE WHEN related = ANY(source_uuids) THEN target_uuid ELSE related END
+        FROM unnest(n.related_people) AS related
+    )
+    WHERE n.user_id = user_uuid AND n.related_people && source_uuids;
+
+    UPDATE people SET aliases = aliases || new_aliases WHERE id = target_uuid;
+    DELETE FROM people WHERE id = ANY(source_uuids);
+
+    RETURN QUERY SELECT * FROM person_merges WHERE id = merge_uuid;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to undo merge_people in a single transaction: the merged people
+-- come back with their ids, the target loses the aliases the merge gave it,
+-- and the rewritten memories and nudges get their old people back, plus
+-- anyone added to them since. Fails with a unique violation when a merged
+-- person's name has been taken in the meantime.
+CREATE OR REPLACE FUNCTION undo_person_merge(
+    user_uuid UUID,
+    merge_uuid UUID
+)
+RETURNS SETOF person_merges AS $$
+DECLARE
+    merge_row person_merges%ROWTYPE;
+    target_name TEXT;
+BEGIN
+    SELECT * INTO merge_row FROM person_merges
+    WHERE id = merge_uuid AND user_id = user_uuid AND undone_at IS NULL
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    SELECT name INTO target_name FROM people WHERE id = merge_row.target_id;
+
+    INSERT INTO people SELECT * FROM jsonb_populate_recordset(NULL::people, merge_row.sources);
+
+    UPDATE people
+    SET aliases = ARRAY(SELECT alias FROM unnest(aliases) AS alias WHERE alias <> ALL(merge_row.added_aliases))
+    WHERE id = merge_row.target_id;
+
+    UPDATE memories m
+    SET people = ARRAY(
+        SELECT names.name FROM (
+            SELECT combined.name, MIN(combined.position) AS position FROM (
+                SELECT before.name, before.position
+                FROM jsonb_array_elements_text(snapshot.value->'people') WITH ORDINALITY AS before(name, position)
+                UNION ALL
+                SELECT since.name, 100000 + since.position
+                FROM unnest(m.people) WITH ORDINALITY AS since(name, position)
+                WHERE since.name <> target_name
+            ) combined
+            GROUP BY combined.name
+        ) names
+        ORDER BY names.position
+    )
+    FROM jsonb_array_elements(merge_row.memories) AS snapshot
+    WHERE m.id = (snapshot.value->>'id')::UUID AND m.user_id = user_uuid;
+
+    UPDATE nudges n
+    SET related_people = ARRAY(
+        SELECT before.person_id::UUID
+        FROM jsonb_array_elements_text(snapshot.value->'related_people') AS before(person_id)
+        UNION
+        SELECT related FROM unnest(n.related_people) AS related WHERE related <> merge_row.target_id
+    )
+    FROM jsonb_array_elements(merge_row.nudges) AS snapshot
+    WHERE n.id = (snapshot.value->>'id')::UUID AND n.user_id = user_uuid;
+
+    UPDATE person_merges SET undone_at = NOW() WHERE id = merge_uuid;
+
+    RETURN QUERY SELECT * FROM person_merges WHERE id = merge_uuid;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to rename a person in a single transaction. Memories link people by
+-- name, so every mention of the old name is rewritten, and the old name stays
+-- on as an alias so it still resolves. Returns no rows when the person isn't
+-- one of the user's.
+CREATE OR REPLACE FUNCTION rename_person(
+    user_uuid UUID,
+    person_uuid UUID,
+    new_name TEXT
+)
+RETURNS SETOF people AS $$
+DECLARE
+    person people%ROWTYPE;
+BEGIN
+    SELECT * INTO person FROM people WHERE id = person_uuid AND user_id = user_uuid FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    -- Keeping each memory's first mention in place
+    UPDATE memories m
+    SET people = ARRAY(
+        SELECT renamed.name FROM (
+            SELECT CASE WHEN mentioned.name = person.name THEN new_name ELSE mentioned.name END AS name,
+                   MIN(mentioned.position) AS position
+            FROM unnest(m.people) WITH ORDINALITY AS mentioned(name, position)
+            GROUP BY 1
+        ) renamed
+        ORDER BY renamed.position
+    )
+    WHERE m.user_id = user_uuid AND person.name::TEXT = ANY(m.people);
+
+    UPDATE people
+    SET name = new_name,
+        aliases = ARRAY(
+            SELECT alias FROM unnest(aliases) AS alias WHERE lower(alias) <> lower(new_name)
+        ) || CASE WHEN lower(person.name) = lower(new_name)
+                       OR lower(person.name) = ANY(SELECT lower(known) FROM unnest(aliases) AS known)
+                  THEN '{}'::TEXT[] ELSE ARRAY[person.name::TEXT] END
+    WHERE id = person_uuid;
+
+    RETURN QUERY SELECT * FROM people WHERE id = person_uuid;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function for job workers to claim the next due job.
+-- SKIP LOCKED lets several workers poll without claiming the same job; jobs left
+-- in processing longer than lock_timeout_seconds (e.g. after a crash) are reclaimed.
+CREATE OR REPLACE FUNCTION claim_next_job(lock_timeout_seconds INTEGER DEFAULT 600)
+RETURNS SETOF jobs AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE jobs
+    SET status = 'processing',
+        attempts = attempts + 1,
+        locked_at = NOW(),
+        updated_at = NOW()
+    WHERE id = (
+        SELECT id FROM jobs
+        WHERE (status = 'pending' AND run_at <= NOW())
+           OR (status = 'processing' AND locked_at <= NOW() - make_interval(secs => lock_timeout_seconds))
+        ORDER BY run_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
 -- Function to get memory statistics
 CREATE OR REPLACE FUNCTION get_memory_stats(user_uuid UUID)
 RETURNS TABLE (
@@ -260,7 +680,7 @@ BEGIN
         (SELECT emotions->>'primary' 
          FROM memories 
          WHERE user_id = user_uuid 
-         AND p.id = ANY(people)
+         AND p.name = ANY(people)
          GROUP BY emotions->>'primary' 
          ORDER BY COUNT(*) DESC 
          LIMIT 1) as most_frequent_emotion,
@@ -270,7 +690,7 @@ BEGIN
             GREATEST(0, 10 - EXTRACT(DAY FROM NOW() - MAX(m.created_at)) / 30)
         ))::INTEGER as relationship_strength
     FROM people p
-    LEFT JOIN memories m ON p.id = ANY(m.people) AND m.user_id = user_uuid
+    LEFT JOIN memories m ON p.name = ANY(m.people) AND m.user_id = user_uuid
     WHERE p.user_id = user_uuid
     GROUP BY p.id, p.name
     ORDER BY relationship_strength DESC;
@@ -0,0 +1,33 @@
+// Shows MemoryNest push notifications. Payloads are JSON: { title, body, url, tag }.
+self.addEventListener('push', (event) => {
+  let message = { title: 'MemoryNest', body: '' };
+  try {
+    message = { ...message, ...event.data.json() };
+  } catch (error) {
+    message.body = event.data ? event.data.text() : '';
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title, {
+      body: message.body,
+      tag: message.tag,
+      data: { url: message.url || '/nudges' },
+    })
+  );
+});
+
+// Focus an open MemoryNest tab on the notification's page, or open one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/nudges', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const existing = clients.find((client) => new URL(client.url).origin === new URL(url).origin);
+      if (existing) {
+        return existing.navigate(url).then((client) => (client || existing).focus());
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
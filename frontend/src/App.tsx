@@ -7,12 +7,19 @@ import { Toaster } from 'react-hot-toast';
 import Dashboard from './pages/Dashboard';
 import MemoryCapture from './pages/MemoryCapture';
 import Memories from './pages/Memories';
+import MemoryDetail from './pages/MemoryDetail';
+import Ask from './pages/Ask';
 import People from './pages/People';
+import PersonDetail from './pages/PersonDetail';
+import PeopleGraph from './pages/PeopleGraph';
 import Nudges from './pages/Nudges';
 import Profile from './pages/Profile';
+import Login from './pages/Login';
+import ResetPassword from './pages/ResetPassword';
 
 // Components
 import Layout from './components/Layout';
+import ProtectedRoute from './components/ProtectedRoute';
 import { AuthProvider } from './contexts/AuthContext';
 
 // Create a client
@@ -32,15 +39,25 @@ function App() {
         <Router>
           <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
             <Routes>
+              <Route path="/login" element={<Login />} />
+              <Route path="/reset-password" element={<ResetPassword />} />
               <Route
                 path="/"
-                element={<Layout />}
+                element={
+                  <ProtectedRoute>
+                    <Layout />
+                  </ProtectedRoute>
+                }
               >
                 <Route index element={<div className="flex items-center justify-center h-64 text-2xl text-gray-500">Welcome to MemoryNest! Select a page from the sidebar.</div>} />
                 <Route path="dashboard" element={<Dashboard />} />
                 <Route path="capture" element={<MemoryCapture />} />
                 <Route path="memories" element={<Memories />} />
+                <Route path="memories/:id" element={<MemoryDetail />} />
+                <Route path="ask" element={<Ask />} />
                 <Route path="people" element={<People />} />
+                <Route path="people/graph" element={<PeopleGraph />} />
+                <Route path="people/:id" element={<PersonDetail />} />
                 <Route path="nudges" element={<Nudges />} />
                 <Route path="profile" element={<Profile />} />
               </Route>
@@ -6,7 +6,7 @@ import Header from './Header';
 
 const Layout: React.FC = () => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
-  const { user } = useAuth();
+  const { user, logout } = useAuth();
   const location = useLocation();
   const navigate = useNavigate();
 
@@ -15,6 +15,11 @@ const Layout: React.FC = () => {
     return <Outlet />;
   }
 
+  const handleLogout = async () => {
+    await logout();
+    navigate('/login');
+  };
+
   return (
     <div className="flex h-screen bg-gray-50">
       {/* Sidebar */}
@@ -26,7 +31,7 @@ const Layout: React.FC = () => {
         <Header 
           user={user}
           onMenuClick={() => setSidebarOpen(true)}
-          onLogout={() => navigate('/login')}
+          onLogout={handleLogout}
         />
         
         {/* Main content area */}
@@ -5,6 +5,7 @@ import {
   HomeIcon, 
   PlusCircleIcon, 
   BookOpenIcon, 
+  ChatBubbleLeftRightIcon,
   UsersIcon, 
   BellIcon, 
   UserIcon,
@@ -24,6 +25,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose }) => {
     { name: 'Dashboard', href: '/dashboard', icon: HomeIcon },
     { name: 'Capture Memory', href: '/capture', icon: PlusCircleIcon },
     { name: 'Memories', href: '/memories', icon: BookOpenIcon },
+    { name: 'Ask', href: '/ask', icon: ChatBubbleLeftRightIcon },
     { name: 'People', href: '/people', icon: UsersIcon },
     { name: 'Nudges', href: '/nudges', icon: BellIcon },
     { name: 'Profile', href: '/profile', icon: UserIcon },
@@ -25,48 +25,53 @@ interface AuthProviderProps {
   children: ReactNode;
 }
 
-// Mock user for development - no login required
-const mockUser: User = {
-  id: 'user-1',
-  email: 'alice@example.com',
-  name: 'Alice Johnson',
-  avatar: 'https://images.unsplash.com/photo-1494790108755-2616b612b786?w=150&h=150&fit=crop&crop=face',
-  preferences: {
-    theme: 'light',
-    notifications: true,
-    privacy: 'private'
-  },
-  createdAt: new Date('2024-01-01'),
-  updatedAt: new Date('2024-01-01')
-};
-
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(mockUser); // Start with mock user
-  const [loading, setLoading] = useState(false); // No loading needed
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Restore the session from a stored access token (refreshed on demand by the
+  // API client), or from the refresh cookie when no access token is stored
+  useEffect(() => {
+    const restoreSession = async () => {
+      if (!authService.isAuthenticated() && !(await authService.restoreToken())) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setUser(await authService.getCurrentUser());
+      } catch (error) {
+        authService.removeToken();
+        setUser(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    restoreSession();
+  }, []);
 
   const login = async (email: string, password: string) => {
-    // Mock login - just set the user
-    setUser(mockUser);
+    const { user, token } = await authService.login(email, password);
+    authService.setToken(token);
+    setUser(user);
   };
 
   const register = async (email: string, password: string, name: string) => {
-    // Mock register - just set the user
-    setUser(mockUser);
+    const { user, token } = await authService.register(name, email, password);
+    authService.setToken(token);
+    setUser(user);
   };
 
   const logout = async () => {
-    // Mock logout - just set user to null
+    await authService.logout();
+    authService.removeToken();
     setUser(null);
   };
 
   const updateProfile = async (data: Partial<User>) => {
-    // Mock profile update
-    if (user) {
-      const updatedUser = { ...user, ...data, updatedAt: new Date() };
-      setUser(updatedUser);
-      return updatedUser;
-    }
-    throw new Error('No user logged in');
+    const updatedUser = await authService.updateProfile(data);
+    setUser(updatedUser);
   };
 
   const value = {
@@ -0,0 +1,247 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  ChatBubbleLeftRightIcon,
+  PaperAirplaneIcon,
+  ArrowPathIcon
+} from '@heroicons/react/24/outline';
+import askService from '../services/askService';
+import { AskCitation, AskTurn } from '../types';
+import toast from 'react-hot-toast';
+
+interface ChatMessage extends AskTurn {
+  citations?: AskCitation[];
+  citedMemoryIds?: string[];
+  pending?: boolean;
+}
+
+const EXAMPLE_QUESTIONS = [
+  'When did I last feel really calm?',
+  'What have I been grateful for lately?',
+  'What did I do with friends last month?',
+];
+
+// Turn [1] or [1, 3] markers in an answer into links to the cited memories
+const AnswerText: React.FC<{ content: string; citations: AskCitation[] }> = ({ content, citations }) => {
+  const byIndex = new Map(citations.map((citation) => [citation.index, citation]));
+  const parts = content.split(/(\[\d+(?:\s*,\s*\d+)*\])/g);
+
+  return (
+    <>
+      {parts.map((part, index) => {
+        const marker = part.match(/^\[(.+)\]$/);
+        if (!marker) {
+          return <React.Fragment key={index}>{part}</React.Fragment>;
+        }
+
+        return (
+          <React.Fragment key={index}>
+            {marker[1].split(',').map((value) => {
+              const citation = byIndex.get(parseInt(value.trim()));
+              return citation ? (
+                <Link
+                  key={value}
+                  to={`/memories/${citation.memoryId}`}
+                  title={citation.title}
+                  className="inline-block mx-0.5 px-1.5 text-xs font-medium bg-blue-100 text-blue-700 rounded hover:bg-blue-200"
+                >
+                  {citation.index}
+                </Link>
+              ) : (
+                <span key={value}>[{value.trim()}]</span>
+              );
+            })}
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+};
+
+const Ask: React.FC = () => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [isAnswering, setIsAnswering] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Stop a streaming answer when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  const updateAnswer = (changes: Partial<ChatMessage> | ((message: ChatMessage) => Partial<ChatMessage>)) => {
+    setMessages((current) => {
+      const last = current[current.length - 1];
+      if (!last || last.role !== 'assistant') return current;
+      const update = typeof changes === 'function' ? changes(last) : changes;
+      return [...current.slice(0, -1), { ...last, ...update }];
+    });
+  };
+
+  const ask = async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed || isAnswering) return;
+
+    const history: AskTurn[] = messages
+      .filter((message) => !message.pending && message.content)
+      .map(({ role, content }) => ({ role, content }));
+
+    setMessages((current) => [
+      ...current,
+      { role: 'user', content: trimmed },
+      { role: 'assistant', content: '', citations: [], pending: true },
+    ]);
+    setQuestion('');
+    setIsAnswering(true);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      await askService.askStream({ question: trimmed, history }, {
+        onCitations: (citations) => updateAnswer({ citations }),
+        onToken: (token) => updateAnswer((message) => ({ content: message.content + token })),
+        onDone: ({ answer, citedMemoryIds }) => updateAnswer({ content: answer, citedMemoryIds, pending: false }),
+      }, controller.signal);
+    } catch (error: any) {
+      if (error.name !== 'AbortError') {
+        toast.error(error.message || 'Failed to ask your memories');
+        updateAnswer((message) => ({
+          content: message.content || "Sorry, I couldn't answer that right now.",
+          pending: false,
+        }));
+      }
+    } finally {
+      setIsAnswering(false);
+      abortRef.current = null;
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    ask(question);
+  };
+
+  const startOver = () => {
+    abortRef.current?.abort();
+    setMessages([]);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto flex flex-col h-[calc(100vh-8rem)]">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Ask My Memories</h1>
+          <p className="text-gray-600">Ask questions and get answers grounded in what you've written</p>
+        </div>
+        {messages.length > 0 && (
+          <button
+            onClick={startOver}
+            className="flex items-center px-3 py-2 text-sm text-gray-600 hover:text-gray-900"
+          >
+            <ArrowPathIcon className="h-4 w-4 mr-2" />
+            New conversation
+          </button>
+        )}
+      </div>
+
+      {/* Conversation */}
+      <div className="flex-1 overflow-y-auto bg-white rounded-lg shadow p-6 space-y-6">
+        {messages.length === 0 ? (
+          <div className="text-center py-12">
+            <ChatBubbleLeftRightIcon className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-4">What would you like to remember?</h3>
+            <div className="flex flex-col items-center gap-2">
+              {EXAMPLE_QUESTIONS.map((example) => (
+                <button
+                  key={example}
+                  onClick={() => ask(example)}
+                  className="px-4 py-2 text-sm text-blue-700 bg-blue-50 rounded-full hover:bg-blue-100"
+                >
+                  {example}
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          messages.map((message, index) => (
+            <div key={index} className={message.role === 'user' ? 'flex justify-end' : 'flex justify-start'}>
+              <div
+                className={`max-w-[85%] rounded-lg px-4 py-3 ${
+                  message.role === 'user' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-900'
+                }`}
+              >
+                {message.role === 'user' ? (
+                  <p className="whitespace-pre-wrap">{message.content}</p>
+                ) : (
+                  <>
+                    <p className="whitespace-pre-wrap">
+                      {message.content ? (
+                        <AnswerText content={message.content} citations={message.citations || []} />
+                      ) : (
+                        <span className="text-gray-500">Searching your memories...</span>
+                      )}
+                    </p>
+
+                    {/* Sources the answer relied on */}
+                    {!message.pending && (message.citations || []).some((citation) => message.citedMemoryIds?.includes(citation.memoryId)) && (
+                      <div className="mt-3 pt-3 border-t border-gray-200 space-y-1">
+                        <p className="text-xs font-medium text-gray-500 uppercase">Sources</p>
+                        {(message.citations || [])
+                          .filter((citation) => message.citedMemoryIds?.includes(citation.memoryId))
+                          .map((citation) => (
+                            <Link
+                              key={citation.memoryId}
+                              to={`/memories/${citation.memoryId}`}
+                              className="block text-sm text-blue-700 hover:underline"
+                            >
+                              [{citation.index}] {citation.title}
+                              <span className="text-gray-500"> · {formatDate(citation.createdAt)}</span>
+                            </Link>
+                          ))}
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      {/* Question input */}
+      <form onSubmit={handleSubmit} className="mt-4 flex gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask about your memories..."
+          disabled={isAnswering}
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50"
+        />
+        <button
+          type="submit"
+          disabled={isAnswering || !question.trim()}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <PaperAirplaneIcon className="h-5 w-5" />
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default Ask;
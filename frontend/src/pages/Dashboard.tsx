@@ -1,5 +1,5 @@
 import React from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Link } from 'react-router-dom';
 import { 
   PlusIcon, 
@@ -9,10 +9,153 @@ import {
   TrendingUpIcon,
   CalendarIcon,
   HeartIcon,
-  SparklesIcon
+  SparklesIcon,
+  EyeSlashIcon
 } from '@heroicons/react/24/outline';
 import memoryService from '../services/memoryService';
-import { Memory, Person, Nudge } from '../types';
+import { Memory, Person, Nudge, ResurfacedMemory, ResurfaceMuteTarget } from '../types';
+import toast from 'react-hot-toast';
+
+const resurfaceLabel = (pick: ResurfacedMemory): string => {
+  switch (pick.kind) {
+    case 'on_this_day':
+      return pick.yearsAgo === 1 ? '1 year ago today' : `${pick.yearsAgo} years ago today`;
+    case 'year_ago':
+      return 'About a year ago';
+    case 'month_ago':
+      return 'About a month ago';
+  }
+};
+
+// Memories from this day in earlier years, with ways to hide ones that hurt
+const OnThisDay: React.FC = () => {
+  const queryClient = useQueryClient();
+
+  const { data: resurfaced } = useQuery({
+    queryKey: ['resurfaced-memories'],
+    queryFn: () => memoryService.getResurfacedMemories(),
+  });
+
+  const { data: settings } = useQuery({
+    queryKey: ['resurfacing-settings'],
+    queryFn: () => memoryService.getResurfacingSettings(),
+  });
+
+  const muteMutation = useMutation({
+    mutationFn: ({ target, id }: { target: ResurfaceMuteTarget; id: string }) =>
+      memoryService.setResurfacingMute(target, id, true),
+    onSuccess: (updated, { target }) => {
+      queryClient.setQueryData(['resurfacing-settings'], updated);
+      queryClient.invalidateQueries({ queryKey: ['resurfaced-memories'] });
+      toast.success(target === 'memories' ? "This memory won't come back" : "Memories with them won't come back");
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to hide memory');
+    },
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: (changes: { enabled?: boolean; nudge?: boolean }) =>
+      memoryService.updateResurfacingSettings(changes),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['resurfacing-settings'], updated);
+      queryClient.invalidateQueries({ queryKey: ['resurfaced-memories'] });
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to update settings');
+    },
+  });
+
+  const picks = resurfaced?.picks || [];
+
+  if (settings && !settings.enabled) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 flex items-center justify-between">
+        <p className="text-sm text-gray-500">On this day is turned off</p>
+        <button
+          onClick={() => settingsMutation.mutate({ enabled: true })}
+          disabled={settingsMutation.isPending}
+          className="text-sm text-blue-600 hover:text-blue-500 disabled:opacity-50"
+        >
+          Turn on
+        </button>
+      </div>
+    );
+  }
+
+  if (picks.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">On This Day</h2>
+          <div className="flex items-center space-x-4">
+            <label className="flex items-center text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={settings?.nudge || false}
+                onChange={(e) => settingsMutation.mutate({ nudge: e.target.checked })}
+                disabled={!settings || settingsMutation.isPending}
+                className="mr-2"
+              />
+              Daily nudge
+            </label>
+            <button
+              onClick={() => settingsMutation.mutate({ enabled: false })}
+              disabled={settingsMutation.isPending}
+              className="text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50"
+            >
+              Turn off
+            </button>
+          </div>
+        </div>
+      </div>
+      <div className="p-6 space-y-4">
+        {picks.map((pick) => (
+          <div key={pick.memory.id} className="border border-orange-200 bg-orange-50 rounded-lg p-4">
+            <div className="flex items-start justify-between">
+              <Link to={`/memories/${pick.memory.id}`} className="flex-1 min-w-0">
+                <p className="text-xs font-medium text-orange-700 mb-1">{resurfaceLabel(pick)}</p>
+                {pick.memory.title && (
+                  <p className="text-sm font-medium text-gray-900">{pick.memory.title}</p>
+                )}
+                <p className="text-sm text-gray-700 line-clamp-2">{pick.memory.summary || pick.memory.content}</p>
+              </Link>
+              <button
+                onClick={() => muteMutation.mutate({ target: 'memories', id: pick.memory.id })}
+                disabled={muteMutation.isPending}
+                className="ml-3 p-1 text-gray-400 hover:text-gray-600 disabled:opacity-50"
+                title="Don't show this memory again"
+              >
+                <EyeSlashIcon className="h-4 w-4" />
+              </button>
+            </div>
+            {pick.people.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                {pick.people.map((person) => (
+                  <span key={person.id} className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-white text-gray-700">
+                    {person.name}
+                    <button
+                      onClick={() => muteMutation.mutate({ target: 'people', id: person.id })}
+                      disabled={muteMutation.isPending}
+                      className="ml-1 text-gray-400 hover:text-gray-600 disabled:opacity-50"
+                      title={`Don't resurface memories with ${person.name}`}
+                    >
+                      <EyeSlashIcon className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
 
 const Dashboard: React.FC = () => {
   // Fetch dashboard data
@@ -135,6 +278,8 @@ const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      <OnThisDay />
+
       {/* Main Content Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Recent Memories */}
@@ -8,10 +8,36 @@ import {
   BookOpenIcon
 } from '@heroicons/react/24/outline';
 import memoryService from '../services/memoryService';
-import { Memory, Person } from '../types';
+import { HybridSearchResult, Memory, Person, SearchHighlight, SearchRetriever } from '../types';
+
+const RETRIEVER_LABELS: Record<SearchRetriever, string> = {
+  keyword: 'Keyword match',
+  semantic: 'Similar meaning',
+};
+
+// Wrap matched spans in <mark>; offsets come from the search API
+const HighlightedText: React.FC<{ highlight: SearchHighlight }> = ({ highlight }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  highlight.matches.forEach((match, index) => {
+    if (match.start < cursor) return;
+    parts.push(highlight.text.slice(cursor, match.start));
+    parts.push(
+      <mark key={index} className="bg-yellow-200 rounded px-0.5">
+        {highlight.text.slice(match.start, match.end)}
+      </mark>
+    );
+    cursor = match.end;
+  });
+  parts.push(highlight.text.slice(cursor));
+
+  return <>{parts}</>;
+};
 
 const Memories: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('');
+  const [submittedQuery, setSubmittedQuery] = useState('');
   const [selectedPerson, setSelectedPerson] = useState<string>('');
   const [selectedMood, setSelectedMood] = useState<string>('');
   const [dateFrom, setDateFrom] = useState<string>('');
@@ -19,9 +45,17 @@ const Memories: React.FC = () => {
   const [currentPage, setCurrentPage] = useState(1);
   const [showFilters, setShowFilters] = useState(false);
 
+  const isSearching = submittedQuery.length > 0;
+
+  // Fetch people for filter
+  const { data: people = [] } = useQuery({
+    queryKey: ['people'],
+    queryFn: () => memoryService.getPeople(),
+  });
+
   // Fetch memories with filters
-  const { data: memoriesData, isLoading } = useQuery({
-    queryKey: ['memories', searchQuery, selectedPerson, selectedMood, dateFrom, dateTo, currentPage],
+  const { data: memoriesData, isLoading: isListLoading } = useQuery({
+    queryKey: ['memories', selectedPerson, selectedMood, dateFrom, dateTo, currentPage],
     queryFn: () => memoryService.getMemories({
       page: currentPage,
       limit: 10,
@@ -29,16 +63,32 @@ const Memories: React.FC = () => {
       mood: selectedMood || undefined,
       date_from: dateFrom || undefined,
       date_to: dateTo || undefined,
-      search: searchQuery || undefined,
     }),
+    enabled: !isSearching,
   });
 
-  // Fetch people for filter
-  const { data: people = [] } = useQuery({
-    queryKey: ['people'],
-    queryFn: () => memoryService.getPeople(),
+  // Hybrid keyword + semantic search, run when the search form is submitted
+  const selectedPersonName = people.find((person: Person) => person.id === selectedPerson)?.name;
+  const { data: searchData, isLoading: isSearchLoading } = useQuery({
+    queryKey: ['memories', 'search', submittedQuery, selectedPersonName, dateFrom, dateTo],
+    queryFn: () => memoryService.hybridSearch({
+      q: submittedQuery,
+      limit: 20,
+      people: selectedPersonName ? [selectedPersonName] : undefined,
+      from: dateFrom ? new Date(`${dateFrom}T00:00:00`).toISOString() : undefined,
+      to: dateTo ? new Date(`${dateTo}T23:59:59.999`).toISOString() : undefined,
+    }),
+    enabled: isSearching,
   });
 
+  const isLoading = isSearching ? isSearchLoading : isListLoading;
+  const searchResults = new Map<string, HybridSearchResult>(
+    (searchData?.results || []).map(result => [result.memory.id, result])
+  );
+  const displayedMemories: Memory[] | undefined = isSearching
+    ? searchData?.results.map(result => result.memory)
+    : memoriesData?.memories;
+
   const getMoodColor = (mood: string) => {
     const moodColors: { [key: string]: string } = {
       happy: 'bg-green-100 text-green-800',
@@ -63,6 +113,7 @@ const Memories: React.FC = () => {
 
   const clearFilters = () => {
     setSearchQuery('');
+    setSubmittedQuery('');
     setSelectedPerson('');
     setSelectedMood('');
     setDateFrom('');
@@ -72,6 +123,7 @@ const Memories: React.FC = () => {
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
+    setSubmittedQuery(searchQuery.trim());
     setCurrentPage(1);
   };
 
@@ -193,8 +245,15 @@ const Memories: React.FC = () => {
         <div className="p-6 border-b border-gray-200">
           <div className="flex items-center justify-between">
             <h2 className="text-lg font-semibold text-gray-900">
-              {isLoading ? 'Loading...' : `Memories (${memoriesData?.pagination?.total || 0})`}
+              {isLoading
+                ? 'Loading...'
+                : isSearching
+                  ? `Results for "${submittedQuery}" (${searchData?.results.length || 0})`
+                  : `Memories (${memoriesData?.pagination?.total || 0})`}
             </h2>
+            {isSearching && searchData && !searchData.semanticAvailable && (
+              <span className="text-sm text-gray-500">Showing keyword matches only</span>
+            )}
           </div>
         </div>
 
@@ -203,7 +262,7 @@ const Memories: React.FC = () => {
             <div className="flex items-center justify-center py-12">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
             </div>
-          ) : memoriesData?.memories?.length === 0 ? (
+          ) : displayedMemories?.length === 0 ? (
             <div className="text-center py-12">
               <div className="text-gray-400 mb-4">
                 <BookOpenIcon className="h-12 w-12 mx-auto" />
@@ -224,67 +283,91 @@ const Memories: React.FC = () => {
             </div>
           ) : (
             <div className="space-y-4">
-              {memoriesData?.memories?.map((memory: Memory) => (
-                <div key={memory.id} className="border border-gray-200 rounded-lg p-4 hover:bg-gray-50 transition-colors">
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <p className="text-gray-900 mb-2">{memory.content}</p>
-                      
-                      {/* Memory metadata */}
-                      <div className="flex items-center flex-wrap gap-4 text-sm text-gray-500">
-                        <div>
-                          Date: {formatDate(memory.createdAt || memory.created_at)}
-                        </div>
-                        
-                        <div>
-                          Mood: <span className={`px-2 py-1 rounded-full text-xs ${getMoodColor(String(memory.mood))}`}>
-                            {memory.mood}
-                          </span>
-                        </div>
+              {displayedMemories?.map((memory: Memory) => {
+                const result = searchResults.get(memory.id);
+                const highlight = result?.highlights.find(item => item.field === 'content')
+                  || result?.highlights.find(item => item.field === 'summary');
 
-                        {memory.location && (
-                          <div>
-                            Location: {memory.location}
+                return (
+                  <div key={memory.id} className="border border-gray-200 rounded-lg p-4 hover:bg-gray-50 transition-colors">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <p className="text-gray-900 mb-2">
+                          {highlight ? <HighlightedText highlight={highlight} /> : memory.content}
+                        </p>
+
+                        {/* Which search found this memory */}
+                        {result && (
+                          <div className="mb-2 flex flex-wrap gap-1">
+                            {result.matchedBy.map(retriever => (
+                              <span
+                                key={retriever}
+                                className="inline-block px-2 py-1 text-xs bg-blue-100 text-blue-800 rounded-full"
+                              >
+                                {RETRIEVER_LABELS[retriever]}
+                                {retriever === 'semantic' && result.similarity !== undefined &&
+                                  ` (${Math.round(result.similarity * 100)}%)`}
+                              </span>
+                            ))}
                           </div>
                         )}
-
-                        {(memory.people || memory.people_mentioned)?.length > 0 && (
+                        
+                        {/* Memory metadata */}
+                        <div className="flex items-center flex-wrap gap-4 text-sm text-gray-500">
                           <div>
-                            People: {(memory.people || memory.people_mentioned).length} mentioned
+                            Date: {formatDate(memory.createdAt || memory.created_at)}
                           </div>
-                        )}
-
-                        {memory.tags.length > 0 && (
+                          
                           <div>
-                            Tags: {memory.tags.slice(0, 3).join(', ')}
-                            {memory.tags.length > 3 && ` +${memory.tags.length - 3} more`}
+                            Mood: <span className={`px-2 py-1 rounded-full text-xs ${getMoodColor(String(memory.mood))}`}>
+                              {memory.mood}
+                            </span>
                           </div>
-                        )}
-                      </div>
 
-                      {/* Emotions */}
-                      {memory.emotions.length > 0 && (
-                        <div className="mt-2 flex flex-wrap gap-1">
-                          {memory.emotions.map((emotion, index) => (
-                            <span
-                              key={index}
-                              className="inline-block px-2 py-1 text-xs bg-purple-100 text-purple-800 rounded-full"
-                            >
-                              {emotion}
-                            </span>
-                          ))}
+                          {memory.location && (
+                            <div>
+                              Location: {memory.location}
+                            </div>
+                          )}
+
+                          {(memory.people || memory.people_mentioned)?.length > 0 && (
+                            <div>
+                              People: {(memory.people || memory.people_mentioned).length} mentioned
+                            </div>
+                          )}
+
+                          {memory.tags.length > 0 && (
+                            <div>
+                              Tags: {memory.tags.slice(0, 3).join(', ')}
+                              {memory.tags.length > 3 && ` +${memory.tags.length - 3} more`}
+                            </div>
+                          )}
                         </div>
-                      )}
+
+                        {/* Emotions */}
+                        {memory.emotions && (
+                          <div className="mt-2 flex flex-wrap gap-1">
+                            {[memory.emotions.primary, ...(memory.emotions.secondary || [])].map((emotion, index) => (
+                              <span
+                                key={index}
+                                className="inline-block px-2 py-1 text-xs bg-purple-100 text-purple-800 rounded-full"
+                              >
+                                {emotion}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
                     </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </div>
 
         {/* Pagination */}
-        {memoriesData && memoriesData.pagination.total_pages > 1 && (
+        {!isSearching && memoriesData && memoriesData.pagination.total_pages > 1 && (
           <div className="px-6 py-4 border-t border-gray-200">
             <div className="flex items-center justify-between">
               <div className="text-sm text-gray-700">
@@ -1,6 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useMutation, useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { 
   MicrophoneIcon, 
   StopIcon, 
@@ -8,19 +8,64 @@ import {
   UserIcon,
   MapPinIcon,
   CloudIcon,
-  TagIcon
+  TagIcon,
+  PaperClipIcon,
+  MusicalNoteIcon,
+  DocumentIcon,
+  XMarkIcon,
+  CalendarIcon
 } from '@heroicons/react/24/outline';
 import memoryService from '../services/memoryService';
 import voiceService from '../services/voiceService';
-import { CreateMemoryRequest, Person, TranscriptionResult } from '../types';
+import { AttachmentSuggestions, CreateMemoryRequest, Person, PersonSuggestionDecision, TranscriptionResult } from '../types';
 import toast from 'react-hot-toast';
 
+// Matches the server's per-upload limit
+const MAX_ATTACHMENTS = 10;
+
+const FilePreview: React.FC<{ file: File; onRemove?: () => void }> = ({ file, onRemove }) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file.type.startsWith('image/')) return;
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const Icon = file.type.startsWith('audio/') ? MusicalNoteIcon : DocumentIcon;
+
+  return (
+    <div className="relative w-24">
+      <div className="h-24 w-24 rounded-md bg-gray-100 overflow-hidden flex items-center justify-center">
+        {previewUrl ? (
+          <img src={previewUrl} alt={file.name} className="h-full w-full object-cover" />
+        ) : (
+          <Icon className="h-8 w-8 text-gray-400" />
+        )}
+      </div>
+      <p className="mt-1 text-xs text-gray-600 truncate" title={file.name}>{file.name}</p>
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          className="absolute -top-2 -right-2 p-0.5 bg-white rounded-full shadow text-gray-500 hover:text-gray-700"
+          title="Remove"
+        >
+          <XMarkIcon className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+};
+
 const MemoryCapture: React.FC = () => {
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const [inputMode, setInputMode] = useState<'text' | 'voice'>('text');
   const [content, setContent] = useState('');
   const [isRecording, setIsRecording] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
   const [selectedPeople, setSelectedPeople] = useState<string[]>([]);
   const [location, setLocation] = useState('');
   const [weather, setWeather] = useState('');
@@ -30,6 +75,12 @@ const MemoryCapture: React.FC = () => {
   const [summary, setSummary] = useState('');
   const [mood, setMood] = useState('');
   const [emotions, setEmotions] = useState<string[]>([]);
+  const [savedMemoryId, setSavedMemoryId] = useState<string | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [suggestions, setSuggestions] = useState<AttachmentSuggestions>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Fetch people for tagging
   const { data: people = [] } = useQuery({
@@ -40,22 +91,49 @@ const MemoryCapture: React.FC = () => {
   // Create memory mutation
   const createMemoryMutation = useMutation({
     mutationFn: (data: CreateMemoryRequest) => memoryService.createMemory(data),
-    onSuccess: () => {
+    onSuccess: async (memory) => {
       toast.success('Memory captured successfully!');
-      navigate('/memories');
+      setSavedMemoryId(memory.id);
+      if (files.length > 0) {
+        await uploadAttachments(memory.id);
+      }
     },
     onError: (error: any) => {
       toast.error(error.message || 'Failed to capture memory');
     },
   });
 
+  // Poll AI enrichment of the saved memory until it finishes
+  const { data: enrichment } = useQuery({
+    queryKey: ['memory-enrichment', savedMemoryId],
+    queryFn: () => memoryService.getMemoryEnrichment(savedMemoryId as string),
+    enabled: !!savedMemoryId,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === 'done' || status === 'failed' ? false : 2000;
+    },
+  });
+
+  // Link names the AI found to people, add them as new people, or ignore them
+  const personSuggestionsMutation = useMutation({
+    mutationFn: (decision: PersonSuggestionDecision) =>
+      memoryService.resolvePersonSuggestions(savedMemoryId as string, decision),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['people'] });
+      queryClient.invalidateQueries({ queryKey: ['memory-enrichment', savedMemoryId] });
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to update people');
+    },
+  });
+
   // Summarize content mutation
   const summarizeMutation = useMutation({
     mutationFn: (content: string) => memoryService.summarizeMemory(content),
     onSuccess: (data) => {
       setSummary(data.summary);
-      setMood(data.mood);
-      setEmotions(data.emotions);
+      setMood(String(data.mood));
+      setEmotions([data.emotions.primary, ...(data.emotions.secondary || [])]);
       setShowSummary(true);
     },
     onError: (error: any) => {
@@ -70,6 +148,16 @@ const MemoryCapture: React.FC = () => {
       return;
     }
 
+    // Without browser speech recognition, record audio and transcribe it on the server
+    if (!voiceService.isRecognitionSupported()) {
+      if (await voiceService.startRecording()) {
+        setIsRecording(true);
+      } else {
+        toast.error('Voice recording is not supported in this browser');
+      }
+      return;
+    }
+
     setIsRecording(true);
     voiceService.startListening(
       (result: TranscriptionResult) => {
@@ -89,9 +177,82 @@ const MemoryCapture: React.FC = () => {
     );
   };
 
-  const stopRecording = () => {
-    voiceService.stopListening();
+  const stopRecording = async () => {
     setIsRecording(false);
+
+    if (voiceService.isRecognitionSupported()) {
+      voiceService.stopListening();
+      return;
+    }
+
+    const recording = await voiceService.stopRecording();
+    if (!recording) {
+      return;
+    }
+
+    setIsTranscribing(true);
+    try {
+      const transcription = await voiceService.transcribeRecording(recording);
+      if (transcription.text) {
+        setContent(prev => prev + (prev ? ' ' : '') + transcription.text);
+        toast.success(`Transcribed: ${transcription.text}`);
+      } else {
+        toast.error('No speech detected. Please try again.');
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to transcribe recording');
+    } finally {
+      setIsTranscribing(false);
+    }
+  };
+
+  const addFiles = (added: FileList | File[]) => {
+    const incoming = Array.from(added).filter((file) =>
+      !files.some((existing) =>
+        existing.name === file.name && existing.size === file.size && existing.lastModified === file.lastModified
+      )
+    );
+
+    if (files.length + incoming.length > MAX_ATTACHMENTS) {
+      toast.error(`You can attach up to ${MAX_ATTACHMENTS} files`);
+    }
+    setFiles([...files, ...incoming].slice(0, MAX_ATTACHMENTS));
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!savedMemoryId) {
+      addFiles(e.dataTransfer.files);
+    }
+  };
+
+  // Photos' EXIF date and location come back as suggestions the user can apply
+  const uploadAttachments = async (memoryId: string) => {
+    setUploadProgress(0);
+    try {
+      const result = await memoryService.addAttachments(memoryId, files, setUploadProgress);
+      setSuggestions(result.suggestions);
+      toast.success(`Attached ${result.attachments.length} file${result.attachments.length === 1 ? '' : 's'}`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to upload attachments');
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
+  const applySuggestion = async (key: keyof AttachmentSuggestions) => {
+    const value = suggestions[key];
+    if (!savedMemoryId || !value) return;
+
+    try {
+      await memoryService.updateMemory(savedMemoryId, { [key]: value });
+      if (key === 'location') setLocation(value);
+      setSuggestions(({ [key]: _applied, ...rest }) => rest);
+      toast.success('Memory updated');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update memory');
+    }
   };
 
   const handleSummarize = () => {
@@ -112,7 +273,9 @@ const MemoryCapture: React.FC = () => {
     try {
       const memoryData: CreateMemoryRequest = {
         content: content.trim(),
-        people_mentioned: selectedPeople,
+        people: people
+          .filter((person: Person) => selectedPeople.includes(person.id))
+          .map((person: Person) => person.name),
         location: location || undefined,
         weather: weather || undefined,
         tags: tags,
@@ -187,7 +350,8 @@ const MemoryCapture: React.FC = () => {
               {!isRecording ? (
                 <button
                   onClick={startRecording}
-                  className="flex items-center px-4 py-2 bg-red-500 text-white rounded-md hover:bg-red-600 transition-colors"
+                  disabled={isTranscribing}
+                  className="flex items-center px-4 py-2 bg-red-500 text-white rounded-md hover:bg-red-600 transition-colors disabled:opacity-50"
                 >
                   <MicrophoneIcon className="h-5 w-5 mr-2" />
                   Start Recording
@@ -207,6 +371,12 @@ const MemoryCapture: React.FC = () => {
                   Recording...
                 </div>
               )}
+              {isTranscribing && (
+                <div className="flex items-center text-gray-500">
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
+                  Transcribing...
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -221,13 +391,60 @@ const MemoryCapture: React.FC = () => {
             onChange={(e) => setContent(e.target.value)}
             placeholder="Describe your memory, thought, or experience..."
             className="w-full h-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
-            disabled={isRecording}
+            disabled={isRecording || isTranscribing}
           />
           <div className="mt-2 text-sm text-gray-500">
             {content.length} characters
           </div>
         </div>
 
+        {/* Attachments */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Photos, Audio & Files
+          </label>
+          <div
+            onDragOver={(e) => {
+              e.preventDefault();
+              if (!savedMemoryId) setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            onClick={() => !savedMemoryId && fileInputRef.current?.click()}
+            className={`p-4 border-2 border-dashed rounded-md text-center transition-colors ${
+              isDragging ? 'border-blue-400 bg-blue-50' : 'border-gray-300'
+            } ${savedMemoryId ? '' : 'cursor-pointer hover:border-blue-400'}`}
+          >
+            <PaperClipIcon className="h-6 w-6 mx-auto text-gray-400 mb-1" />
+            <p className="text-sm text-gray-600">
+              {uploadProgress !== null
+                ? `Uploading... ${uploadProgress}%`
+                : `Drag and drop files here, or click to browse (up to ${MAX_ATTACHMENTS})`}
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                if (e.target.files) addFiles(e.target.files);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          {files.length > 0 && (
+            <div className="mt-3 flex flex-wrap gap-3">
+              {files.map((file, index) => (
+                <FilePreview
+                  key={`${file.name}-${file.lastModified}-${file.size}`}
+                  file={file}
+                  onRemove={savedMemoryId ? undefined : () => setFiles(files.filter((_, i) => i !== index))}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
         {/* People Mentioned */}
         <div className="mb-6">
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -341,6 +558,113 @@ const MemoryCapture: React.FC = () => {
           </div>
         )}
 
+        {/* Enrichment Progress */}
+        {savedMemoryId && (
+          <div className="mb-6 p-4 bg-purple-50 rounded-lg">
+            {!enrichment || enrichment.status === 'pending' || enrichment.status === 'processing' ? (
+              <div className="flex items-center text-purple-800">
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-purple-600 mr-2"></div>
+                {enrichment?.status === 'processing'
+                  ? 'Analyzing your memory...'
+                  : 'Memory saved. Waiting for AI analysis...'}
+              </div>
+            ) : enrichment.status === 'failed' ? (
+              <p className="text-purple-800">
+                Your memory was saved, but AI analysis couldn't be completed{enrichment.error ? `: ${enrichment.error}` : '.'}
+              </p>
+            ) : (
+              <>
+                <h3 className="font-medium text-purple-900 mb-2">AI Analysis</h3>
+                <p className="text-purple-800 mb-2">{enrichment.summary}</p>
+                <div className="flex items-center space-x-4 text-sm">
+                  <span className="text-purple-700">
+                    <strong>Mood:</strong> {enrichment.mood}
+                  </span>
+                  {enrichment.emotions && (
+                    <span className="text-purple-700">
+                      <strong>Emotions:</strong> {[enrichment.emotions.primary, ...(enrichment.emotions.secondary || [])].join(', ')}
+                    </span>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* People the AI found that aren't linked yet */}
+        {enrichment?.status === 'done' && enrichment.personSuggestions && enrichment.personSuggestions.length > 0 && (
+          <div className="mb-6 p-4 bg-blue-50 rounded-lg space-y-3">
+            <h3 className="font-medium text-blue-900">People in this memory</h3>
+            {enrichment.personSuggestions.map((suggestion) => (
+              <div key={suggestion.name} className="flex flex-wrap items-center gap-2 text-sm text-blue-800">
+                <span className="flex items-center mr-2">
+                  <UserIcon className="h-4 w-4 mr-2" />
+                  {suggestion.name}
+                </span>
+                {suggestion.candidates.map((candidate) => (
+                  <button
+                    key={candidate.id}
+                    onClick={() => personSuggestionsMutation.mutate({ accept: [{ name: suggestion.name, personId: candidate.id }] })}
+                    disabled={personSuggestionsMutation.isPending}
+                    className="px-3 py-1 text-blue-700 bg-white rounded-md hover:bg-blue-100 disabled:opacity-50"
+                  >
+                    Is this {candidate.name}?
+                  </button>
+                ))}
+                <button
+                  onClick={() => personSuggestionsMutation.mutate({ accept: [{ name: suggestion.name }] })}
+                  disabled={personSuggestionsMutation.isPending}
+                  className="px-3 py-1 text-blue-700 bg-white rounded-md hover:bg-blue-100 disabled:opacity-50"
+                >
+                  Add as new person
+                </button>
+                <button
+                  onClick={() => personSuggestionsMutation.mutate({ dismiss: [suggestion.name] })}
+                  disabled={personSuggestionsMutation.isPending}
+                  className="px-3 py-1 text-gray-600 hover:text-gray-800 disabled:opacity-50"
+                >
+                  Ignore
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Suggestions from photo EXIF data */}
+        {(suggestions.createdAt || suggestions.location) && (
+          <div className="mb-6 p-4 bg-green-50 rounded-lg space-y-2">
+            <h3 className="font-medium text-green-900">From your photos</h3>
+            {suggestions.createdAt && (
+              <div className="flex items-center justify-between text-sm text-green-800">
+                <span className="flex items-center">
+                  <CalendarIcon className="h-4 w-4 mr-2" />
+                  Taken {new Date(suggestions.createdAt).toLocaleString()}
+                </span>
+                <button
+                  onClick={() => applySuggestion('createdAt')}
+                  className="px-3 py-1 text-green-700 bg-white rounded-md hover:bg-green-100"
+                >
+                  Use this date
+                </button>
+              </div>
+            )}
+            {suggestions.location && (
+              <div className="flex items-center justify-between text-sm text-green-800">
+                <span className="flex items-center">
+                  <MapPinIcon className="h-4 w-4 mr-2" />
+                  {suggestions.location}
+                </span>
+                <button
+                  onClick={() => applySuggestion('location')}
+                  className="px-3 py-1 text-green-700 bg-white rounded-md hover:bg-green-100"
+                >
+                  Use this location
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="flex items-center justify-between">
           <div className="flex space-x-3">
@@ -359,23 +683,32 @@ const MemoryCapture: React.FC = () => {
             >
               Cancel
             </button>
-            <button
-              onClick={handleSubmit}
-              disabled={!content.trim() || isProcessing || createMemoryMutation.isPending}
-              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            >
-              {isProcessing || createMemoryMutation.isPending ? (
-                <>
-                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                  Saving...
-                </>
-              ) : (
-                <>
-                  <PaperAirplaneIcon className="h-4 w-4 mr-2" />
-                  Save Memory
-                </>
-              )}
-            </button>
+            {savedMemoryId ? (
+              <button
+                onClick={() => navigate('/memories')}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+              >
+                View Memories
+              </button>
+            ) : (
+              <button
+                onClick={handleSubmit}
+                disabled={!content.trim() || isProcessing || createMemoryMutation.isPending}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {isProcessing || createMemoryMutation.isPending ? (
+                  <>
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                    Saving...
+                  </>
+                ) : (
+                  <>
+                    <PaperAirplaneIcon className="h-4 w-4 mr-2" />
+                    Save Memory
+                  </>
+                )}
+              </button>
+            )}
           </div>
         </div>
       </div>
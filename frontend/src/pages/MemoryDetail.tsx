@@ -0,0 +1,123 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeftIcon, BookOpenIcon } from '@heroicons/react/24/outline';
+import { mediaUrl } from '../services/api';
+import memoryService from '../services/memoryService';
+
+const MemoryDetail: React.FC = () => {
+  const { id = '' } = useParams<{ id: string }>();
+
+  const { data: memory, isLoading, isError } = useQuery({
+    queryKey: ['memory', id],
+    queryFn: () => memoryService.getMemory(id),
+    enabled: Boolean(id),
+  });
+
+  const images = memory?.attachments?.filter(attachment => attachment.kind === 'image') ?? [];
+  const recordings = memory?.attachments?.filter(attachment => attachment.kind === 'audio') ?? [];
+  // Memories saved before attachments existed only carry the single URLs
+  const legacyImage = images.length === 0 ? memory?.imageUrl : undefined;
+  const legacyAudio = recordings.length === 0 ? memory?.audioUrl : undefined;
+
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return '';
+    return new Date(dateString).toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <Link to="/memories" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeftIcon className="h-4 w-4 mr-2" />
+        Back to memories
+      </Link>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : isError || !memory ? (
+        <div className="bg-white rounded-lg shadow p-6 text-center py-12">
+          <BookOpenIcon className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+          <h3 className="text-lg font-medium text-gray-900">Memory not found</h3>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{memory.title || 'Untitled memory'}</h1>
+            <p className="text-sm text-gray-500">{formatDate(memory.createdAt || memory.created_at)}</p>
+          </div>
+
+          <p className="text-gray-900 whitespace-pre-wrap">{memory.content}</p>
+
+          {(images.length > 0 || legacyImage) && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {images.map(image => (
+                <figure key={image.id} className="space-y-1">
+                  <a href={mediaUrl(image.url)} target="_blank" rel="noreferrer">
+                    <img
+                      src={mediaUrl(image.previewUrl || image.url)}
+                      alt={image.caption || image.filename}
+                      width={image.width}
+                      height={image.height}
+                      loading="lazy"
+                      className="w-full h-auto rounded-md bg-gray-100"
+                    />
+                  </a>
+                  {image.caption && <figcaption className="text-xs text-gray-500">{image.caption}</figcaption>}
+                </figure>
+              ))}
+              {legacyImage && (
+                <img src={mediaUrl(legacyImage)} alt="" loading="lazy" className="w-full h-auto rounded-md bg-gray-100" />
+              )}
+            </div>
+          )}
+
+          {recordings.map(recording => (
+            <div key={recording.id} className="space-y-1">
+              <p className="text-xs font-medium text-gray-500">{recording.filename}</p>
+              <audio controls preload="metadata" src={mediaUrl(recording.url)} className="w-full" />
+            </div>
+          ))}
+          {legacyAudio && <audio controls preload="metadata" src={mediaUrl(legacyAudio)} className="w-full" />}
+
+          {memory.summary && memory.summary !== memory.content && (
+            <div className="p-4 bg-gray-50 rounded-md">
+              <p className="text-xs font-medium text-gray-500 uppercase mb-1">Summary</p>
+              <p className="text-gray-700">{memory.summary}</p>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-4 text-sm text-gray-500">
+            <div>Mood: {memory.mood}</div>
+            {memory.location && <div>Location: {memory.location}</div>}
+            {memory.people && memory.people.length > 0 && <div>People: {memory.people.join(', ')}</div>}
+            {memory.tags.length > 0 && <div>Tags: {memory.tags.join(', ')}</div>}
+          </div>
+
+          {memory.emotions && (
+            <div className="flex flex-wrap gap-1">
+              {[memory.emotions.primary, ...(memory.emotions.secondary || [])].map((emotion, index) => (
+                <span
+                  key={index}
+                  className="inline-block px-2 py-1 text-xs bg-purple-100 text-purple-800 rounded-full"
+                >
+                  {emotion}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MemoryDetail;
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
 import { 
   BellIcon, 
   SparklesIcon,
@@ -8,37 +9,70 @@ import {
   CalendarIcon,
   CheckIcon,
   XMarkIcon,
-  ArrowPathIcon
+  ArrowPathIcon,
+  ClockIcon,
+  EnvelopeIcon,
+  EnvelopeOpenIcon,
+  TrophyIcon,
+  BookOpenIcon
 } from '@heroicons/react/24/outline';
 import memoryService from '../services/memoryService';
-import { Nudge } from '../types';
+import { Nudge, NudgeStatus, NudgeType } from '../types';
 import toast from 'react-hot-toast';
 
+const SNOOZE_HOURS = 24;
+
+const STATUS_TABS: { status: NudgeStatus; label: string }[] = [
+  { status: 'active', label: 'Active' },
+  { status: 'snoozed', label: 'Snoozed' },
+  { status: 'actioned', label: 'Done' },
+  { status: 'dismissed', label: 'Dismissed' },
+  { status: 'expired', label: 'Expired' },
+];
+
+type NudgeAction = 'read' | 'unread' | 'action' | 'snooze' | 'dismiss';
+
 const Nudges: React.FC = () => {
   const [selectedNudge, setSelectedNudge] = useState<Nudge | null>(null);
+  const [status, setStatus] = useState<NudgeStatus>('active');
   const queryClient = useQueryClient();
 
   // Fetch nudges
   const { data: nudges = [], isLoading } = useQuery({
-    queryKey: ['nudges'],
-    queryFn: () => memoryService.getNudges(),
+    queryKey: ['nudges', status],
+    queryFn: () => memoryService.getNudges(status),
   });
 
-  // Mark nudge as read mutation
-  const markAsReadMutation = useMutation({
-    mutationFn: (nudgeId: string) => memoryService.markNudgeAsRead(nudgeId),
-    onSuccess: () => {
+  // Move a nudge through its lifecycle
+  const nudgeActionMutation = useMutation({
+    mutationFn: ({ nudgeId, action }: { nudgeId: string; action: NudgeAction }): Promise<unknown> => {
+      switch (action) {
+        case 'read':
+          return memoryService.markNudgeAsRead(nudgeId);
+        case 'unread':
+          return memoryService.markNudgeAsUnread(nudgeId);
+        case 'action':
+          return memoryService.actOnNudge(nudgeId);
+        case 'snooze':
+          return memoryService.snoozeNudge(nudgeId, SNOOZE_HOURS);
+        case 'dismiss':
+          return memoryService.dismissNudge(nudgeId);
+      }
+    },
+    onSuccess: (_data, { action }) => {
       queryClient.invalidateQueries({ queryKey: ['nudges'] });
-      toast.success('Nudge marked as read');
+      if (action === 'action') toast.success('Nice work!');
+      if (action === 'snooze') toast.success('Snoozed until tomorrow');
+      if (action === 'dismiss') toast.success('Nudge dismissed');
     },
     onError: (error: any) => {
-      toast.error(error.message || 'Failed to mark nudge as read');
+      toast.error(error.message || 'Failed to update nudge');
     },
   });
 
   // Generate new nudge mutation
   const generateNudgeMutation = useMutation({
-    mutationFn: (type: 'silence' | 'emotional_gap' | 'reconnect' | 'milestone') => 
+    mutationFn: (type: NudgeType) => 
       memoryService.generateNudge(type),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['nudges'] });
@@ -51,14 +85,18 @@ const Nudges: React.FC = () => {
 
   const getNudgeIcon = (type: string) => {
     switch (type) {
-      case 'silence':
+      case 'log_memory':
         return <BellIcon className="h-6 w-6 text-yellow-600" />;
       case 'emotional_gap':
         return <HeartIcon className="h-6 w-6 text-red-600" />;
       case 'reconnect':
         return <UserIcon className="h-6 w-6 text-blue-600" />;
-      case 'milestone':
+      case 'person_reminder':
         return <SparklesIcon className="h-6 w-6 text-purple-600" />;
+      case 'milestone':
+        return <TrophyIcon className="h-6 w-6 text-green-600" />;
+      case 'memory':
+        return <CalendarIcon className="h-6 w-6 text-orange-600" />;
       default:
         return <BellIcon className="h-6 w-6 text-gray-600" />;
     }
@@ -66,14 +104,18 @@ const Nudges: React.FC = () => {
 
   const getNudgeColor = (type: string) => {
     switch (type) {
-      case 'silence':
+      case 'log_memory':
         return 'bg-yellow-50 border-yellow-200';
       case 'emotional_gap':
         return 'bg-red-50 border-red-200';
       case 'reconnect':
         return 'bg-blue-50 border-blue-200';
-      case 'milestone':
+      case 'person_reminder':
         return 'bg-purple-50 border-purple-200';
+      case 'milestone':
+        return 'bg-green-50 border-green-200';
+      case 'memory':
+        return 'bg-orange-50 border-orange-200';
       default:
         return 'bg-gray-50 border-gray-200';
     }
@@ -81,14 +123,18 @@ const Nudges: React.FC = () => {
 
   const getNudgeTypeLabel = (type: string) => {
     switch (type) {
-      case 'silence':
-        return 'Silence Reminder';
+      case 'log_memory':
+        return 'Log a Memory';
       case 'emotional_gap':
         return 'Emotional Gap';
       case 'reconnect':
         return 'Reconnect';
+      case 'person_reminder':
+        return 'Person Reminder';
       case 'milestone':
         return 'Milestone';
+      case 'memory':
+        return 'On This Day';
       default:
         return 'Nudge';
     }
@@ -105,15 +151,21 @@ const Nudges: React.FC = () => {
 
   const handleReconnect = (nudge: Nudge) => {
     setSelectedNudge(nudge);
-    // TODO: Implement reconnect functionality
-    toast.success('Reconnect feature coming soon!');
   };
 
-  const handleMarkAsRead = (nudgeId: string) => {
-    markAsReadMutation.mutate(nudgeId);
+  const handleNudgeAction = (nudgeId: string, action: NudgeAction) => {
+    nudgeActionMutation.mutate({ nudgeId, action });
   };
 
-  const handleGenerateNudge = (type: 'silence' | 'emotional_gap' | 'reconnect' | 'milestone') => {
+  // Any reconnect option counts as acting on the nudge
+  const handleReconnectChoice = () => {
+    if (selectedNudge) {
+      handleNudgeAction(selectedNudge.id, 'action');
+    }
+    setSelectedNudge(null);
+  };
+
+  const handleGenerateNudge = (type: NudgeType) => {
     generateNudgeMutation.mutate(type);
   };
 
@@ -140,14 +192,14 @@ const Nudges: React.FC = () => {
       {/* Generate Nudges Section */}
       <div className="bg-white rounded-lg shadow p-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">Generate New Nudges</h2>
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
           <button
-            onClick={() => handleGenerateNudge('silence')}
+            onClick={() => handleGenerateNudge('log_memory')}
             disabled={generateNudgeMutation.isPending}
             className="p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
           >
             <BellIcon className="h-8 w-8 text-yellow-600 mx-auto mb-2" />
-            <p className="text-sm font-medium text-gray-900">Silence Check</p>
+            <p className="text-sm font-medium text-gray-900">Log a Memory</p>
             <p className="text-xs text-gray-500">Check for quiet periods</p>
           </button>
 
@@ -172,23 +224,56 @@ const Nudges: React.FC = () => {
           </button>
 
           <button
-            onClick={() => handleGenerateNudge('milestone')}
+            onClick={() => handleGenerateNudge('person_reminder')}
             disabled={generateNudgeMutation.isPending}
             className="p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
           >
             <SparklesIcon className="h-8 w-8 text-purple-600 mx-auto mb-2" />
+            <p className="text-sm font-medium text-gray-900">Person Reminder</p>
+            <p className="text-xs text-gray-500">Remember what matters to people</p>
+          </button>
+
+          <button
+            onClick={() => handleGenerateNudge('milestone')}
+            disabled={generateNudgeMutation.isPending}
+            className="p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <TrophyIcon className="h-8 w-8 text-green-600 mx-auto mb-2" />
             <p className="text-sm font-medium text-gray-900">Milestone</p>
-            <p className="text-xs text-gray-500">Celebrate achievements</p>
+            <p className="text-xs text-gray-500">Celebrate anniversaries and counts</p>
+          </button>
+
+          <button
+            onClick={() => handleGenerateNudge('memory')}
+            disabled={generateNudgeMutation.isPending}
+            className="p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <CalendarIcon className="h-8 w-8 text-orange-600 mx-auto mb-2" />
+            <p className="text-sm font-medium text-gray-900">On This Day</p>
+            <p className="text-xs text-gray-500">Revisit a memory from the past</p>
           </button>
         </div>
       </div>
 
       {/* Nudges List */}
       <div className="bg-white rounded-lg shadow">
-        <div className="p-6 border-b border-gray-200">
+        <div className="p-6 border-b border-gray-200 space-y-4">
           <h2 className="text-lg font-semibold text-gray-900">
-            Your Nudges ({nudges.filter(n => !n.is_read).length} unread)
+            Your Nudges ({nudges.filter(n => !n.isRead).length} unread)
           </h2>
+          <div className="flex flex-wrap gap-2">
+            {STATUS_TABS.map((tab) => (
+              <button
+                key={tab.status}
+                onClick={() => setStatus(tab.status)}
+                className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                  status === tab.status ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
         </div>
 
         <div className="p-6">
@@ -199,15 +284,19 @@ const Nudges: React.FC = () => {
           ) : nudges.length === 0 ? (
             <div className="text-center py-12">
               <BellIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-              <h3 className="text-lg font-medium text-gray-900 mb-2">No nudges yet</h3>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">
+                {status === 'active' ? 'No nudges yet' : `No ${STATUS_TABS.find((tab) => tab.status === status)?.label.toLowerCase()} nudges`}
+              </h3>
               <p className="text-gray-500 mb-4">Generate some nudges to get started</p>
-              <button
-                onClick={() => handleGenerateNudge('reconnect')}
-                className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
-              >
-                <SparklesIcon className="h-4 w-4 mr-2" />
-                Generate Nudge
-              </button>
+              {status === 'active' && (
+                <button
+                  onClick={() => handleGenerateNudge('reconnect')}
+                  className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                >
+                  <SparklesIcon className="h-4 w-4 mr-2" />
+                  Generate Nudge
+                </button>
+              )}
             </div>
           ) : (
             <div className="space-y-4">
@@ -215,7 +304,7 @@ const Nudges: React.FC = () => {
                 <div
                   key={nudge.id}
                   className={`border rounded-lg p-4 transition-colors ${
-                    nudge.is_read ? 'opacity-75' : ''
+                    nudge.isRead ? 'opacity-75' : ''
                   } ${getNudgeColor(nudge.type)}`}
                 >
                   <div className="flex items-start justify-between">
@@ -229,7 +318,7 @@ const Nudges: React.FC = () => {
                           <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
                             {getNudgeTypeLabel(nudge.type)}
                           </span>
-                          {!nudge.is_read && (
+                          {!nudge.isRead && (
                             <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
                               New
                             </span>
@@ -238,12 +327,18 @@ const Nudges: React.FC = () => {
                         <p className="text-sm text-gray-600 mb-2">{nudge.message}</p>
                         <div className="flex items-center text-xs text-gray-500">
                           <CalendarIcon className="h-3 w-3 mr-1" />
-                          {formatDate(nudge.created_at)}
+                          {formatDate(nudge.createdAt)}
+                          {nudge.status === 'snoozed' && nudge.snoozedUntil && (
+                            <span className="ml-3">Back {formatDate(nudge.snoozedUntil)}</span>
+                          )}
+                          {nudge.status === 'active' && nudge.expiresAt && (
+                            <span className="ml-3">Expires {formatDate(nudge.expiresAt)}</span>
+                          )}
                         </div>
                       </div>
                     </div>
                     <div className="flex space-x-2">
-                      {nudge.type === 'reconnect' && (
+                      {nudge.type === 'reconnect' && (nudge.status === 'active' || nudge.status === 'snoozed') && (
                         <button
                           onClick={() => handleReconnect(nudge)}
                           className="p-1 text-blue-600 hover:text-blue-800 transition-colors"
@@ -252,22 +347,46 @@ const Nudges: React.FC = () => {
                           <UserIcon className="h-4 w-4" />
                         </button>
                       )}
-                      {!nudge.is_read ? (
-                        <button
-                          onClick={() => handleMarkAsRead(nudge.id)}
-                          className="p-1 text-green-600 hover:text-green-800 transition-colors"
-                          title="Mark as read"
+                      {nudge.type === 'memory' && nudge.relatedMemories[0] && (
+                        <Link
+                          to={`/memories/${nudge.relatedMemories[0]}`}
+                          className="p-1 text-orange-600 hover:text-orange-800 transition-colors"
+                          title="Open memory"
                         >
-                          <CheckIcon className="h-4 w-4" />
-                        </button>
-                      ) : (
-                        <button
-                          onClick={() => handleMarkAsRead(nudge.id)}
-                          className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
-                          title="Mark as unread"
-                        >
-                          <XMarkIcon className="h-4 w-4" />
-                        </button>
+                          <BookOpenIcon className="h-4 w-4" />
+                        </Link>
+                      )}
+                      <button
+                        onClick={() => handleNudgeAction(nudge.id, nudge.isRead ? 'unread' : 'read')}
+                        className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                        title={nudge.isRead ? 'Mark as unread' : 'Mark as read'}
+                      >
+                        {nudge.isRead ? <EnvelopeIcon className="h-4 w-4" /> : <EnvelopeOpenIcon className="h-4 w-4" />}
+                      </button>
+                      {(nudge.status === 'active' || nudge.status === 'snoozed') && (
+                        <>
+                          <button
+                            onClick={() => handleNudgeAction(nudge.id, 'action')}
+                            className="p-1 text-green-600 hover:text-green-800 transition-colors"
+                            title="Done"
+                          >
+                            <CheckIcon className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleNudgeAction(nudge.id, 'snooze')}
+                            className="p-1 text-yellow-600 hover:text-yellow-800 transition-colors"
+                            title="Snooze for a day"
+                          >
+                            <ClockIcon className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleNudgeAction(nudge.id, 'dismiss')}
+                            className="p-1 text-gray-400 hover:text-red-600 transition-colors"
+                            title="Dismiss"
+                          >
+                            <XMarkIcon className="h-4 w-4" />
+                          </button>
+                        </>
                       )}
                     </div>
                   </div>
@@ -287,10 +406,7 @@ const Nudges: React.FC = () => {
             
             <div className="space-y-3">
               <button
-                onClick={() => {
-                  setSelectedNudge(null);
-                  // TODO: Implement call action
-                }}
+                onClick={handleReconnectChoice}
                 className="w-full flex items-center justify-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
               >
                 <UserIcon className="h-4 w-4 mr-2" />
@@ -298,10 +414,7 @@ const Nudges: React.FC = () => {
               </button>
               
               <button
-                onClick={() => {
-                  setSelectedNudge(null);
-                  // TODO: Implement message action
-                }}
+                onClick={handleReconnectChoice}
                 className="w-full flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
               >
                 <UserIcon className="h-4 w-4 mr-2" />
@@ -309,10 +422,7 @@ const Nudges: React.FC = () => {
               </button>
               
               <button
-                onClick={() => {
-                  setSelectedNudge(null);
-                  // TODO: Implement meet action
-                }}
+                onClick={handleReconnectChoice}
                 className="w-full flex items-center justify-center px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors"
               >
                 <UserIcon className="h-4 w-4 mr-2" />
@@ -1,15 +1,19 @@
 import React, { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
 import { 
   PlusIcon, 
   PencilIcon, 
   TrashIcon,
   UserIcon,
   BookOpenIcon,
-  CalendarIcon
+  CalendarIcon,
+  ArrowsRightLeftIcon,
+  ArrowUturnLeftIcon,
+  ShareIcon
 } from '@heroicons/react/24/outline';
 import memoryService from '../services/memoryService';
-import { Person, CreatePersonRequest, UpdatePersonRequest } from '../types';
+import { Person, PersonMerge, CreatePersonRequest, UpdatePersonRequest } from '../types';
 import toast from 'react-hot-toast';
 
 const People: React.FC = () => {
@@ -17,6 +21,7 @@ const People: React.FC = () => {
   const [editingPerson, setEditingPerson] = useState<Person | null>(null);
   const [formData, setFormData] = useState({
     name: '',
+    aliases: '',
     relationship: '',
     notes: '',
   });
@@ -29,13 +34,54 @@ const People: React.FC = () => {
     queryFn: () => memoryService.getPeople(),
   });
 
+  // People who look like duplicates of each other
+  const { data: duplicates = [] } = useQuery({
+    queryKey: ['people-duplicates'],
+    queryFn: () => memoryService.getDuplicatePeople(),
+  });
+
+  const { data: merges = [] } = useQuery({
+    queryKey: ['people-merges'],
+    queryFn: () => memoryService.getPersonMerges(),
+  });
+
+  const refreshPeople = () => {
+    queryClient.invalidateQueries({ queryKey: ['people'] });
+    queryClient.invalidateQueries({ queryKey: ['people-duplicates'] });
+    queryClient.invalidateQueries({ queryKey: ['people-merges'] });
+  };
+
+  // Merge people into one; the merged names become aliases
+  const mergePeopleMutation = useMutation({
+    mutationFn: ({ target, sources }: { target: Person; sources: Person[] }) =>
+      memoryService.mergePeople(target.id, sources.map((person) => person.id)),
+    onSuccess: ({ person }) => {
+      refreshPeople();
+      toast.success(`Merged into ${person.name}`);
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to merge people');
+    },
+  });
+
+  const undoMergeMutation = useMutation({
+    mutationFn: (merge: PersonMerge) => memoryService.undoPersonMerge(merge.id),
+    onSuccess: (restored) => {
+      refreshPeople();
+      toast.success(`Restored ${restored.map((person) => person.name).join(', ')}`);
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to undo merge');
+    },
+  });
+
   // Create person mutation
   const createPersonMutation = useMutation({
     mutationFn: (data: CreatePersonRequest) => memoryService.createPerson(data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['people'] });
       setShowAddModal(false);
-      setFormData({ name: '', relationship: '', notes: '' });
+      setFormData({ name: '', aliases: '', relationship: '', notes: '' });
       toast.success('Person added successfully!');
     },
     onError: (error: any) => {
@@ -50,7 +96,7 @@ const People: React.FC = () => {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['people'] });
       setEditingPerson(null);
-      setFormData({ name: '', relationship: '', notes: '' });
+      setFormData({ name: '', aliases: '', relationship: '', notes: '' });
       toast.success('Person updated successfully!');
     },
     onError: (error: any) => {
@@ -78,13 +124,18 @@ const People: React.FC = () => {
       return;
     }
 
+    const data = {
+      ...formData,
+      aliases: formData.aliases.split(',').map((alias) => alias.trim()).filter(Boolean),
+    };
+
     if (editingPerson) {
       updatePersonMutation.mutate({
         id: editingPerson.id,
-        data: formData,
+        data,
       });
     } else {
-      createPersonMutation.mutate(formData);
+      createPersonMutation.mutate(data);
     }
   };
 
@@ -92,6 +143,7 @@ const People: React.FC = () => {
     setEditingPerson(person);
     setFormData({
       name: person.name,
+      aliases: (person.aliases || []).join(', '),
       relationship: person.relationship,
       notes: person.notes || '',
     });
@@ -103,10 +155,18 @@ const People: React.FC = () => {
     }
   };
 
+  const handleMerge = (target: Person, source: Person) => {
+    if (window.confirm(`Merge ${source.name} into ${target.name}? Memories mentioning ${source.name} will mention ${target.name} instead.`)) {
+      mergePeopleMutation.mutate({ target, sources: [source] });
+    }
+  };
+
+  const personName = (id: string) => people.find((person: Person) => person.id === id)?.name || 'someone';
+
   const closeModal = () => {
     setShowAddModal(false);
     setEditingPerson(null);
-    setFormData({ name: '', relationship: '', notes: '' });
+    setFormData({ name: '', aliases: '', relationship: '', notes: '' });
   };
 
   return (
@@ -117,15 +177,73 @@ const People: React.FC = () => {
           <h1 className="text-3xl font-bold text-gray-900">People</h1>
           <p className="text-gray-600">Manage the people in your life and your relationships</p>
         </div>
-        <button
-          onClick={() => setShowAddModal(true)}
-          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
-        >
-          <PlusIcon className="h-5 w-5 mr-2" />
-          Add Person
-        </button>
+        <div className="flex space-x-2">
+          <Link
+            to="/people/graph"
+            className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+          >
+            <ShareIcon className="h-5 w-5 mr-2" />
+            Graph
+          </Link>
+          <button
+            onClick={() => setShowAddModal(true)}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            <PlusIcon className="h-5 w-5 mr-2" />
+            Add Person
+          </button>
+        </div>
       </div>
 
+      {/* Duplicate Suggestions */}
+      {duplicates.length > 0 && (
+        <div className="bg-yellow-50 rounded-lg p-4 space-y-3">
+          <h2 className="font-medium text-yellow-900">Possible duplicates</h2>
+          {duplicates.map(({ people: [first, second], reasons }) => (
+            <div key={`${first.id}-${second.id}`} className="flex flex-wrap items-center justify-between gap-2 text-sm text-yellow-800">
+              <span>
+                <strong>{first.name}</strong> and <strong>{second.name}</strong> may be the same person ({reasons.join(', ')})
+              </span>
+              <div className="flex space-x-2">
+                {[[first, second], [second, first]].map(([target, source]) => (
+                  <button
+                    key={target.id}
+                    onClick={() => handleMerge(target, source)}
+                    disabled={mergePeopleMutation.isPending}
+                    className="flex items-center px-3 py-1 text-yellow-800 bg-white rounded-md hover:bg-yellow-100 disabled:opacity-50"
+                  >
+                    <ArrowsRightLeftIcon className="h-4 w-4 mr-1" />
+                    Keep {target.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Recent Merges */}
+      {merges.some((merge) => !merge.undoneAt) && (
+        <div className="bg-gray-50 rounded-lg p-4 space-y-2">
+          <h2 className="font-medium text-gray-900">Recent merges</h2>
+          {merges.filter((merge) => !merge.undoneAt).map((merge) => (
+            <div key={merge.id} className="flex items-center justify-between text-sm text-gray-700">
+              <span>
+                {merge.sources.map((person) => person.name).join(', ')} merged into {personName(merge.targetId)} on {new Date(merge.createdAt).toLocaleDateString()}
+              </span>
+              <button
+                onClick={() => undoMergeMutation.mutate(merge)}
+                disabled={undoMergeMutation.isPending}
+                className="flex items-center px-3 py-1 text-gray-700 bg-white rounded-md hover:bg-gray-100 disabled:opacity-50"
+              >
+                <ArrowUturnLeftIcon className="h-4 w-4 mr-1" />
+                Undo
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* People Grid */}
       {isLoading ? (
         <div className="flex items-center justify-center h-64">
@@ -158,8 +276,13 @@ const People: React.FC = () => {
                     </span>
                   </div>
                   <div className="ml-4">
-                    <h3 className="text-lg font-semibold text-gray-900">{person.name}</h3>
+                    <h3 className="text-lg font-semibold text-gray-900">
+                      <Link to={`/people/${person.id}`} className="hover:text-blue-600">{person.name}</Link>
+                    </h3>
                     <p className="text-sm text-gray-500">{person.relationship}</p>
+                    {person.aliases && person.aliases.length > 0 && (
+                      <p className="text-xs text-gray-400">Also known as {person.aliases.join(', ')}</p>
+                    )}
                   </div>
                 </div>
                 <div className="flex space-x-2">
@@ -220,6 +343,19 @@ const People: React.FC = () => {
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Also known as
+                </label>
+                <input
+                  type="text"
+                  value={formData.aliases}
+                  onChange={(e) => setFormData({ ...formData, aliases: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Nicknames, separated by commas"
+                />
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Relationship
@@ -0,0 +1,260 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link, useNavigate } from 'react-router-dom';
+import { ArrowLeftIcon, ShareIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import memoryService from '../services/memoryService';
+import { PeopleGraph as PeopleGraphData } from '../types';
+
+const WIDTH = 800;
+const HEIGHT = 560;
+const MARGIN = 40;
+const LAYOUT_ITERATIONS = 300;
+
+const COMMUNITY_COLORS = ['#2563eb', '#7c3aed', '#db2777', '#059669', '#d97706', '#0891b2', '#dc2626', '#4f46e5'];
+const NO_COMMUNITY_COLOR = '#9ca3af';
+
+type Edge = PeopleGraphData['edges'][number];
+
+// Force-directed layout (Fruchterman-Reingold): linked people pull together in
+// proportion to their edge weight, everyone pushes everyone else apart. Starts
+// from a circle ordered by community so the result is the same on every render.
+const layoutGraph = (graph: PeopleGraphData): Map<string, { x: number; y: number }> => {
+  const nodes = [...graph.nodes].sort((a, b) =>
+    (a.communityId || '~').localeCompare(b.communityId || '~') || a.name.localeCompare(b.name)
+  );
+  const positions = new Map(nodes.map((node, index) => {
+    const angle = (2 * Math.PI * index) / (nodes.length || 1);
+    return [node.id, { x: WIDTH / 2 + (WIDTH / 3) * Math.cos(angle), y: HEIGHT / 2 + (HEIGHT / 3) * Math.sin(angle) }];
+  }));
+  if (nodes.length < 2) {
+    positions.forEach((position) => Object.assign(position, { x: WIDTH / 2, y: HEIGHT / 2 }));
+    return positions;
+  }
+
+  const ideal = Math.sqrt(((WIDTH - MARGIN * 2) * (HEIGHT - MARGIN * 2)) / nodes.length);
+  const maxWeight = Math.max(1, ...graph.edges.map((edge) => edge.weight));
+
+  for (let iteration = 0; iteration < LAYOUT_ITERATIONS; iteration++) {
+    const temperature = (WIDTH / 10) * (1 - iteration / LAYOUT_ITERATIONS);
+    const shifts = new Map(nodes.map((node) => [node.id, { x: 0, y: 0 }]));
+
+    nodes.forEach((a, index) => {
+      for (const b of nodes.slice(index + 1)) {
+        const pa = positions.get(a.id)!;
+        const pb = positions.get(b.id)!;
+        const dx = pa.x - pb.x || 0.01;
+        const dy = pa.y - pb.y || 0.01;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        const force = (ideal * ideal) / distance;
+        shifts.get(a.id)!.x += (dx / distance) * force;
+        shifts.get(a.id)!.y += (dy / distance) * force;
+        shifts.get(b.id)!.x -= (dx / distance) * force;
+        shifts.get(b.id)!.y -= (dy / distance) * force;
+      }
+    });
+
+    graph.edges.forEach((edge) => {
+      const ps = positions.get(edge.source);
+      const pt = positions.get(edge.target);
+      if (!ps || !pt) return;
+      const dx = ps.x - pt.x;
+      const dy = ps.y - pt.y;
+      const distance = Math.sqrt(dx * dx + dy * dy) || 0.01;
+      const force = ((distance * distance) / ideal) * (0.5 + edge.weight / maxWeight);
+      shifts.get(edge.source)!.x -= (dx / distance) * force;
+      shifts.get(edge.source)!.y -= (dy / distance) * force;
+      shifts.get(edge.target)!.x += (dx / distance) * force;
+      shifts.get(edge.target)!.y += (dy / distance) * force;
+    });
+
+    positions.forEach((position, id) => {
+      const shift = shifts.get(id)!;
+      const length = Math.sqrt(shift.x * shift.x + shift.y * shift.y) || 1;
+      position.x = Math.min(WIDTH - MARGIN, Math.max(MARGIN, position.x + (shift.x / length) * Math.min(length, temperature)));
+      position.y = Math.min(HEIGHT - MARGIN, Math.max(MARGIN, position.y + (shift.y / length) * Math.min(length, temperature)));
+    });
+  }
+
+  return positions;
+};
+
+const PeopleGraph: React.FC = () => {
+  const navigate = useNavigate();
+  const [selectedEdge, setSelectedEdge] = useState<Edge | null>(null);
+
+  const { data: graph, isLoading, isError } = useQuery({
+    queryKey: ['people-graph'],
+    queryFn: () => memoryService.getPeopleGraph(),
+  });
+
+  const { data: sharedMemories = [], isLoading: sharedLoading } = useQuery({
+    queryKey: ['shared-memories', selectedEdge?.source, selectedEdge?.target],
+    queryFn: () => memoryService.getSharedMemories(selectedEdge!.source, selectedEdge!.target),
+    enabled: Boolean(selectedEdge),
+  });
+
+  const positions = useMemo(() => (graph ? layoutGraph(graph) : new Map<string, { x: number; y: number }>()), [graph]);
+
+  const maxWeight = Math.max(1, ...(graph?.edges || []).map((edge) => edge.weight));
+  const communityColor = (communityId?: string) => {
+    const index = graph?.communities.findIndex((community) => community.id === communityId) ?? -1;
+    return index === -1 ? NO_COMMUNITY_COLOR : COMMUNITY_COLORS[index % COMMUNITY_COLORS.length];
+  };
+  const personName = (id: string) => graph?.nodes.find((node) => node.id === id)?.name || 'someone';
+
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return '';
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Link to="/people" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeftIcon className="h-4 w-4 mr-2" />
+        Back to people
+      </Link>
+
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Relationship graph</h1>
+        <p className="text-gray-600">
+          Lines join people who appear in memories together; thicker lines mean more, and more recent, shared memories.
+          Click a line to see the memories behind it.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : isError || !graph || graph.edges.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-6 text-center py-12">
+          <ShareIcon className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+          <h3 className="text-lg font-medium text-gray-900">
+            {isError ? 'Could not load the graph' : 'No shared memories yet'}
+          </h3>
+          <p className="text-gray-500">Memories that mention two or more people will show up here.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 bg-white rounded-lg shadow p-4">
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full" role="img" aria-label="Relationship graph">
+              {graph.edges.map((edge) => {
+                const source = positions.get(edge.source);
+                const target = positions.get(edge.target);
+                if (!source || !target) return null;
+                const isSelected = selectedEdge?.source === edge.source && selectedEdge?.target === edge.target;
+                return (
+                  <g key={`${edge.source}-${edge.target}`} onClick={() => setSelectedEdge(edge)} className="cursor-pointer">
+                    <line
+                      x1={source.x}
+                      y1={source.y}
+                      x2={target.x}
+                      y2={target.y}
+                      stroke={isSelected ? '#f59e0b' : '#cbd5e1'}
+                      strokeWidth={1 + (6 * edge.weight) / maxWeight}
+                    />
+                    {/* Wider invisible line so thin edges are easy to click */}
+                    <line x1={source.x} y1={source.y} x2={target.x} y2={target.y} stroke="transparent" strokeWidth={12}>
+                      <title>{`${personName(edge.source)} & ${personName(edge.target)}: ${edge.memoryCount} shared ${edge.memoryCount === 1 ? 'memory' : 'memories'}`}</title>
+                    </line>
+                  </g>
+                );
+              })}
+              {graph.nodes.map((node) => {
+                const position = positions.get(node.id);
+                if (!position) return null;
+                return (
+                  <g key={node.id} onClick={() => navigate(`/people/${node.id}`)} className="cursor-pointer">
+                    <circle
+                      cx={position.x}
+                      cy={position.y}
+                      r={8 + Math.min(12, node.memoryCount)}
+                      fill={communityColor(node.communityId)}
+                      stroke="#fff"
+                      strokeWidth={2}
+                    >
+                      <title>{`${node.name}: ${node.memoryCount} ${node.memoryCount === 1 ? 'memory' : 'memories'}`}</title>
+                    </circle>
+                    <text
+                      x={position.x}
+                      y={position.y + 12 + Math.min(12, node.memoryCount) + 10}
+                      fontSize="12"
+                      fill="#374151"
+                      textAnchor="middle"
+                    >
+                      {node.name}
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+          </div>
+
+          <div className="space-y-6">
+            {selectedEdge && (
+              <div className="bg-white rounded-lg shadow p-4">
+                <div className="flex items-start justify-between mb-3">
+                  <div>
+                    <h2 className="font-semibold text-gray-900">
+                      {personName(selectedEdge.source)} & {personName(selectedEdge.target)}
+                    </h2>
+                    <p className="text-xs text-gray-500">
+                      {selectedEdge.memoryCount} shared {selectedEdge.memoryCount === 1 ? 'memory' : 'memories'}, most recently {formatDate(selectedEdge.lastSharedAt)}
+                    </p>
+                  </div>
+                  <button onClick={() => setSelectedEdge(null)} className="p-1 text-gray-400 hover:text-gray-600">
+                    <XMarkIcon className="h-4 w-4" />
+                  </button>
+                </div>
+                {sharedLoading ? (
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
+                ) : (
+                  <ul className="space-y-2">
+                    {sharedMemories.map((memory) => (
+                      <li key={memory.id}>
+                        <Link to={`/memories/${memory.id}`} className="text-sm font-medium text-gray-900 hover:text-blue-600">
+                          {memory.title || 'Untitled memory'}
+                        </Link>
+                        <p className="text-xs text-gray-500">{formatDate(memory.createdAt || memory.created_at)}</p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            <div className="bg-white rounded-lg shadow p-4">
+              <h2 className="font-semibold text-gray-900 mb-3">Groups</h2>
+              {graph.communities.length === 0 ? (
+                <p className="text-sm text-gray-500">No groups yet</p>
+              ) : (
+                <ul className="space-y-3">
+                  {graph.communities.map((community) => (
+                    <li key={community.id} className="flex items-start">
+                      <span
+                        className="inline-block w-3 h-3 rounded-full mt-1 mr-2 flex-shrink-0"
+                        style={{ backgroundColor: communityColor(community.id) }}
+                      ></span>
+                      <div>
+                        <p className="text-sm font-medium text-gray-900 capitalize">{community.label}</p>
+                        <p className="text-xs text-gray-500">
+                          {community.personIds.map(personName).join(', ')}
+                        </p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PeopleGraph;
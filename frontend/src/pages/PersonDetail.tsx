@@ -0,0 +1,212 @@
+import React from 'react';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeftIcon, SparklesIcon, UserIcon } from '@heroicons/react/24/outline';
+import memoryService from '../services/memoryService';
+import { PersonInsights } from '../types';
+
+const TIMELINE_PAGE_SIZE = 20;
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 24;
+
+// Average mood per month on the 1-10 scale, as a line with a dot per month
+const MoodChart: React.FC<{ points: PersonInsights['moodOverTime'] }> = ({ points }) => {
+  const x = (index: number) =>
+    points.length === 1
+      ? CHART_WIDTH / 2
+      : CHART_PADDING + (index * (CHART_WIDTH - CHART_PADDING * 2)) / (points.length - 1);
+  const y = (mood: number) =>
+    CHART_HEIGHT - CHART_PADDING - ((mood - 1) * (CHART_HEIGHT - CHART_PADDING * 2)) / 9;
+  const monthLabel = (month: string) =>
+    new Date(`${month}-01T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-40" role="img" aria-label="Mood over time">
+      {[1, 5, 10].map((mood) => (
+        <g key={mood}>
+          <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={y(mood)} y2={y(mood)} stroke="#e5e7eb" />
+          <text x={4} y={y(mood) + 4} fontSize="10" fill="#9ca3af">{mood}</text>
+        </g>
+      ))}
+      <polyline
+        fill="none"
+        stroke="#7c3aed"
+        strokeWidth="2"
+        points={points.map((point, index) => `${x(index)},${y(point.averageMood)}`).join(' ')}
+      />
+      {points.map((point, index) => (
+        <g key={point.month}>
+          <circle cx={x(index)} cy={y(point.averageMood)} r="4" fill="#7c3aed">
+            <title>
+              {`${monthLabel(point.month)}: mood ${point.averageMood} across ${point.memoryCount} ${point.memoryCount === 1 ? 'memory' : 'memories'}`}
+            </title>
+          </circle>
+          <text x={x(index)} y={CHART_HEIGHT - 4} fontSize="10" fill="#6b7280" textAnchor="middle">
+            {monthLabel(point.month)}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+const PersonDetail: React.FC = () => {
+  const { id = '' } = useParams<{ id: string }>();
+
+  const { data: insights, isLoading, isError } = useQuery({
+    queryKey: ['person-insights', id],
+    queryFn: () => memoryService.getPersonInsights(id),
+    enabled: Boolean(id),
+  });
+
+  const {
+    data: timeline,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['person-memories', id],
+    queryFn: ({ pageParam }) =>
+      memoryService.getMemoriesByPerson(id, { page: pageParam, limit: TIMELINE_PAGE_SIZE, order: 'asc' }),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) =>
+      lastPage.pagination.page < lastPage.pagination.pages ? lastPage.pagination.page + 1 : undefined,
+    enabled: Boolean(id),
+  });
+
+  const memories = timeline?.pages.flatMap((page) => page.memories) || [];
+
+  const formatDate = (dateString?: string) => {
+    if (!dateString) return '';
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <Link to="/people" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeftIcon className="h-4 w-4 mr-2" />
+        Back to people
+      </Link>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : isError || !insights ? (
+        <div className="bg-white rounded-lg shadow p-6 text-center py-12">
+          <UserIcon className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+          <h3 className="text-lg font-medium text-gray-900">Person not found</h3>
+        </div>
+      ) : (
+        <>
+          <div className="bg-white rounded-lg shadow p-6 flex items-center">
+            <div className="w-16 h-16 bg-gradient-to-r from-blue-500 to-purple-600 rounded-full flex items-center justify-center">
+              <span className="text-white font-medium text-2xl">
+                {insights.person.name.charAt(0).toUpperCase()}
+              </span>
+            </div>
+            <div className="ml-4">
+              <h1 className="text-2xl font-bold text-gray-900">{insights.person.name}</h1>
+              <p className="text-sm text-gray-500">{insights.person.relationship}</p>
+              {insights.person.aliases && insights.person.aliases.length > 0 && (
+                <p className="text-xs text-gray-400">Also known as {insights.person.aliases.join(', ')}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Memories', value: insights.memoryCount },
+              { label: 'Average mood', value: insights.averageMood !== undefined ? `${insights.averageMood}/10` : '—' },
+              { label: 'Last seen', value: insights.lastInteraction ? formatDate(insights.lastInteraction) : '—' },
+              { label: 'Connection', value: `${insights.relationshipStrength}/10` },
+            ].map((stat) => (
+              <div key={stat.label} className="bg-white rounded-lg shadow p-4">
+                <p className="text-xs font-medium text-gray-500 uppercase">{stat.label}</p>
+                <p className="text-lg font-semibold text-gray-900">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {insights.summary && (
+            <div className="bg-white rounded-lg shadow p-6">
+              <div className="flex items-center text-sm font-medium text-purple-700 mb-2">
+                <SparklesIcon className="h-4 w-4 mr-2" />
+                Your relationship
+              </div>
+              <p className="text-gray-700">{insights.summary}</p>
+            </div>
+          )}
+
+          {insights.moodOverTime.length > 0 && (
+            <div className="bg-white rounded-lg shadow p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Mood over time</h2>
+              <MoodChart points={insights.moodOverTime} />
+            </div>
+          )}
+
+          {(insights.topTags.length > 0 || insights.topEmotions.length > 0) && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {[
+                { title: 'Shared tags', items: insights.topTags, className: 'bg-blue-100 text-blue-800' },
+                { title: 'Emotions', items: insights.topEmotions, className: 'bg-purple-100 text-purple-800' },
+              ].map((group) => (
+                <div key={group.title} className="bg-white rounded-lg shadow p-6">
+                  <h2 className="text-lg font-semibold text-gray-900 mb-3">{group.title}</h2>
+                  {group.items.length === 0 ? (
+                    <p className="text-sm text-gray-500">None yet</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {group.items.map((item) => (
+                        <span key={item.name} className={`inline-block px-2 py-1 text-xs rounded-full ${group.className}`}>
+                          {item.name} · {item.count}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Timeline</h2>
+            {memories.length === 0 ? (
+              <p className="text-sm text-gray-500">No memories mention {insights.person.name} yet.</p>
+            ) : (
+              <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+                {memories.map((memory) => (
+                  <li key={memory.id} className="ml-4">
+                    <div className="absolute w-3 h-3 bg-purple-500 rounded-full -left-1.5 mt-1.5"></div>
+                    <p className="text-xs text-gray-500">{formatDate(memory.createdAt || memory.created_at)}</p>
+                    <Link to={`/memories/${memory.id}`} className="font-medium text-gray-900 hover:text-blue-600">
+                      {memory.title || 'Untitled memory'}
+                    </Link>
+                    <p className="text-sm text-gray-600 line-clamp-2">{memory.summary || memory.content}</p>
+                  </li>
+                ))}
+              </ol>
+            )}
+            {hasNextPage && (
+              <button
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                className="mt-6 px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {isFetchingNextPage ? 'Loading...' : 'Load more'}
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PersonDetail;
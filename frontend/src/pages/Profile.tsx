@@ -1,5 +1,5 @@
-import React, { useState } from 'react';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '../contexts/AuthContext';
 import { 
   UserIcon, 
@@ -7,11 +7,512 @@ import {
   CalendarIcon,
   KeyIcon,
   CogIcon,
-  ShieldCheckIcon
+  ShieldCheckIcon,
+  ArrowUpTrayIcon,
+  BellIcon
 } from '@heroicons/react/24/outline';
 import authService from '../services/authService';
+import memoryService from '../services/memoryService';
+import {
+  ChannelPreferencesUpdate,
+  DeliveryStatus,
+  DigestFrequency,
+  ExportFormat,
+  ImportFormat,
+  ImportResult,
+  NotificationChannel,
+  ResurfaceMuteTarget,
+  ResurfacingSettings,
+} from '../types';
 import toast from 'react-hot-toast';
 
+const EXPORT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: 'json', label: 'JSON' },
+  { value: 'csv', label: 'CSV (spreadsheets)' },
+  { value: 'markdown', label: 'Markdown journal' },
+  { value: 'zip', label: 'Everything, with media (ZIP)' },
+];
+
+const EXPORT_POLL_INTERVAL_MS = 3000;
+
+const IMPORT_OPTIONS: { value: ImportFormat | ''; label: string }[] = [
+  { value: '', label: 'Detect automatically' },
+  { value: 'dayone', label: 'Day One (JSON export)' },
+  { value: 'journey', label: 'Journey' },
+  { value: 'markdown', label: 'Markdown / Obsidian notes' },
+  { value: 'csv', label: 'CSV' },
+];
+
+// Errors listed in the preview; the rest are summarised as a count
+const IMPORT_ERRORS_SHOWN = 5;
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const DEFAULT_DIGEST_HOUR = 8;
+const DEFAULT_DIGEST_WEEKDAY = 1;
+const DELIVERY_POLL_INTERVAL_MS = 3000;
+
+const DELIVERY_STATUS_STYLES: Record<DeliveryStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  push: 'Push',
+  email: 'Email',
+  webhook: 'Webhook',
+};
+
+const pushSupported = () => 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+// PushManager.subscribe takes the VAPID key as raw bytes
+const decodeVapidKey = (key: string) => {
+  const base64 = (key + '='.repeat((4 - (key.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+const formatHour = (hour: number) =>
+  new Date(2000, 0, 1, hour).toLocaleTimeString('en-US', { hour: 'numeric' });
+
+// Push, email digest and webhook settings, with test sends and the recent delivery log
+const NotificationSettings: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [browserEndpoint, setBrowserEndpoint] = useState<string | null>(null);
+  const [isSubscribing, setIsSubscribing] = useState(false);
+
+  const { data: preferences } = useQuery({
+    queryKey: ['notification-preferences'],
+    queryFn: () => memoryService.getNotificationPreferences(),
+  });
+
+  const { data: vapidKey } = useQuery({
+    queryKey: ['vapid-public-key'],
+    queryFn: () => memoryService.getVapidPublicKey(),
+    staleTime: Infinity,
+  });
+
+  const { data: subscriptions = [] } = useQuery({
+    queryKey: ['push-subscriptions'],
+    queryFn: () => memoryService.getPushSubscriptions(),
+  });
+
+  const { data: deliveries = [] } = useQuery({
+    queryKey: ['notification-deliveries'],
+    queryFn: () => memoryService.getNotificationDeliveries(),
+    refetchInterval: (query) =>
+      query.state.data?.some(delivery => delivery.status === 'pending') ? DELIVERY_POLL_INTERVAL_MS : false,
+  });
+
+  useEffect(() => {
+    setWebhookUrl(preferences?.webhook?.url || '');
+  }, [preferences?.webhook?.url]);
+
+  // Which subscription, if any, belongs to this browser
+  useEffect(() => {
+    if (!pushSupported()) return;
+    navigator.serviceWorker.getRegistration('/sw.js')
+      .then(registration => registration?.pushManager.getSubscription())
+      .then(subscription => setBrowserEndpoint(subscription?.endpoint || null))
+      .catch(() => setBrowserEndpoint(null));
+  }, []);
+
+  const updateMutation = useMutation({
+    mutationFn: (changes: ChannelPreferencesUpdate) => memoryService.updateNotificationPreferences(changes),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['notification-preferences'], updated);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || error.response?.data?.error || error.message || 'Failed to update notifications');
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: (channel: NotificationChannel) => memoryService.sendTestNotification(channel),
+    onSuccess: () => {
+      toast.success('Test notification sent');
+      queryClient.invalidateQueries({ queryKey: ['notification-deliveries'] });
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || error.response?.data?.error || error.message || 'Failed to send test notification');
+    },
+  });
+
+  const subscribedHere = !!browserEndpoint && subscriptions.some(subscription => subscription.endpoint === browserEndpoint);
+
+  const handleEnablePush = async () => {
+    if (!vapidKey) return;
+    setIsSubscribing(true);
+    try {
+      if (await Notification.requestPermission() !== 'granted') {
+        throw new Error('Notifications are blocked for this site in your browser settings');
+      }
+      const registration = await navigator.serviceWorker.register('/sw.js');
+      await navigator.serviceWorker.ready;
+      const subscription = await registration.pushManager.getSubscription()
+        || await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: decodeVapidKey(vapidKey) });
+
+      await memoryService.savePushSubscription(subscription.toJSON());
+      setBrowserEndpoint(subscription.endpoint);
+      queryClient.invalidateQueries({ queryKey: ['push-subscriptions'] });
+      queryClient.invalidateQueries({ queryKey: ['notification-preferences'] });
+      toast.success('Push notifications enabled for this browser');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to enable push notifications');
+    } finally {
+      setIsSubscribing(false);
+    }
+  };
+
+  const handleDisablePush = async () => {
+    setIsSubscribing(true);
+    try {
+      const registration = await navigator.serviceWorker.getRegistration('/sw.js');
+      const subscription = await registration?.pushManager.getSubscription();
+      const stored = subscriptions.find(candidate => candidate.endpoint === subscription?.endpoint);
+
+      await subscription?.unsubscribe();
+      if (stored) {
+        await memoryService.deletePushSubscription(stored.id);
+      }
+      setBrowserEndpoint(null);
+      queryClient.invalidateQueries({ queryKey: ['push-subscriptions'] });
+      toast.success('Push notifications turned off for this browser');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to turn off push notifications');
+    } finally {
+      setIsSubscribing(false);
+    }
+  };
+
+  const email = preferences?.email;
+  const webhook = preferences?.webhook;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center space-x-2 mb-6">
+        <BellIcon className="h-5 w-5 text-gray-400" />
+        <h2 className="text-lg font-semibold text-gray-900">Notifications</h2>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">Where new nudges reach you outside the app.</p>
+
+      <div className="space-y-4">
+        {/* Push */}
+        <div className="p-4 border border-gray-200 rounded-lg space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                checked={!!preferences?.push?.enabled}
+                onChange={(e) => updateMutation.mutate({ push: { enabled: e.target.checked } })}
+                className="rounded border-gray-300 text-blue-600"
+              />
+              <span>
+                <span className="block font-medium text-gray-900">Browser push</span>
+                <span className="block text-sm text-gray-500">
+                  {subscriptions.length === 0
+                    ? 'No browsers subscribed'
+                    : `${subscriptions.length} ${subscriptions.length === 1 ? 'browser' : 'browsers'} subscribed`}
+                </span>
+              </span>
+            </label>
+            <div className="flex items-center space-x-3">
+              {!pushSupported() ? (
+                <span className="text-sm text-gray-400">Not supported in this browser</span>
+              ) : !vapidKey ? (
+                <span className="text-sm text-gray-400">Not configured on the server</span>
+              ) : subscribedHere ? (
+                <button
+                  onClick={handleDisablePush}
+                  disabled={isSubscribing}
+                  className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
+                >
+                  Turn off here
+                </button>
+              ) : (
+                <button
+                  onClick={handleEnablePush}
+                  disabled={isSubscribing}
+                  className="px-3 py-1 text-sm text-blue-600 hover:text-blue-500 disabled:opacity-50"
+                >
+                  {isSubscribing ? 'Enabling...' : 'Enable on this browser'}
+                </button>
+              )}
+              <button
+                onClick={() => testMutation.mutate('push')}
+                disabled={testMutation.isPending || subscriptions.length === 0}
+                className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
+              >
+                Test
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Email digest */}
+        <div className="p-4 border border-gray-200 rounded-lg space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                checked={!!email?.enabled}
+                onChange={(e) => updateMutation.mutate({ email: { enabled: e.target.checked } })}
+                className="rounded border-gray-300 text-blue-600"
+              />
+              <span>
+                <span className="block font-medium text-gray-900">Email digest</span>
+                <span className="block text-sm text-gray-500">A summary of new nudges, in your nudge time zone</span>
+              </span>
+            </label>
+            <button
+              onClick={() => testMutation.mutate('email')}
+              disabled={testMutation.isPending}
+              className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
+            >
+              Test
+            </button>
+          </div>
+          {email?.enabled && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <select
+                value={email.frequency || 'daily'}
+                onChange={(e) => updateMutation.mutate({ email: { frequency: e.target.value as DigestFrequency } })}
+                aria-label="Digest frequency"
+                className="text-sm border-gray-300 rounded-md"
+              >
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly</option>
+              </select>
+              {email.frequency === 'weekly' && (
+                <>
+                  <span className="text-gray-500">on</span>
+                  <select
+                    value={email.weekday ?? DEFAULT_DIGEST_WEEKDAY}
+                    onChange={(e) => updateMutation.mutate({ email: { weekday: Number(e.target.value) } })}
+                    aria-label="Digest weekday"
+                    className="text-sm border-gray-300 rounded-md"
+                  >
+                    {WEEKDAYS.map((day, index) => (
+                      <option key={day} value={index}>{day}</option>
+                    ))}
+                  </select>
+                </>
+              )}
+              <span className="text-gray-500">at</span>
+              <select
+                value={email.hour ?? DEFAULT_DIGEST_HOUR}
+                onChange={(e) => updateMutation.mutate({ email: { hour: Number(e.target.value) } })}
+                aria-label="Digest hour"
+                className="text-sm border-gray-300 rounded-md"
+              >
+                {HOURS.map(hour => (
+                  <option key={hour} value={hour}>{formatHour(hour)}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        {/* Webhook */}
+        <div className="p-4 border border-gray-200 rounded-lg space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                checked={!!webhook?.enabled}
+                disabled={!webhook?.url}
+                onChange={(e) => updateMutation.mutate({ webhook: { enabled: e.target.checked } })}
+                className="rounded border-gray-300 text-blue-600 disabled:opacity-50"
+              />
+              <span>
+                <span className="block font-medium text-gray-900">Webhook</span>
+                <span className="block text-sm text-gray-500">New nudges are POSTed as signed JSON</span>
+              </span>
+            </label>
+            <button
+              onClick={() => testMutation.mutate('webhook')}
+              disabled={testMutation.isPending || !webhook?.url}
+              className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
+            >
+              Test
+            </button>
+          </div>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              updateMutation.mutate({ webhook: { url: webhookUrl.trim(), enabled: true } });
+            }}
+            className="flex items-center gap-2"
+          >
+            <input
+              type="url"
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+              placeholder="https://example.com/hooks/memorynest"
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              required
+            />
+            <button
+              type="submit"
+              disabled={updateMutation.isPending || webhookUrl.trim() === (webhook?.url || '')}
+              className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save
+            </button>
+          </form>
+          {webhook?.secret && (
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-gray-500">
+                Signing secret <code className="ml-1 px-1 bg-gray-100 rounded text-gray-800 break-all">{webhook.secret}</code>
+              </span>
+              <button
+                onClick={() => updateMutation.mutate({ webhook: { rotateSecret: true } })}
+                disabled={updateMutation.isPending}
+                className="text-blue-600 hover:text-blue-500 disabled:opacity-50"
+              >
+                Rotate
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Delivery log */}
+        {deliveries.length > 0 && (
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Recent deliveries</h3>
+            <ul className="divide-y divide-gray-100 text-sm">
+              {deliveries.map(delivery => (
+                <li key={delivery.id} className="py-2 flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-gray-900">
+                      {CHANNEL_LABELS[delivery.channel]} {delivery.kind}
+                      <span className="ml-2 text-gray-400">
+                        {new Date(delivery.createdAt).toLocaleString()}
+                      </span>
+                    </p>
+                    {delivery.lastError && delivery.status !== 'sent' && (
+                      <p className="text-red-600 truncate" title={delivery.lastError}>{delivery.lastError}</p>
+                    )}
+                  </div>
+                  <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${DELIVERY_STATUS_STYLES[delivery.status]}`}>
+                    {delivery.status}
+                    {delivery.attempts > 1 && ` (${delivery.attempts} tries)`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// On this day: on/off, the daily memory nudge, and what's been muted
+const ResurfacingSettingsPanel: React.FC = () => {
+  const queryClient = useQueryClient();
+
+  const { data: settings } = useQuery({
+    queryKey: ['resurfacing-settings'],
+    queryFn: () => memoryService.getResurfacingSettings(),
+  });
+
+  const onUpdated = (updated: ResurfacingSettings) => {
+    queryClient.setQueryData(['resurfacing-settings'], updated);
+    queryClient.invalidateQueries({ queryKey: ['resurfaced-memories'] });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: (changes: { enabled?: boolean; nudge?: boolean }) => memoryService.updateResurfacingSettings(changes),
+    onSuccess: onUpdated,
+    onError: (error: any) => {
+      toast.error(error.response?.data?.message || error.message || 'Failed to update on this day');
+    },
+  });
+
+  const unmuteMutation = useMutation({
+    mutationFn: ({ target, id }: { target: ResurfaceMuteTarget; id: string }) =>
+      memoryService.setResurfacingMute(target, id, false),
+    onSuccess: onUpdated,
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to unmute');
+    },
+  });
+
+  if (!settings) {
+    return null;
+  }
+
+  const muted = [
+    ...settings.mutedPeople.map(person => ({ target: 'people' as const, id: person.id, label: person.name })),
+    ...settings.mutedMemories.map(memory => ({ target: 'memories' as const, id: memory.id, label: memory.title || 'Untitled memory' })),
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center space-x-2 mb-6">
+        <CalendarIcon className="h-5 w-5 text-gray-400" />
+        <h2 className="text-lg font-semibold text-gray-900">On This Day</h2>
+      </div>
+
+      <div className="space-y-3">
+        <label className="flex items-center space-x-3">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => updateMutation.mutate({ enabled: e.target.checked })}
+            className="rounded border-gray-300 text-blue-600"
+          />
+          <span className="text-sm text-gray-900">Bring back memories from this day in past years</span>
+        </label>
+        <label className="flex items-center space-x-3">
+          <input
+            type="checkbox"
+            checked={settings.nudge}
+            disabled={!settings.enabled}
+            onChange={(e) => updateMutation.mutate({ nudge: e.target.checked })}
+            className="rounded border-gray-300 text-blue-600"
+          />
+          <span className="text-sm text-gray-900">Send the day's memory as a nudge</span>
+        </label>
+      </div>
+
+      {muted.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Muted</h3>
+          <ul className="divide-y divide-gray-100 text-sm">
+            {muted.map(item => (
+              <li key={`${item.target}-${item.id}`} className="py-2 flex items-center justify-between">
+                <span className="text-gray-900">
+                  {item.label}
+                  <span className="ml-2 text-gray-400">{item.target === 'people' ? 'person' : 'memory'}</span>
+                </span>
+                <button
+                  onClick={() => unmuteMutation.mutate({ target: item.target, id: item.id })}
+                  disabled={unmuteMutation.isPending}
+                  className="px-3 py-1 text-sm text-blue-600 hover:text-blue-500 disabled:opacity-50"
+                >
+                  Unmute
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const saveFile = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 const Profile: React.FC = () => {
   const { user, updateProfile, logout } = useAuth();
   const queryClient = useQueryClient();
@@ -22,6 +523,12 @@ const Profile: React.FC = () => {
     name: user?.name || '',
     email: user?.email || '',
   });
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
+  const [isExporting, setIsExporting] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [importFiles, setImportFiles] = useState<File[]>([]);
+  const [importFormat, setImportFormat] = useState<ImportFormat | ''>('');
+  const [importPreview, setImportPreview] = useState<ImportResult | null>(null);
   const [passwordData, setPasswordData] = useState({
     currentPassword: '',
     newPassword: '',
@@ -54,6 +561,36 @@ const Profile: React.FC = () => {
     },
   });
 
+  // Imports are previewed with a dry run first, then run for real on confirmation
+  const importMutation = useMutation({
+    mutationFn: (dryRun: boolean) =>
+      memoryService.importMemories(importFiles, { ...(importFormat && { format: importFormat }), dryRun }),
+    onSuccess: (result) => {
+      if (result.dryRun) {
+        setImportPreview(result);
+        return;
+      }
+      closeImportModal();
+      queryClient.invalidateQueries({ queryKey: ['memories'] });
+      queryClient.invalidateQueries({ queryKey: ['people'] });
+      if (result.errors.length > 0) {
+        toast(`Imported ${result.imported} memories; ${result.errors.length} entries were skipped`);
+      } else {
+        toast.success(`Imported ${result.imported} memories`);
+      }
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to import memories');
+    },
+  });
+
+  const closeImportModal = () => {
+    setShowImportModal(false);
+    setImportFiles([]);
+    setImportFormat('');
+    setImportPreview(null);
+  };
+
   const handleProfileSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     updateProfileMutation.mutate(formData);
@@ -67,8 +604,8 @@ const Profile: React.FC = () => {
       return;
     }
     
-    if (passwordData.newPassword.length < 6) {
-      toast.error('Password must be at least 6 characters long');
+    if (passwordData.newPassword.length < 8) {
+      toast.error('Password must be at least 8 characters long');
       return;
     }
     
@@ -78,6 +615,37 @@ const Profile: React.FC = () => {
     });
   };
 
+  // Large accounts are exported in the background, so wait for the file before saving it
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const result = await memoryService.exportMemories(exportFormat);
+
+      if ('file' in result) {
+        saveFile(result.file, result.filename);
+        return;
+      }
+
+      toast('Preparing your export. This can take a few minutes.');
+      let status = result.pending;
+      while (status.status === 'pending' || status.status === 'processing') {
+        await new Promise(resolve => setTimeout(resolve, EXPORT_POLL_INTERVAL_MS));
+        status = await memoryService.getExportStatus(status.id);
+      }
+
+      if (status.status === 'failed') {
+        throw new Error(status.error || 'Export failed');
+      }
+
+      const download = await memoryService.downloadExport(status);
+      saveFile(download.file, download.filename);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to export your data');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleLogout = async () => {
     try {
       await logout();
@@ -222,6 +790,10 @@ const Profile: React.FC = () => {
               </div>
             </div>
           </div>
+
+          <NotificationSettings />
+
+          <ResurfacingSettingsPanel />
         </div>
 
         {/* Sidebar */}
@@ -238,14 +810,36 @@ const Profile: React.FC = () => {
                 Change Password
               </button>
               
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={handleExport}
+                  disabled={isExporting}
+                  className="flex-1 flex items-center px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 rounded-md transition-colors disabled:opacity-50"
+                >
+                  <CogIcon className="h-4 w-4 mr-3" />
+                  {isExporting ? 'Exporting...' : 'Export Data'}
+                </button>
+                <select
+                  value={exportFormat}
+                  onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                  disabled={isExporting}
+                  aria-label="Export format"
+                  className="text-sm border-gray-300 rounded-md"
+                >
+                  {EXPORT_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              
               <button
-                onClick={() => window.open('/api/memories/export?format=json', '_blank')}
+                onClick={() => setShowImportModal(true)}
                 className="w-full flex items-center px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 rounded-md transition-colors"
               >
-                <CogIcon className="h-4 w-4 mr-3" />
-                Export Data
+                <ArrowUpTrayIcon className="h-4 w-4 mr-3" />
+                Import Memories
               </button>
-              
+
               <button
                 onClick={handleLogout}
                 className="w-full flex items-center px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-md transition-colors"
@@ -339,6 +933,114 @@ const Profile: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Import Modal */}
+      {showImportModal && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-lg">
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">Import Memories</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Bring in entries from Day One, Journey, Markdown notes or a CSV file. Upload the files, or the zip archive the app exported.
+            </p>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Files
+                </label>
+                <input
+                  type="file"
+                  multiple
+                  accept=".zip,.json,.csv,.md,.markdown,.txt"
+                  onChange={(e) => {
+                    setImportFiles(Array.from(e.target.files || []));
+                    setImportPreview(null);
+                  }}
+                  className="w-full text-sm text-gray-700"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Format
+                </label>
+                <select
+                  value={importFormat}
+                  onChange={(e) => {
+                    setImportFormat(e.target.value as ImportFormat | '');
+                    setImportPreview(null);
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {IMPORT_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {importPreview && (
+                <div className="border border-gray-200 rounded-md p-3 space-y-3 text-sm">
+                  <p className="text-gray-900">
+                    <span className="font-medium">{importPreview.imported}</span> new memories
+                    {importPreview.duplicates > 0 && `, ${importPreview.duplicates} already in your journal`}
+                  </p>
+
+                  {importPreview.newPeople.length > 0 && (
+                    <p className="text-gray-600">New people: {importPreview.newPeople.join(', ')}</p>
+                  )}
+
+                  {importPreview.errors.length > 0 && (
+                    <div className="text-red-600">
+                      <p className="font-medium">{importPreview.errors.length} entries will be skipped:</p>
+                      <ul className="list-disc list-inside">
+                        {importPreview.errors.slice(0, IMPORT_ERRORS_SHOWN).map(error => (
+                          <li key={error} className="truncate">{error}</li>
+                        ))}
+                      </ul>
+                      {importPreview.errors.length > IMPORT_ERRORS_SHOWN && (
+                        <p>and {importPreview.errors.length - IMPORT_ERRORS_SHOWN} more</p>
+                      )}
+                    </div>
+                  )}
+
+                  {importPreview.preview && importPreview.preview.length > 0 && (
+                    <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100">
+                      {importPreview.preview.map(item => (
+                        <li key={item.source} className="py-1 flex justify-between gap-2">
+                          <span className={`truncate ${item.duplicate ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                            {item.title}
+                          </span>
+                          <span className="text-gray-500 whitespace-nowrap">{formatDate(item.createdAt)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              <div className="flex space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={closeImportModal}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={() => importMutation.mutate(!importPreview)}
+                  disabled={importFiles.length === 0 || importMutation.isPending || importPreview?.imported === 0}
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                >
+                  {importMutation.isPending
+                    ? 'Working...'
+                    : importPreview ? `Import ${importPreview.imported} memories` : 'Preview'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,15 +1,28 @@
-import axios, { AxiosInstance, AxiosResponse, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosResponse, AxiosError, InternalAxiosRequestConfig } from 'axios';
 import toast from 'react-hot-toast';
 
-const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5001/api';
+export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5001/api';
+
+// Media links come back as signed /api/media paths on the API's origin, which
+// <img> and <audio> can load directly without the auth header
+export const mediaUrl = (path: string): string =>
+  new URL(path, new URL(API_BASE_URL, window.location.origin)).toString();
+
+type RetryableRequestConfig = InternalAxiosRequestConfig & { _retried?: boolean };
+
+// Auth requests a refreshed access token can't help
+const NO_REFRESH_URLS = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/logout'];
 
 class ApiService {
   private api: AxiosInstance;
+  private refreshPromise: Promise<string> | null = null;
 
   constructor() {
     this.api = axios.create({
       baseURL: API_BASE_URL,
       timeout: 30000,
+      // Sends the httpOnly refresh token cookie to /auth routes
+      withCredentials: true,
       headers: {
         'Content-Type': 'application/json',
       },
@@ -38,13 +51,56 @@ class ApiService {
       (response: AxiosResponse) => {
         return response;
       },
-      (error: AxiosError) => {
-        this.handleApiError(error);
+      async (error: AxiosError) => {
+        const original = error.config as RetryableRequestConfig | undefined;
+
+        // Access tokens are short-lived: refresh once and replay the request
+        if (
+          error.response?.status === 401 &&
+          original &&
+          !original._retried &&
+          !NO_REFRESH_URLS.includes(original.url || '')
+        ) {
+          original._retried = true;
+          try {
+            const token = await this.refreshAccessToken();
+            original.headers.Authorization = `Bearer ${token}`;
+            return this.api(original);
+          } catch (refreshError) {
+            localStorage.removeItem('token');
+          }
+        }
+
+        // A failed refresh is reported by the request that needed it
+        if (original?.url !== '/auth/refresh') {
+          this.handleApiError(error);
+        }
         return Promise.reject(error);
       }
     );
   }
 
+  // Concurrent 401s share a single refresh request. Public for requests made
+  // outside axios, such as streamed responses read with fetch.
+  refreshAccessToken(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.api
+        .post<{ success: boolean; data?: { token: string } }>('/auth/refresh')
+        .then((response) => {
+          const token = response.data.data?.token;
+          if (!token) {
+            throw new Error('Failed to refresh token');
+          }
+          localStorage.setItem('token', token);
+          return token;
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
+  }
+
   private handleApiError(error: AxiosError) {
     if (error.response) {
       const { status, data } = error.response;
@@ -112,10 +168,23 @@ class ApiService {
     return response.data;
   }
 
+  // Binary download; the status tells a file (200) from an accepted background job (202)
+  async getBlob(url: string, params?: any): Promise<{ status: number; data: Blob }> {
+    const response = await this.api.get<Blob>(url, { params, responseType: 'blob', timeout: 0 });
+    return { status: response.status, data: response.data };
+  }
+
   // File upload method
-  async upload<T>(url: string, file: File, onProgress?: (progress: number) => void): Promise<T> {
+  async upload<T>(
+    url: string,
+    files: File | File[],
+    onProgress?: (progress: number) => void,
+    fieldName: string = 'file',
+    fields: Record<string, string> = {}
+  ): Promise<T> {
     const formData = new FormData();
-    formData.append('file', file);
+    (Array.isArray(files) ? files : [files]).forEach((file) => formData.append(fieldName, file));
+    Object.entries(fields).forEach(([name, value]) => formData.append(name, value));
 
     const response = await this.api.post<T>(url, formData, {
       headers: {
@@ -0,0 +1,109 @@
+import apiService, { API_BASE_URL } from './api';
+import { ApiResponse, AskCitation, AskRequest, AskResponse } from '../types';
+
+export interface AskStreamHandlers {
+  onCitations: (citations: AskCitation[]) => void;
+  onToken: (text: string) => void;
+  onDone: (result: Pick<AskResponse, 'answer' | 'citedMemoryIds'>) => void;
+}
+
+// One parsed server-sent event
+interface StreamEvent {
+  event: string;
+  data: any;
+}
+
+const parseEvent = (block: string): StreamEvent | null => {
+  let event = 'message';
+  const data: string[] = [];
+
+  block.split('\n').forEach((line) => {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).trim());
+    }
+  });
+
+  return data.length > 0 ? { event, data: JSON.parse(data.join('\n')) } : null;
+};
+
+class AskService {
+  // EventSource can't POST or send an Authorization header, so read the
+  // event stream from fetch instead
+  private async openStream(request: AskRequest, signal?: AbortSignal, retried = false): Promise<Response> {
+    const response = await fetch(`${API_BASE_URL}/ai/ask`, {
+      method: 'POST',
+      credentials: 'include',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+        Authorization: `Bearer ${localStorage.getItem('token') || ''}`,
+      },
+      body: JSON.stringify(request),
+      signal,
+    });
+
+    if (response.status === 401 && !retried) {
+      await apiService.refreshAccessToken();
+      return this.openStream(request, signal, true);
+    }
+
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error || 'Failed to ask your memories');
+    }
+
+    return response;
+  }
+
+  async askStream(request: AskRequest, handlers: AskStreamHandlers, signal?: AbortSignal): Promise<void> {
+    const response = await this.openStream(request, signal);
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split('\n\n');
+      buffer = blocks.pop() || '';
+
+      for (const block of blocks) {
+        const parsed = parseEvent(block);
+        if (!parsed) continue;
+
+        switch (parsed.event) {
+          case 'citations':
+            handlers.onCitations(parsed.data.citations);
+            break;
+          case 'token':
+            handlers.onToken(parsed.data.text);
+            break;
+          case 'done':
+            handlers.onDone(parsed.data);
+            break;
+          case 'error':
+            throw new Error(parsed.data.error || 'Failed to answer question');
+        }
+      }
+    }
+  }
+
+  async ask(request: AskRequest): Promise<AskResponse> {
+    const response = await apiService.post<ApiResponse<AskResponse>>('/ai/ask', request);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to ask your memories');
+    }
+
+    return response.data;
+  }
+}
+
+export const askService = new AskService();
+export default askService;
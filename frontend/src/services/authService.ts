@@ -64,7 +64,7 @@ class AuthService {
   }
 
   async changePassword(currentPassword: string, newPassword: string): Promise<void> {
-    const response = await apiService.put<ApiResponse<void>>('/auth/password', {
+    const response = await apiService.put<ApiResponse<{ token: string }>>('/auth/password', {
       currentPassword,
       newPassword,
     });
@@ -72,6 +72,11 @@ class AuthService {
     if (!response.success) {
       throw new Error(response.error || 'Failed to change password');
     }
+
+    // Other sessions are revoked server-side; keep this one with the reissued token
+    if (response.data?.token) {
+      this.setToken(response.data.token);
+    }
   }
 
   async forgotPassword(email: string): Promise<void> {
@@ -105,6 +110,16 @@ class AuthService {
     return response.data;
   }
 
+  // Trade the refresh cookie for a new access token; false without a session
+  async restoreToken(): Promise<boolean> {
+    try {
+      await apiService.refreshAccessToken();
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
   isAuthenticated(): boolean {
     const token = localStorage.getItem('token');
     return !!token;
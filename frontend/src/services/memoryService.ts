@@ -1,20 +1,47 @@
 import apiService from './api';
 import { 
   Memory, 
+  MemoryEnrichment,
+  PersonSuggestion,
+  PersonSuggestionDecision,
+  AttachmentUploadResponse,
   CreateMemoryRequest, 
   UpdateMemoryRequest, 
+  QueryFilters,
   QueryRequest, 
   QueryResponse,
+  HybridSearchResponse,
   SummarizeRequest,
   SummarizeResponse,
   PaginatedResponse,
   ApiResponse,
   Person,
+  PersonInsights,
+  PeopleGraph,
+  PersonMerge,
+  MemoryPage,
+  DuplicatePeopleSuggestion,
   CreatePersonRequest,
   UpdatePersonRequest,
   Nudge,
+  NudgeStatus,
+  NudgeType,
   CreateNudgeRequest,
-  DashboardStats
+  ChannelPreferences,
+  ChannelPreferencesUpdate,
+  NotificationChannel,
+  NotificationDelivery,
+  PushSubscriptionInfo,
+  ResurfaceMuteTarget,
+  ResurfaceResult,
+  ResurfacingSettings,
+  DashboardStats,
+  ExportEntity,
+  ExportFormat,
+  ExportResult,
+  ExportStatus,
+  ImportOptions,
+  ImportResult
 } from '../types';
 
 class MemoryService {
@@ -57,6 +84,33 @@ class MemoryService {
     return response.data;
   }
 
+  async getMemoryEnrichment(id: string): Promise<MemoryEnrichment> {
+    const response = await apiService.get<ApiResponse<MemoryEnrichment>>(`/memories/${id}/enrichment`);
+    
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch enrichment status');
+    }
+    
+    return response.data;
+  }
+
+  // Link suggested names to people (creating them when no personId is given) or dismiss them
+  async resolvePersonSuggestions(
+    id: string,
+    decision: PersonSuggestionDecision
+  ): Promise<{ people: string[]; personSuggestions: PersonSuggestion[] }> {
+    const response = await apiService.post<ApiResponse<{ people: string[]; personSuggestions: PersonSuggestion[] }>>(
+      `/memories/${id}/person-suggestions`,
+      decision
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to update person suggestions');
+    }
+
+    return response.data;
+  }
+
   async updateMemory(id: string, data: UpdateMemoryRequest): Promise<Memory> {
     const response = await apiService.put<ApiResponse<Memory>>(`/memories/${id}`, data);
     
@@ -67,6 +121,26 @@ class MemoryService {
     return response.data;
   }
 
+  // Attach photos, audio clips or other files to a saved memory
+  async addAttachments(
+    memoryId: string,
+    files: File[],
+    onProgress?: (progress: number) => void
+  ): Promise<AttachmentUploadResponse> {
+    const response = await apiService.upload<ApiResponse<AttachmentUploadResponse>>(
+      `/memories/${memoryId}/attachments`,
+      files,
+      onProgress,
+      'files'
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to upload attachments');
+    }
+
+    return response.data;
+  }
+
   async deleteMemory(id: string): Promise<void> {
     const response = await apiService.delete<ApiResponse<void>>(`/memories/${id}`);
     
@@ -75,16 +149,8 @@ class MemoryService {
     }
   }
 
-  async searchMemories(query: string, filters?: {
-    people?: string[];
-    date_range?: {
-      start: string;
-      end: string;
-    };
-    mood?: string;
-    emotions?: string[];
-  }): Promise<QueryResponse> {
-    const request: QueryRequest = { query, filters };
+  async searchMemories(query: string, filters?: QueryFilters, limit?: number): Promise<QueryResponse> {
+    const request: QueryRequest = { query, filters, limit };
     const response = await apiService.post<ApiResponse<QueryResponse>>('/ai/query', request);
     
     if (!response.success || !response.data) {
@@ -94,6 +160,25 @@ class MemoryService {
     return response.data;
   }
 
+  // Keyword and semantic search combined; dates are ISO strings
+  async hybridSearch(params: {
+    q: string;
+    limit?: number;
+    tags?: string[];
+    people?: string[];
+    emotions?: string[];
+    from?: string;
+    to?: string;
+  }): Promise<HybridSearchResponse> {
+    const response = await apiService.get<ApiResponse<HybridSearchResponse>>('/memories/search', params);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to search memories');
+    }
+
+    return response.data;
+  }
+
   async summarizeMemory(content: string): Promise<SummarizeResponse> {
     const request: SummarizeRequest = { content };
     const response = await apiService.post<ApiResponse<SummarizeResponse>>('/ai/summarize', request);
@@ -105,13 +190,15 @@ class MemoryService {
     return response.data;
   }
 
+  // Oldest first unless order is 'desc'
   async getMemoriesByPerson(personId: string, params?: {
     page?: number;
     limit?: number;
     date_from?: string;
     date_to?: string;
-  }): Promise<PaginatedResponse<Memory>> {
-    const response = await apiService.get<ApiResponse<PaginatedResponse<Memory>>>(
+    order?: 'asc' | 'desc';
+  }): Promise<MemoryPage> {
+    const response = await apiService.get<ApiResponse<MemoryPage>>(
       `/memories/person/${personId}`, 
       params
     );
@@ -215,8 +302,86 @@ class MemoryService {
     }
   }
 
-  async getNudges(): Promise<Nudge[]> {
-    const response = await apiService.get<ApiResponse<Nudge[]>>('/nudges');
+  async getPersonInsights(id: string): Promise<PersonInsights> {
+    const response = await apiService.get<ApiResponse<PersonInsights>>(`/people/${id}/insights`);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch person insights');
+    }
+
+    return response.data;
+  }
+
+  async getPeopleGraph(): Promise<PeopleGraph> {
+    const response = await apiService.get<ApiResponse<PeopleGraph>>('/people/graph');
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch people graph');
+    }
+
+    return response.data;
+  }
+
+  // Memories two people appear in together, newest first
+  async getSharedMemories(personId: string, otherId: string): Promise<Memory[]> {
+    const response = await apiService.get<ApiResponse<Memory[]>>(`/people/${personId}/shared/${otherId}`);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch shared memories');
+    }
+
+    return response.data;
+  }
+
+  async getDuplicatePeople(): Promise<DuplicatePeopleSuggestion[]> {
+    const response = await apiService.get<ApiResponse<DuplicatePeopleSuggestion[]>>('/people/duplicates');
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch duplicate suggestions');
+    }
+
+    return response.data;
+  }
+
+  // Merge people into the target, which takes their names as aliases
+  async mergePeople(targetId: string, personIds: string[]): Promise<{ person: Person; merge: PersonMerge }> {
+    const response = await apiService.post<ApiResponse<{ person: Person; merge: PersonMerge }>>(
+      `/people/${targetId}/merge`,
+      { personIds }
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to merge people');
+    }
+
+    return response.data;
+  }
+
+  async getPersonMerges(): Promise<PersonMerge[]> {
+    const response = await apiService.get<ApiResponse<PersonMerge[]>>('/people/merges');
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch merges');
+    }
+
+    return response.data;
+  }
+
+  async undoPersonMerge(mergeId: string): Promise<Person[]> {
+    const response = await apiService.post<ApiResponse<{ people: Person[]; merge: PersonMerge }>>(
+      `/people/merges/${mergeId}/undo`
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to undo merge');
+    }
+
+    return response.data.people;
+  }
+
+  // Active nudges unless another status, or 'all', is asked for
+  async getNudges(status: NudgeStatus | 'all' = 'active'): Promise<Nudge[]> {
+    const response = await apiService.get<ApiResponse<Nudge[]>>('/nudges', { status });
     
     if (!response.success || !response.data) {
       throw new Error(response.error || 'Failed to fetch nudges');
@@ -236,14 +401,61 @@ class MemoryService {
   }
 
   async markNudgeAsRead(nudgeId: string): Promise<void> {
-    const response = await apiService.patch<ApiResponse<void>>(`/nudges/${nudgeId}/read`);
+    const response = await apiService.patch<ApiResponse<Nudge>>(`/nudges/${nudgeId}/read`);
     
     if (!response.success) {
       throw new Error(response.error || 'Failed to mark nudge as read');
     }
   }
 
-  async generateNudge(type: 'silence' | 'emotional_gap' | 'reconnect' | 'milestone'): Promise<Nudge> {
+  async markNudgeAsUnread(nudgeId: string): Promise<void> {
+    const response = await apiService.patch<ApiResponse<Nudge>>(`/nudges/${nudgeId}/unread`);
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to mark nudge as unread');
+    }
+  }
+
+  // The user did what the nudge suggested
+  async actOnNudge(nudgeId: string): Promise<Nudge> {
+    const response = await apiService.patch<ApiResponse<Nudge>>(`/nudges/${nudgeId}/action`);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to update nudge');
+    }
+
+    return response.data;
+  }
+
+  async snoozeNudge(nudgeId: string, hours: number): Promise<Nudge> {
+    const response = await apiService.patch<ApiResponse<Nudge>>(`/nudges/${nudgeId}/snooze`, { hours });
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to snooze nudge');
+    }
+
+    return response.data;
+  }
+
+  async dismissNudge(nudgeId: string): Promise<Nudge> {
+    const response = await apiService.patch<ApiResponse<Nudge>>(`/nudges/${nudgeId}/dismiss`);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to dismiss nudge');
+    }
+
+    return response.data;
+  }
+
+  async deleteNudge(nudgeId: string): Promise<void> {
+    const response = await apiService.delete<ApiResponse<void>>(`/nudges/${nudgeId}`);
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to delete nudge');
+    }
+  }
+
+  async generateNudge(type: NudgeType): Promise<Nudge> {
     const response = await apiService.post<ApiResponse<Nudge>>('/ai/nudges', { type });
     
     if (!response.success || !response.data) {
@@ -253,18 +465,177 @@ class MemoryService {
     return response.data;
   }
 
-  async exportMemories(format: 'json' | 'csv' = 'json'): Promise<Blob> {
-    const response = await apiService.get(`/memories/export`, { format }, {
-      responseType: 'blob',
-    });
-    
-    return response;
+  // Today's "on this day" picks
+  async getResurfacedMemories(): Promise<ResurfaceResult> {
+    const response = await apiService.get<ApiResponse<ResurfaceResult>>('/memories/resurface');
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch resurfaced memories');
+    }
+
+    return response.data;
+  }
+
+  async getResurfacingSettings(): Promise<ResurfacingSettings> {
+    const response = await apiService.get<ApiResponse<ResurfacingSettings>>('/memories/resurface/settings');
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch resurfacing settings');
+    }
+
+    return response.data;
+  }
+
+  async updateResurfacingSettings(changes: { enabled?: boolean; nudge?: boolean }): Promise<ResurfacingSettings> {
+    const response = await apiService.put<ApiResponse<ResurfacingSettings>>('/memories/resurface/settings', changes);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to update resurfacing settings');
+    }
+
+    return response.data;
+  }
+
+  // Keep a memory, or every memory mentioning a person, from resurfacing
+  async setResurfacingMute(target: ResurfaceMuteTarget, id: string, muted: boolean): Promise<ResurfacingSettings> {
+    const url = `/memories/resurface/mutes/${target}/${id}`;
+    const response = muted
+      ? await apiService.put<ApiResponse<ResurfacingSettings>>(url)
+      : await apiService.delete<ApiResponse<ResurfacingSettings>>(url);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to update resurfacing mutes');
+    }
+
+    return response.data;
   }
 
-  async importMemories(file: File): Promise<{ imported: number; errors: string[] }> {
-    const response = await apiService.upload<ApiResponse<{ imported: number; errors: string[] }>>(
+  // Null when the server has no VAPID keys and push is unavailable
+  async getVapidPublicKey(): Promise<string | null> {
+    const response = await apiService.get<ApiResponse<{ publicKey: string | null }>>('/notifications/vapid-public-key');
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch push configuration');
+    }
+
+    return response.data.publicKey;
+  }
+
+  async getPushSubscriptions(): Promise<PushSubscriptionInfo[]> {
+    const response = await apiService.get<ApiResponse<PushSubscriptionInfo[]>>('/notifications/push-subscriptions');
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch push subscriptions');
+    }
+
+    return response.data;
+  }
+
+  async savePushSubscription(subscription: PushSubscriptionJSON): Promise<PushSubscriptionInfo> {
+    const response = await apiService.post<ApiResponse<PushSubscriptionInfo>>('/notifications/push-subscriptions', subscription);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to enable push notifications');
+    }
+
+    return response.data;
+  }
+
+  async deletePushSubscription(id: string): Promise<void> {
+    const response = await apiService.delete<ApiResponse<void>>(`/notifications/push-subscriptions/${id}`);
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to remove push subscription');
+    }
+  }
+
+  async getNotificationPreferences(): Promise<ChannelPreferences> {
+    const response = await apiService.get<ApiResponse<ChannelPreferences>>('/notifications/preferences');
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch notification preferences');
+    }
+
+    return response.data;
+  }
+
+  async updateNotificationPreferences(changes: ChannelPreferencesUpdate): Promise<ChannelPreferences> {
+    const response = await apiService.put<ApiResponse<ChannelPreferences>>('/notifications/preferences', changes);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to update notification preferences');
+    }
+
+    return response.data;
+  }
+
+  async sendTestNotification(channel: NotificationChannel): Promise<void> {
+    const response = await apiService.post<ApiResponse<NotificationDelivery[]>>('/notifications/test', { channel });
+
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to send test notification');
+    }
+  }
+
+  async getNotificationDeliveries(limit = 10): Promise<NotificationDelivery[]> {
+    const response = await apiService.get<ApiResponse<NotificationDelivery[]>>('/notifications/deliveries', { limit });
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch delivery log');
+    }
+
+    return response.data;
+  }
+
+  async exportMemories(format: ExportFormat = 'json', entity?: ExportEntity): Promise<ExportResult> {
+    const response = await apiService.getBlob('/memories/export', { format, entity });
+
+    if (response.status === 202) {
+      const body: ApiResponse<ExportStatus> = JSON.parse(await response.data.text());
+      if (!body.success || !body.data) {
+        throw new Error(body.error || 'Failed to start export');
+      }
+      return { pending: body.data };
+    }
+
+    return { file: response.data, filename: this.exportFilename(format, entity) };
+  }
+
+  private exportFilename(format: ExportFormat, entity?: ExportEntity): string {
+    const date = new Date().toISOString().slice(0, 10);
+    const extension = format === 'json' ? 'json' : format === 'csv' && entity ? 'csv' : 'zip';
+    return `memorynest-${entity || 'export'}-${date}.${extension}`;
+  }
+
+  async getExportStatus(exportId: string): Promise<ExportStatus> {
+    const response = await apiService.get<ApiResponse<ExportStatus>>(`/memories/export/${exportId}`);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to get export status');
+    }
+
+    return response.data;
+  }
+
+  async downloadExport(status: ExportStatus): Promise<{ file: Blob; filename: string }> {
+    const response = await apiService.getBlob(`/memories/export/${status.id}/download`);
+    return { file: response.data, filename: this.exportFilename(status.format, status.entity) };
+  }
+
+  // Files can be JSON, CSV or Markdown, or zip archives of them. Use dryRun
+  // to preview the result without saving anything.
+  async importMemories(files: File[], options: ImportOptions = {}): Promise<ImportResult> {
+    const fields: Record<string, string> = {};
+    if (options.format) fields.format = options.format;
+    if (options.dryRun) fields.dryRun = 'true';
+    if (options.mapping) fields.mapping = JSON.stringify(options.mapping);
+
+    const response = await apiService.upload<ApiResponse<ImportResult>>(
       '/memories/import',
-      file
+      files,
+      undefined,
+      'files',
+      fields
     );
     
     if (!response.success || !response.data) {
@@ -1,4 +1,14 @@
-import { TranscriptionResult } from '../types';
+import apiService from './api';
+import { ApiResponse, ServerTranscription, TranscriptionResult } from '../types';
+
+// Recording formats the server can transcribe, in order of preference
+const RECORDING_MIME_TYPES = ['audio/webm', 'audio/ogg', 'audio/mp4'];
+
+const RECORDING_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+};
 
 class VoiceService {
   private recognition: SpeechRecognition | null = null;
@@ -8,6 +18,8 @@ class VoiceService {
   private onErrorCallback: ((error: string) => void) | null = null;
   private onStartCallback: (() => void) | null = null;
   private onEndCallback: (() => void) | null = null;
+  private recorder: MediaRecorder | null = null;
+  private recordedChunks: Blob[] = [];
 
   constructor() {
     this.initializeSpeechRecognition();
@@ -190,6 +202,74 @@ class VoiceService {
     return !!(this.recognition || this.synthesis);
   }
 
+  isRecognitionSupported(): boolean {
+    return !!this.recognition;
+  }
+
+  isRecordingSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+  }
+
+  // Record raw audio for server-side transcription, for browsers without
+  // speech recognition
+  async startRecording(): Promise<boolean> {
+    if (!this.isRecordingSupported() || this.recorder) {
+      return false;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mimeType = RECORDING_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+
+      this.recordedChunks = [];
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) {
+          this.recordedChunks.push(event.data);
+        }
+      };
+      recorder.start();
+      this.recorder = recorder;
+      return true;
+    } catch (error) {
+      console.error('Failed to start recording:', error);
+      return false;
+    }
+  }
+
+  // Resolves with the recording once the recorder has flushed its last chunk
+  stopRecording(): Promise<Blob | null> {
+    const recorder = this.recorder;
+    if (!recorder) {
+      return Promise.resolve(null);
+    }
+
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        recorder.stream.getTracks().forEach((track) => track.stop());
+        this.recorder = null;
+        resolve(this.recordedChunks.length > 0
+          ? new Blob(this.recordedChunks, { type: recorder.mimeType })
+          : null);
+      };
+      recorder.stop();
+    });
+  }
+
+  async transcribeRecording(recording: Blob): Promise<ServerTranscription> {
+    const mimeType = recording.type.split(';')[0] || 'audio/webm';
+    const file = new File([recording], `recording.${RECORDING_EXTENSIONS[mimeType] || 'webm'}`, {
+      type: mimeType,
+    });
+    const response = await apiService.upload<ApiResponse<ServerTranscription>>('/ai/transcribe', file);
+
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to transcribe recording');
+    }
+
+    return response.data;
+  }
+
   requestMicrophonePermission(): Promise<boolean> {
     return new Promise((resolve) => {
       if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
@@ -8,16 +8,26 @@ export interface User {
 }
 
 // Memory types
+export interface Emotion {
+  primary: string;
+  secondary?: string[];
+  intensity: number;
+  valence: 'positive' | 'negative' | 'neutral';
+}
+
 export interface Memory {
   id: string;
   userId?: string;
   user_id?: string;
+  title?: string;
   content: string;
   summary: string;
   mood: string | number;
-  emotions: string[];
+  emotions?: Emotion;
   people?: string[];
   people_mentioned?: string[];
+  // Names enrichment found that match none of the user's people for sure
+  personSuggestions?: PersonSuggestion[];
   location?: string;
   weather?: string;
   tags: string[];
@@ -28,17 +38,85 @@ export interface Memory {
   embedding_id?: string;
   embedding?: number[];
   isPrivate?: boolean;
+  enrichmentStatus?: EnrichmentStatus;
+  audioUrl?: string;
+  imageUrl?: string;
+  // Only included when a single memory is fetched
+  attachments?: Attachment[];
+}
+
+export type AttachmentKind = 'audio' | 'image' | 'file';
+
+// A file attached to a memory; URLs are short-lived signed API paths, so
+// refetch the memory rather than keeping them around
+export interface Attachment {
+  id: string;
+  memoryId: string;
+  kind: AttachmentKind;
+  filename: string;
+  contentType: string;
+  size: number;
+  width?: number;
+  height?: number;
+  capturedAt?: string;
+  latitude?: number;
+  longitude?: number;
+  // AI description of a photo, added once the memory has been enriched
+  caption?: string;
+  tags?: string[];
+  url: string;
+  thumbnailUrl?: string;
+  previewUrl?: string;
+  createdAt: string;
+}
+
+// Date and location read from uploaded photos, for the user to apply
+export interface AttachmentSuggestions {
+  createdAt?: string;
+  location?: string;
+}
+
+export interface AttachmentUploadResponse {
+  attachments: Attachment[];
+  suggestions: AttachmentSuggestions;
+}
+
+export type EnrichmentStatus = 'pending' | 'processing' | 'done' | 'failed';
+
+export interface MemoryEnrichment {
+  memoryId: string;
+  status: EnrichmentStatus;
+  error?: string;
+  summary?: string;
+  emotions?: Emotion;
+  tags?: string[];
+  mood?: number;
+  people?: string[];
+  personSuggestions?: PersonSuggestion[];
+}
+
+// A name mentioned in a memory with the people it might be; no candidates
+// means it looks like someone new
+export interface PersonSuggestion {
+  name: string;
+  candidates: Array<{ id: string; name: string }>;
+}
+
+export interface PersonSuggestionDecision {
+  accept?: Array<{ name: string; personId?: string }>;
+  dismiss?: string[];
 }
 
 export interface CreateMemoryRequest {
   content: string;
-  people_mentioned?: string[];
+  people?: string[];
   location?: string;
   weather?: string;
   tags?: string[];
 }
 
 export interface UpdateMemoryRequest {
+  createdAt?: string;
   content?: string;
   summary?: string;
   mood?: string;
@@ -54,6 +132,8 @@ export interface Person {
   id: string;
   user_id: string;
   name: string;
+  // Other names mentions of this person resolve from
+  aliases?: string[];
   relationship: string;
   avatar_url?: string;
   notes?: string;
@@ -61,8 +141,70 @@ export interface Person {
   updated_at: string;
 }
 
+// Two people who are probably the same, with why
+export interface DuplicatePeopleSuggestion {
+  people: [Person, Person];
+  score: number;
+  reasons: string[];
+}
+
+// A merge of people into one, which can be undone until undoneAt is set
+export interface PersonMerge {
+  id: string;
+  targetId: string;
+  addedAliases: string[];
+  sources: Person[];
+  createdAt: string;
+  undoneAt?: string;
+}
+
+// What the memories mentioning a person say about the relationship
+export interface PersonInsights {
+  person: Person;
+  memoryCount: number;
+  averageMood?: number;
+  mostFrequentEmotion?: string;
+  firstInteraction?: string;
+  lastInteraction?: string;
+  // 1-10, from how often and how recently the person comes up
+  relationshipStrength: number;
+  // Month by month (YYYY-MM), oldest first
+  moodOverTime: { month: string; averageMood: number; memoryCount: number }[];
+  topTags: { name: string; count: number }[];
+  topEmotions: { name: string; count: number }[];
+  // AI-written, left out when the model is unavailable
+  summary?: string;
+}
+
+// People joined by the memories they share; recent memories weigh more
+export interface PeopleGraph {
+  nodes: {
+    id: string;
+    name: string;
+    relationship?: string;
+    memoryCount: number;
+    communityId?: string;
+  }[];
+  edges: {
+    source: string;
+    target: string;
+    weight: number;
+    memoryCount: number;
+    lastSharedAt: string;
+  }[];
+  // Groups of people who mostly appear with each other
+  communities: {
+    id: string;
+    label: string;
+    personIds: string[];
+    tags: string[];
+  }[];
+  halfLifeDays: number;
+}
+
 export interface CreatePersonRequest {
   name: string;
+  aliases?: string[];
   relationship: string;
   avatar_url?: string;
   notes?: string;
@@ -70,30 +212,116 @@ export interface CreatePersonRequest {
 
 export interface UpdatePersonRequest {
   name?: string;
+  aliases?: string[];
   relationship?: string;
   avatar_url?: string;
   notes?: string;
 }
 
 // Nudge types
+export type NudgeType = 'reconnect' | 'log_memory' | 'emotional_gap' | 'person_reminder' | 'milestone' | 'memory';
+export type NudgePriority = 'low' | 'medium' | 'high';
+
+// Active nudges are shown, snoozed ones come back at snoozedUntil; actioned,
+// dismissed and expired ones are finished
+export type NudgeStatus = 'active' | 'snoozed' | 'actioned' | 'dismissed' | 'expired';
+
 export interface Nudge {
   id: string;
-  user_id: string;
-  type: 'silence' | 'emotional_gap' | 'reconnect' | 'milestone';
+  userId: string;
+  type: NudgeType;
   title: string;
   message: string;
-  action_url?: string;
-  is_read: boolean;
-  created_at: string;
-  expires_at?: string;
+  priority: NudgePriority;
+  // Person ids
+  relatedPeople: string[];
+  // Memory ids
+  relatedMemories: string[];
+  isRead: boolean;
+  isActioned: boolean;
+  snoozedUntil?: string;
+  dismissedAt?: string;
+  expiresAt?: string;
+  status: NudgeStatus;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface CreateNudgeRequest {
-  type: 'silence' | 'emotional_gap' | 'reconnect' | 'milestone';
+  type: NudgeType;
   title: string;
   message: string;
-  action_url?: string;
-  expires_at?: string;
+  priority?: NudgePriority;
+  relatedPeople?: string[];
+  relatedMemories?: string[];
+  expiresAt?: string;
+}
+
+// Resurfacing ("on this day") types
+export type ResurfaceKind = 'on_this_day' | 'month_ago' | 'year_ago';
+
+export interface ResurfacedMemory {
+  kind: ResurfaceKind;
+  // Whole years back, for on_this_day picks
+  yearsAgo?: number;
+  memory: Memory;
+  people: Array<Pick<Person, 'id' | 'name'>>;
+}
+
+export interface ResurfaceResult {
+  // The user's local date, as YYYY-MM-DD
+  date: string;
+  picks: ResurfacedMemory[];
+}
+
+export interface ResurfacingSettings {
+  enabled: boolean;
+  // Also deliver the day's pick as a nudge
+  nudge: boolean;
+  mutedMemories: Array<Pick<Memory, 'id' | 'title'>>;
+  mutedPeople: Array<Pick<Person, 'id' | 'name'>>;
+}
+
+export type ResurfaceMuteTarget = 'memories' | 'people';
+
+// Notification types
+export type NotificationChannel = 'push' | 'email' | 'webhook';
+export type DigestFrequency = 'daily' | 'weekly';
+
+export interface ChannelPreferences {
+  push?: { enabled: boolean };
+  // Digest sent at `hour` local time, on `weekday` (0 is Sunday) when weekly
+  email?: { enabled: boolean; frequency?: DigestFrequency; hour?: number; weekday?: number };
+  // Requests are signed with `secret`; the server issues it when the URL is set
+  webhook?: { enabled: boolean; url?: string; secret?: string };
+}
+
+export interface ChannelPreferencesUpdate {
+  push?: { enabled?: boolean };
+  email?: { enabled?: boolean; frequency?: DigestFrequency; hour?: number; weekday?: number };
+  webhook?: { enabled?: boolean; url?: string; rotateSecret?: boolean };
+}
+
+export interface PushSubscriptionInfo {
+  id: string;
+  endpoint: string;
+  userAgent?: string;
+  createdAt: string;
+}
+
+export type DeliveryStatus = 'pending' | 'sent' | 'failed';
+
+export interface NotificationDelivery {
+  id: string;
+  channel: NotificationChannel;
+  kind: 'nudge' | 'digest' | 'test';
+  status: DeliveryStatus;
+  target: string;
+  nudgeIds: string[];
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+  deliveredAt?: string;
 }
 
 // AI Service types
@@ -103,34 +331,89 @@ export interface SummarizeRequest {
 
 export interface SummarizeResponse {
   summary: string;
-  mood: string;
-  emotions: string[];
-  people_mentioned: string[];
+  mood: number;
+  emotions: Emotion;
+  tags: string[];
+  people: string[];
+}
+
+export interface QueryFilters {
+  people?: string[];
+  dateRange?: {
+    start: string;
+    end: string;
+  };
+  emotions?: string[];
+  tags?: string[];
 }
 
 export interface QueryRequest {
   query: string;
-  filters?: {
-    people?: string[];
-    date_range?: {
-      start: string;
-      end: string;
-    };
-    mood?: string;
-    emotions?: string[];
-  };
+  filters?: QueryFilters;
   limit?: number;
+  threshold?: number;
+}
+
+export interface MemorySearchResult extends Memory {
+  similarity: number;
 }
 
 export interface QueryResponse {
-  memories: Memory[];
-  relevance_scores: number[];
-  total_count: number;
+  memories: MemorySearchResult[];
+  query: string;
+  explanation: string;
+  confidence: number;
+}
+
+export type SearchRetriever = 'keyword' | 'semantic';
+
+export interface SearchHighlight {
+  field: 'title' | 'content' | 'summary';
+  text: string;
+  matches: Array<{ start: number; end: number }>;
+}
+
+export interface HybridSearchResult {
+  memory: Memory;
+  score: number;
+  matchedBy: SearchRetriever[];
+  similarity?: number;
+  highlights: SearchHighlight[];
+}
+
+export interface HybridSearchResponse {
+  query: string;
+  results: HybridSearchResult[];
+  semanticAvailable: boolean;
+}
+
+export interface AskCitation {
+  index: number;
+  memoryId: string;
+  title: string;
+  createdAt: string;
+  snippet: string;
+}
+
+export interface AskTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AskRequest {
+  question: string;
+  history?: AskTurn[];
+}
+
+export interface AskResponse {
+  answer: string;
+  citations: AskCitation[];
+  citedMemoryIds: string[];
 }
 
 export interface GenerateNudgeRequest {
   user_id: string;
-  type: 'silence' | 'emotional_gap' | 'reconnect' | 'milestone';
+  type: NudgeType;
 }
 
 export interface GenerateNudgeResponse {
@@ -182,6 +465,81 @@ export interface TranscriptionResult {
   duration: number;
 }
 
+// Offsets are in seconds from the start of the recording
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ServerTranscription {
+  text: string;
+  language: string;
+  duration?: number;
+  segments: TranscriptSegment[];
+}
+
+// Data export types
+export type ExportFormat = 'json' | 'csv' | 'markdown' | 'zip';
+export type ExportEntity = 'memories' | 'people' | 'attachments' | 'nudges';
+
+// A background export; downloadUrl is set once it is done
+export interface ExportStatus {
+  id: string;
+  format: ExportFormat;
+  entity?: ExportEntity;
+  status: 'pending' | 'processing' | 'done' | 'failed';
+  error?: string;
+  downloadUrl?: string;
+  createdAt: string;
+}
+
+// Small accounts get the file straight away; large ones are exported in the background
+export type ExportResult =
+  | { file: Blob; filename: string }
+  | { pending: ExportStatus };
+
+// Data import types
+export type ImportFormat = 'dayone' | 'journey' | 'markdown' | 'csv';
+
+// CSV column header for each memory field; common headers are found without one
+export interface CsvColumnMapping {
+  content?: string;
+  createdAt?: string;
+  title?: string;
+  tags?: string;
+  people?: string;
+  location?: string;
+  weather?: string;
+  isPrivate?: string;
+}
+
+export interface ImportOptions {
+  // Detected from the files when omitted
+  format?: ImportFormat;
+  dryRun?: boolean;
+  mapping?: CsvColumnMapping;
+}
+
+export interface ImportPreviewItem {
+  source: string;
+  title: string;
+  createdAt: string;
+  people: string[];
+  tags: string[];
+  duplicate: boolean;
+}
+
+export interface ImportResult {
+  format: ImportFormat;
+  dryRun: boolean;
+  imported: number;
+  duplicates: number;
+  errors: string[];
+  newPeople: string[];
+  preview?: ImportPreviewItem[];
+}
+
 // API Response types
 export interface ApiResponse<T> {
   success: boolean;
@@ -190,6 +548,17 @@ export interface ApiResponse<T> {
   message?: string;
 }
 
+// A page of memories as the memory listings return them
+export interface MemoryPage {
+  memories: Memory[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
 export interface PaginatedResponse<T> {
   data: T[];
   pagination: {